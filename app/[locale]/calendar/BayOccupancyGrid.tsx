@@ -0,0 +1,126 @@
+/**
+ * BayOccupancyGrid Component
+ *
+ * Hour-by-hour time grid for one day: a column per active bay plus one for
+ * jobs without a bay yet. Hours where the jobs outnumber the bays, and bays
+ * holding more than one job at once, are highlighted.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { BayOccupancyResponse } from '@/lib/types';
+
+interface BayOccupancyGridProps {
+  boardDate: string; // YYYY-MM-DD
+  locale: string;
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12} ${suffix}`;
+}
+
+export default function BayOccupancyGrid({ boardDate, locale }: BayOccupancyGridProps) {
+  const [occupancy, setOccupancy] = useState<BayOccupancyResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchOccupancy = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await fetch(`/api/bays/occupancy?boardDate=${boardDate}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load bay occupancy');
+        }
+        setOccupancy(data.data);
+      } catch (err) {
+        console.error('Bay occupancy error:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOccupancy();
+  }, [boardDate]);
+
+  if (loading) {
+    return <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>Loading bay occupancy...</p>;
+  }
+
+  if (error || !occupancy) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+
+  if (occupancy.bays.length === 0) {
+    return (
+      <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>
+        No bays set up yet. Add them under Settings → Bays &amp; Stations.
+      </p>
+    );
+  }
+
+  const jobNames = new Map(occupancy.jobs.map(job => [job.jobId, job.customerName]));
+
+  const renderJobs = (jobIds: string[]) => jobIds.map(jobId => (
+    <Link
+      key={jobId}
+      href={`/${locale}/jobs/${jobId}`}
+      className="block truncate hover:underline"
+    >
+      {jobNames.get(jobId) || jobId}
+    </Link>
+  ));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs sm:text-sm border-collapse">
+        <thead>
+          <tr>
+            <th className="p-2 text-left font-semibold" style={{ color: 'var(--sf-brown)' }}>Hour</th>
+            {occupancy.bays.map(bay => (
+              <th key={bay.bayId} className="p-2 text-left font-semibold" style={{ color: 'var(--sf-brown)' }}>
+                {bay.name}
+              </th>
+            ))}
+            <th className="p-2 text-left font-semibold" style={{ color: 'var(--sf-muted)' }}>No bay</th>
+          </tr>
+        </thead>
+        <tbody>
+          {occupancy.hours.map(hour => {
+            const booked = hour.bays.reduce((sum, bay) => sum + bay.jobIds.length, 0) + hour.unassignedJobIds.length;
+            const overCapacity = booked > hour.capacity;
+
+            return (
+              <tr key={hour.hour} className={overCapacity ? 'bg-red-50' : undefined}>
+                <td className="p-2 border-t whitespace-nowrap" style={{ borderColor: 'var(--sf-border)', color: 'var(--sf-ink)' }}>
+                  {formatHour(hour.hour)}
+                  <span className={`block text-[10px] ${overCapacity ? 'text-red-700 font-semibold' : ''}`} style={overCapacity ? undefined : { color: 'var(--sf-muted)' }}>
+                    {booked}/{hour.capacity}
+                  </span>
+                </td>
+                {hour.bays.map(bay => (
+                  <td
+                    key={bay.bayId}
+                    className={`p-2 border-t align-top ${bay.jobIds.length > 1 ? 'bg-red-100 text-red-800' : bay.jobIds.length === 1 ? 'bg-orange-50' : ''}`}
+                    style={{ borderColor: 'var(--sf-border)', color: bay.jobIds.length > 1 ? undefined : 'var(--sf-ink)' }}
+                  >
+                    {renderJobs(bay.jobIds)}
+                  </td>
+                ))}
+                <td className="p-2 border-t align-top" style={{ borderColor: 'var(--sf-border)', color: 'var(--sf-muted)' }}>
+                  {renderJobs(hour.unassignedJobIds)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
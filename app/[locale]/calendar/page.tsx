@@ -7,6 +7,7 @@ import { useParams } from 'next/navigation';
 import { useTranslations } from '@/lib/i18n/provider';
 import { usePolling } from '@/lib/hooks/usePolling';
 import type { Locale } from '@/i18n';
+import BayOccupancyGrid from './BayOccupancyGrid';
 
 interface Job {
   jobId: string;
@@ -29,6 +30,7 @@ export default function CalendarPage() {
   const locale = params.locale as Locale;
 
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null); // YYYY-MM-DD for the bay grid
 
   // Fetch jobs with polling (every 20 seconds)
   const fetchJobs = useCallback(async (): Promise<Job[]> => {
@@ -197,13 +199,15 @@ export default function CalendarPage() {
                 const dateString = date.toDateString();
                 const isToday = dateString === today;
                 const dayJobs = jobsByDate[dateString] || [];
+                const boardDate = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 
                 return (
                   <div
                     key={day}
-                    className={`p-1 sm:p-2 min-h-[60px] sm:min-h-[100px] border rounded ${
+                    onClick={() => setSelectedDate(boardDate)}
+                    className={`p-1 sm:p-2 min-h-[60px] sm:min-h-[100px] border rounded cursor-pointer ${
                       isToday ? 'bg-sky-50 border-sky-500' : 'border-gray-200 hover:bg-gray-50'
-                    } transition`}
+                    } ${selectedDate === boardDate ? 'ring-2 ring-[#F47C20]' : ''} transition`}
                   >
                     <div className={`font-medium mb-0.5 sm:mb-1 text-xs sm:text-base ${isToday ? 'text-sky-600' : 'text-gray-700'}`}>
                       {day}
@@ -231,6 +235,20 @@ export default function CalendarPage() {
           </div>
         )}
 
+        {selectedDate && (
+          <div className="mt-4 sm:mt-6 bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold" style={{ color: 'var(--sf-ink)' }}>
+                Bay occupancy · {new Date(`${selectedDate}T00:00:00`).toLocaleDateString(locale === 'ar' ? 'ar-SA' : locale === 'es' ? 'es-ES' : 'en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              </h3>
+              <button onClick={() => setSelectedDate(null)} className="text-sm underline" style={{ color: 'var(--sf-muted)' }}>
+                Close
+              </button>
+            </div>
+            <BayOccupancyGrid boardDate={selectedDate} locale={locale} />
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md flex items-center justify-between">
             <span>{tCommon('error')}: {error.message || 'Failed to load jobs'}</span>
@@ -0,0 +1,30 @@
+import type { JobCustomerFlags } from '@/lib/types';
+import { isAlertTag } from '@/lib/workflow/customer-flags';
+
+interface CustomerFlagBadgesProps {
+  flags?: JobCustomerFlags;
+  className?: string;
+}
+
+export function CustomerFlagBadges({ flags, className = '' }: CustomerFlagBadgesProps) {
+  if (!flags || flags.tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {flags.tags.map(tag => (
+        <span
+          key={tag}
+          className={`text-xs px-2 py-0.5 rounded-full font-medium border ${
+            isAlertTag(tag)
+              ? 'bg-red-50 text-red-700 border-red-200'
+              : 'bg-[#FEF3C7] text-[#92400E] border-[#FDE68A]'
+          }`}
+        >
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+}
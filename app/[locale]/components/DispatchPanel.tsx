@@ -0,0 +1,178 @@
+/**
+ * DispatchPanel Component
+ *
+ * Auto-dispatch plan for the board date: the proposed tech for each
+ * unassigned SCHEDULED job (or why none fits) and each tech's load.
+ * Managers can change any pick, or skip a job, then accept the whole plan.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DispatchPlanResponse, DispatchSkipReason, Job } from '@/lib/types';
+import type { AssignableUserOption } from '../../components/AssigneePicker';
+
+interface DispatchPanelProps {
+  boardDate: string;
+  users: AssignableUserOption[];
+  onApplied: (jobs: Job[]) => void;
+  onClose: () => void;
+}
+
+const SKIP_REASON_LABELS: Record<DispatchSkipReason, string> = {
+  NO_SKILLED_TECH: 'No tech has the required skills',
+  NO_TECH_ON_SHIFT: 'No skilled tech is on shift',
+  ALL_TECHS_BUSY: 'All skilled techs are busy',
+};
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest ? ` ${rest}m` : ''}` : `${rest}m`;
+}
+
+export default function DispatchPanel({ boardDate, users, onApplied, onClose }: DispatchPanelProps) {
+  const [plan, setPlan] = useState<DispatchPlanResponse | null>(null);
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const techs = users.filter(user => user.role === 'TECH');
+
+  useEffect(() => {
+    const fetchPlan = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await fetch(`/api/manager/dispatch?boardDate=${boardDate}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to build dispatch plan');
+        }
+        const nextPlan: DispatchPlanResponse = data.data;
+        setPlan(nextPlan);
+        setPicks(Object.fromEntries(nextPlan.proposals.map(proposal => [proposal.jobId, proposal.userId || ''])));
+      } catch (err) {
+        console.error('Dispatch plan error:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlan();
+  }, [boardDate]);
+
+  const assignments = Object.entries(picks)
+    .filter(([, userId]) => userId)
+    .map(([jobId, userId]) => ({ jobId, userId }));
+
+  const handleApply = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch('/api/manager/dispatch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignments }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to apply dispatch plan');
+      }
+
+      onApplied(data.data.jobs);
+      if (data.data.failed.length > 0) {
+        setError(data.data.failed.map((failure: { jobId: string; message: string }) => failure.message).join(' '));
+        setPicks(Object.fromEntries(data.data.failed.map((failure: { jobId: string }) => [failure.jobId, picks[failure.jobId]])));
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      console.error('Dispatch apply error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-white border rounded-xl space-y-3" style={{ borderColor: 'var(--sf-border)' }}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold" style={{ color: 'var(--sf-ink)' }}>Auto-dispatch</h3>
+        <button onClick={onClose} className="text-sm underline" style={{ color: 'var(--sf-muted)' }}>
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading && <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>Building plan...</p>}
+
+      {!loading && plan && plan.proposals.length === 0 && (
+        <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>No unassigned scheduled jobs on this date.</p>
+      )}
+
+      {!loading && plan && plan.proposals.length > 0 && (
+        <>
+          <div className="space-y-2">
+            {plan.proposals.filter(proposal => proposal.jobId in picks).map(proposal => (
+              <div key={proposal.jobId} className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                <div className="flex-1" style={{ color: 'var(--sf-ink)' }}>
+                  <span className="font-medium">
+                    {proposal.appointmentTime
+                      ? new Date(proposal.appointmentTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+                      : 'No time'}
+                  </span>
+                  {' '}{proposal.customerName} — {proposal.serviceType} ({formatMinutes(proposal.durationMinutes)})
+                  {proposal.requiredSkills.length > 0 && (
+                    <span className="ml-1 text-xs" style={{ color: 'var(--sf-muted)' }}>
+                      [{proposal.requiredSkills.join(', ')}]
+                    </span>
+                  )}
+                  {proposal.reason && (
+                    <span className="block text-xs text-amber-700">⚠️ {SKIP_REASON_LABELS[proposal.reason]}</span>
+                  )}
+                </div>
+                <select
+                  value={picks[proposal.jobId] || ''}
+                  onChange={(e) => setPicks(current => ({ ...current, [proposal.jobId]: e.target.value }))}
+                  className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+                  style={{ borderColor: 'var(--sf-border)', color: 'var(--sf-ink)' }}
+                >
+                  <option value="">Leave unassigned</option>
+                  {techs.map(tech => (
+                    <option key={tech.userId} value={tech.userId}>{tech.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {plan.techs.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs" style={{ color: 'var(--sf-muted)' }}>
+              {plan.techs.map(tech => (
+                <span key={tech.userId} className="px-2 py-1 rounded-full bg-[#FAF6EF]">
+                  {tech.name}: {tech.jobCount} job{tech.jobCount === 1 ? '' : 's'}, {formatMinutes(tech.assignedMinutes + tech.proposedMinutes)}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleApply}
+            disabled={saving || assignments.length === 0}
+            className="px-4 py-2 bg-[#F47C20] hover:bg-[#DB6E1C] text-white rounded-lg font-medium sf-button-transition disabled:opacity-50"
+          >
+            {saving ? 'Assigning...' : `Assign ${assignments.length} job${assignments.length === 1 ? '' : 's'}`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
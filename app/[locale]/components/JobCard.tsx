@@ -6,8 +6,9 @@
 
 'use client';
 
-import { WorkStatus, PaymentStatus } from '@/lib/types';
+import { WorkStatus, PaymentStatus, type JobCustomerFlags } from '@/lib/types';
 import { PaymentBadge } from './PaymentBadge';
+import { CustomerFlagBadges } from './CustomerFlagBadges';
 
 interface JobCardProps {
   jobId: string;
@@ -17,7 +18,8 @@ interface JobCardProps {
   scheduledStart: string;
   workStatus: WorkStatus;
   paymentStatus: PaymentStatus;
-  hasOpenIssue: boolean;
+  openIssueCount: number; // Unresolved post-completion issues
+  customerFlags?: JobCustomerFlags;
   onStatusChange?: (jobId: string, newStatus: WorkStatus) => void;
   onPaymentToggle?: (jobId: string) => void;
   onViewDetails?: (jobId: string) => void;
@@ -32,7 +34,8 @@ export function JobCard({
   scheduledStart,
   workStatus,
   paymentStatus,
-  hasOpenIssue,
+  openIssueCount,
+  customerFlags,
   onStatusChange,
   onPaymentToggle,
   onViewDetails,
@@ -75,7 +78,7 @@ export function JobCard({
     <div
       className={`
         bg-white rounded-lg border-2 shadow-sm p-4 mb-3
-        ${hasOpenIssue ? 'border-red-500' : 'border-gray-200'}
+        ${openIssueCount > 0 ? 'border-red-500' : 'border-gray-200'}
         ${isUpdating ? 'opacity-50' : ''}
       `}
     >
@@ -86,6 +89,7 @@ export function JobCard({
             {customerName}
           </h3>
           <p className="text-sm text-gray-600">{vehicleInfo}</p>
+          <CustomerFlagBadges flags={customerFlags} className="mt-2" />
         </div>
         <PaymentBadge status={paymentStatus} />
       </div>
@@ -109,9 +113,11 @@ export function JobCard({
       </div>
 
       {/* Issue Warning */}
-      {hasOpenIssue && (
+      {openIssueCount > 0 && (
         <div className="mb-3 px-3 py-2 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-sm text-red-700 font-medium">⚠️ Open Issue</p>
+          <p className="text-sm text-red-700 font-medium">
+            ⚠️ {openIssueCount} Open Issue{openIssueCount === 1 ? '' : 's'}
+          </p>
         </div>
       )}
 
@@ -6,21 +6,31 @@
 
 'use client';
 
-import { WorkStatus, PaymentStatus } from '@/lib/types';
+import { WorkStatus, PaymentStatus, UserRole } from '@/lib/types';
+import type { WorkflowStage } from '@/lib/types';
+import {
+  getAvailableTransitions,
+  getSubjectStatus,
+  type TransitionSubject,
+} from '@/lib/workflow/status-transitions';
 import { useState } from 'react';
 
 interface StickyActionBarProps {
-  currentStatus: WorkStatus;
+  job: TransitionSubject;
+  userRole: UserRole;
+  stages?: WorkflowStage[]; // The service's pipeline (default pipeline if omitted)
   paymentStatus: PaymentStatus;
   hasReceipt: boolean;
-  onStatusChange: (newStatus: WorkStatus) => Promise<void>;
+  onStatusChange: (newStatus: WorkStatus, stageId: string) => Promise<void>;
   onPaymentToggle: () => void;
   onReceiptUpload: () => void;
   isUpdating?: boolean;
 }
 
 export function StickyActionBar({
-  currentStatus,
+  job,
+  userRole,
+  stages,
   paymentStatus,
   hasReceipt,
   onStatusChange,
@@ -30,39 +40,11 @@ export function StickyActionBar({
 }: StickyActionBarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  // Define possible next statuses based on current status
-  const getNextStatuses = (): { status: WorkStatus; label: string; icon: string }[] => {
-    // No actions available for cancelled jobs
-    if (currentStatus === WorkStatus.CANCELLED) {
-      return [];
-    }
-    
-    switch (currentStatus) {
-      case WorkStatus.SCHEDULED:
-        return [
-          { status: WorkStatus.CHECKED_IN, label: 'Check In', icon: '📋' },
-        ];
-      case WorkStatus.CHECKED_IN:
-        return [
-          { status: WorkStatus.IN_PROGRESS, label: 'Start Work', icon: '🔧' },
-        ];
-      case WorkStatus.IN_PROGRESS:
-        return [
-          { status: WorkStatus.QC_READY, label: 'QC Ready', icon: '✓' },
-        ];
-      case WorkStatus.QC_READY:
-        return [
-          { status: WorkStatus.WORK_COMPLETED, label: 'Complete', icon: '✓✓' },
-        ];
-      case WorkStatus.WORK_COMPLETED:
-        return [];
-      default:
-        return [];
-    }
-  };
-
-  const nextStatuses = getNextStatuses();
-  const canMarkPaid = currentStatus === WorkStatus.WORK_COMPLETED;
+  // Forward moves only; the same table is enforced by PATCH /api/jobs/[jobId]
+  const nextStatuses = getAvailableTransitions(job, userRole, stages).filter(
+    transition => transition.direction === 'forward'
+  );
+  const canMarkPaid = getSubjectStatus(job) === WorkStatus.WORK_COMPLETED;
   const isPaid = paymentStatus === PaymentStatus.PAID;
 
   return (
@@ -76,11 +58,12 @@ export function StickyActionBar({
           {/* Status Actions */}
           {nextStatuses.length > 0 && (
             <div className="flex gap-2 mb-2">
-              {nextStatuses.map(({ status, label, icon }) => (
+              {nextStatuses.map(({ to, toStage, label, icon, check }) => (
                 <button
-                  key={status}
-                  onClick={() => onStatusChange(status)}
-                  disabled={isUpdating}
+                  key={toStage}
+                  onClick={() => onStatusChange(to, toStage)}
+                  disabled={isUpdating || !check.allowed}
+                  title={check.rejections.map(r => r.message).join(' ') || undefined}
                   className="
                     flex-1 h-12 bg-blue-600 hover:bg-blue-700 
                     text-white font-medium rounded-lg
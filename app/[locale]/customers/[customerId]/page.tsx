@@ -0,0 +1,412 @@
+/**
+ * Customer Profile Page
+ *
+ * Contact info, tags and preferences (editable by managers), lifetime
+ * value (spend, visit frequency, no-shows), the customer's vehicles, open
+ * issues and every job with its status and payment, newest first.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useParams, useRouter } from 'next/navigation';
+import { PaymentStatus, UserRole, type CustomerProfileResponse } from '@/lib/types';
+import { formatCents } from '@/lib/utils/money';
+import { CUSTOMER_FLAG_ROLES, hasCustomerFlags, normalizeCustomerTags, SUGGESTED_CUSTOMER_TAGS } from '@/lib/workflow/customer-flags';
+import { CustomerFlagBadges } from '../../components/CustomerFlagBadges';
+import type { Locale } from '@/i18n';
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-white rounded-xl p-4" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+      <div className="text-sm" style={{ color: 'var(--sf-muted)' }}>{label}</div>
+      <div className="text-2xl font-bold" style={{ color: 'var(--sf-ink)' }}>{value}</div>
+      {hint && <div className="text-xs text-gray-500 mt-1">{hint}</div>}
+    </div>
+  );
+}
+
+export default function CustomerProfilePage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as Locale;
+  const customerId = params.customerId as string;
+
+  const [profile, setProfile] = useState<CustomerProfileResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [canEditFlags, setCanEditFlags] = useState(false);
+  const [editingFlags, setEditingFlags] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [preferences, setPreferences] = useState('');
+  const [savingFlags, setSavingFlags] = useState(false);
+  const [flagsNotice, setFlagsNotice] = useState('');
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch(`/api/customers/${customerId}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load customer');
+        }
+        setProfile(data.data);
+      } catch (err) {
+        console.error('Failed to fetch customer:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const fetchRole = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        const data = await response.json();
+        setCanEditFlags(CUSTOMER_FLAG_ROLES.includes(data.data?.user?.role as UserRole));
+      } catch (err) {
+        console.error('Failed to fetch current user:', err);
+      }
+    };
+
+    fetchProfile();
+    fetchRole();
+  }, [customerId]);
+
+  const startEditingFlags = () => {
+    setTags(profile?.flags?.tags || []);
+    setPreferences(profile?.flags?.preferences || '');
+    setTagInput('');
+    setFlagsNotice('');
+    setEditingFlags(true);
+  };
+
+  const addTag = (tag: string) => {
+    setTags(normalizeCustomerTags([...tags, tag]));
+    setTagInput('');
+  };
+
+  const handleSaveFlags = async () => {
+    setSavingFlags(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/customers/${customerId}/flags`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tags: tagInput.trim() ? [...tags, tagInput] : tags,
+          preferences,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to save customer flags');
+      }
+      setProfile(current => current && { ...current, flags: data.data.flags });
+      setFlagsNotice(`Updated ${data.data.updatedJobCount} upcoming ${data.data.updatedJobCount === 1 ? 'job' : 'jobs'}`);
+      setEditingFlags(false);
+    } catch (err) {
+      console.error('Failed to save customer flags:', err);
+      setError((err as Error).message);
+    } finally {
+      setSavingFlags(false);
+    }
+  };
+
+  const formatDate = (timestamp?: string) => timestamp
+    ? new Date(timestamp).toLocaleDateString(
+        locale === 'ar' ? 'ar-SA' : locale === 'es' ? 'es-ES' : 'en-US',
+        { year: 'numeric', month: 'short', day: 'numeric' }
+      )
+    : 'Not scheduled';
+
+  const stats = profile?.stats;
+
+  return (
+    <div className="min-h-screen" style={{ background: 'var(--sf-bg)' }}>
+      <header className="bg-white shadow-sm border-b-[3px] border-[#F47C20]" style={{ boxShadow: 'var(--sf-shadow)' }}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.back()}
+              className="px-5 py-2 bg-white border border-[#E7E2D8] rounded-xl hover:bg-[#FAF6EF] sf-button-transition"
+              style={{ color: 'var(--sf-ink)' }}
+            >
+              {locale === 'ar' ? '→' : '←'}
+            </button>
+            <Image src="/safari-logo.png" alt="Safari Car Wash" width={50} height={50} className="object-contain" />
+            <h1 className="text-xl font-bold" style={{ color: 'var(--sf-ink)' }}>
+              {profile?.customer.name || 'Customer'}
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center py-12" style={{ color: 'var(--sf-muted)' }}>Loading customer...</div>
+        )}
+
+        {profile && stats && (
+          <>
+            <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>Contact</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-600">Phone</label>
+                  <div className="font-medium text-gray-900">
+                    {profile.customer.phone ? (
+                      <a href={`tel:${profile.customer.phone}`} className="hover:underline">{profile.customer.phone}</a>
+                    ) : 'Not provided'}
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">Email</label>
+                  <div className="font-medium text-gray-900">{profile.customer.email || 'Not provided'}</div>
+                </div>
+              </div>
+              {profile.contactSource === 'JOBS' && (
+                <p className="text-xs text-gray-500 mt-3">Square is unavailable; showing contact info from the latest job.</p>
+              )}
+            </section>
+
+            <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold" style={{ color: 'var(--sf-ink)' }}>Tags &amp; preferences</h2>
+                {canEditFlags && !editingFlags && (
+                  <button
+                    onClick={startEditingFlags}
+                    className="px-4 py-2 bg-[#F47C20] text-white rounded-lg hover:bg-[#DB6E1C] sf-button-transition text-sm"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+
+              {editingFlags ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map(tag => (
+                      <span key={tag} className="text-sm px-3 py-1 rounded-full bg-[#FEF3C7] text-[#92400E] border border-[#FDE68A]">
+                        {tag}
+                        <button
+                          onClick={() => setTags(tags.filter(existing => existing !== tag))}
+                          className="ml-2 font-bold"
+                          aria-label={`Remove ${tag}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && tagInput.trim()) {
+                          e.preventDefault();
+                          addTag(tagInput);
+                        }
+                      }}
+                      placeholder="Add a tag"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    />
+                    <button
+                      onClick={() => addTag(tagInput)}
+                      disabled={!tagInput.trim()}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {SUGGESTED_CUSTOMER_TAGS
+                      .filter(suggested => !tags.some(tag => tag.toLowerCase() === suggested.toLowerCase()))
+                      .map(suggested => (
+                        <button
+                          key={suggested}
+                          onClick={() => addTag(suggested)}
+                          className="text-xs px-3 py-1 rounded-full border border-dashed border-gray-300 text-gray-600 hover:bg-[#FAF6EF]"
+                        >
+                          + {suggested}
+                        </button>
+                      ))}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Preferences</label>
+                    <textarea
+                      value={preferences}
+                      onChange={(e) => setPreferences(e.target.value)}
+                      rows={3}
+                      placeholder="e.g. Fragrance allergy: no air freshener. Park in the shade."
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    />
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleSaveFlags}
+                      disabled={savingFlags}
+                      className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                    >
+                      {savingFlags ? 'Saving...' : '✓ Save'}
+                    </button>
+                    <button
+                      onClick={() => setEditingFlags(false)}
+                      disabled={savingFlags}
+                      className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition disabled:opacity-50"
+                    >
+                      ✕ Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : hasCustomerFlags(profile.flags) ? (
+                <div className="space-y-2">
+                  <CustomerFlagBadges flags={profile.flags} />
+                  {profile.flags.preferences && (
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{profile.flags.preferences}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Updated {formatDate(profile.flags.updatedAt)} by {profile.flags.updatedBy.name}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No tags or preferences</p>
+              )}
+              {flagsNotice && <p className="text-xs text-green-700 mt-2">{flagsNotice}</p>}
+            </section>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard label="Total spend" value={formatCents(stats.totalSpendCents)} />
+              <StatCard
+                label="Visits"
+                value={stats.visitCount.toString()}
+                hint={stats.averageDaysBetweenVisits !== undefined
+                  ? `Every ${stats.averageDaysBetweenVisits} days on average`
+                  : stats.lastVisitAt ? `Last visit ${formatDate(stats.lastVisitAt)}` : undefined}
+              />
+              <StatCard
+                label="No-shows"
+                value={stats.noShowCount.toString()}
+                hint={stats.cancelledCount > 0 ? `${stats.cancelledCount} cancelled` : undefined}
+              />
+              <StatCard label="Open issues" value={stats.openIssueCount.toString()} />
+            </div>
+
+            <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>
+                Vehicles ({profile.vehicles.length})
+              </h2>
+              {profile.vehicles.length === 0 ? (
+                <p className="text-sm text-gray-500">No vehicles recorded</p>
+              ) : (
+                <ul className="space-y-2">
+                  {profile.vehicles.map(vehicle => (
+                    <li key={vehicle.vehicleId || vehicle.licensePlate} className="flex items-center justify-between gap-4">
+                      <div>
+                        <div className="font-medium text-gray-900">{vehicle.description}</div>
+                        <div className="text-sm text-gray-600">
+                          {vehicle.licensePlate || 'No plate'} · {vehicle.visitCount} {vehicle.visitCount === 1 ? 'job' : 'jobs'}
+                        </div>
+                      </div>
+                      {vehicle.vehicleId && (
+                        <button
+                          onClick={() => router.push(`/${locale}/vehicles/${vehicle.vehicleId}`)}
+                          className="text-sm font-medium text-[#F47C20] hover:underline whitespace-nowrap"
+                        >
+                          History →
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {profile.openIssues.length > 0 && (
+              <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+                <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>Open issues</h2>
+                <ul className="space-y-2">
+                  {profile.openIssues.map(({ jobId, serviceType, issue }) => (
+                    <li key={issue.issueId}>
+                      <button
+                        onClick={() => router.push(`/${locale}/jobs/${jobId}`)}
+                        className="w-full text-left text-sm hover:underline"
+                      >
+                        <span className="text-red-700 font-medium">⚠️ {issue.type.replace(/_/g, ' ')}</span>
+                        <span className="text-gray-700"> · {serviceType} · opened {formatDate(issue.openedAt)}</span>
+                        {issue.notes && <span className="text-gray-500"> · {issue.notes}</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>
+                Jobs ({profile.jobs.length})
+              </h2>
+              {profile.jobs.length === 0 ? (
+                <p className="text-sm text-gray-500">No jobs yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Service</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium">Payment</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {profile.jobs.map(job => (
+                        <tr
+                          key={job.jobId}
+                          onClick={() => router.push(`/${locale}/jobs/${job.jobId}`)}
+                          className="border-b border-gray-100 cursor-pointer hover:bg-[#FAF6EF]"
+                        >
+                          <td className="py-2 pr-4 text-gray-900 whitespace-nowrap">{formatDate(job.appointmentTime)}</td>
+                          <td className="py-2 pr-4 text-gray-900">
+                            {job.serviceType}
+                            {job.redoOfJobId && (
+                              <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 font-medium">Redo</span>
+                            )}
+                            {job.openIssueCount > 0 && (
+                              <span className="ml-2 text-xs text-red-700">⚠️ {job.openIssueCount}</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-700">{job.status.replace(/_/g, ' ')}</td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {job.payment ? (
+                              <span className={job.payment.status === PaymentStatus.PAID ? 'text-green-700' : 'text-gray-700'}>
+                                {job.payment.amountCents !== undefined && `${formatCents(job.payment.amountCents)} · `}
+                                {job.payment.status}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Customer Search Page
+ *
+ * Find a customer by email, phone number or license plate and open their
+ * profile.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import type { CustomerSearchResult } from '@/lib/types';
+import type { Locale } from '@/i18n';
+
+export default function CustomerSearchPage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as Locale;
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CustomerSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearching(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/customers?q=${encodeURIComponent(query.trim())}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Search failed');
+      }
+      setResults(data.data.customers);
+    } catch (err) {
+      console.error('Customer search failed:', err);
+      setError((err as Error).message);
+      setResults(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen" style={{ background: 'var(--sf-bg)' }}>
+      <header className="bg-white shadow-sm border-b-[3px] border-[#F47C20]" style={{ boxShadow: 'var(--sf-shadow)' }}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/${locale}`}
+              className="px-5 py-2 bg-white border border-[#E7E2D8] rounded-xl hover:bg-[#FAF6EF] sf-button-transition"
+              style={{ color: 'var(--sf-ink)' }}
+            >
+              {locale === 'ar' ? '→' : '←'}
+            </Link>
+            <Image src="/safari-logo.png" alt="Safari Car Wash" width={50} height={50} className="object-contain" />
+            <h1 className="text-xl font-bold" style={{ color: 'var(--sf-ink)' }}>Customers</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+        <form onSubmit={handleSearch} className="flex gap-3">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Email, phone number or license plate"
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-xl text-gray-900 bg-white"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={searching || query.trim().length < 3}
+            className="px-6 py-3 bg-[#F47C20] text-white rounded-xl font-medium hover:bg-[#DB6E1C] sf-button-transition disabled:opacity-50"
+          >
+            {searching ? 'Searching...' : 'Search'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {results && (
+          <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            {results.length === 0 ? (
+              <p className="text-sm text-gray-500">No customers found</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {results.map(customer => (
+                  <li key={customer.customerId}>
+                    <button
+                      onClick={() => router.push(`/${locale}/customers/${customer.customerId}`)}
+                      className="w-full text-left py-3 hover:bg-[#FAF6EF] rounded-lg px-2"
+                    >
+                      <div className="font-medium text-gray-900">{customer.name}</div>
+                      <div className="text-sm text-gray-600">
+                        {[customer.phone, customer.email].filter(Boolean).join(' · ') || 'No contact info'}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * BayPicker Component
+ *
+ * Shows the bay a job is booked into. Managers can move it to another
+ * active bay that can take the job's service, or clear it.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Bay, Job, JobBay } from '@/lib/types';
+
+interface BayPickerProps {
+  jobId: string;
+  bay?: JobBay;
+  canAssign: boolean;
+  onAssigned: (job: Job) => void;
+}
+
+export default function BayPicker({ jobId, bay, canAssign, onAssigned }: BayPickerProps) {
+  const [bays, setBays] = useState<Bay[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!canAssign) return;
+
+    const fetchBays = async () => {
+      try {
+        const response = await fetch('/api/bays');
+        const data = await response.json();
+        if (data.success && data.data?.bays) {
+          setBays(data.data.bays.filter((candidate: Bay) => candidate.isActive));
+        }
+      } catch (err) {
+        console.error('Fetch bays error:', err);
+      }
+    };
+
+    fetchBays();
+  }, [canAssign]);
+
+  const handleChange = async (bayId: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/bay`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bayId: bayId || null }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to update bay');
+      }
+      onAssigned(data.data.job);
+    } catch (err) {
+      console.error('Assign bay error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="text-sm space-y-2">
+      {canAssign && bays.length > 0 ? (
+        <select
+          value={bay?.bayId || ''}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={saving}
+          className="px-3 py-2 border rounded-lg bg-white disabled:opacity-50"
+          style={{ borderColor: 'var(--sf-border)', color: 'var(--sf-ink)' }}
+        >
+          <option value="">No bay</option>
+          {bays.map(candidate => (
+            <option key={candidate.bayId} value={candidate.bayId}>
+              {candidate.name}{candidate.capabilities.length > 0 ? ` (${candidate.capabilities.join(', ')})` : ''}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span style={{ color: bay ? 'var(--sf-ink)' : 'var(--sf-muted)' }}>
+          🅿️ {bay?.name || 'No bay'}
+        </span>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+/**
+ * CheckinInspection Component
+ *
+ * Check-in walk-around: one photo per required angle (same presign ->
+ * upload to S3 -> commit flow as PhotoUploader) and a top-down vehicle
+ * outline where techs pin pre-existing damage. Signing it off unlocks
+ * CHECKED_IN -> IN_PROGRESS.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CheckinInspection as Inspection, DamagePin, InspectionAngle, PhotoMeta } from '@/lib/types';
+import {
+  CHECKIN_REQUIRED_ANGLES,
+  INSPECTION_ANGLE_LABELS,
+  getMissingInspectionAngles,
+} from '@/lib/workflow/inspection';
+
+interface CheckinInspectionProps {
+  jobId: string;
+  inspection?: Inspection;
+  photosMeta: PhotoMeta[];
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+type PinDraft = Pick<DamagePin, 'x' | 'y' | 'note' | 'photoId'> & { pinId?: string };
+
+export default function CheckinInspection({
+  jobId,
+  inspection,
+  photosMeta,
+  canEdit,
+  onChange,
+}: CheckinInspectionProps) {
+  const [pins, setPins] = useState<PinDraft[]>(inspection?.damagePins || []);
+  const [notes, setNotes] = useState(inspection?.notes || '');
+  const [uploadingAngle, setUploadingAngle] = useState<InspectionAngle | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Pick up changes saved elsewhere (polling / another device)
+  useEffect(() => {
+    setPins(inspection?.damagePins || []);
+    setNotes(inspection?.notes || '');
+  }, [inspection?.updatedAt]);
+
+  const requiredAngles = inspection?.requiredAngles || CHECKIN_REQUIRED_ANGLES;
+  const missingAngles = getMissingInspectionAngles({ checkinInspection: inspection, photosMeta });
+  const isComplete = !!inspection?.completedAt;
+  const hasUnsavedPins = JSON.stringify(pins) !== JSON.stringify(inspection?.damagePins || [])
+    || notes !== (inspection?.notes || '');
+
+  const getAnglePhoto = (angle: InspectionAngle) =>
+    photosMeta.find(photo => photo.photoId === inspection?.photos[angle]);
+
+  const handleAnglePhoto = async (angle: InspectionAngle, file: File | undefined) => {
+    if (!file) return;
+
+    setUploadingAngle(angle);
+    setError('');
+
+    try {
+      const presignResponse = await fetch(`/api/jobs/${jobId}/photos/presign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          files: [{ filename: file.name, contentType: file.type, category: 'before', angle }],
+        }),
+      });
+      const presignData = await presignResponse.json();
+      if (!presignResponse.ok || !presignData.success) {
+        throw new Error(presignData.error?.message || 'Failed to get presigned URL');
+      }
+
+      const upload = presignData.data.uploads[0];
+      const uploadResponse = await fetch(upload.putUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!uploadResponse.ok) {
+        throw new Error(`S3 upload failed: ${uploadResponse.status}`);
+      }
+
+      const commitResponse = await fetch(`/api/jobs/${jobId}/photos/commit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          photos: [{
+            photoId: upload.photoId,
+            s3Key: upload.s3Key,
+            publicUrl: upload.publicUrl,
+            contentType: file.type,
+            category: 'before',
+            angle,
+          }],
+        }),
+      });
+      const commitData = await commitResponse.json();
+      if (!commitResponse.ok || !commitData.success) {
+        throw new Error(commitData.error?.message || 'Failed to commit photo');
+      }
+
+      onChange();
+    } catch (err) {
+      console.error('Inspection photo upload error:', err);
+      setError((err as Error).message);
+    } finally {
+      setUploadingAngle(null);
+    }
+  };
+
+  const handleOutlineClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!canEdit) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * 1000) / 10;
+    const y = Math.round(((e.clientY - rect.top) / rect.height) * 1000) / 10;
+    setPins([...pins, { x, y, note: '' }]);
+  };
+
+  const saveInspection = async (): Promise<boolean> => {
+    const response = await fetch(`/api/jobs/${jobId}/inspection`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ damagePins: pins, notes }),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error?.message || 'Failed to save damage map');
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await saveInspection();
+      onChange();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (pins.some(pin => !pin.note.trim())) {
+      setError('Add a note to every damage pin first.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      if (hasUnsavedPins) {
+        await saveInspection();
+      }
+
+      const response = await fetch(`/api/jobs/${jobId}/inspection/complete`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to complete inspection');
+      }
+      onChange();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {isComplete && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          ✅ Inspection completed{inspection?.completedBy && ` by ${inspection.completedBy.name}`}
+          {inspection?.completedAt && ` on ${new Date(inspection.completedAt).toLocaleString()}`}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Walk-around photos */}
+      <div>
+        <h3 className="text-md font-medium mb-3" style={{ color: 'var(--sf-brown)' }}>
+          Walk-around photos ({requiredAngles.length - missingAngles.length}/{requiredAngles.length})
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {requiredAngles.map(angle => {
+            const photo = getAnglePhoto(angle);
+
+            return (
+              <label
+                key={angle}
+                className={`relative aspect-square rounded-lg overflow-hidden border-2 flex items-center justify-center ${
+                  photo ? 'border-green-400' : 'border-dashed border-gray-300'
+                } ${canEdit ? 'cursor-pointer hover:opacity-90' : ''}`}
+              >
+                {photo ? (
+                  <img src={photo.publicUrl} alt={INSPECTION_ANGLE_LABELS[angle]} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-sm text-gray-500">
+                    {uploadingAngle === angle ? 'Uploading...' : '📷 Add photo'}
+                  </span>
+                )}
+                <span className="absolute top-2 left-2 px-2 py-1 bg-black bg-opacity-50 text-white text-xs rounded">
+                  {INSPECTION_ANGLE_LABELS[angle]}
+                </span>
+                {canEdit && (
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    className="hidden"
+                    disabled={uploadingAngle !== null}
+                    onChange={(e) => handleAnglePhoto(angle, e.target.files?.[0])}
+                  />
+                )}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Damage map */}
+      <div>
+        <h3 className="text-md font-medium mb-1" style={{ color: 'var(--sf-brown)' }}>Pre-existing damage</h3>
+        {canEdit && (
+          <p className="text-xs mb-3" style={{ color: 'var(--sf-muted)' }}>
+            Tap the outline where there is damage, then describe it below.
+          </p>
+        )}
+        <div className="flex flex-col md:flex-row gap-4">
+          <svg
+            viewBox="0 0 200 400"
+            className={`w-40 mx-auto md:mx-0 flex-shrink-0 ${canEdit ? 'cursor-crosshair' : ''}`}
+            onClick={handleOutlineClick}
+          >
+            {/* Top-down vehicle outline, front at the top */}
+            <rect x="30" y="10" width="140" height="380" rx="60" fill="#FAF6EF" stroke="#8B7355" strokeWidth="3" />
+            <rect x="50" y="90" width="100" height="60" rx="12" fill="none" stroke="#8B7355" strokeWidth="2" />
+            <rect x="50" y="260" width="100" height="50" rx="12" fill="none" stroke="#8B7355" strokeWidth="2" />
+            <line x1="30" y1="170" x2="170" y2="170" stroke="#8B7355" strokeWidth="1" strokeDasharray="4" />
+            <line x1="30" y1="240" x2="170" y2="240" stroke="#8B7355" strokeWidth="1" strokeDasharray="4" />
+            <text x="100" y="30" textAnchor="middle" fontSize="12" fill="#8B7355">FRONT</text>
+            <text x="100" y="380" textAnchor="middle" fontSize="12" fill="#8B7355">REAR</text>
+            {pins.map((pin, index) => (
+              <g key={pin.pinId || `new-${index}`}>
+                <circle cx={pin.x * 2} cy={pin.y * 4} r="9" fill="#DC2626" />
+                <text x={pin.x * 2} y={pin.y * 4 + 4} textAnchor="middle" fontSize="11" fill="white">
+                  {index + 1}
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex-1 space-y-2">
+            {pins.length === 0 ? (
+              <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>No damage recorded.</p>
+            ) : (
+              pins.map((pin, index) => (
+                <div key={pin.pinId || `new-${index}`} className="flex items-center gap-2">
+                  <span className="w-6 h-6 rounded-full bg-red-600 text-white text-xs flex items-center justify-center flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <input
+                    type="text"
+                    value={pin.note}
+                    disabled={!canEdit}
+                    onChange={(e) => setPins(pins.map((p, i) => (i === index ? { ...p, note: e.target.value } : p)))}
+                    placeholder="e.g. Scratch on rear bumper"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 disabled:bg-gray-50"
+                  />
+                  {canEdit && (
+                    <button
+                      onClick={() => setPins(pins.filter((_, i) => i !== index))}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 rounded-md"
+                      title="Remove pin"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+
+            <textarea
+              value={notes}
+              disabled={!canEdit}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Other notes (personal items left, warning lights, etc.)"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 disabled:bg-gray-50"
+            />
+          </div>
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-3">
+          {hasUnsavedPins && (
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save damage map
+            </button>
+          )}
+          {!isComplete && (
+            <button
+              onClick={handleComplete}
+              disabled={saving || missingAngles.length > 0}
+              title={missingAngles.length > 0
+                ? `Missing: ${missingAngles.map(angle => INSPECTION_ANGLE_LABELS[angle]).join(', ')}`
+                : undefined}
+              className="px-6 py-3 bg-[#1F8A5B] hover:bg-[#196F4A] text-white rounded-xl font-medium sf-button-transition disabled:opacity-50"
+            >
+              ✅ Complete inspection
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
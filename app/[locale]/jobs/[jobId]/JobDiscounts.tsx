@@ -0,0 +1,251 @@
+/**
+ * JobDiscounts Component
+ *
+ * Lists the discounts taken off a job. Managers can apply a percent or
+ * fixed discount with a reason code (or pick one set up in Square) and
+ * remove discounts until the job is paid.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ApplyDiscountRequest, DiscountReason, Job, JobDiscount } from '@/lib/types';
+import type { CatalogDiscount } from '@/lib/square/catalog-api';
+import {
+  DISCOUNT_REASONS,
+  DISCOUNT_REASON_LABELS,
+  describeDiscount,
+  validateDiscount,
+} from '@/lib/workflow/discounts';
+
+interface JobDiscountsProps {
+  jobId: string;
+  discounts: JobDiscount[];
+  canEdit: boolean; // Manager, job priced and not yet paid
+  onUpdated: (job: Job) => void;
+}
+
+export default function JobDiscounts({ jobId, discounts, canEdit, onUpdated }: JobDiscountsProps) {
+  const [catalogDiscounts, setCatalogDiscounts] = useState<CatalogDiscount[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [type, setType] = useState<'PERCENT' | 'FIXED'>('PERCENT');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState<DiscountReason>('RETURNING_CUSTOMER');
+  const [note, setNote] = useState('');
+  const [catalogDiscountId, setCatalogDiscountId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!canEdit) return;
+
+    const fetchCatalogDiscounts = async () => {
+      try {
+        const response = await fetch('/api/discounts');
+        const data = await response.json();
+        if (data.success && data.data?.discounts) {
+          setCatalogDiscounts(data.data.discounts);
+        }
+      } catch (err) {
+        console.error('Fetch discounts error:', err);
+      }
+    };
+
+    fetchCatalogDiscounts();
+  }, [canEdit]);
+
+  const handleCatalogDiscountChange = (id: string) => {
+    setCatalogDiscountId(id);
+    const catalogDiscount = catalogDiscounts.find(candidate => candidate.id === id);
+    if (catalogDiscount?.percentage !== undefined) {
+      setType('PERCENT');
+      setValue(String(catalogDiscount.percentage));
+    } else if (catalogDiscount?.amountCents !== undefined) {
+      setType('FIXED');
+      setValue((catalogDiscount.amountCents / 100).toFixed(2));
+    }
+  };
+
+  // Variable Square discounts take their value from the form
+  const selectedCatalogDiscount = catalogDiscounts.find(candidate => candidate.id === catalogDiscountId);
+  const hasCatalogValue = selectedCatalogDiscount?.percentage !== undefined || selectedCatalogDiscount?.amountCents !== undefined;
+
+  const request: ApplyDiscountRequest = {
+    type,
+    ...(type === 'PERCENT' ? { percent: Number(value) } : { amountCents: Math.round(Number(value) * 100) }),
+    reason,
+    ...(note.trim() && { note: note.trim() }),
+    ...(catalogDiscountId && { catalogDiscountId }),
+  };
+  const validationErrors = value ? validateDiscount(request) : [];
+
+  const resetForm = () => {
+    setShowForm(false);
+    setValue('');
+    setNote('');
+    setCatalogDiscountId('');
+  };
+
+  const handleApply = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/discounts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to apply discount');
+      }
+      onUpdated(data.data.job);
+      resetForm();
+    } catch (err) {
+      console.error('Apply discount error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (discountId: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/discounts/${discountId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to remove discount');
+      }
+      onUpdated(data.data.job);
+    } catch (err) {
+      console.error('Remove discount error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (discounts.length === 0 && !canEdit) return null;
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded bg-white text-gray-900';
+
+  return (
+    <div className="mb-4 text-sm space-y-2">
+      {discounts.map(discount => (
+        <div key={discount.discountId} className="flex items-start justify-between gap-2">
+          <div>
+            <div className="text-gray-900">{describeDiscount(discount)}</div>
+            <div className="text-xs text-gray-500">
+              {DISCOUNT_REASON_LABELS[discount.reason]}
+              {discount.note && ` · ${discount.note}`}
+              {` · ${discount.appliedBy.name}, ${new Date(discount.appliedAt).toLocaleString()}`}
+            </div>
+          </div>
+          {canEdit && (
+            <button
+              onClick={() => handleRemove(discount.discountId)}
+              disabled={saving}
+              className="px-2 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+
+      {canEdit && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="text-sky-600 hover:text-sky-700"
+        >
+          + Add discount
+        </button>
+      )}
+
+      {canEdit && showForm && (
+        <div className="rounded-lg border border-gray-200 p-3 space-y-2">
+          {catalogDiscounts.length > 0 && (
+            <select
+              value={catalogDiscountId}
+              onChange={(e) => handleCatalogDiscountChange(e.target.value)}
+              className={`w-full ${inputClass}`}
+            >
+              <option value="">Custom discount</option>
+              {catalogDiscounts.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as 'PERCENT' | 'FIXED')}
+              disabled={hasCatalogValue}
+              className={inputClass}
+            >
+              <option value="PERCENT">Percent (%)</option>
+              <option value="FIXED">Amount ($)</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step={type === 'PERCENT' ? '1' : '0.01'}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              disabled={hasCatalogValue}
+              placeholder={type === 'PERCENT' ? '10' : '15.00'}
+              className={`w-24 ${inputClass}`}
+            />
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as DiscountReason)}
+              className={inputClass}
+            >
+              {DISCOUNT_REASONS.map(candidate => (
+                <option key={candidate} value={candidate}>{DISCOUNT_REASON_LABELS[candidate]}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={reason === 'OTHER' ? 'Note (required)' : 'Note (optional)'}
+            className={`w-full ${inputClass}`}
+          />
+          {validationErrors.length > 0 && (
+            <ul className="text-red-600 list-disc list-inside">
+              {validationErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={resetForm}
+              disabled={saving}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={saving || !value || validationErrors.length > 0}
+              className="px-3 py-1 bg-sky-500 text-white rounded hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Applying...' : 'Apply Discount'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
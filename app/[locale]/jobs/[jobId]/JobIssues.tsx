@@ -0,0 +1,657 @@
+/**
+ * JobIssues Component
+ *
+ * Post-completion issues on a job. Managers raise issues (with optional
+ * photos, same presign -> upload to S3 -> commit flow as PhotoUploader),
+ * assign them, move them through OPEN / IN_PROGRESS / RESOLVED, settle
+ * them with an outcome and discuss them in comment threads. DAMAGE, REDO
+ * and CUSTOMER_COMPLAINT issues can schedule a zero-priced redo job for the
+ * failed QC items.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { ChecklistItem, IssueOutcome, IssueStatus, JobIssue, PostCompletionIssueType } from '@/lib/types';
+import { ISSUE_OUTCOMES, ISSUE_TYPES, canChangeIssueStatus, threadIssueComments } from '@/lib/workflow/issues';
+import { canScheduleRedo } from '@/lib/workflow/redo';
+import type { AssignableUserOption } from '@/app/components/AssigneePicker';
+
+export const ISSUE_TYPE_LABELS: Record<PostCompletionIssueType, string> = {
+  QC_MISS: 'QC Miss',
+  CUSTOMER_COMPLAINT: 'Customer Complaint',
+  DAMAGE: 'Damage',
+  REDO: 'Redo Required',
+  OTHER: 'Other',
+};
+
+const ISSUE_OUTCOME_LABELS: Record<IssueOutcome, string> = {
+  REFUND: 'Refund',
+  REDO: 'Redo',
+  NO_ACTION: 'No action',
+};
+
+const ISSUE_STATUS_STYLES: Record<IssueStatus, string> = {
+  OPEN: 'bg-red-200 text-red-800',
+  IN_PROGRESS: 'bg-yellow-200 text-yellow-800',
+  RESOLVED: 'bg-green-200 text-green-800',
+};
+
+interface JobIssuesProps {
+  jobId: string;
+  issues: JobIssue[];
+  photosMeta: Array<{ photoId: string; publicUrl: string }>;
+  users: AssignableUserOption[];
+  canManage: boolean;
+  canOpen: boolean; // Issues can only be raised on completed jobs
+  qcItems: ChecklistItem[]; // Items a redo can be scheduled for
+  defaultRedoItemIds: string[]; // Pre-selected: items QC failed on this job
+  onOpenJob: (jobId: string) => void;
+  onChanged: () => void;
+}
+
+async function uploadIssuePhotos(jobId: string, files: File[]): Promise<string[]> {
+  if (files.length === 0) return [];
+
+  const presignResponse = await fetch(`/api/jobs/${jobId}/photos/presign`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      files: files.map(file => ({ filename: file.name, contentType: file.type, category: 'issue' })),
+    }),
+  });
+  const presignData = await presignResponse.json();
+  if (!presignResponse.ok || !presignData.success) {
+    throw new Error(presignData.error?.message || 'Failed to get presigned URLs');
+  }
+
+  const uploads: Array<{ photoId: string; s3Key: string; publicUrl: string; putUrl: string }> = presignData.data.uploads;
+  await Promise.all(uploads.map(async (upload, index) => {
+    const uploadResponse = await fetch(upload.putUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': files[index].type },
+      body: files[index],
+    });
+    if (!uploadResponse.ok) {
+      throw new Error(`S3 upload failed: ${uploadResponse.status}`);
+    }
+  }));
+
+  const commitResponse = await fetch(`/api/jobs/${jobId}/photos/commit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      photos: uploads.map((upload, index) => ({
+        photoId: upload.photoId,
+        s3Key: upload.s3Key,
+        publicUrl: upload.publicUrl,
+        contentType: files[index].type,
+        category: 'issue',
+      })),
+    }),
+  });
+  const commitData = await commitResponse.json();
+  if (!commitResponse.ok || !commitData.success) {
+    throw new Error(commitData.error?.message || 'Failed to commit photos');
+  }
+
+  return uploads.map(upload => upload.photoId);
+}
+
+export default function JobIssues({
+  jobId,
+  issues,
+  photosMeta,
+  users,
+  canManage,
+  canOpen,
+  qcItems,
+  defaultRedoItemIds,
+  onOpenJob,
+  onChanged,
+}: JobIssuesProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [type, setType] = useState<PostCompletionIssueType>('OTHER');
+  const [notes, setNotes] = useState('');
+  const [assigneeUserId, setAssigneeUserId] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleOpen = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const photoIds = await uploadIssuePhotos(jobId, files);
+
+      const response = await fetch(`/api/jobs/${jobId}/issues`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, notes, assigneeUserId: assigneeUserId || undefined, photoIds }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to open issue');
+      }
+
+      setShowForm(false);
+      setType('OTHER');
+      setNotes('');
+      setAssigneeUserId('');
+      setFiles([]);
+      onChanged();
+    } catch (err) {
+      console.error('Open issue error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {issues.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Report issues discovered after job completion. This does not change the job status.
+        </p>
+      )}
+
+      {issues.map(issue => (
+        <IssueCard
+          key={issue.issueId}
+          jobId={jobId}
+          issue={issue}
+          photosMeta={photosMeta}
+          users={users}
+          canManage={canManage}
+          qcItems={qcItems}
+          defaultRedoItemIds={defaultRedoItemIds}
+          onOpenJob={onOpenJob}
+          onChanged={onChanged}
+        />
+      ))}
+
+      {canManage && canOpen && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="px-6 py-3 bg-yellow-600 text-white rounded-lg font-medium hover:bg-yellow-700 transition"
+        >
+          Report Issue
+        </button>
+      )}
+
+      {canManage && canOpen && showForm && (
+        <div className="p-4 border border-yellow-300 rounded-lg space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Issue Type</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as PostCompletionIssueType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            >
+              {ISSUE_TYPES.map(issueType => (
+                <option key={issueType} value={issueType}>{ISSUE_TYPE_LABELS[issueType]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Describe the issue..."
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Assign to</label>
+            <select
+              value={assigneeUserId}
+              onChange={(e) => setAssigneeUserId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            >
+              <option value="">Unassigned</option>
+              {users.map(user => (
+                <option key={user.userId} value={user.userId}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photos (optional)</label>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              className="text-sm"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleOpen}
+              disabled={saving}
+              className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition disabled:opacity-50"
+            >
+              {saving ? 'Submitting...' : 'Submit Issue'}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={saving}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface IssueCardProps {
+  jobId: string;
+  issue: JobIssue;
+  photosMeta: Array<{ photoId: string; publicUrl: string }>;
+  users: AssignableUserOption[];
+  canManage: boolean;
+  qcItems: ChecklistItem[];
+  defaultRedoItemIds: string[];
+  onOpenJob: (jobId: string) => void;
+  onChanged: () => void;
+}
+
+function IssueCard({
+  jobId,
+  issue,
+  photosMeta,
+  users,
+  canManage,
+  qcItems,
+  defaultRedoItemIds,
+  onOpenJob,
+  onChanged,
+}: IssueCardProps) {
+  const [resolving, setResolving] = useState(false);
+  const [schedulingRedo, setSchedulingRedo] = useState(false);
+  const [redoTime, setRedoTime] = useState('');
+  const [redoItemIds, setRedoItemIds] = useState<string[]>(defaultRedoItemIds);
+  const [redoNotes, setRedoNotes] = useState('');
+  const [createSquareBooking, setCreateSquareBooking] = useState(true);
+  const [outcome, setOutcome] = useState<IssueOutcome>('NO_ACTION');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [comment, setComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const photos = issue.photoIds
+    .map(photoId => photosMeta.find(photo => photo.photoId === photoId))
+    .filter((photo): photo is { photoId: string; publicUrl: string } => !!photo);
+
+  const run = async (action: () => Promise<Response>, fallbackMessage: string): Promise<boolean> => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || fallbackMessage);
+      }
+      onChanged();
+      return true;
+    } catch (err) {
+      console.error('Issue update error:', err);
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const patchIssue = (body: Record<string, unknown>) => fetch(`/api/jobs/${jobId}/issues/${issue.issueId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleStatus = async (status: IssueStatus) => {
+    if (status === 'RESOLVED') {
+      const done = await run(() => patchIssue({ status, outcome, resolutionNotes }), 'Failed to resolve issue');
+      if (done) setResolving(false);
+      return;
+    }
+    await run(() => patchIssue({ status }), 'Failed to update issue');
+  };
+
+  const handleScheduleRedo = async () => {
+    if (!redoTime) {
+      setError('Pick a date and time for the redo');
+      return;
+    }
+    const done = await run(() => fetch(`/api/jobs/${jobId}/issues/${issue.issueId}/redo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        appointmentTime: new Date(redoTime).toISOString(),
+        failedItemIds: redoItemIds,
+        createSquareBooking,
+        notes: redoNotes || undefined,
+      }),
+    }), 'Failed to schedule redo');
+    if (done) setSchedulingRedo(false);
+  };
+
+  const toggleRedoItem = (itemId: string) => {
+    setRedoItemIds(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+  };
+
+  const handleAddPhotos = async (files: File[]) => {
+    await run(async () => {
+      const photoIds = await uploadIssuePhotos(jobId, files);
+      return patchIssue({ photoIds: [...issue.photoIds, ...photoIds] });
+    }, 'Failed to add photos');
+  };
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+    const done = await run(() => fetch(`/api/jobs/${jobId}/issues/${issue.issueId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body: comment, parentCommentId: replyTo || undefined }),
+    }), 'Failed to add comment');
+    if (done) {
+      setComment('');
+      setReplyTo(null);
+    }
+  };
+
+  return (
+    <div className={`p-4 rounded-lg border-2 ${
+      issue.status === 'RESOLVED' ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300'
+    }`}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-semibold text-gray-900">{ISSUE_TYPE_LABELS[issue.type]}</span>
+        <span className={`text-xs px-2 py-1 rounded-full font-medium ${ISSUE_STATUS_STYLES[issue.status]}`}>
+          {issue.status.replace(/_/g, ' ')}
+        </span>
+        {issue.outcome && (
+          <span className="text-xs px-2 py-1 rounded-full font-medium bg-gray-200 text-gray-800">
+            {ISSUE_OUTCOME_LABELS[issue.outcome]}
+          </span>
+        )}
+      </div>
+      {issue.notes && <p className="text-sm text-gray-700 mt-2">{issue.notes}</p>}
+
+      <div className="text-xs text-gray-600 space-y-1 mt-3">
+        <div>Opened by {issue.openedBy.name} on {new Date(issue.openedAt).toLocaleString()}</div>
+        {issue.resolvedAt && issue.resolvedBy && (
+          <div>Resolved by {issue.resolvedBy.name} on {new Date(issue.resolvedAt).toLocaleString()}</div>
+        )}
+        {issue.resolutionNotes && <div>Resolution: {issue.resolutionNotes}</div>}
+        {issue.redoJobId && (
+          <div>
+            Redo scheduled:{' '}
+            <button onClick={() => onOpenJob(issue.redoJobId!)} className="text-blue-700 hover:underline">
+              job {issue.redoJobId}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-100 border border-red-200 rounded text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="mt-3 flex items-center gap-2 text-sm">
+        <span className="text-gray-600">Assignee:</span>
+        {canManage ? (
+          <select
+            value={issue.assignee?.userId || ''}
+            onChange={(e) => run(() => patchIssue({ assigneeUserId: e.target.value || null }), 'Failed to assign issue')}
+            disabled={saving}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+          >
+            <option value="">Unassigned</option>
+            {issue.assignee && !users.some(user => user.userId === issue.assignee!.userId) && (
+              <option value={issue.assignee.userId}>{issue.assignee.name}</option>
+            )}
+            {users.map(user => (
+              <option key={user.userId} value={user.userId}>{user.name}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-gray-900">{issue.assignee?.name || 'Unassigned'}</span>
+        )}
+      </div>
+
+      {(photos.length > 0 || canManage) && (
+        <div className="mt-3">
+          <div className="flex gap-2 flex-wrap">
+            {photos.map(photo => (
+              <a key={photo.photoId} href={photo.publicUrl} target="_blank" rel="noreferrer">
+                <img src={photo.publicUrl} alt="Issue photo" className="w-16 h-16 object-cover rounded" />
+              </a>
+            ))}
+          </div>
+          {canManage && (
+            <label className="inline-block mt-2 text-xs text-blue-700 cursor-pointer">
+              + Add photos
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={saving}
+                onChange={(e) => handleAddPhotos(Array.from(e.target.files || []))}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {canManage && !resolving && !schedulingRedo && (
+        <div className="mt-3 flex gap-2 flex-wrap">
+          {canChangeIssueStatus(issue.status, 'IN_PROGRESS') && (
+            <button
+              onClick={() => handleStatus('IN_PROGRESS')}
+              disabled={saving}
+              className="px-4 py-2 bg-yellow-600 text-white rounded-lg text-sm font-medium hover:bg-yellow-700 disabled:opacity-50"
+            >
+              Start Working
+            </button>
+          )}
+          {canChangeIssueStatus(issue.status, 'RESOLVED') && (
+            <button
+              onClick={() => setResolving(true)}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              Resolve
+            </button>
+          )}
+          {canChangeIssueStatus(issue.status, 'OPEN') && (
+            <button
+              onClick={() => handleStatus('OPEN')}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              {issue.status === 'RESOLVED' ? 'Reopen' : 'Back to Open'}
+            </button>
+          )}
+          {canScheduleRedo(issue) && (
+            <button
+              onClick={() => setSchedulingRedo(true)}
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              Schedule Redo
+            </button>
+          )}
+        </div>
+      )}
+
+      {canManage && schedulingRedo && (
+        <div className="mt-3 p-3 bg-white border border-purple-300 rounded-lg space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Redo appointment</label>
+            <input
+              type="datetime-local"
+              value={redoTime}
+              onChange={(e) => setRedoTime(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            />
+          </div>
+          {qcItems.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-1">Items to redo</div>
+              {qcItems.map(item => (
+                <label key={item.id} className="flex items-center gap-2 text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={redoItemIds.includes(item.id)}
+                    onChange={() => toggleRedoItem(item.id)}
+                  />
+                  {item.label}
+                </label>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={createSquareBooking}
+              onChange={(e) => setCreateSquareBooking(e.target.checked)}
+            />
+            Also book it in Square
+          </label>
+          <textarea
+            value={redoNotes}
+            onChange={(e) => setRedoNotes(e.target.value)}
+            placeholder="Notes for the redo (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleScheduleRedo}
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving ? 'Scheduling...' : 'Schedule Redo (no charge)'}
+            </button>
+            <button
+              onClick={() => setSchedulingRedo(false)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {canManage && resolving && (
+        <div className="mt-3 p-3 bg-white border border-green-300 rounded-lg space-y-2">
+          <div className="flex gap-3 flex-wrap">
+            {ISSUE_OUTCOMES.map(option => (
+              <label key={option} className="flex items-center gap-1 text-sm text-gray-900">
+                <input
+                  type="radio"
+                  name={`outcome-${issue.issueId}`}
+                  checked={outcome === option}
+                  onChange={() => setOutcome(option)}
+                />
+                {ISSUE_OUTCOME_LABELS[option]}
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={resolutionNotes}
+            onChange={(e) => setResolutionNotes(e.target.value)}
+            placeholder="How was it settled? (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleStatus('RESOLVED')}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {saving ? 'Resolving...' : 'Mark Resolved'}
+            </button>
+            <button
+              onClick={() => setResolving(false)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-2">
+        {threadIssueComments(issue.comments).map(({ comment: entry, depth }) => (
+          <div
+            key={entry.commentId}
+            className="p-2 bg-white rounded border border-gray-200 text-sm"
+            style={{ marginLeft: `${Math.min(depth, 4) * 1.5}rem` }}
+          >
+            <div className="text-xs text-gray-500">
+              {entry.createdBy.name} · {new Date(entry.createdAt).toLocaleString()}
+            </div>
+            <p className="text-gray-900 whitespace-pre-wrap">{entry.body}</p>
+            {canManage && (
+              <button
+                onClick={() => setReplyTo(entry.commentId)}
+                className="text-xs text-blue-700 hover:underline"
+              >
+                Reply
+              </button>
+            )}
+          </div>
+        ))}
+
+        {canManage && (
+          <div className="space-y-2">
+            {replyTo && (
+              <div className="text-xs text-gray-600">
+                Replying to {issue.comments.find(c => c.commentId === replyTo)?.createdBy.name}{' '}
+                <button onClick={() => setReplyTo(null)} className="text-blue-700 hover:underline">cancel</button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleComment(); }}
+                placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+              <button
+                onClick={handleComment}
+                disabled={saving || !comment.trim()}
+                className="px-4 py-2 bg-gray-800 text-white rounded-lg text-sm font-medium hover:bg-gray-900 disabled:opacity-50"
+              >
+                Post
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
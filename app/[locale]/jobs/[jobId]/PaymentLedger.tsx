@@ -0,0 +1,489 @@
+/**
+ * PaymentLedger Component
+ *
+ * The payments taken toward a job (deposits, split and partial payments,
+ * matched Square payments) with their receipts and refunds, and the balance
+ * still due. Managers record payments with a receipt photo, void ones taken
+ * in error, and refund them (through Square for Square payments).
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type {
+  CreateRefundRequest,
+  Job,
+  JobIssue,
+  PaymentEntry,
+  ReceiptPhoto,
+  RecordPaymentRequest,
+  RefundEntry,
+} from '@/lib/types';
+import { formatCents } from '@/lib/utils/money';
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  describePaymentEntry,
+  getRefundableCents,
+  isEntryLive,
+  validatePayment,
+  validateRefund,
+} from '@/lib/workflow/payment-ledger';
+import { ISSUE_TYPE_LABELS } from './JobIssues';
+
+interface PaymentLedgerProps {
+  jobId: string;
+  entries: PaymentEntry[];
+  refunds: RefundEntry[];
+  issues: JobIssue[]; // Refunds can be tied to one
+  balanceDueCents: number;
+  canRecord: boolean; // Manager
+  onUpdated: (job: Job) => void;
+  onViewReceipt: (receipt: ReceiptPhoto) => void;
+}
+
+/**
+ * Upload receipt photos to S3 through presigned URLs
+ */
+async function uploadReceipts(jobId: string, files: File[]): Promise<RecordPaymentRequest['receiptPhotos']> {
+  const presignResponse = await fetch(`/api/jobs/${jobId}/receipts/presign`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      files: files.map(file => ({ filename: file.name, contentType: file.type })),
+    }),
+  });
+  if (!presignResponse.ok) {
+    throw new Error('Failed to get upload URLs');
+  }
+
+  const uploads = (await presignResponse.json()).data.uploads;
+  await Promise.all(
+    files.map(async (file, index) => {
+      const uploadResponse = await fetch(uploads[index].putUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!uploadResponse.ok) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+    })
+  );
+
+  return uploads.map((upload: any) => ({
+    photoId: upload.photoId,
+    s3Key: upload.s3Key,
+    publicUrl: upload.publicUrl,
+    contentType: upload.contentType,
+  }));
+}
+
+export default function PaymentLedger({
+  jobId,
+  entries,
+  refunds,
+  issues,
+  balanceDueCents,
+  canRecord,
+  onUpdated,
+  onViewReceipt,
+}: PaymentLedgerProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [method, setMethod] = useState<RecordPaymentRequest['method']>('CARD');
+  const [amount, setAmount] = useState('');
+  const [tip, setTip] = useState('');
+  const [reference, setReference] = useState('');
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
+  const [voidingEntryId, setVoidingEntryId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [refundingEntryId, setRefundingEntryId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [refundIssueId, setRefundIssueId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const openForm = () => {
+    setAmount((balanceDueCents / 100).toFixed(2));
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setTip('');
+    setReference('');
+    setReceiptFiles([]);
+  };
+
+  const request: RecordPaymentRequest = {
+    method,
+    amountCents: Math.round(Number(amount) * 100),
+    ...(tip && { tipCents: Math.round(Number(tip) * 100) }),
+    ...(reference.trim() && { reference: reference.trim() }),
+  };
+  const validationErrors = amount ? validatePayment(request) : [];
+  const isOverBalance = request.amountCents > balanceDueCents;
+
+  const handleRecord = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const receiptPhotos = await uploadReceipts(jobId, receiptFiles);
+      const response = await fetch(`/api/jobs/${jobId}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...request, receiptPhotos }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to record payment');
+      }
+      onUpdated(data.data.job);
+      resetForm();
+    } catch (err) {
+      console.error('Record payment error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (entryId: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/payments/${entryId}/void`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: voidReason }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to void payment');
+      }
+      onUpdated(data.data.job);
+      setVoidingEntryId(null);
+      setVoidReason('');
+    } catch (err) {
+      console.error('Void payment error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openRefund = (entry: PaymentEntry) => {
+    setVoidingEntryId(null);
+    setRefundingEntryId(entry.entryId);
+    setRefundAmount((getRefundableCents({ paymentEntries: entries, refunds }, entry) / 100).toFixed(2));
+  };
+
+  const closeRefund = () => {
+    setRefundingEntryId(null);
+    setRefundReason('');
+    setRefundIssueId('');
+  };
+
+  const refundRequest: CreateRefundRequest = {
+    paymentEntryId: refundingEntryId || '',
+    amountCents: Math.round(Number(refundAmount) * 100),
+    reason: refundReason,
+    ...(refundIssueId && { issueId: refundIssueId }),
+  };
+
+  const handleRefund = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(refundRequest),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to refund payment');
+      }
+      onUpdated(data.data.job);
+      closeRefund();
+      if (data.data.refund.status === 'FAILED') {
+        setError(`Square refused the refund: ${data.data.refund.failureReason}`);
+      } else if (data.data.refund.failureReason) {
+        setError(`Square hasn't confirmed the refund (${data.data.refund.failureReason}); it will be resent automatically`);
+      }
+    } catch (err) {
+      console.error('Refund payment error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (entries.length === 0 && !canRecord) return null;
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded bg-white text-gray-900';
+
+  return (
+    <div className="mb-4 text-sm">
+      {entries.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {entries.map(entry => (
+            <div key={entry.entryId} className={`rounded-lg border border-gray-200 p-3 ${isEntryLive(entry) ? '' : 'opacity-60'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className={`text-gray-900 ${isEntryLive(entry) ? '' : 'line-through'}`}>
+                    {formatCents(entry.amountCents)} · {describePaymentEntry(entry)}
+                    {!!entry.tipCents && <span className="text-gray-600"> + {formatCents(entry.tipCents)} tip</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {entry.recordedBy.name}, {new Date(entry.recordedAt).toLocaleString()}
+                  </div>
+                  {!isEntryLive(entry) && (
+                    <div className="text-xs text-red-600">
+                      Voided by {entry.voidedBy?.name}: {entry.voidReason}
+                    </div>
+                  )}
+                </div>
+                {canRecord && isEntryLive(entry) && voidingEntryId !== entry.entryId && refundingEntryId !== entry.entryId && (
+                  <div className="flex gap-1">
+                    {getRefundableCents({ paymentEntries: entries, refunds }, entry) > 0 && (
+                      <button
+                        onClick={() => openRefund(entry)}
+                        disabled={saving}
+                        className="px-2 py-1 text-gray-700 hover:bg-gray-50 rounded disabled:opacity-50"
+                      >
+                        Refund
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { closeRefund(); setVoidingEntryId(entry.entryId); }}
+                      disabled={saving}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                    >
+                      Void
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {refunds.filter(refund => refund.paymentEntryId === entry.entryId).map(refund => (
+                <div
+                  key={refund.refundId}
+                  className={`mt-1 text-xs ${refund.status === 'FAILED' ? 'text-red-600' : 'text-gray-700'}`}
+                >
+                  {refund.status === 'FAILED' ? 'Refund failed' : 'Refunded'} {formatCents(refund.amountCents)}
+                  {refund.status === 'PENDING' && ' (processing)'}
+                  {` · ${refund.reason}`}
+                  {refund.status === 'FAILED' && refund.failureReason && ` · ${refund.failureReason}`}
+                  <span className="text-gray-500">
+                    {` · ${refund.refundedBy.name}, ${new Date(refund.refundedAt).toLocaleString()}`}
+                  </span>
+                </div>
+              ))}
+
+              {entry.receiptPhotos && entry.receiptPhotos.length > 0 && (
+                <div className="flex gap-2 mt-2">
+                  {entry.receiptPhotos.map(receipt => (
+                    <button
+                      key={receipt.photoId}
+                      onClick={() => onViewReceipt(receipt)}
+                      className="w-12 h-12 bg-gray-100 rounded overflow-hidden hover:opacity-90"
+                    >
+                      <img src={receipt.publicUrl} alt="Receipt" className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {refundingEntryId === entry.entryId && (
+                <div className="mt-2 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-1 text-gray-700">
+                      Refund $
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        className={`w-24 ${inputClass}`}
+                      />
+                    </label>
+                    {issues.length > 0 && (
+                      <select
+                        value={refundIssueId}
+                        onChange={(e) => setRefundIssueId(e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">No issue</option>
+                        {issues.map(issue => (
+                          <option key={issue.issueId} value={issue.issueId}>
+                            {ISSUE_TYPE_LABELS[issue.type]} ({new Date(issue.openedAt).toLocaleDateString()})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <input
+                    type="text"
+                    value={refundReason}
+                    onChange={(e) => setRefundReason(e.target.value)}
+                    placeholder="Reason (e.g. interior not cleaned)"
+                    className={`w-full ${inputClass}`}
+                  />
+                  {entry.method === 'SQUARE' && (
+                    <div className="text-xs text-gray-500">Refunded to the customer through Square.</div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={closeRefund}
+                      disabled={saving}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleRefund}
+                      disabled={saving || validateRefund(refundRequest).length > 0}
+                      className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      {saving ? 'Refunding...' : 'Refund Payment'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {voidingEntryId === entry.entryId && (
+                <div className="flex gap-2 mt-2">
+                  <input
+                    type="text"
+                    value={voidReason}
+                    onChange={(e) => setVoidReason(e.target.value)}
+                    placeholder="Reason (e.g. check bounced)"
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <button
+                    onClick={() => { setVoidingEntryId(null); setVoidReason(''); }}
+                    disabled={saving}
+                    className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleVoid(entry.entryId)}
+                    disabled={saving || !voidReason.trim()}
+                    className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    {saving ? 'Voiding...' : 'Void Payment'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className={balanceDueCents > 0 ? 'font-semibold text-[#92400E]' : 'text-gray-600'}>
+          Balance due: {formatCents(balanceDueCents)}
+        </span>
+        {canRecord && balanceDueCents > 0 && !showForm && (
+          <button
+            onClick={openForm}
+            className="text-sky-600 hover:text-sky-700"
+          >
+            + Record payment
+          </button>
+        )}
+      </div>
+
+      {canRecord && showForm && (
+        <div className="mt-2 rounded-lg border border-gray-200 p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as RecordPaymentRequest['method'])}
+              className={inputClass}
+            >
+              {PAYMENT_METHODS.map(candidate => (
+                <option key={candidate} value={candidate}>{PAYMENT_METHOD_LABELS[candidate]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-gray-700">
+              $
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`w-24 ${inputClass}`}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-gray-700">
+              Tip $
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tip}
+                onChange={(e) => setTip(e.target.value)}
+                placeholder="0.00"
+                className={`w-20 ${inputClass}`}
+              />
+            </label>
+          </div>
+          <input
+            type="text"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder={method === 'CHECK' ? 'Check number' : 'Reference (optional)'}
+            className={`w-full ${inputClass}`}
+          />
+          <div>
+            <label className="block text-gray-700 mb-1">Receipt photo(s)</label>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={(e) => setReceiptFiles(Array.from(e.target.files || []))}
+              className="w-full"
+            />
+          </div>
+          {(validationErrors.length > 0 || isOverBalance) && (
+            <ul className="text-red-600 list-disc list-inside">
+              {validationErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+              {isOverBalance && <li>Only {formatCents(balanceDueCents)} is due. Record anything over that as a tip.</li>}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={resetForm}
+              disabled={saving}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRecord}
+              disabled={saving || !amount || validationErrors.length > 0 || isOverBalance || receiptFiles.length === 0}
+              className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Record Payment'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * PriceBreakdownLines Component
+ *
+ * Itemized price of a job: service, add-ons, discounts, tax and total.
+ * Notes when the amount due was edited after the job was priced.
+ */
+
+'use client';
+
+import type { PriceBreakdown } from '@/lib/types';
+import { formatCents } from '@/lib/utils/money';
+import { formatTaxRate } from '@/lib/workflow/pricing';
+
+interface PriceBreakdownLinesProps {
+  breakdown: PriceBreakdown;
+  amountCents?: number; // Current amount due (job.payment.amountCents)
+}
+
+export default function PriceBreakdownLines({ breakdown, amountCents }: PriceBreakdownLinesProps) {
+  const isAdjusted = amountCents !== undefined && amountCents !== breakdown.totalCents;
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm">
+      <div className="space-y-1">
+        {breakdown.lines.map((line, index) => (
+          <div key={`${line.type}-${index}`} className="flex justify-between">
+            <span className={line.type === 'DISCOUNT' ? 'text-[#1F8A5B]' : 'text-gray-700'}>
+              {line.type === 'ADDON' ? `+ ${line.name}` : line.name}
+              {!line.taxable && line.type !== 'DISCOUNT' && (
+                <span className="ml-1 text-xs text-gray-400">(no tax)</span>
+              )}
+            </span>
+            <span className={line.type === 'DISCOUNT' ? 'text-[#1F8A5B]' : 'text-gray-900'}>
+              {line.amountCents < 0 ? `−${formatCents(-line.amountCents)}` : formatCents(line.amountCents)}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 space-y-1 border-t border-gray-200 pt-2">
+        <div className="flex justify-between text-gray-600">
+          <span>Subtotal</span>
+          <span>{formatCents(breakdown.subtotalCents)}</span>
+        </div>
+        {breakdown.discountCents > 0 && (
+          <div className="flex justify-between text-gray-600">
+            <span>Discounts</span>
+            <span>−{formatCents(breakdown.discountCents)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-gray-600">
+          <span>
+            Tax ({formatTaxRate(breakdown.taxRatePercent)}
+            {breakdown.taxableCents !== breakdown.subtotalCents - breakdown.discountCents &&
+              ` on ${formatCents(breakdown.taxableCents)}`})
+          </span>
+          <span>{formatCents(breakdown.taxCents)}</span>
+        </div>
+        <div className="flex justify-between font-semibold text-gray-900">
+          <span>Total</span>
+          <span>{formatCents(breakdown.totalCents)}</span>
+        </div>
+      </div>
+      {isAdjusted && (
+        <p className="mt-2 text-xs text-[#92400E]">
+          Amount due was changed to {formatCents(amountCents!)} after pricing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * QcReject Component
+ *
+ * QC fail form: reason, the QC checklist items that failed and optional
+ * photos (same presign -> upload to S3 -> commit flow as PhotoUploader).
+ * Submitting sends the job back to IN_PROGRESS. Also lists earlier rejects.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { ChecklistItem, QcRejection } from '@/lib/types';
+
+interface QcRejectProps {
+  jobId: string;
+  qcChecklist: ChecklistItem[];
+  rejections: QcRejection[];
+  canReject: boolean;
+  onRejected: () => void;
+}
+
+export default function QcReject({
+  jobId,
+  qcChecklist,
+  rejections,
+  canReject,
+  onRejected,
+}: QcRejectProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [failedItemIds, setFailedItemIds] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const openForm = () => {
+    // Start from whatever QC left unchecked
+    setFailedItemIds(qcChecklist.filter(item => !item.checked).map(item => item.id));
+    setReason('');
+    setFiles([]);
+    setError('');
+    setOpen(true);
+  };
+
+  const toggleItem = (itemId: string) => {
+    setFailedItemIds(ids => (ids.includes(itemId) ? ids.filter(id => id !== itemId) : [...ids, itemId]));
+  };
+
+  const uploadPhotos = async (): Promise<string[]> => {
+    if (files.length === 0) return [];
+
+    const presignResponse = await fetch(`/api/jobs/${jobId}/photos/presign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        files: files.map(file => ({ filename: file.name, contentType: file.type, category: 'qc' })),
+      }),
+    });
+    const presignData = await presignResponse.json();
+    if (!presignResponse.ok || !presignData.success) {
+      throw new Error(presignData.error?.message || 'Failed to get presigned URLs');
+    }
+
+    const uploads: Array<{ photoId: string; s3Key: string; publicUrl: string; putUrl: string }> = presignData.data.uploads;
+    await Promise.all(uploads.map(async (upload, index) => {
+      const uploadResponse = await fetch(upload.putUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': files[index].type },
+        body: files[index],
+      });
+      if (!uploadResponse.ok) {
+        throw new Error(`S3 upload failed: ${uploadResponse.status}`);
+      }
+    }));
+
+    const commitResponse = await fetch(`/api/jobs/${jobId}/photos/commit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        photos: uploads.map((upload, index) => ({
+          photoId: upload.photoId,
+          s3Key: upload.s3Key,
+          publicUrl: upload.publicUrl,
+          contentType: files[index].type,
+          category: 'qc',
+        })),
+      }),
+    });
+    const commitData = await commitResponse.json();
+    if (!commitResponse.ok || !commitData.success) {
+      throw new Error(commitData.error?.message || 'Failed to commit photos');
+    }
+
+    return uploads.map(upload => upload.photoId);
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError('Enter a reason for the rejection.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const photoIds = await uploadPhotos();
+
+      const response = await fetch(`/api/jobs/${jobId}/qc/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason, failedItemIds, photoIds }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to reject QC');
+      }
+
+      setOpen(false);
+      onRejected();
+    } catch (err) {
+      console.error('QC reject error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {rejections.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 space-y-2">
+          <p className="font-medium">↩️ Rejected by QC {rejections.length} time{rejections.length === 1 ? '' : 's'}</p>
+          {rejections.map(rejection => (
+            <div key={rejection.rejectionId}>
+              <p>
+                {new Date(rejection.rejectedAt).toLocaleString()} — {rejection.rejectedBy.name}: {rejection.reason}
+              </p>
+              {rejection.failedItems.length > 0 && (
+                <p className="text-xs">Failed: {rejection.failedItems.map(item => item.label).join(', ')}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canReject && !open && (
+        <button
+          onClick={openForm}
+          className="px-6 py-3 bg-[#DC2626] hover:bg-[#B91C1C] text-white rounded-xl font-medium sf-button-transition"
+        >
+          ↩️ Reject QC
+        </button>
+      )}
+
+      {canReject && open && (
+        <div className="p-4 border border-red-200 rounded-lg space-y-3">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What needs to be redone?"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            />
+          </div>
+
+          {qcChecklist.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Failed items</p>
+              <div className="space-y-1">
+                {qcChecklist.map(item => (
+                  <label key={item.id} className="flex items-center gap-2 text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={failedItemIds.includes(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                      className="w-4 h-4"
+                    />
+                    {item.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photos (optional)</label>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              className="text-sm"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="px-6 py-3 bg-[#DC2626] hover:bg-[#B91C1C] text-white rounded-xl font-medium sf-button-transition disabled:opacity-50"
+            >
+              {saving ? 'Sending back...' : 'Send back to tech'}
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              disabled={saving}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
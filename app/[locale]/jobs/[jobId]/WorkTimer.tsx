@@ -0,0 +1,148 @@
+/**
+ * WorkTimer Component
+ *
+ * Running labor clock for a job. The server starts it when the job enters
+ * IN_PROGRESS and stops it when the job moves on; techs pause it for breaks
+ * or while waiting on the customer. Shows time against the booked duration
+ * and who the labor is credited to.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { WorkTimer as Timer } from '@/lib/types';
+import { getTimerElapsedMs, isTimerRunning, summarizeLabor } from '@/lib/workflow/work-timer';
+
+interface WorkTimerProps {
+  jobId: string;
+  timer?: Timer;
+  scheduledMinutes?: number;
+  canControl: boolean;
+  onChange: () => void;
+}
+
+const PAUSE_REASONS = ['Break', 'Waiting on customer', 'Waiting on parts'];
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+export default function WorkTimer({
+  jobId,
+  timer,
+  scheduledMinutes,
+  canControl,
+  onChange,
+}: WorkTimerProps) {
+  const [now, setNow] = useState(Date.now());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const running = isTimerRunning(timer);
+
+  // Tick once a second while the clock is running
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const elapsedMs = getTimerElapsedMs(timer, now);
+  const scheduledMs = scheduledMinutes !== undefined ? scheduledMinutes * 60_000 : undefined;
+  const isOverrun = scheduledMs !== undefined && elapsedMs > scheduledMs;
+  const laborByTech = timer ? summarizeLabor(timer.segments, new Date(now).toISOString()).laborByTech : [];
+
+  const sendAction = async (action: 'pause' | 'resume', reason?: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/timer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || `Failed to ${action} timer`);
+      }
+      setNow(Date.now());
+      onChange();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div>
+          <p className={`text-4xl font-mono font-semibold ${isOverrun ? 'text-red-600' : ''}`} style={isOverrun ? undefined : { color: 'var(--sf-ink)' }}>
+            {formatDuration(elapsedMs)}
+          </p>
+          <p className="text-sm" style={{ color: 'var(--sf-muted)' }}>
+            {!timer && 'Not started'}
+            {running && 'Running'}
+            {timer?.pausedAt && `Paused${timer.pauseReason ? ` — ${timer.pauseReason}` : ''}`}
+            {timer?.stoppedAt && `Stopped ${new Date(timer.stoppedAt).toLocaleTimeString()}`}
+          </p>
+        </div>
+        {scheduledMinutes !== undefined && (
+          <div className="text-sm" style={{ color: 'var(--sf-muted)' }}>
+            <p>Booked: {scheduledMinutes} min</p>
+            {isOverrun && (
+              <p className="text-red-600 font-medium">
+                Over by {Math.round((elapsedMs - scheduledMs!) / 60_000)} min
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {laborByTech.length > 0 && (
+        <div className="text-sm" style={{ color: 'var(--sf-muted)' }}>
+          {laborByTech.map(labor => (
+            <span key={labor.userId} className="inline-block mr-4">
+              👤 {labor.name}: {labor.minutes} min
+            </span>
+          ))}
+        </div>
+      )}
+
+      {canControl && timer && (
+        <div className="flex flex-wrap gap-3">
+          {running && PAUSE_REASONS.map(reason => (
+            <button
+              key={reason}
+              onClick={() => sendAction('pause', reason)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              ⏸ {reason}
+            </button>
+          ))}
+          {timer.pausedAt && (
+            <button
+              onClick={() => sendAction('resume')}
+              disabled={saving}
+              className="px-6 py-3 bg-[#2563EB] hover:bg-[#1D4ED8] text-white rounded-xl font-medium sf-button-transition disabled:opacity-50"
+            >
+              ▶ Resume
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,15 +5,69 @@ import { useState, useEffect, useCallback } from 'react';
 import Image from 'next/image';
 import { useTranslations } from '@/lib/i18n/provider';
 import { usePolling } from '@/lib/hooks/usePolling';
-import { WorkStatus, PaymentStatus, ChecklistItem } from '@/lib/types';
+import { WorkStatus, PaymentStatus, ChecklistItem, UserRole } from '@/lib/types';
+import type {
+  WorkflowStage,
+  CheckinInspection as CheckinInspectionRecord,
+  WorkTimer as WorkTimerRecord,
+  QcRejection,
+  JobAssignee,
+  JobBay,
+  NoShowChargeAttempt,
+  NoShowPolicy,
+  JobIssue,
+  PostCompletionIssue,
+  JobCustomerFlags,
+  PaymentMatchMethod,
+  PriceBreakdown,
+  JobAddon,
+  JobDiscount,
+  PaymentEntry,
+  RefundEntry,
+} from '@/lib/types';
+import { getAvailableTransitions, isCardChargeTransition, isChecklistOverridable } from '@/lib/workflow/status-transitions';
+import { calculateNoShowFee, describeNoShowPolicy } from '@/lib/workflow/no-show';
+import { DEFAULT_WORKFLOW_STAGES, getJobStage } from '@/lib/workflow/pipelines';
+import { getJobIssues } from '@/lib/workflow/issues';
+import { getDefaultRedoItemIds } from '@/lib/workflow/redo';
+import { hasCustomerFlags } from '@/lib/workflow/customer-flags';
+import { describeTender } from '@/lib/workflow/payment-matching';
+import { formatAddonName, getJobAddons } from '@/lib/workflow/addons';
+import { getBalanceDueCents } from '@/lib/workflow/payment-ledger';
+import { formatCents } from '@/lib/utils/money';
+import { CANONICAL_MAKES, normalizeMake } from '@/lib/utils/vehicle';
+import { decodeVin, validateVin } from '@/lib/utils/vin';
 import type { Locale } from '@/i18n';
 import PhotoUploader from './PhotoUploader';
+import CheckinInspection from './CheckinInspection';
+import WorkTimer from './WorkTimer';
+import QcReject from './QcReject';
+import JobIssues from './JobIssues';
+import { CustomerFlagBadges } from '../../components/CustomerFlagBadges';
+import BayPicker from './BayPicker';
+import PriceBreakdownLines from './PriceBreakdownLines';
+import JobDiscounts from './JobDiscounts';
+import PaymentLedger from './PaymentLedger';
 import EditBookingModal from '@/app/components/EditBookingModal';
+import AssigneePicker, { type AssignableUserOption } from '@/app/components/AssigneePicker';
+
+/**
+ * Status button colors by target status (back moves are always grey)
+ */
+const TRANSITION_BUTTON_COLORS: Record<string, string> = {
+  [WorkStatus.CHECKED_IN]: 'bg-[#1F8A5B] hover:bg-[#196F4A]',
+  [WorkStatus.IN_PROGRESS]: 'bg-[#2563EB] hover:bg-[#1D4ED8]',
+  [WorkStatus.QC_READY]: 'bg-[#7C3AED] hover:bg-[#6D28D9]',
+  [WorkStatus.WORK_COMPLETED]: 'bg-[#16A34A] hover:bg-[#15803D]',
+  back: 'bg-[#64748B] hover:bg-[#475569]',
+  default: 'bg-[#F47C20] hover:bg-[#DB6E1C]',
+};
 
 interface Job {
   jobId: string;
   bookingId?: string;
   orderId?: string;
+  customerId?: string;
   customerName: string;
   customerPhone?: string;
   customerEmail?: string;
@@ -24,12 +78,15 @@ interface Job {
     year?: number;
     color?: string;
     licensePlate?: string;
+    vin?: string;
   };
+  vehicleId?: string; // Vehicle profile (history page)
   serviceType: string;
   scheduledStart?: string;
   appointmentTime?: string;
   workStatus: WorkStatus;
   status: string;
+  stageId?: string;
   payment?: {
     status: PaymentStatus;
     amountCents?: number;
@@ -39,12 +96,30 @@ interface Job {
     };
     unpaidReason?: string;
     unpaidNote?: string;
+    squarePaymentId?: string;
+    tipCents?: number;
+    tenderType?: string;
+    cardBrand?: string;
+    cardLast4?: string;
+    receiptUrl?: string;
+    matchedBy?: PaymentMatchMethod;
   };
+  priceBreakdown?: PriceBreakdown;
+  addons?: JobAddon[];
+  discounts?: JobDiscount[];
+  paymentEntries?: PaymentEntry[];
+  refunds?: RefundEntry[];
   checklist?: {
     tech?: ChecklistItem[];
     qc?: ChecklistItem[];
   };
   photosMeta?: Array<any>;
+  checkinInspection?: CheckinInspectionRecord;
+  scheduledDurationMinutes?: number;
+  workTimer?: WorkTimerRecord;
+  qcRejections?: QcRejection[];
+  assignedTo?: JobAssignee[];
+  bay?: JobBay;
   receiptPhotos?: Array<{
     photoId: string;
     publicUrl: string;
@@ -58,23 +133,18 @@ interface Job {
     email?: string;
     phone?: string;
   };
-  postCompletionIssue?: {
-    isOpen: boolean;
-    type: string;
-    notes?: string;
-    openedAt: string;
-    openedBy: {
-      name: string;
-    };
-    resolvedAt?: string;
-    resolvedBy?: {
-      name: string;
-    };
-  };
+  postCompletionIssue?: PostCompletionIssue; // Legacy single issue (read through getJobIssues)
+  issues?: JobIssue[];
+  redoOfJobId?: string; // Set on redo jobs: the job being redone
+  customerFlags?: JobCustomerFlags; // Tags and preferences copied from the customer
+  redoJobIds?: string[]; // Redo jobs scheduled from this job's issues
   noShow?: {
     status: 'NONE' | 'NO_SHOW' | 'RESOLVED';
     reason?: 'NO_ARRIVAL' | 'LATE_CANCEL' | 'UNREACHABLE' | 'OTHER';
     notes?: string;
+    feeCents?: number;
+    chargeResult?: 'SUCCESS' | 'FAILED';
+    chargeAttempts?: NoShowChargeAttempt[];
     updatedAt: string;
     updatedBy: {
       userId: string;
@@ -88,6 +158,7 @@ interface Job {
       role: 'MANAGER';
     };
   };
+  version?: number;
 }
 
 export default function JobDetail() {
@@ -105,19 +176,14 @@ export default function JobDetail() {
   const [updating, setUpdating] = useState(false);
   const [showPhotoUploader, setShowPhotoUploader] = useState(false);
   const [selectedPhoto, setSelectedPhoto] = useState<any | null>(null);
-  const [showIssueModal, setShowIssueModal] = useState(false);
-  const [issueType, setIssueType] = useState<'QC_MISS' | 'CUSTOMER_COMPLAINT' | 'DAMAGE' | 'REDO' | 'OTHER'>('OTHER');
-  const [issueNotes, setIssueNotes] = useState('');
 
   // Payment toggle state
-  const [showReceiptUploadModal, setShowReceiptUploadModal] = useState(false);
   const [showUnpaidModal, setShowUnpaidModal] = useState(false);
-  const [unpaidReason, setUnpaidReason] = useState<string>('Refunded');
+  const [unpaidReason, setUnpaidReason] = useState<string>('Mistake');
   const [unpaidNote, setUnpaidNote] = useState('');
-  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
-  const [uploadingReceipts, setUploadingReceipts] = useState(false);
   const [selectedReceipt, setSelectedReceipt] = useState<any | null>(null);
   const [currentUserRole, setCurrentUserRole] = useState<string>('TECH'); // Will be fetched from /api/auth/me
+  const [staff, setStaff] = useState<AssignableUserOption[]>([]);
   const [editingAmount, setEditingAmount] = useState(false);
   const [amountInput, setAmountInput] = useState('');
   const [lastPolledAt, setLastPolledAt] = useState<Date | null>(null);
@@ -127,6 +193,7 @@ export default function JobDetail() {
   const [showNoShowResolveModal, setShowNoShowResolveModal] = useState(false);
   const [noShowReason, setNoShowReason] = useState<'NO_ARRIVAL' | 'LATE_CANCEL' | 'UNREACHABLE' | 'OTHER'>('NO_ARRIVAL');
   const [noShowNotes, setNoShowNotes] = useState('');
+  const [noShowPolicy, setNoShowPolicy] = useState<NoShowPolicy | null>(null);
 
   // Image error tracking for expired presigned URLs
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
@@ -139,6 +206,7 @@ export default function JobDetail() {
     year: '',
     color: '',
     licensePlate: '',
+    vin: '',
   });
   const [serviceTypeForm, setServiceTypeForm] = useState('');
   const [services, setServices] = useState<string[]>([]);
@@ -146,10 +214,7 @@ export default function JobDetail() {
   const [savingVehicle, setSavingVehicle] = useState(false);
 
   // Add-ons state
-  const [addons, setAddons] = useState<Array<{
-    name: string;
-  }>>([]);
-  const [loadingAddons, setLoadingAddons] = useState(false);
+  const [addons, setAddons] = useState<JobAddon[]>([]);
   
   // Add-ons editing state
   const [selectedAddonIds, setSelectedAddonIds] = useState<Set<string>>(new Set());
@@ -162,57 +227,6 @@ export default function JobDetail() {
   // Booking edit state
   const [showEditBookingModal, setShowEditBookingModal] = useState(false);
 
-  /**
-   * Parse add-ons from booking notes
-   * Format: "✅ ADD-ONS REQUESTED:\n• Addon 1\n• Addon 2"
-   */
-  const parseAddonsFromNotes = (notes: string | undefined): Array<{ name: string }> => {
-    console.log('[ADDONS PARSER] Parsing notes', {
-      hasNotes: !!notes,
-      notesLength: notes?.length,
-      notesPreview: notes?.substring(0, 200),
-    });
-    
-    if (!notes) {
-      console.log('[ADDONS PARSER] No notes to parse');
-      return [];
-    }
-    
-    // Look for the add-ons section (support both emoji and text variants)
-    const addonsMatch = notes.match(/[✅✓]\s*ADD[-\s]ONS\s+REQUESTED:\s*([\s\S]*?)(?:\n\n|⚠️|$)/i);
-    
-    console.log('[ADDONS PARSER] Regex match result', {
-      matched: !!addonsMatch,
-      matchedText: addonsMatch?.[1]?.substring(0, 100),
-    });
-    
-    if (!addonsMatch) {
-      console.log('[ADDONS PARSER] No add-ons section found in notes');
-      return [];
-    }
-    
-    const addonsText = addonsMatch[1];
-    
-    // Extract individual add-ons (lines starting with • or -)
-    const addonLines = addonsText.split('\n').filter(line => {
-      const trimmed = line.trim();
-      return trimmed.startsWith('•') || trimmed.startsWith('-') || trimmed.startsWith('*');
-    });
-    
-    console.log('[ADDONS PARSER] Extracted addon lines', {
-      count: addonLines.length,
-      lines: addonLines,
-    });
-    
-    const parsedAddons = addonLines.map(line => ({
-      name: line.replace(/^[•\-*]\s*/, '').trim(),
-    }));
-    
-    console.log('[ADDONS PARSER] Final parsed add-ons', parsedAddons);
-    
-    return parsedAddons;
-  };
-
   // Format last updated time
   const formatLastUpdated = (date: Date | null): string => {
     if (!date) return '';
@@ -263,16 +277,22 @@ export default function JobDetail() {
           jobId: apiJob.jobId,
           bookingId: apiJob.bookingId,
           orderId: apiJob.orderId,
+          customerId: apiJob.customerId,
           customerName: apiJob.customerCached?.name || apiJob.customerName || 'Unknown Customer',
           customerPhone: apiJob.customerCached?.phone || apiJob.customerPhone,
           customerEmail: apiJob.customerCached?.email || apiJob.customerEmail,
           notes: apiJob.notes,
           vehicleInfo: apiJob.vehicleInfo || {},
+          vehicleId: apiJob.vehicleId,
           serviceType: apiJob.serviceType || 'Service details pending',
           scheduledStart: apiJob.appointmentTime || apiJob.createdAt,
           appointmentTime: apiJob.appointmentTime,
           workStatus: (apiJob.status?.toUpperCase() as WorkStatus) || WorkStatus.SCHEDULED,
           status: apiJob.status,
+          stageId: apiJob.stageId,
+          priceBreakdown: apiJob.priceBreakdown,
+          addons: apiJob.addons,
+          discounts: apiJob.discounts,
           payment: apiJob.payment || {
             status: PaymentStatus.UNPAID,
             amountCents: 0,
@@ -282,9 +302,22 @@ export default function JobDetail() {
             qc: apiJob.checklist?.qc || defaultQcChecklist,
           },
           photosMeta: apiJob.photosMeta || [],
+          checkinInspection: apiJob.checkinInspection,
+          scheduledDurationMinutes: apiJob.scheduledDurationMinutes,
+          workTimer: apiJob.workTimer,
+          qcRejections: apiJob.qcRejections,
+          assignedTo: apiJob.assignedTo,
           receiptPhotos: apiJob.receiptPhotos || [],
+          paymentEntries: apiJob.paymentEntries,
+          refunds: apiJob.refunds,
           customerCached: apiJob.customerCached,
           postCompletionIssue: apiJob.postCompletionIssue,
+          issues: apiJob.issues,
+          redoOfJobId: apiJob.redoOfJobId,
+          redoJobIds: apiJob.redoJobIds,
+          customerFlags: apiJob.customerFlags,
+          noShow: apiJob.noShow,
+          version: apiJob.version,
         });
       } else {
         throw new Error('Invalid API response');
@@ -301,35 +334,28 @@ export default function JobDetail() {
     fetchJob();
   }, [jobId]);
 
-  // Parse add-ons from job notes when job is loaded or updated
+  // Load the service's pipeline (status buttons follow it)
+  const [workflowStages, setWorkflowStages] = useState<WorkflowStage[]>(DEFAULT_WORKFLOW_STAGES);
+  // Manager override of unchecked required checklist items (target stage + reason)
+  const [overrideStageId, setOverrideStageId] = useState<string | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
   useEffect(() => {
-    if (!job) {
-      setAddons([]);
-      return;
-    }
-    
-    setLoadingAddons(true);
-    
-    try {
-      console.log('[JOB DETAILS] Parsing add-ons from notes', {
-        jobId: job.jobId,
-        hasNotes: !!job.notes,
-      });
-      
-      const parsedAddons = parseAddonsFromNotes(job.notes);
-      
-      setAddons(parsedAddons);
-      console.log('[JOB DETAILS] Add-ons parsed from notes', {
-        count: parsedAddons.length,
-        addons: parsedAddons,
-      });
-    } catch (error) {
-      console.error('[JOB DETAILS] Failed to parse add-ons', error);
-      setAddons([]);
-    } finally {
-      setLoadingAddons(false);
-    }
-  }, [job?.notes, job?.jobId]);
+    if (!job?.serviceType) return;
+
+    fetch(`/api/services/${encodeURIComponent(job.serviceType)}/workflow`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success && data.data?.workflow) {
+          setWorkflowStages(data.data.workflow.stages);
+        }
+      })
+      .catch(err => console.error('Failed to load workflow:', err));
+  }, [job?.serviceType]);
+
+  // Add-ons stored on the job (older jobs only list them in their notes)
+  useEffect(() => {
+    setAddons(job ? getJobAddons(job) : []);
+  }, [job?.addons, job?.notes, job?.jobId]);
 
   // Phase 4: Polling for real-time updates
   const pollingFetcher = useCallback(async (): Promise<Job> => {
@@ -359,16 +385,22 @@ export default function JobDetail() {
         jobId: apiJob.jobId,
         bookingId: apiJob.bookingId,
         orderId: apiJob.orderId,
+        customerId: apiJob.customerId,
         customerName: apiJob.customerCached?.name || apiJob.customerName || 'Unknown Customer',
         customerPhone: apiJob.customerCached?.phone || apiJob.customerPhone,
         customerEmail: apiJob.customerCached?.email || apiJob.customerEmail,
         notes: apiJob.notes,
         vehicleInfo: apiJob.vehicleInfo || {},
+        vehicleId: apiJob.vehicleId,
         serviceType: apiJob.serviceType || 'Service details pending',
         scheduledStart: apiJob.appointmentTime || apiJob.createdAt,
         appointmentTime: apiJob.appointmentTime,
         workStatus: (apiJob.status?.toUpperCase() as WorkStatus) || WorkStatus.SCHEDULED,
         status: apiJob.status,
+        stageId: apiJob.stageId,
+        priceBreakdown: apiJob.priceBreakdown,
+        addons: apiJob.addons,
+        discounts: apiJob.discounts,
         payment: apiJob.payment || {
           status: PaymentStatus.UNPAID,
           amountCents: 0,
@@ -378,9 +410,21 @@ export default function JobDetail() {
           qc: apiJob.checklist?.qc || defaultQcChecklist,
         },
         photosMeta: apiJob.photosMeta || [],
+        checkinInspection: apiJob.checkinInspection,
+        scheduledDurationMinutes: apiJob.scheduledDurationMinutes,
+        workTimer: apiJob.workTimer,
+        qcRejections: apiJob.qcRejections,
+        assignedTo: apiJob.assignedTo,
         receiptPhotos: apiJob.receiptPhotos || [],
+        paymentEntries: apiJob.paymentEntries,
+        refunds: apiJob.refunds,
         customerCached: apiJob.customerCached,
         postCompletionIssue: apiJob.postCompletionIssue,
+        issues: apiJob.issues,
+        redoOfJobId: apiJob.redoOfJobId,
+        redoJobIds: apiJob.redoJobIds,
+        customerFlags: apiJob.customerFlags,
+        version: apiJob.version,
       };
     } else {
       throw new Error('Invalid API response');
@@ -424,6 +468,73 @@ export default function JobDetail() {
     fetchUser();
   }, []);
 
+  // Managers pick assignees from the active staff list
+  useEffect(() => {
+    if (currentUserRole !== 'MANAGER') return;
+
+    const fetchStaff = async () => {
+      try {
+        const response = await fetch('/api/manager/users');
+        const data = await response.json();
+        if (data.success && data.data?.users) {
+          setStaff(data.data.users);
+        }
+      } catch (err) {
+        console.error('Failed to fetch staff:', err);
+      }
+    };
+    fetchStaff();
+  }, [currentUserRole]);
+
+  // Managers see the no-show fee the policy would charge
+  useEffect(() => {
+    if (currentUserRole !== 'MANAGER') return;
+
+    const fetchNoShowPolicy = async () => {
+      try {
+        const response = await fetch('/api/no-show-policy');
+        const data = await response.json();
+        if (data.success && data.data?.policy) {
+          setNoShowPolicy(data.data.policy);
+        }
+      } catch (err) {
+        console.error('Failed to fetch no-show policy:', err);
+      }
+    };
+    fetchNoShowPolicy();
+  }, [currentUserRole]);
+
+  // Optimistic concurrency: PATCH with the version this page last loaded.
+  // On VERSION_CONFLICT, refetch the job and rebuild the change against it once.
+  const patchJob = async (buildBody: (latest: Job) => Record<string, any>): Promise<Response> => {
+    const send = (latest: Job) => fetch(`/api/jobs/${jobId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...buildBody(latest), expectedVersion: latest.version ?? 0 }),
+    });
+
+    let response = await send(job!);
+
+    if (response.status === 409) {
+      const conflict = await response.clone().json();
+      if (conflict.error?.code === 'VERSION_CONFLICT') {
+        console.log('[JOB DETAILS] Version conflict, refetching and re-applying', conflict.error.details);
+        const latest = await pollingFetcher();
+        setJob(latest);
+        response = await send(latest);
+      }
+    }
+
+    if (response.ok) {
+      const data = await response.clone().json();
+      if (data.data?.job?.version !== undefined) {
+        setJob(prev => prev ? { ...prev, version: data.data.job.version } : null);
+      }
+    }
+
+    return response;
+  };
+
   const refreshJob = async () => {
     try {
       const response = await fetch(`/api/jobs/${jobId}`);
@@ -434,8 +545,17 @@ export default function JobDetail() {
           setJob(prev => prev ? {
             ...prev,
             photosMeta: apiJob.photosMeta || [],
+            checkinInspection: apiJob.checkinInspection,
+            workTimer: apiJob.workTimer,
+            qcRejections: apiJob.qcRejections,
+            issues: apiJob.issues,
+            redoJobIds: apiJob.redoJobIds,
+            assignedTo: apiJob.assignedTo,
             receiptPhotos: apiJob.receiptPhotos || [],
+            paymentEntries: apiJob.paymentEntries,
+            refunds: apiJob.refunds,
             checklist: apiJob.checklist || prev.checklist,
+            version: apiJob.version,
           } : null);
           // Clear image errors to allow retrying with new URLs
           setImageErrors(new Set());
@@ -456,18 +576,18 @@ export default function JobDetail() {
     }
   }, [imageErrors, jobId]);
 
-  const handleStatusChange = async (newStatus: WorkStatus) => {
+  const handleStatusChange = async (newStatus: WorkStatus, stageId?: string, checklistOverrideReason?: string) => {
     if (!job || updating) return;
     
     setUpdating(true);
     const previousStatus = job.workStatus;
 
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ workStatus: newStatus }),
-      });
+      const response = await patchJob(() => ({
+        workStatus: newStatus,
+        stageId,
+        ...(checklistOverrideReason && { checklistOverride: { reason: checklistOverrideReason } }),
+      }));
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -477,7 +597,9 @@ export default function JobDetail() {
       const data = await response.json();
 
       if (data.success && data.data?.job) {
-        setJob({ ...job, workStatus: newStatus, status: newStatus });
+        setJob(prev => prev ? { ...prev, workStatus: newStatus, status: newStatus, stageId } : null);
+        setOverrideStageId(null);
+        setOverrideReason('');
         showToast('Status updated successfully', 'success');
       } else {
         throw new Error('Invalid response from server');
@@ -485,7 +607,7 @@ export default function JobDetail() {
     } catch (err) {
       console.error('Failed to update status:', err);
       showToast((err as Error).message, 'error');
-      setJob({ ...job, workStatus: previousStatus });
+      setJob(prev => prev ? { ...prev, workStatus: previousStatus } : null);
     } finally {
       setUpdating(false);
     }
@@ -495,9 +617,10 @@ export default function JobDetail() {
     if (!job || updating) return;
 
     const currentChecklist = job.checklist?.[type] || [];
-    const updatedChecklist = currentChecklist.map(item =>
-      item.id === itemId ? { ...item, checked: !item.checked } : item
-    );
+    const checked = !currentChecklist.find(item => item.id === itemId)?.checked;
+    const applyToggle = (items: ChecklistItem[]) =>
+      items.map(item => (item.id === itemId ? { ...item, checked } : item));
+    const updatedChecklist = applyToggle(currentChecklist);
 
     setJob({
       ...job,
@@ -508,15 +631,13 @@ export default function JobDetail() {
     });
 
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          checklist: {
-            [type]: updatedChecklist,
-          },
-        }),
-      });
+      // Re-applied against the latest checklist on a version conflict so
+      // another tech's ticks aren't overwritten
+      const response = await patchJob(latest => ({
+        checklist: {
+          [type]: applyToggle(latest.checklist?.[type] || []),
+        },
+      }));
 
       if (!response.ok) {
         throw new Error('Failed to update checklist');
@@ -532,235 +653,37 @@ export default function JobDetail() {
     } catch (err) {
       console.error('Failed to update checklist:', err);
       showToast('Failed to save checklist change', 'error');
-      setJob({
-        ...job,
+      setJob(prev => prev ? {
+        ...prev,
         checklist: {
-          ...job.checklist!,
+          ...prev.checklist,
           [type]: currentChecklist,
         },
-      });
-    }
-  };
-
-  const handleOpenIssue = async () => {
-    if (!job || updating) return;
-
-    setUpdating(true);
-    try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          openPostCompletionIssue: {
-            type: issueType,
-            notes: issueNotes,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error?.message || 'Failed to open issue');
-      }
-
-      const data = await response.json();
-
-      if (data.success && data.data?.job) {
-        setJob(prev => prev ? { ...prev, postCompletionIssue: data.data.job.postCompletionIssue } : null);
-        showToast('Issue reported successfully', 'success');
-        setShowIssueModal(false);
-        setIssueNotes('');
-        setIssueType('OTHER');
-      }
-    } catch (err) {
-      console.error('Failed to open issue:', err);
-      showToast((err as Error).message, 'error');
-    } finally {
-      setUpdating(false);
-    }
-  };
-
-  const handleResolveIssue = async () => {
-    if (!job || updating) return;
-
-    setUpdating(true);
-    try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          resolvePostCompletionIssue: true,
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error?.message || 'Failed to resolve issue');
-      }
-
-      const data = await response.json();
-
-      if (data.success && data.data?.job) {
-        setJob(prev => prev ? { ...prev, postCompletionIssue: data.data.job.postCompletionIssue } : null);
-        showToast('Issue resolved successfully', 'success');
-      }
-    } catch (err) {
-      console.error('Failed to resolve issue:', err);
-      showToast((err as Error).message, 'error');
-    } finally {
-      setUpdating(false);
+      } : null);
     }
   };
 
-  // Payment toggle handlers
+  // Payments are recorded on the ledger; the toggle only takes a paid job back to UNPAID
   const handlePaymentToggle = () => {
-    console.log('handlePaymentToggle called. currentUserRole:', currentUserRole); // Debug log
-    if (!job || currentUserRole !== 'MANAGER') {
-      console.log('Early return - job:', !!job, 'role:', currentUserRole); // Debug log
-      return;
-    }
+    if (!job || currentUserRole !== 'MANAGER') return;
 
-    const currentStatus = job.payment?.status || PaymentStatus.UNPAID;
-
-    if (currentStatus === PaymentStatus.UNPAID) {
-      // Toggling to PAID - check for receipts
-      if (!job.receiptPhotos || job.receiptPhotos.length === 0) {
-        // No receipts, show upload modal
-        setShowReceiptUploadModal(true);
-      } else {
-        // Receipts exist, mark as paid directly
-        handleMarkPaid();
-      }
-    } else {
-      // Toggling to UNPAID - show reason modal
+    if (job.payment?.status === PaymentStatus.PAID) {
       setShowUnpaidModal(true);
     }
   };
 
-  const handleReceiptUpload = async () => {
-    if (!receiptFiles.length || uploadingReceipts) return;
-
-    setUploadingReceipts(true);
-    try {
-      // Step 1: Get presigned URLs
-      const presignResponse = await fetch(`/api/jobs/${jobId}/receipts/presign`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          files: receiptFiles.map(file => ({
-            filename: file.name,
-            contentType: file.type,
-          })),
-        }),
-      });
-
-      if (!presignResponse.ok) {
-        throw new Error('Failed to get upload URLs');
-      }
-
-      const presignData = await presignResponse.json();
-      const uploads = presignData.data.uploads;
-
-      // Step 2: Upload each file to S3
-      await Promise.all(
-        receiptFiles.map(async (file, index) => {
-          const upload = uploads[index];
-          const uploadResponse = await fetch(upload.putUrl, {
-            method: 'PUT',
-            headers: { 'Content-Type': file.type },
-            body: file,
-          });
-          if (!uploadResponse.ok) {
-            throw new Error(`Failed to upload ${file.name}`);
-          }
-        })
-      );
-
-      // Step 3: Commit uploads to job record
-      const commitResponse = await fetch(`/api/jobs/${jobId}/receipts/commit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          photos: uploads.map((upload: any) => ({
-            photoId: upload.photoId,
-            s3Key: upload.s3Key,
-            publicUrl: upload.publicUrl,
-            contentType: upload.contentType,
-          })),
-        }),
-      });
-
-      if (!commitResponse.ok) {
-        throw new Error('Failed to save receipt records');
-      }
-
-      const commitData = await commitResponse.json();
-      
-      // Update job with new receipt photos
-      setJob(prev => prev ? { 
-        ...prev, 
-        receiptPhotos: commitData.data.job.receiptPhotos 
-      } : null);
-
-      showToast('Receipt photo saved successfully', 'success');
-      setReceiptFiles([]);
-    } catch (err) {
-      console.error('Failed to save receipt:', err);
-      showToast((err as Error).message, 'error');
-    } finally {
-      setUploadingReceipts(false);
-    }
-  };
-
-  const handleMarkPaid = async () => {
-    if (!job || updating) return;
-
-    setUpdating(true);
-    try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          payment: { status: PaymentStatus.PAID },
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error?.message || 'Failed to mark as paid');
-      }
-
-      const data = await response.json();
-
-      if (data.success && data.data?.job) {
-        setJob(prev => prev ? { ...prev, payment: data.data.job.payment } : null);
-        showToast('Payment marked as PAID', 'success');
-        setShowReceiptUploadModal(false);
-      }
-    } catch (err) {
-      console.error('Failed to mark paid:', err);
-      showToast((err as Error).message, 'error');
-    } finally {
-      setUpdating(false);
-    }
-  };
-
   const handleMarkUnpaid = async () => {
     if (!job || updating || !unpaidReason) return;
 
     setUpdating(true);
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          payment: {
-            status: PaymentStatus.UNPAID,
-            unpaidReason,
-            unpaidNote,
-          },
-        }),
-      });
+      const response = await patchJob(() => ({
+        payment: {
+          status: PaymentStatus.UNPAID,
+          unpaidReason,
+          unpaidNote,
+        },
+      }));
 
       if (!response.ok) {
         const data = await response.json();
@@ -770,11 +693,16 @@ export default function JobDetail() {
       const data = await response.json();
 
       if (data.success && data.data?.job) {
-        setJob(prev => prev ? { ...prev, payment: data.data.job.payment } : null);
+        setJob(prev => prev ? {
+          ...prev,
+          payment: data.data.job.payment,
+          paymentEntries: data.data.job.paymentEntries,
+          refunds: data.data.job.refunds,
+        } : null);
         showToast('Payment marked as UNPAID', 'success');
         setShowUnpaidModal(false);
         setUnpaidNote('');
-        setUnpaidReason('Refunded');
+        setUnpaidReason('Mistake');
       }
     } catch (err) {
       console.error('Failed to mark unpaid:', err);
@@ -795,16 +723,12 @@ export default function JobDetail() {
 
     setUpdating(true);
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          payment: {
-            ...job.payment,
-            amountCents,
-          },
-        }),
-      });
+      const response = await patchJob(latest => ({
+        payment: {
+          ...latest.payment,
+          amountCents,
+        },
+      }));
 
       if (!response.ok) {
         const data = await response.json();
@@ -832,17 +756,13 @@ export default function JobDetail() {
 
     setUpdating(true);
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          noShow: {
-            status: 'NO_SHOW',
-            reason: noShowReason,
-            notes: noShowNotes || undefined,
-          },
-        }),
-      });
+      const response = await patchJob(() => ({
+        noShow: {
+          status: 'NO_SHOW',
+          reason: noShowReason,
+          notes: noShowNotes || undefined,
+        },
+      }));
 
       if (!response.ok) {
         const data = await response.json();
@@ -871,16 +791,12 @@ export default function JobDetail() {
 
     setUpdating(true);
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          noShow: {
-            status: 'RESOLVED',
-            notes: noShowNotes || undefined,
-          },
-        }),
-      });
+      const response = await patchJob(() => ({
+        noShow: {
+          status: 'RESOLVED',
+          notes: noShowNotes || undefined,
+        },
+      }));
 
       if (!response.ok) {
         const data = await response.json();
@@ -903,6 +819,44 @@ export default function JobDetail() {
     }
   };
 
+  // Charge (or retry) the no-show fee on the customer's card on file
+  const handleChargeNoShow = async () => {
+    if (!job || updating) return;
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/no-show/charge`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to charge no-show fee');
+      }
+
+      const { job: updatedJob, attempt } = data.data as { job: any; attempt: NoShowChargeAttempt };
+      setJob(prev => prev ? {
+        ...prev,
+        workStatus: updatedJob.status,
+        status: updatedJob.status,
+        stageId: updatedJob.stageId,
+        noShow: updatedJob.noShow,
+        version: updatedJob.version,
+      } : null);
+
+      if (attempt.result === 'SUCCESS') {
+        showToast(`Charged ${formatCents(attempt.amountCents)} no-show fee`, 'success');
+      } else if (attempt.result === 'PENDING') {
+        showToast(`Square hasn't confirmed the charge (${attempt.failureReason || 'no answer'}); retry to check it without charging twice`, 'error');
+      } else {
+        showToast(`Charge failed: ${attempt.failureReason || 'unknown error'}`, 'error');
+      }
+    } catch (err) {
+      console.error('Failed to charge no-show fee:', err);
+      showToast((err as Error).message, 'error');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   // Vehicle editing handlers
   const fetchServices = async () => {
     try {
@@ -947,19 +901,21 @@ export default function JobDetail() {
       year: job.vehicleInfo.year?.toString() || '',
       color: job.vehicleInfo.color || '',
       licensePlate: job.vehicleInfo.licensePlate || '',
+      vin: job.vehicleInfo.vin || '',
     });
     setServiceTypeForm(job.serviceType || '');
     
-    // Pre-select current add-ons by matching names
-    const currentAddonNames = new Set(addons.map(a => a.name.toLowerCase()));
+    // Pre-select current add-ons by catalog ID (by name for add-ons read from notes)
+    const currentAddonIds = new Set(addons.map(a => a.catalogObjectId).filter(Boolean));
+    const currentAddonNames = new Set(addons.filter(a => !a.catalogObjectId).map(a => a.name.toLowerCase()));
     
     // Load services and add-ons
     fetchServices();
     fetchAvailableAddons().then((fetchedAddons) => {
-      // Match current add-ons to available add-ons by name using fetched data
+      // Match current add-ons to available add-ons using fetched data
       const preselectedIds = new Set<string>();
       fetchedAddons.forEach((addon: { id: string; name: string; priceMoney?: { amount: number; currency: string } }) => {
-        if (currentAddonNames.has(addon.name.toLowerCase())) {
+        if (currentAddonIds.has(addon.id) || currentAddonNames.has(addon.name.toLowerCase())) {
           preselectedIds.add(addon.id);
         }
       });
@@ -981,6 +937,7 @@ export default function JobDetail() {
           year: vehicleForm.year ? parseInt(vehicleForm.year) : undefined,
           color: vehicleForm.color || undefined,
           licensePlate: vehicleForm.licensePlate || undefined,
+          vin: vehicleForm.vin || undefined,
         },
       };
 
@@ -990,22 +947,15 @@ export default function JobDetail() {
       }
       
       // Include add-ons if changed
-      const selectedAddonNames = availableAddons
+      requestBody.addonVariationIds = availableAddons
         .filter(addon => selectedAddonIds.has(addon.id))
-        .map(addon => addon.name);
-      
-      requestBody.addonNames = selectedAddonNames;
+        .map(addon => addon.id);
       
       console.log('[VEHICLE EDIT] Saving with add-ons', {
         selectedAddonIds: Array.from(selectedAddonIds),
-        selectedAddonNames,
       });
 
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
+      const response = await patchJob(() => requestBody);
 
       if (!response.ok) {
         const data = await response.json();
@@ -1018,9 +968,12 @@ export default function JobDetail() {
         setJob(prev => prev ? { 
           ...prev, 
           vehicleInfo: data.data.job.vehicleInfo,
+          vehicleId: data.data.job.vehicleId,
           serviceType: data.data.job.serviceType,
           notes: data.data.job.notes,
           payment: data.data.job.payment,
+          priceBreakdown: data.data.job.priceBreakdown,
+          addons: data.data.job.addons,
         } : null);
         showToast('Vehicle info updated successfully', 'success');
         setEditingVehicle(false);
@@ -1033,6 +986,21 @@ export default function JobDetail() {
     }
   };
 
+  // Typing a valid VIN fills in the make and year it encodes
+  const handleVinChange = (value: string) => {
+    const vin = value.toUpperCase();
+    const decoded = decodeVin(vin);
+    setVehicleForm({
+      ...vehicleForm,
+      vin,
+      ...(decoded?.make && { make: decoded.make }),
+      ...(decoded?.year && { year: decoded.year.toString() }),
+    });
+  };
+
+  const vinError = vehicleForm.vin ? validateVin(vehicleForm.vin) : undefined;
+  const decodedVin = vinError ? null : decodeVin(vehicleForm.vin);
+
   const handleCancelEditVehicle = () => {
     setEditingVehicle(false);
     setVehicleForm({
@@ -1041,6 +1009,7 @@ export default function JobDetail() {
       year: '',
       color: '',
       licensePlate: '',
+      vin: '',
     });
     setServiceTypeForm('');
   };
@@ -1114,9 +1083,59 @@ export default function JobDetail() {
       </header>
 
       <main className="container mx-auto px-4 py-6 max-w-4xl">
+        {/* Customer flags (tags and preferences managers set on the customer) */}
+        {hasCustomerFlags(job.customerFlags) && (
+          <div className="mb-6 p-4 bg-[#FFFBEB] border-2 border-[#FDE68A] rounded-xl">
+            <div className="text-sm font-semibold text-[#92400E] mb-2">⚑ {t('customer.flags')}</div>
+            <CustomerFlagBadges flags={job.customerFlags} />
+            {job.customerFlags.preferences && (
+              <p className="text-sm text-[#92400E] mt-2 whitespace-pre-wrap">{job.customerFlags.preferences}</p>
+            )}
+          </div>
+        )}
+
+        {/* Redo links (zero-priced follow-up jobs scheduled from an issue) */}
+        {(job.redoOfJobId || (job.redoJobIds && job.redoJobIds.length > 0)) && (
+          <div className="mb-6 p-4 bg-purple-50 border border-purple-200 rounded-xl text-sm text-purple-900 space-y-1">
+            {job.redoOfJobId && (
+              <div>
+                🔁 Redo of{' '}
+                <button
+                  onClick={() => router.push(`/${locale}/jobs/${job.redoOfJobId}`)}
+                  className="font-medium underline"
+                >
+                  job {job.redoOfJobId}
+                </button>
+                {' '}— no charge to the customer
+              </div>
+            )}
+            {job.redoJobIds?.map(redoJobId => (
+              <div key={redoJobId}>
+                🔁 Redo scheduled:{' '}
+                <button
+                  onClick={() => router.push(`/${locale}/jobs/${redoJobId}`)}
+                  className="font-medium underline"
+                >
+                  job {redoJobId}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Customer Info */}
         <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
-          <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>{t('customer.title')}</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold" style={{ color: 'var(--sf-ink)' }}>{t('customer.title')}</h2>
+            {job.customerId && (
+              <button
+                onClick={() => router.push(`/${locale}/customers/${job.customerId}`)}
+                className="text-sm font-medium text-[#F47C20] hover:underline"
+              >
+                {t('customer.profile')} →
+              </button>
+            )}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="text-sm" style={{ color: 'var(--sf-muted)' }}>{t('customer.name')}</label>
@@ -1178,17 +1197,56 @@ export default function JobDetail() {
           </div>
         </section>
 
+        {/* Assignment */}
+        <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+          <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>Assigned To</h2>
+          <AssigneePicker
+            jobId={job.jobId}
+            assignedTo={job.assignedTo}
+            users={staff}
+            canAssign={currentUserRole === 'MANAGER'}
+            onAssigned={(updated) => {
+              setJob(prev => prev ? { ...prev, assignedTo: updated.assignedTo, version: updated.version } : null);
+              showToast('Assignment updated', 'success');
+            }}
+          />
+        </section>
+
+        {/* Bay */}
+        <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+          <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>Bay</h2>
+          <BayPicker
+            jobId={job.jobId}
+            bay={job.bay}
+            canAssign={currentUserRole === 'MANAGER'}
+            onAssigned={(updated) => {
+              setJob(prev => prev ? { ...prev, bay: updated.bay, version: updated.version } : null);
+              showToast('Bay updated', 'success');
+            }}
+          />
+        </section>
+
         {/* Vehicle Info */}
         <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold" style={{ color: 'var(--sf-ink)' }}>{t('vehicle.title')}</h2>
             {!editingVehicle && (
-              <button
-                onClick={handleEditVehicle}
-                className="px-4 py-2 bg-[#F47C20] text-white rounded-lg hover:bg-[#DB6E1C] sf-button-transition text-sm"
-              >
-                Edit
-              </button>
+              <div className="flex items-center gap-3">
+                {job.vehicleId && (
+                  <button
+                    onClick={() => router.push(`/${locale}/vehicles/${job.vehicleId}`)}
+                    className="text-sm font-medium text-[#F47C20] hover:underline"
+                  >
+                    {t('vehicle.history')} →
+                  </button>
+                )}
+                <button
+                  onClick={handleEditVehicle}
+                  className="px-4 py-2 bg-[#F47C20] text-white rounded-lg hover:bg-[#DB6E1C] sf-button-transition text-sm"
+                >
+                  Edit
+                </button>
+              </div>
             )}
           </div>
           
@@ -1203,9 +1261,16 @@ export default function JobDetail() {
                     type="text"
                     value={vehicleForm.make}
                     onChange={(e) => setVehicleForm({ ...vehicleForm, make: e.target.value })}
+                    onBlur={() => setVehicleForm({ ...vehicleForm, make: normalizeMake(vehicleForm.make) || '' })}
+                    list="vehicle-makes"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
                     placeholder="e.g., Toyota"
                   />
+                  <datalist id="vehicle-makes">
+                    {CANONICAL_MAKES.map(make => (
+                      <option key={make} value={make} />
+                    ))}
+                  </datalist>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1261,6 +1326,31 @@ export default function JobDetail() {
                   />
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  VIN
+                </label>
+                <input
+                  type="text"
+                  value={vehicleForm.vin}
+                  onChange={(e) => handleVinChange(e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg text-gray-900 font-mono ${
+                    vinError ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                  placeholder="17 characters (optional)"
+                  maxLength={20}
+                />
+                {vinError && (
+                  <p className="text-xs text-red-600 mt-1">{vinError}</p>
+                )}
+                {decodedVin && (
+                  <p className="text-xs text-green-700 mt-1">
+                    ✓ {[decodedVin.year, decodedVin.make].filter(Boolean).join(' ') || 'Valid VIN'}
+                    {decodedVin.manufacturer && decodedVin.manufacturer !== decodedVin.make && ` · ${decodedVin.manufacturer}`}
+                  </p>
+                )}
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1336,7 +1426,7 @@ export default function JobDetail() {
               <div className="flex gap-3 pt-2">
                 <button
                   onClick={handleSaveVehicle}
-                  disabled={savingVehicle}
+                  disabled={savingVehicle || !!vinError}
                   className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
                 >
                   {savingVehicle ? 'Saving...' : '✓ Save'}
@@ -1368,26 +1458,26 @@ export default function JobDetail() {
                 <label className="text-sm text-gray-600">{t('vehicle.color')}</label>
                 <div className="font-medium text-gray-900">{job.vehicleInfo.color || t('vehicle.pending')}</div>
               </div>
+              {job.vehicleInfo.vin && (
+                <div>
+                  <label className="text-sm text-gray-600">{t('vehicle.vin')}</label>
+                  <div className="font-medium font-mono text-sm text-gray-900">{job.vehicleInfo.vin}</div>
+                </div>
+              )}
               <div>
                 <label className="text-sm text-gray-600">{t('vehicle.service')}</label>
                 <div className="font-medium text-sm text-gray-900">{job.serviceType}</div>
               </div>
-              {(loadingAddons || addons.length > 0) && (
+              {addons.length > 0 && (
                 <div className="col-span-2">
                   <label className="text-sm text-gray-600">Add-ons</label>
-                  {loadingAddons ? (
-                    <div className="text-sm text-gray-500">Loading add-ons...</div>
-                  ) : addons.length > 0 ? (
-                    <div className="space-y-1">
-                      {addons.map((addon, index) => (
-                        <div key={`addon-${index}`} className="flex items-center text-sm">
-                          <span className="font-medium text-gray-900">• {addon.name}</span>
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-sm text-gray-500">No add-ons</div>
-                  )}
+                  <div className="space-y-1">
+                    {addons.map((addon, index) => (
+                      <div key={`addon-${index}`} className="flex items-center text-sm">
+                        <span className="font-medium text-gray-900">• {formatAddonName(addon)}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
             </div>
@@ -1400,78 +1490,128 @@ export default function JobDetail() {
           <div className="mb-4">
             <label className="text-sm" style={{ color: 'var(--sf-muted)' }}>{t('status.current')}</label>
             <div className="text-xl font-bold" style={{ color: 'var(--sf-orange)' }}>{job.workStatus}</div>
+            {(() => {
+              const stage = getJobStage(job, workflowStages);
+              return stage && stage.id !== stage.status && (
+                <div className="text-sm font-medium" style={{ color: 'var(--sf-brown)' }}>{stage.label}</div>
+              );
+            })()}
           </div>
 
-          <div className="flex flex-wrap gap-3">
-            {job.workStatus === WorkStatus.SCHEDULED && (
-              <button
-                onClick={() => handleStatusChange(WorkStatus.CHECKED_IN)}
-                disabled={updating}
-                className="px-6 py-3 bg-[#1F8A5B] text-white rounded-xl font-medium hover:bg-[#196F4A] sf-button-transition disabled:opacity-50"
-              >
-                ✅ {t('actions.checkIn')}
-              </button>
-            )}
-            
-            {job.workStatus === WorkStatus.CHECKED_IN && (
-              <>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.SCHEDULED)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#64748B] text-white rounded-xl font-medium hover:bg-[#475569] sf-button-transition disabled:opacity-50"
-                >
-                  ← Back to Scheduled
-                </button>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.IN_PROGRESS)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#2563EB] text-white rounded-xl font-medium hover:bg-[#1D4ED8] sf-button-transition disabled:opacity-50"
-                >
-                  🔧 {t('actions.startWork')}
-                </button>
-              </>
-            )}
-            
-            {job.workStatus === WorkStatus.IN_PROGRESS && (
-              <>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.CHECKED_IN)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#64748B] text-white rounded-xl font-medium hover:bg-[#475569] sf-button-transition disabled:opacity-50"
-                >
-                  ← Back to Checked In
-                </button>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.QC_READY)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#7C3AED] text-white rounded-xl font-medium hover:bg-[#6D28D9] sf-button-transition disabled:opacity-50"
-                >
-                  🔍 {t('actions.requestQC')}
-                </button>
-              </>
-            )}
-            
-            {job.workStatus === WorkStatus.QC_READY && (
+          {/* Buttons come from the shared state machine the API enforces */}
+          {(() => {
+            const transitions = getAvailableTransitions(job, currentUserRole as UserRole, workflowStages);
+            const blockedReasons = transitions.flatMap(transition => transition.check.rejections.map(r => r.message));
+
+            return (
               <>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.IN_PROGRESS)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#64748B] text-white rounded-xl font-medium hover:bg-[#475569] sf-button-transition disabled:opacity-50"
-                >
-                  ← Back to In Progress
-                </button>
-                <button
-                  onClick={() => handleStatusChange(WorkStatus.WORK_COMPLETED)}
-                  disabled={updating}
-                  className="px-6 py-3 bg-[#16A34A] text-white rounded-xl font-medium hover:bg-[#15803D] sf-button-transition disabled:opacity-50"
-                >
-                  {t('actions.completeWork')}
-                </button>
+                <div className="flex flex-wrap gap-3">
+                  {transitions.map(transition => {
+                    const colors = transition.direction === 'back'
+                      ? TRANSITION_BUTTON_COLORS.back
+                      : TRANSITION_BUTTON_COLORS[transition.to] || TRANSITION_BUTTON_COLORS.default;
+
+                    return (
+                      <button
+                        key={transition.toStage}
+                        onClick={() => isCardChargeTransition(transition)
+                          ? handleChargeNoShow()
+                          : handleStatusChange(transition.to, transition.toStage)}
+                        disabled={updating || !transition.check.allowed}
+                        title={transition.check.rejections.map(r => r.message).join(' ') || undefined}
+                        className={`px-6 py-3 text-white rounded-xl font-medium sf-button-transition disabled:opacity-50 ${colors}`}
+                      >
+                        {transition.icon} {t(`actions.${transition.action}`, { stage: transition.stageLabel })}
+                      </button>
+                    );
+                  })}
+                  {currentUserRole === UserRole.MANAGER && transitions
+                    .filter(transition => isChecklistOverridable(transition.check))
+                    .map(transition => (
+                      <button
+                        key={`override-${transition.toStage}`}
+                        onClick={() => setOverrideStageId(overrideStageId === transition.toStage ? null : transition.toStage)}
+                        disabled={updating}
+                        className="px-6 py-3 border border-amber-400 text-amber-800 bg-amber-50 rounded-xl font-medium hover:bg-amber-100 disabled:opacity-50"
+                      >
+                        ⚠️ Override: {t(`actions.${transition.action}`, { stage: transition.stageLabel })}
+                      </button>
+                    ))}
+                </div>
+                {(() => {
+                  const overrideTransition = transitions.find(transition => transition.toStage === overrideStageId);
+                  return overrideTransition && (
+                    <div className="mt-3 p-4 border border-amber-300 bg-amber-50 rounded-lg space-y-3">
+                      <p className="text-sm text-amber-900">
+                        Skipping required items: {overrideTransition.check.rejections
+                          .flatMap(rejection => rejection.missingItems || [])
+                          .map(item => item.label)
+                          .join(', ')}
+                      </p>
+                      <input
+                        type="text"
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        placeholder="Reason for the override (recorded in the job history)"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                      />
+                      <button
+                        onClick={() => handleStatusChange(overrideTransition.to, overrideTransition.toStage, overrideReason.trim())}
+                        disabled={updating || !overrideReason.trim()}
+                        className="px-6 py-3 bg-[#D97706] hover:bg-[#B45309] text-white rounded-xl font-medium sf-button-transition disabled:opacity-50"
+                      >
+                        Confirm override
+                      </button>
+                    </div>
+                  );
+                })()}
+                {blockedReasons.length > 0 && (
+                  <ul className="mt-3 text-sm space-y-1" style={{ color: 'var(--sf-muted)' }}>
+                    {blockedReasons.map(reason => (
+                      <li key={reason}>⚠️ {reason}</li>
+                    ))}
+                  </ul>
+                )}
               </>
-            )}
-          </div>
+            );
+          })()}
         </section>
 
+        {/* Check-in Inspection (required before work starts) */}
+        {(job.workStatus === WorkStatus.CHECKED_IN || job.checkinInspection) && (
+          <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>🔎 Check-in Inspection</h2>
+            <CheckinInspection
+              jobId={jobId}
+              inspection={job.checkinInspection}
+              photosMeta={job.photosMeta || []}
+              canEdit={
+                currentUserRole === UserRole.MANAGER ||
+                (currentUserRole === UserRole.TECH &&
+                  (job.workStatus === WorkStatus.SCHEDULED || job.workStatus === WorkStatus.CHECKED_IN))
+              }
+              onChange={refreshJob}
+            />
+          </section>
+        )}
+
+        {/* Work Timer (starts on IN_PROGRESS) */}
+        {(job.workStatus === WorkStatus.IN_PROGRESS || job.workTimer) && (
+          <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>⏱️ Work Timer</h2>
+            <WorkTimer
+              jobId={jobId}
+              timer={job.workTimer}
+              scheduledMinutes={job.scheduledDurationMinutes}
+              canControl={
+                job.workStatus === WorkStatus.IN_PROGRESS &&
+                (currentUserRole === UserRole.TECH || currentUserRole === UserRole.MANAGER)
+              }
+              onChange={refreshJob}
+            />
+          </section>
+        )}
+
         {/* Checklist */}
         <section className="bg-white rounded-2xl p-6 mb-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
           <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>{t('checklist.title')}</h2>
@@ -1495,6 +1635,9 @@ export default function JobDetail() {
                   <span className={item.checked ? 'line-through text-gray-500' : 'text-gray-900'}>
                     {item.label}
                   </span>
+                  {item.isRequired !== false && (
+                    <span className="ml-auto text-xs font-medium text-red-600">Required</span>
+                  )}
                 </label>
               ))}
             </div>
@@ -1519,9 +1662,22 @@ export default function JobDetail() {
                   <span className={item.checked ? 'line-through text-gray-500' : 'text-gray-900'}>
                     {item.label}
                   </span>
+                  {item.isRequired !== false && (
+                    <span className="ml-auto text-xs font-medium text-red-600">Required</span>
+                  )}
                 </label>
               ))}
             </div>
+            <QcReject
+              jobId={jobId}
+              qcChecklist={job.checklist?.qc || []}
+              rejections={job.qcRejections || []}
+              canReject={
+                job.workStatus === WorkStatus.QC_READY &&
+                (currentUserRole === UserRole.QC || currentUserRole === UserRole.MANAGER)
+              }
+              onRejected={fetchJob}
+            />
           </div>
         </section>
 
@@ -1579,81 +1735,22 @@ export default function JobDetail() {
           )}
         </section>
 
-        {/* Post-Completion Issue (Only for WORK_COMPLETED jobs) */}
-        {job.workStatus === WorkStatus.WORK_COMPLETED && (
+        {/* Post-Completion Issues (raised on WORK_COMPLETED jobs) */}
+        {(job.workStatus === WorkStatus.WORK_COMPLETED || getJobIssues(job).length > 0) && (
           <section className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-lg font-semibold text-gray-800 mb-4">⚠️ Post-Completion Issue</h2>
-            
-            {!job.postCompletionIssue && (
-              <div>
-                <p className="text-sm text-gray-600 mb-4">
-                  Report issues discovered after job completion. This does not change the job status.
-                </p>
-                <button
-                  onClick={() => setShowIssueModal(true)}
-                  className="px-6 py-3 bg-yellow-600 text-white rounded-lg font-medium hover:bg-yellow-700 transition"
-                >
-                  Report Issue
-                </button>
-              </div>
-            )}
-
-            {job.postCompletionIssue && (
-              <div className="space-y-4">
-                <div className={`p-4 rounded-lg border-2 ${
-                  job.postCompletionIssue.isOpen 
-                    ? 'bg-red-50 border-red-300' 
-                    : 'bg-green-50 border-green-300'
-                }`}>
-                  <div className="flex items-start justify-between mb-3">
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <span className="font-semibold text-gray-900">
-                          {job.postCompletionIssue.type.replace(/_/g, ' ')}
-                        </span>
-                        <span className={`text-xs px-2 py-1 rounded-full font-medium ${
-                          job.postCompletionIssue.isOpen
-                            ? 'bg-red-200 text-red-800'
-                            : 'bg-green-200 text-green-800'
-                        }`}>
-                          {job.postCompletionIssue.isOpen ? 'OPEN' : 'RESOLVED'}
-                        </span>
-                      </div>
-                      {job.postCompletionIssue.notes && (
-                        <p className="text-sm text-gray-700 mt-2">{job.postCompletionIssue.notes}</p>
-                      )}
-                    </div>
-                  </div>
-
-                  <div className="text-xs text-gray-600 space-y-1">
-                    <div>
-                      Opened by {job.postCompletionIssue.openedBy.name} on{' '}
-                      {new Date(job.postCompletionIssue.openedAt).toLocaleString()}
-                    </div>
-                    {job.postCompletionIssue.resolvedAt && job.postCompletionIssue.resolvedBy && (
-                      <div>
-                        Resolved by {job.postCompletionIssue.resolvedBy.name} on{' '}
-                        {new Date(job.postCompletionIssue.resolvedAt).toLocaleString()}
-                      </div>
-                    )}
-                  </div>
-                </div>
-
-                {job.postCompletionIssue.isOpen && (
-                  <button
-                    onClick={handleResolveIssue}
-                    disabled={updating}
-                    className={`px-6 py-3 rounded-lg font-medium transition ${
-                      updating
-                        ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                        : 'bg-green-600 text-white hover:bg-green-700'
-                    }`}
-                  >
-                    {updating ? 'Resolving...' : 'Mark Issue Resolved'}
-                  </button>
-                )}
-              </div>
-            )}
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">⚠️ Post-Completion Issues</h2>
+            <JobIssues
+              jobId={job.jobId}
+              issues={getJobIssues(job)}
+              photosMeta={job.photosMeta || []}
+              users={staff}
+              canManage={currentUserRole === UserRole.MANAGER}
+              canOpen={job.workStatus === WorkStatus.WORK_COMPLETED}
+              qcItems={job.checklist?.qc || []}
+              defaultRedoItemIds={getDefaultRedoItemIds(job)}
+              onOpenJob={(redoJobId) => router.push(`/${locale}/jobs/${redoJobId}`)}
+              onChanged={refreshJob}
+            />
           </section>
         )}
 
@@ -1716,17 +1813,13 @@ export default function JobDetail() {
             </div>
             <div className="flex items-center gap-3">
               {/* Debug: currentUserRole = {currentUserRole} */}
-              {currentUserRole === 'MANAGER' ? (
+              {currentUserRole === 'MANAGER' && job.payment?.status === PaymentStatus.PAID ? (
                 <button
                   onClick={handlePaymentToggle}
                   disabled={updating}
-                  className={`px-6 py-3 rounded-xl font-medium sf-button-transition ${
-                    job.payment?.status === PaymentStatus.PAID
-                      ? 'bg-[#1F8A5B] text-white hover:bg-[#196F4A]'
-                      : 'bg-[#F59E0B] text-white hover:bg-[#D97706]'
-                  } disabled:opacity-50`}
+                  className="px-6 py-3 rounded-xl font-medium sf-button-transition bg-[#1F8A5B] text-white hover:bg-[#196F4A] disabled:opacity-50"
                 >
-                  {job.payment?.status === PaymentStatus.PAID ? '✓ PAID' : 'UNPAID'}
+                  ✓ PAID
                 </button>
               ) : (
                 <span className={`px-4 py-2 rounded-full font-medium border ${
@@ -1740,10 +1833,72 @@ export default function JobDetail() {
             </div>
           </div>
 
+          {job.priceBreakdown && (
+            <PriceBreakdownLines breakdown={job.priceBreakdown} amountCents={job.payment?.amountCents} />
+          )}
+
+          <JobDiscounts
+            jobId={job.jobId}
+            discounts={job.discounts || []}
+            canEdit={
+              currentUserRole === UserRole.MANAGER &&
+              job.payment?.status !== PaymentStatus.PAID &&
+              (!!job.priceBreakdown || !!job.payment?.amountCents)
+            }
+            onUpdated={(updated) => {
+              setJob(prev => prev ? {
+                ...prev,
+                discounts: updated.discounts,
+                priceBreakdown: updated.priceBreakdown,
+                payment: updated.payment,
+                version: updated.version,
+              } : null);
+            }}
+          />
+
+          <PaymentLedger
+            jobId={job.jobId}
+            entries={job.paymentEntries || []}
+            refunds={job.refunds || []}
+            issues={getJobIssues(job)}
+            balanceDueCents={getBalanceDueCents(job)}
+            canRecord={currentUserRole === UserRole.MANAGER && job.payment?.amountCents !== undefined}
+            onUpdated={(updated) => {
+              setJob(prev => prev ? {
+                ...prev,
+                payment: updated.payment,
+                paymentEntries: updated.paymentEntries,
+                refunds: updated.refunds,
+                version: updated.version,
+              } : null);
+            }}
+            onViewReceipt={setSelectedReceipt}
+          />
+
           {/* Payment metadata */}
-          {job.payment?.paidAt && job.payment?.paidBy && (
+          {job.payment?.squarePaymentId ? (
+            <div className="text-xs text-gray-600 mb-3">
+              Paid via Square · {describeTender(job.payment)}
+              {!!job.payment.tipCents && ` · ${formatCents(job.payment.tipCents)} tip`}
+              {job.payment.paidAt && ` · ${new Date(job.payment.paidAt).toLocaleString()}`}
+              {job.payment.receiptUrl && (
+                <>
+                  {' · '}
+                  <a href={job.payment.receiptUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    Receipt
+                  </a>
+                </>
+              )}
+              <div className="mt-1 text-gray-400">
+                {job.payment.matchedBy === 'MANUAL'
+                  ? `Matched by ${job.payment.paidBy?.name || 'a manager'}`
+                  : `Matched automatically (${job.payment.matchedBy === 'CUSTOMER_TIME' ? 'customer and time' : job.payment.matchedBy?.toLowerCase()})`}
+              </div>
+            </div>
+          ) : !job.paymentEntries?.length && job.payment?.paidAt && job.payment?.paidBy && (
             <div className="text-xs text-gray-600 mb-3">
               Marked paid by {job.payment.paidBy.name} on {new Date(job.payment.paidAt).toLocaleString()}
+              {!!job.payment.tipCents && ` · ${formatCents(job.payment.tipCents)} tip`}
             </div>
           )}
 
@@ -1866,9 +2021,50 @@ export default function JobDetail() {
                     {new Date(job.noShow.updatedAt).toLocaleString()}
                   </div>
                 </div>
+
+                {/* Fee: fixed once charged or tried, otherwise what the policy would charge */}
+                {(job.noShow.feeCents !== undefined || noShowPolicy) && (
+                  <div className="mt-3 pt-3 border-t border-orange-200 text-sm text-gray-800">
+                    No-show fee:{' '}
+                    <span className="font-semibold">
+                      {formatCents(job.noShow.feeCents ?? calculateNoShowFee(noShowPolicy!, job))}
+                    </span>
+                    {job.noShow.feeCents === undefined && noShowPolicy && (
+                      <span className="text-gray-500"> ({describeNoShowPolicy(noShowPolicy)})</span>
+                    )}
+                  </div>
+                )}
+
+                {job.noShow.chargeAttempts && job.noShow.chargeAttempts.length > 0 && (
+                  <ul className="mt-2 text-xs space-y-1">
+                    {job.noShow.chargeAttempts.map(attempt => (
+                      <li
+                        key={attempt.attemptId}
+                        className={attempt.result === 'SUCCESS' ? 'text-green-700' : attempt.result === 'FAILED' ? 'text-red-700' : 'text-gray-600'}
+                      >
+                        {attempt.result === 'SUCCESS' ? '✅' : attempt.result === 'FAILED' ? '⚠️' : '⏳'}{' '}
+                        {formatCents(attempt.amountCents)} by {attempt.attemptedBy.name} on{' '}
+                        {new Date(attempt.attemptedAt).toLocaleString()}
+                        {attempt.cardLast4 && ` • ${attempt.cardBrand || 'Card'} ending ${attempt.cardLast4}`}
+                        {attempt.failureReason && ` • ${attempt.failureReason}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
               <div className="flex gap-3">
+                {(job.workStatus === WorkStatus.SCHEDULED ||
+                  job.workStatus === WorkStatus.NO_SHOW_FAILED ||
+                  job.workStatus === WorkStatus.NO_SHOW_PENDING_CHARGE) && (
+                  <button
+                    onClick={handleChargeNoShow}
+                    disabled={updating}
+                    className="px-6 py-3 bg-orange-600 text-white rounded-lg font-medium hover:bg-orange-700 transition disabled:opacity-50"
+                  >
+                    💳 {t(job.workStatus === WorkStatus.SCHEDULED ? 'actions.chargeNoShow' : 'actions.retryNoShowCharge')}
+                  </button>
+                )}
                 <button
                   onClick={() => setShowNoShowResolveModal(true)}
                   disabled={updating}
@@ -1916,160 +2112,6 @@ export default function JobDetail() {
         </section>
       )}
 
-      {/* Issue Modal */}
-      {showIssueModal && (
-        <div 
-          className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4"
-          onClick={() => setShowIssueModal(false)}
-        >
-          <div 
-            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 className="text-xl font-semibold text-gray-900 mb-4">Report Post-Completion Issue</h3>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Issue Type
-                </label>
-                <select
-                  value={issueType}
-                  onChange={(e) => setIssueType(e.target.value as 'QC_MISS' | 'CUSTOMER_COMPLAINT' | 'DAMAGE' | 'REDO' | 'OTHER')}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                >
-                  <option value="QC_MISS">QC Miss</option>
-                  <option value="CUSTOMER_COMPLAINT">Customer Complaint</option>
-                  <option value="DAMAGE">Damage</option>
-                  <option value="REDO">Redo Required</option>
-                  <option value="OTHER">Other</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Notes
-                </label>
-                <textarea
-                  value={issueNotes}
-                  onChange={(e) => setIssueNotes(e.target.value)}
-                  placeholder="Describe the issue..."
-                  rows={4}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                />
-              </div>
-            </div>
-
-            <div className="flex gap-3 mt-6">
-              <button
-                onClick={() => setShowIssueModal(false)}
-                disabled={updating}
-                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleOpenIssue}
-                disabled={updating}
-                className={`flex-1 px-4 py-2 rounded-lg font-medium transition ${
-                  updating
-                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                    : 'bg-red-600 text-white hover:bg-red-700'
-                }`}
-              >
-                {updating ? 'Submitting...' : 'Submit Issue'}
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Receipt Upload Modal */}
-      {showReceiptUploadModal && (
-        <div 
-          className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4"
-          onClick={() => setShowReceiptUploadModal(false)}
-        >
-          <div 
-            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 className="text-xl font-semibold text-gray-900 mb-4">Take Receipt Photo to Mark as Paid</h3>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Take Receipt Photo(s)
-                </label>
-                <input
-                  type="file"
-                  accept="image/*"
-                  capture="environment"
-                  multiple
-                  onChange={(e) => setReceiptFiles(Array.from(e.target.files || []))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
-                />
-                {receiptFiles.length > 0 && (
-                  <div className="mt-2 text-sm text-gray-600">
-                    {receiptFiles.length} photo(s) captured
-                  </div>
-                )}
-              </div>
-
-              {job.receiptPhotos && job.receiptPhotos.length > 0 && (
-                <div className="border-t pt-3">
-                  <p className="text-sm text-gray-700 mb-2">
-                    {job.receiptPhotos.length} receipt photo(s) already saved
-                  </p>
-                </div>
-              )}
-            </div>
-
-            <div className="flex gap-3 mt-6">
-              <button
-                onClick={() => {
-                  setShowReceiptUploadModal(false);
-                  setReceiptFiles([]);
-                }}
-                disabled={uploadingReceipts || updating}
-                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
-              >
-                Cancel
-              </button>
-              {receiptFiles.length > 0 && (
-                <button
-                  onClick={async () => {
-                    await handleReceiptUpload();
-                    await handleMarkPaid();
-                  }}
-                  disabled={uploadingReceipts || updating}
-                  className={`flex-1 px-4 py-2 rounded-lg font-medium transition ${
-                    uploadingReceipts || updating
-                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                      : 'bg-green-600 text-white hover:bg-green-700'
-                  }`}
-                >
-                  {uploadingReceipts ? 'Saving...' : updating ? 'Marking Paid...' : 'Save & Mark Paid'}
-                </button>
-              )}
-              {!receiptFiles.length && job.receiptPhotos && job.receiptPhotos.length > 0 && (
-                <button
-                  onClick={handleMarkPaid}
-                  disabled={updating}
-                  className={`flex-1 px-4 py-2 rounded-lg font-medium transition ${
-                    updating
-                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                      : 'bg-green-600 text-white hover:bg-green-700'
-                  }`}
-                >
-                  {updating ? 'Marking Paid...' : 'Mark Paid'}
-                </button>
-              )}
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* Unpaid Reason Modal */}
       {showUnpaidModal && (
         <div 
@@ -2081,6 +2123,11 @@ export default function JobDetail() {
             onClick={(e) => e.stopPropagation()}
           >
             <h3 className="text-xl font-semibold text-gray-900 mb-4">Mark Payment as Unpaid</h3>
+            {!!job.paymentEntries?.some(entry => !entry.voidedAt) && (
+              <p className="text-sm text-gray-600 mb-4">
+                The payments recorded on this job will be voided. To give money back, refund the payment instead.
+              </p>
+            )}
             
             <div className="space-y-4">
               <div>
@@ -2092,7 +2139,6 @@ export default function JobDetail() {
                   onChange={(e) => setUnpaidReason(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="Refunded">Refunded</option>
                   <option value="Mistake">Mistake</option>
                   <option value="Chargeback">Chargeback</option>
                   <option value="Other">Other</option>
@@ -2118,7 +2164,7 @@ export default function JobDetail() {
                 onClick={() => {
                   setShowUnpaidModal(false);
                   setUnpaidNote('');
-                  setUnpaidReason('Refunded');
+                  setUnpaidReason('Mistake');
                 }}
                 disabled={updating}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
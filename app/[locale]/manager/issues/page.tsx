@@ -0,0 +1,147 @@
+/**
+ * Open Issues Page
+ *
+ * Manager queue of every unresolved post-completion issue across all jobs,
+ * oldest first. Issues are worked on the job page.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { IssueStatus, OpenIssueSummary } from '@/lib/types';
+import type { Locale } from '@/i18n';
+
+type IssueFilter = 'ALL' | IssueStatus | 'UNASSIGNED';
+
+const FILTERS: Array<{ value: IssueFilter; label: string }> = [
+  { value: 'ALL', label: 'All' },
+  { value: 'OPEN', label: 'Open' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'UNASSIGNED', label: 'Unassigned' },
+];
+
+function matchesFilter(summary: OpenIssueSummary, filter: IssueFilter): boolean {
+  if (filter === 'ALL') return true;
+  if (filter === 'UNASSIGNED') return !summary.issue.assignee;
+  return summary.issue.status === filter;
+}
+
+function formatAge(openedAt: string): string {
+  const days = Math.floor((Date.now() - new Date(openedAt).getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1) return 'today';
+  return days === 1 ? '1 day' : `${days} days`;
+}
+
+export default function OpenIssuesPage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as Locale;
+  const [issues, setIssues] = useState<OpenIssueSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filter, setFilter] = useState<IssueFilter>('ALL');
+
+  useEffect(() => {
+    const fetchIssues = async () => {
+      try {
+        const response = await fetch('/api/manager/issues');
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load issues');
+        }
+        setIssues(data.data.issues);
+      } catch (err) {
+        console.error('Failed to fetch open issues:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchIssues();
+  }, []);
+
+  const filteredIssues = issues.filter(summary => matchesFilter(summary, filter));
+
+  return (
+    <ManagerLayout
+      title="Open Issues"
+      subtitle={loading ? undefined : `${issues.length} unresolved`}
+    >
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6 flex flex-wrap gap-2">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-4 py-2 rounded-lg font-medium text-sm transition ${
+                filter === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label} ({issues.filter(summary => matchesFilter(summary, option.value)).length})
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              Loading issues...
+            </div>
+          ) : filteredIssues.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              No open issues
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {filteredIssues.map(({ jobId, customerName, serviceType, vehicleInfo, issue }) => (
+                <button
+                  key={`${jobId}-${issue.issueId}`}
+                  onClick={() => router.push(`/${locale}/jobs/${jobId}`)}
+                  className="w-full px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold text-gray-900">{issue.type.replace(/_/g, ' ')}</span>
+                        <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+                          issue.status === 'OPEN' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {issue.status.replace(/_/g, ' ')}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700 mt-1">
+                        {customerName} · {serviceType}
+                        {vehicleInfo?.licensePlate && ` · ${vehicleInfo.licensePlate}`}
+                      </p>
+                      {issue.notes && (
+                        <p className="text-sm text-gray-600 mt-1 truncate">{issue.notes}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-2">
+                        Opened by {issue.openedBy.name} · {issue.comments.length} comment{issue.comments.length === 1 ? '' : 's'}
+                        {issue.photoIds.length > 0 && ` · ${issue.photoIds.length} photo${issue.photoIds.length === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0 text-right text-sm">
+                      <div className="text-gray-900">{issue.assignee?.name || 'Unassigned'}</div>
+                      <div className="text-xs text-gray-500 mt-1">{formatAge(issue.openedAt)}</div>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
@@ -56,6 +56,8 @@ export default function NotificationsPage() {
         return '✅';
       case 'ADDONS_UPDATED':
         return '➕';
+      case 'QC_REJECTED':
+        return '↩️';
       case 'PAYMENT_STATUS_CHANGED':
         return '💰';
       default:
@@ -85,6 +87,7 @@ export default function NotificationsPage() {
       'CHECKLIST_UPDATED': 'Checklist',
       'ADDONS_UPDATED': 'Add-ons',
       'PAYMENT_STATUS_CHANGED': 'Payment',
+      'QC_REJECTED': 'QC Rejected',
     };
     return labels[type] || type;
   };
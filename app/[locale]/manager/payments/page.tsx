@@ -0,0 +1,241 @@
+/**
+ * Unmatched Payments Page
+ *
+ * Manager queue of completed Square payments no job matched automatically,
+ * oldest first. Each can be matched to one of its likely jobs (or any job
+ * by ID) or dismissed with a reason.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { PaymentMatchCandidate, SquarePaymentRecord } from '@/lib/types';
+import { describeTender } from '@/lib/workflow/payment-matching';
+import { formatCents } from '@/lib/utils/money';
+
+interface QueueEntry {
+  payment: SquarePaymentRecord;
+  candidates: PaymentMatchCandidate[];
+}
+
+function formatTime(iso?: string): string {
+  if (!iso) return 'No appointment';
+  return new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function PaymentRow({
+  entry,
+  onResolved,
+}: {
+  entry: QueueEntry;
+  onResolved: (paymentId: string) => void;
+}) {
+  const { payment, candidates } = entry;
+  const [jobId, setJobId] = useState(candidates[0]?.jobId || '');
+  const [ignoring, setIgnoring] = useState(false);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (action: 'match' | 'ignore', body: Record<string, string>) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/manager/payments/${payment.paymentId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || `Failed to ${action} payment`);
+      }
+      onResolved(payment.paymentId);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-semibold text-gray-900">{formatCents(payment.totalCents)}</span>
+            {payment.tipCents > 0 && (
+              <span className="text-xs text-gray-500">
+                incl. {formatCents(payment.tipCents)} tip
+              </span>
+            )}
+            <span className="text-xs px-2 py-1 rounded-full font-medium bg-gray-100 text-gray-700">
+              {describeTender(payment)}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 mt-1">
+            {formatTime(payment.createdAt)}
+            {payment.customerId ? ` · Square customer ${payment.customerId}` : ' · No customer on payment'}
+          </p>
+          {payment.note && (
+            <p className="text-sm text-gray-600 mt-1 truncate">{payment.note}</p>
+          )}
+          <p className="text-xs text-gray-400 mt-2">
+            {payment.paymentId}
+            {payment.receiptUrl && (
+              <>
+                {' · '}
+                <a href={payment.receiptUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  Receipt
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {ignoring ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Why isn't this for a job? (e.g. retail sale)"
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={() => submit('ignore', { reason })}
+            disabled={saving || !reason.trim()}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-gray-700 text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Dismiss
+          </button>
+          <button
+            onClick={() => setIgnoring(false)}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <select
+            value={candidates.some(c => c.jobId === jobId) ? jobId : ''}
+            onChange={e => setJobId(e.target.value)}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">{candidates.length ? 'Other job (enter ID)…' : 'No likely jobs — enter a job ID'}</option>
+            {candidates.map(candidate => (
+              <option key={candidate.jobId} value={candidate.jobId}>
+                {candidate.customerName} · {candidate.serviceType} · {formatTime(candidate.appointmentTime)}
+                {candidate.amountCents !== undefined && ` · ${formatCents(candidate.amountCents)}`}
+              </option>
+            ))}
+          </select>
+          {!candidates.some(c => c.jobId === jobId) && (
+            <input
+              type="text"
+              value={jobId}
+              onChange={e => setJobId(e.target.value.trim())}
+              placeholder="Job ID"
+              className="w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          )}
+          <button
+            onClick={() => submit('match', { jobId })}
+            disabled={saving || !jobId}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Match
+          </button>
+          <button
+            onClick={() => setIgnoring(true)}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Ignore
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UnmatchedPaymentsPage() {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchPayments = async () => {
+      try {
+        const response = await fetch('/api/manager/payments');
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load payments');
+        }
+        setEntries(data.data.payments);
+      } catch (err) {
+        console.error('Failed to fetch unmatched payments:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPayments();
+  }, []);
+
+  const handleResolved = (paymentId: string) => {
+    setEntries(prev => prev.filter(entry => entry.payment.paymentId !== paymentId));
+  };
+
+  return (
+    <ManagerLayout
+      title="Unmatched Payments"
+      subtitle={loading ? undefined : `${entries.length} waiting`}
+    >
+      <div className="max-w-4xl mx-auto">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              Loading payments...
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              Every Square payment is matched
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {entries.map(entry => (
+                <PaymentRow
+                  key={entry.payment.paymentId}
+                  entry={entry}
+                  onResolved={handleResolved}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
@@ -6,6 +6,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { useTranslations } from '@/lib/i18n/provider';
 import type { Locale } from '@/i18n';
 import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { PriceLine } from '@/lib/types';
+import { buildPriceBreakdown, DEFAULT_TAX_CONFIG, formatTaxRate } from '@/lib/workflow/pricing';
+import { formatCents } from '@/lib/utils/money';
 
 /**
  * PHONE BOOKING WITH ADD-ONS SUPPORT
@@ -26,6 +29,7 @@ interface Service {
     amount: number;
     currency: string;
   };
+  taxable: boolean;
   version: number;
 }
 
@@ -38,6 +42,7 @@ interface Addon {
     amount: number;
     currency: string;
   };
+  taxable: boolean;
   version: number;
 }
 
@@ -53,6 +58,7 @@ export default function PhoneBookingPage() {
   const [loadingCatalog, setLoadingCatalog] = useState(true);
   const [selectedServiceId, setSelectedServiceId] = useState<string>('');
   const [selectedAddonIds, setSelectedAddonIds] = useState<Set<string>>(new Set());
+  const [taxRatePercent, setTaxRatePercent] = useState(DEFAULT_TAX_CONFIG.defaultRatePercent);
 
   const [formData, setFormData] = useState({
     customerName: '',
@@ -75,6 +81,7 @@ export default function PhoneBookingPage() {
   const [creating, setCreating] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [createdJobId, setCreatedJobId] = useState<string | null>(null);
+  const [bayWarning, setBayWarning] = useState<string | null>(null);
 
   // Fetch catalog (services + add-ons) on component mount
   useEffect(() => {
@@ -102,6 +109,9 @@ export default function PhoneBookingPage() {
           
           setServices(fetchedServices);
           setAddons(fetchedAddons);
+          if (typeof data.data.taxRatePercent === 'number') {
+            setTaxRatePercent(data.data.taxRatePercent);
+          }
           
           // Auto-select first service if available
           if (fetchedServices.length > 0) {
@@ -126,6 +136,45 @@ export default function PhoneBookingPage() {
     fetchCatalog();
   }, []);
 
+  // Warn (without blocking) when the slot would overbook the bays that can take the service
+  useEffect(() => {
+    const selectedService = services.find(s => s.id === selectedServiceId);
+    const durationMinutes = parseInt(formData.serviceDuration);
+    if (!selectedService || !formData.appointmentDate || !formData.appointmentTime || !(durationMinutes > 0)) {
+      setBayWarning(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function checkBayCapacity() {
+      try {
+        const response = await fetch('/api/bookings/check-availability', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            serviceType: selectedService!.name,
+            serviceVariationId: selectedService!.id,
+            serviceVariationVersion: selectedService!.version,
+            startAt: new Date(`${formData.appointmentDate}T${formData.appointmentTime}`).toISOString(),
+            durationMinutes,
+          }),
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setBayWarning(data.data?.bayCapacity?.warning || null);
+        }
+      } catch (error) {
+        console.error('[PHONE BOOKING] Bay capacity check failed:', error);
+      }
+    }
+
+    checkBayCapacity();
+    return () => {
+      cancelled = true;
+    };
+  }, [services, selectedServiceId, formData.serviceDuration, formData.appointmentDate, formData.appointmentTime]);
+
   const handleServiceChange = (serviceId: string) => {
     const service = services.find(s => s.id === serviceId);
     if (service) {
@@ -151,21 +200,30 @@ export default function PhoneBookingPage() {
     });
   };
 
-  const calculateSubtotal = (): number => {
-    const servicePrice = parseFloat(formData.serviceAmount) || 0;
-    const addonsPrice = Array.from(selectedAddonIds).reduce((sum, addonId) => {
-      const addon = addons.find(a => a.id === addonId);
-      return sum + ((addon?.priceMoney?.amount || 0) / 100);
-    }, 0);
-    return servicePrice + addonsPrice;
+  const getServicePriceCents = (): number => {
+    return Math.round((parseFloat(formData.serviceAmount) || 0) * 100);
   };
 
-  const calculateTax = (): number => {
-    return calculateSubtotal() * 0.0975;
-  };
-
-  const calculateTotalPrice = (): number => {
-    return calculateSubtotal() + calculateTax();
+  // Same itemization the server stores on the job
+  const getPriceBreakdown = () => {
+    const selectedService = services.find(s => s.id === selectedServiceId);
+    const lines: PriceLine[] = [
+      {
+        type: 'SERVICE',
+        name: formData.serviceName || 'Service',
+        amountCents: getServicePriceCents(),
+        taxable: selectedService?.taxable ?? true,
+      },
+      ...addons
+        .filter(addon => selectedAddonIds.has(addon.id))
+        .map((addon): PriceLine => ({
+          type: 'ADDON',
+          name: addon.name,
+          amountCents: addon.priceMoney?.amount || 0,
+          taxable: addon.taxable,
+        })),
+    ];
+    return buildPriceBreakdown(lines, taxRatePercent);
   };
 
   const validateForm = () => {
@@ -241,7 +299,7 @@ export default function PhoneBookingPage() {
           serviceVariationId: selectedService.id,
           serviceVariationVersion: selectedService.version,
           durationMinutes: parseInt(formData.serviceDuration),
-          amountCents: Math.round(calculateTotalPrice() * 100), // Total with tax in cents
+          priceCents: getServicePriceCents(), // Before tax; the server adds add-ons and tax
         },
         appointmentTime: {
           startAt,
@@ -297,6 +355,7 @@ export default function PhoneBookingPage() {
     setErrors({});
     setShowSuccess(false);
     setCreatedJobId(null);
+    setBayWarning(null);
     
     // Auto-select first service again
     if (services.length > 0) {
@@ -321,6 +380,8 @@ export default function PhoneBookingPage() {
     router.push(`/${locale}/`);
   };
 
+  const priceBreakdown = getPriceBreakdown();
+
   if (showSuccess) {
     return (
       <div className="min-h-screen px-4 py-8" style={{ background: 'var(--sf-bg)' }}>
@@ -594,39 +655,27 @@ export default function PhoneBookingPage() {
           <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Price Summary</h3>
             <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Base Service:</span>
-                <span className="font-medium text-gray-900">
-                  ${parseFloat(formData.serviceAmount || '0').toFixed(2)}
-                </span>
-              </div>
-              {selectedAddonIds.size > 0 && (
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Add-ons ({selectedAddonIds.size}):</span>
-                  <span className="font-medium text-gray-900">
-                    ${Array.from(selectedAddonIds).reduce((sum, addonId) => {
-                      const addon = addons.find(a => a.id === addonId);
-                      return sum + ((addon?.priceMoney?.amount || 0) / 100);
-                    }, 0).toFixed(2)}
+              {priceBreakdown.lines.map((line, index) => (
+                <div key={`${line.type}-${index}`} className="flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    {line.type === 'ADDON' ? `+ ${line.name}` : line.name}
+                    {!line.taxable && <span className="ml-1 text-xs text-gray-400">(no tax)</span>}
                   </span>
+                  <span className="font-medium text-gray-900">{formatCents(line.amountCents)}</span>
                 </div>
-              )}
+              ))}
               <div className="flex justify-between text-sm pt-2">
                 <span className="text-gray-600">Subtotal:</span>
-                <span className="font-medium text-gray-900">
-                  ${calculateSubtotal().toFixed(2)}
-                </span>
+                <span className="font-medium text-gray-900">{formatCents(priceBreakdown.subtotalCents)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax (9.75%):</span>
-                <span className="font-medium text-gray-900">
-                  ${calculateTax().toFixed(2)}
-                </span>
+                <span className="text-gray-600">Tax ({formatTaxRate(priceBreakdown.taxRatePercent)}):</span>
+                <span className="font-medium text-gray-900">{formatCents(priceBreakdown.taxCents)}</span>
               </div>
               <div className="border-t border-gray-300 pt-2 mt-2 flex justify-between">
                 <span className="font-semibold text-gray-900">Total Amount:</span>
                 <span className="font-bold text-lg" style={{ color: 'var(--sf-orange)' }}>
-                  ${calculateTotalPrice().toFixed(2)}
+                  {formatCents(priceBreakdown.totalCents)}
                 </span>
               </div>
             </div>
@@ -667,6 +716,11 @@ export default function PhoneBookingPage() {
                 )}
               </div>
             </div>
+            {bayWarning && (
+              <div className="mt-3 p-3 bg-yellow-50 border border-yellow-300 rounded-lg text-sm text-yellow-800">
+                ⚠️ {bayWarning} You can still book it.
+              </div>
+            )}
           </div>
 
           {/* Booking Notes */}
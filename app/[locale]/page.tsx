@@ -1,15 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type CSSProperties } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useParams } from 'next/navigation';
 import { useTranslations } from '@/lib/i18n/provider';
-import { WorkStatus, PaymentStatus } from '@/lib/types';
+import { WorkStatus, PaymentStatus, UserRole } from '@/lib/types';
+import type { ChecklistItem, CheckinInspection, Job, JobAddon, JobAssignee, JobCustomerFlags, ServiceWorkflow, WorkflowStage } from '@/lib/types';
+import { getAvailableTransitions } from '@/lib/workflow/status-transitions';
+import type { StatusTransition } from '@/lib/workflow/status-transitions';
+import { DEFAULT_WORKFLOW_STAGES, getJobStage, isBuiltInStage } from '@/lib/workflow/pipelines';
+import { isAssignedTo } from '@/lib/workflow/assignment';
+import { getOpenIssueCount } from '@/lib/workflow/issues';
+import { isRedoJob } from '@/lib/workflow/redo';
+import { formatAddonName, getJobAddons } from '@/lib/workflow/addons';
 import type { Locale } from '@/i18n';
 import { PaymentBadge } from './components/PaymentBadge';
+import { CustomerFlagBadges } from './components/CustomerFlagBadges';
 import { NotificationBell } from '../components/NotificationBell';
 import { useToast } from '../components/ToastProvider';
+import AssigneePicker, { type AssignableUserOption } from '../components/AssigneePicker';
+import DispatchPanel from './components/DispatchPanel';
 import type { Notification } from '@/lib/types';
 
 interface JobCard {
@@ -19,7 +30,10 @@ interface JobCard {
   serviceType: string;
   scheduledStart: string;
   workStatus: WorkStatus;
-  hasOpenIssue: boolean;
+  stageId?: string;
+  openIssueCount: number;
+  isRedo?: boolean; // Zero-priced redo of an earlier job
+  customerFlags?: JobCustomerFlags;
   paymentStatus: PaymentStatus;
   payment?: {
     status: PaymentStatus;
@@ -30,25 +44,38 @@ interface JobCard {
     reason?: string;
   };
   notes?: string;
+  addons?: JobAddon[];
+  version?: number;
+  // Needed to check status transition prerequisites on the card
+  checklist?: {
+    tech?: ChecklistItem[];
+    qc?: ChecklistItem[];
+  };
+  checkinInspection?: CheckinInspection;
+  assignedTo?: JobAssignee[];
 }
 
 /**
- * Parse add-ons from booking notes
- * Format: "✅ ADD-ONS REQUESTED:\n• Addon 1\n• Addon 2"
+ * Board columns: the default stages plus every custom stage from the saved
+ * pipelines, each placed after the stage that comes before it in its pipeline
  */
-function parseAddonsFromNotes(notes: string | undefined): string[] {
-  if (!notes) return [];
-  
-  const addonsMatch = notes.match(/[✅✓]\s*ADD[-\s]ONS\s+REQUESTED:\s*([\s\S]*?)(?:\n\n|⚠️|$)/i);
-  if (!addonsMatch) return [];
-  
-  const addonLines = addonsMatch[1]
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line.startsWith('•') || line.startsWith('-') || line.startsWith('*'))
-    .map(line => line.substring(1).trim());
-  
-  return addonLines;
+function buildBoardStages(workflows: ServiceWorkflow[]): WorkflowStage[] {
+  const boardStages = [...DEFAULT_WORKFLOW_STAGES];
+
+  workflows.forEach(workflow => {
+    workflow.stages.forEach((stage, index) => {
+      if (isBuiltInStage(stage) || boardStages.some(s => s.id === stage.id)) return;
+
+      const previous = workflow.stages
+        .slice(0, index)
+        .reverse()
+        .find(p => boardStages.some(s => s.id === p.id));
+      const insertAt = previous ? boardStages.findIndex(s => s.id === previous.id) + 1 : 1;
+      boardStages.splice(insertAt, 0, stage);
+    });
+  });
+
+  return boardStages;
 }
 
 const mockJobs: JobCard[] = [
@@ -59,7 +86,7 @@ const mockJobs: JobCard[] = [
     serviceType: 'Full Detail',
     scheduledStart: '2026-02-05T09:00:00Z',
     workStatus: WorkStatus.SCHEDULED,
-    hasOpenIssue: false,
+    openIssueCount: 0,
     paymentStatus: PaymentStatus.UNPAID,
   },
   {
@@ -69,7 +96,7 @@ const mockJobs: JobCard[] = [
     serviceType: 'Express Wash',
     scheduledStart: '2026-02-05T10:00:00Z',
     workStatus: WorkStatus.CHECKED_IN,
-    hasOpenIssue: false,
+    openIssueCount: 0,
     paymentStatus: PaymentStatus.PAID,
   },
 ];
@@ -86,7 +113,13 @@ export default function TodayBoard() {
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [updatingJobs, setUpdatingJobs] = useState<Set<string>>(new Set());
-  const [userRole, setUserRole] = useState<'TECH' | 'MANAGER' | null>(null);
+  const [userRole, setUserRole] = useState<'TECH' | 'QC' | 'MANAGER' | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  // "My Jobs" view: on by default for techs (null until the user is known)
+  const [myJobsOnly, setMyJobsOnly] = useState<boolean | null>(null);
+  const [staff, setStaff] = useState<AssignableUserOption[]>([]);
+  const [dispatchOpen, setDispatchOpen] = useState(false);
+  const [workflows, setWorkflows] = useState<ServiceWorkflow[]>([]);
   const [boardDate, setBoardDate] = useState<string>(() => {
     // Calculate today in Central Time (business timezone)
     // This is a fallback - will be updated via API after mount
@@ -116,13 +149,89 @@ export default function TodayBoard() {
     fetchToday();
   }, []);
 
-  const columns = [
-    { status: WorkStatus.SCHEDULED, title: t('status.scheduled'), color: '#64748B' },
-    { status: WorkStatus.CHECKED_IN, title: t('status.checkedIn'), color: '#2563EB' },
-    { status: WorkStatus.IN_PROGRESS, title: t('status.inProgress'), color: '#F47C20' },
-    { status: WorkStatus.QC_READY, title: t('status.qcReady'), color: '#7C3AED' },
-    { status: WorkStatus.WORK_COMPLETED, title: t('status.workCompleted'), color: '#16A34A' },
-  ];
+  // Service pipelines decide the columns and each card's next move
+  useEffect(() => {
+    const fetchWorkflows = async () => {
+      try {
+        const response = await fetch('/api/workflows');
+        const data = await response.json();
+        if (data.success && data.data?.workflows) {
+          setWorkflows(data.data.workflows);
+        }
+      } catch (error) {
+        console.error('[PAGE] Failed to fetch workflows - using the default pipeline:', error);
+      }
+    };
+
+    fetchWorkflows();
+  }, []);
+
+  const statusColumns: Partial<Record<WorkStatus, { title: string; color: string }>> = {
+    [WorkStatus.SCHEDULED]: { title: t('status.scheduled'), color: '#64748B' },
+    [WorkStatus.CHECKED_IN]: { title: t('status.checkedIn'), color: '#2563EB' },
+    [WorkStatus.IN_PROGRESS]: { title: t('status.inProgress'), color: '#F47C20' },
+    [WorkStatus.QC_READY]: { title: t('status.qcReady'), color: '#7C3AED' },
+    [WorkStatus.WORK_COMPLETED]: { title: t('status.workCompleted'), color: '#16A34A' },
+  };
+
+  // Custom stages take their colour from the status they share
+  const columns = buildBoardStages(workflows).map(stage => ({
+    id: stage.id,
+    status: stage.status,
+    title: isBuiltInStage(stage) ? statusColumns[stage.status]!.title : stage.label,
+    color: statusColumns[stage.status]!.color,
+  }));
+
+  const getJobStages = (job: JobCard): WorkflowStage[] =>
+    workflows.find(workflow => workflow.serviceType === job.serviceType)?.stages || DEFAULT_WORKFLOW_STAGES;
+
+  // Column a job sits in (jobs in a stage their pipeline no longer has use the default one)
+  const getJobColumnId = (job: JobCard): string | undefined =>
+    (getJobStage(job, getJobStages(job)) || getJobStage(job, DEFAULT_WORKFLOW_STAGES))?.id;
+
+  const visibleJobs = myJobsOnly && userId ? jobs.filter(job => isAssignedTo(job, userId)) : jobs;
+
+  // Managers pick assignees from the active staff list
+  useEffect(() => {
+    if (userRole !== 'MANAGER') return;
+
+    const fetchStaff = async () => {
+      try {
+        const response = await fetch('/api/manager/users');
+        const data = await response.json();
+        if (data.success && data.data?.users) {
+          setStaff(data.data.users);
+        }
+      } catch (error) {
+        console.error('[PAGE] Failed to fetch staff:', error);
+      }
+    };
+
+    fetchStaff();
+  }, [userRole]);
+
+  const handleAssigned = (updated: Job) => {
+    setJobs(prevJobs =>
+      prevJobs.map(job =>
+        job.jobId === updated.jobId
+          ? { ...job, assignedTo: updated.assignedTo, version: updated.version }
+          : job
+      )
+    );
+    showToast('Assignment updated', 'success');
+  };
+
+  const handleDispatched = (updatedJobs: Job[]) => {
+    setJobs(prevJobs =>
+      prevJobs.map(job => {
+        const updated = updatedJobs.find(candidate => candidate.jobId === job.jobId);
+        return updated ? { ...job, assignedTo: updated.assignedTo, version: updated.version } : job;
+      })
+    );
+    if (updatedJobs.length > 0) {
+      showToast(`Assigned ${updatedJobs.length} job${updatedJobs.length === 1 ? '' : 's'}`, 'success');
+    }
+  };
 
   // Separate section for cancelled jobs (displayed at the bottom)
   const cancelledColumn = { status: WorkStatus.CANCELLED, title: 'Cancelled', color: '#9CA3AF' };
@@ -132,18 +241,45 @@ export default function TodayBoard() {
     setTimeout(() => setToast(null), 3000);
   };
 
-  const updateJobStatus = async (jobId: string, newStatus: WorkStatus) => {
+  const updateJobStatus = async (jobId: string, transition: StatusTransition) => {
     setUpdatingJobs(prev => new Set(prev).add(jobId));
 
+    const card = jobs.find(job => job.jobId === jobId);
+    const sendStatus = (expectedVersion?: number) => fetch(`/api/jobs/${jobId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workStatus: transition.to, stageId: transition.toStage, expectedVersion }),
+    });
+
     try {
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ workStatus: newStatus }),
-      });
+      let response = await sendStatus(card?.version ?? 0);
+
+      // Someone else changed the job since the board loaded: refetch it and
+      // re-apply the move only if it is still in the column it was moved from
+      if (response.status === 409) {
+        const conflict = await response.clone().json();
+        if (conflict.error?.code === 'VERSION_CONFLICT') {
+          const latestResponse = await fetch(`/api/jobs/${jobId}`);
+          const latest = (await latestResponse.json()).data;
+
+          if (!latest || latest.status !== card?.workStatus || latest.stageId !== card?.stageId) {
+            setJobs(prevJobs =>
+              prevJobs.map(job =>
+                job.jobId === jobId && latest
+                  ? { ...job, workStatus: latest.status, stageId: latest.stageId, version: latest.version }
+                  : job
+              )
+            );
+            throw new Error('This job was just updated by someone else. Its card has been refreshed.');
+          }
+
+          response = await sendStatus(latest.version ?? 0);
+        }
+      }
 
       if (!response.ok) {
-        throw new Error(`Failed to update status: ${response.status}`);
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || `Failed to update status: ${response.status}`);
       }
 
       const data = await response.json();
@@ -151,7 +287,9 @@ export default function TodayBoard() {
       if (data.success && data.data?.job) {
         setJobs(prevJobs =>
           prevJobs.map(job =>
-            job.jobId === jobId ? { ...job, workStatus: newStatus } : job
+            job.jobId === jobId
+              ? { ...job, workStatus: transition.to, stageId: transition.toStage, version: data.data.job.version }
+              : job
           )
         );
         showToast('Status updated successfully', 'success');
@@ -170,16 +308,12 @@ export default function TodayBoard() {
     }
   };
 
-  const getNextStatus = (currentStatus: WorkStatus): WorkStatus | null => {
-    const workflow = [
-      WorkStatus.SCHEDULED,
-      WorkStatus.CHECKED_IN,
-      WorkStatus.IN_PROGRESS,
-      WorkStatus.QC_READY,
-      WorkStatus.WORK_COMPLETED,
-    ];
-    const currentIndex = workflow.indexOf(currentStatus);
-    return currentIndex < workflow.length - 1 ? workflow[currentIndex + 1] : null;
+  // Next column on the job's pipeline the user's role can move it to
+  const getNextTransition = (job: JobCard) => {
+    if (!userRole) return null;
+    return getAvailableTransitions(job, userRole as UserRole, getJobStages(job)).find(
+      transition => transition.direction === 'forward' && columns.some(c => c.id === transition.toStage)
+    ) || null;
   };
 
   // Parse date string without timezone conversion issues
@@ -230,6 +364,8 @@ export default function TodayBoard() {
           const data = await response.json();
           if (data.success && data.data?.user) {
             setUserRole(data.data.user.role);
+            setUserId(data.data.user.userId);
+            setMyJobsOnly(prev => prev ?? data.data.user.role === 'TECH');
           }
         }
       } catch (err) {
@@ -260,11 +396,19 @@ export default function TodayBoard() {
             serviceType: job.serviceType || 'Detail Service',
             scheduledStart: job.appointmentTime || job.createdAt,
             workStatus: job.status,
-            hasOpenIssue: job.postCompletionIssue?.isOpen || false,
+            stageId: job.stageId,
+            openIssueCount: getOpenIssueCount(job),
+            isRedo: isRedoJob(job),
+            customerFlags: job.customerFlags,
             paymentStatus: job.payment?.status || PaymentStatus.UNPAID,
             payment: job.payment,
             noShow: job.noShow,
             notes: job.notes,
+            addons: job.addons,
+            version: job.version,
+            checklist: job.checklist,
+            checkinInspection: job.checkinInspection,
+            assignedTo: job.assignedTo,
           }));
           console.log('[PAGE] Formatted jobs:', formattedJobs);
           setJobs(formattedJobs);
@@ -317,6 +461,43 @@ export default function TodayBoard() {
                   <span className="hidden sm:inline">{tNav('phoneBooking')}</span>
                 </Link>
               )}
+              {userRole === 'MANAGER' && (
+                <Link 
+                  href={`/${locale}/manager/issues`}
+                  className="px-3 py-2 sm:px-6 sm:py-3 bg-white border border-[#E7E2D8] rounded-lg sm:rounded-xl font-medium hover:bg-[#FAF6EF] sf-button-transition flex items-center gap-1 sm:gap-2"
+                  style={{ color: 'var(--sf-ink)' }}
+                  title={tNav('openIssues')}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span className="hidden sm:inline">{tNav('openIssues')}</span>
+                </Link>
+              )}
+              {userRole === 'MANAGER' && (
+                <Link 
+                  href={`/${locale}/manager/payments`}
+                  className="px-3 py-2 sm:px-6 sm:py-3 bg-white border border-[#E7E2D8] rounded-lg sm:rounded-xl font-medium hover:bg-[#FAF6EF] sf-button-transition flex items-center gap-1 sm:gap-2"
+                  style={{ color: 'var(--sf-ink)' }}
+                  title={tNav('unmatchedPayments')}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                  </svg>
+                  <span className="hidden sm:inline">{tNav('unmatchedPayments')}</span>
+                </Link>
+              )}
+              <Link 
+                href={`/${locale}/customers`}
+                className="px-3 py-2 sm:px-6 sm:py-3 bg-white border border-[#E7E2D8] rounded-lg sm:rounded-xl font-medium hover:bg-[#FAF6EF] sf-button-transition flex items-center gap-1 sm:gap-2"
+                style={{ color: 'var(--sf-ink)' }}
+                title={tNav('customers')}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                <span className="hidden sm:inline">{tNav('customers')}</span>
+              </Link>
               <Link 
                 href={`/${locale}/calendar`}
                 className="px-3 py-2 sm:px-6 sm:py-3 bg-white border border-[#E7E2D8] rounded-lg sm:rounded-xl font-medium hover:bg-[#FAF6EF] sf-button-transition flex items-center gap-1 sm:gap-2"
@@ -348,8 +529,35 @@ export default function TodayBoard() {
       <main className="max-w-[1600px] mx-auto px-3 sm:px-6 py-4 sm:py-6">
         <div className="mb-4 sm:mb-6">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 mb-4">
-            <h2 className="text-lg sm:text-xl font-semibold" style={{ color: 'var(--sf-ink)' }}>{getBoardTitle()}</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-lg sm:text-xl font-semibold" style={{ color: 'var(--sf-ink)' }}>{getBoardTitle()}</h2>
+              {userId && (
+                <div className="flex rounded-lg border border-[#E7E2D8] overflow-hidden text-xs sm:text-sm">
+                  {[{ mine: true, label: 'My Jobs' }, { mine: false, label: 'All Jobs' }].map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => setMyJobsOnly(option.mine)}
+                      className={`px-3 py-1.5 font-medium sf-button-transition ${
+                        !!myJobsOnly === option.mine ? 'bg-[#F47C20] text-white' : 'bg-white hover:bg-[#FAF6EF]'
+                      }`}
+                      style={!!myJobsOnly === option.mine ? undefined : { color: 'var(--sf-ink)' }}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="flex items-center gap-2 sm:gap-3">
+              {userRole === 'MANAGER' && (
+                <button
+                  onClick={() => setDispatchOpen(open => !open)}
+                  className="px-3 py-2 text-xs sm:text-sm font-medium bg-white border border-[#E7E2D8] rounded-lg hover:bg-[#FAF6EF] sf-button-transition"
+                  style={{ color: 'var(--sf-ink)' }}
+                >
+                  Auto-dispatch
+                </button>
+              )}
               <label htmlFor="boardDate" className="text-xs sm:text-sm font-medium whitespace-nowrap" style={{ color: 'var(--sf-brown)' }}>
                 Board Date:
               </label>
@@ -426,6 +634,15 @@ export default function TodayBoard() {
           )}
         </div>
 
+        {userRole === 'MANAGER' && dispatchOpen && (
+          <DispatchPanel
+            boardDate={boardDate}
+            users={staff}
+            onApplied={handleDispatched}
+            onClose={() => setDispatchOpen(false)}
+          />
+        )}
+
         {loading ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#F47C20]"></div>
@@ -433,12 +650,15 @@ export default function TodayBoard() {
           </div>
         ) : (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div
+              className="grid grid-cols-1 md:grid-cols-[repeat(var(--board-columns),minmax(0,1fr))] gap-4"
+              style={{ '--board-columns': columns.length } as CSSProperties}
+            >
               {columns.map((column) => {
-                const columnJobs = jobs.filter(job => job.workStatus === column.status);
+                const columnJobs = visibleJobs.filter(job => getJobColumnId(job) === column.id);
                 
                 return (
-                  <div key={column.status} className="bg-transparent">
+                  <div key={column.id} className="bg-transparent">
                     <div className="sticky top-0 bg-white border-b p-4 mb-4 rounded-t-2xl" style={{ borderColor: 'var(--sf-border)', boxShadow: 'var(--sf-shadow)' }}>
                       <h3 className="text-base font-semibold flex items-center gap-2" style={{ color: 'var(--sf-ink)' }}>
                         <span 
@@ -462,7 +682,7 @@ export default function TodayBoard() {
                         </div>
                       ) : (
                         columnJobs.map((job) => {
-                          const nextStatus = getNextStatus(job.workStatus);
+                          const nextTransition = getNextTransition(job);
                           const isUpdating = updatingJobs.has(job.jobId);
                           const needsPaymentAttention = job.workStatus === WorkStatus.WORK_COMPLETED && job.paymentStatus === PaymentStatus.UNPAID;
                           
@@ -487,9 +707,14 @@ export default function TodayBoard() {
                                   <div className="font-semibold text-sm" style={{ color: 'var(--sf-ink)' }}>{job.customerName}</div>
                                   <div className="flex gap-1 flex-wrap justify-end">
                                     <PaymentBadge status={job.paymentStatus} />
-                                    {job.hasOpenIssue && (
+                                    {job.openIssueCount > 0 && (
                                       <span className="text-xs bg-red-100 text-red-700 px-3 py-1 rounded-full font-medium border border-red-200">
-                                        Issue Open
+                                        {job.openIssueCount} open issue{job.openIssueCount === 1 ? '' : 's'}
+                                      </span>
+                                    )}
+                                    {job.isRedo && (
+                                      <span className="text-xs bg-purple-100 text-purple-700 px-3 py-1 rounded-full font-medium border border-purple-200">
+                                        Redo
                                       </span>
                                     )}
                                     {job.noShow?.status === 'NO_SHOW' && (
@@ -499,6 +724,12 @@ export default function TodayBoard() {
                                     )}
                                   </div>
                                 </div>
+                                <CustomerFlagBadges flags={job.customerFlags} className="mb-2" />
+                                {job.customerFlags?.preferences && (
+                                  <div className="text-xs mb-2 truncate text-[#92400E]" title={job.customerFlags.preferences}>
+                                    📝 {job.customerFlags.preferences}
+                                  </div>
+                                )}
                                 {job.payment?.amountCents && (
                                   <div className="text-sm font-semibold mb-2" style={{ color: 'var(--sf-orange)' }}>
                                     ${(job.payment.amountCents / 100).toFixed(2)}
@@ -507,10 +738,10 @@ export default function TodayBoard() {
                                 <div className="text-xs mb-2" style={{ color: 'var(--sf-muted)' }}>{job.vehicleInfo}</div>
                                 <div className="text-sm font-medium mb-1" style={{ color: 'var(--sf-ink)' }}>{job.serviceType}</div>
                                 {(() => {
-                                  const addons = parseAddonsFromNotes(job.notes);
+                                  const addons = getJobAddons(job);
                                   return addons.length > 0 && (
                                     <div className="text-xs mb-1" style={{ color: 'var(--sf-muted)' }}>
-                                      <span className="font-medium">Add-ons:</span> {addons.join(', ')}
+                                      <span className="font-medium">Add-ons:</span> {addons.map(formatAddonName).join(', ')}
                                     </div>
                                   );
                                 })()}
@@ -521,18 +752,30 @@ export default function TodayBoard() {
                                   })}
                                 </div>
                               </Link>
+
+                              <div className="mt-2">
+                                <AssigneePicker
+                                  jobId={job.jobId}
+                                  assignedTo={job.assignedTo}
+                                  users={staff}
+                                  canAssign={userRole === 'MANAGER'}
+                                  onAssigned={handleAssigned}
+                                  compact
+                                />
+                              </div>
                               
-                              {nextStatus && (
+                              {nextTransition && (
                                 <button
-                                  onClick={() => updateJobStatus(job.jobId, nextStatus)}
-                                  disabled={isUpdating}
+                                  onClick={() => updateJobStatus(job.jobId, nextTransition)}
+                                  disabled={isUpdating || !nextTransition.check.allowed}
+                                  title={nextTransition.check.rejections.map(r => r.message).join(' ') || undefined}
                                   className={`mt-3 w-full h-9 px-3 text-sm font-medium rounded-lg sf-button-transition ${
-                                    isUpdating
+                                    isUpdating || !nextTransition.check.allowed
                                       ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                                       : 'bg-[#F47C20] text-white hover:bg-[#DB6E1C]'
                                   }`}
                                 >
-                                  {isUpdating ? 'Updating...' : `Move to ${columns.find(c => c.status === nextStatus)?.title}`}
+                                  {isUpdating ? 'Updating...' : `Move to ${columns.find(c => c.id === nextTransition.toStage)?.title}`}
                                 </button>
                               )}
                             </div>
@@ -547,7 +790,7 @@ export default function TodayBoard() {
 
             {/* Cancelled Jobs Section */}
             {(() => {
-              const cancelledJobs = jobs.filter(job => job.workStatus === WorkStatus.CANCELLED);
+              const cancelledJobs = visibleJobs.filter(job => job.workStatus === WorkStatus.CANCELLED);
               if (cancelledJobs.length === 0) return null;
               
               return (
@@ -0,0 +1,253 @@
+/**
+ * Bays & Stations Management Page
+ *
+ * Manager-only page for the shop's capacity.
+ * Features:
+ * - Add, rename and reorder wash bays and detail stations
+ * - Tag each bay with capabilities services can require (e.g. detail, lift)
+ * - Deactivate bays that are out of service (they keep their history)
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { ApiResponse, ListBaysResponse } from '@/lib/types';
+import { validateBays } from '@/lib/workflow/bays';
+
+interface BayDraft {
+  bayId?: string;
+  name: string;
+  capabilities: string; // Comma-separated capability tags
+  isActive: boolean;
+}
+
+export default function BaysPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [bays, setBays] = useState<BayDraft[]>([]);
+
+  useEffect(() => {
+    loadBays();
+  }, []);
+
+  const toDrafts = (data: ListBaysResponse): BayDraft[] =>
+    data.bays.map((bay) => ({
+      bayId: bay.bayId,
+      name: bay.name,
+      capabilities: bay.capabilities.join(', '),
+      isActive: bay.isActive,
+    }));
+
+  const loadBays = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/bays');
+      const data: ApiResponse<ListBaysResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        setBays(toDrafts(data.data));
+      } else {
+        setError(data.error?.message || 'Failed to load bays');
+      }
+    } catch (err) {
+      console.error('Load bays error:', err);
+      setError('Failed to load bays');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateBay = (index: number, changes: Partial<BayDraft>) => {
+    setBays(bays.map((bay, i) => (i === index ? { ...bay, ...changes } : bay)));
+  };
+
+  const moveBay = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= bays.length) return;
+
+    const reordered = [...bays];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setBays(reordered);
+  };
+
+  const handleAddBay = () => {
+    setBays([...bays, { name: `Bay ${bays.length + 1}`, capabilities: 'wash', isActive: true }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/bays', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bays: bays.map((bay) => ({
+            bayId: bay.bayId,
+            name: bay.name,
+            capabilities: bay.capabilities.split(',').map((capability) => capability.trim()).filter(Boolean),
+            isActive: bay.isActive,
+          })),
+        }),
+      });
+      const data: ApiResponse<ListBaysResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        setBays(toDrafts(data.data));
+        setSuccess('Bays saved successfully');
+        setTimeout(() => setSuccess(''), 3000);
+      } else {
+        const errors = (data.error?.details as { errors?: string[] } | undefined)?.errors;
+        setError(errors ? errors.join(' ') : data.error?.message || 'Failed to save bays');
+      }
+    } catch (err) {
+      console.error('Save bays error:', err);
+      setError('Failed to save bays');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validationErrors = validateBays(bays);
+
+  return (
+    <ManagerLayout
+      title="Bays & Stations"
+      subtitle="Set up wash bays, detail stations and what each can take"
+    >
+      <div className="max-w-4xl mx-auto">
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-sky-500"></div>
+              <p className="mt-4 text-gray-600">Loading bays...</p>
+            </div>
+          ) : (
+            <>
+              {bays.length === 0 && (
+                <p className="text-sm text-gray-600 p-3 bg-blue-50 rounded-md">
+                  No bays set up yet. Until there are, bookings aren&apos;t checked against bay capacity.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {bays.map((bay, index) => (
+                  <div
+                    key={bay.bayId || `new-${index}`}
+                    className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-md hover:border-gray-300 transition"
+                  >
+                    {/* Reorder */}
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => moveBay(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                        title="Move up"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => moveBay(index, 1)}
+                        disabled={index === bays.length - 1}
+                        className="text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                        title="Move down"
+                      >
+                        ▼
+                      </button>
+                    </div>
+
+                    {/* Name */}
+                    <div className="w-40">
+                      <input
+                        type="text"
+                        value={bay.name}
+                        onChange={(e) => updateBay(index, { name: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-sky-500 focus:border-sky-500 text-gray-900"
+                      />
+                    </div>
+
+                    {/* Capabilities */}
+                    <div className="flex-1 min-w-[12rem]">
+                      <input
+                        type="text"
+                        value={bay.capabilities}
+                        onChange={(e) => updateBay(index, { capabilities: e.target.value })}
+                        placeholder="e.g. wash, detail, lift"
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-sky-500 focus:border-sky-500 text-gray-900"
+                      />
+                    </div>
+
+                    {/* Active */}
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={bay.isActive}
+                        onChange={(e) => updateBay(index, { isActive: e.target.checked })}
+                        className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                      />
+                      Active
+                    </label>
+
+                    {/* New bays can be dropped; saved ones are deactivated instead */}
+                    {!bay.bayId && (
+                      <button
+                        onClick={() => setBays(bays.filter((_, i) => i !== index))}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={handleAddBay}
+                className="mt-4 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                Add Bay
+              </button>
+
+              {validationErrors.length > 0 && (
+                <ul className="mt-4 text-sm text-red-600 list-disc list-inside">
+                  {validationErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || validationErrors.length > 0}
+                  className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                >
+                  {saving ? 'Saving...' : 'Save Bays'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
@@ -0,0 +1,280 @@
+/**
+ * No-Show Fee Policy Page
+ *
+ * Manager-only page for what a no-show costs the customer.
+ * Features:
+ * - Flat fee, or a percentage of the job's amount with an optional floor and cap
+ * - Waive the fee for some no-show reasons (e.g. the shop couldn't reach them)
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { ApiResponse, NoShowPolicy, NoShowPolicyResponse, NoShowReason } from '@/lib/types';
+import { describeNoShowPolicy, NO_SHOW_REASONS, validateNoShowPolicy } from '@/lib/workflow/no-show';
+
+const REASON_LABELS: Record<NoShowReason, string> = {
+  NO_ARRIVAL: 'Customer did not arrive',
+  LATE_CANCEL: 'Late cancellation',
+  UNREACHABLE: 'Customer unreachable',
+  OTHER: 'Other reason',
+};
+
+interface PolicyDraft {
+  feeType: 'FLAT' | 'PERCENT';
+  flatFee: string; // Dollars
+  percent: string;
+  minFee: string; // Dollars, empty for none
+  maxFee: string;
+  waivedReasons: NoShowReason[];
+}
+
+const toCents = (dollars: string): number | undefined =>
+  dollars.trim() === '' ? undefined : Math.round(Number(dollars) * 100);
+
+const toDollars = (cents?: number): string => (cents === undefined ? '' : (cents / 100).toFixed(2));
+
+export default function NoShowPolicyPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [saved, setSaved] = useState<NoShowPolicy | null>(null);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const applyPolicy = (policy: NoShowPolicy) => {
+    setSaved(policy);
+    setDraft({
+      feeType: policy.feeType,
+      flatFee: toDollars(policy.flatFeeCents),
+      percent: String(policy.percent),
+      minFee: toDollars(policy.minFeeCents),
+      maxFee: toDollars(policy.maxFeeCents),
+      waivedReasons: policy.waivedReasons,
+    });
+  };
+
+  const loadPolicy = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/no-show-policy');
+      const data: ApiResponse<NoShowPolicyResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        applyPolicy(data.data.policy);
+      } else {
+        setError(data.error?.message || 'Failed to load no-show policy');
+      }
+    } catch (err) {
+      console.error('Load no-show policy error:', err);
+      setError('Failed to load no-show policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (changes: Partial<PolicyDraft>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const toggleReason = (reason: NoShowReason) => {
+    if (!draft) return;
+    updateDraft({
+      waivedReasons: draft.waivedReasons.includes(reason)
+        ? draft.waivedReasons.filter(r => r !== reason)
+        : [...draft.waivedReasons, reason],
+    });
+  };
+
+  const request = draft && {
+    feeType: draft.feeType,
+    flatFeeCents: toCents(draft.flatFee) ?? 0,
+    percent: Number(draft.percent),
+    minFeeCents: toCents(draft.minFee) ?? null,
+    maxFeeCents: toCents(draft.maxFee) ?? null,
+    waivedReasons: draft.waivedReasons,
+  };
+
+  const handleSave = async () => {
+    if (!request) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/no-show-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: ApiResponse<NoShowPolicyResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        applyPolicy(data.data.policy);
+        setSuccess('No-show policy saved successfully');
+        setTimeout(() => setSuccess(''), 3000);
+      } else {
+        const errors = (data.error?.details as { errors?: string[] } | undefined)?.errors;
+        setError(errors ? errors.join(' ') : data.error?.message || 'Failed to save no-show policy');
+      }
+    } catch (err) {
+      console.error('Save no-show policy error:', err);
+      setError('Failed to save no-show policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validationErrors = request ? validateNoShowPolicy(request) : [];
+  const inputClass = 'w-32 px-2 py-1 border border-gray-300 rounded focus:ring-sky-500 focus:border-sky-500 text-gray-900';
+
+  return (
+    <ManagerLayout
+      title="No-Show Fee"
+      subtitle="What a no-show is charged to the customer's card on file"
+    >
+      <div className="max-w-4xl mx-auto">
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          {loading || !draft ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-sky-500"></div>
+              <p className="mt-4 text-gray-600">Loading no-show policy...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {saved && (
+                <p className="text-sm text-gray-600 p-3 bg-blue-50 rounded-md">
+                  Current policy: {describeNoShowPolicy(saved)}. Jobs that were already charged (or tried) keep their fee.
+                </p>
+              )}
+
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-gray-900">
+                  <input
+                    type="radio"
+                    checked={draft.feeType === 'FLAT'}
+                    onChange={() => updateDraft({ feeType: 'FLAT' })}
+                    className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                  />
+                  Flat fee $
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.flatFee}
+                    onChange={(e) => updateDraft({ flatFee: e.target.value })}
+                    disabled={draft.feeType !== 'FLAT'}
+                    className={inputClass}
+                  />
+                </label>
+
+                <label className="flex items-center gap-2 text-gray-900">
+                  <input
+                    type="radio"
+                    checked={draft.feeType === 'PERCENT'}
+                    onChange={() => updateDraft({ feeType: 'PERCENT' })}
+                    className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={draft.percent}
+                    onChange={(e) => updateDraft({ percent: e.target.value })}
+                    disabled={draft.feeType !== 'PERCENT'}
+                    className={inputClass}
+                  />
+                  % of the job&apos;s amount
+                </label>
+
+                {draft.feeType === 'PERCENT' && (
+                  <div className="flex flex-wrap gap-4 pl-6 text-sm text-gray-700">
+                    <label className="flex items-center gap-2">
+                      At least $
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={draft.minFee}
+                        onChange={(e) => updateDraft({ minFee: e.target.value })}
+                        placeholder="No minimum"
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      At most $
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={draft.maxFee}
+                        onChange={(e) => updateDraft({ maxFee: e.target.value })}
+                        placeholder="No maximum"
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Waive the fee when the reason is</h3>
+                <div className="space-y-1">
+                  {NO_SHOW_REASONS.map((reason) => (
+                    <label key={reason} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.waivedReasons.includes(reason)}
+                        onChange={() => toggleReason(reason)}
+                        className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                      />
+                      {REASON_LABELS[reason]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {validationErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc list-inside">
+                  {validationErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || validationErrors.length > 0}
+                  className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                >
+                  {saving ? 'Saving...' : 'Save Policy'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
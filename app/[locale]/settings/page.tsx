@@ -205,6 +205,78 @@ export default function SettingsPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                   </svg>
                 </button>
+
+                <button
+                  onClick={() => router.push(`/${currentLocale}/settings/workflows`)}
+                  className="w-full flex items-center gap-3 p-3 border border-gray-200 rounded-md hover:bg-sky-50 hover:border-sky-300 transition"
+                >
+                  <div className="flex-shrink-0 w-10 h-10 bg-sky-100 rounded-md flex items-center justify-center">
+                    <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                    </svg>
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-medium text-gray-900">Workflow Pipelines</div>
+                    <div className="text-sm text-gray-500">Choose the stages each service moves through</div>
+                  </div>
+                  <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+
+                <button
+                  onClick={() => router.push(`/${currentLocale}/settings/bays`)}
+                  className="w-full flex items-center gap-3 p-3 border border-gray-200 rounded-md hover:bg-sky-50 hover:border-sky-300 transition"
+                >
+                  <div className="flex-shrink-0 w-10 h-10 bg-sky-100 rounded-md flex items-center justify-center">
+                    <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm10 0a2 2 0 012-2h2a2 2 0 012 2v12a2 2 0 01-2 2h-2a2 2 0 01-2-2V6z" />
+                    </svg>
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-medium text-gray-900">Bays &amp; Stations</div>
+                    <div className="text-sm text-gray-500">Set up wash bays, detail stations and what each can take</div>
+                  </div>
+                  <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+
+                <button
+                  onClick={() => router.push(`/${currentLocale}/settings/no-show`)}
+                  className="w-full flex items-center gap-3 p-3 border border-gray-200 rounded-md hover:bg-sky-50 hover:border-sky-300 transition"
+                >
+                  <div className="flex-shrink-0 w-10 h-10 bg-sky-100 rounded-md flex items-center justify-center">
+                    <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                    </svg>
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-medium text-gray-900">No-Show Fee</div>
+                    <div className="text-sm text-gray-500">Set what a no-show is charged to the card on file</div>
+                  </div>
+                  <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+
+                <button
+                  onClick={() => router.push(`/${currentLocale}/settings/tax`)}
+                  className="w-full flex items-center gap-3 p-3 border border-gray-200 rounded-md hover:bg-sky-50 hover:border-sky-300 transition"
+                >
+                  <div className="flex-shrink-0 w-10 h-10 bg-sky-100 rounded-md flex items-center justify-center">
+                    <svg className="w-6 h-6 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-medium text-gray-900">Sales Tax</div>
+                    <div className="text-sm text-gray-500">Set the tax rate charged at each location</div>
+                  </div>
+                  <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
               </div>
             </div>
           )}
@@ -0,0 +1,256 @@
+/**
+ * Sales Tax Page
+ *
+ * Manager-only page for the tax rates jobs are priced with.
+ * Features:
+ * - Default rate for every location
+ * - Per-location rates (by Square location ID)
+ * Items Square marks non-taxable are never taxed.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import type { ApiResponse, TaxConfig, TaxConfigResponse } from '@/lib/types';
+import { formatTaxRate, validateTaxConfig } from '@/lib/workflow/pricing';
+
+interface LocationDraft {
+  locationId: string;
+  name: string;
+  ratePercent: string;
+}
+
+interface TaxDraft {
+  defaultRatePercent: string;
+  locations: LocationDraft[];
+}
+
+export default function TaxConfigPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [draft, setDraft] = useState<TaxDraft | null>(null);
+  const [saved, setSaved] = useState<TaxConfig | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const applyConfig = (config: TaxConfig) => {
+    setSaved(config);
+    setDraft({
+      defaultRatePercent: String(config.defaultRatePercent),
+      locations: config.locations.map(location => ({
+        locationId: location.locationId,
+        name: location.name || '',
+        ratePercent: String(location.ratePercent),
+      })),
+    });
+  };
+
+  const loadConfig = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/tax-config');
+      const data: ApiResponse<TaxConfigResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        applyConfig(data.data.config);
+      } else {
+        setError(data.error?.message || 'Failed to load tax rates');
+      }
+    } catch (err) {
+      console.error('Load tax config error:', err);
+      setError('Failed to load tax rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLocation = (index: number, changes: Partial<LocationDraft>) => {
+    setDraft(current => current && {
+      ...current,
+      locations: current.locations.map((location, i) => (i === index ? { ...location, ...changes } : location)),
+    });
+  };
+
+  const addLocation = () => {
+    setDraft(current => current && {
+      ...current,
+      locations: [...current.locations, { locationId: '', name: '', ratePercent: current.defaultRatePercent }],
+    });
+  };
+
+  const removeLocation = (index: number) => {
+    setDraft(current => current && {
+      ...current,
+      locations: current.locations.filter((_, i) => i !== index),
+    });
+  };
+
+  const request = draft && {
+    defaultRatePercent: Number(draft.defaultRatePercent),
+    locations: draft.locations.map(location => ({
+      locationId: location.locationId.trim(),
+      name: location.name.trim() || undefined,
+      ratePercent: Number(location.ratePercent),
+    })),
+  };
+
+  const handleSave = async () => {
+    if (!request) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/tax-config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data: ApiResponse<TaxConfigResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        applyConfig(data.data.config);
+        setSuccess('Tax rates saved successfully');
+        setTimeout(() => setSuccess(''), 3000);
+      } else {
+        const errors = (data.error?.details as { errors?: string[] } | undefined)?.errors;
+        setError(errors ? errors.join(' ') : data.error?.message || 'Failed to save tax rates');
+      }
+    } catch (err) {
+      console.error('Save tax config error:', err);
+      setError('Failed to save tax rates');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validationErrors = request ? validateTaxConfig(request) : [];
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded focus:ring-sky-500 focus:border-sky-500 text-gray-900';
+
+  return (
+    <ManagerLayout
+      title="Sales Tax"
+      subtitle="The tax rate jobs are priced with at each location"
+    >
+      <div className="max-w-4xl mx-auto">
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          {loading || !draft ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-sky-500"></div>
+              <p className="mt-4 text-gray-600">Loading tax rates...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {saved && (
+                <p className="text-sm text-gray-600 p-3 bg-blue-50 rounded-md">
+                  Default rate: {formatTaxRate(saved.defaultRatePercent)}. Items marked non-taxable in Square are never taxed.
+                  Jobs keep the tax they were priced with until their booking changes.
+                </p>
+              )}
+
+              <label className="flex items-center gap-2 text-gray-900">
+                Default rate
+                <input
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  value={draft.defaultRatePercent}
+                  onChange={(e) => setDraft({ ...draft, defaultRatePercent: e.target.value })}
+                  className={`w-28 ${inputClass}`}
+                />
+                %
+              </label>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Location rates</h3>
+                {draft.locations.length === 0 ? (
+                  <p className="text-sm text-gray-500 mb-2">Every location uses the default rate.</p>
+                ) : (
+                  <div className="space-y-2 mb-2">
+                    {draft.locations.map((location, index) => (
+                      <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                        <input
+                          type="text"
+                          value={location.name}
+                          onChange={(e) => updateLocation(index, { name: e.target.value })}
+                          placeholder="Name (e.g. Franklin)"
+                          className={`w-40 ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={location.locationId}
+                          onChange={(e) => updateLocation(index, { locationId: e.target.value })}
+                          placeholder="Square location ID"
+                          className={`w-48 font-mono ${inputClass}`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={location.ratePercent}
+                          onChange={(e) => updateLocation(index, { ratePercent: e.target.value })}
+                          className={`w-24 ${inputClass}`}
+                        />
+                        %
+                        <button
+                          onClick={() => removeLocation(index)}
+                          className="px-2 py-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={addLocation}
+                  className="text-sm text-sky-600 hover:text-sky-700"
+                >
+                  + Add location rate
+                </button>
+              </div>
+
+              {validationErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc list-inside">
+                  {validationErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || validationErrors.length > 0}
+                  className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                >
+                  {saving ? 'Saving...' : 'Save Tax Rates'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
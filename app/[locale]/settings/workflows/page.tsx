@@ -0,0 +1,490 @@
+/**
+ * Workflow Pipelines Management Page
+ *
+ * Manager-only page to choose the stages each service moves through.
+ * Features:
+ * - Reorder, remove and add stages (custom stages reuse a built-in status)
+ * - Mark stages optional so staff can skip them
+ * - Restrict which roles may move a job into a stage
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManagerLayout } from '@/app/components/ManagerLayout';
+import { UserRole, WorkStatus } from '@/lib/types';
+import type {
+  ApiResponse,
+  GetWorkflowResponse,
+  ServiceWorkflow,
+  WorkflowStage,
+} from '@/lib/types';
+import {
+  CUSTOM_STAGE_STATUSES,
+  DEFAULT_WORKFLOW_STAGES,
+  getStageRoles,
+  isBuiltInStage,
+  validateWorkflowStages,
+} from '@/lib/workflow/pipelines';
+
+interface ServiceTypeResponse {
+  serviceTypes: string[];
+}
+
+const STAFF_ROLES = [UserRole.TECH, UserRole.QC, UserRole.MANAGER];
+
+export default function WorkflowPipelinesPage() {
+  const [loading, setLoading] = useState(false);
+  const [loadingServices, setLoadingServices] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Service selection
+  const [availableServiceTypes, setAvailableServiceTypes] = useState<string[]>([]);
+  const [serviceType, setServiceType] = useState('');
+
+  // Pipeline being edited
+  const [workflow, setWorkflow] = useState<ServiceWorkflow | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [stages, setStages] = useState<WorkflowStage[]>([]);
+  const [newStageLabel, setNewStageLabel] = useState('');
+  const [newStageStatus, setNewStageStatus] = useState<WorkStatus>(WorkStatus.IN_PROGRESS);
+  const [requiredSkills, setRequiredSkills] = useState(''); // Comma-separated skill tags
+  const [bayCapabilities, setBayCapabilities] = useState(''); // Comma-separated capability tags
+
+  // Load service types from Square on mount
+  useEffect(() => {
+    loadServiceTypes();
+  }, []);
+
+  // Load the pipeline when service type changes
+  useEffect(() => {
+    if (serviceType) {
+      loadWorkflow();
+    }
+  }, [serviceType]);
+
+  const loadServiceTypes = async () => {
+    setLoadingServices(true);
+    try {
+      const response = await fetch('/api/services');
+      const data: ApiResponse<ServiceTypeResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        setAvailableServiceTypes(data.data.serviceTypes);
+
+        if (data.data.serviceTypes.length > 0 && !serviceType) {
+          setServiceType(data.data.serviceTypes[0]);
+        }
+      } else {
+        console.error('Failed to load service types:', data.error?.message);
+        setAvailableServiceTypes([]);
+      }
+    } catch (err) {
+      console.error('Load service types error:', err);
+      setAvailableServiceTypes([]);
+    } finally {
+      setLoadingServices(false);
+    }
+  };
+
+  const loadWorkflow = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(
+        `/api/services/${encodeURIComponent(serviceType)}/workflow`
+      );
+      const data: ApiResponse<GetWorkflowResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        setWorkflow(data.data.workflow);
+        setIsDefault(data.data.isDefault);
+        setStages(data.data.workflow.stages);
+        setRequiredSkills((data.data.workflow.requiredSkills || []).join(', '));
+        setBayCapabilities((data.data.workflow.bayCapabilities || []).join(', '));
+      } else {
+        setError(data.error?.message || 'Failed to load workflow');
+      }
+    } catch (err) {
+      console.error('Load workflow error:', err);
+      setError('Failed to load workflow');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<WorkflowStage>) => {
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStages(reordered);
+  };
+
+  const toggleRole = (index: number, role: UserRole) => {
+    const current = getStageRoles(stages[index]);
+    const roles = current.includes(role)
+      ? current.filter((r) => r !== role)
+      : [...current, role];
+    updateStage(index, { roles });
+  };
+
+  const handleAddStage = () => {
+    const label = newStageLabel.trim();
+    if (!label) return;
+
+    const id = label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+    const stage: WorkflowStage = { id, label, status: newStageStatus };
+
+    // Insert before Completed; the manager can move it from there
+    setStages([...stages.slice(0, -1), stage, ...stages.slice(-1)]);
+    setNewStageLabel('');
+  };
+
+  const handleRestoreStage = (stage: WorkflowStage) => {
+    const insertAt = stages.findIndex(
+      (s) => DEFAULT_WORKFLOW_STAGES.indexOf(stage) < DEFAULT_WORKFLOW_STAGES.findIndex((d) => d.id === s.id)
+    );
+    setStages([
+      ...stages.slice(0, insertAt === -1 ? stages.length : insertAt),
+      stage,
+      ...stages.slice(insertAt === -1 ? stages.length : insertAt),
+    ]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(
+        `/api/services/${encodeURIComponent(serviceType)}/workflow`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            stages,
+            requiredSkills: requiredSkills.split(',').map((skill) => skill.trim()).filter(Boolean),
+            bayCapabilities: bayCapabilities.split(',').map((capability) => capability.trim()).filter(Boolean),
+          }),
+        }
+      );
+      const data: ApiResponse<GetWorkflowResponse> = await response.json();
+
+      if (response.ok && data.success && data.data) {
+        setWorkflow(data.data.workflow);
+        setIsDefault(false);
+        setStages(data.data.workflow.stages);
+        setRequiredSkills((data.data.workflow.requiredSkills || []).join(', '));
+        setBayCapabilities((data.data.workflow.bayCapabilities || []).join(', '));
+        setSuccess('Workflow saved successfully');
+        setTimeout(() => setSuccess(''), 3000);
+      } else {
+        const errors = (data.error?.details as { errors?: string[] } | undefined)?.errors;
+        setError(errors ? errors.join(' ') : data.error?.message || 'Failed to save workflow');
+      }
+    } catch (err) {
+      console.error('Save workflow error:', err);
+      setError('Failed to save workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validationErrors = stages.length > 0 ? validateWorkflowStages(stages) : [];
+  const removedBuiltIns = DEFAULT_WORKFLOW_STAGES.filter(
+    (builtIn) => !stages.some((stage) => stage.id === builtIn.id)
+  );
+
+  return (
+    <ManagerLayout
+      title="Workflow Pipelines"
+      subtitle="Choose the stages each service moves through"
+    >
+      <div className="max-w-6xl mx-auto">
+
+        {loadingServices && (
+          <div className="mb-6 text-center py-4">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-300 border-t-sky-500"></div>
+            <p className="mt-2 text-sm text-gray-600">Loading services from Square...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {/* Service Type Selection */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Select Service Type</h2>
+          <select
+            value={serviceType}
+            onChange={(e) => setServiceType(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-sky-500 focus:border-sky-500"
+          >
+            <option value="">-- Select a service type --</option>
+            {availableServiceTypes.map((service) => (
+              <option key={service} value={service}>
+                {service}
+              </option>
+            ))}
+          </select>
+          {serviceType && isDefault && !loading && (
+            <p className="mt-3 text-sm text-gray-600 p-3 bg-blue-50 rounded-md">
+              This service uses the standard pipeline. Saving creates its own copy.
+            </p>
+          )}
+        </div>
+
+        {/* Stage Editor */}
+        {serviceType && (
+          <div className="bg-white shadow rounded-lg p-6">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-sky-500"></div>
+                <p className="mt-4 text-gray-600">Loading workflow...</p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {stages.map((stage, index) => {
+                    const isEnd = index === 0 || index === stages.length - 1;
+                    const roles = getStageRoles(stage);
+
+                    return (
+                      <div
+                        key={stage.id}
+                        className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-md hover:border-gray-300 transition"
+                      >
+                        {/* Reorder */}
+                        <div className="flex flex-col">
+                          <button
+                            onClick={() => moveStage(index, -1)}
+                            disabled={index === 0}
+                            className="text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                            title="Move up"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => moveStage(index, 1)}
+                            disabled={index === stages.length - 1}
+                            className="text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                            title="Move down"
+                          >
+                            ▼
+                          </button>
+                        </div>
+
+                        <div className="w-8 text-center text-sm font-medium text-gray-500">
+                          {index + 1}
+                        </div>
+
+                        {/* Label */}
+                        <div className="flex-1 min-w-[10rem]">
+                          <input
+                            type="text"
+                            value={stage.label}
+                            onChange={(e) => updateStage(index, { label: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-sky-500 focus:border-sky-500 text-gray-900"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">
+                            {isBuiltInStage(stage) ? 'Built-in stage' : `Custom stage · status ${stage.status}`}
+                          </p>
+                        </div>
+
+                        {/* Optional */}
+                        <label className="flex items-center gap-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={!!stage.optional}
+                            disabled={isEnd}
+                            onChange={(e) => updateStage(index, { optional: e.target.checked })}
+                            className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                          />
+                          Optional
+                        </label>
+
+                        {/* Roles allowed to move a job into this stage */}
+                        <div className="flex items-center gap-2 text-sm text-gray-700">
+                          {STAFF_ROLES.map((role) => (
+                            <label key={role} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={roles.includes(role)}
+                                onChange={() => toggleRole(index, role)}
+                                className="w-4 h-4 text-sky-500 focus:ring-sky-500"
+                              />
+                              {role}
+                            </label>
+                          ))}
+                        </div>
+
+                        {/* Remove (Scheduled and Completed always stay) */}
+                        <button
+                          onClick={() => setStages(stages.filter((_, i) => i !== index))}
+                          disabled={stage.id === WorkStatus.SCHEDULED || stage.id === WorkStatus.WORK_COMPLETED}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded transition disabled:text-gray-300 disabled:hover:bg-transparent"
+                          title="Remove stage"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Restore removed built-in stages */}
+                {removedBuiltIns.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {removedBuiltIns.map((stage) => (
+                      <button
+                        key={stage.id}
+                        onClick={() => handleRestoreStage(stage)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        + {stage.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Add Custom Stage */}
+                <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      type="text"
+                      value={newStageLabel}
+                      onChange={(e) => setNewStageLabel(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAddStage();
+                      }}
+                      placeholder="Add custom stage (e.g. Curing)..."
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-sky-500 focus:border-sky-500 text-gray-900 placeholder:text-gray-400"
+                    />
+                    <select
+                      value={newStageStatus}
+                      onChange={(e) => setNewStageStatus(e.target.value as WorkStatus)}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:ring-sky-500 focus:border-sky-500"
+                      title="Work status while in this stage"
+                    >
+                      {CUSTOM_STAGE_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {status}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleAddStage}
+                      disabled={!newStageLabel.trim()}
+                      className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                    >
+                      Add Stage
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Required tech skills (auto-dispatch)
+                  </label>
+                  <input
+                    type="text"
+                    value={requiredSkills}
+                    onChange={(e) => setRequiredSkills(e.target.value)}
+                    placeholder="e.g. ceramic-certified, paint-correction"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Comma-separated. Auto-dispatch only proposes techs with every skill listed.
+                  </p>
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Required bay capabilities
+                  </label>
+                  <input
+                    type="text"
+                    value={bayCapabilities}
+                    onChange={(e) => setBayCapabilities(e.target.value)}
+                    placeholder="e.g. detail, lift"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Comma-separated. Only bays with every capability listed can take this service.
+                  </p>
+                </div>
+
+                {validationErrors.length > 0 && (
+                  <ul className="mt-4 text-sm text-red-600 list-disc list-inside">
+                    {validationErrors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="mt-6 flex items-center justify-between">
+                  <div className="text-sm text-gray-500">
+                    {workflow && !isDefault && (
+                      <p>
+                        <strong>Version:</strong> {workflow.version}
+                        {workflow.updatedBy && ` · Updated by ${workflow.updatedBy.name}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setStages(workflow?.stages || DEFAULT_WORKFLOW_STAGES)}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      Reset
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={saving || validationErrors.length > 0}
+                      className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                    >
+                      {saving ? 'Saving...' : 'Save Workflow'}
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Instructions */}
+        <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-blue-900 mb-2">📋 Instructions</h3>
+          <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
+            <li>Every pipeline starts at Scheduled and ends at Completed</li>
+            <li>Remove stages the service doesn&apos;t need (e.g. QC for an express wash)</li>
+            <li>Optional stages can be skipped from the previous stage</li>
+            <li>Roles control who may move a job into the stage</li>
+            <li>The check-in inspection and checklists are still required once a job passes In Progress, QC Ready or Completed</li>
+            <li>Jobs already in a removed stage keep following the standard pipeline</li>
+          </ul>
+        </div>
+      </div>
+    </ManagerLayout>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Vehicle Page
+ *
+ * One car's profile (plate, VIN, details, customers, notes) and every past
+ * visit with its photos, issues and notes, newest first. Managers can edit
+ * the car's details and notes.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useParams, useRouter } from 'next/navigation';
+import { UserRole, type Vehicle, type VehicleJobSummary } from '@/lib/types';
+import { getJobIssues } from '@/lib/workflow/issues';
+import { describeVehicle, VEHICLE_EDIT_ROLES } from '@/lib/workflow/vehicles';
+import type { Locale } from '@/i18n';
+
+interface VehicleForm {
+  make: string;
+  model: string;
+  year: string;
+  color: string;
+  notes: string;
+}
+
+function toForm(vehicle: Vehicle): VehicleForm {
+  return {
+    make: vehicle.make || '',
+    model: vehicle.model || '',
+    year: vehicle.year?.toString() || '',
+    color: vehicle.color || '',
+    notes: vehicle.notes || '',
+  };
+}
+
+export default function VehiclePage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as Locale;
+  const vehicleId = params.vehicleId as string;
+
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [jobs, setJobs] = useState<VehicleJobSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<VehicleForm>({ make: '', model: '', year: '', color: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchVehicle = async () => {
+      try {
+        const response = await fetch(`/api/vehicles/${vehicleId}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load vehicle');
+        }
+        setVehicle(data.data.vehicle);
+        setJobs(data.data.jobs);
+      } catch (err) {
+        console.error('Failed to fetch vehicle:', err);
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const fetchRole = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        const data = await response.json();
+        setCanEdit(VEHICLE_EDIT_ROLES.includes(data.data?.user?.role as UserRole));
+      } catch (err) {
+        console.error('Failed to fetch current user:', err);
+      }
+    };
+
+    fetchVehicle();
+    fetchRole();
+  }, [vehicleId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/vehicles/${vehicleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          make: form.make,
+          model: form.model,
+          color: form.color,
+          notes: form.notes,
+          ...(form.year && { year: parseInt(form.year, 10) }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to save vehicle');
+      }
+      setVehicle(data.data.vehicle);
+      setEditing(false);
+    } catch (err) {
+      console.error('Failed to save vehicle:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (timestamp?: string) => timestamp
+    ? new Date(timestamp).toLocaleDateString(
+        locale === 'ar' ? 'ar-SA' : locale === 'es' ? 'es-ES' : 'en-US',
+        { year: 'numeric', month: 'short', day: 'numeric' }
+      )
+    : 'Not scheduled';
+
+  return (
+    <div className="min-h-screen" style={{ background: 'var(--sf-bg)' }}>
+      <header className="bg-white shadow-sm border-b-[3px] border-[#F47C20]" style={{ boxShadow: 'var(--sf-shadow)' }}>
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.back()}
+              className="px-5 py-2 bg-white border border-[#E7E2D8] rounded-xl hover:bg-[#FAF6EF] sf-button-transition"
+              style={{ color: 'var(--sf-ink)' }}
+            >
+              {locale === 'ar' ? '→' : '←'}
+            </button>
+            <Image src="/safari-logo.png" alt="Safari Car Wash" width={50} height={50} className="object-contain" />
+            <h1 className="text-xl font-bold" style={{ color: 'var(--sf-ink)' }}>
+              {vehicle ? describeVehicle(vehicle) : 'Vehicle'}
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center py-12" style={{ color: 'var(--sf-muted)' }}>Loading vehicle...</div>
+        )}
+
+        {vehicle && (
+          <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold" style={{ color: 'var(--sf-ink)' }}>Vehicle</h2>
+              {canEdit && !editing && (
+                <button
+                  onClick={() => { setForm(toForm(vehicle)); setEditing(true); }}
+                  className="px-4 py-2 bg-[#F47C20] text-white rounded-lg hover:bg-[#DB6E1C] sf-button-transition text-sm"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+
+            {editing ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  {(['make', 'model', 'year', 'color'] as const).map(field => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field}</label>
+                      <input
+                        type={field === 'year' ? 'number' : 'text'}
+                        value={form[field]}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    rows={3}
+                    placeholder="e.g. Aftermarket wheels, customer prefers no tire shine"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : '✓ Save'}
+                  </button>
+                  <button
+                    onClick={() => setEditing(false)}
+                    disabled={saving}
+                    className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition disabled:opacity-50"
+                  >
+                    ✕ Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-600">License Plate</label>
+                  <div className="font-medium text-gray-900">{vehicle.licensePlate || '—'}</div>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">VIN</label>
+                  <div className="font-medium font-mono text-sm text-gray-900">{vehicle.vin || '—'}</div>
+                </div>
+                <div className="col-span-2">
+                  <label className="text-sm text-gray-600">Customers</label>
+                  {vehicle.customers.length === 0 ? (
+                    <div className="text-sm text-gray-500">None recorded</div>
+                  ) : (
+                    <ul className="text-sm text-gray-900 space-y-1">
+                      {vehicle.customers.map(customer => (
+                        <li key={customer.customerId || customer.name}>
+                          {customer.name}
+                          {customer.phone && <span className="text-gray-500"> · {customer.phone}</span>}
+                          <span className="text-gray-500"> · last visit {formatDate(customer.lastSeenAt)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                {vehicle.notes && (
+                  <div className="col-span-2">
+                    <label className="text-sm text-gray-600">Notes</label>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{vehicle.notes}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {vehicle && (
+          <section className="bg-white rounded-2xl p-6" style={{ boxShadow: 'var(--sf-shadow)', border: '1px solid var(--sf-border)' }}>
+            <h2 className="text-lg font-semibold mb-4" style={{ color: 'var(--sf-ink)' }}>
+              Visits ({jobs.length})
+            </h2>
+            {jobs.length === 0 ? (
+              <p className="text-sm text-gray-500">No visits yet</p>
+            ) : (
+              <div className="space-y-4">
+                {jobs.map(job => {
+                  const issues = getJobIssues(job);
+                  const photos = job.photosMeta || [];
+
+                  return (
+                    <div key={job.jobId} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold text-gray-900">{job.serviceType}</span>
+                            <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 font-medium">
+                              {job.status.replace(/_/g, ' ')}
+                            </span>
+                            {job.redoOfJobId && (
+                              <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-700 font-medium">
+                                Redo
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-sm text-gray-600 mt-1">
+                            {formatDate(job.appointmentTime)} · {job.customerName}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => router.push(`/${locale}/jobs/${job.jobId}`)}
+                          className="text-sm font-medium text-[#F47C20] hover:underline whitespace-nowrap"
+                        >
+                          Open job →
+                        </button>
+                      </div>
+
+                      {job.notes && (
+                        <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{job.notes}</p>
+                      )}
+
+                      {issues.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {issues.map(issue => (
+                            <li key={issue.issueId} className="text-sm text-red-700">
+                              ⚠️ {issue.type.replace(/_/g, ' ')} ({issue.status.replace(/_/g, ' ').toLowerCase()})
+                              {issue.notes && <span className="text-gray-700"> · {issue.notes}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {photos.length > 0 && (
+                        <div className="flex gap-2 flex-wrap mt-3">
+                          {photos.map(photo => (
+                            <a key={photo.photoId} href={photo.publicUrl} target="_blank" rel="noreferrer">
+                              <img src={photo.publicUrl} alt={photo.category || 'Job photo'} className="w-16 h-16 object-cover rounded" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { listJobs, updateJob } from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { WorkStatus } from '@/lib/types';
 import type { ApiResponse, Job } from '@/lib/types';
 
@@ -50,7 +50,7 @@ export async function POST(request: NextRequest) {
     console.log('[MIGRATION START]', { dryRun, confirm });
 
     // Scan all jobs
-    const { jobs } = await listJobs({ limit: 1000 });
+    const { jobs } = await jobRepository.listJobs({ limit: 1000 });
     
     console.log('[MIGRATION SCAN]', {
       totalJobs: jobs.length,
@@ -108,7 +108,7 @@ export async function POST(request: NextRequest) {
 
     for (const job of jobsToMigrate) {
       try {
-        await updateJob(job.jobId, {
+        await jobRepository.updateJob(job.jobId, {
           status: job.newStatus,
         });
 
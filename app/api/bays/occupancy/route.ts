@@ -0,0 +1,60 @@
+/**
+ * GET /api/bays/occupancy?boardDate=YYYY-MM-DD
+ *
+ * Hour-by-hour bay usage for a board date (defaults to today): the jobs
+ * booked into each active bay, and the jobs that don't have a bay yet.
+ * The calendar's day view draws its time grid from this.
+ *
+ * Auth: All authenticated users
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import type { ApiResponse, BayOccupancyResponse } from '@/lib/types';
+import { getBayOccupancyForDate } from '@/lib/services/bay-service';
+import { getTodayInTimezone } from '@/lib/utils/timezone';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET = requireAuth(
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const boardDate = request.nextUrl.searchParams.get('boardDate') || getTodayInTimezone();
+
+      if (!DATE_PATTERN.test(boardDate)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'boardDate must be YYYY-MM-DD',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const occupancy = await getBayOccupancyForDate(boardDate);
+
+      const response: ApiResponse<BayOccupancyResponse> = {
+        success: true,
+        data: occupancy,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Bay Occupancy] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load bay occupancy',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,125 @@
+/**
+ * GET/PUT /api/bays
+ *
+ * The shop's wash bays and detail stations with their capability tags.
+ * PUT replaces the whole list; bays sent without a bayId are created.
+ * Deactivate a bay rather than removing it so jobs booked into it keep
+ * their history.
+ *
+ * Auth: GET all authenticated users, PUT manager only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type ListBaysResponse,
+  type UpdateBaysRequest,
+} from '@/lib/types';
+import * as bayService from '@/lib/services/bay-service';
+import { BayError } from '@/lib/workflow/bays';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bays
+ */
+export const GET = requireAuth(
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const bays = await bayService.listBays();
+
+      const response: ApiResponse<ListBaysResponse> = {
+        success: true,
+        data: { bays },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[List Bays] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list bays',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PUT /api/bays
+ * Request body: { bays: [{ bayId?, name, capabilities?, isActive? }] }
+ */
+export const PUT = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const body: UpdateBaysRequest = await request.json();
+
+      const valid = Array.isArray(body.bays) && body.bays.every(bay =>
+        typeof bay?.name === 'string' &&
+        (bay.bayId === undefined || typeof bay.bayId === 'string') &&
+        (bay.capabilities === undefined ||
+          (Array.isArray(bay.capabilities) && bay.capabilities.every(capability => typeof capability === 'string'))) &&
+        (bay.isActive === undefined || typeof bay.isActive === 'boolean')
+      );
+
+      if (!valid) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'bays must be an array of { bayId?, name, capabilities?, isActive? }',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const bays = await bayService.saveBays(body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<ListBaysResponse> = {
+        success: true,
+        data: { bays },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof BayError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[Update Bays] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to save bays',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -18,7 +18,7 @@ import {
 } from '@/lib/square/orders-api';
 import type { OrderLineItem } from '@/lib/square/orders-api';
 import { validateAddonVariation } from '@/lib/square/catalog-api';
-import * as dynamodb from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { getConfig } from '@/lib/config';
 
 interface UpdateAddonsRequest {
@@ -78,7 +78,7 @@ export const PATCH = requireAuth(async (
     }
     
     // Fetch job from DynamoDB
-    const job = await dynamodb.getJob(bookingId);
+    const job = await jobRepository.getJob(bookingId);
     
     if (!job) {
       const response: ApiResponse = {
@@ -242,7 +242,7 @@ export const PATCH = requireAuth(async (
       });
       
       // Update job with new order ID
-      await dynamodb.updateJob(bookingId, {
+      await jobRepository.updateJob(bookingId, {
         orderId: newOrder.id,
         updatedAt: new Date().toISOString(),
         updatedBy: {
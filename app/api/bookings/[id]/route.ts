@@ -11,7 +11,7 @@ import { UserRole } from '@/lib/types';
 import type { ApiResponse } from '@/lib/types';
 import { retrieveBooking } from '@/lib/square/bookings-api';
 import { retrieveOrder, extractAddonLineItems } from '@/lib/square/orders-api';
-import * as dynamodb from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { fetchCatalogObject } from '@/lib/square/catalog-api';
 
 interface BookingWithAddonsResponse {
@@ -68,7 +68,7 @@ export const GET = requireAuth(async (
     }
     
     // Fetch job from DynamoDB to get order ID
-    const job = await dynamodb.getJob(bookingId);
+    const job = await jobRepository.getJob(bookingId);
     
     let addons: Array<{
       id: string;
@@ -11,7 +11,7 @@ import { UserRole } from '@/lib/types';
 import type { ApiResponse } from '@/lib/types';
 import { retrieveBooking, updateBookingDetails } from '@/lib/square/bookings-api';
 import { fetchServiceName } from '@/lib/square/catalog-api';
-import * as dynamodb from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { getConfig } from '@/lib/config';
 
 interface UpdateBookingRequest {
@@ -149,7 +149,7 @@ export const PATCH = requireRole([UserRole.MANAGER], async (
     }
 
     // Step 6: Update internal job record
-    const job = await dynamodb.getJob(bookingId);
+    const job = await jobRepository.getJob(bookingId);
 
     if (job) {
       const updates: any = {
@@ -167,7 +167,7 @@ export const PATCH = requireRole([UserRole.MANAGER], async (
         updates.serviceType = serviceName;
       }
 
-      const updatedJob = await dynamodb.updateJob(bookingId, updates);
+      const updatedJob = await jobRepository.updateJob(bookingId, updates);
 
       console.log('[booking-edit] Job record updated', {
         jobId: bookingId,
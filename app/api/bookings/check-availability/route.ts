@@ -3,16 +3,22 @@
  * 
  * Checks if a booking time slot is available for a service
  * Uses Square Bookings Availability API
+ * 
+ * Also checks the shop's bay capacity for the slot. A full slot only
+ * warns (bayCapacity.warning); it doesn't make the slot unavailable.
+ * Phone bookings send no bookingId.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/auth/requireAuth';
 import { UserRole } from '@/lib/types';
-import type { ApiResponse } from '@/lib/types';
+import type { ApiResponse, BayCapacityCheck } from '@/lib/types';
 import { getConfig } from '@/lib/config';
+import { checkBayCapacityForSlot } from '@/lib/services/bay-service';
 
 interface CheckAvailabilityRequest {
-  bookingId: string;
+  bookingId?: string; // Booking being moved (omitted for new bookings)
+  serviceType?: string; // Service name, for the bays it needs
   serviceVariationId: string;
   serviceVariationVersion: number;
   startAt: string; // ISO timestamp
@@ -27,6 +33,7 @@ interface CheckAvailabilityResponse {
     code: string;
     message: string;
   };
+  bayCapacity: BayCapacityCheck;
 }
 
 export const POST = requireRole([UserRole.MANAGER], async (
@@ -59,6 +66,21 @@ export const POST = requireRole([UserRole.MANAGER], async (
       durationMinutes: body.durationMinutes,
     });
 
+    const bayCapacity = await checkBayCapacityForSlot({
+      startAt: body.startAt,
+      durationMinutes: body.durationMinutes,
+      serviceType: body.serviceType,
+      bookingId: body.bookingId,
+    });
+
+    if (!bayCapacity.available) {
+      console.log('[booking-edit] Slot exceeds bay capacity', {
+        startAt: body.startAt,
+        capacity: bayCapacity.capacity,
+        booked: bayCapacity.booked,
+      });
+    }
+
     // Force location L9ZMZD9TTTTZJ
     const locationId = 'L9ZMZD9TTTTZJ';
     
@@ -144,6 +166,7 @@ export const POST = requireRole([UserRole.MANAGER], async (
       data: {
         available: isAvailable,
         suggestedStartTimes: isAvailable ? undefined : suggestedStartTimes,
+        bayCapacity,
       },
       timestamp: new Date().toISOString(),
     });
@@ -3,7 +3,9 @@
  * 
  * GET /api/cron/reconcile?token=<secret>
  * 
- * Reconciles Square bookings with DynamoDB jobs.
+ * Reconciles Square bookings with DynamoDB jobs, then records Square
+ * payments taken in the same window and settles pending refunds from its
+ * refunds (catches missed payment and refund webhooks).
  * Protected by CRON_SECRET token (not session-based).
  * 
  * Called by Vercel Cron on schedule (every 10-15 minutes).
@@ -16,6 +18,12 @@ import {
   getTimeRangeWithBuffer,
   type ReconciliationResult 
 } from '@/lib/reconcile/reconcileBookings';
+import {
+  syncSquarePayments,
+  syncSquareRefunds,
+  type PaymentSyncResult,
+  type RefundSyncResult,
+} from '@/lib/services/square-payment-service';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -73,11 +81,41 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       dryRun: false,
     });
 
+    // Record payments taken since the start of the window (a payment
+    // failure shouldn't fail the booking reconciliation)
+    let payments: PaymentSyncResult | undefined;
+    try {
+      payments = await syncSquarePayments(
+        timeRange.startAtMin,
+        new Date().toISOString(),
+        config.square.franklinLocationId || undefined
+      );
+    } catch (error: any) {
+      console.error('[CRON RECONCILE] Payment sync error', {
+        error: error.message,
+      });
+    }
+
+    let refunds: RefundSyncResult | undefined;
+    try {
+      refunds = await syncSquareRefunds(
+        timeRange.startAtMin,
+        new Date().toISOString(),
+        config.square.franklinLocationId || undefined
+      );
+    } catch (error: any) {
+      console.error('[CRON RECONCILE] Refund sync error', {
+        error: error.message,
+      });
+    }
+
     const endTime = Date.now();
     const durationMs = endTime - startTime;
 
     console.log('[CRON RECONCILE] Reconciliation complete', {
       ...result,
+      payments,
+      refunds,
       totalDurationMs: durationMs,
     });
 
@@ -87,6 +125,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         success: true,
         data: {
           ...result,
+          payments,
+          refunds,
           totalDurationMs: durationMs,
         },
         timestamp: new Date().toISOString(),
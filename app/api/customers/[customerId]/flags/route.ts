@@ -0,0 +1,77 @@
+/**
+ * PUT /api/customers/[customerId]/flags
+ *
+ * Replace a customer's tags and preferences. The change is copied to every
+ * upcoming job for the customer; new bookings pick the flags up when they
+ * arrive.
+ *
+ * Auth: MANAGER only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type UpdateCustomerFlagsRequest,
+  type UpdateCustomerFlagsResponse,
+} from '@/lib/types';
+import { updateCustomerFlags } from '@/lib/services/customer-service';
+import { CUSTOMER_FLAG_ROLES, CustomerFlagsError } from '@/lib/workflow/customer-flags';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/customers/[customerId]/flags
+ * Request body: { tags, preferences? } (tags replaces the whole list)
+ */
+export const PUT = requireRole(
+  CUSTOMER_FLAG_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { customerId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: UpdateCustomerFlagsRequest = await request.json();
+
+      const result = await updateCustomerFlags(params.customerId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<UpdateCustomerFlagsResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof CustomerFlagsError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.errors,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[CUSTOMER FLAGS] Update error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update customer flags',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
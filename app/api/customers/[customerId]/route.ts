@@ -0,0 +1,59 @@
+/**
+ * GET /api/customers/[customerId]
+ *
+ * Customer profile: contact info (refreshed from Square), vehicles, every
+ * job with status and payment, lifetime spend, visit frequency, no-shows
+ * and open issues. Jobs come from the customerId index, never a scan.
+ *
+ * Auth: All authenticated users
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import type { ApiResponse, CustomerProfileResponse } from '@/lib/types';
+import { getCustomerProfile } from '@/lib/services/customer-service';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { customerId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const profile = await getCustomerProfile(params.customerId);
+      if (!profile) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'CUSTOMER_NOT_FOUND',
+            message: `Customer ${params.customerId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      const response: ApiResponse<CustomerProfileResponse> = {
+        success: true,
+        data: profile,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Customer Profile] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load customer',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
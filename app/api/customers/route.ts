@@ -0,0 +1,56 @@
+/**
+ * GET /api/customers?q=
+ *
+ * Customer search by email, phone number or license plate.
+ *
+ * Auth: All authenticated users
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import type { ApiResponse, CustomerSearchResponse } from '@/lib/types';
+import { findCustomers } from '@/lib/services/customer-service';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const MIN_QUERY_LENGTH = 3;
+
+export const GET = requireAuth(async (request: NextRequest): Promise<NextResponse> => {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim() || '';
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_QUERY',
+          message: `Search for at least ${MIN_QUERY_LENGTH} characters of an email, phone number or plate`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const customers = await findCustomers(query);
+
+    const response: ApiResponse<CustomerSearchResponse> = {
+      success: true,
+      data: { customers },
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[Customer Search] Error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to search customers',
+      },
+      timestamp: new Date().toISOString(),
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+});
@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getJob } from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { isTimestampOnBoardDate } from '@/lib/utils/timezone';
 
 export async function GET(request: NextRequest) {
@@ -19,7 +19,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const job = await getJob(bookingId);
+    const job = await jobRepository.getJob(bookingId);
     
     if (!job) {
       return NextResponse.json({
@@ -0,0 +1,53 @@
+/**
+ * GET /api/discounts - Fetch the discounts set up in the Square Catalog
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { listDiscounts } from '@/lib/square/catalog-api';
+import { UserRole, type ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      console.log('[API /discounts] Fetching catalog discounts');
+
+      const discounts = await listDiscounts();
+
+      console.log('[API /discounts] Success', {
+        discountCount: discounts.length,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          discounts,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 200 });
+    } catch (error: any) {
+      console.error('[API /discounts] Error', {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'DISCOUNTS_FETCH_ERROR',
+          message: error.message || 'Failed to fetch discounts',
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
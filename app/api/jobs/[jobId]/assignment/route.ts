@@ -0,0 +1,131 @@
+/**
+ * PUT /api/jobs/[jobId]/assignment
+ *
+ * Assign or reassign a job: replaces its assignees with the given users
+ * (an empty list unassigns it). When the first assignee is mapped to a
+ * Square team member, the booking's segments are updated to match.
+ * Posts a JOB_REASSIGNED notification when the assignees change.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type AssignJobRequest,
+  type AssignJobResponse,
+} from '@/lib/types';
+import { assignJob, syncAssignmentToSquare } from '@/lib/services/job-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { ASSIGN_ROLES, AssignmentError, formatAssignees, isSameAssignment } from '@/lib/workflow/assignment';
+
+export const dynamic = 'force-dynamic';
+
+export const PUT = requireRole(
+  ASSIGN_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: AssignJobRequest = await request.json();
+
+      if (!Array.isArray(body.userIds) || body.userIds.some(userId => typeof userId !== 'string')) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'userIds must be an array of user ids',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const result = await assignJob(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      const { job, previous } = result;
+      const changed = !isSameAssignment(previous, job.assignedTo);
+      const squareSynced = await syncAssignmentToSquare(job);
+
+      console.log('[JOB ASSIGNMENT] Assignees updated', {
+        jobId,
+        assignees: (job.assignedTo || []).map(assignee => assignee.userId),
+        changed,
+        squareSynced,
+        actorEmail: session.email,
+      });
+
+      if (changed) {
+        try {
+          await notificationService.notifyTeamMemberChanged(
+            job,
+            previous.length ? formatAssignees(previous) : undefined,
+            job.assignedTo?.length ? formatAssignees(job.assignedTo) : undefined,
+            'manual',
+            undefined,
+            session.sub
+          );
+        } catch (notificationError: any) {
+          // Don't fail the assignment if the notification fails
+          console.error('[NOTIFICATION ERROR]', {
+            jobId,
+            error: notificationError.message,
+          });
+        }
+      }
+
+      const response: ApiResponse<AssignJobResponse> = {
+        success: true,
+        data: { job, squareSynced },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof AssignmentError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB ASSIGNMENT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to assign job',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
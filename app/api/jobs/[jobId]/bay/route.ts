@@ -0,0 +1,103 @@
+/**
+ * PUT /api/jobs/[jobId]/bay
+ *
+ * Book a job into a bay ({ bayId }), or clear its bay ({ bayId: null }).
+ * The bay must be active and have every capability the job's service needs.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type AssignBayRequest,
+  type Job,
+} from '@/lib/types';
+import { assignBay } from '@/lib/services/job-service';
+import { BayError } from '@/lib/workflow/bays';
+
+export const dynamic = 'force-dynamic';
+
+export const PUT = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: AssignBayRequest = await request.json();
+
+      if (body.bayId !== null && typeof body.bayId !== 'string') {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'bayId must be a bay id or null',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const job = await assignBay(jobId, body.bayId, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB BAY] Bay updated', {
+        jobId,
+        bayId: job.bay?.bayId,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job }> = {
+        success: true,
+        data: { job },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof BayError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB BAY] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update bay',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,83 @@
+/**
+ * DELETE /api/jobs/[jobId]/discounts/[discountId]
+ *
+ * Take a discount back off an unpaid job and recalculate its amount due.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type Job } from '@/lib/types';
+import { removeDiscount } from '@/lib/services/job-service';
+import { DiscountError } from '@/lib/workflow/discounts';
+
+export const dynamic = 'force-dynamic';
+
+export const DELETE = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string; discountId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId, discountId } = params;
+
+    try {
+      const job = await removeDiscount(jobId, discountId, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB DISCOUNT] Discount removed', {
+        jobId,
+        discountId,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job }> = {
+        success: true,
+        data: { job },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof DiscountError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB DISCOUNT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to remove discount',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,95 @@
+/**
+ * POST /api/jobs/[jobId]/discounts
+ *
+ * Take a percent or fixed discount off an unpaid job, with a reason code
+ * ({ type, percent | amountCents, reason, note?, catalogDiscountId? }).
+ * The job's itemized price and amount due are recalculated.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type ApplyDiscountRequest,
+  type Job,
+  type JobDiscount,
+} from '@/lib/types';
+import { applyDiscount } from '@/lib/services/job-service';
+import { DiscountError } from '@/lib/workflow/discounts';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: ApplyDiscountRequest = await request.json();
+
+      const result = await applyDiscount(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB DISCOUNT] Discount applied', {
+        jobId,
+        discountId: result.discount.discountId,
+        reason: result.discount.reason,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job; discount: JobDiscount }> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof DiscountError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB DISCOUNT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to apply discount',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
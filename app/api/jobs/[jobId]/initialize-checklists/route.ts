@@ -18,7 +18,7 @@ import {
   type ChecklistItem,
 } from '@/lib/types';
 import * as checklistTemplateService from '@/lib/services/checklist-template-service';
-import * as dynamodb from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -52,7 +52,7 @@ export const POST = requireAuth(
       }
 
       // Get job
-      const job = await dynamodb.getJob(jobId);
+      const job = await jobRepository.getJob(jobId);
       if (!job) {
         const response: ApiResponse = {
           success: false,
@@ -95,16 +95,18 @@ export const POST = requireAuth(
         id: uuidv4(),
         label: item.label,
         checked: false,
+        isRequired: item.isRequired,
       }));
 
       const qcChecklist: ChecklistItem[] = qcTemplateItems.map((item) => ({
         id: uuidv4(),
         label: item.label,
         checked: false,
+        isRequired: item.isRequired,
       }));
 
       // Update job with checklists
-      const updatedJob = await dynamodb.updateJob(jobId, {
+      const updatedJob = await jobRepository.updateJob(jobId, {
         checklist: {
           tech: techChecklist,
           qc: qcChecklist,
@@ -0,0 +1,86 @@
+/**
+ * POST /api/jobs/[jobId]/inspection/complete
+ *
+ * Sign off the check-in inspection. Fails with 400 INSPECTION_INCOMPLETE
+ * (details.missingAngles) until every required angle has a photo.
+ *
+ * Auth: TECH or MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type InspectionResponse } from '@/lib/types';
+import { completeCheckinInspection } from '@/lib/services/job-service';
+import { InspectionError } from '@/lib/workflow/inspection';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.TECH, UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const job = await completeCheckinInspection(params.jobId, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${params.jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[INSPECTION] Completed', {
+        jobId: params.jobId,
+        damagePins: job.checkinInspection?.damagePins.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<InspectionResponse> = {
+        success: true,
+        data: {
+          inspection: job.checkinInspection!,
+          missingAngles: [],
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof InspectionError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { missingAngles: error.missingAngles },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[INSPECTION] Complete error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to complete inspection',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
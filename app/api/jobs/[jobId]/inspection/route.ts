@@ -0,0 +1,162 @@
+/**
+ * GET/PUT /api/jobs/[jobId]/inspection
+ *
+ * Check-in inspection: walk-around photos (uploaded through the photo
+ * presign/commit routes with an `angle`) and pins for pre-existing damage.
+ * Completing it (POST ./complete) is required before work can start.
+ *
+ * Auth: GET all authenticated users, PUT TECH or MANAGER
+ * (locked for TECH once the job is past CHECKED_IN)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type InspectionResponse,
+  type UpdateInspectionRequest,
+} from '@/lib/types';
+import { jobRepository } from '@/lib/repositories';
+import { updateCheckinInspection } from '@/lib/services/job-service';
+import {
+  createEmptyInspection,
+  getMissingInspectionAngles,
+  InspectionError,
+} from '@/lib/workflow/inspection';
+
+export const dynamic = 'force-dynamic';
+
+function jobNotFoundResponse(jobId: string): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'JOB_NOT_FOUND',
+      message: `Job ${jobId} not found`,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+/**
+ * GET /api/jobs/[jobId]/inspection
+ */
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const job = await jobRepository.getJob(params.jobId);
+      if (!job) {
+        return jobNotFoundResponse(params.jobId);
+      }
+
+      const response: ApiResponse<InspectionResponse> = {
+        success: true,
+        data: {
+          inspection: job.checkinInspection || createEmptyInspection(),
+          missingAngles: getMissingInspectionAngles(job),
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[INSPECTION] Get error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get inspection',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PUT /api/jobs/[jobId]/inspection
+ * Request body: { damagePins?, notes? } (damagePins replaces the whole list)
+ */
+export const PUT = requireRole(
+  [UserRole.TECH, UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: UpdateInspectionRequest = await request.json();
+
+      const invalidPin = (body.damagePins || []).find(pin =>
+        typeof pin.x !== 'number' || typeof pin.y !== 'number' || typeof pin.note !== 'string'
+      );
+      if (body.damagePins !== undefined && (!Array.isArray(body.damagePins) || invalidPin)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'damagePins must be an array of { x, y, note }',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const job = await updateCheckinInspection(params.jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        return jobNotFoundResponse(params.jobId);
+      }
+
+      console.log('[INSPECTION] Updated', {
+        jobId: params.jobId,
+        damagePins: job.checkinInspection?.damagePins.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<InspectionResponse> = {
+        success: true,
+        data: {
+          inspection: job.checkinInspection!,
+          missingAngles: getMissingInspectionAngles(job),
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof InspectionError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[INSPECTION] Update error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update inspection',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
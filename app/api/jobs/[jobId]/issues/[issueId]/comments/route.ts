@@ -0,0 +1,92 @@
+/**
+ * POST /api/jobs/[jobId]/issues/[issueId]/comments
+ *
+ * Comment on an issue, or reply to one of its comments (parentCommentId).
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type AddIssueCommentRequest,
+  type ApiResponse,
+  type JobIssueResponse,
+} from '@/lib/types';
+import { addIssueComment } from '@/lib/services/job-service';
+import { ISSUE_ROLES, IssueError } from '@/lib/workflow/issues';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  ISSUE_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string; issueId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId, issueId } = params;
+
+    try {
+      const body: AddIssueCommentRequest = await request.json();
+
+      const result = await addIssueComment(jobId, issueId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB ISSUES] Comment added', {
+        jobId,
+        issueId,
+        comments: result.issue.comments.length,
+        isReply: !!body.parentCommentId,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<JobIssueResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof IssueError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB ISSUES] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to add comment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,120 @@
+/**
+ * POST /api/jobs/[jobId]/issues/[issueId]/redo
+ *
+ * Schedule a redo from a DAMAGE, REDO or CUSTOMER_COMPLAINT issue: creates a
+ * zero-priced follow-up job for the same customer and vehicle with the
+ * failed QC items as its checklists (optionally booked in Square too) and
+ * links it to the original job and issue. Posts a JOB_CREATED notification.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type ScheduleRedoRequest,
+  type ScheduleRedoResponse,
+} from '@/lib/types';
+import { scheduleRedo } from '@/lib/services/job-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { ISSUE_ROLES, IssueError } from '@/lib/workflow/issues';
+import { RedoError } from '@/lib/workflow/redo';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  ISSUE_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string; issueId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId, issueId } = params;
+
+    try {
+      const body: ScheduleRedoRequest = await request.json();
+
+      if (body.failedItemIds !== undefined && !Array.isArray(body.failedItemIds)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'failedItemIds must be an array of ids',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const result = await scheduleRedo(jobId, issueId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB REDO] Redo scheduled', {
+        jobId,
+        issueId,
+        redoJobId: result.redoJob.jobId,
+        bookingId: result.redoJob.bookingId,
+        appointmentTime: result.redoJob.appointmentTime,
+        actorEmail: session.email,
+      });
+
+      try {
+        await notificationService.notifyJobCreated(result.redoJob, 'phone', undefined, session.email);
+      } catch (notificationError: any) {
+        // Don't fail the redo if the notification fails
+        console.error('[NOTIFICATION ERROR]', {
+          jobId: result.redoJob.jobId,
+          error: notificationError.message,
+        });
+      }
+
+      const response: ApiResponse<ScheduleRedoResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof RedoError || error instanceof IssueError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB REDO] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to schedule redo',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,107 @@
+/**
+ * PATCH /api/jobs/[jobId]/issues/[issueId]
+ *
+ * Work an issue: change its status (resolving needs an outcome; reopening
+ * clears it), assignee, photos or resolution notes. Omitted fields are kept.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type JobIssueResponse,
+  type UpdateIssueRequest,
+} from '@/lib/types';
+import { updateIssue } from '@/lib/services/job-service';
+import { ISSUE_ROLES, IssueError } from '@/lib/workflow/issues';
+
+export const dynamic = 'force-dynamic';
+
+export const PATCH = requireRole(
+  ISSUE_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string; issueId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId, issueId } = params;
+
+    try {
+      const body: UpdateIssueRequest = await request.json();
+
+      if (body.photoIds !== undefined && !Array.isArray(body.photoIds)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'photoIds must be an array of ids',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const result = await updateIssue(jobId, issueId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB ISSUES] Issue updated', {
+        jobId,
+        issueId,
+        status: result.issue.status,
+        outcome: result.issue.outcome,
+        assignee: result.issue.assignee?.userId,
+        openIssueCount: result.job.openIssueCount,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<JobIssueResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof IssueError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB ISSUES] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update issue',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,107 @@
+/**
+ * POST /api/jobs/[jobId]/issues
+ *
+ * Raise a post-completion issue on a completed job. A job can have any
+ * number of issues; each is then worked through its own route. Photos are
+ * committed first through the photo routes with category 'issue'.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type JobIssueResponse,
+  type OpenIssueRequest,
+} from '@/lib/types';
+import { openIssue } from '@/lib/services/job-service';
+import { ISSUE_ROLES, IssueError } from '@/lib/workflow/issues';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  ISSUE_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: OpenIssueRequest = await request.json();
+
+      if (body.photoIds !== undefined && !Array.isArray(body.photoIds)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'photoIds must be an array of ids',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const result = await openIssue(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB ISSUES] Issue opened', {
+        jobId,
+        issueId: result.issue.issueId,
+        type: result.issue.type,
+        assignee: result.issue.assignee?.userId,
+        openIssueCount: result.job.openIssueCount,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<JobIssueResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof IssueError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB ISSUES] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to open issue',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,124 @@
+/**
+ * POST /api/jobs/[jobId]/no-show/charge
+ *
+ * Charge a recorded no-show's fee (from the shop's no-show policy) to the
+ * customer's card on file. Works from SCHEDULED and, to retry a failed
+ * charge, NO_SHOW_FAILED; a charge left in NO_SHOW_PENDING_CHARGE (cut off
+ * mid-charge) is resumed without charging twice. A decline is not an error:
+ * the job comes back in NO_SHOW_FAILED with the reason on the attempt. When
+ * Square doesn't answer, the attempt comes back PENDING (job still in
+ * NO_SHOW_PENDING_CHARGE) and charging again resends it.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type ChargeNoShowResponse,
+} from '@/lib/types';
+import { chargeNoShowFee } from '@/lib/services/job-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { StatusTransitionError } from '@/lib/workflow/status-transitions';
+import { NoShowChargeError } from '@/lib/workflow/no-show';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const result = await chargeNoShowFee(jobId, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      const { job, attempt, previousStatus } = result;
+
+      try {
+        await notificationService.notifyJobStatusChanged(
+          job,
+          previousStatus,
+          job.status,
+          session.sub,
+          session.email
+        );
+      } catch (notificationError: any) {
+        // Don't fail the charge if the notification fails
+        console.error('[NOTIFICATION ERROR]', {
+          jobId,
+          error: notificationError.message,
+        });
+      }
+
+      const response: ApiResponse<ChargeNoShowResponse> = {
+        success: true,
+        data: { job, attempt },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof StatusTransitionError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_STATUS_TRANSITION',
+            message: error.message,
+            details: {
+              from: error.check.from,
+              to: error.check.to,
+              rejections: error.check.rejections,
+            },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      if (error instanceof NoShowChargeError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[NO-SHOW CHARGE] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to charge no-show fee',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,86 @@
+/**
+ * POST /api/jobs/[jobId]/payments/[entryId]/void
+ *
+ * Void a payment taken in error, e.g. a bounced check ({ reason }). The
+ * entry stays on the ledger but no longer counts toward the amount due.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type Job, type VoidPaymentRequest } from '@/lib/types';
+import { voidPaymentEntry } from '@/lib/services/job-service';
+import { PaymentLedgerError } from '@/lib/workflow/payment-ledger';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string; entryId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId, entryId } = params;
+
+    try {
+      const body: VoidPaymentRequest = await request.json();
+
+      const job = await voidPaymentEntry(jobId, entryId, body.reason, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB PAYMENT] Payment voided', {
+        jobId,
+        entryId,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job }> = {
+        success: true,
+        data: { job },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof PaymentLedgerError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB PAYMENT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to void payment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
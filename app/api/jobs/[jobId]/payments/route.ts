@@ -0,0 +1,96 @@
+/**
+ * POST /api/jobs/[jobId]/payments
+ *
+ * Record a payment toward a job on its payment ledger
+ * ({ method, amountCents, tipCents?, reference?, receiptPhotos }).
+ * Receipt photos are uploaded first through /receipts/presign. The job is
+ * PAID once its payments cover the amount due.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type Job,
+  type PaymentEntry,
+  type RecordPaymentRequest,
+} from '@/lib/types';
+import { recordPayment } from '@/lib/services/job-service';
+import { PaymentLedgerError } from '@/lib/workflow/payment-ledger';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: RecordPaymentRequest = await request.json();
+
+      const result = await recordPayment(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB PAYMENT] Payment recorded', {
+        jobId,
+        entryId: result.entry.entryId,
+        amountCents: result.entry.amountCents,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job; entry: PaymentEntry }> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof PaymentLedgerError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB PAYMENT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to record payment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
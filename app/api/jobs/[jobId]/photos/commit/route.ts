@@ -4,6 +4,7 @@
  * POST /api/jobs/[jobId]/photos/commit
  * 
  * Commit uploaded photos to job record after successful S3 upload.
+ * Photos sent with an `angle` also fill that check-in inspection slot.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,6 +12,7 @@ import type { ApiResponse, CommitPhotosRequest } from '@/lib/types';
 import { requireAuth } from '@/lib/auth/requireAuth';
 import { commitPhotosToJob } from '@/lib/services/job-service';
 import { UserRole } from '@/lib/types';
+import { CHECKIN_REQUIRED_ANGLES } from '@/lib/workflow/inspection';
 
 export const dynamic = 'force-dynamic';
 
@@ -65,6 +67,20 @@ export const POST = requireAuth(async (
       }
     }
 
+    // Inspection photos must fill one of the walk-around slots
+    const invalidAngle = body.photos.find(photo => photo.angle && !CHECKIN_REQUIRED_ANGLES.includes(photo.angle));
+    if (invalidAngle) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_PHOTO_DATA',
+          message: `Invalid inspection angle: ${invalidAngle.angle}. Allowed: ${CHECKIN_REQUIRED_ANGLES.join(', ')}`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
     // Commit photos to job
     const updatedJob = await commitPhotosToJob(jobId, body.photos, {
       userId: session.sub,
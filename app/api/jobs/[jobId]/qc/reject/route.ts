@@ -0,0 +1,120 @@
+/**
+ * POST /api/jobs/[jobId]/qc/reject
+ *
+ * Fail QC: sends a QC_READY job back to IN_PROGRESS with a required reason,
+ * the failed QC checklist items and optional photos (committed first through
+ * the photo routes with category 'qc'). Notifies the tech.
+ *
+ * Auth: QC or MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type RejectQcRequest,
+  type RejectQcResponse,
+} from '@/lib/types';
+import { rejectQc } from '@/lib/services/job-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { QC_REJECT_ROLES, QcRejectError } from '@/lib/workflow/qc-reject';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  QC_REJECT_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: RejectQcRequest = await request.json();
+
+      if (!Array.isArray(body.failedItemIds) || (body.photoIds !== undefined && !Array.isArray(body.photoIds))) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'failedItemIds (and photoIds, if sent) must be arrays of ids',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const job = await rejectQc(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      const rejection = job.qcRejections![job.qcRejections!.length - 1];
+
+      console.log('[QC REJECT] Job sent back for rework', {
+        jobId,
+        rejectionId: rejection.rejectionId,
+        failedItems: rejection.failedItems.length,
+        techs: rejection.techs.map(tech => tech.userId),
+        rejectCount: job.qcRejectCount,
+        actorEmail: session.email,
+      });
+
+      try {
+        await notificationService.notifyQcRejected(job, rejection, session.sub, session.email);
+      } catch (notificationError: any) {
+        // Don't fail the reject if the notification fails
+        console.error('[NOTIFICATION ERROR]', {
+          jobId,
+          error: notificationError.message,
+        });
+      }
+
+      const response: ApiResponse<RejectQcResponse> = {
+        success: true,
+        data: { job, rejection },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof QcRejectError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[QC REJECT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to reject QC',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -3,14 +3,17 @@
  * 
  * POST /api/jobs/[jobId]/receipts/commit
  * 
- * Commit uploaded receipt photos to job record after successful S3 upload (MANAGER only).
+ * Attach uploaded receipt photos to a payment ledger entry after successful S3 upload (MANAGER only).
+ * New payments bring their receipts with them (POST /api/jobs/[jobId]/payments);
+ * this adds more to an entry already recorded.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import type { ApiResponse, CommitReceiptsRequest } from '@/lib/types';
 import { requireAuth } from '@/lib/auth/requireAuth';
-import { commitReceiptsToJob } from '@/lib/services/job-service';
+import { commitReceiptsToPaymentEntry } from '@/lib/services/job-service';
 import { UserRole } from '@/lib/types';
+import { PaymentLedgerError } from '@/lib/workflow/payment-ledger';
 
 export const dynamic = 'force-dynamic';
 
@@ -38,6 +41,18 @@ export const POST = requireAuth(async (
 
     const body: CommitReceiptsRequest = await request.json();
 
+    if (!body.entryId || typeof body.entryId !== 'string') {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'entryId (the payment the receipts are for) is required',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
     if (!body.photos || !Array.isArray(body.photos) || body.photos.length === 0) {
       const response: ApiResponse = {
         success: false,
@@ -79,8 +94,8 @@ export const POST = requireAuth(async (
       return NextResponse.json(response, { status: 403 });
     }
 
-    // Commit receipts to job
-    const updatedJob = await commitReceiptsToJob(jobId, body.photos, {
+    // Commit receipts to the payment entry
+    const updatedJob = await commitReceiptsToPaymentEntry(jobId, body.entryId, body.photos, {
       userId: session.sub,
       name: session.name,
       role: session.role as UserRole,
@@ -106,6 +121,18 @@ export const POST = requireAuth(async (
 
     return NextResponse.json(response, { status: 200 });
   } catch (error: any) {
+    if (error instanceof PaymentLedgerError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: error.httpStatus });
+    }
+
     console.error('[RECEIPT COMMIT ERROR]', {
       error: error.message,
       stack: error.stack,
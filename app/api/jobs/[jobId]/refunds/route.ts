@@ -0,0 +1,99 @@
+/**
+ * POST /api/jobs/[jobId]/refunds
+ *
+ * Refund all or part of a payment on the job's ledger
+ * ({ paymentEntryId, amountCents, reason, issueId? }). Square payments are
+ * refunded through Square; a refusal is not an error: the refund comes back
+ * FAILED with the reason. When Square doesn't answer the refund comes back
+ * PENDING, and the reconciler (or the same request again) resends it.
+ * Other payments are recorded as handed back.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type CreateRefundRequest,
+  type Job,
+  type RefundEntry,
+} from '@/lib/types';
+import { refundPayment } from '@/lib/services/job-service';
+import { PaymentLedgerError } from '@/lib/workflow/payment-ledger';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    const { jobId } = params;
+
+    try {
+      const body: CreateRefundRequest = await request.json();
+
+      const result = await refundPayment(jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!result) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: `Job ${jobId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      console.log('[JOB REFUND] Refund requested', {
+        jobId,
+        refundId: result.refund.refundId,
+        amountCents: result.refund.amountCents,
+        status: result.refund.status,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ job: Job; refund: RefundEntry }> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+      if (error instanceof PaymentLedgerError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[JOB REFUND] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to refund payment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -6,19 +6,66 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { ApiResponse, UpdateJobRequest } from '@/lib/types';
+import type { ApiResponse, JobAddon, UpdateJobRequest } from '@/lib/types';
 import { WorkStatus, UserRole, PaymentStatus, ChecklistType } from '@/lib/types';
-import { getJobWithPhotos, calculateBookingAmount } from '@/lib/services/job-service';
+import { getJobWithPhotos } from '@/lib/services/job-service';
+import { priceBooking } from '@/lib/services/pricing-service';
 import { requireAuth } from '@/lib/auth/requireAuth';
 import { updateJobWithAudit } from '@/lib/services/job-service';
-import * as dynamodb from '@/lib/aws/dynamodb';
-import { listServices } from '@/lib/square/catalog-api';
+import { jobRepository, VersionConflictError } from '@/lib/repositories';
+import { listAddons, listServices, toJobAddon } from '@/lib/square/catalog-api';
 import { retrieveBooking, updateBooking } from '@/lib/square/bookings-api';
 import * as notificationService from '@/lib/services/notification-service';
+import {
+  applyChecklistOverride,
+  checkTransition,
+  isCardChargeTransition,
+  StatusTransitionError,
+} from '@/lib/workflow/status-transitions';
+import { NoShowChargeError } from '@/lib/workflow/no-show';
+import { getJobStage } from '@/lib/workflow/pipelines';
+import { getWorkflowStages } from '@/lib/services/workflow-service';
+import { validateVin } from '@/lib/utils/vin';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
+/**
+ * 409 response for a stale expectedVersion; the client should refetch and re-apply
+ */
+function versionConflictResponse(jobId: string, currentVersion: number): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'VERSION_CONFLICT',
+      message: `Job ${jobId} was changed by someone else. Refresh and try again.`,
+      details: { currentVersion },
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 409 });
+}
+
+/**
+ * 400 (403 for role-only rejections) with every reason the status change was refused
+ */
+function statusTransitionResponse(error: StatusTransitionError): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'INVALID_STATUS_TRANSITION',
+      message: error.message,
+      details: {
+        from: error.check.from,
+        to: error.check.to,
+        rejections: error.check.rejections,
+      },
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: error.httpStatus });
+}
+
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ jobId: string }> | { jobId: string } }
@@ -87,10 +134,16 @@ export async function GET(
  * 
  * Update job with audit trail
  * Supports partial updates for:
- * - workStatus
+ * - workStatus / stageId (must follow the service's pipeline, see lib/workflow/status-transitions,
+ *   else 400/403 INVALID_STATUS_TRANSITION; stageId is needed for custom stages)
+ * - checklistOverride { reason } (MANAGER: advance past unchecked required checklist items, audited)
  * - checklist (tech/qc)
  * - notes
- * - vehicleInfo
+ * - vehicleInfo (a VIN must pass its check digit, else 400 INVALID_VIN; make is
+ *   normalized and blank make/year are filled in from the VIN)
+ * 
+ * Send `expectedVersion` (the job's `version` when it was loaded) to get a
+ * 409 VERSION_CONFLICT instead of overwriting someone else's change.
  */
 export const PATCH = requireAuth(async (
   request: NextRequest,
@@ -116,6 +169,10 @@ export const PATCH = requireAuth(async (
 
     const body: UpdateJobRequest = await request.json();
 
+    // Add-ons and price breakdowns are only ever set here, never taken from clients
+    delete body.addons;
+    delete body.priceBreakdown;
+
     // Validate workStatus if provided
     if (body.workStatus) {
       const validStatuses = Object.values(WorkStatus);
@@ -132,6 +189,34 @@ export const PATCH = requireAuth(async (
       }
     }
 
+    // Validate checklist override (the role is checked with the transition)
+    if (body.checklistOverride !== undefined &&
+        (typeof body.checklistOverride?.reason !== 'string' || !body.checklistOverride.reason.trim())) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'checklistOverride requires a reason',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    // Validate VIN if provided (check digit catches most typos)
+    const vinError = body.vehicleInfo?.vin ? validateVin(body.vehicleInfo.vin) : undefined;
+    if (vinError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_VIN',
+          message: vinError,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
     // Validate checklist role permissions
     if (body.checklist) {
       const userRole = session.role as UserRole;
@@ -162,7 +247,7 @@ export const PATCH = requireAuth(async (
     }
 
     // Get current job to check for backward movement and issue operations
-    const currentJob = await dynamodb.getJob(jobId);
+    const currentJob = await jobRepository.getJob(jobId);
     
     if (!currentJob) {
       const response: ApiResponse = {
@@ -189,89 +274,47 @@ export const PATCH = requireAuth(async (
       return NextResponse.json(response, { status: 409 });
     }
 
-    // RULE: WORK_COMPLETED is irreversible - cannot move backward
-    if (body.workStatus && currentJob.status === WorkStatus.WORK_COMPLETED && body.workStatus !== WorkStatus.WORK_COMPLETED) {
-      const response: ApiResponse = {
-        success: false,
-        error: {
-          code: 'INVALID_STATUS_TRANSITION',
-          message: 'Completed jobs cannot be moved backward. Use post-completion issue tracking instead.',
-        },
-        timestamp: new Date().toISOString(),
-      };
-      return NextResponse.json(response, { status: 400 });
+    // RULE: Reject stale writes before any side effects (e.g. Square add-on sync)
+    if (body.expectedVersion !== undefined && body.expectedVersion !== (currentJob.version ?? 0)) {
+      return versionConflictResponse(jobId, currentJob.version ?? 0);
     }
 
-    // Validate post-completion issue operations
-    if (body.openPostCompletionIssue || body.resolvePostCompletionIssue) {
-      const userRole = session.role as UserRole;
-      
-      // Only MANAGER can open/resolve issues
-      if (userRole !== UserRole.MANAGER) {
-        const response: ApiResponse = {
-          success: false,
-          error: {
-            code: 'FORBIDDEN',
-            message: 'Only MANAGER can open or resolve post-completion issues',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        return NextResponse.json(response, { status: 403 });
-      }
-
-      // Can only open/resolve issues on WORK_COMPLETED jobs
-      if (currentJob.status !== WorkStatus.WORK_COMPLETED) {
-        const response: ApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_OPERATION',
-            message: 'Post-completion issues can only be managed on completed jobs',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        return NextResponse.json(response, { status: 400 });
-      }
+    // RULE: Status changes must follow the service's pipeline (role + prerequisites),
+    // checked before any side effects. Prerequisites see checklist changes sent alongside.
+    if (body.stageId !== undefined || (body.workStatus && body.workStatus !== currentJob.status)) {
+      const stages = await getWorkflowStages(currentJob.serviceType);
+      const target = (body.stageId ?? body.workStatus) as string;
+
+      if (target !== getJobStage(currentJob, stages)?.id) {
+        let check = checkTransition(
+          { ...currentJob, checklist: { ...currentJob.checklist, ...body.checklist } },
+          target,
+          session.role as UserRole,
+          stages
+        );
 
-      // Cannot open issue if one is already open
-      if (body.openPostCompletionIssue && currentJob.postCompletionIssue?.isOpen) {
-        const response: ApiResponse = {
-          success: false,
-          error: {
-            code: 'ISSUE_ALREADY_OPEN',
-            message: 'An issue is already open for this job',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        return NextResponse.json(response, { status: 400 });
-      }
+        if (body.checklistOverride) {
+          check = applyChecklistOverride(check, session.role as UserRole, body.checklistOverride.reason);
+        }
 
-      // Cannot resolve issue if none is open
-      if (body.resolvePostCompletionIssue && !currentJob.postCompletionIssue?.isOpen) {
-        const response: ApiResponse = {
-          success: false,
-          error: {
-            code: 'NO_OPEN_ISSUE',
-            message: 'No open issue to resolve',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        return NextResponse.json(response, { status: 400 });
-      }
+        if (!check.allowed) {
+          return statusTransitionResponse(new StatusTransitionError(check));
+        }
 
-      // Validate issue type if opening
-      if (body.openPostCompletionIssue) {
-        const validTypes = ['QC_MISS', 'CUSTOMER_COMPLAINT', 'DAMAGE', 'REDO', 'OTHER'];
-        if (!validTypes.includes(body.openPostCompletionIssue.type)) {
+        if (isCardChargeTransition(check)) {
           const response: ApiResponse = {
             success: false,
             error: {
-              code: 'INVALID_ISSUE_TYPE',
-              message: `Invalid issue type. Must be one of: ${validTypes.join(', ')}`,
+              code: 'USE_CHARGE_ACTION',
+              message: 'Charge the no-show fee with POST /api/jobs/{jobId}/no-show/charge so the card is actually billed.',
             },
             timestamp: new Date().toISOString(),
           };
           return NextResponse.json(response, { status: 400 });
         }
+
+        // The stage decides the status (custom stages reuse a built-in one)
+        body.workStatus = check.to;
       }
     }
 
@@ -292,19 +335,18 @@ export const PATCH = requireAuth(async (
         return NextResponse.json(response, { status: 403 });
       }
 
-      // If marking as PAID, require at least one receipt photo
-      if (body.payment.status === 'PAID') {
-        if (!currentJob.receiptPhotos || currentJob.receiptPhotos.length === 0) {
-          const response: ApiResponse = {
-            success: false,
-            error: {
-              code: 'RECEIPT_REQUIRED',
-              message: 'At least one receipt photo is required to mark payment as PAID',
-            },
-            timestamp: new Date().toISOString(),
-          };
-          return NextResponse.json(response, { status: 400 });
-        }
+      // PAID is derived from the payment ledger (POST /api/jobs/[jobId]/payments);
+      // paid jobs still send PAID with an amount edit
+      if (body.payment.status === 'PAID' && currentJob.payment?.status !== PaymentStatus.PAID) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'PAYMENT_ENTRY_REQUIRED',
+            message: 'Record a payment instead; jobs are PAID once their payments cover the amount due',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
       }
 
       // If marking as UNPAID, require a reason
@@ -387,11 +429,32 @@ export const PATCH = requireAuth(async (
     }
 
     // Handle add-ons update
-    if (body.addonNames !== undefined) {
+    if (body.addonVariationIds !== undefined) {
       console.log('[JOB UPDATE] Updating add-ons', {
         jobId,
-        addonNames: body.addonNames,
+        addonVariationIds: body.addonVariationIds,
       });
+
+      // Add-ons already on the job keep the quantity and price they were booked at
+      const catalogAddons = await listAddons();
+      const addons: JobAddon[] = [];
+      for (const variationId of body.addonVariationIds) {
+        const existing = currentJob.addons?.find(addon => addon.catalogObjectId === variationId);
+        const catalogAddon = catalogAddons.find(addon => addon.id === variationId);
+        if (!existing && !catalogAddon) {
+          const response: ApiResponse = {
+            success: false,
+            error: {
+              code: 'INVALID_ADDONS',
+              message: `Invalid add-on variation ID: ${variationId}`,
+            },
+            timestamp: new Date().toISOString(),
+          };
+          return NextResponse.json(response, { status: 400 });
+        }
+        addons.push(existing ?? toJobAddon(catalogAddon!));
+      }
+      body.addons = addons;
       
       // Parse existing notes to preserve non-addon content
       let baseNotes = currentJob.notes || '';
@@ -401,8 +464,8 @@ export const PATCH = requireAuth(async (
       baseNotes = baseNotes.trim();
       
       // Add new add-ons section if any selected
-      if (body.addonNames.length > 0) {
-        const addonsSection = `\n\n✅ ADD-ONS REQUESTED:\n${body.addonNames.map((name: string) => `• ${name}`).join('\n')}\n\n⚠️ Add-ons charged separately`;
+      if (addons.length > 0) {
+        const addonsSection = `\n\n✅ ADD-ONS REQUESTED:\n${addons.map(addon => `• ${addon.name}`).join('\n')}\n\n⚠️ Add-ons charged separately`;
         baseNotes = (baseNotes + addonsSection).trim();
       }
       
@@ -428,18 +491,24 @@ export const PATCH = requireAuth(async (
           const matchingService = services.find(s => s.name === currentJob.serviceType);
           
           if (matchingService) {
-            const amountCents = await calculateBookingAmount(matchingService.id, baseNotes);
+            const priceBreakdown = await priceBooking({
+              serviceVariationId: matchingService.id,
+              addons,
+              discounts: currentJob.discounts,
+              locationId: currentJob.priceBreakdown?.locationId,
+            });
             
-            if (amountCents) {
+            if (priceBreakdown) {
               body.payment = {
                 status: PaymentStatus.UNPAID,
-                amountCents,
+                amountCents: priceBreakdown.totalCents,
               };
+              body.priceBreakdown = priceBreakdown;
               
               console.log('[JOB UPDATE] Payment recalculated', {
                 jobId,
-                amountCents,
-                amountDollars: (amountCents / 100).toFixed(2),
+                amountCents: priceBreakdown.totalCents,
+                amountDollars: (priceBreakdown.totalCents / 100).toFixed(2),
               });
             } else {
               console.warn('[JOB UPDATE] Payment recalculation returned undefined', {
@@ -549,11 +618,13 @@ export const PATCH = requireAuth(async (
             id: uuidv4(),
             label: item.label,
             checked: false,
+            isRequired: item.isRequired,
           }));
           const qcChecklist = qcTemplateItems.map((item) => ({
             id: uuidv4(),
             label: item.label,
             checked: false,
+            isRequired: item.isRequired,
           }));
           
           // Add checklists to the update body
@@ -630,16 +701,17 @@ export const PATCH = requireAuth(async (
       }
 
       // Add-ons update notification
-      if (body.addonNames && body.addonNames.length > 0) {
+      if (body.addons && body.addons.length > 0) {
+        const addonNames = body.addons.map(addon => addon.name);
         await notificationService.notifyAddonsUpdated(
           updatedJob,
-          body.addonNames,
+          addonNames,
           session.sub,
           session.email
         );
         console.log('[NOTIFICATION] Add-ons update notification sent', {
           jobId,
-          addons: body.addonNames,
+          addons: addonNames,
           actorEmail: session.email,
         });
       }
@@ -660,6 +732,32 @@ export const PATCH = requireAuth(async (
 
     return NextResponse.json(response, { status: 200 });
   } catch (error: any) {
+    if (error instanceof VersionConflictError) {
+      console.log('[JOB PATCH] Version conflict', {
+        jobId: error.jobId,
+        expectedVersion: error.expectedVersion,
+        currentVersion: error.currentVersion,
+      });
+      return versionConflictResponse(error.jobId, error.currentVersion ?? 0);
+    }
+
+    if (error instanceof StatusTransitionError) {
+      return statusTransitionResponse(error);
+    }
+
+    // Moving into NO_SHOW_PENDING_CHARGE has to go through the charge action
+    if (error instanceof NoShowChargeError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: error.httpStatus });
+    }
+
     console.error('[JOB PATCH ERROR]', {
       error: error.message,
       stack: error.stack,
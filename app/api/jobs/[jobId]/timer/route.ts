@@ -0,0 +1,150 @@
+/**
+ * GET/POST /api/jobs/[jobId]/timer
+ *
+ * Work timer: starts when the job enters IN_PROGRESS and stops when it
+ * leaves (see updateJobWithAudit). Techs pause it for breaks or while
+ * waiting on the customer; labor minutes are credited per tech.
+ *
+ * Auth: GET all authenticated users, POST TECH or MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type UpdateWorkTimerRequest,
+  type WorkTimerResponse,
+} from '@/lib/types';
+import { jobRepository } from '@/lib/repositories';
+import { updateWorkTimer } from '@/lib/services/job-service';
+import { getJobLabor } from '@/lib/services/labor-service';
+import { WorkTimerError } from '@/lib/workflow/work-timer';
+
+export const dynamic = 'force-dynamic';
+
+function jobNotFoundResponse(jobId: string): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'JOB_NOT_FOUND',
+      message: `Job ${jobId} not found`,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+/**
+ * GET /api/jobs/[jobId]/timer
+ */
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const job = await jobRepository.getJob(params.jobId);
+      if (!job) {
+        return jobNotFoundResponse(params.jobId);
+      }
+
+      const response: ApiResponse<WorkTimerResponse> = {
+        success: true,
+        data: getJobLabor(job),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[WORK TIMER] Get error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get work timer',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * POST /api/jobs/[jobId]/timer
+ * Request body: { action: 'pause' | 'resume', reason? }
+ */
+export const POST = requireRole(
+  [UserRole.TECH, UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { jobId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: UpdateWorkTimerRequest = await request.json();
+
+      if (body.action !== 'pause' && body.action !== 'resume') {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: "action must be 'pause' or 'resume'",
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const job = await updateWorkTimer(params.jobId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      if (!job) {
+        return jobNotFoundResponse(params.jobId);
+      }
+
+      console.log('[WORK TIMER] Updated', {
+        jobId: params.jobId,
+        action: body.action,
+        laborMinutes: job.workTimer?.laborMinutes,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<WorkTimerResponse> = {
+        success: true,
+        data: getJobLabor(job),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof WorkTimerError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[WORK TIMER] Update error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update work timer',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
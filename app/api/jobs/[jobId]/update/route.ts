@@ -3,21 +3,28 @@
  * 
  * PATCH /api/jobs/[jobId]/update
  * 
- * Update job details (status, vehicle info, notes, etc.).
+ * Update job details (vehicle info, notes, etc.). Status and stage changes
+ * are refused here (400 USE_JOB_PATCH): they go through PATCH
+ * /api/jobs/[jobId], which enforces roles and prerequisites.
+ *
+ * Auth: any signed-in user
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import type { ApiResponse, WorkStatus } from '@/lib/types';
-import { updateJobStatus, updateJobVehicle } from '@/lib/services/job-service';
-import { updateJob } from '@/lib/aws/dynamodb';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { updateJobVehicle } from '@/lib/services/job-service';
+import { jobRepository } from '@/lib/repositories';
+import { validateVin } from '@/lib/utils/vin';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function PATCH(
+export const PATCH = requireAuth(async (
   request: NextRequest,
+  session,
   { params }: { params: { jobId: string } }
-): Promise<NextResponse> {
+): Promise<NextResponse> => {
   try {
     const jobId = params.jobId;
 
@@ -33,13 +40,25 @@ export async function PATCH(
       return NextResponse.json(response, { status: 400 });
     }
 
-    const body = await request.json();
-    const updates = body;
-    const updatedBy = body.updatedBy || 'staff';
+    const updates = await request.json();
+    // The session says who made the change, never the client
+    delete updates.updatedBy;
+    const updatedBy = session.name;
+
+    if (updates.status !== undefined || updates.workStatus !== undefined || updates.stageId !== undefined) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'USE_JOB_PATCH',
+          message: `Change a job's status with PATCH /api/jobs/${jobId} (workStatus or stageId).`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
 
     // Check if job is cancelled before allowing updates
-    const { getJob } = await import('@/lib/aws/dynamodb');
-    const currentJob = await getJob(jobId);
+    const currentJob = await jobRepository.getJob(jobId);
     
     if (currentJob && currentJob.status === 'CANCELLED' as WorkStatus) {
       const response: ApiResponse = {
@@ -56,15 +75,25 @@ export async function PATCH(
     // Handle different types of updates
     let updatedJob;
 
-    if (updates.status) {
-      // Update status
-      updatedJob = await updateJobStatus(jobId, updates.status as WorkStatus, updatedBy);
-    } else if (updates.vehicleInfo) {
+    if (updates.vehicleInfo) {
+      const vinError = updates.vehicleInfo.vin ? validateVin(updates.vehicleInfo.vin) : undefined;
+      if (vinError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_VIN',
+            message: vinError,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
       // Update vehicle info
       updatedJob = await updateJobVehicle(jobId, updates.vehicleInfo, updatedBy);
     } else {
       // Generic update
-      updatedJob = await updateJob(jobId, { ...updates, updatedBy });
+      updatedJob = await jobRepository.updateJob(jobId, { ...updates, updatedBy });
     }
 
     const response: ApiResponse = {
@@ -92,4 +121,4 @@ export async function PATCH(
 
     return NextResponse.json(response, { status: 500 });
   }
-}
+});
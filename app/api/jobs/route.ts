@@ -4,14 +4,16 @@
  * GET /api/jobs
  * 
  * List all jobs with optional filtering.
- * Supports boardDate filtering for Today's Board.
+ * Supports boardDate filtering for Today's Board, and assignedTo=<userId>
+ * on board requests for a tech's "My Jobs" view.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getConfig } from '@/lib/config';
-import type { ApiResponse, WorkStatus } from '@/lib/types';
-import { listJobs } from '@/lib/services/job-service';
+import type { ApiResponse, Job, WorkStatus } from '@/lib/types';
+import { listJobs, listBoardJobs } from '@/lib/services/job-service';
 import { filterJobsByBoardDate, getFilteringStats } from '@/lib/utils/board-filters';
+import { isAssignedTo } from '@/lib/workflow/assignment';
 import { getTodayInTimezone, getDayBoundaries } from '@/lib/utils/timezone';
 
 // Force dynamic rendering for this route
@@ -28,6 +30,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 50;
     const nextToken = searchParams.get('nextToken') || undefined;
     const boardDate = searchParams.get('boardDate') || null; // Only filter if explicitly provided
+    const assignedTo = searchParams.get('assignedTo') || undefined;
 
     console.log('[JOBS API] GET request', {
       status,
@@ -35,27 +38,37 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       limit,
       nextToken,
       boardDate,
+      assignedTo,
       statusType: typeof status,
       statusIsNull: status === null,
       statusIsUndefined: status === undefined,
     });
 
-    // List jobs with filters - pass options explicitly
-    // For now, don't pass boardDate to listJobs to avoid filter expression issues
-    // We'll filter at the application level instead
-    const listJobsOptions = {
-      status,
-      customerId,
-      limit: 200, // Increased limit to scan more jobs instead of using DB-level date filter
-      nextToken,
-      // boardDate: boardDate || undefined, // Temporarily disabled - filter at app level instead
-    };
-    
-    console.log('[JOBS API] Calling listJobs with options:', JSON.stringify(listJobsOptions, null, 2));
+    // Board requests query the boardDate index (plus carry-over days);
+    // everything else goes through the paginated listJobs
+    let result: { jobs: Job[]; nextToken?: string };
     
-    const result = await listJobs(listJobsOptions);
+    if (boardDate) {
+      const boardJobs = await listBoardJobs(boardDate);
+      result = {
+        jobs: boardJobs.filter(job =>
+          (!status || job.status === status) && (!assignedTo || isAssignedTo(job, assignedTo))
+        ),
+      };
+    } else {
+      const listJobsOptions = {
+        status,
+        customerId,
+        limit,
+        nextToken,
+      };
+      
+      console.log('[JOBS API] Calling listJobs with options:', JSON.stringify(listJobsOptions, null, 2));
+      
+      result = await listJobs(listJobsOptions);
+    }
 
-    console.log('[JOBS API] listJobs returned', {
+    console.log('[JOBS API] Jobs fetched', {
       totalJobs: result.jobs.length,
       hasNextToken: !!result.nextToken,
       firstJobId: result.jobs[0]?.jobId,
@@ -64,7 +77,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     });
 
     // Apply board date filtering ONLY if boardDate is explicitly provided
-    // Note: When boardDate is provided, listJobs already pre-filtered at DB level
+    // Note: When boardDate is provided, jobs were already selected by the boardDate index
     // This is additional validation to ensure data consistency
     const filteredJobs = boardDate 
       ? filterJobsByBoardDate(result.jobs, boardDate)
@@ -106,7 +119,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         _debug: {
           queryStatus: status,
           queryCustomerId: customerId,
-          jobsFromListJobs: result.jobs.length,
+          jobsFetched: result.jobs.length,
           jobsAfterFiltering: filteredJobs.length,
           boardDateProvided: !!boardDate,
           firstRawJob: result.jobs[0] ? {
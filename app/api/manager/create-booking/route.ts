@@ -8,15 +8,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { ApiResponse, CreateManagerBookingRequest, CreateManagerBookingResponse } from '@/lib/types';
+import type { ApiResponse, CreateManagerBookingRequest, CreateManagerBookingResponse, JobAddon } from '@/lib/types';
 import { WorkStatus, UserRole, PaymentStatus } from '@/lib/types';
 import { requireAuth } from '@/lib/auth/requireAuth';
 import { findOrCreateCustomer } from '@/lib/square/customers-api';
 import { createBooking } from '@/lib/square/bookings-api';
-import { listPhoneBookingServices, validateAddonVariation, listAddons } from '@/lib/square/catalog-api';
-import * as dynamodb from '@/lib/aws/dynamodb';
+import { listPhoneBookingServices, validateAddonVariation, listAddons, toJobAddon } from '@/lib/square/catalog-api';
+import { jobRepository } from '@/lib/repositories';
 import { getConfig } from '@/lib/config';
 import * as notificationService from '@/lib/services/notification-service';
+import { getJobCustomerFlags } from '@/lib/services/customer-service';
+import { priceBooking } from '@/lib/services/pricing-service';
+import { normalizeMake } from '@/lib/utils/vehicle';
 
 /**
  * POST /api/manager/create-booking
@@ -184,15 +187,14 @@ export const POST = requireAuth(async (
     // Step 3: Format add-ons for booking notes (matching website format)
     const serviceVariationVersion = body.service.serviceVariationVersion || 1;
     let customerNoteWithAddons = body.notes || '';
+    const addons: JobAddon[] = [];
     
     if (body.addonItemVariationIds && body.addonItemVariationIds.length > 0) {
       console.log('[MANAGER BOOKING] Formatting add-ons for booking notes', {
         addonCount: body.addonItemVariationIds.length,
       });
       
-      // Validate and fetch add-on names
-      const addonNames: string[] = [];
-      
+      // Validate and fetch add-on names and prices
       for (const addonId of body.addonItemVariationIds) {
         const isValid = await validateAddonVariation(addonId);
         if (!isValid) {
@@ -211,19 +213,19 @@ export const POST = requireAuth(async (
           return NextResponse.json(response, { status: 400 });
         }
         
-        // Find addon name from catalog
+        // Find addon name and price from catalog
         const addon = (await listAddons()).find(a => a.id === addonId);
         if (addon) {
-          addonNames.push(addon.name);
+          addons.push(toJobAddon(addon));
         }
       }
       
       // Format add-ons as text (matching website format)
-      const addonsText = `\n\n✅ ADD-ONS REQUESTED:\n${addonNames.map(name => `• ${name}`).join('\n')}\n\n⚠️ Add-ons charged separately at service time`;
+      const addonsText = `\n\n✅ ADD-ONS REQUESTED:\n${addons.map(addon => `• ${addon.name}`).join('\n')}\n\n⚠️ Add-ons charged separately at service time`;
       customerNoteWithAddons = (customerNoteWithAddons + addonsText).trim();
       
       console.log('[MANAGER BOOKING] Add-ons formatted in notes', {
-        addonsCount: addonNames.length,
+        addonsCount: addons.length,
       });
     }
 
@@ -267,7 +269,7 @@ export const POST = requireAuth(async (
     });
 
     // Check if job already exists (idempotency)
-    const existingJob = await dynamodb.getJob(jobId);
+    const existingJob = await jobRepository.getJob(jobId);
     if (existingJob) {
       console.log('[MANAGER BOOKING] Job already exists, returning existing', {
         jobId,
@@ -288,6 +290,14 @@ export const POST = requireAuth(async (
       return NextResponse.json(response, { status: 200 });
     }
 
+    // Price the booking server-side (catalog add-on prices, location tax rate)
+    const priceBreakdown = await priceBooking({
+      serviceVariationId,
+      servicePriceCents: body.service.priceCents,
+      addons,
+      locationId,
+    });
+
     // Create new job
     const now = new Date().toISOString();
     
@@ -300,14 +310,14 @@ export const POST = requireAuth(async (
       appointmentTime: body.appointmentTime.startAt,
     });
     
-    const job = await dynamodb.createJob({
+    const job = await jobRepository.createJob({
       jobId: jobId,
       customerId: customer.id,
       customerName: body.customer.name,
       customerEmail: body.customer.email,
       customerPhone: body.customer.phone,
       vehicleInfo: {
-        make: body.vehicle?.make,
+        make: normalizeMake(body.vehicle?.make),
         model: body.vehicle?.model,
         year: body.vehicle?.year,
         color: body.vehicle?.color,
@@ -316,11 +326,14 @@ export const POST = requireAuth(async (
       status: WorkStatus.SCHEDULED,
       bookingId: squareBooking.id,
       appointmentTime: body.appointmentTime.startAt,
+      scheduledDurationMinutes: body.service.durationMinutes,
       notes: customerNoteWithAddons, // Store notes with add-ons formatted
-      payment: body.service.amountCents ? {
+      addons,
+      payment: priceBreakdown ? {
         status: PaymentStatus.UNPAID,
-        amountCents: body.service.amountCents,
+        amountCents: priceBreakdown.totalCents,
       } : undefined,
+      priceBreakdown,
       createdAt: now,
       updatedAt: now,
       createdBy: `manager-phone:${session.sub}`,
@@ -331,6 +344,7 @@ export const POST = requireAuth(async (
         phone: body.customer.phone,
         cachedAt: now,
       },
+      customerFlags: await getJobCustomerFlags(customer.id),
       photosMeta: [],
       statusHistory: [
         {
@@ -0,0 +1,159 @@
+/**
+ * GET /api/manager/dispatch?boardDate=YYYY-MM-DD
+ *
+ * Auto-dispatch plan: a proposed tech for each unassigned SCHEDULED job on
+ * the board date (skills, shifts and current load), plus each tech's load.
+ * Defaults to today. Nothing is assigned until the plan is accepted.
+ *
+ * POST /api/manager/dispatch
+ *
+ * Accept a plan, as proposed or tweaked: { assignments: [{ jobId, userId }] }.
+ * Each job is assigned like PUT /api/jobs/[jobId]/assignment (Square sync
+ * and a JOB_REASSIGNED notification); failures are reported per job.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type ApplyDispatchRequest,
+  type ApplyDispatchResponse,
+  type DispatchPlanResponse,
+} from '@/lib/types';
+import { applyDispatchPlan, getDispatchPlan } from '@/lib/services/dispatch-service';
+import { syncAssignmentToSquare } from '@/lib/services/job-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { ASSIGN_ROLES, formatAssignees, isSameAssignment } from '@/lib/workflow/assignment';
+import { getTodayInTimezone } from '@/lib/utils/timezone';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET = requireRole(
+  ASSIGN_ROLES,
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const boardDate = request.nextUrl.searchParams.get('boardDate') || getTodayInTimezone();
+
+      if (!DATE_PATTERN.test(boardDate)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'boardDate must be YYYY-MM-DD',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const plan = await getDispatchPlan(boardDate);
+
+      console.log('[DISPATCH] Plan built', {
+        boardDate,
+        proposals: plan.proposals.length,
+        unplaced: plan.proposals.filter(proposal => !proposal.userId).length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<DispatchPlanResponse> = {
+        success: true,
+        data: plan,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[DISPATCH] Error building plan:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to build dispatch plan',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+export const POST = requireRole(
+  ASSIGN_ROLES,
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const body: ApplyDispatchRequest = await request.json();
+
+      const valid = Array.isArray(body.assignments) && body.assignments.every(assignment =>
+        typeof assignment?.jobId === 'string' && typeof assignment?.userId === 'string'
+      );
+
+      if (!valid) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'assignments must be an array of { jobId, userId }',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const { assigned, failed } = await applyDispatchPlan(body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      for (const { job, previous } of assigned) {
+        await syncAssignmentToSquare(job);
+
+        if (isSameAssignment(previous, job.assignedTo)) continue;
+
+        try {
+          await notificationService.notifyTeamMemberChanged(
+            job,
+            previous.length ? formatAssignees(previous) : undefined,
+            formatAssignees(job.assignedTo),
+            'manual',
+            undefined,
+            session.sub
+          );
+        } catch (notificationError: any) {
+          // Don't fail the dispatch if a notification fails
+          console.error('[NOTIFICATION ERROR]', {
+            jobId: job.jobId,
+            error: notificationError.message,
+          });
+        }
+      }
+
+      const response: ApiResponse<ApplyDispatchResponse> = {
+        success: true,
+        data: {
+          jobs: assigned.map(({ job }) => job),
+          failed,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[DISPATCH] Error applying plan:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to apply dispatch plan',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,49 @@
+/**
+ * GET /api/manager/issues
+ *
+ * The open issue queue: every unresolved post-completion issue across all
+ * jobs, oldest first, with enough of its job to triage it.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { type ApiResponse, type OpenIssuesResponse } from '@/lib/types';
+import { listOpenIssues } from '@/lib/services/job-service';
+import { ISSUE_ROLES } from '@/lib/workflow/issues';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = requireRole(
+  ISSUE_ROLES,
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const issues = await listOpenIssues();
+
+      console.log('[ISSUE QUEUE] Listed open issues', {
+        count: issues.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<OpenIssuesResponse> = {
+        success: true,
+        data: { issues },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[ISSUE QUEUE] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list open issues',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
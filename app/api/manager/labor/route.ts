@@ -0,0 +1,87 @@
+/**
+ * GET /api/manager/labor?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Actual labor (work timer) vs Square-booked duration per service, plus
+ * labor minutes per tech, for jobs booked between two board dates.
+ * Defaults to the last 30 days.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type LaborReportResponse } from '@/lib/types';
+import { getLaborReport } from '@/lib/services/labor-service';
+import { getTodayInTimezone } from '@/lib/utils/timezone';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Each day is one boardDate index query (per page), so keep ranges bounded
+ */
+const MAX_RANGE_DAYS = 92;
+const DEFAULT_RANGE_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function invalidRangeResponse(message: string): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'INVALID_DATE_RANGE',
+      message,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+export const GET = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const to = searchParams.get('to') || getTodayInTimezone();
+      const from = searchParams.get('from') ||
+        format(subDays(parseISO(to), DEFAULT_RANGE_DAYS - 1), 'yyyy-MM-dd');
+
+      if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+        return invalidRangeResponse('from and to must be YYYY-MM-DD');
+      }
+
+      const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+      if (days < 1 || days > MAX_RANGE_DAYS) {
+        return invalidRangeResponse(`from must be on or before to, at most ${MAX_RANGE_DAYS} days apart`);
+      }
+
+      const report = await getLaborReport(from, to);
+
+      console.log('[LABOR REPORT] Generated', {
+        from,
+        to,
+        services: report.services.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<LaborReportResponse> = {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[LABOR REPORT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to build labor report',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,75 @@
+/**
+ * POST /api/manager/payments/[paymentId]/ignore
+ *
+ * Dismiss a Square payment that isn't for a job (a retail sale, a gift
+ * card) so it leaves the unmatched queue. It can still be matched later.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type IgnorePaymentRequest,
+  type PaymentActionResponse,
+} from '@/lib/types';
+import { ignorePayment } from '@/lib/services/square-payment-service';
+import { PAYMENT_MATCH_ROLES, PaymentMatchError } from '@/lib/workflow/payment-matching';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/manager/payments/[paymentId]/ignore
+ * Request body: { reason }
+ */
+export const POST = requireRole(
+  PAYMENT_MATCH_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { paymentId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: IgnorePaymentRequest = await request.json();
+
+      const payment = await ignorePayment(params.paymentId, body.reason, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<PaymentActionResponse> = {
+        success: true,
+        data: { payment },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof PaymentMatchError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[PAYMENT QUEUE] Ignore error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to dismiss payment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
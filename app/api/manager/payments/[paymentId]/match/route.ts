@@ -0,0 +1,78 @@
+/**
+ * POST /api/manager/payments/[paymentId]/match
+ *
+ * Match an unmatched (or dismissed) Square payment to a job by hand. The
+ * job is marked PAID with the payment's amount, tip and tender.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type MatchPaymentRequest,
+  type PaymentActionResponse,
+} from '@/lib/types';
+import { matchPaymentManually } from '@/lib/services/square-payment-service';
+import { PAYMENT_MATCH_ROLES, PaymentMatchError } from '@/lib/workflow/payment-matching';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/manager/payments/[paymentId]/match
+ * Request body: { jobId }
+ */
+export const POST = requireRole(
+  PAYMENT_MATCH_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { paymentId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: MatchPaymentRequest = await request.json();
+      if (!body.jobId) {
+        throw new PaymentMatchError('INVALID_REQUEST', 'jobId is required');
+      }
+
+      const result = await matchPaymentManually(params.paymentId, body.jobId, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<PaymentActionResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof PaymentMatchError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[PAYMENT QUEUE] Match error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to match payment',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,49 @@
+/**
+ * GET /api/manager/payments
+ *
+ * The unmatched payment queue: completed Square payments no job matched,
+ * oldest first, each with the jobs it most likely pays for.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { type ApiResponse, type UnmatchedPaymentsResponse } from '@/lib/types';
+import { listUnmatchedPayments } from '@/lib/services/square-payment-service';
+import { PAYMENT_MATCH_ROLES } from '@/lib/workflow/payment-matching';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = requireRole(
+  PAYMENT_MATCH_ROLES,
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const payments = await listUnmatchedPayments();
+
+      console.log('[PAYMENT QUEUE] Listed unmatched payments', {
+        count: payments.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<UnmatchedPaymentsResponse> = {
+        success: true,
+        data: { payments },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[PAYMENT QUEUE] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list unmatched payments',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
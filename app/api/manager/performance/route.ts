@@ -0,0 +1,88 @@
+/**
+ * GET /api/manager/performance?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Booked and collected revenue per service (redo jobs excluded) alongside
+ * quality counts (redos, QC rejections, issues) for jobs booked between two
+ * board dates. Defaults to the last 30 days.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type PerformanceReportResponse } from '@/lib/types';
+import { getPerformanceReport } from '@/lib/services/performance-service';
+import { getTodayInTimezone } from '@/lib/utils/timezone';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Each day is one boardDate index query (per page), so keep ranges bounded
+ */
+const MAX_RANGE_DAYS = 92;
+const DEFAULT_RANGE_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function invalidRangeResponse(message: string): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'INVALID_DATE_RANGE',
+      message,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+export const GET = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const to = searchParams.get('to') || getTodayInTimezone();
+      const from = searchParams.get('from') ||
+        format(subDays(parseISO(to), DEFAULT_RANGE_DAYS - 1), 'yyyy-MM-dd');
+
+      if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+        return invalidRangeResponse('from and to must be YYYY-MM-DD');
+      }
+
+      const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+      if (days < 1 || days > MAX_RANGE_DAYS) {
+        return invalidRangeResponse(`from must be on or before to, at most ${MAX_RANGE_DAYS} days apart`);
+      }
+
+      const report = await getPerformanceReport(from, to);
+
+      console.log('[PERFORMANCE REPORT] Generated', {
+        from,
+        to,
+        services: report.services.length,
+        redoCount: report.totals.redoCount,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<PerformanceReportResponse> = {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[PERFORMANCE REPORT] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to build performance report',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,126 @@
+/**
+ * PATCH /api/manager/users/[userId]
+ *
+ * Map a user to a Square team member ({ squareTeamMemberId }, null to
+ * clear), so their job assignments sync with Square booking segments,
+ * and set the skills and weekly shifts auto-dispatch uses.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse, type UpdateUserRequest } from '@/lib/types';
+import {
+  getUserById,
+  toSafeUser,
+  updateUserDispatchProfile,
+  updateUserSquareTeamMember,
+  type SafeUser,
+} from '@/lib/services/user-service';
+import { AssignmentError } from '@/lib/workflow/assignment';
+import { validateShifts } from '@/lib/workflow/dispatch';
+
+function invalidRequestResponse(message: string, details?: unknown): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'INVALID_REQUEST',
+      message,
+      ...(details !== undefined && { details }),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+export const dynamic = 'force-dynamic';
+
+export const PATCH = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { userId: string } }
+  ): Promise<NextResponse> => {
+    const { userId } = params;
+
+    try {
+      const body: UpdateUserRequest = await request.json();
+
+      if (body.squareTeamMemberId !== undefined && body.squareTeamMemberId !== null && typeof body.squareTeamMemberId !== 'string') {
+        return invalidRequestResponse('squareTeamMemberId must be a string or null');
+      }
+
+      if (body.skills !== undefined && (!Array.isArray(body.skills) || body.skills.some(skill => typeof skill !== 'string'))) {
+        return invalidRequestResponse('skills must be an array of strings');
+      }
+
+      if (body.shifts !== undefined) {
+        const errors = Array.isArray(body.shifts) ? validateShifts(body.shifts) : ['shifts must be an array'];
+        if (errors.length > 0) {
+          return invalidRequestResponse(errors[0], { errors });
+        }
+      }
+
+      if (!(await getUserById(userId))) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: `User ${userId} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      if (body.squareTeamMemberId !== undefined) {
+        await updateUserSquareTeamMember(userId, body.squareTeamMemberId);
+      }
+      if (body.skills || body.shifts) {
+        await updateUserDispatchProfile(userId, { skills: body.skills, shifts: body.shifts });
+      }
+      const user = (await getUserById(userId))!;
+
+      console.log('[USERS] User updated', {
+        userId,
+        squareTeamMemberId: user.squareTeamMemberId || null,
+        skills: user.skills,
+        shifts: user.shifts?.length,
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ user: SafeUser }> = {
+        success: true,
+        data: { user: toSafeUser(user) },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof AssignmentError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[USERS] Error updating team member mapping:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update user',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
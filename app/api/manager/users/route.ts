@@ -0,0 +1,43 @@
+/**
+ * GET /api/manager/users
+ *
+ * Active staff accounts (no password hashes), sorted by name, with the
+ * Square team member each is mapped to. Used to pick job assignees.
+ *
+ * Auth: MANAGER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/requireAuth';
+import { UserRole, type ApiResponse } from '@/lib/types';
+import { listActiveUsers, toSafeUser, type SafeUser } from '@/lib/services/user-service';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = requireRole(
+  [UserRole.MANAGER],
+  async (_request: NextRequest): Promise<NextResponse> => {
+    try {
+      const users = await listActiveUsers();
+
+      const response: ApiResponse<{ users: SafeUser[] }> = {
+        success: true,
+        data: { users: users.map(toSafeUser) },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[USERS] Error listing users:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list users',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,105 @@
+/**
+ * GET/PUT /api/no-show-policy
+ *
+ * The shop's no-show fee policy: a flat fee or a percentage of the job's
+ * amount (with an optional floor and cap), and the no-show reasons that are
+ * waived. GET returns the default policy until one is saved. Changing the
+ * policy doesn't change the fee of a job that was already charged or tried.
+ *
+ * Auth: GET all authenticated users, PUT manager only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type NoShowPolicyResponse,
+  type UpdateNoShowPolicyRequest,
+} from '@/lib/types';
+import * as noShowService from '@/lib/services/no-show-service';
+import { NoShowChargeError } from '@/lib/workflow/no-show';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/no-show-policy
+ */
+export const GET = requireAuth(
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const policy = await noShowService.getNoShowPolicy();
+
+      const response: ApiResponse<NoShowPolicyResponse> = {
+        success: true,
+        data: { policy },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Get No-Show Policy] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load no-show policy',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PUT /api/no-show-policy
+ * Request body: { feeType, flatFeeCents?, percent?, minFeeCents?, maxFeeCents?, waivedReasons? }
+ */
+export const PUT = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const body: UpdateNoShowPolicyRequest = await request.json();
+
+      const policy = await noShowService.saveNoShowPolicy(body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<NoShowPolicyResponse> = {
+        success: true,
+        data: { policy },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof NoShowChargeError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[Update No-Show Policy] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to save no-show policy',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
@@ -7,20 +7,23 @@
  * Returns:
  * - services: Square Booking Services (service variation IDs)
  * - addons: Square Item Variations in category "Add-on's"
+ * - taxRatePercent: Sales tax rate for the booking location
  */
 
 import { NextResponse } from 'next/server';
 import { listPhoneBookingServices, listAddons } from '@/lib/square/catalog-api';
+import { getTaxRateForLocation } from '@/lib/services/pricing-service';
 import type { ApiResponse } from '@/lib/types';
 
 export async function GET() {
   try {
     console.log('[PHONE BOOKING CATALOG] Fetching services and add-ons');
     
-    // Fetch services and add-ons in parallel
-    const [services, addons] = await Promise.all([
+    // Fetch services, add-ons and the tax rate in parallel
+    const [services, addons, taxRatePercent] = await Promise.all([
       listPhoneBookingServices(),
       listAddons(),
+      getTaxRateForLocation(),
     ]);
     
     console.log('[PHONE BOOKING CATALOG] Catalog fetched', {
@@ -33,6 +36,7 @@ export async function GET() {
       data: {
         services,
         addons,
+        taxRatePercent,
       },
       timestamp: new Date().toISOString(),
     };
@@ -0,0 +1,134 @@
+/**
+ * GET/PUT /api/services/[serviceType]/workflow
+ *
+ * Get or replace the workflow pipeline (ordered stages) for a service type.
+ * GET returns the default pipeline when none has been saved.
+ *
+ * Auth: GET all authenticated users, PUT manager only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type GetWorkflowResponse,
+  type UpdateWorkflowRequest,
+} from '@/lib/types';
+import * as workflowService from '@/lib/services/workflow-service';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/services/[serviceType]/workflow
+ */
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { serviceType: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const serviceType = decodeURIComponent(params.serviceType);
+
+      const result = await workflowService.getWorkflowOrDefault(serviceType);
+
+      const response: ApiResponse<GetWorkflowResponse> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Get Workflow] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get workflow',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PUT /api/services/[serviceType]/workflow
+ * Request body: { stages, requiredSkills?, bayCapabilities? }
+ */
+export const PUT = requireRole(
+  [UserRole.MANAGER],
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { serviceType: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const serviceType = decodeURIComponent(params.serviceType);
+      const body: UpdateWorkflowRequest = await request.json();
+
+      const isTagList = (tags: unknown) => tags === undefined ||
+        (Array.isArray(tags) && tags.every(tag => typeof tag === 'string'));
+
+      if (!serviceType || !Array.isArray(body.stages) || !isTagList(body.requiredSkills) || !isTagList(body.bayCapabilities)) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'serviceType and stages are required (requiredSkills and bayCapabilities, if sent, must be arrays of strings)',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const workflow = await workflowService.saveWorkflow(serviceType, body.stages, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      }, {
+        requiredSkills: body.requiredSkills,
+        bayCapabilities: body.bayCapabilities,
+      });
+
+      const response: ApiResponse<GetWorkflowResponse> = {
+        success: true,
+        data: {
+          workflow,
+          isDefault: false,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof workflowService.InvalidWorkflowError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_WORKFLOW',
+            message: error.errors[0],
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      console.error('[Update Workflow] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to save workflow',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
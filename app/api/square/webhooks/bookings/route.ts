@@ -39,14 +39,16 @@ import {
   retrieveBooking 
 } from '@/lib/square/bookings-api';
 import {
-  retrieveOrder
+  retrieveOrder,
+  toJobAddons
 } from '@/lib/square/orders-api';
 import { 
   createJobFromBooking, 
   updateJobFromBooking 
 } from '@/lib/services/job-service';
-import { getJobByBookingId, getJob } from '@/lib/aws/dynamodb';
+import { jobRepository } from '@/lib/repositories';
 import * as notificationService from '@/lib/services/notification-service';
+import { formatAssignees, isSameAssignment } from '@/lib/workflow/assignment';
 
 /**
  * GET handler - Square webhook UI validation
@@ -272,6 +274,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         
         // Check if booking has associated order with line items (add-ons)
         if (fullBooking.order_id) {
+          parsedBooking.orderId = fullBooking.order_id;
+
           try {
             const order = await retrieveOrder(fullBooking.order_id);
             
@@ -293,9 +297,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
               );
               
               if (addonItems.length > 0) {
-                const addonNames = addonItems
-                  .map(item => item.name || 'Unknown Add-on')
-                  .filter(name => name);
+                // Store the line items on the job so pricing doesn't depend on add-on names
+                parsedBooking.addons = toJobAddons(addonItems);
+                const addonNames = parsedBooking.addons.map(addon => addon.name);
                 
                 // Format add-ons in notes format (matching phone booking format)
                 const addonsText = `\n\n✅ ADD-ONS REQUESTED:\n${addonNames.map(name => `• ${name}`).join('\n')}\n\n⚠️ Add-ons charged separately`;
@@ -467,12 +471,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           jobIdToCheck: parsedBooking.bookingId,
         });
         
-        let existingJob = await getJob(parsedBooking.bookingId);
+        let existingJob = await jobRepository.getJob(parsedBooking.bookingId);
         
-        // Fallback: if not found by jobId, scan by bookingId field (for old jobs with random UUIDs)
+        // Fallback: if not found by jobId, query bookingId-index (for old jobs with random UUIDs)
         if (!existingJob) {
-          console.log('[WEBHOOK] Not found by jobId, trying scan by bookingId field (slow)');
-          existingJob = await getJobByBookingId(parsedBooking.bookingId);
+          console.log('[WEBHOOK] Not found by jobId, querying bookingId-index');
+          existingJob = await jobRepository.getJobByBookingId(parsedBooking.bookingId);
         }
         
         if (existingJob) {
@@ -501,11 +505,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           jobAction = 'created';
         }
       } else if (action === 'update') {
-        // Find existing job by direct lookup first, then fallback to scan
-        let existingJob = await getJob(parsedBooking.bookingId);
+        // Find existing job by direct lookup first, then fallback to bookingId-index
+        let existingJob = await jobRepository.getJob(parsedBooking.bookingId);
         
         if (!existingJob) {
-          existingJob = await getJobByBookingId(parsedBooking.bookingId);
+          existingJob = await jobRepository.getJobByBookingId(parsedBooking.bookingId);
         }
         
         if (existingJob) {
@@ -589,6 +593,20 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
                 jobId: job.jobId,
               });
             }
+            
+            // Check for team member change (mapped to app users)
+            if (!isSameAssignment(existingJobSnapshot.assignedTo, job.assignedTo)) {
+              await notificationService.notifyTeamMemberChanged(
+                job,
+                existingJobSnapshot.assignedTo?.length ? formatAssignees(existingJobSnapshot.assignedTo) : undefined,
+                job.assignedTo?.length ? formatAssignees(job.assignedTo) : undefined,
+                'square',
+                webhookEvent.event_id
+              );
+              console.log('[NOTIFICATION] Team member changed notification sent', {
+                jobId: job.jobId,
+              });
+            }
           }
         } catch (notificationError: any) {
           // Don't fail the webhook if notification fails
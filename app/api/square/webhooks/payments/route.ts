@@ -0,0 +1,194 @@
+/**
+ * Square Webhooks - Payments Endpoint
+ *
+ * POST /api/square/webhooks/payments
+ *
+ * Receives payment.created and payment.updated events from Square, records
+ * the payment and marks the job it pays for PAID with the real amount, tip
+ * and tender. Payments that match no job wait in the manager's unmatched
+ * payment queue. refund.created and refund.updated events settle the
+ * PENDING refund on the refunded payment's job once Square finishes it.
+ * The reconciler polls Square for any webhooks missed.
+ *
+ * GET/HEAD return 200 OK so the webhook subscription can be created.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import type { ApiResponse, SquarePaymentWebhook, SquareRefundWebhook } from '@/lib/types';
+import {
+  validateWebhookSignature,
+  extractSignature,
+  buildWebhookUrl,
+} from '@/lib/square/webhook-validator';
+import { parseSquarePayment, parseSquareRefund } from '@/lib/square/payments-api';
+import { recordSquarePayment, recordSquareRefund } from '@/lib/services/square-payment-service';
+
+const PAYMENT_EVENT_TYPES = ['payment.created', 'payment.updated'];
+const REFUND_EVENT_TYPES = ['refund.created', 'refund.updated'];
+
+/**
+ * GET handler - Square webhook UI validation
+ */
+export async function GET(): Promise<NextResponse> {
+  return new NextResponse('OK', {
+    status: 200,
+    headers: { 'Content-Type': 'text/plain' },
+  });
+}
+
+/**
+ * HEAD handler - Square webhook UI validation
+ */
+export async function HEAD(): Promise<NextResponse> {
+  return new NextResponse(null, { status: 200 });
+}
+
+/**
+ * POST handler - Payment webhook receiver
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const appConfig = getConfig();
+
+  try {
+    const rawBody = await request.text();
+
+    const headersObj: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headersObj[key.toLowerCase()] = value;
+    });
+
+    const signature = extractSignature(headersObj);
+
+    if (signature && appConfig.square.webhookSignatureKey) {
+      const host = request.headers.get('host') || '';
+      const url = buildWebhookUrl(host, request.nextUrl.pathname);
+
+      if (!validateWebhookSignature(rawBody, signature, appConfig.square.webhookSignatureKey, url)) {
+        console.error('[PAYMENT WEBHOOK SIGNATURE INVALID]', { url });
+
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Webhook signature validation failed',
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: 401 });
+      }
+    } else if (appConfig.env === 'prod') {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'MISSING_SIGNATURE',
+          message: 'Webhook signature required in production',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    let webhookEvent: SquarePaymentWebhook | SquareRefundWebhook;
+    try {
+      webhookEvent = JSON.parse(rawBody);
+    } catch (parseError) {
+      console.error('[PAYMENT WEBHOOK PARSE ERROR]', { error: parseError });
+      throw new Error('Invalid JSON in webhook body');
+    }
+
+    const rawRefund = (webhookEvent as SquareRefundWebhook).data?.object?.refund;
+    if (REFUND_EVENT_TYPES.includes(webhookEvent.type) && rawRefund?.id) {
+      const refund = parseSquareRefund(rawRefund);
+      const job = await recordSquareRefund(refund);
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          message: 'Webhook processed successfully',
+          eventId: webhookEvent.event_id,
+          eventType: webhookEvent.type,
+          refundId: refund.refundId,
+          refundStatus: refund.status,
+          jobId: job?.jobId,
+          processed: true,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const rawPayment = (webhookEvent as SquarePaymentWebhook).data?.object?.payment;
+    if (!PAYMENT_EVENT_TYPES.includes(webhookEvent.type) || !rawPayment?.id) {
+      console.log('[PAYMENT WEBHOOK SKIPPED]', {
+        eventId: webhookEvent.event_id,
+        eventType: webhookEvent.type,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          message: 'Event acknowledged but not processed',
+          eventId: webhookEvent.event_id,
+          eventType: webhookEvent.type,
+          processed: false,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const payment = parseSquarePayment(rawPayment);
+
+    // Other locations' payments are never ours to match
+    if (payment.locationId && appConfig.square.franklinLocationId && payment.locationId !== appConfig.square.franklinLocationId) {
+      console.log('[PAYMENT WEBHOOK FILTERED]', {
+        eventId: webhookEvent.event_id,
+        paymentId: payment.paymentId,
+        locationId: payment.locationId,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: { message: 'Payment for another location', processed: false },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const record = await recordSquarePayment(payment);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: 'Webhook processed successfully',
+        eventId: webhookEvent.event_id,
+        eventType: webhookEvent.type,
+        paymentId: record.paymentId,
+        matchStatus: record.matchStatus,
+        jobId: record.jobId,
+        processed: true,
+      },
+      timestamp: new Date().toISOString(),
+    };
+    return NextResponse.json(response, { status: 200 });
+  } catch (error: any) {
+    console.error('[PAYMENT WEBHOOK ERROR]', {
+      error: error.message,
+      stack: error.stack,
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_PROCESSING_ERROR',
+        message: error.message || 'Failed to process webhook',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    // QA: 200 to prevent Square retries during testing; prod: 500 so Square retries
+    const statusCode = appConfig.env === 'qa' ? 200 : 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
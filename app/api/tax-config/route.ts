@@ -0,0 +1,105 @@
+/**
+ * GET/PUT /api/tax-config
+ *
+ * The shop's sales tax rates: a default rate and optional rates for
+ * individual Square locations. GET returns the default (Tennessee) rate
+ * until rates are saved. Jobs keep the tax they were priced with until
+ * their booking is repriced.
+ *
+ * Auth: GET all authenticated users, PUT manager only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type TaxConfigResponse,
+  type UpdateTaxConfigRequest,
+} from '@/lib/types';
+import * as pricingService from '@/lib/services/pricing-service';
+import { PricingError } from '@/lib/workflow/pricing';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tax-config
+ */
+export const GET = requireAuth(
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const config = await pricingService.getTaxConfig();
+
+      const response: ApiResponse<TaxConfigResponse> = {
+        success: true,
+        data: { config },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Get Tax Config] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load tax rates',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PUT /api/tax-config
+ * Request body: { defaultRatePercent, locations?: [{ locationId, name?, ratePercent }] }
+ */
+export const PUT = requireRole(
+  [UserRole.MANAGER],
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const body: UpdateTaxConfigRequest = await request.json();
+
+      const config = await pricingService.saveTaxConfig(body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+
+      const response: ApiResponse<TaxConfigResponse> = {
+        success: true,
+        data: { config },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof PricingError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[Update Tax Config] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to save tax rates',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
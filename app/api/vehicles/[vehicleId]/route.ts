@@ -0,0 +1,137 @@
+/**
+ * GET/PATCH /api/vehicles/[vehicleId]
+ *
+ * Vehicle profile with every past visit (jobs, photos, issues, notes),
+ * newest first. PATCH edits the car's details and notes; plate and VIN
+ * come from jobs.
+ *
+ * Auth: GET all authenticated users, PATCH manager only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth/requireAuth';
+import {
+  UserRole,
+  type ApiResponse,
+  type UpdateVehicleRequest,
+  type Vehicle,
+  type VehicleHistoryResponse,
+} from '@/lib/types';
+import { getVehicleHistory, updateVehicleDetails } from '@/lib/services/vehicle-service';
+import { VEHICLE_EDIT_ROLES, VehicleError } from '@/lib/workflow/vehicles';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+function vehicleNotFoundResponse(vehicleId: string): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'VEHICLE_NOT_FOUND',
+      message: `Vehicle ${vehicleId} not found`,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+/**
+ * GET /api/vehicles/[vehicleId]
+ */
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { vehicleId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const history = await getVehicleHistory(params.vehicleId);
+      if (!history) {
+        return vehicleNotFoundResponse(params.vehicleId);
+      }
+
+      const response: ApiResponse<VehicleHistoryResponse> = {
+        success: true,
+        data: history,
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[Vehicle History] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load vehicle',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
+
+/**
+ * PATCH /api/vehicles/[vehicleId]
+ * Request body: { make?, model?, year?, color?, notes? } (empty strings clear a field)
+ */
+export const PATCH = requireRole(
+  VEHICLE_EDIT_ROLES,
+  async (
+    request: NextRequest,
+    session,
+    { params }: { params: { vehicleId: string } }
+  ): Promise<NextResponse> => {
+    try {
+      const body: UpdateVehicleRequest = await request.json();
+
+      const vehicle = await updateVehicleDetails(params.vehicleId, body, {
+        userId: session.sub,
+        name: session.name,
+        role: session.role as UserRole,
+      });
+      if (!vehicle) {
+        return vehicleNotFoundResponse(params.vehicleId);
+      }
+
+      console.log('[Vehicle Update] Saved', {
+        vehicleId: params.vehicleId,
+        fields: Object.keys(body),
+        actorEmail: session.email,
+      });
+
+      const response: ApiResponse<{ vehicle: Vehicle }> = {
+        success: true,
+        data: { vehicle },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      if (error instanceof VehicleError) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { errors: error.errors },
+          },
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(response, { status: error.httpStatus });
+      }
+
+      console.error('[Vehicle Update] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update vehicle',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
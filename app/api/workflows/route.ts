@@ -0,0 +1,47 @@
+/**
+ * GET /api/workflows
+ *
+ * Every saved service workflow pipeline, plus the default stages used by
+ * services without one. The board uses this to lay out its columns.
+ *
+ * Auth: All authenticated users
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/requireAuth';
+import { type ApiResponse, type ListWorkflowsResponse } from '@/lib/types';
+import * as workflowService from '@/lib/services/workflow-service';
+import { DEFAULT_WORKFLOW_STAGES } from '@/lib/workflow/pipelines';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export const GET = requireAuth(
+  async (request: NextRequest, session): Promise<NextResponse> => {
+    try {
+      const workflows = await workflowService.listWorkflows();
+
+      const response: ApiResponse<ListWorkflowsResponse> = {
+        success: true,
+        data: {
+          workflows,
+          defaultStages: DEFAULT_WORKFLOW_STAGES,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error('[List Workflows] Error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list workflows',
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+  }
+);
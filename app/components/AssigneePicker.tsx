@@ -0,0 +1,138 @@
+/**
+ * AssigneePicker Component
+ *
+ * Shows who a job is assigned to. Managers can open it to pick one or more
+ * users; saving replaces the assignees (and syncs the Square booking's team
+ * member when the first pick is mapped to one).
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { Job, JobAssignee } from '@/lib/types';
+
+export interface AssignableUserOption {
+  userId: string;
+  name: string;
+  role: string;
+  squareTeamMemberId?: string;
+}
+
+interface AssigneePickerProps {
+  jobId: string;
+  assignedTo?: JobAssignee[];
+  users: AssignableUserOption[];
+  canAssign: boolean;
+  onAssigned: (job: Job) => void;
+  compact?: boolean; // Board cards: one line, smaller text
+}
+
+export default function AssigneePicker({
+  jobId,
+  assignedTo = [],
+  users,
+  canAssign,
+  onAssigned,
+  compact = false,
+}: AssigneePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const names = assignedTo.map(assignee => assignee.name).join(', ');
+
+  const openPicker = () => {
+    setSelected(assignedTo.map(assignee => assignee.userId));
+    setError('');
+    setOpen(true);
+  };
+
+  const toggleUser = (userId: string) => {
+    setSelected(ids => (ids.includes(userId) ? ids.filter(id => id !== userId) : [...ids, userId]));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/assignment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userIds: selected }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to assign job');
+      }
+      setOpen(false);
+      onAssigned(data.data.job);
+    } catch (err) {
+      console.error('Assign job error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={compact ? 'text-xs' : 'text-sm'}>
+      <div className="flex items-center gap-2">
+        <span style={{ color: names ? 'var(--sf-ink)' : 'var(--sf-muted)' }}>
+          👤 {names || 'Unassigned'}
+        </span>
+        {canAssign && !open && (
+          <button
+            onClick={openPicker}
+            className="underline"
+            style={{ color: 'var(--sf-orange)' }}
+          >
+            {assignedTo.length > 0 ? 'Reassign' : 'Assign'}
+          </button>
+        )}
+      </div>
+
+      {canAssign && open && (
+        <div className="mt-2 p-3 border rounded-lg space-y-2 bg-white" style={{ borderColor: 'var(--sf-border)' }}>
+          {error && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {users.map(user => (
+              <label key={user.userId} className="flex items-center gap-2 text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(user.userId)}
+                  onChange={() => toggleUser(user.userId)}
+                  className="w-4 h-4"
+                />
+                {user.name}
+                <span className="text-gray-500">({user.role}{user.squareTeamMemberId ? ', Square' : ''})</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 bg-[#F47C20] hover:bg-[#DB6E1C] text-white rounded-lg font-medium sf-button-transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              disabled={saving}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ export default function EditBookingModal({
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+  const [bayWarning, setBayWarning] = useState<string | null>(null);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
 
   // Current booking state
@@ -109,6 +110,7 @@ export default function EditBookingModal({
       setSelectedServiceVersion(service.version);
       setSelectedDuration(service.durationMinutes || 60);
       setAvailabilityError(null);
+      setBayWarning(null);
       setSuggestedTimes([]);
     }
   };
@@ -116,6 +118,7 @@ export default function EditBookingModal({
   const handleTimeChange = (newTime: string) => {
     setStartTime(newTime);
     setAvailabilityError(null);
+    setBayWarning(null);
     setSuggestedTimes([]);
   };
 
@@ -132,6 +135,7 @@ export default function EditBookingModal({
     try {
       setCheckingAvailability(true);
       setAvailabilityError(null);
+      setBayWarning(null);
       setSuggestedTimes([]);
 
       const response = await fetch('/api/bookings/check-availability', {
@@ -141,6 +145,7 @@ export default function EditBookingModal({
         },
         body: JSON.stringify({
           bookingId,
+          serviceType: services.find(service => service.id === selectedService)?.name,
           serviceVariationId: selectedService,
           serviceVariationVersion: selectedServiceVersion,
           startAt: startTime,
@@ -160,6 +165,9 @@ export default function EditBookingModal({
         setSuggestedTimes(data.data.suggestedStartTimes || []);
       }
 
+      // Over bay capacity only warns; the move can still be saved
+      setBayWarning(data.data.bayCapacity?.warning || null);
+
     } catch (err: any) {
       console.error('Availability check error:', err);
       setAvailabilityError(err.message || 'Failed to check availability');
@@ -371,6 +379,12 @@ export default function EditBookingModal({
                 </div>
               )}
 
+              {bayWarning && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <p className="text-sm text-yellow-800">⚠️ {bayWarning}</p>
+                </div>
+              )}
+
               {/* Duration Info */}
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                 <p className="text-sm text-gray-600">
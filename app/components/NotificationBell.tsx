@@ -100,6 +100,8 @@ export function NotificationBell({ onNewNotification }: NotificationBellProps) {
         return '✅';
       case 'ADDONS_UPDATED':
         return '➕';
+      case 'QC_REJECTED':
+        return '↩️';
       default:
         return '📢';
     }
@@ -0,0 +1,159 @@
+/**
+ * DynamoDB Checklist Templates Service Layer
+ *
+ * Handles all DynamoDB operations for the checklist templates table.
+ * Templates are always read and written whole. Service workflows live in the
+ * same table under {serviceType}#WORKFLOW.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { ChecklistTemplate, ServiceWorkflow } from '../types';
+import type { ChecklistTemplateRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+/**
+ * Get template by ID ({serviceType}#{type})
+ */
+export async function getTemplate(templateId: string): Promise<ChecklistTemplate | null> {
+  const client = getDynamoClient();
+  const config = getConfig();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: config.aws.dynamodb.checklistTemplatesTable,
+      Key: { templateId },
+    })
+  );
+
+  return (result.Item as ChecklistTemplate) || null;
+}
+
+/**
+ * Create or replace a template
+ */
+export async function putTemplate(template: ChecklistTemplate): Promise<void> {
+  const client = getDynamoClient();
+  const config = getConfig();
+
+  await client.send(
+    new PutCommand({
+      TableName: config.aws.dynamodb.checklistTemplatesTable,
+      Item: template,
+    })
+  );
+}
+
+/**
+ * Scan the table for one kind of record (templates or workflows)
+ */
+async function scanTable<T>(workflows: boolean): Promise<T[]> {
+  const client = getDynamoClient();
+  const config = getConfig();
+  const items: T[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await client.send(
+      new ScanCommand({
+        TableName: config.aws.dynamodb.checklistTemplatesTable,
+        FilterExpression: workflows ? '#type = :workflow' : '#type <> :workflow',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':workflow': 'WORKFLOW' },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    items.push(...((result.Items as T[]) || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+}
+
+/**
+ * List every checklist template
+ */
+export async function listTemplates(): Promise<ChecklistTemplate[]> {
+  return scanTable<ChecklistTemplate>(false);
+}
+
+/**
+ * Get a service's workflow pipeline
+ */
+export async function getWorkflow(serviceType: string): Promise<ServiceWorkflow | null> {
+  const client = getDynamoClient();
+  const config = getConfig();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: config.aws.dynamodb.checklistTemplatesTable,
+      Key: { templateId: `${serviceType}#WORKFLOW` },
+    })
+  );
+
+  return (result.Item as ServiceWorkflow) || null;
+}
+
+/**
+ * Create or replace a service's workflow pipeline
+ */
+export async function putWorkflow(workflow: ServiceWorkflow): Promise<void> {
+  const client = getDynamoClient();
+  const config = getConfig();
+
+  await client.send(
+    new PutCommand({
+      TableName: config.aws.dynamodb.checklistTemplatesTable,
+      Item: workflow,
+    })
+  );
+}
+
+/**
+ * List every saved workflow pipeline
+ */
+export async function listWorkflows(): Promise<ServiceWorkflow[]> {
+  return scanTable<ServiceWorkflow>(true);
+}
+
+/**
+ * DynamoDB-backed checklist template repository
+ */
+export const dynamoChecklistTemplateRepository: ChecklistTemplateRepository = {
+  getTemplate,
+  putTemplate,
+  listTemplates,
+  getWorkflow,
+  putWorkflow,
+  listWorkflows,
+};
@@ -0,0 +1,80 @@
+/**
+ * DynamoDB Customers Service Layer
+ *
+ * Handles all DynamoDB operations for the customers table (partition key
+ * customerId, the Square customer ID). Contact details stay in Square; this
+ * table only holds what the shop adds, such as tags and preferences.
+ * See scripts/create-customers-table.ts.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { CustomerFlags } from '../types';
+import type { CustomerRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+function getCustomersTableName(): string {
+  return getConfig().aws.dynamodb.customersTable;
+}
+
+/**
+ * Get a customer's flags
+ */
+export async function getCustomerFlags(customerId: string): Promise<CustomerFlags | null> {
+  const result = await getDynamoClient().send(
+    new GetCommand({
+      TableName: getCustomersTableName(),
+      Key: { customerId },
+    })
+  );
+
+  return (result.Item as CustomerFlags) || null;
+}
+
+/**
+ * Create or replace a customer's flags
+ */
+export async function putCustomerFlags(flags: CustomerFlags): Promise<void> {
+  await getDynamoClient().send(
+    new PutCommand({
+      TableName: getCustomersTableName(),
+      Item: flags,
+    })
+  );
+}
+
+/**
+ * DynamoDB-backed customer repository
+ */
+export const dynamoCustomerRepository: CustomerRepository = {
+  getCustomerFlags,
+  putCustomerFlags,
+};
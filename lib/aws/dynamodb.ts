@@ -16,11 +16,36 @@ import {
   DeleteCommand 
 } from '@aws-sdk/lib-dynamodb';
 import { getConfig } from '../config';
-import type { Job, WorkStatus } from '../types';
-import { getStartOfDayInTimezone, getEndOfDayInTimezone } from '../utils/timezone';
+import type { Job } from '../types';
+import { normalizePlate } from '../utils/vehicle';
+import { ACTIVE_KEY, deriveIndexKeys, INDEX_KEY_ATTRIBUTES, OPEN_ISSUE_KEY, PENDING_REFUND_KEY } from '../repositories/index-keys';
+import {
+  VersionConflictError,
+  type JobPage,
+  type JobQueryOptions,
+  type JobRepository,
+  type UpdateJobOptions,
+} from '../repositories/types';
 
 let dynamoClient: DynamoDBDocumentClient | null = null;
 
+/**
+ * Jobs table global secondary indexes
+ * 
+ * All date-keyed indexes use appointmentTime as the sort key so results
+ * come back in appointment order. See scripts/create-job-indexes.ts.
+ */
+export const JOB_INDEXES = {
+  bookingId: 'bookingId-index',
+  boardDate: 'boardDate-appointmentTime-index',
+  customerId: 'customerId-appointmentTime-index',
+  plateNorm: 'plateNorm-appointmentTime-index',
+  vehicleId: 'vehicleId-appointmentTime-index',
+  active: 'activeKey-createdAt-index',
+  openIssue: 'openIssueKey-appointmentTime-index',
+  pendingRefund: 'pendingRefundKey-createdAt-index',
+} as const;
+
 /**
  * Get or create DynamoDB Document Client
  */
@@ -43,6 +68,24 @@ function getDynamoClient(): DynamoDBDocumentClient {
   return dynamoClient;
 }
 
+/**
+ * Encode a LastEvaluatedKey as an opaque pagination cursor
+ */
+function encodeNextToken(lastEvaluatedKey?: Record<string, any>): string | undefined {
+  return lastEvaluatedKey
+    ? Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64')
+    : undefined;
+}
+
+/**
+ * Decode a pagination cursor back into an ExclusiveStartKey
+ */
+function decodeNextToken(nextToken?: string): Record<string, any> | undefined {
+  return nextToken
+    ? JSON.parse(Buffer.from(nextToken, 'base64').toString())
+    : undefined;
+}
+
 /**
  * Create a new job record
  */
@@ -51,12 +94,21 @@ export async function createJob(job: Job): Promise<Job> {
   const config = getConfig();
   
   const timestamp = new Date().toISOString();
-  const jobWithTimestamps = {
+  const jobWithTimestamps: Job = {
     ...job,
+    ...deriveIndexKeys(job),
     createdAt: timestamp,
     updatedAt: timestamp,
+    version: 1,
   };
   
+  // Index keys cannot be empty strings (e.g. walk-in jobs with no Square customer)
+  for (const key of INDEX_KEY_ATTRIBUTES) {
+    if ((jobWithTimestamps as any)[key] === '') {
+      delete (jobWithTimestamps as any)[key];
+    }
+  }
+  
   await client.send(new PutCommand({
     TableName: config.aws.dynamodb.jobsTable,
     Item: jobWithTimestamps,
@@ -82,48 +134,65 @@ export async function getJob(jobId: string): Promise<Job | null> {
 }
 
 /**
- * Get job by booking ID
+ * Get job by booking ID (bookingId-index)
  */
 export async function getJobByBookingId(bookingId: string): Promise<Job | null> {
   const client = getDynamoClient();
   const config = getConfig();
   
-  const result = await client.send(new ScanCommand({
+  const result = await client.send(new QueryCommand({
     TableName: config.aws.dynamodb.jobsTable,
-    FilterExpression: 'bookingId = :bookingId',
+    IndexName: JOB_INDEXES.bookingId,
+    KeyConditionExpression: 'bookingId = :bookingId',
     ExpressionAttributeValues: {
       ':bookingId': bookingId,
     },
     Limit: 1,
   }));
   
-  return result.Items?.[0] as Job | null;
+  return (result.Items?.[0] as Job) || null;
 }
 
 /**
  * Update job record
+ * 
+ * Every write increments `version`. Pass `expectedVersion` for read-modify-write
+ * updates so a concurrent change raises VersionConflictError instead of being lost.
  */
 export async function updateJob(
   jobId: string,
-  updates: Partial<Job>
+  updates: Partial<Job>,
+  options: UpdateJobOptions = {}
 ): Promise<Job> {
   const client = getDynamoClient();
   const config = getConfig();
   
-  // Remove fields that shouldn't be updated (including updatedAt since we add it separately)
-  const { jobId: _, createdAt, updatedAt, ...allowedUpdates } = updates as any;
+  // Remove fields that shouldn't be updated (including updatedAt/version since we set them separately)
+  const { jobId: _, createdAt, updatedAt, version, ...allowedUpdates } = {
+    ...updates,
+    ...deriveIndexKeys(updates),
+  } as any;
   
   // Build update expression
   const updateExpressions: string[] = [];
+  const removeExpressions: string[] = [];
   const expressionAttributeNames: Record<string, string> = {};
   const expressionAttributeValues: Record<string, any> = {};
   
   Object.keys(allowedUpdates).forEach((key, index) => {
     const placeholder = `#attr${index}`;
     const valuePlaceholder = `:val${index}`;
-    updateExpressions.push(`${placeholder} = ${valuePlaceholder}`);
+    const value = allowedUpdates[key];
     expressionAttributeNames[placeholder] = key;
-    expressionAttributeValues[valuePlaceholder] = allowedUpdates[key];
+    
+    // Cleared attributes are removed (empty strings are also invalid index keys)
+    if (value === undefined || (INDEX_KEY_ATTRIBUTES.includes(key) && value === '')) {
+      removeExpressions.push(placeholder);
+      return;
+    }
+    
+    updateExpressions.push(`${placeholder} = ${valuePlaceholder}`);
+    expressionAttributeValues[valuePlaceholder] = value;
   });
   
   // Always update the updatedAt timestamp (use provided value or generate new one)
@@ -131,100 +200,208 @@ export async function updateJob(
   expressionAttributeNames['#updatedAt'] = 'updatedAt';
   expressionAttributeValues[':updatedAt'] = updates.updatedAt || new Date().toISOString();
   
-  const result = await client.send(new UpdateCommand({
+  // Always bump the version
+  updateExpressions.push('#version = if_not_exists(#version, :zero) + :one');
+  expressionAttributeNames['#version'] = 'version';
+  expressionAttributeValues[':zero'] = 0;
+  expressionAttributeValues[':one'] = 1;
+  
+  let conditionExpression: string | undefined;
+  if (options.expectedVersion !== undefined) {
+    conditionExpression = options.expectedVersion === 0
+      ? '(attribute_not_exists(#version) OR #version = :expectedVersion)'
+      : '#version = :expectedVersion';
+    expressionAttributeValues[':expectedVersion'] = options.expectedVersion;
+  }
+  
+  try {
+    const result = await client.send(new UpdateCommand({
+      TableName: config.aws.dynamodb.jobsTable,
+      Key: { jobId },
+      UpdateExpression: `SET ${updateExpressions.join(', ')}` +
+        (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : ''),
+      ConditionExpression: conditionExpression,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ReturnValues: 'ALL_NEW',
+    }));
+    
+    return result.Attributes as Job;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException' && options.expectedVersion !== undefined) {
+      const currentJob = await getJob(jobId);
+      throw new VersionConflictError(jobId, options.expectedVersion, currentJob?.version ?? 0);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Query one page of jobs from a secondary index
+ */
+async function queryJobsByIndex(
+  indexName: string,
+  keyName: string,
+  keyValue: string,
+  options: JobQueryOptions & {
+    ascending?: boolean;
+    customerId?: string;
+  } = {}
+): Promise<JobPage> {
+  const client = getDynamoClient();
+  const config = getConfig();
+  
+  const filters: string[] = [];
+  const expressionAttributeNames: Record<string, string> = { '#key': keyName };
+  const expressionAttributeValues: Record<string, any> = { ':key': keyValue };
+  
+  if (options.status) {
+    filters.push('#status = :status');
+    expressionAttributeNames['#status'] = 'status';
+    expressionAttributeValues[':status'] = options.status;
+  }
+  
+  if (options.customerId) {
+    filters.push('customerId = :customerId');
+    expressionAttributeValues[':customerId'] = options.customerId;
+  }
+  
+  const result = await client.send(new QueryCommand({
     TableName: config.aws.dynamodb.jobsTable,
-    Key: { jobId },
-    UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+    IndexName: indexName,
+    KeyConditionExpression: '#key = :key',
+    FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
     ExpressionAttributeNames: expressionAttributeNames,
     ExpressionAttributeValues: expressionAttributeValues,
-    ReturnValues: 'ALL_NEW',
+    ScanIndexForward: options.ascending ?? true,
+    Limit: options.limit || 50,
+    ExclusiveStartKey: decodeNextToken(options.nextToken),
   }));
   
-  return result.Attributes as Job;
+  console.log('[DynamoDB] Query result:', {
+    indexName,
+    itemsCount: result.Items?.length || 0,
+    hasLastEvaluatedKey: !!result.LastEvaluatedKey,
+    scannedCount: result.ScannedCount,
+  });
+  
+  return {
+    jobs: (result.Items as Job[]) || [],
+    nextToken: encodeNextToken(result.LastEvaluatedKey),
+  };
+}
+
+/**
+ * Query jobs whose appointment falls on a board date (boardDate index)
+ * 
+ * @param boardDate - YYYY-MM-DD in the location timezone
+ * @returns Jobs in appointment order
+ */
+export async function queryJobsByBoardDate(
+  boardDate: string,
+  options?: JobQueryOptions & { customerId?: string }
+): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.boardDate, 'boardDate', boardDate, options);
+}
+
+/**
+ * Query a customer's jobs (customerId index), newest appointment first
+ */
+export async function queryJobsByCustomerId(
+  customerId: string,
+  options?: JobQueryOptions
+): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.customerId, 'customerId', customerId, {
+    ...options,
+    ascending: false,
+  });
+}
+
+/**
+ * Query jobs for a license plate (plateNorm index), newest appointment first
+ * 
+ * @param plate - Plate in any format; normalized before querying
+ */
+export async function queryJobsByPlate(
+  plate: string,
+  options?: JobQueryOptions
+): Promise<JobPage> {
+  const plateNorm = normalizePlate(plate);
+  
+  if (!plateNorm) {
+    return { jobs: [] };
+  }
+  
+  return queryJobsByIndex(JOB_INDEXES.plateNorm, 'plateNorm', plateNorm, {
+    ...options,
+    ascending: false,
+  });
+}
+
+/**
+ * Query jobs linked to a vehicle profile (vehicleId index), newest appointment first
+ */
+export async function queryJobsByVehicleId(
+  vehicleId: string,
+  options?: JobQueryOptions
+): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.vehicleId, 'vehicleId', vehicleId, {
+    ...options,
+    ascending: false,
+  });
 }
 
 /**
  * List jobs with optional filters
+ * 
+ * Uses the boardDate or customerId index when one of those filters is given;
+ * only an unfiltered (or status-only) listing falls back to a table scan.
  */
-export async function listJobs(options?: {
-  status?: WorkStatus;
+export async function listJobs(options?: JobQueryOptions & {
   customerId?: string;
-  limit?: number;
-  nextToken?: string;
-  boardDate?: string; // YYYY-MM-DD format from America/Chicago timezone
-}): Promise<{ jobs: Job[]; nextToken?: string }> {
+  boardDate?: string; // YYYY-MM-DD format in location timezone
+}): Promise<JobPage> {
   const client = getDynamoClient();
   const config = getConfig();
   
   console.log('[DynamoDB] listJobs called with options:', JSON.stringify({
     status: options?.status,
     customerId: options?.customerId,
+    boardDate: options?.boardDate,
     limit: options?.limit,
     hasNextToken: !!options?.nextToken,
   }, null, 2));
   
-  let filterExpression: string | undefined;
-  const expressionAttributeValues: Record<string, any> = {};
-  
-  if (options?.status) {
-    filterExpression = '#status = :status';
-    expressionAttributeValues[':status'] = options.status;
+  if (options?.boardDate) {
+    return queryJobsByBoardDate(options.boardDate, {
+      status: options.status,
+      customerId: options.customerId,
+      limit: options.limit,
+      nextToken: options.nextToken,
+    });
   }
   
   if (options?.customerId) {
-    const customerFilter = 'customerId = :customerId';
-    filterExpression = filterExpression 
-      ? `${filterExpression} AND ${customerFilter}`
-      : customerFilter;
-    expressionAttributeValues[':customerId'] = options.customerId;
-  }
-  
-  // If boardDate is provided, add filter for appointments on that date
-  // This filters at DB level to avoid scanning irrelevant jobs
-  if (options?.boardDate) {
-    try {
-      // boardDate is in format YYYY-MM-DD (America/Chicago timezone)
-      // Use timezone utilities to get UTC boundaries
-      const dayStart = getStartOfDayInTimezone(options.boardDate);
-      const dayEnd = getEndOfDayInTimezone(options.boardDate);
-      
-      // Use comparison operators (>= and <) instead of BETWEEN for better compatibility
-      const dateFilter = '(appointmentTime >= :dayStart AND appointmentTime < :dayEnd)';
-      filterExpression = filterExpression 
-        ? `(${filterExpression}) AND ${dateFilter}`
-        : dateFilter;
-      expressionAttributeValues[':dayStart'] = dayStart;
-      expressionAttributeValues[':dayEnd'] = dayEnd;
-      
-      console.log('[DynamoDB] Applied boardDate filter:', {
-        boardDate: options.boardDate,
-        dayStart,
-        dayEnd,
-      });
-    } catch (dateError: any) {
-      console.warn('[DynamoDB] Failed to apply boardDate filter, skipping:', dateError.message);
-      // Continue without date filter rather than failing completely
-    }
+    return queryJobsByCustomerId(options.customerId, {
+      status: options.status,
+      limit: options.limit,
+      nextToken: options.nextToken,
+    });
   }
   
   const scanParams = {
     TableName: config.aws.dynamodb.jobsTable,
-    FilterExpression: filterExpression,
-    ExpressionAttributeNames: filterExpression ? { '#status': 'status' } : undefined,
-    ExpressionAttributeValues: Object.keys(expressionAttributeValues).length > 0 
-      ? expressionAttributeValues 
-      : undefined,
+    FilterExpression: options?.status ? '#status = :status' : undefined,
+    ExpressionAttributeNames: options?.status ? { '#status': 'status' } : undefined,
+    ExpressionAttributeValues: options?.status ? { ':status': options.status } : undefined,
     Limit: options?.limit || 50,
-    ExclusiveStartKey: options?.nextToken 
-      ? JSON.parse(Buffer.from(options.nextToken, 'base64').toString())
-      : undefined,
+    ExclusiveStartKey: decodeNextToken(options?.nextToken),
   };
   
   console.log('[DynamoDB] Scan parameters:', JSON.stringify({
     TableName: scanParams.TableName,
     FilterExpression: scanParams.FilterExpression,
     Limit: scanParams.Limit,
-    hasExpressionAttributeValues: !!scanParams.ExpressionAttributeValues,
   }, null, 2));
   
   const result = await client.send(new ScanCommand(scanParams));
@@ -237,12 +414,31 @@ export async function listJobs(options?: {
   
   return {
     jobs: (result.Items as Job[]) || [],
-    nextToken: result.LastEvaluatedKey 
-      ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
-      : undefined,
+    nextToken: encodeNextToken(result.LastEvaluatedKey),
   };
 }
 
+/**
+ * List jobs checked in and not yet finished (sparse activeKey index)
+ */
+export async function listActiveJobs(options?: JobQueryOptions): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.active, 'activeKey', ACTIVE_KEY, options);
+}
+
+/**
+ * List jobs with unresolved post-completion issues (sparse openIssueKey index)
+ */
+export async function listJobsWithOpenIssues(options?: JobQueryOptions): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.openIssue, 'openIssueKey', OPEN_ISSUE_KEY, options);
+}
+
+/**
+ * List jobs with a refund waiting on Square (sparse pendingRefundKey index)
+ */
+export async function listJobsWithPendingRefunds(options?: JobQueryOptions): Promise<JobPage> {
+  return queryJobsByIndex(JOB_INDEXES.pendingRefund, 'pendingRefundKey', PENDING_REFUND_KEY, options);
+}
+
 /**
  * Delete job by ID
  */
@@ -255,3 +451,22 @@ export async function deleteJob(jobId: string): Promise<void> {
     Key: { jobId },
   }));
 }
+
+/**
+ * DynamoDB-backed job repository
+ */
+export const dynamoJobRepository: JobRepository = {
+  createJob,
+  getJob,
+  getJobByBookingId,
+  updateJob,
+  queryJobsByBoardDate,
+  queryJobsByCustomerId,
+  queryJobsByPlate,
+  queryJobsByVehicleId,
+  listJobs,
+  listActiveJobs,
+  listJobsWithOpenIssues,
+  listJobsWithPendingRefunds,
+  deleteJob,
+};
@@ -15,6 +15,7 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import { getConfig } from '../config';
 import type { Notification } from '../types';
+import type { NotificationRepository } from '../repositories/types';
 
 let dynamoClient: DynamoDBDocumentClient | null = null;
 
@@ -207,16 +208,31 @@ export async function isDuplicateNotification(
   
   const cutoffTime = new Date(Date.now() - withinMinutes * 60 * 1000).toISOString();
   
-  const result = await client.send(new ScanCommand({
+  // Query the actor index rather than scanning; no Limit because it applies
+  // before the locationId filter and could hide a match
+  const result = await client.send(new QueryCommand({
     TableName: config.aws.dynamodb.notificationsTable,
-    FilterExpression: 'locationId = :locationId AND actor = :actor AND createdAt > :cutoff',
+    IndexName: 'actor-createdAt-index',
+    KeyConditionExpression: 'actor = :actor AND createdAt > :cutoff',
+    FilterExpression: 'locationId = :locationId',
     ExpressionAttributeValues: {
       ':locationId': locationId,
       ':actor': dedupeKey,
       ':cutoff': cutoffTime,
     },
-    Limit: 1,
   }));
   
   return (result.Items?.length || 0) > 0;
 }
+
+/**
+ * DynamoDB-backed notification repository
+ */
+export const dynamoNotificationRepository: NotificationRepository = {
+  createNotification,
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  isDuplicateNotification,
+};
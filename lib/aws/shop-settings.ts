@@ -0,0 +1,126 @@
+/**
+ * DynamoDB Shop Settings Service Layer
+ *
+ * Handles all DynamoDB operations for the shop-settings table (partition
+ * key settingId). Each setting is one record read and written whole: the
+ * bay list (BAYS), the no-show fee policy (NO_SHOW_POLICY) and the sales
+ * tax rates (TAX_CONFIG). See scripts/create-shop-settings-table.ts.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { BayConfig, NoShowPolicy, TaxConfig } from '../types';
+import type { ShopSettingsRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+function getShopSettingsTableName(): string {
+  return getConfig().aws.dynamodb.shopSettingsTable;
+}
+
+/**
+ * Get one setting record by settingId
+ */
+async function getSetting<T>(settingId: string): Promise<T | null> {
+  const result = await getDynamoClient().send(
+    new GetCommand({
+      TableName: getShopSettingsTableName(),
+      Key: { settingId },
+    })
+  );
+
+  return (result.Item as T) || null;
+}
+
+/**
+ * Create or replace one setting record
+ */
+async function putSetting(setting: BayConfig | NoShowPolicy | TaxConfig): Promise<void> {
+  await getDynamoClient().send(
+    new PutCommand({
+      TableName: getShopSettingsTableName(),
+      Item: setting,
+    })
+  );
+}
+
+/**
+ * Get the shop's bay list
+ */
+export async function getBayConfig(): Promise<BayConfig | null> {
+  return getSetting<BayConfig>('BAYS');
+}
+
+/**
+ * Replace the shop's bay list
+ */
+export async function putBayConfig(bayConfig: BayConfig): Promise<void> {
+  await putSetting(bayConfig);
+}
+
+/**
+ * Get the shop's no-show fee policy
+ */
+export async function getNoShowPolicy(): Promise<NoShowPolicy | null> {
+  return getSetting<NoShowPolicy>('NO_SHOW_POLICY');
+}
+
+/**
+ * Replace the shop's no-show fee policy
+ */
+export async function putNoShowPolicy(policy: NoShowPolicy): Promise<void> {
+  await putSetting(policy);
+}
+
+/**
+ * Get the shop's sales tax rates
+ */
+export async function getTaxConfig(): Promise<TaxConfig | null> {
+  return getSetting<TaxConfig>('TAX_CONFIG');
+}
+
+/**
+ * Replace the shop's sales tax rates
+ */
+export async function putTaxConfig(taxConfig: TaxConfig): Promise<void> {
+  await putSetting(taxConfig);
+}
+
+/**
+ * DynamoDB-backed shop settings repository
+ */
+export const dynamoShopSettingsRepository: ShopSettingsRepository = {
+  getBayConfig,
+  putBayConfig,
+  getNoShowPolicy,
+  putNoShowPolicy,
+  getTaxConfig,
+  putTaxConfig,
+};
@@ -0,0 +1,109 @@
+/**
+ * DynamoDB Square Payments Service Layer
+ *
+ * Handles all DynamoDB operations for the square-payments table (partition
+ * key paymentId, with matchStatus-index sorted by createdAt for the manual
+ * match queue). See scripts/create-square-payments-table.ts.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { SquarePaymentMatchStatus, SquarePaymentRecord } from '../types';
+import type { SquarePaymentRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Square payments table global secondary indexes
+ */
+export const SQUARE_PAYMENT_INDEXES = {
+  matchStatus: 'matchStatus-index',
+} as const;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+function getSquarePaymentsTableName(): string {
+  return getConfig().aws.dynamodb.squarePaymentsTable;
+}
+
+/**
+ * Get a Square payment record by paymentId
+ */
+export async function getPayment(paymentId: string): Promise<SquarePaymentRecord | null> {
+  const result = await getDynamoClient().send(
+    new GetCommand({
+      TableName: getSquarePaymentsTableName(),
+      Key: { paymentId },
+    })
+  );
+
+  return (result.Item as SquarePaymentRecord) || null;
+}
+
+/**
+ * Create or replace a Square payment record
+ */
+export async function putPayment(payment: SquarePaymentRecord): Promise<void> {
+  await getDynamoClient().send(
+    new PutCommand({
+      TableName: getSquarePaymentsTableName(),
+      Item: payment,
+    })
+  );
+}
+
+/**
+ * Payments in one match status, oldest first (uses GSI)
+ */
+export async function listPaymentsByMatchStatus(
+  matchStatus: SquarePaymentMatchStatus,
+  limit: number = 100
+): Promise<SquarePaymentRecord[]> {
+  const result = await getDynamoClient().send(
+    new QueryCommand({
+      TableName: getSquarePaymentsTableName(),
+      IndexName: SQUARE_PAYMENT_INDEXES.matchStatus,
+      KeyConditionExpression: 'matchStatus = :matchStatus',
+      ExpressionAttributeValues: { ':matchStatus': matchStatus },
+      ScanIndexForward: true,
+      Limit: limit,
+    })
+  );
+
+  return (result.Items as SquarePaymentRecord[]) || [];
+}
+
+/**
+ * DynamoDB-backed Square payment repository
+ */
+export const dynamoSquarePaymentRepository: SquarePaymentRepository = {
+  getPayment,
+  putPayment,
+  listPaymentsByMatchStatus,
+};
@@ -0,0 +1,199 @@
+/**
+ * DynamoDB Users Service Layer
+ *
+ * Handles all DynamoDB operations for the users table.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { User } from '../services/user-service';
+import type { UserRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+/**
+ * Get users table name from config
+ */
+function getUsersTableName(): string {
+  const config = getConfig();
+  const tableName = config.aws.dynamodb.usersTable;
+  console.log('[user-service] Using users table:', tableName, 'Region:', config.aws.region, 'Env:', config.env);
+  return tableName;
+}
+
+/**
+ * Create a new user record
+ */
+export async function createUser(user: User): Promise<User> {
+  const client = getDynamoClient();
+  const tableName = getUsersTableName();
+
+  await client.send(
+    new PutCommand({
+      TableName: tableName,
+      Item: user,
+      ConditionExpression: 'attribute_not_exists(pk)',
+    })
+  );
+
+  return user;
+}
+
+/**
+ * Get user by userId
+ */
+export async function getUserById(userId: string): Promise<User | null> {
+  const client = getDynamoClient();
+  const tableName = getUsersTableName();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: tableName,
+      Key: {
+        pk: `USER#${userId}`,
+      },
+    })
+  );
+
+  return (result.Item as User) || null;
+}
+
+/**
+ * Get user by normalized email (uses GSI)
+ */
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const client = getDynamoClient();
+  const tableName = getUsersTableName();
+
+  // Query using GSI on email
+  const result = await client.send(
+    new QueryCommand({
+      TableName: tableName,
+      IndexName: 'email-index',
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: {
+        ':email': email,
+      },
+      Limit: 1,
+    })
+  );
+
+  if (!result.Items || result.Items.length === 0) {
+    return null;
+  }
+
+  return result.Items[0] as User;
+}
+
+/**
+ * Update user fields
+ */
+export async function updateUser(
+  userId: string,
+  updates: Partial<Omit<User, 'pk' | 'userId'>>
+): Promise<void> {
+  const client = getDynamoClient();
+  const tableName = getUsersTableName();
+
+  const updateExpressions: string[] = [];
+  const removeExpressions: string[] = [];
+  const expressionAttributeNames: Record<string, string> = {};
+  const expressionAttributeValues: Record<string, any> = {};
+
+  Object.entries(updates).forEach(([key, value], index) => {
+    expressionAttributeNames[`#attr${index}`] = key;
+
+    // Cleared optional fields (e.g. squareTeamMemberId) are removed
+    if (value === undefined) {
+      removeExpressions.push(`#attr${index}`);
+      return;
+    }
+
+    updateExpressions.push(`#attr${index} = :val${index}`);
+    expressionAttributeValues[`:val${index}`] = value;
+  });
+
+  if (updateExpressions.length === 0 && removeExpressions.length === 0) {
+    return;
+  }
+
+  await client.send(
+    new UpdateCommand({
+      TableName: tableName,
+      Key: {
+        pk: `USER#${userId}`,
+      },
+      UpdateExpression: [
+        updateExpressions.length > 0 ? `SET ${updateExpressions.join(', ')}` : '',
+        removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+      ].filter(Boolean).join(' '),
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: updateExpressions.length > 0 ? expressionAttributeValues : undefined,
+    })
+  );
+}
+
+/**
+ * List every user (scan; the table only holds staff accounts)
+ */
+export async function listUsers(): Promise<User[]> {
+  const client = getDynamoClient();
+  const tableName = getUsersTableName();
+  const users: User[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await client.send(
+      new ScanCommand({
+        TableName: tableName,
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    users.push(...((result.Items as User[]) || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return users;
+}
+
+/**
+ * DynamoDB-backed user repository
+ */
+export const dynamoUserRepository: UserRepository = {
+  createUser,
+  getUserById,
+  getUserByEmail,
+  updateUser,
+  listUsers,
+};
@@ -0,0 +1,169 @@
+/**
+ * DynamoDB Vehicles Service Layer
+ *
+ * Handles all DynamoDB operations for the vehicles table (partition key
+ * vehicleId, with plateNorm-index and vin-index for matching jobs to a car).
+ * See scripts/create-vehicles-table.ts.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../config';
+import type { Vehicle } from '../types';
+import type { VehicleRepository } from '../repositories/types';
+
+let dynamoClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Vehicles table global secondary indexes
+ */
+export const VEHICLE_INDEXES = {
+  plateNorm: 'plateNorm-index',
+  vin: 'vin-index',
+} as const;
+
+/**
+ * Get or create DynamoDB Document Client
+ */
+function getDynamoClient(): DynamoDBDocumentClient {
+  if (!dynamoClient) {
+    const config = getConfig();
+
+    const client = new DynamoDBClient({
+      region: config.aws.region,
+    });
+
+    dynamoClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertEmptyValues: false,
+      },
+    });
+  }
+
+  return dynamoClient;
+}
+
+function getVehiclesTableName(): string {
+  return getConfig().aws.dynamodb.vehiclesTable;
+}
+
+/**
+ * Create a new vehicle record
+ */
+export async function createVehicle(vehicle: Vehicle): Promise<Vehicle> {
+  await getDynamoClient().send(
+    new PutCommand({
+      TableName: getVehiclesTableName(),
+      Item: vehicle,
+      ConditionExpression: 'attribute_not_exists(vehicleId)',
+    })
+  );
+
+  return vehicle;
+}
+
+/**
+ * Get vehicle by vehicleId
+ */
+export async function getVehicle(vehicleId: string): Promise<Vehicle | null> {
+  const result = await getDynamoClient().send(
+    new GetCommand({
+      TableName: getVehiclesTableName(),
+      Key: { vehicleId },
+    })
+  );
+
+  return (result.Item as Vehicle) || null;
+}
+
+/**
+ * First vehicle with the given index key (plates and VINs are unique per car)
+ */
+async function getVehicleByIndex(indexName: string, keyName: string, keyValue: string): Promise<Vehicle | null> {
+  const result = await getDynamoClient().send(
+    new QueryCommand({
+      TableName: getVehiclesTableName(),
+      IndexName: indexName,
+      KeyConditionExpression: '#key = :key',
+      ExpressionAttributeNames: { '#key': keyName },
+      ExpressionAttributeValues: { ':key': keyValue },
+      Limit: 1,
+    })
+  );
+
+  return (result.Items?.[0] as Vehicle) || null;
+}
+
+/**
+ * Get vehicle by normalized plate (uses GSI)
+ */
+export async function getVehicleByPlate(plateNorm: string): Promise<Vehicle | null> {
+  return getVehicleByIndex(VEHICLE_INDEXES.plateNorm, 'plateNorm', plateNorm);
+}
+
+/**
+ * Get vehicle by normalized VIN (uses GSI)
+ */
+export async function getVehicleByVin(vin: string): Promise<Vehicle | null> {
+  return getVehicleByIndex(VEHICLE_INDEXES.vin, 'vin', vin);
+}
+
+/**
+ * Update vehicle fields (undefined values are removed)
+ */
+export async function updateVehicle(
+  vehicleId: string,
+  updates: Partial<Omit<Vehicle, 'vehicleId' | 'createdAt'>>
+): Promise<Vehicle> {
+  const updateExpressions: string[] = [];
+  const removeExpressions: string[] = [];
+  const expressionAttributeNames: Record<string, string> = {};
+  const expressionAttributeValues: Record<string, any> = {};
+
+  Object.entries(updates).forEach(([key, value], index) => {
+    expressionAttributeNames[`#attr${index}`] = key;
+
+    // Index keys can't be empty strings, so cleared fields are removed
+    if (value === undefined || value === '') {
+      removeExpressions.push(`#attr${index}`);
+      return;
+    }
+
+    updateExpressions.push(`#attr${index} = :val${index}`);
+    expressionAttributeValues[`:val${index}`] = value;
+  });
+
+  const result = await getDynamoClient().send(
+    new UpdateCommand({
+      TableName: getVehiclesTableName(),
+      Key: { vehicleId },
+      UpdateExpression: [
+        updateExpressions.length > 0 ? `SET ${updateExpressions.join(', ')}` : '',
+        removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+      ].filter(Boolean).join(' '),
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: updateExpressions.length > 0 ? expressionAttributeValues : undefined,
+      ReturnValues: 'ALL_NEW',
+    })
+  );
+
+  return result.Attributes as Vehicle;
+}
+
+/**
+ * DynamoDB-backed vehicle repository
+ */
+export const dynamoVehicleRepository: VehicleRepository = {
+  createVehicle,
+  getVehicle,
+  getVehicleByPlate,
+  getVehicleByVin,
+  updateVehicle,
+};
@@ -11,7 +11,11 @@ export interface AWSTableNames {
   // DynamoDB tables
   jobs: string;
   users: string;
+  vehicles: string;
+  customers: string;
+  squarePayments: string;
   checklistTemplates: string;
+  shopSettings: string;
   notifications: string;
   
   // S3 buckets
@@ -60,9 +64,21 @@ export function getAWSTableNames(): AWSTableNames {
     users: buildResourceName(
       process.env.DYNAMODB_USERS_TABLE || 'users'
     ),
+    vehicles: buildResourceName(
+      process.env.DYNAMODB_VEHICLES_TABLE || 'vehicles'
+    ),
+    customers: buildResourceName(
+      process.env.DYNAMODB_CUSTOMERS_TABLE || 'customers'
+    ),
+    squarePayments: buildResourceName(
+      process.env.DYNAMODB_SQUARE_PAYMENTS_TABLE || 'square-payments'
+    ),
     checklistTemplates: buildResourceName(
       process.env.DYNAMODB_CHECKLIST_TEMPLATES_TABLE || 'checklist-templates'
     ),
+    shopSettings: buildResourceName(
+      process.env.DYNAMODB_SHOP_SETTINGS_TABLE || 'shop-settings'
+    ),
     notifications: buildResourceName(
       process.env.DYNAMODB_NOTIFICATIONS_TABLE || 'notifications'
     ),
@@ -86,6 +102,7 @@ export function getTableNamesSummary(): Record<string, string> {
     'DynamoDB Notifications': tables.notifications,
     'DynamoDB Jobs': tables.jobs,
     'DynamoDB Users': tables.users,
+    'DynamoDB Vehicles': tables.vehicles,
     'DynamoDB Checklist Templates': tables.checklistTemplates,
     'S3 Photos Bucket': tables.photosBucket,
     'CloudWatch Log Group': tables.logGroup,
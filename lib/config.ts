@@ -7,6 +7,21 @@
 
 export type Environment = 'qa' | 'prod';
 
+/**
+ * Where jobs, users, templates and notifications are stored
+ * - dynamodb: AWS tables (default)
+ * - memory: per-process, lost on restart (tests)
+ * - file: JSON file on disk (offline development)
+ */
+export type DataStoreDriver = 'dynamodb' | 'memory' | 'file';
+
+/**
+ * Who card payments (no-show fees) are taken through
+ * - square: Square Payments API (default)
+ * - fake: in-process, no money moves (tests, offline development)
+ */
+export type PaymentsDriver = 'square' | 'fake';
+
 export interface Config {
   env: Environment;
   aws: {
@@ -14,7 +29,11 @@ export interface Config {
     dynamodb: {
       jobsTable: string;
       usersTable: string;
+      vehiclesTable: string;
+      customersTable: string;
+      squarePaymentsTable: string;
       checklistTemplatesTable: string;
+      shopSettingsTable: string;
       notificationsTable: string;
     };
     s3: {
@@ -32,6 +51,13 @@ export interface Config {
     level: 'debug' | 'info' | 'warn' | 'error';
     logGroup: string;
   };
+  dataStore: {
+    driver: DataStoreDriver;
+    filePath: string;
+  };
+  payments: {
+    driver: PaymentsDriver;
+  };
 }
 
 /**
@@ -89,9 +115,29 @@ function redactSensitiveConfig(config: Config): any {
       webhookSignatureKey: config.square.webhookSignatureKey ? '[REDACTED]' : '[NOT SET]',
     },
     logging: config.logging,
+    dataStore: config.dataStore,
+    payments: config.payments,
   };
 }
 
+/**
+ * Get data store driver from DATA_STORE variable (defaults to dynamodb)
+ */
+function getDataStoreDriver(): DataStoreDriver {
+  const driver = process.env.DATA_STORE?.toLowerCase();
+  if (driver === 'memory' || driver === 'file') {
+    return driver;
+  }
+  return 'dynamodb';
+}
+
+/**
+ * Get payments driver from PAYMENTS_CLIENT variable (defaults to square)
+ */
+function getPaymentsDriver(): PaymentsDriver {
+  return process.env.PAYMENTS_CLIENT?.toLowerCase() === 'fake' ? 'fake' : 'square';
+}
+
 /**
  * Get application configuration
  * Phase A: Defensive mode - returns safe defaults if env vars missing
@@ -115,6 +161,26 @@ export function getConfig(): Config {
     throw new Error(errorMsg);
   }
   
+  // CRITICAL: Production must never run against an offline data store
+  const dataStoreDriver = getDataStoreDriver();
+  if (env === 'prod' && dataStoreDriver !== 'dynamodb') {
+    const errorMsg = 
+      `FATAL CONFIGURATION ERROR: APP_ENV='prod' but DATA_STORE='${process.env.DATA_STORE}'.\n` +
+      `  Production deployment MUST use DynamoDB. Unset DATA_STORE.`;
+    console.error(errorMsg);
+    throw new Error(errorMsg);
+  }
+  
+  // CRITICAL: Production must take real payments
+  const paymentsDriver = getPaymentsDriver();
+  if (env === 'prod' && paymentsDriver !== 'square') {
+    const errorMsg = 
+      `FATAL CONFIGURATION ERROR: APP_ENV='prod' but PAYMENTS_CLIENT='${process.env.PAYMENTS_CLIENT}'.\n` +
+      `  Production deployment MUST charge through Square. Unset PAYMENTS_CLIENT.`;
+    console.error(errorMsg);
+    throw new Error(errorMsg);
+  }
+  
   return {
     env,
     aws: {
@@ -122,7 +188,11 @@ export function getConfig(): Config {
       dynamodb: {
         jobsTable: getResourceName(process.env.DYNAMODB_JOBS_TABLE || 'jobs'),
         usersTable: getResourceName(process.env.DYNAMODB_USERS_TABLE || 'users'),
+        vehiclesTable: getResourceName(process.env.DYNAMODB_VEHICLES_TABLE || 'vehicles'),
+        customersTable: getResourceName(process.env.DYNAMODB_CUSTOMERS_TABLE || 'customers'),
+        squarePaymentsTable: getResourceName(process.env.DYNAMODB_SQUARE_PAYMENTS_TABLE || 'square-payments'),
         checklistTemplatesTable: getResourceName(process.env.DYNAMODB_CHECKLIST_TEMPLATES_TABLE || 'checklist-templates'),
+        shopSettingsTable: getResourceName(process.env.DYNAMODB_SHOP_SETTINGS_TABLE || 'shop-settings'),
         notificationsTable: getResourceName(process.env.DYNAMODB_NOTIFICATIONS_TABLE || 'notifications'),
       },
       s3: {
@@ -140,6 +210,13 @@ export function getConfig(): Config {
       level: (process.env.LOG_LEVEL as any) || 'info',
       logGroup: getResourceName('logs'),
     },
+    dataStore: {
+      driver: dataStoreDriver,
+      filePath: process.env.DATA_STORE_FILE || `.data/safari-detail-ops-${env}.json`,
+    },
+    payments: {
+      driver: paymentsDriver,
+    },
   };
 }
 
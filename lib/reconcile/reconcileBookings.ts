@@ -11,13 +11,15 @@
  * - Idempotent: can be run multiple times safely
  */
 
-import * as dynamodb from '../aws/dynamodb';
+import { jobRepository } from '../repositories';
 import { listAllBookings } from '../square/bookings-api';
 import type { SquareBooking } from '../square/bookings-api';
 import type { Job } from '../types';
 import { WorkStatus } from '../types';
+import { isSquareCancellable } from '../workflow/status-transitions';
 import { fetchCustomerWithRetry, toCustomerCached } from '../square/customers-api';
 import { fetchServiceName } from '../square/catalog-api';
+import { getJobCustomerFlags } from '../services/customer-service';
 
 /**
  * Fields that are considered "Square-derived" and can be updated during reconciliation
@@ -44,8 +46,21 @@ const STAFF_DERIVED_FIELDS = [
   'photos',
   'receiptPhotos',
   'postCompletionIssue',
+  'issues',
+  'openIssueCount',
+  'activeKey',
+  'openIssueKey',
+  'pendingRefundKey',
+  'redoOfJobId',
+  'parentJobId',
+  'redoIssueId',
+  'redoJobIds',
+  'customerFlags',
   'payment',
+  'priceBreakdown',
+  'addons',
   'vehicleInfo',
+  'vehicleId',
   'notes',
   'statusHistory',
 ] as const;
@@ -200,10 +215,10 @@ async function processBooking(
         currentStatus: existingJob.status,
       });
       
-      // Update job to CANCELLED status if not already cancelled
-      if (existingJob.status !== WorkStatus.CANCELLED) {
+      // Update job to CANCELLED status unless already cancelled or worked on
+      if (isSquareCancellable(existingJob.status)) {
         if (!dryRun) {
-          await dynamodb.updateJob(existingJob.jobId, {
+          await jobRepository.updateJob(existingJob.jobId, {
             status: WorkStatus.CANCELLED,
             cancelledAt: new Date().toISOString(),
             cancelledSource: 'square',
@@ -259,8 +274,8 @@ async function processBooking(
  */
 async function findJobByBookingId(bookingId: string): Promise<Job | null> {
   try {
-    // Use getJobByBookingId which queries by bookingId (requires GSI or scan)
-    return await dynamodb.getJobByBookingId(bookingId);
+    // Use getJobByBookingId which queries bookingId-index
+    return await jobRepository.getJobByBookingId(bookingId);
   } catch (error) {
     console.error('[RECONCILE] Error finding job by bookingId', {
       bookingId,
@@ -320,6 +335,7 @@ async function createJobFromBooking(
       customerEmail: customerCached?.email,
       customerPhone: customerCached?.phone,
       customerCached,
+      customerFlags: await getJobCustomerFlags(booking.customer_id),
       vehicleInfo: {},
       serviceType,
       status: WorkStatus.SCHEDULED,
@@ -332,7 +348,7 @@ async function createJobFromBooking(
       createdBy: 'reconciliation',
     };
 
-    await dynamodb.createJob(newJob);
+    await jobRepository.createJob(newJob);
     
     result.created++;
     
@@ -418,7 +434,7 @@ async function updateJobFromBooking(
     updates.updatedBy = 'reconciliation';
     updates.updatedAt = new Date().toISOString();
     
-    await dynamodb.updateJob(jobId, updates);
+    await jobRepository.updateJob(jobId, updates);
     
     result.updated++;
     
@@ -0,0 +1,89 @@
+/**
+ * Job Index Keys
+ *
+ * Derived attributes that back the job secondary indexes. Shared by every
+ * job repository so boardDate/plateNorm/activeKey/openIssueKey/
+ * pendingRefundKey stay in sync no matter who writes.
+ */
+
+import { WorkStatus, type Job } from '../types';
+import { getBoardDateForTimestamp } from '../utils/timezone';
+import { getOpenIssueCount } from '../workflow/issues';
+import { normalizePlate } from '../utils/vehicle';
+
+/**
+ * Attributes used as index keys.
+ * DynamoDB rejects empty strings for these, so they are removed instead of stored.
+ */
+export const INDEX_KEY_ATTRIBUTES = [
+  'bookingId',
+  'boardDate',
+  'customerId',
+  'plateNorm',
+  'vehicleId',
+  'activeKey',
+  'openIssueKey',
+  'pendingRefundKey',
+];
+
+/**
+ * Work statuses that keep a job on the board after its appointment day
+ * (checked in but not finished)
+ */
+export const BOARD_CARRYOVER_STATUSES: WorkStatus[] = [
+  WorkStatus.CHECKED_IN,
+  WorkStatus.IN_PROGRESS,
+  WorkStatus.QC_READY,
+];
+
+/**
+ * activeKey value while a job is in a carry-over status (the attribute is
+ * removed otherwise, so the active job index only holds those jobs)
+ */
+export const ACTIVE_KEY = 'ACTIVE';
+
+/**
+ * openIssueKey value while a job has unresolved issues (the attribute is
+ * removed otherwise, so the open issue index only holds those jobs)
+ */
+export const OPEN_ISSUE_KEY = 'OPEN';
+
+/**
+ * pendingRefundKey value while a job has a refund waiting on Square (the
+ * attribute is removed otherwise, so the pending refund index only holds
+ * those jobs)
+ */
+export const PENDING_REFUND_KEY = 'PENDING';
+
+/**
+ * Derive index key attributes (boardDate, plateNorm, activeKey,
+ * openIssueKey, pendingRefundKey) from the fields they mirror
+ *
+ * Only returns keys whose source field is present in the given job/update,
+ * so partial updates leave the other index keys untouched.
+ */
+export function deriveIndexKeys(job: Partial<Job>): Partial<Job> {
+  const keys: Partial<Job> = {};
+
+  if (job.appointmentTime) {
+    keys.boardDate = getBoardDateForTimestamp(job.appointmentTime);
+  }
+
+  if (job.vehicleInfo) {
+    keys.plateNorm = normalizePlate(job.vehicleInfo.licensePlate);
+  }
+
+  if (job.status) {
+    keys.activeKey = BOARD_CARRYOVER_STATUSES.includes(job.status) ? ACTIVE_KEY : undefined;
+  }
+
+  if ('openIssueCount' in job || 'issues' in job || 'postCompletionIssue' in job) {
+    keys.openIssueKey = getOpenIssueCount(job) > 0 ? OPEN_ISSUE_KEY : undefined;
+  }
+
+  if ('refunds' in job) {
+    keys.pendingRefundKey = job.refunds?.some(refund => refund.status === 'PENDING') ? PENDING_REFUND_KEY : undefined;
+  }
+
+  return keys;
+}
@@ -0,0 +1,173 @@
+/**
+ * Repository Selection
+ *
+ * Picks the data store from config (DATA_STORE=dynamodb|memory|file) and
+ * exposes one repository per entity. Services and API routes use these
+ * instead of talking to DynamoDB directly, so they can run offline.
+ */
+
+import { getConfig } from '../config';
+import { dynamoJobRepository } from '../aws/dynamodb';
+import { dynamoNotificationRepository } from '../aws/notifications';
+import { dynamoUserRepository } from '../aws/users';
+import { dynamoVehicleRepository } from '../aws/vehicles';
+import { dynamoCustomerRepository } from '../aws/customers';
+import { dynamoSquarePaymentRepository } from '../aws/square-payments';
+import { dynamoChecklistTemplateRepository } from '../aws/checklist-templates';
+import { dynamoShopSettingsRepository } from '../aws/shop-settings';
+import { createMemoryRepositories } from './memory';
+import type {
+  ChecklistTemplateRepository,
+  CustomerRepository,
+  JobRepository,
+  NotificationRepository,
+  Repositories,
+  ShopSettingsRepository,
+  SquarePaymentRepository,
+  UserRepository,
+  VehicleRepository,
+} from './types';
+
+export * from './types';
+
+// Kept on globalThis so every Next.js route bundle shares one in-memory store
+const globalStore = globalThis as typeof globalThis & {
+  __safariRepositories?: Repositories;
+};
+
+/**
+ * Get the repositories for the configured data store
+ */
+export function getRepositories(): Repositories {
+  if (!globalStore.__safariRepositories) {
+    const { dataStore } = getConfig();
+
+    switch (dataStore.driver) {
+      case 'memory':
+        globalStore.__safariRepositories = createMemoryRepositories();
+        break;
+      case 'file':
+        globalStore.__safariRepositories = createMemoryRepositories(dataStore.filePath);
+        break;
+      default:
+        globalStore.__safariRepositories = {
+          jobs: dynamoJobRepository,
+          users: dynamoUserRepository,
+          vehicles: dynamoVehicleRepository,
+          customers: dynamoCustomerRepository,
+          squarePayments: dynamoSquarePaymentRepository,
+          checklistTemplates: dynamoChecklistTemplateRepository,
+          shopSettings: dynamoShopSettingsRepository,
+          notifications: dynamoNotificationRepository,
+        };
+    }
+
+    console.log('[REPOSITORIES] Using data store', {
+      driver: dataStore.driver,
+      filePath: dataStore.driver === 'file' ? dataStore.filePath : undefined,
+    });
+  }
+
+  return globalStore.__safariRepositories;
+}
+
+/**
+ * Replace the active repositories (tests); pass null to re-select from config
+ */
+export function setRepositories(repositories: Repositories | null): void {
+  globalStore.__safariRepositories = repositories ?? undefined;
+}
+
+/**
+ * Job repository for the configured data store
+ */
+export const jobRepository: JobRepository = {
+  createJob: (...args) => getRepositories().jobs.createJob(...args),
+  getJob: (...args) => getRepositories().jobs.getJob(...args),
+  getJobByBookingId: (...args) => getRepositories().jobs.getJobByBookingId(...args),
+  updateJob: (...args) => getRepositories().jobs.updateJob(...args),
+  queryJobsByBoardDate: (...args) => getRepositories().jobs.queryJobsByBoardDate(...args),
+  queryJobsByCustomerId: (...args) => getRepositories().jobs.queryJobsByCustomerId(...args),
+  queryJobsByPlate: (...args) => getRepositories().jobs.queryJobsByPlate(...args),
+  queryJobsByVehicleId: (...args) => getRepositories().jobs.queryJobsByVehicleId(...args),
+  listJobs: (...args) => getRepositories().jobs.listJobs(...args),
+  listActiveJobs: (...args) => getRepositories().jobs.listActiveJobs(...args),
+  listJobsWithOpenIssues: (...args) => getRepositories().jobs.listJobsWithOpenIssues(...args),
+  listJobsWithPendingRefunds: (...args) => getRepositories().jobs.listJobsWithPendingRefunds(...args),
+  deleteJob: (...args) => getRepositories().jobs.deleteJob(...args),
+};
+
+/**
+ * User repository for the configured data store
+ */
+export const userRepository: UserRepository = {
+  createUser: (...args) => getRepositories().users.createUser(...args),
+  getUserById: (...args) => getRepositories().users.getUserById(...args),
+  getUserByEmail: (...args) => getRepositories().users.getUserByEmail(...args),
+  updateUser: (...args) => getRepositories().users.updateUser(...args),
+  listUsers: (...args) => getRepositories().users.listUsers(...args),
+};
+
+/**
+ * Vehicle repository for the configured data store
+ */
+export const vehicleRepository: VehicleRepository = {
+  createVehicle: (...args) => getRepositories().vehicles.createVehicle(...args),
+  getVehicle: (...args) => getRepositories().vehicles.getVehicle(...args),
+  getVehicleByPlate: (...args) => getRepositories().vehicles.getVehicleByPlate(...args),
+  getVehicleByVin: (...args) => getRepositories().vehicles.getVehicleByVin(...args),
+  updateVehicle: (...args) => getRepositories().vehicles.updateVehicle(...args),
+};
+
+/**
+ * Customer repository for the configured data store
+ */
+export const customerRepository: CustomerRepository = {
+  getCustomerFlags: (...args) => getRepositories().customers.getCustomerFlags(...args),
+  putCustomerFlags: (...args) => getRepositories().customers.putCustomerFlags(...args),
+};
+
+/**
+ * Square payment repository for the configured data store
+ */
+export const squarePaymentRepository: SquarePaymentRepository = {
+  getPayment: (...args) => getRepositories().squarePayments.getPayment(...args),
+  putPayment: (...args) => getRepositories().squarePayments.putPayment(...args),
+  listPaymentsByMatchStatus: (...args) => getRepositories().squarePayments.listPaymentsByMatchStatus(...args),
+};
+
+/**
+ * Checklist template repository for the configured data store
+ */
+export const checklistTemplateRepository: ChecklistTemplateRepository = {
+  getTemplate: (...args) => getRepositories().checklistTemplates.getTemplate(...args),
+  putTemplate: (...args) => getRepositories().checklistTemplates.putTemplate(...args),
+  listTemplates: (...args) => getRepositories().checklistTemplates.listTemplates(...args),
+  getWorkflow: (...args) => getRepositories().checklistTemplates.getWorkflow(...args),
+  putWorkflow: (...args) => getRepositories().checklistTemplates.putWorkflow(...args),
+  listWorkflows: (...args) => getRepositories().checklistTemplates.listWorkflows(...args),
+};
+
+/**
+ * Shop settings repository for the configured data store
+ */
+export const shopSettingsRepository: ShopSettingsRepository = {
+  getBayConfig: (...args) => getRepositories().shopSettings.getBayConfig(...args),
+  putBayConfig: (...args) => getRepositories().shopSettings.putBayConfig(...args),
+  getNoShowPolicy: (...args) => getRepositories().shopSettings.getNoShowPolicy(...args),
+  putNoShowPolicy: (...args) => getRepositories().shopSettings.putNoShowPolicy(...args),
+  getTaxConfig: (...args) => getRepositories().shopSettings.getTaxConfig(...args),
+  putTaxConfig: (...args) => getRepositories().shopSettings.putTaxConfig(...args),
+};
+
+/**
+ * Notification repository for the configured data store
+ */
+export const notificationRepository: NotificationRepository = {
+  createNotification: (...args) => getRepositories().notifications.createNotification(...args),
+  getNotifications: (...args) => getRepositories().notifications.getNotifications(...args),
+  getUnreadCount: (...args) => getRepositories().notifications.getUnreadCount(...args),
+  markAsRead: (...args) => getRepositories().notifications.markAsRead(...args),
+  markAllAsRead: (...args) => getRepositories().notifications.markAllAsRead(...args),
+  isDuplicateNotification: (...args) => getRepositories().notifications.isDuplicateNotification(...args),
+};
@@ -0,0 +1,528 @@
+/**
+ * In-Memory Repositories
+ *
+ * Offline implementation of every repository for local development and tests.
+ * Mirrors the DynamoDB behaviour the app relies on (index keys, versioning,
+ * conditional creates, newest-first ordering) without any AWS access.
+ *
+ * With a file path the data is persisted as JSON and re-read on every call,
+ * so several processes (e.g. Next.js dev workers) see the same data.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Job, ChecklistTemplate, ServiceWorkflow, Notification, BayConfig, NoShowPolicy, TaxConfig, Vehicle, CustomerFlags, SquarePaymentRecord } from '../types';
+import type { User } from '../services/user-service';
+import { normalizePlate } from '../utils/vehicle';
+import { ACTIVE_KEY, deriveIndexKeys, INDEX_KEY_ATTRIBUTES, OPEN_ISSUE_KEY, PENDING_REFUND_KEY } from './index-keys';
+import {
+  VersionConflictError,
+  type ChecklistTemplateRepository,
+  type JobPage,
+  type JobQueryOptions,
+  type JobRepository,
+  type NotificationRepository,
+  type Repositories,
+  type UpdateJobOptions,
+  type UserRepository,
+  type CustomerRepository,
+  type ShopSettingsRepository,
+  type SquarePaymentRepository,
+  type VehicleRepository,
+} from './types';
+
+/**
+ * Everything held by the store, keyed by each record's primary key
+ */
+interface StoreData {
+  jobs: Record<string, Job>;
+  users: Record<string, User>;
+  vehicles: Record<string, Vehicle>;
+  customers: Record<string, CustomerFlags>;
+  squarePayments: Record<string, SquarePaymentRecord>;
+  checklistTemplates: Record<string, ChecklistTemplate>;
+  workflows: Record<string, ServiceWorkflow>;
+  bays: BayConfig | null;
+  noShowPolicy: NoShowPolicy | null;
+  taxConfig: TaxConfig | null;
+  notifications: Record<string, Notification>;
+}
+
+interface Store {
+  read<T>(fn: (data: StoreData) => T): T;
+  write<T>(fn: (data: StoreData) => T): T;
+}
+
+/**
+ * Deep copy through JSON, which also drops undefined values like the
+ * DynamoDB document client does
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Error matching the DynamoDB exception for failed conditional writes
+ */
+function conditionalCheckFailed(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+function createStore(filePath?: string): Store {
+  let data: StoreData = {
+    jobs: {},
+    users: {},
+    vehicles: {},
+    customers: {},
+    squarePayments: {},
+    checklistTemplates: {},
+    workflows: {},
+    bays: null,
+    noShowPolicy: null,
+    taxConfig: null,
+    notifications: {},
+  };
+
+  const load = (): StoreData => {
+    if (filePath && fs.existsSync(filePath)) {
+      data = { ...data, ...JSON.parse(fs.readFileSync(filePath, 'utf8')) };
+    }
+    return data;
+  };
+
+  const save = (): void => {
+    if (filePath) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+    }
+  };
+
+  return {
+    read: fn => clone(fn(load())),
+    write: fn => {
+      const result = fn(load());
+      save();
+      return clone(result);
+    },
+  };
+}
+
+/**
+ * Paginate an already filtered and sorted list (cursor is the next offset)
+ */
+function paginate(jobs: Job[], options: JobQueryOptions = {}): JobPage {
+  const offset = options.nextToken
+    ? JSON.parse(Buffer.from(options.nextToken, 'base64').toString()).offset
+    : 0;
+  const limit = options.limit || 50;
+  const page = jobs.slice(offset, offset + limit);
+  const nextOffset = offset + limit;
+
+  return {
+    jobs: page,
+    nextToken: nextOffset < jobs.length
+      ? Buffer.from(JSON.stringify({ offset: nextOffset })).toString('base64')
+      : undefined,
+  };
+}
+
+function createJobRepository(store: Store): JobRepository {
+  const queryByKey = (
+    keyName: 'boardDate' | 'customerId' | 'plateNorm' | 'vehicleId' | 'activeKey' | 'openIssueKey' | 'pendingRefundKey',
+    keyValue: string,
+    options: JobQueryOptions & { customerId?: string; ascending?: boolean } = {}
+  ): JobPage => {
+    const ascending = options.ascending ?? true;
+    const jobs = store.read(data => Object.values(data.jobs))
+      .filter(job => job[keyName] === keyValue)
+      .filter(job => !options.status || job.status === options.status)
+      .filter(job => !options.customerId || job.customerId === options.customerId)
+      .sort((a, b) => {
+        const order = (a.appointmentTime || '').localeCompare(b.appointmentTime || '');
+        return ascending ? order : -order;
+      });
+
+    return paginate(jobs, options);
+  };
+
+  return {
+    async createJob(job) {
+      return store.write(data => {
+        if (data.jobs[job.jobId]) {
+          throw conditionalCheckFailed(`Job ${job.jobId} already exists`);
+        }
+
+        const timestamp = new Date().toISOString();
+        const item: Job = {
+          ...job,
+          ...deriveIndexKeys(job),
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          version: 1,
+        };
+
+        for (const key of INDEX_KEY_ATTRIBUTES) {
+          if ((item as any)[key] === '') {
+            delete (item as any)[key];
+          }
+        }
+
+        data.jobs[job.jobId] = clone(item);
+        return item;
+      });
+    },
+
+    async getJob(jobId) {
+      return store.read(data => data.jobs[jobId] || null);
+    },
+
+    async getJobByBookingId(bookingId) {
+      return store.read(data =>
+        Object.values(data.jobs).find(job => job.bookingId === bookingId) || null
+      );
+    },
+
+    async updateJob(jobId, updates, options: UpdateJobOptions = {}) {
+      return store.write(data => {
+        const existing = data.jobs[jobId];
+        const currentVersion = existing?.version ?? 0;
+
+        if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+          throw new VersionConflictError(jobId, options.expectedVersion, currentVersion);
+        }
+
+        const { jobId: _, createdAt, updatedAt, version, ...allowedUpdates } = {
+          ...updates,
+          ...deriveIndexKeys(updates),
+        } as any;
+
+        const item: any = {
+          ...(existing || { jobId }),
+          ...allowedUpdates,
+          updatedAt: updates.updatedAt || new Date().toISOString(),
+          version: currentVersion + 1,
+        };
+
+        for (const key of INDEX_KEY_ATTRIBUTES) {
+          if (key in allowedUpdates && (item[key] === '' || item[key] === undefined)) {
+            delete item[key];
+          }
+        }
+
+        data.jobs[jobId] = clone(item);
+        return item as Job;
+      });
+    },
+
+    async queryJobsByBoardDate(boardDate, options) {
+      return queryByKey('boardDate', boardDate, options);
+    },
+
+    async queryJobsByCustomerId(customerId, options) {
+      return queryByKey('customerId', customerId, { ...options, ascending: false });
+    },
+
+    async queryJobsByPlate(plate, options) {
+      const plateNorm = normalizePlate(plate);
+      return plateNorm
+        ? queryByKey('plateNorm', plateNorm, { ...options, ascending: false })
+        : { jobs: [] };
+    },
+
+    async queryJobsByVehicleId(vehicleId, options) {
+      return queryByKey('vehicleId', vehicleId, { ...options, ascending: false });
+    },
+
+    async listJobs(options) {
+      if (options?.boardDate) {
+        return queryByKey('boardDate', options.boardDate, options);
+      }
+
+      if (options?.customerId) {
+        return queryByKey('customerId', options.customerId, { ...options, ascending: false });
+      }
+
+      const jobs = store.read(data => Object.values(data.jobs))
+        .filter(job => !options?.status || job.status === options.status);
+
+      return paginate(jobs, options);
+    },
+
+    async listActiveJobs(options) {
+      return queryByKey('activeKey', ACTIVE_KEY, options);
+    },
+
+    async listJobsWithOpenIssues(options) {
+      return queryByKey('openIssueKey', OPEN_ISSUE_KEY, options);
+    },
+
+    async listJobsWithPendingRefunds(options) {
+      return queryByKey('pendingRefundKey', PENDING_REFUND_KEY, options);
+    },
+
+    async deleteJob(jobId) {
+      store.write(data => {
+        delete data.jobs[jobId];
+      });
+    },
+  };
+}
+
+function createUserRepository(store: Store): UserRepository {
+  return {
+    async createUser(user) {
+      return store.write(data => {
+        if (data.users[user.userId]) {
+          throw conditionalCheckFailed(`User ${user.userId} already exists`);
+        }
+        data.users[user.userId] = clone(user);
+        return user;
+      });
+    },
+
+    async getUserById(userId) {
+      return store.read(data => data.users[userId] || null);
+    },
+
+    async getUserByEmail(email) {
+      return store.read(data =>
+        Object.values(data.users).find(user => user.email === email) || null
+      );
+    },
+
+    async updateUser(userId, updates) {
+      store.write(data => {
+        data.users[userId] = clone({ ...data.users[userId], ...updates });
+      });
+    },
+
+    async listUsers() {
+      return store.read(data => Object.values(data.users));
+    },
+  };
+}
+
+function createVehicleRepository(store: Store): VehicleRepository {
+  return {
+    async createVehicle(vehicle) {
+      return store.write(data => {
+        if (data.vehicles[vehicle.vehicleId]) {
+          throw conditionalCheckFailed(`Vehicle ${vehicle.vehicleId} already exists`);
+        }
+        data.vehicles[vehicle.vehicleId] = clone(vehicle);
+        return vehicle;
+      });
+    },
+
+    async getVehicle(vehicleId) {
+      return store.read(data => data.vehicles[vehicleId] || null);
+    },
+
+    async getVehicleByPlate(plateNorm) {
+      return store.read(data =>
+        Object.values(data.vehicles).find(vehicle => vehicle.plateNorm === plateNorm) || null
+      );
+    },
+
+    async getVehicleByVin(vin) {
+      return store.read(data =>
+        Object.values(data.vehicles).find(vehicle => vehicle.vin === vin) || null
+      );
+    },
+
+    async updateVehicle(vehicleId, updates) {
+      return store.write(data => {
+        const item = clone({ ...data.vehicles[vehicleId], ...updates, vehicleId });
+        data.vehicles[vehicleId] = item;
+        return item;
+      });
+    },
+  };
+}
+
+function createCustomerRepository(store: Store): CustomerRepository {
+  return {
+    async getCustomerFlags(customerId) {
+      return store.read(data => data.customers[customerId] || null);
+    },
+
+    async putCustomerFlags(flags) {
+      store.write(data => {
+        data.customers[flags.customerId] = clone(flags);
+      });
+    },
+  };
+}
+
+function createSquarePaymentRepository(store: Store): SquarePaymentRepository {
+  return {
+    async getPayment(paymentId) {
+      return store.read(data => data.squarePayments[paymentId] || null);
+    },
+
+    async putPayment(payment) {
+      store.write(data => {
+        data.squarePayments[payment.paymentId] = clone(payment);
+      });
+    },
+
+    async listPaymentsByMatchStatus(matchStatus, limit = 100) {
+      return store.read(data =>
+        Object.values(data.squarePayments)
+          .filter(payment => payment.matchStatus === matchStatus)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .slice(0, limit)
+      );
+    },
+  };
+}
+
+function createChecklistTemplateRepository(store: Store): ChecklistTemplateRepository {
+  return {
+    async getTemplate(templateId) {
+      return store.read(data => data.checklistTemplates[templateId] || null);
+    },
+
+    async putTemplate(template) {
+      store.write(data => {
+        data.checklistTemplates[template.templateId] = clone(template);
+      });
+    },
+
+    async listTemplates() {
+      return store.read(data => Object.values(data.checklistTemplates));
+    },
+
+    async getWorkflow(serviceType) {
+      return store.read(data => data.workflows[`${serviceType}#WORKFLOW`] || null);
+    },
+
+    async putWorkflow(workflow) {
+      store.write(data => {
+        data.workflows[workflow.templateId] = clone(workflow);
+      });
+    },
+
+    async listWorkflows() {
+      return store.read(data => Object.values(data.workflows));
+    },
+  };
+}
+
+function createShopSettingsRepository(store: Store): ShopSettingsRepository {
+  return {
+    async getBayConfig() {
+      return store.read(data => data.bays);
+    },
+
+    async putBayConfig(config) {
+      store.write(data => {
+        data.bays = clone(config);
+      });
+    },
+
+    async getNoShowPolicy() {
+      return store.read(data => data.noShowPolicy);
+    },
+
+    async putNoShowPolicy(policy) {
+      store.write(data => {
+        data.noShowPolicy = clone(policy);
+      });
+    },
+
+    async getTaxConfig() {
+      return store.read(data => data.taxConfig);
+    },
+
+    async putTaxConfig(config) {
+      store.write(data => {
+        data.taxConfig = clone(config);
+      });
+    },
+  };
+}
+
+function createNotificationRepository(store: Store): NotificationRepository {
+  const unreadFor = (data: StoreData, locationId: string) =>
+    Object.values(data.notifications).filter(
+      notification => notification.locationId === locationId && !notification.readAt
+    );
+
+  return {
+    async createNotification(notification) {
+      return store.write(data => {
+        const item = { ...notification, createdAt: new Date().toISOString() };
+        data.notifications[item.notificationId] = clone(item);
+        return item;
+      });
+    },
+
+    async getNotifications(locationId, since, limit = 50) {
+      return store.read(data =>
+        Object.values(data.notifications)
+          .filter(notification => notification.locationId === locationId)
+          .filter(notification => !since || notification.createdAt > since)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, limit)
+      );
+    },
+
+    async getUnreadCount(locationId) {
+      return store.read(data => unreadFor(data, locationId).length);
+    },
+
+    async markAsRead(notificationId) {
+      store.write(data => {
+        if (data.notifications[notificationId]) {
+          data.notifications[notificationId].readAt = new Date().toISOString();
+        }
+      });
+    },
+
+    async markAllAsRead(locationId) {
+      return store.write(data => {
+        const unread = unreadFor(data, locationId);
+        const readAt = new Date().toISOString();
+        unread.forEach(notification => {
+          notification.readAt = readAt;
+        });
+        return unread.length;
+      });
+    },
+
+    async isDuplicateNotification(locationId, dedupeKey, withinMinutes = 5) {
+      const cutoffTime = new Date(Date.now() - withinMinutes * 60 * 1000).toISOString();
+      return store.read(data =>
+        Object.values(data.notifications).some(
+          notification =>
+            notification.locationId === locationId &&
+            notification.actor === dedupeKey &&
+            notification.createdAt > cutoffTime
+        )
+      );
+    },
+  };
+}
+
+/**
+ * Create an in-memory set of repositories
+ *
+ * @param filePath - Optional JSON file to persist to (file data store)
+ */
+export function createMemoryRepositories(filePath?: string): Repositories {
+  const store = createStore(filePath);
+
+  return {
+    jobs: createJobRepository(store),
+    users: createUserRepository(store),
+    vehicles: createVehicleRepository(store),
+    customers: createCustomerRepository(store),
+    squarePayments: createSquarePaymentRepository(store),
+    checklistTemplates: createChecklistTemplateRepository(store),
+    shopSettings: createShopSettingsRepository(store),
+    notifications: createNotificationRepository(store),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Repository Interfaces
+ *
+ * Storage-agnostic contracts for jobs, users, vehicles, customer flags,
+ * Square payments, checklist templates and notifications.
+ * Implemented by the DynamoDB modules in lib/aws and by the in-memory/file
+ * store in lib/repositories/memory.ts. See lib/repositories/index.ts for selection.
+ */
+
+import type { Job, WorkStatus, ChecklistTemplate, ServiceWorkflow, Notification, BayConfig, NoShowPolicy, TaxConfig, Vehicle, CustomerFlags, SquarePaymentMatchStatus, SquarePaymentRecord } from '../types';
+import type { User } from '../services/user-service';
+
+/**
+ * Options shared by the paginated job queries
+ */
+export interface JobQueryOptions {
+  status?: WorkStatus;
+  limit?: number;
+  nextToken?: string;
+}
+
+/**
+ * One page of jobs plus an opaque cursor for the next page
+ */
+export interface JobPage {
+  jobs: Job[];
+  nextToken?: string;
+}
+
+/**
+ * Options for conditional job writes
+ */
+export interface UpdateJobOptions {
+  /** Only write if the stored version still matches (legacy jobs without a version count as 0) */
+  expectedVersion?: number;
+}
+
+/**
+ * Thrown when a conditional job write loses a race with another writer
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion?: number
+  ) {
+    super(`Job ${jobId} was modified by someone else (expected version ${expectedVersion}, current ${currentVersion ?? 'unknown'})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Job storage
+ */
+export interface JobRepository {
+  createJob(job: Job): Promise<Job>;
+  getJob(jobId: string): Promise<Job | null>;
+  getJobByBookingId(bookingId: string): Promise<Job | null>;
+  updateJob(jobId: string, updates: Partial<Job>, options?: UpdateJobOptions): Promise<Job>;
+  queryJobsByBoardDate(boardDate: string, options?: JobQueryOptions): Promise<JobPage>;
+  queryJobsByCustomerId(customerId: string, options?: JobQueryOptions): Promise<JobPage>;
+  queryJobsByPlate(plate: string, options?: JobQueryOptions): Promise<JobPage>;
+  /** Jobs linked to a vehicle profile, newest appointment first */
+  queryJobsByVehicleId(vehicleId: string, options?: JobQueryOptions): Promise<JobPage>;
+  listJobs(options?: JobQueryOptions & { customerId?: string; boardDate?: string }): Promise<JobPage>;
+  /** Jobs checked in and not yet finished, whatever their appointment day (board carry-over) */
+  listActiveJobs(options?: JobQueryOptions): Promise<JobPage>;
+  /** Jobs with at least one unresolved post-completion issue (the manager issue queue) */
+  listJobsWithOpenIssues(options?: JobQueryOptions): Promise<JobPage>;
+  /** Jobs with a refund still PENDING in Square (the reconciler's resend list) */
+  listJobsWithPendingRefunds(options?: JobQueryOptions): Promise<JobPage>;
+  deleteJob(jobId: string): Promise<void>;
+}
+
+/**
+ * User account storage
+ */
+export interface UserRepository {
+  /** Fails if a user with the same userId already exists */
+  createUser(user: User): Promise<User>;
+  getUserById(userId: string): Promise<User | null>;
+  /** Expects an already-normalized (lowercase, trimmed) email */
+  getUserByEmail(email: string): Promise<User | null>;
+  updateUser(userId: string, updates: Partial<Omit<User, 'pk' | 'userId'>>): Promise<void>;
+  /** Every user account (small table: staff only) */
+  listUsers(): Promise<User[]>;
+}
+
+/**
+ * Vehicle profile storage
+ */
+export interface VehicleRepository {
+  /** Fails if a vehicle with the same vehicleId already exists */
+  createVehicle(vehicle: Vehicle): Promise<Vehicle>;
+  getVehicle(vehicleId: string): Promise<Vehicle | null>;
+  /** Expects an already-normalized plate (see normalizePlate) */
+  getVehicleByPlate(plateNorm: string): Promise<Vehicle | null>;
+  /** Expects an already-normalized VIN (see normalizeVin) */
+  getVehicleByVin(vin: string): Promise<Vehicle | null>;
+  /** Undefined values remove the field */
+  updateVehicle(vehicleId: string, updates: Partial<Omit<Vehicle, 'vehicleId' | 'createdAt'>>): Promise<Vehicle>;
+}
+
+/**
+ * Customer flag storage (one record per Square customer)
+ */
+export interface CustomerRepository {
+  getCustomerFlags(customerId: string): Promise<CustomerFlags | null>;
+  /** Written whole */
+  putCustomerFlags(flags: CustomerFlags): Promise<void>;
+}
+
+/**
+ * Square payment storage (every payment seen and what it was matched to)
+ */
+export interface SquarePaymentRepository {
+  getPayment(paymentId: string): Promise<SquarePaymentRecord | null>;
+  /** Written whole */
+  putPayment(payment: SquarePaymentRecord): Promise<void>;
+  /** Oldest payment first */
+  listPaymentsByMatchStatus(matchStatus: SquarePaymentMatchStatus, limit?: number): Promise<SquarePaymentRecord[]>;
+}
+
+/**
+ * Checklist template and service workflow storage (both written whole,
+ * workflows keyed {serviceType}#WORKFLOW alongside the templates)
+ */
+export interface ChecklistTemplateRepository {
+  getTemplate(templateId: string): Promise<ChecklistTemplate | null>;
+  putTemplate(template: ChecklistTemplate): Promise<void>;
+  /** Checklist templates only (workflows are listed separately) */
+  listTemplates(): Promise<ChecklistTemplate[]>;
+  getWorkflow(serviceType: string): Promise<ServiceWorkflow | null>;
+  putWorkflow(workflow: ServiceWorkflow): Promise<void>;
+  listWorkflows(): Promise<ServiceWorkflow[]>;
+}
+
+/**
+ * Shop settings storage (one record per setting, each written whole)
+ */
+export interface ShopSettingsRepository {
+  getBayConfig(): Promise<BayConfig | null>;
+  putBayConfig(config: BayConfig): Promise<void>;
+  getNoShowPolicy(): Promise<NoShowPolicy | null>;
+  putNoShowPolicy(policy: NoShowPolicy): Promise<void>;
+  getTaxConfig(): Promise<TaxConfig | null>;
+  putTaxConfig(config: TaxConfig): Promise<void>;
+}
+
+/**
+ * Notification storage
+ */
+export interface NotificationRepository {
+  createNotification(notification: Notification): Promise<Notification>;
+  getNotifications(locationId: string, since?: string, limit?: number): Promise<Notification[]>;
+  getUnreadCount(locationId: string): Promise<number>;
+  markAsRead(notificationId: string): Promise<void>;
+  markAllAsRead(locationId: string): Promise<number>;
+  isDuplicateNotification(locationId: string, dedupeKey: string, withinMinutes?: number): Promise<boolean>;
+}
+
+/**
+ * All repositories for one data store
+ */
+export interface Repositories {
+  jobs: JobRepository;
+  users: UserRepository;
+  vehicles: VehicleRepository;
+  customers: CustomerRepository;
+  squarePayments: SquarePaymentRepository;
+  checklistTemplates: ChecklistTemplateRepository;
+  shopSettings: ShopSettingsRepository;
+  notifications: NotificationRepository;
+}
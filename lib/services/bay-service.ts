@@ -0,0 +1,124 @@
+/**
+ * Bay Service
+ *
+ * The shop's bay list (stored whole in the shop settings), the
+ * hourly occupancy grid for a board date and capacity checks for new or
+ * moved bookings.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { addMinutes } from 'date-fns';
+import { jobRepository, shopSettingsRepository } from '../repositories';
+import type {
+  Bay,
+  BayCapacityCheck,
+  BayConfig,
+  BayOccupancyResponse,
+  UpdateBaysRequest,
+  UserAudit,
+} from '../types';
+import {
+  BayError,
+  checkBayCapacity,
+  getBayOccupancy,
+  normalizeCapabilities,
+  validateBays,
+} from '../workflow/bays';
+import { getBoardDateForTimestamp } from '../utils/timezone';
+import { listJobsByBoardDateRange } from './job-service';
+import { getBayCapabilitiesByService } from './workflow-service';
+
+/**
+ * Every bay, active or not, in the shop's order
+ */
+export async function listBays(): Promise<Bay[]> {
+  const config = await shopSettingsRepository.getBayConfig();
+  return config?.bays || [];
+}
+
+/**
+ * Replace the bay list (bays sent without a bayId are new)
+ *
+ * @throws BayError if a name is missing or repeated
+ */
+export async function saveBays(request: UpdateBaysRequest, updatedBy?: UserAudit): Promise<Bay[]> {
+  const errors = validateBays(request.bays);
+  if (errors.length > 0) {
+    throw new BayError('INVALID_BAYS', errors[0], errors);
+  }
+
+  const bays: Bay[] = request.bays.map(bay => ({
+    bayId: bay.bayId || uuidv4(),
+    name: bay.name.trim(),
+    capabilities: normalizeCapabilities(bay.capabilities),
+    isActive: bay.isActive ?? true,
+  }));
+
+  const config: BayConfig = {
+    settingId: 'BAYS',
+    bays,
+    updatedAt: new Date().toISOString(),
+    ...(updatedBy && { updatedBy }),
+  };
+
+  await shopSettingsRepository.putBayConfig(config);
+
+  console.log('[Bay Service] Saved bays', {
+    bays: bays.map(bay => bay.name),
+    active: bays.filter(bay => bay.isActive).length,
+  });
+
+  return bays;
+}
+
+/**
+ * Hour-by-hour bay usage for a board date
+ */
+export async function getBayOccupancyForDate(boardDate: string): Promise<BayOccupancyResponse> {
+  const [jobs, bays] = await Promise.all([listJobsByBoardDateRange(boardDate, boardDate), listBays()]);
+
+  return {
+    boardDate,
+    bays: bays.filter(bay => bay.isActive),
+    jobs: jobs.map(({ jobId, customerName, serviceType, appointmentTime, status }) => ({
+      jobId,
+      customerName,
+      serviceType,
+      appointmentTime,
+      status,
+    })),
+    hours: getBayOccupancy(boardDate, jobs, bays),
+  };
+}
+
+/**
+ * Whether a booking slot fits in the shop's bays
+ *
+ * @param slot.bookingId - Square booking being moved (its own job doesn't count against it)
+ * @param slot.serviceType - Service being booked; falls back to the moved job's service
+ */
+export async function checkBayCapacityForSlot(slot: {
+  startAt: string;
+  durationMinutes: number;
+  serviceType?: string;
+  bookingId?: string;
+}): Promise<BayCapacityCheck> {
+  const [bays, bayCapabilities, movedJob] = await Promise.all([
+    listBays(),
+    getBayCapabilitiesByService(),
+    slot.bookingId ? jobRepository.getJobByBookingId(slot.bookingId) : Promise.resolve(null),
+  ]);
+
+  // Late slots can run past midnight into the next board date
+  const jobs = await listJobsByBoardDateRange(
+    getBoardDateForTimestamp(slot.startAt),
+    getBoardDateForTimestamp(addMinutes(new Date(slot.startAt), slot.durationMinutes).toISOString())
+  );
+
+  return checkBayCapacity({
+    startAt: slot.startAt,
+    durationMinutes: slot.durationMinutes,
+    serviceType: slot.serviceType || movedJob?.serviceType,
+    excludeJobId: movedJob?.jobId,
+  }, jobs, bays, bayCapabilities);
+}
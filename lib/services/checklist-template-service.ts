@@ -1,19 +1,11 @@
 /**
  * Checklist Template Service
  * 
- * Handles CRUD operations for checklist templates in DynamoDB.
+ * Handles CRUD operations for checklist templates (storage via the template repository).
  * Templates are stored per service type + checklist type (TECH/QC).
  */
 
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  DynamoDBDocumentClient,
-  PutCommand,
-  GetCommand,
-  UpdateCommand,
-  ScanCommand,
-} from '@aws-sdk/lib-dynamodb';
-import { getConfig } from '../config';
+import { checklistTemplateRepository } from '../repositories';
 import {
   ChecklistTemplate,
   ChecklistTemplateItem,
@@ -22,30 +14,6 @@ import {
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
-let dynamoClient: DynamoDBDocumentClient | null = null;
-
-/**
- * Get or create DynamoDB Document Client
- */
-function getDynamoClient(): DynamoDBDocumentClient {
-  if (!dynamoClient) {
-    const config = getConfig();
-
-    const client = new DynamoDBClient({
-      region: config.aws.region,
-    });
-
-    dynamoClient = DynamoDBDocumentClient.from(client, {
-      marshallOptions: {
-        removeUndefinedValues: true,
-        convertEmptyValues: false,
-      },
-    });
-  }
-
-  return dynamoClient;
-}
-
 /**
  * Generate template ID from service type and checklist type
  */
@@ -60,31 +28,23 @@ export async function getTemplate(
   serviceType: string,
   type: ChecklistType
 ): Promise<ChecklistTemplate | null> {
-  const client = getDynamoClient();
-  const config = getConfig();
   const templateId = generateTemplateId(serviceType, type);
 
   console.log('[Checklist Template Service] Getting template:', {
     serviceType,
     type,
     templateId,
-    tableName: config.aws.dynamodb.checklistTemplatesTable,
   });
 
   try {
-    const result = await client.send(
-      new GetCommand({
-        TableName: config.aws.dynamodb.checklistTemplatesTable,
-        Key: { templateId },
-      })
-    );
+    const template = await checklistTemplateRepository.getTemplate(templateId);
 
     console.log('[Checklist Template Service] Template result:', {
       templateId,
-      found: !!result.Item,
+      found: !!template,
     });
 
-    return result.Item as ChecklistTemplate | null;
+    return template;
   } catch (error) {
     console.error('[Checklist Template Service] Error getting template:', {
       templateId,
@@ -139,15 +99,7 @@ export async function getOrCreateTemplate(
     ...(updatedBy && { updatedBy }),
   };
 
-  const client = getDynamoClient();
-  const config = getConfig();
-
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: template,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(template);
 
   return template;
 }
@@ -174,8 +126,6 @@ export async function addTemplateItem(
   };
 
   // Update template
-  const client = getDynamoClient();
-  const config = getConfig();
   const timestamp = new Date().toISOString();
 
   const updatedTemplate: ChecklistTemplate = {
@@ -186,12 +136,7 @@ export async function addTemplateItem(
     ...(updatedBy && { updatedBy }),
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: updatedTemplate,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(updatedTemplate);
 
   return updatedTemplate;
 }
@@ -225,8 +170,6 @@ export async function updateTemplateItem(
   };
 
   // Update template
-  const client = getDynamoClient();
-  const config = getConfig();
   const timestamp = new Date().toISOString();
 
   const updatedTemplate: ChecklistTemplate = {
@@ -237,12 +180,7 @@ export async function updateTemplateItem(
     ...(updatedBy && { updatedBy }),
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: updatedTemplate,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(updatedTemplate);
 
   return updatedTemplate;
 }
@@ -274,8 +212,6 @@ export async function deleteTemplateItem(
   };
 
   // Update template
-  const client = getDynamoClient();
-  const config = getConfig();
   const timestamp = new Date().toISOString();
 
   const updatedTemplate: ChecklistTemplate = {
@@ -286,12 +222,7 @@ export async function deleteTemplateItem(
     ...(updatedBy && { updatedBy }),
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: updatedTemplate,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(updatedTemplate);
 
   return updatedTemplate;
 }
@@ -333,8 +264,6 @@ export async function reorderTemplateItems(
   const allItems = [...reorderedItems, ...unorderedItems];
 
   // Update template
-  const client = getDynamoClient();
-  const config = getConfig();
   const timestamp = new Date().toISOString();
 
   const updatedTemplate: ChecklistTemplate = {
@@ -345,12 +274,7 @@ export async function reorderTemplateItems(
     ...(updatedBy && { updatedBy }),
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: updatedTemplate,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(updatedTemplate);
 
   return updatedTemplate;
 }
@@ -376,20 +300,12 @@ export async function getActiveTemplateItems(
  * List all unique service types from templates
  */
 export async function getAllServiceTypes(): Promise<string[]> {
-  const client = getDynamoClient();
-  const config = getConfig();
-
-  const result = await client.send(
-    new ScanCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      ProjectionExpression: 'serviceType',
-    })
-  );
+  const templates = await checklistTemplateRepository.listTemplates();
 
   const serviceTypes = new Set<string>();
-  result.Items?.forEach((item) => {
-    if (item.serviceType) {
-      serviceTypes.add(item.serviceType as string);
+  templates.forEach((template) => {
+    if (template.serviceType) {
+      serviceTypes.add(template.serviceType);
     }
   });
 
@@ -430,8 +346,6 @@ export async function bulkInsertChecklistItems(
   }));
 
   // Update template
-  const client = getDynamoClient();
-  const config = getConfig();
   const timestamp = new Date().toISOString();
 
   const updatedTemplate: ChecklistTemplate = {
@@ -442,12 +356,7 @@ export async function bulkInsertChecklistItems(
     ...(updatedBy && { updatedBy }),
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: config.aws.dynamodb.checklistTemplatesTable,
-      Item: updatedTemplate,
-    })
-  );
+  await checklistTemplateRepository.putTemplate(updatedTemplate);
 
   console.log(`[Checklist Template Service] Bulk inserted ${newItems.length} items into ${serviceType}#${type}`);
 
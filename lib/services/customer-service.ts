@@ -0,0 +1,369 @@
+/**
+ * Customer Service
+ *
+ * Customer profiles built from a customer's jobs (customerId index) plus
+ * fresh contact details from Square: vehicles, every job, lifetime spend,
+ * visit frequency, no-shows and open issues. Also finds customers by
+ * phone, email or plate for the customer search, and keeps the tags and
+ * preferences managers add to a customer (customer flags) in sync on their
+ * upcoming jobs.
+ */
+
+import { customerRepository, jobRepository } from '../repositories';
+import {
+  WorkStatus,
+  type CustomerCached,
+  type CustomerFlags,
+  type CustomerJobSummary,
+  type CustomerProfileResponse,
+  type CustomerSearchResult,
+  type CustomerStats,
+  type CustomerVehicleSummary,
+  type Job,
+  type JobCustomerFlags,
+  type OpenIssueSummary,
+  type UpdateCustomerFlagsRequest,
+  type UpdateCustomerFlagsResponse,
+  type UserAudit,
+} from '../types';
+import {
+  fetchCustomerWithRetry,
+  formatCustomerName,
+  searchCustomers,
+  type SquareCustomer,
+} from '../square/customers-api';
+import { normalizePlate } from '../utils/vehicle';
+import { getCollectedCents } from '../workflow/payment-ledger';
+import {
+  CustomerFlagsError,
+  hasCustomerFlags,
+  isUpcomingJob,
+  normalizeCustomerTags,
+  validateCustomerFlags,
+} from '../workflow/customer-flags';
+import { getJobIssues, isIssueOpen } from '../workflow/issues';
+import { isRedoJob } from '../workflow/redo';
+import { describeVehicle } from '../workflow/vehicles';
+
+const NO_SHOW_STATUSES: WorkStatus[] = [
+  WorkStatus.NO_SHOW_PENDING_CHARGE,
+  WorkStatus.NO_SHOW_CHARGED,
+  WorkStatus.NO_SHOW_FAILED,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every job for a customer, newest appointment first
+ */
+async function queryAllJobsByCustomerId(customerId: string): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await jobRepository.queryJobsByCustomerId(customerId, { limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return jobs;
+}
+
+function visitTime(job: Job): string {
+  return job.appointmentTime || job.createdAt;
+}
+
+/**
+ * Lifetime totals for a customer's jobs
+ *
+ * Redos are free follow-ups, so they are neither visits nor spend.
+ */
+export function buildCustomerStats(jobs: Job[]): CustomerStats {
+  const stats: CustomerStats = {
+    visitCount: 0,
+    upcomingCount: 0,
+    cancelledCount: 0,
+    noShowCount: 0,
+    totalSpendCents: 0,
+    openIssueCount: 0,
+  };
+  const visits: string[] = [];
+
+  for (const job of jobs) {
+    stats.openIssueCount += getJobIssues(job).filter(isIssueOpen).length;
+
+    // Collected no-show fees count as spend whatever the job's status is now
+    stats.totalSpendCents += (job.noShow?.chargeAttempts || [])
+      .filter(attempt => attempt.result === 'SUCCESS')
+      .reduce((sum, attempt) => sum + attempt.amountCents, 0);
+
+    if (isRedoJob(job)) continue;
+
+    if (job.status === WorkStatus.CANCELLED) {
+      stats.cancelledCount += 1;
+      continue;
+    }
+
+    if (NO_SHOW_STATUSES.includes(job.status)) {
+      stats.noShowCount += 1;
+      continue;
+    }
+
+    stats.totalSpendCents += getCollectedCents(job);
+
+    if (job.status === WorkStatus.WORK_COMPLETED) {
+      visits.push(visitTime(job));
+    } else {
+      stats.upcomingCount += 1;
+    }
+  }
+
+  visits.sort();
+  stats.visitCount = visits.length;
+  if (visits.length > 0) {
+    stats.firstVisitAt = visits[0];
+    stats.lastVisitAt = visits[visits.length - 1];
+  }
+  if (visits.length > 1) {
+    const spanMs = new Date(stats.lastVisitAt!).getTime() - new Date(stats.firstVisitAt!).getTime();
+    stats.averageDaysBetweenVisits = Math.round(spanMs / DAY_MS / (visits.length - 1));
+  }
+
+  return stats;
+}
+
+/**
+ * The customer's cars, grouped by vehicle profile (or plate for jobs saved
+ * before profiles), most recently seen first
+ */
+function buildCustomerVehicles(jobs: Job[]): CustomerVehicleSummary[] {
+  const vehicles = new Map<string, CustomerVehicleSummary>();
+
+  for (const job of jobs) {
+    const info = job.vehicleInfo || {};
+    const plateNorm = normalizePlate(info.licensePlate);
+    const key = job.vehicleId || (plateNorm && `plate:${plateNorm}`);
+    if (!key) continue;
+
+    const existing = vehicles.get(key);
+    if (existing) {
+      existing.visitCount += 1;
+      continue;
+    }
+
+    // Jobs are newest first, so the first job seen has the latest details
+    vehicles.set(key, {
+      ...(job.vehicleId && { vehicleId: job.vehicleId }),
+      description: describeVehicle(info),
+      ...(info.licensePlate && { licensePlate: info.licensePlate }),
+      visitCount: 1,
+      lastVisitAt: visitTime(job),
+    });
+  }
+
+  return Array.from(vehicles.values());
+}
+
+/**
+ * Contact details: fresh from Square when possible, else the latest job's
+ */
+async function getCustomerContact(
+  customerId: string,
+  jobs: Job[]
+): Promise<Pick<CustomerProfileResponse, 'customer' | 'contactSource'> | null> {
+  const fresh = await fetchCustomerWithRetry(customerId, 1);
+  if (fresh) {
+    return { customer: fresh, contactSource: 'SQUARE' };
+  }
+
+  const latest = jobs[0];
+  if (!latest) {
+    return null;
+  }
+
+  const customer: CustomerCached = latest.customerCached || {
+    id: customerId,
+    name: latest.customerName,
+    email: latest.customerEmail,
+    phone: latest.customerPhone,
+  };
+  return { customer, contactSource: 'JOBS' };
+}
+
+/**
+ * A customer's profile page
+ *
+ * @returns The profile, or null if the customer has no jobs and Square
+ *   doesn't know them
+ */
+export async function getCustomerProfile(customerId: string): Promise<CustomerProfileResponse | null> {
+  const jobs = (await queryAllJobsByCustomerId(customerId))
+    .sort((a, b) => visitTime(b).localeCompare(visitTime(a)));
+
+  const [contact, flags] = await Promise.all([
+    getCustomerContact(customerId, jobs),
+    customerRepository.getCustomerFlags(customerId),
+  ]);
+  if (!contact) {
+    return null;
+  }
+
+  const summaries: CustomerJobSummary[] = jobs.map(job => ({
+    jobId: job.jobId,
+    serviceType: job.serviceType,
+    status: job.status,
+    appointmentTime: job.appointmentTime,
+    payment: job.payment,
+    vehicleInfo: job.vehicleInfo,
+    vehicleId: job.vehicleId,
+    redoOfJobId: job.redoOfJobId,
+    openIssueCount: getJobIssues(job).filter(isIssueOpen).length,
+  }));
+
+  const openIssues: OpenIssueSummary[] = jobs
+    .flatMap(job => getJobIssues(job).filter(isIssueOpen).map(issue => ({
+      jobId: job.jobId,
+      customerName: job.customerName,
+      serviceType: job.serviceType,
+      vehicleInfo: job.vehicleInfo,
+      appointmentTime: job.appointmentTime,
+      issue,
+    })))
+    .sort((a, b) => a.issue.openedAt.localeCompare(b.issue.openedAt));
+
+  return {
+    ...contact,
+    stats: buildCustomerStats(jobs),
+    vehicles: buildCustomerVehicles(jobs),
+    jobs: summaries,
+    openIssues,
+    ...(flags && { flags }),
+  };
+}
+
+function toJobCustomerFlags(flags: CustomerFlags): JobCustomerFlags | undefined {
+  if (!hasCustomerFlags(flags)) {
+    return undefined;
+  }
+  return {
+    tags: flags.tags,
+    ...(flags.preferences && { preferences: flags.preferences }),
+  };
+}
+
+/**
+ * The flags to copy onto a new job for this customer
+ *
+ * @returns The flags, or undefined if the customer has none (or the lookup
+ *   fails; a missing flag never blocks a booking)
+ */
+export async function getJobCustomerFlags(customerId: string | undefined): Promise<JobCustomerFlags | undefined> {
+  if (!customerId) {
+    return undefined;
+  }
+
+  try {
+    const flags = await customerRepository.getCustomerFlags(customerId);
+    return flags ? toJobCustomerFlags(flags) : undefined;
+  } catch (error) {
+    console.error('[CUSTOMER SERVICE] Failed to load customer flags', {
+      customerId,
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Replace a customer's tags and preferences and copy them to every upcoming
+ * job, so techs see the change on jobs already on the board
+ *
+ * Finished jobs keep the flags they had at the time.
+ *
+ * @throws CustomerFlagsError if the tags or preferences are invalid
+ */
+export async function updateCustomerFlags(
+  customerId: string,
+  request: UpdateCustomerFlagsRequest,
+  userAudit: UserAudit
+): Promise<UpdateCustomerFlagsResponse> {
+  const errors = validateCustomerFlags(request);
+  if (errors.length > 0) {
+    throw new CustomerFlagsError('INVALID_FLAGS', errors[0], errors);
+  }
+
+  const preferences = request.preferences?.trim();
+  const flags: CustomerFlags = {
+    customerId,
+    tags: normalizeCustomerTags(request.tags),
+    ...(preferences && { preferences }),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userAudit,
+  };
+  await customerRepository.putCustomerFlags(flags);
+
+  const jobFlags = toJobCustomerFlags(flags);
+  const upcoming = (await queryAllJobsByCustomerId(customerId)).filter(isUpcomingJob);
+  for (const job of upcoming) {
+    // Undefined removes the field when all flags were cleared
+    await jobRepository.updateJob(job.jobId, { customerFlags: jobFlags, updatedAt: flags.updatedAt });
+  }
+
+  console.log('[CUSTOMER SERVICE] Customer flags updated', {
+    customerId,
+    tags: flags.tags,
+    updatedJobCount: upcoming.length,
+    updatedBy: userAudit.userId,
+  });
+
+  return { flags, updatedJobCount: upcoming.length };
+}
+
+function toSearchResult(customer: SquareCustomer): CustomerSearchResult {
+  return {
+    customerId: customer.id,
+    name: formatCustomerName(customer),
+    phone: customer.phone_number,
+    email: customer.email_address,
+  };
+}
+
+/**
+ * Find customers by email, phone (10+ digits) or license plate
+ *
+ * Email and phone are looked up in Square; plates go through the jobs'
+ * plate index, so anyone who has brought the car in is found.
+ */
+export async function findCustomers(query: string): Promise<CustomerSearchResult[]> {
+  const trimmed = query.trim();
+
+  if (trimmed.includes('@')) {
+    const customers = await searchCustomers({ emailAddress: trimmed });
+    return customers.map(toSearchResult);
+  }
+
+  if (trimmed.replace(/\D/g, '').length >= 10 && !/[a-z]/i.test(trimmed)) {
+    const customers = await searchCustomers({ phoneNumber: trimmed });
+    return customers.map(toSearchResult);
+  }
+
+  const plateNorm = normalizePlate(trimmed);
+  if (!plateNorm) {
+    return [];
+  }
+
+  const page = await jobRepository.queryJobsByPlate(plateNorm, { limit: 50 });
+  const results = new Map<string, CustomerSearchResult>();
+  for (const job of page.jobs) {
+    if (!job.customerId || results.has(job.customerId)) continue;
+
+    results.set(job.customerId, {
+      customerId: job.customerId,
+      name: job.customerCached?.name || job.customerName,
+      phone: job.customerCached?.phone || job.customerPhone,
+      email: job.customerCached?.email || job.customerEmail,
+    });
+  }
+
+  return Array.from(results.values());
+}
@@ -0,0 +1,84 @@
+/**
+ * Dispatch Service
+ *
+ * Builds the auto-dispatch plan for a board date from the day's jobs, the
+ * active users and each service's required skills, and applies accepted
+ * plans as ordinary assignments.
+ */
+
+import type { ApplyDispatchRequest, DispatchPlanResponse, Job, JobAssignee, UserAudit } from '../types';
+import { buildDispatchPlan } from '../workflow/dispatch';
+import { AssignmentError } from '../workflow/assignment';
+import { assignJob, listJobs } from './job-service';
+import { listActiveUsers } from './user-service';
+import { getRequiredSkillsByService } from './workflow-service';
+
+/**
+ * Every job booked on a board date (no carry-over from earlier days)
+ */
+async function listAllJobsForBoardDate(boardDate: string): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await listJobs({ boardDate, limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return jobs;
+}
+
+/**
+ * Proposed techs for the board date's unassigned SCHEDULED jobs
+ */
+export async function getDispatchPlan(boardDate: string): Promise<DispatchPlanResponse> {
+  const [jobs, users, requiredSkills] = await Promise.all([
+    listAllJobsForBoardDate(boardDate),
+    listActiveUsers(),
+    getRequiredSkillsByService(),
+  ]);
+
+  return buildDispatchPlan(boardDate, jobs, users, requiredSkills);
+}
+
+/**
+ * Assign each job in an accepted plan to its tech
+ *
+ * Jobs are assigned one at a time; a job that fails (missing, or an unknown
+ * user) is reported and the rest still go through.
+ */
+export async function applyDispatchPlan(
+  request: ApplyDispatchRequest,
+  userAudit: UserAudit
+): Promise<{
+  assigned: Array<{ job: Job; previous: JobAssignee[] }>;
+  failed: Array<{ jobId: string; message: string }>;
+}> {
+  const assigned: Array<{ job: Job; previous: JobAssignee[] }> = [];
+  const failed: Array<{ jobId: string; message: string }> = [];
+
+  for (const { jobId, userId } of request.assignments) {
+    try {
+      const result = await assignJob(jobId, { userIds: [userId] }, userAudit);
+      if (result) {
+        assigned.push(result);
+      } else {
+        failed.push({ jobId, message: `Job ${jobId} not found` });
+      }
+    } catch (error) {
+      if (!(error instanceof AssignmentError)) {
+        throw error;
+      }
+      failed.push({ jobId, message: error.message });
+    }
+  }
+
+  console.log('[DISPATCH] Plan applied', {
+    assigned: assigned.length,
+    failed: failed.length,
+    actor: userAudit.userId,
+  });
+
+  return { assigned, failed };
+}
@@ -5,138 +5,163 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import * as dynamodb from '../aws/dynamodb';
+import { jobRepository, shopSettingsRepository, VersionConflictError } from '../repositories';
 import * as s3 from '../aws/s3';
-import type { Job, UpdateJobRequest, UserAudit, PhotoMeta, ChecklistItem, CustomerCached } from '../types';
-import { WorkStatus, PaymentStatus } from '../types';
+import type {
+  Job,
+  UpdateJobRequest,
+  UpdateInspectionRequest,
+  UserAudit,
+  PhotoMeta,
+  ChecklistItem,
+  CustomerCached,
+  InspectionAngle,
+  UpdateWorkTimerRequest,
+  RejectQcRequest,
+  QcRejection,
+  AssignJobRequest,
+  JobAddon,
+  JobAssignee,
+  JobBay,
+  NoShowChargeAttempt,
+  OpenIssueRequest,
+  UpdateIssueRequest,
+  AddIssueCommentRequest,
+  ApplyDiscountRequest,
+  CommitReceiptsRequest,
+  CreateRefundRequest,
+  JobDiscount,
+  JobIssue,
+  OpenIssueSummary,
+  StatusHistoryEntry,
+  ScheduleRedoRequest,
+  PaymentEntry,
+  PaymentMatchMethod,
+  PriceBreakdown,
+  ReceiptPhoto,
+  RecordPaymentRequest,
+  RefundEntry,
+  SquarePaymentDetails,
+  SquareRefundDetails,
+} from '../types';
+import { WorkStatus, PaymentStatus, UserRole } from '../types';
 import type { ParsedBooking } from '../square/booking-parser';
 import { fetchCustomerWithRetry, isCacheStale, toCustomerCached } from '../square/customers-api';
+import { listDiscounts } from '../square/catalog-api';
+import { setOrderDiscount } from '../square/orders-api';
 import { sendCompletionSms } from './sms-service';
-import { fetchCatalogObject, listAddons } from '../square/catalog-api';
+import { getJobCustomerFlags } from './customer-service';
+import { priceBooking } from './pricing-service';
+import {
+  applyChecklistOverride,
+  checkTransition,
+  isCardChargeTransition,
+  isSquareCancellable,
+  StatusTransitionError,
+} from '../workflow/status-transitions';
+import type { TransitionCheck } from '../workflow/status-transitions';
+import { getJobStage, getStatusRank } from '../workflow/pipelines';
+import {
+  createEmptyInspection,
+  getMissingInspectionAngles,
+  InspectionError,
+  INSPECTION_ANGLE_LABELS,
+} from '../workflow/inspection';
+import {
+  getTimerForStatusChange,
+  pauseWorkTimer,
+  resumeWorkTimer,
+  startWorkTimer,
+  WorkTimerError,
+} from '../workflow/work-timer';
+import { getRejectedTechs, getReworkStage, QcRejectError } from '../workflow/qc-reject';
+import { describeTender, isPaymentVoid, SQUARE_PAYMENT_ACTOR } from '../workflow/payment-matching';
+import {
+  derivePayment,
+  describePaymentEntry,
+  getBalanceDueCents,
+  getRefundableCents,
+  isEntryLive,
+  PaymentLedgerError,
+  validatePayment,
+  validateRefund,
+} from '../workflow/payment-ledger';
+import {
+  applyDiscountsToBreakdown,
+  describeDiscount,
+  DiscountError,
+  getDiscountableBreakdown,
+  validateDiscount,
+} from '../workflow/discounts';
+import {
+  AssignmentError,
+  buildManualAssignment,
+  getAssignmentFromTeamMembers,
+  getPrimaryTeamMemberId,
+  isSameAssignment,
+} from '../workflow/assignment';
+import { getUserById, listActiveUsers, type User } from './user-service';
+import { createBooking, retrieveBooking, updateBookingTeamMember } from '../square/bookings-api';
+import { getBayCapabilitiesByService, getWorkflowStages } from './workflow-service';
+import { BayError, canBayTake } from '../workflow/bays';
+import { calculateNoShowFee, NO_SHOW_CURRENCY, NoShowChargeError } from '../workflow/no-show';
+import { getNoShowPolicy } from './no-show-service';
+import { linkJobVehicle } from './vehicle-service';
+import { formatCents } from '../utils/money';
+import { normalizeMake } from '../utils/vehicle';
+import { decodeVin } from '../utils/vin';
+import { getPaymentsClient, type CardOnFile, type RefundPaymentResult } from '../square/payments-api';
+import { canChangeIssueStatus, getJobIssues, isIssueOpen, ISSUE_OUTCOMES, ISSUE_TYPES, IssueError } from '../workflow/issues';
+import { buildRedoChecklist, canScheduleRedo, getDefaultRedoItemIds, isRedoJob, RedoError } from '../workflow/redo';
+import { addonsFromNotes } from '../workflow/addons';
+import { addDays, format, parseISO } from 'date-fns';
 
 /**
- * Tennessee sales tax rate
+ * How many times a server-side read-modify-write is attempted when it loses
+ * a version race with another writer
  */
-const TAX_RATE = 0.0975;
+const VERSION_CONFLICT_ATTEMPTS = 3;
 
 /**
- * Calculate payment amount from booking with service and add-ons
+ * Read-modify-write a job under optimistic locking
  * 
- * @param serviceVariationId - Service variation ID from booking
- * @param notes - Booking notes containing add-ons
- * @returns Payment amount in cents, or undefined if calculation fails
- */
-export async function calculateBookingAmount(
-  serviceVariationId: string | undefined,
-  notes: string | undefined
-): Promise<number | undefined> {
-  try {
-    let subtotalCents = 0;
-
-    // 1. Get service price
-    if (serviceVariationId) {
-      console.log('[PAYMENT CALC] Fetching service price', {
-        variationId: serviceVariationId,
-      });
-      
-      const serviceObj = await fetchCatalogObject(serviceVariationId);
-      
-      if (serviceObj) {
-        console.log('[PAYMENT CALC] Service object found', {
-          variationId: serviceVariationId,
-          hasItemVariationData: !!serviceObj.item_variation_data,
-          hasPriceMoney: !!serviceObj.item_variation_data?.price_money,
-          amount: serviceObj.item_variation_data?.price_money?.amount,
-        });
-      } else {
-        console.warn('[PAYMENT CALC] Service object not found', {
-          variationId: serviceVariationId,
-          note: 'fetchCatalogObject returned null',
-        });
-      }
-      
-      if (serviceObj?.item_variation_data?.price_money?.amount) {
-        subtotalCents += serviceObj.item_variation_data.price_money.amount;
-        console.log('[PAYMENT CALC] Service price added', {
-          variationId: serviceVariationId,
-          priceCents: serviceObj.item_variation_data.price_money.amount,
-        });
-      }
-    } else {
-      console.warn('[PAYMENT CALC] No service variation ID provided', {
-        note: 'Cannot calculate service price without variation ID',
-      });
+ * Re-reads the job and rebuilds the update if another writer got in first,
+ * so appends (photos, receipts) and webhook syncs don't clobber each other.
+ * 
+ * @returns Updated job, or null if the job does not exist
+ */
+async function updateJobWithRetry(
+  jobId: string,
+  buildUpdates: (job: Job) => Partial<Job> | Promise<Partial<Job>>
+): Promise<Job | null> {
+  for (let attempt = 1; ; attempt++) {
+    const job = await jobRepository.getJob(jobId);
+    
+    if (!job) {
+      return null;
     }
-
-    // 2. Parse add-ons from notes and get prices
-    if (notes && notes.includes('ADD-ONS REQUESTED')) {
-      // Extract add-on names from notes
-      const addonsMatch = notes.match(/✅\s*ADD-ONS\s+REQUESTED:\s*([\s\S]*?)(?:\n\n⚠️|$)/i);
-      
-      if (addonsMatch && addonsMatch[1]) {
-        const addonLines = addonsMatch[1]
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line.startsWith('•') || line.startsWith('-') || line.startsWith('*'))
-          .map(line => line.substring(1).trim()); // Remove bullet point
-
-        if (addonLines.length > 0) {
-          console.log('[PAYMENT CALC] Found add-ons in notes', {
-            count: addonLines.length,
-            names: addonLines,
-          });
-
-          // Fetch all available add-ons to match names to prices
-          const availableAddons = await listAddons();
-          const addonMap = new Map(
-            availableAddons.map(addon => [addon.name.toLowerCase(), addon.priceMoney?.amount || 0])
-          );
-
-          // Sum add-on prices
-          for (const addonName of addonLines) {
-            const price = addonMap.get(addonName.toLowerCase());
-            if (price) {
-              subtotalCents += price;
-              console.log('[PAYMENT CALC] Add-on price', {
-                name: addonName,
-                priceCents: price,
-              });
-            } else {
-              console.warn('[PAYMENT CALC] Add-on price not found', {
-                name: addonName,
-                note: 'Add-on may be inactive or renamed',
-              });
-            }
-          }
-        }
+    
+    const updates = await buildUpdates(job);
+    
+    try {
+      return await jobRepository.updateJob(jobId, updates, { expectedVersion: job.version ?? 0 });
+    } catch (error) {
+      if (!(error instanceof VersionConflictError) || attempt >= VERSION_CONFLICT_ATTEMPTS) {
+        throw error;
       }
+      console.log('[JOB SERVICE] Version conflict, retrying update', { jobId, attempt });
     }
-
-    if (subtotalCents === 0) {
-      console.warn('[PAYMENT CALC] No prices found for booking');
-      return undefined;
-    }
-
-    // 3. Calculate tax and total
-    const taxCents = Math.round(subtotalCents * TAX_RATE);
-    const totalCents = subtotalCents + taxCents;
-
-    console.log('[PAYMENT CALC] Final calculation', {
-      subtotalCents,
-      taxCents,
-      totalCents,
-      taxRate: `${(TAX_RATE * 100).toFixed(2)}%`,
-    });
-
-    return totalCents;
-  } catch (error: any) {
-    console.error('[PAYMENT CALC] Calculation failed', {
-      error: error.message,
-    });
-    return undefined;
   }
 }
 
+/**
+ * Add-ons for a booking: from its Square order, or listed in its notes
+ * (keeping the catalog IDs and prices of add-ons the job already has)
+ */
+function getBookingAddons(booking: ParsedBooking, currentAddons?: JobAddon[]): JobAddon[] {
+  return booking.addons ?? addonsFromNotes(booking.notes, currentAddons);
+}
+
 /**
  * Create a job from a Square booking (Phase 3: with customer caching)
  * 
@@ -166,8 +191,16 @@ export async function createJobFromBooking(booking: ParsedBooking): Promise<Job>
     booking.customerName || 
     (booking.customerId ? `Customer ${booking.customerId.substring(0, 8)}...` : 'Unknown Customer');
   
-  // Calculate payment amount from service + add-ons + tax
-  const amountCents = await calculateBookingAmount(booking.serviceVariationId, booking.notes);
+  // Price the service + add-ons + tax
+  const addons = getBookingAddons(booking);
+  const priceBreakdown = await priceBooking({
+    serviceVariationId: booking.serviceVariationId,
+    addons,
+    locationId: booking.locationId,
+  });
+
+  // Returning customers bring their tags and preferences to every new job
+  const customerFlags = await getJobCustomerFlags(booking.customerId);
   
   const mappedStatus = mapBookingStatusToJobStatus(booking.status);
   const isCancelled = mappedStatus === WorkStatus.CANCELLED;
@@ -182,17 +215,23 @@ export async function createJobFromBooking(booking: ParsedBooking): Promise<Job>
     serviceType: booking.serviceType || 'Detail Service',
     status: mappedStatus,
     bookingId: booking.bookingId,
+    orderId: booking.orderId,
+    addons,
     appointmentTime: booking.appointmentTime,
+    scheduledDurationMinutes: booking.durationMinutes,
+    assignedTo: await getAssignmentFromBooking(undefined, booking),
     photos: [],
     photosMeta: [], // Phase 3: Initialize empty photo metadata
     notes: booking.notes,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     customerCached, // Phase 3: Cache customer data on job creation
-    payment: amountCents ? {
+    customerFlags,
+    payment: priceBreakdown ? {
       status: PaymentStatus.UNPAID,
-      amountCents,
+      amountCents: priceBreakdown.totalCents,
     } : undefined,
+    priceBreakdown,
     // Add cancellation metadata if booking is cancelled
     ...(isCancelled && {
       cancelledAt: new Date().toISOString(),
@@ -201,7 +240,7 @@ export async function createJobFromBooking(booking: ParsedBooking): Promise<Job>
     }),
   };
 
-  return dynamodb.createJob(job);
+  return jobRepository.createJob(job);
 }
 
 /**
@@ -211,10 +250,25 @@ export async function updateJobFromBooking(
   jobId: string,
   booking: ParsedBooking
 ): Promise<Job> {
-  const currentJob = await dynamodb.getJob(jobId);
+  const updatedJob = await updateJobWithRetry(jobId, currentJob => buildBookingUpdates(jobId, currentJob, booking));
+  
+  if (!updatedJob) {
+    throw new Error(`Job ${jobId} not found`);
+  }
   
+  return updatedJob;
+}
+
+/**
+ * Build the job fields that mirror a Square booking
+ */
+async function buildBookingUpdates(
+  jobId: string,
+  currentJob: Job,
+  booking: ParsedBooking
+): Promise<Partial<Job>> {
   // Phase 3: Refresh customer cache if stale or missing
-  let customerCached: CustomerCached | undefined = currentJob?.customerCached;
+  let customerCached: CustomerCached | undefined = currentJob.customerCached;
   if (booking.customerId && (!customerCached || isCacheStale(customerCached.cachedAt))) {
     const cachedData = await fetchCustomerWithRetry(booking.customerId, 1);
     if (cachedData) {
@@ -226,34 +280,47 @@ export async function updateJobFromBooking(
     }
   }
   
-  const displayName = customerCached?.name || booking.customerName || currentJob?.customerName;
+  const displayName = customerCached?.name || booking.customerName || currentJob.customerName;
   
-  // Recalculate payment amount if not yet paid (in case add-ons or service changed)
+  // Recalculate payment amount if not yet paid in full (in case add-ons or service changed);
+  // redo jobs stay zero-priced even though their Square booking has a price
+  const addons = getBookingAddons(booking, currentJob.addons);
   let paymentUpdate: Partial<Job>['payment'] | undefined;
-  if (!currentJob?.payment || currentJob.payment.status === PaymentStatus.UNPAID) {
-    const amountCents = await calculateBookingAmount(booking.serviceVariationId, booking.notes);
-    if (amountCents) {
-      paymentUpdate = {
-        status: PaymentStatus.UNPAID,
-        amountCents,
-      };
+  let priceBreakdown: PriceBreakdown | undefined;
+  if (!currentJob.redoOfJobId && (!currentJob.payment || currentJob.payment.status === PaymentStatus.UNPAID)) {
+    priceBreakdown = await priceBooking({
+      serviceVariationId: booking.serviceVariationId,
+      addons,
+      discounts: currentJob.discounts,
+      locationId: booking.locationId,
+    });
+    if (priceBreakdown) {
+      paymentUpdate = derivePayment(
+        { status: PaymentStatus.UNPAID, amountCents: priceBreakdown.totalCents },
+        currentJob.paymentEntries || []
+      );
     }
   }
   
-  const mappedStatus = mapBookingStatusToJobStatus(booking.status);
-  const isCancelled = mappedStatus === WorkStatus.CANCELLED;
-  const wasAlreadyCancelled = currentJob?.status === WorkStatus.CANCELLED;
+  const status = await getStatusFromBooking(jobId, currentJob, mapBookingStatusToJobStatus(booking.status));
+  const isCancelled = status === WorkStatus.CANCELLED;
+  const wasAlreadyCancelled = currentJob.status === WorkStatus.CANCELLED;
   
   const updates: Partial<Job> = {
-    status: mappedStatus,
+    status,
     appointmentTime: booking.appointmentTime,
+    scheduledDurationMinutes: booking.durationMinutes,
+    assignedTo: await getAssignmentFromBooking(currentJob.assignedTo, booking),
     customerName: displayName,
     customerEmail: customerCached?.email || booking.customerEmail,
     customerPhone: customerCached?.phone || booking.customerPhone,
     notes: booking.notes,
+    orderId: currentJob.orderId || booking.orderId, // Keep an order created for add-ons
+    addons,
     updatedBy: 'square-webhook',
     customerCached, // Phase 3: Update cached customer data
     payment: paymentUpdate,
+    priceBreakdown,
     // Add cancellation metadata if newly cancelled (idempotent)
     ...(isCancelled && !wasAlreadyCancelled && {
       cancelledAt: new Date().toISOString(),
@@ -267,7 +334,47 @@ export async function updateJobFromBooking(
     Object.entries(updates).filter(([_, value]) => value !== undefined)
   ) as Partial<Job>;
   
-  return dynamodb.updateJob(jobId, cleanUpdates);
+  return cleanUpdates;
+}
+
+/**
+ * The status a Square booking update leaves the job in. Square only knows
+ * scheduled and cancelled, so a cancellation only applies to a job not yet
+ * worked on (see isSquareCancellable) and anything else only moves a job
+ * that is still SCHEDULED; other changes go through the state machine like
+ * a manager's would, and are ignored if it refuses them (e.g. an ACCEPTED
+ * booking arriving for a job already IN_PROGRESS).
+ */
+async function getStatusFromBooking(jobId: string, currentJob: Job, mappedStatus: WorkStatus): Promise<WorkStatus> {
+  if (mappedStatus === WorkStatus.CANCELLED && currentJob.status !== WorkStatus.CANCELLED) {
+    if (isSquareCancellable(currentJob.status)) {
+      return mappedStatus;
+    }
+
+    console.log('[JOB SERVICE] Ignoring Square cancellation of a job already worked on', {
+      jobId,
+      status: currentJob.status,
+    });
+    return currentJob.status;
+  }
+
+  if (mappedStatus === currentJob.status || currentJob.status === WorkStatus.SCHEDULED) {
+    return mappedStatus;
+  }
+
+  const stages = await getWorkflowStages(currentJob.serviceType);
+  const check = checkTransition(currentJob, mappedStatus, UserRole.MANAGER, stages);
+  if (check.allowed) {
+    return mappedStatus;
+  }
+
+  console.log('[JOB SERVICE] Ignoring Square booking status', {
+    jobId,
+    status: currentJob.status,
+    bookingStatus: mappedStatus,
+    reason: check.rejections[0]?.message,
+  });
+  return currentJob.status;
 }
 
 /**
@@ -290,7 +397,7 @@ function mapBookingStatusToJobStatus(bookingStatus: string): WorkStatus {
  * Get job by ID with photo URLs
  */
 export async function getJobWithPhotos(jobId: string): Promise<Job & { photoUrls?: string[] } | null> {
-  const job = await dynamodb.getJob(jobId);
+  const job = await jobRepository.getJob(jobId);
   
   if (!job) {
     return null;
@@ -317,6 +424,21 @@ export async function getJobWithPhotos(jobId: string): Promise<Job & { photoUrls
     );
     job.receiptPhotos = receiptPhotosWithUrls;
   }
+
+  // Generate presigned download URLs for payment ledger receipts
+  if (job.paymentEntries?.some(entry => entry.receiptPhotos?.length)) {
+    job.paymentEntries = await Promise.all(
+      job.paymentEntries.map(async (entry) => entry.receiptPhotos?.length
+        ? {
+          ...entry,
+          receiptPhotos: await Promise.all(entry.receiptPhotos.map(async (receipt) => ({
+            ...receipt,
+            publicUrl: await s3.generateDownloadUrl(receipt.s3Key, 3600),
+          }))),
+        }
+        : entry)
+    );
+  }
   
   // Generate download URLs for legacy photos array
   if (job.photos && job.photos.length > 0) {
@@ -342,17 +464,15 @@ export async function addPhotoToJob(
   // Upload photo to S3
   const photoKey = await s3.uploadPhoto(jobId, filename, content, contentType);
   
-  // Get current job
-  const job = await dynamodb.getJob(jobId);
+  // Add photo key to job
+  const updatedJob = await updateJobWithRetry(jobId, job => ({
+    photos: [...(job.photos || []), photoKey],
+  }));
   
-  if (!job) {
+  if (!updatedJob) {
     throw new Error(`Job ${jobId} not found`);
   }
   
-  // Add photo key to job
-  const photos = [...(job.photos || []), photoKey];
-  const updatedJob = await dynamodb.updateJob(jobId, { photos });
-  
   // Generate download URL
   const photoUrl = await s3.generateDownloadUrl(photoKey, 3600);
   
@@ -363,17 +483,15 @@ export async function addPhotoToJob(
  * Remove photo from job
  */
 export async function removePhotoFromJob(jobId: string, photoKey: string): Promise<Job> {
-  // Get current job
-  const job = await dynamodb.getJob(jobId);
+  // Remove photo key from job
+  const updatedJob = await updateJobWithRetry(jobId, job => ({
+    photos: (job.photos || []).filter(key => key !== photoKey),
+  }));
   
-  if (!job) {
+  if (!updatedJob) {
     throw new Error(`Job ${jobId} not found`);
   }
   
-  // Remove photo key from job
-  const photos = (job.photos || []).filter(key => key !== photoKey);
-  const updatedJob = await dynamodb.updateJob(jobId, { photos });
-  
   // Delete photo from S3
   await s3.deletePhoto(photoKey);
   
@@ -389,11 +507,11 @@ export async function updateJobStatus(
   updatedBy?: string
 ): Promise<Job> {
   // Get current job to check for status transition
-  const currentJob = await dynamodb.getJob(jobId);
+  const currentJob = await jobRepository.getJob(jobId);
   const previousStatus = currentJob?.status;
   
   // Update job status
-  const updatedJob = await dynamodb.updateJob(jobId, { status, updatedBy });
+  const updatedJob = await jobRepository.updateJob(jobId, { status, updatedBy });
   
   // Send completion SMS if transitioning to WORK_COMPLETED
   if (status === WorkStatus.WORK_COMPLETED && previousStatus !== WorkStatus.WORK_COMPLETED) {
@@ -421,6 +539,37 @@ export async function updateJobStatus(
   return updatedJob;
 }
 
+/**
+ * Vehicle profiles: Link a job to its car after vehicle info is saved
+ * (never fails the save; the link is retried on the next vehicle edit)
+ */
+async function linkVehicleAfterSave(job: Job, userAudit?: UserAudit): Promise<Job> {
+  try {
+    return await linkJobVehicle(job, userAudit);
+  } catch (error: any) {
+    console.error('[JOB SERVICE] Failed to link vehicle profile', {
+      jobId: job.jobId,
+      error: error.message,
+    });
+    return job;
+  }
+}
+
+/**
+ * Canonical make and a cleaned-up VIN, with year and make filled in from
+ * the VIN when staff left them blank
+ */
+function normalizeVehicleInfo(vehicleInfo: Job['vehicleInfo']): Job['vehicleInfo'] {
+  const decoded = decodeVin(vehicleInfo.vin);
+
+  return {
+    ...vehicleInfo,
+    ...(decoded && { vin: decoded.vin }),
+    make: normalizeMake(vehicleInfo.make) ?? decoded?.make,
+    year: vehicleInfo.year ?? decoded?.year,
+  };
+}
+
 /**
  * Update job vehicle information
  */
@@ -429,7 +578,8 @@ export async function updateJobVehicle(
   vehicleInfo: Job['vehicleInfo'],
   updatedBy?: string
 ): Promise<Job> {
-  return dynamodb.updateJob(jobId, { vehicleInfo, updatedBy });
+  const job = await jobRepository.updateJob(jobId, { vehicleInfo: normalizeVehicleInfo(vehicleInfo), updatedBy });
+  return linkVehicleAfterSave(job);
 }
 
 /**
@@ -442,7 +592,75 @@ export async function listJobs(options?: {
   nextToken?: string;
   boardDate?: string;
 }): Promise<{ jobs: Job[]; nextToken?: string }> {
-  return dynamodb.listJobs(options);
+  return jobRepository.listJobs(options);
+}
+
+/**
+ * Fetch every job on a board date by draining the boardDate index
+ */
+async function queryAllJobsByBoardDate(boardDate: string): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+  
+  do {
+    const page = await jobRepository.queryJobsByBoardDate(boardDate, { limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+  
+  return jobs;
+}
+
+/**
+ * Fetch every checked-in, unfinished job by draining the activeKey index
+ */
+async function queryAllActiveJobs(): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+  
+  do {
+    const page = await jobRepository.listActiveJobs({ limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+  
+  return jobs;
+}
+
+/**
+ * List the jobs for Today's Board
+ * 
+ * Queries the boardDate index for the requested day, plus every job still
+ * active from an earlier day (or with no appointment at all) so it doesn't
+ * disappear from the board mid-workflow, however long the car stays.
+ * 
+ * @param boardDate - YYYY-MM-DD in the location timezone
+ */
+export async function listBoardJobs(boardDate: string): Promise<Job[]> {
+  const [dayJobs, activeJobs] = await Promise.all([
+    queryAllJobsByBoardDate(boardDate),
+    queryAllActiveJobs(),
+  ]);
+  
+  const carryoverJobs = activeJobs.filter(job => !job.boardDate || job.boardDate < boardDate);
+  
+  return [...carryoverJobs, ...dayJobs];
+}
+
+/**
+ * List every job with an appointment between two board dates (inclusive)
+ * 
+ * @param from - YYYY-MM-DD in the location timezone
+ * @param to - YYYY-MM-DD in the location timezone
+ */
+export async function listJobsByBoardDateRange(from: string, to: string): Promise<Job[]> {
+  const jobs: Job[] = [];
+  
+  for (let date = parseISO(from); date <= parseISO(to); date = addDays(date, 1)) {
+    jobs.push(...await queryAllJobsByBoardDate(format(date, 'yyyy-MM-dd')));
+  }
+  
+  return jobs;
 }
 
 /**
@@ -453,7 +671,7 @@ export async function deleteJobCompletely(jobId: string): Promise<void> {
   await s3.deleteJobPhotos(jobId);
   
   // Delete job record
-  await dynamodb.deleteJob(jobId);
+  await jobRepository.deleteJob(jobId);
 }
 
 /**
@@ -466,7 +684,7 @@ export async function updateJobWithAudit(
   updates: UpdateJobRequest,
   userAudit: UserAudit
 ): Promise<Job | null> {
-  const currentJob = await dynamodb.getJob(jobId);
+  const currentJob = await jobRepository.getJob(jobId);
   
   if (!currentJob) {
     return null;
@@ -479,63 +697,74 @@ export async function updateJobWithAudit(
 
   const statusHistory = currentJob.statusHistory || [];
 
-  // Update work status
-  if (updates.workStatus !== undefined) {
-    updateData.status = updates.workStatus;
-    
-    // Add status history entry for status change
-    statusHistory.push({
-      from: currentJob.status,
-      to: updates.workStatus,
-      event: 'STATUS_CHANGE',
-      changedAt: new Date().toISOString(),
-      changedBy: userAudit,
-    });
-  }
+  // Enforce the status state machine for the service's pipeline, judging
+  // prerequisites against the checklist as it will be after this update
+  let transitionCheck: TransitionCheck | undefined;
+  let currentStageId: string | undefined;
 
-  // Handle opening post-completion issue
-  if (updates.openPostCompletionIssue) {
-    updateData.postCompletionIssue = {
-      isOpen: true,
-      type: updates.openPostCompletionIssue.type,
-      notes: updates.openPostCompletionIssue.notes,
-      openedAt: new Date().toISOString(),
-      openedBy: {
-        userId: userAudit.userId,
-        name: userAudit.name,
-        role: 'MANAGER' as const,
-      },
-    };
+  if (updates.stageId !== undefined || updates.workStatus !== undefined) {
+    const stages = await getWorkflowStages(currentJob.serviceType);
+    currentStageId = getJobStage(currentJob, stages)?.id;
 
-    // Add status history entry for issue opened
-    statusHistory.push({
-      from: currentJob.status,
-      to: currentJob.status,
-      event: 'POST_COMPLETION_ISSUE_OPENED',
-      changedAt: new Date().toISOString(),
-      changedBy: userAudit,
-      reason: updates.openPostCompletionIssue.notes,
-    });
+    const isStageChange = updates.stageId !== undefined
+      ? updates.stageId !== currentStageId
+      : updates.workStatus !== currentJob.status;
+
+    if (isStageChange) {
+      transitionCheck = checkTransition(
+        { ...currentJob, checklist: { ...currentJob.checklist, ...updates.checklist } },
+        (updates.stageId ?? updates.workStatus) as string,
+        userAudit.role,
+        stages
+      );
+
+      if (updates.checklistOverride) {
+        transitionCheck = applyChecklistOverride(transitionCheck, userAudit.role, updates.checklistOverride.reason);
+      }
+
+      if (!transitionCheck.allowed) {
+        throw new StatusTransitionError(transitionCheck);
+      }
+
+      if (isCardChargeTransition(transitionCheck)) {
+        throw new NoShowChargeError('USE_CHARGE_ACTION', 'Charge the no-show fee with the charge action so the card is actually billed.');
+      }
+    }
   }
 
-  // Handle resolving post-completion issue
-  if (updates.resolvePostCompletionIssue && currentJob.postCompletionIssue) {
-    updateData.postCompletionIssue = {
-      ...currentJob.postCompletionIssue,
-      isOpen: false,
-      resolvedAt: new Date().toISOString(),
-      resolvedBy: {
-        userId: userAudit.userId,
-        name: userAudit.name,
-        role: 'MANAGER' as const,
-      },
-    };
+  // Update work status
+  if (transitionCheck) {
+    updateData.status = transitionCheck.to;
+    updateData.stageId = transitionCheck.toStage;
+
+    // Start the work timer on IN_PROGRESS, stop it when the job moves on
+    const workTimer = getTimerForStatusChange(currentJob.workTimer, currentJob.status, transitionCheck.to, userAudit);
+    if (workTimer) {
+      updateData.workTimer = workTimer;
+    }
+
+    // Audit a manager pushing past unchecked required checklist items
+    if (transitionCheck.overridden?.length) {
+      statusHistory.push({
+        from: currentJob.status,
+        to: transitionCheck.to,
+        event: 'CHECKLIST_OVERRIDE',
+        changedAt: new Date().toISOString(),
+        changedBy: userAudit,
+        reason: updates.checklistOverride!.reason.trim(),
+        skippedItems: transitionCheck.overridden.flatMap(rejection =>
+          (rejection.missingItems || []).map(item => item.label || item.id || '')
+        ),
+      });
+    }
 
-    // Add status history entry for issue resolved
+    // Add status history entry for status change
     statusHistory.push({
       from: currentJob.status,
-      to: currentJob.status,
-      event: 'POST_COMPLETION_ISSUE_RESOLVED',
+      to: transitionCheck.to,
+      fromStage: currentStageId,
+      toStage: transitionCheck.toStage,
+      event: 'STATUS_CHANGE',
       changedAt: new Date().toISOString(),
       changedBy: userAudit,
     });
@@ -557,10 +786,10 @@ export async function updateJobWithAudit(
 
   // Update vehicle info
   if (updates.vehicleInfo !== undefined) {
-    updateData.vehicleInfo = {
+    updateData.vehicleInfo = normalizeVehicleInfo({
       ...currentJob.vehicleInfo,
       ...updates.vehicleInfo,
-    };
+    });
   }
 
   // Update service type
@@ -568,58 +797,57 @@ export async function updateJobWithAudit(
     updateData.serviceType = updates.serviceType;
   }
 
-  // Handle payment status updates
+  // Itemized price (repriced by the route when add-ons change)
+  if (updates.addons !== undefined) {
+    updateData.addons = updates.addons;
+  }
+
+  if (updates.priceBreakdown !== undefined) {
+    updateData.priceBreakdown = updates.priceBreakdown;
+  }
+
+  // Handle payment updates: mark UNPAID (voids the job's payment entries) or change the
+  // amount due. PAID comes from the payment ledger (see recordPayment).
   if (updates.payment) {
     const now = new Date().toISOString();
     const currentPayment = currentJob.payment || { status: PaymentStatus.UNPAID };
+    const isMarkingUnpaid = updates.payment.status === PaymentStatus.UNPAID;
+    const unpaidReason = isMarkingUnpaid && updates.payment.unpaidReason
+      ? `${updates.payment.unpaidReason}${updates.payment.unpaidNote ? `: ${updates.payment.unpaidNote}` : ''}`
+      : undefined;
 
-    if (updates.payment.status === PaymentStatus.PAID) {
-      // Mark as PAID
-      updateData.payment = {
-        ...currentPayment,
-        status: PaymentStatus.PAID,
-        paidAt: now,
-        paidBy: {
-          userId: userAudit.userId,
-          name: userAudit.name,
-          role: 'MANAGER' as const,
-        },
-        // Clear unpaid reason/note when marking as paid
-        unpaidReason: undefined,
-        unpaidNote: undefined,
-      };
+    const paymentEntries = unpaidReason
+      ? voidLiveEntries(currentJob.paymentEntries, unpaidReason, userAudit, now)
+      : currentJob.paymentEntries;
+    if (unpaidReason && paymentEntries) {
+      updateData.paymentEntries = paymentEntries;
+    }
+
+    const payment = {
+      ...currentPayment,
+      ...(isMarkingUnpaid && {
+        unpaidReason: updates.payment.unpaidReason,
+        unpaidNote: updates.payment.unpaidNote,
+      }),
+      // Update amount if provided (e.g., when add-ons change)
+      amountCents: updates.payment.amountCents !== undefined ? updates.payment.amountCents : currentPayment.amountCents,
+      // Keep paidAt/paidBy for history if they exist
+    };
+    // Jobs paid before the ledger keep their status on amount edits
+    updateData.payment = paymentEntries?.length
+      ? derivePayment(payment, paymentEntries)
+      : { ...payment, status: isMarkingUnpaid ? PaymentStatus.UNPAID : currentPayment.status };
 
-      // Add payment history entry
+    // Add payment history entry only if status changed or unpaid reason provided
+    if ((isMarkingUnpaid && currentPayment.status !== PaymentStatus.UNPAID) || unpaidReason) {
       statusHistory.push({
         from: null,
         to: null,
-        event: 'PAYMENT_MARKED_PAID',
+        event: unpaidReason ? 'PAYMENT_MARKED_UNPAID' : 'PAYMENT_AMOUNT_UPDATED',
         changedAt: now,
         changedBy: userAudit,
+        reason: unpaidReason,
       });
-    } else if (updates.payment.status === PaymentStatus.UNPAID) {
-      // Mark as UNPAID or update amount
-      updateData.payment = {
-        ...currentPayment,
-        status: PaymentStatus.UNPAID,
-        unpaidReason: updates.payment.unpaidReason,
-        unpaidNote: updates.payment.unpaidNote,
-        // Update amount if provided (e.g., when add-ons change)
-        amountCents: updates.payment.amountCents !== undefined ? updates.payment.amountCents : currentPayment.amountCents,
-        // Keep paidAt/paidBy for history if they exist
-      };
-
-      // Add payment history entry only if status changed or unpaid reason provided
-      if (currentPayment.status !== PaymentStatus.UNPAID || updates.payment.unpaidReason) {
-        statusHistory.push({
-          from: null,
-          to: null,
-          event: updates.payment.unpaidReason ? 'PAYMENT_MARKED_UNPAID' : 'PAYMENT_AMOUNT_UPDATED',
-          changedAt: now,
-          changedBy: userAudit,
-          reason: updates.payment.unpaidReason ? `${updates.payment.unpaidReason}${updates.payment.unpaidNote ? `: ${updates.payment.unpaidNote}` : ''}` : undefined,
-        });
-      }
     }
   }
 
@@ -688,8 +916,15 @@ export async function updateJobWithAudit(
     updateData.statusHistory = statusHistory;
   }
 
-  // Update the job in database
-  const updatedJob = await dynamodb.updateJob(jobId, updateData);
+  // Update the job in database, failing with VersionConflictError if the job
+  // changed since the client (or this read) last saw it
+  let updatedJob = await jobRepository.updateJob(jobId, updateData, {
+    expectedVersion: updates.expectedVersion ?? currentJob.version ?? 0,
+  });
+
+  if (updates.vehicleInfo !== undefined) {
+    updatedJob = await linkVehicleAfterSave(updatedJob, userAudit);
+  }
 
   // Send completion SMS if transitioning to WORK_COMPLETED
   if (updates.workStatus === WorkStatus.WORK_COMPLETED && currentJob.status !== WorkStatus.WORK_COMPLETED) {
@@ -722,7 +957,7 @@ export async function updateJobWithAudit(
  */
 export async function generatePresignedUploadUrls(
   jobId: string,
-  files: Array<{ filename: string; contentType: string; category?: PhotoMeta['category'] }>
+  files: Array<{ filename: string; contentType: string; category?: PhotoMeta['category']; angle?: InspectionAngle }>
 ): Promise<Array<{
   photoId: string;
   s3Key: string;
@@ -730,6 +965,7 @@ export async function generatePresignedUploadUrls(
   publicUrl: string;
   contentType: string;
   category?: PhotoMeta['category'];
+  angle?: InspectionAngle;
 }>> {
   const config = await import('../config').then(m => m.getConfig());
   
@@ -750,6 +986,7 @@ export async function generatePresignedUploadUrls(
         publicUrl,
         contentType: file.contentType,
         category: file.category,
+        angle: file.angle,
       };
     })
   );
@@ -767,16 +1004,11 @@ export async function commitPhotosToJob(
     s3Key: string;
     publicUrl: string;
     contentType: string;
-    category?: 'before' | 'after' | 'damage' | 'other';
+    category?: PhotoMeta['category'];
+    angle?: InspectionAngle;
   }>,
   userAudit: UserAudit
 ): Promise<Job | null> {
-  const currentJob = await dynamodb.getJob(jobId);
-  
-  if (!currentJob) {
-    return null;
-  }
-
   const newPhotosMeta: PhotoMeta[] = photos.map(photo => ({
     photoId: photo.photoId,
     s3Key: photo.s3Key,
@@ -784,63 +1016,1425 @@ export async function commitPhotosToJob(
     contentType: photo.contentType,
     uploadedAt: new Date().toISOString(),
     uploadedBy: userAudit,
-    category: photo.category,
+    // Inspection angle shots are always check-in ("before") photos
+    category: photo.angle ? 'before' : photo.category,
+    ...(photo.angle && { angle: photo.angle }),
   }));
 
-  const existingPhotosMeta = currentJob.photosMeta || [];
-  const updatedPhotosMeta = [...existingPhotosMeta, ...newPhotosMeta];
+  const anglePhotos = newPhotosMeta.filter(photo => photo.angle);
 
-  return dynamodb.updateJob(jobId, {
-    photosMeta: updatedPhotosMeta,
-    updatedAt: new Date().toISOString(),
-    updatedBy: userAudit,
+  return updateJobWithRetry(jobId, currentJob => {
+    const updates: Partial<Job> = {
+      photosMeta: [...(currentJob.photosMeta || []), ...newPhotosMeta],
+      updatedAt: new Date().toISOString(),
+      updatedBy: userAudit,
+    };
+
+    // Fill the inspection slots (a retake replaces the earlier photo)
+    if (anglePhotos.length > 0) {
+      const inspection = currentJob.checkinInspection || createEmptyInspection();
+      updates.checkinInspection = {
+        ...inspection,
+        photos: {
+          ...inspection.photos,
+          ...Object.fromEntries(anglePhotos.map(photo => [photo.angle, photo.photoId])),
+        },
+        updatedAt: new Date().toISOString(),
+      };
+    }
+
+    return updates;
   });
 }
 
 /**
- * Payment toggle: Generate presigned URLs for receipt uploads
+ * Check-in inspection: Whether the inspection can still be edited by this role
+ * (it is locked once work has started, except for managers)
  */
-export async function generatePresignedReceiptUrls(
+function assertInspectionEditable(job: Job, userAudit: UserAudit): void {
+  if (userAudit.role !== UserRole.MANAGER && getStatusRank(job.status) > getStatusRank(WorkStatus.CHECKED_IN)) {
+    throw new InspectionError(
+      'INSPECTION_LOCKED',
+      'The check-in inspection is locked once work has started. Ask a manager to change it.'
+    );
+  }
+}
+
+/**
+ * Check-in inspection: Replace the damage pins and/or notes
+ *
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function updateCheckinInspection(
   jobId: string,
-  files: Array<{ filename: string; contentType: string }>
-): Promise<Array<{
-  photoId: string;
-  s3Key: string;
-  putUrl: string;
-  publicUrl: string;
-  contentType: string;
-}>> {
-  const config = await import('../config').then(m => m.getConfig());
-  
-  const uploads = await Promise.all(
-    files.map(async (file) => {
-      const photoId = uuidv4();
-      const timestamp = Date.now();
-      const sanitizedFilename = file.filename.replace(/[^a-zA-Z0-9.-]/g, '_');
-      
-      // Receipt-specific S3 key convention
-      const s3Key = `jobs/${jobId}/receipts/${photoId}-${sanitizedFilename}`;
-      
-      // Generate presigned PUT URL (5 minutes expiry)
-      const client = s3.getS3Client();
-      const { PutObjectCommand } = await import('@aws-sdk/client-s3');
-      const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner');
-      
-      const command = new PutObjectCommand({
-        Bucket: config.aws.s3.photosBucket,
-        Key: s3Key,
-        ContentType: file.contentType,
-        Metadata: {
-          jobId,
-          type: 'receipt',
-        },
-      });
-      
-      const putUrl = await getSignedUrl(client, command, { expiresIn: 300 });
-      
-      // Build public URL
-      const publicUrl = `https://${config.aws.s3.photosBucket}.s3.${config.aws.region}.amazonaws.com/${s3Key}`;
-      
+  updates: UpdateInspectionRequest,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  return updateJobWithRetry(jobId, currentJob => {
+    assertInspectionEditable(currentJob, userAudit);
+
+    const inspection = currentJob.checkinInspection || createEmptyInspection();
+    const existingPins = new Map(inspection.damagePins.map(pin => [pin.pinId, pin]));
+    const now = new Date().toISOString();
+
+    return {
+      checkinInspection: {
+        ...inspection,
+        ...(updates.damagePins && {
+          // Keep who pinned existing damage; new pins get an id and the current user
+          damagePins: updates.damagePins.map(pin => {
+            const existing = pin.pinId ? existingPins.get(pin.pinId) : undefined;
+            return {
+              pinId: existing?.pinId || uuidv4(),
+              x: Math.min(100, Math.max(0, pin.x)),
+              y: Math.min(100, Math.max(0, pin.y)),
+              note: pin.note.trim(),
+              ...(pin.photoId && { photoId: pin.photoId }),
+              createdAt: existing?.createdAt || now,
+              createdBy: existing?.createdBy || userAudit,
+            };
+          }),
+        }),
+        ...(updates.notes !== undefined && { notes: updates.notes }),
+        updatedAt: now,
+      },
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * Check-in inspection: Sign off once every required angle has a photo
+ *
+ * @throws InspectionError INSPECTION_INCOMPLETE listing the missing angles
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function completeCheckinInspection(
+  jobId: string,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  return updateJobWithRetry(jobId, currentJob => {
+    assertInspectionEditable(currentJob, userAudit);
+
+    const missingAngles = getMissingInspectionAngles(currentJob);
+    if (missingAngles.length > 0) {
+      throw new InspectionError(
+        'INSPECTION_INCOMPLETE',
+        `Missing check-in photos: ${missingAngles.map(angle => INSPECTION_ANGLE_LABELS[angle]).join(', ')}.`,
+        missingAngles
+      );
+    }
+
+    const now = new Date().toISOString();
+    const inspection = currentJob.checkinInspection || createEmptyInspection();
+
+    return {
+      checkinInspection: {
+        ...inspection,
+        completedAt: now,
+        completedBy: userAudit,
+        updatedAt: now,
+      },
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: currentJob.status,
+          event: 'CHECKIN_INSPECTION_COMPLETED',
+          changedAt: now,
+          changedBy: userAudit,
+          reason: inspection.damagePins.length > 0
+            ? `${inspection.damagePins.length} pre-existing damage pin(s)`
+            : undefined,
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * Work timer: Pause for a break / waiting on the customer, or resume
+ *
+ * @throws WorkTimerError if the job isn't in progress or the timer is
+ *   already in the requested state
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function updateWorkTimer(
+  jobId: string,
+  request: UpdateWorkTimerRequest,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  return updateJobWithRetry(jobId, currentJob => {
+    if (currentJob.status !== WorkStatus.IN_PROGRESS) {
+      throw new WorkTimerError(
+        request.action === 'pause' ? 'TIMER_NOT_RUNNING' : 'TIMER_NOT_PAUSED',
+        'The work timer only runs while the job is in progress.'
+      );
+    }
+
+    const now = new Date().toISOString();
+    const workTimer = request.action === 'pause'
+      ? pauseWorkTimer(currentJob.workTimer, request.reason, now)
+      : resumeWorkTimer(currentJob.workTimer, userAudit, now);
+
+    return {
+      workTimer,
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: currentJob.status,
+          event: request.action === 'pause' ? 'WORK_TIMER_PAUSED' : 'WORK_TIMER_RESUMED',
+          changedAt: now,
+          changedBy: userAudit,
+          reason: request.action === 'pause' ? workTimer.pauseReason : undefined,
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * QC reject: Fail QC and send the job back to its rework stage
+ *
+ * Unchecks the failed QC items, restarts the work timer for the tech and
+ * records the reject (attributed to the techs whose work failed).
+ *
+ * @throws QcRejectError if the job isn't in QC or the request doesn't match the job
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function rejectQc(
+  jobId: string,
+  request: RejectQcRequest,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  const reason = request.reason?.trim();
+  if (!reason) {
+    throw new QcRejectError('REASON_REQUIRED', 'A reason is required to reject QC.');
+  }
+
+  return updateJobWithRetry(jobId, async currentJob => {
+    if (currentJob.status !== WorkStatus.QC_READY) {
+      throw new QcRejectError('NOT_IN_QC', `Only jobs in QC can be rejected (job is ${currentJob.status}).`);
+    }
+
+    const qcItems = currentJob.checklist?.qc || [];
+    const failedIds = new Set(request.failedItemIds || []);
+    const unknownItems = Array.from(failedIds).filter(id => !qcItems.some(item => item.id === id));
+    if (unknownItems.length > 0) {
+      throw new QcRejectError('INVALID_CHECKLIST_ITEMS', `Unknown QC checklist items: ${unknownItems.join(', ')}.`);
+    }
+
+    const photoIds = request.photoIds || [];
+    const unknownPhotos = photoIds.filter(id => !(currentJob.photosMeta || []).some(photo => photo.photoId === id));
+    if (unknownPhotos.length > 0) {
+      throw new QcRejectError('INVALID_PHOTOS', `Photos not found on this job: ${unknownPhotos.join(', ')}.`);
+    }
+
+    const stages = await getWorkflowStages(currentJob.serviceType);
+    const fromStage = getJobStage(currentJob, stages)?.id;
+    const reworkStage = getReworkStage(currentJob, stages);
+    const techs = getRejectedTechs(currentJob);
+    const now = new Date().toISOString();
+
+    const rejection: QcRejection = {
+      rejectionId: uuidv4(),
+      reason,
+      failedItems: qcItems
+        .filter(item => failedIds.has(item.id))
+        .map(({ id, label }) => ({ id, label })),
+      photoIds,
+      techs,
+      fromStage,
+      toStage: reworkStage.id,
+      rejectedAt: now,
+      rejectedBy: userAudit,
+    };
+    const qcRejections = [...(currentJob.qcRejections || []), rejection];
+
+    // Rework time goes to the tech who did the work, not the QC reviewer
+    const reworkTech: UserAudit = techs[0] ? { ...techs[0], role: UserRole.TECH } : userAudit;
+
+    return {
+      status: WorkStatus.IN_PROGRESS,
+      stageId: reworkStage.id,
+      checklist: {
+        ...currentJob.checklist,
+        qc: qcItems.map(item => (failedIds.has(item.id)
+          ? { ...item, checked: false, checkedAt: undefined, checkedBy: undefined }
+          : item)),
+      },
+      qcRejections,
+      qcRejectCount: qcRejections.length,
+      workTimer: startWorkTimer(currentJob.workTimer, reworkTech, now),
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: WorkStatus.IN_PROGRESS,
+          fromStage,
+          toStage: reworkStage.id,
+          event: 'QC_REJECTED',
+          changedAt: now,
+          changedBy: userAudit,
+          reason,
+          qcRejectionId: rejection.rejectionId,
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * Assignment: Replace the users a job is assigned to
+ *
+ * @throws AssignmentError if a user doesn't exist or is inactive
+ * @returns Updated job and the assignees it had before, or null if the job does not exist
+ */
+export async function assignJob(
+  jobId: string,
+  request: AssignJobRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; previous: JobAssignee[] } | null> {
+  const userIds = Array.from(new Set(request.userIds || []));
+  const users = await Promise.all(userIds.map(userId => getUserById(userId)));
+
+  const unknown = userIds.filter((_, index) => !users[index]?.isActive);
+  if (unknown.length > 0) {
+    throw new AssignmentError('USER_NOT_FOUND', `Users not found or inactive: ${unknown.join(', ')}.`);
+  }
+
+  let previous: JobAssignee[] = [];
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    previous = currentJob.assignedTo || [];
+
+    const now = new Date().toISOString();
+    const assignedTo = buildManualAssignment(previous, users as User[], userAudit, now);
+
+    if (isSameAssignment(previous, assignedTo)) {
+      return { assignedTo };
+    }
+
+    return {
+      assignedTo,
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: currentJob.status,
+          event: 'ASSIGNMENT_CHANGED',
+          changedAt: now,
+          changedBy: userAudit,
+          assignees: assignedTo.map(assignee => assignee.name),
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  return job ? { job, previous } : null;
+}
+
+/**
+ * Assignment: Write the primary assignee's team member to the Square booking
+ *
+ * Best-effort: failures are logged and reported as not synced. Square
+ * echoes the change back as booking.updated; that only refreshes the
+ * booking fields, so a job already in the shop keeps its status and timer.
+ *
+ * @returns Whether the booking now has the assignee's team member
+ */
+export async function syncAssignmentToSquare(job: Job): Promise<boolean> {
+  const teamMemberId = getPrimaryTeamMemberId(job.assignedTo);
+
+  if (!job.bookingId || !teamMemberId) {
+    return false;
+  }
+
+  try {
+    const booking = await retrieveBooking(job.bookingId);
+    if (!booking) {
+      return false;
+    }
+
+    const segments = booking.appointment_segments || [];
+    if (segments.length > 0 && segments.every(segment => segment.team_member_id === teamMemberId)) {
+      return true;
+    }
+
+    await updateBookingTeamMember(booking, teamMemberId);
+
+    console.log('[JOB SERVICE] Assignment synced to Square', {
+      jobId: job.jobId,
+      bookingId: job.bookingId,
+      teamMemberId,
+    });
+    return true;
+  } catch (error: any) {
+    console.error('[JOB SERVICE] Failed to sync assignment to Square', {
+      jobId: job.jobId,
+      bookingId: job.bookingId,
+      error: error.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Assignment implied by a Square booking's team members (undefined if unchanged)
+ */
+async function getAssignmentFromBooking(
+  current: JobAssignee[] | undefined,
+  booking: ParsedBooking
+): Promise<JobAssignee[] | undefined> {
+  if (!booking.teamMemberIds?.length) {
+    return undefined;
+  }
+
+  const users = await listActiveUsers();
+  return getAssignmentFromTeamMembers(current, booking.teamMemberIds, users);
+}
+
+/**
+ * Bays: Book a job into a bay, or clear its bay
+ *
+ * @throws BayError if the bay doesn't exist, is inactive or can't take the job's service
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function assignBay(
+  jobId: string,
+  bayId: string | null,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  const [bayConfig, bayCapabilities] = await Promise.all([
+    shopSettingsRepository.getBayConfig(),
+    getBayCapabilitiesByService(),
+  ]);
+
+  const bay = bayId ? (bayConfig?.bays || []).find(candidate => candidate.bayId === bayId) : undefined;
+  if (bayId && !bay?.isActive) {
+    throw new BayError('BAY_NOT_FOUND', `Bay ${bayId} not found or inactive.`);
+  }
+
+  return updateJobWithRetry(jobId, currentJob => {
+    if (bay && !canBayTake(bay, bayCapabilities[currentJob.serviceType])) {
+      throw new BayError(
+        'BAY_NOT_CAPABLE',
+        `${bay.name} can't take ${currentJob.serviceType} (needs ${bayCapabilities[currentJob.serviceType].join(', ')}).`
+      );
+    }
+
+    if ((currentJob.bay?.bayId || null) === (bay?.bayId || null)) {
+      return {};
+    }
+
+    const now = new Date().toISOString();
+    const jobBay: JobBay | undefined = bay
+      ? { bayId: bay.bayId, name: bay.name, assignedAt: now, assignedBy: userAudit }
+      : undefined;
+
+    return {
+      bay: jobBay,
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: currentJob.status,
+          event: 'BAY_CHANGED',
+          changedAt: now,
+          changedBy: userAudit,
+          ...(bay && { bay: bay.name }),
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * No-show fees: Charge (or retry charging) a no-show to the customer's card on file
+ *
+ * Moves the job to NO_SHOW_PENDING_CHARGE and records the attempt before
+ * calling the payments client, so a double click can't charge twice, then
+ * to NO_SHOW_CHARGED or NO_SHOW_FAILED with the outcome. Declines and
+ * missing cards land in NO_SHOW_FAILED, from which the charge can be
+ * retried. When Square's answer is lost (timeout, 5xx) the charge may have
+ * gone through, so the attempt stays PENDING and the job in
+ * NO_SHOW_PENDING_CHARGE. Charging again resumes that attempt (as it does
+ * one cut off mid-charge), whose idempotency key gets Square's original
+ * result instead of a second charge.
+ *
+ * @throws StatusTransitionError if the job isn't a recorded no-show in SCHEDULED, NO_SHOW_FAILED or NO_SHOW_PENDING_CHARGE
+ * @throws NoShowChargeError if the policy charges nothing or the job has no customer
+ * @returns Updated job, the attempt and the status the job was charged from, or null if the job does not exist
+ */
+export async function chargeNoShowFee(
+  jobId: string,
+  userAudit: UserAudit
+): Promise<{ job: Job; attempt: NoShowChargeAttempt; previousStatus: WorkStatus } | null> {
+  const policy = await getNoShowPolicy();
+  let attempt: NoShowChargeAttempt | undefined;
+  let previousStatus = WorkStatus.SCHEDULED;
+
+  const pendingJob = await updateJobWithRetry(jobId, currentJob => {
+    const interrupted = currentJob.status === WorkStatus.NO_SHOW_PENDING_CHARGE
+      ? currentJob.noShow?.chargeAttempts?.find(candidate => candidate.result === 'PENDING')
+      : undefined;
+    if (interrupted && currentJob.customerId) {
+      previousStatus = currentJob.status;
+      attempt = interrupted;
+      return { updatedAt: new Date().toISOString(), updatedBy: userAudit };
+    }
+
+    const check = checkTransition(currentJob, WorkStatus.NO_SHOW_PENDING_CHARGE, userAudit.role);
+    if (!check.allowed) {
+      throw new StatusTransitionError(check);
+    }
+
+    const feeCents = calculateNoShowFee(policy, currentJob);
+    if (feeCents <= 0) {
+      throw new NoShowChargeError('NO_FEE', 'The no-show policy waives the fee for this job.');
+    }
+    if (!currentJob.customerId) {
+      throw new NoShowChargeError('NO_CUSTOMER', 'The job has no Square customer to charge.');
+    }
+
+    const now = new Date().toISOString();
+    previousStatus = currentJob.status;
+    attempt = {
+      attemptId: uuidv4(),
+      amountCents: feeCents,
+      result: 'PENDING',
+      attemptedAt: now,
+      attemptedBy: userAudit,
+    };
+
+    return {
+      status: WorkStatus.NO_SHOW_PENDING_CHARGE,
+      stageId: WorkStatus.NO_SHOW_PENDING_CHARGE,
+      noShow: {
+        ...currentJob.noShow!,
+        feeCents,
+        attemptedChargeAt: now,
+        chargeAttempts: [...(currentJob.noShow?.chargeAttempts || []), attempt],
+      },
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: WorkStatus.NO_SHOW_PENDING_CHARGE,
+          event: 'NO_SHOW_CHARGE_ATTEMPTED',
+          changedAt: now,
+          changedBy: userAudit,
+          amountCents: feeCents,
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  if (!pendingJob || !attempt) {
+    return null;
+  }
+
+  let outcome: Pick<NoShowChargeAttempt, 'paymentId' | 'cardBrand' | 'cardLast4' | 'failureReason'> & { success: boolean; unknown?: boolean };
+  const client = getPaymentsClient();
+  let card: CardOnFile | null = null;
+  try {
+    card = await client.findCardOnFile(pendingJob.customerId);
+    outcome = card
+      ? { success: false }
+      : { success: false, failureReason: 'The customer has no card on file in Square.' };
+  } catch (error: any) {
+    // Nothing was charged yet, so this is a plain failure
+    outcome = { success: false, failureReason: error.message || 'Payment processor error' };
+  }
+
+  if (card) {
+    try {
+      const charge = await client.chargeCard({
+        customerId: pendingJob.customerId,
+        cardId: card.cardId,
+        amountCents: attempt.amountCents,
+        currency: NO_SHOW_CURRENCY,
+        idempotencyKey: attempt.attemptId,
+        referenceId: jobId,
+        note: `No-show fee: ${pendingJob.serviceType}${pendingJob.appointmentTime ? ` (${pendingJob.appointmentTime})` : ''}`,
+      });
+      outcome = {
+        success: charge.success,
+        unknown: charge.unknown,
+        paymentId: charge.paymentId,
+        cardBrand: card.brand,
+        cardLast4: card.last4,
+        failureReason: charge.failureReason,
+      };
+    } catch (error: any) {
+      // The charge may have reached Square before the error
+      outcome = { success: false, unknown: true, failureReason: error.message || 'Payment processor error' };
+    }
+  }
+
+  const { success, unknown, ...details } = outcome;
+
+  if (unknown) {
+    const unconfirmed: NoShowChargeAttempt = { ...attempt, ...details };
+    const job = await updateJobWithRetry(jobId, currentJob => {
+      if (!currentJob.noShow?.chargeAttempts?.some(existing => existing.attemptId === unconfirmed.attemptId && existing.result === 'PENDING')) {
+        return { updatedAt: new Date().toISOString(), updatedBy: userAudit };
+      }
+
+      return {
+        noShow: {
+          ...currentJob.noShow!,
+          chargeAttempts: currentJob.noShow.chargeAttempts.map(existing =>
+            existing.attemptId === unconfirmed.attemptId ? unconfirmed : existing
+          ),
+        },
+        updatedAt: new Date().toISOString(),
+        updatedBy: userAudit,
+      };
+    });
+
+    console.log('[JOB SERVICE] No-show charge unconfirmed; left PENDING to resend', {
+      jobId,
+      attemptId: unconfirmed.attemptId,
+      amountCents: unconfirmed.amountCents,
+      failureReason: unconfirmed.failureReason,
+    });
+
+    return job ? { job, attempt: unconfirmed, previousStatus } : null;
+  }
+
+  const completed: NoShowChargeAttempt = {
+    ...attempt,
+    ...details,
+    result: success ? 'SUCCESS' : 'FAILED',
+    completedAt: new Date().toISOString(),
+  };
+  const to = success ? WorkStatus.NO_SHOW_CHARGED : WorkStatus.NO_SHOW_FAILED;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    // Settled meanwhile by a concurrent retry of the same attempt
+    if (currentJob.noShow?.chargeAttempts?.some(existing => existing.attemptId === completed.attemptId && existing.result !== 'PENDING')) {
+      return { updatedAt: completed.completedAt!, updatedBy: userAudit };
+    }
+
+    return {
+      status: to,
+      stageId: to,
+      noShow: {
+        ...currentJob.noShow!,
+        chargeResult: completed.result as 'SUCCESS' | 'FAILED',
+        chargeAttempts: (currentJob.noShow?.chargeAttempts || []).map(existing =>
+          existing.attemptId === completed.attemptId ? completed : existing
+        ),
+      },
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to,
+          event: success ? 'NO_SHOW_CHARGED' : 'NO_SHOW_CHARGE_FAILED',
+          changedAt: completed.completedAt!,
+          changedBy: userAudit,
+          amountCents: completed.amountCents,
+          reason: success
+            ? `Charged ${formatCents(completed.amountCents)}${completed.cardLast4 ? ` to ${completed.cardBrand || 'card'} ending ${completed.cardLast4}` : ''}`
+            : completed.failureReason,
+        },
+      ],
+      updatedAt: completed.completedAt!,
+      updatedBy: userAudit,
+    };
+  });
+
+  console.log('[JOB SERVICE] No-show charge finished', {
+    jobId,
+    attemptId: completed.attemptId,
+    amountCents: completed.amountCents,
+    result: completed.result,
+    paymentId: completed.paymentId,
+    failureReason: completed.failureReason,
+  });
+
+  return job ? { job, attempt: completed, previousStatus } : null;
+}
+
+/**
+ * Issues: Look up an active user to follow up an issue
+ *
+ * @throws IssueError if the user doesn't exist or is inactive
+ */
+async function getIssueAssignee(userId: string): Promise<JobIssue['assignee']> {
+  const user = await getUserById(userId);
+  if (!user?.isActive) {
+    throw new IssueError('USER_NOT_FOUND', `User not found or inactive: ${userId}.`);
+  }
+  return { userId: user.userId, name: user.name };
+}
+
+/**
+ * Issues: Photo ids that aren't on the job
+ */
+function findUnknownPhotos(job: Job, photoIds: string[]): string[] {
+  return photoIds.filter(id => !(job.photosMeta || []).some(photo => photo.photoId === id));
+}
+
+/**
+ * Issues: Write an updated issue list (and its open count) back to the job
+ */
+function buildIssueUpdates(
+  currentJob: Job,
+  issues: JobIssue[],
+  userAudit: UserAudit,
+  now: string,
+  historyEntry?: Omit<StatusHistoryEntry, 'from' | 'to' | 'changedAt' | 'changedBy'>
+): Partial<Job> {
+  return {
+    issues,
+    openIssueCount: issues.filter(isIssueOpen).length,
+    ...(historyEntry && {
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: currentJob.status,
+          to: currentJob.status,
+          changedAt: now,
+          changedBy: userAudit,
+          ...historyEntry,
+        },
+      ],
+    }),
+    updatedAt: now,
+    updatedBy: userAudit,
+  };
+}
+
+/**
+ * Issues: Raise a post-completion issue on a completed job
+ *
+ * @throws IssueError if the job isn't completed or the request is invalid
+ * @returns Updated job and the new issue, or null if the job does not exist
+ */
+export async function openIssue(
+  jobId: string,
+  request: OpenIssueRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; issue: JobIssue } | null> {
+  if (!ISSUE_TYPES.includes(request.type)) {
+    throw new IssueError('INVALID_ISSUE_TYPE', `Invalid issue type. Must be one of: ${ISSUE_TYPES.join(', ')}.`);
+  }
+
+  const assignee = request.assigneeUserId ? await getIssueAssignee(request.assigneeUserId) : undefined;
+  let issue: JobIssue | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    if (currentJob.status !== WorkStatus.WORK_COMPLETED) {
+      throw new IssueError('NOT_COMPLETED', `Issues can only be raised on completed jobs (job is ${currentJob.status}).`);
+    }
+
+    const photoIds = request.photoIds || [];
+    const unknownPhotos = findUnknownPhotos(currentJob, photoIds);
+    if (unknownPhotos.length > 0) {
+      throw new IssueError('INVALID_PHOTOS', `Photos not found on this job: ${unknownPhotos.join(', ')}.`);
+    }
+
+    const now = new Date().toISOString();
+    issue = {
+      issueId: uuidv4(),
+      type: request.type,
+      status: 'OPEN',
+      ...(request.notes?.trim() && { notes: request.notes.trim() }),
+      ...(assignee && { assignee }),
+      photoIds,
+      comments: [],
+      openedAt: now,
+      openedBy: userAudit,
+      updatedAt: now,
+    };
+
+    return buildIssueUpdates(currentJob, [...getJobIssues(currentJob), issue], userAudit, now, {
+      event: 'POST_COMPLETION_ISSUE_OPENED',
+      reason: issue.notes,
+      issueId: issue.issueId,
+    });
+  });
+
+  return job ? { job, issue: issue! } : null;
+}
+
+/**
+ * Issues: Change an issue's status, assignee, photos or resolution
+ *
+ * Resolving needs an outcome; reopening clears the resolution.
+ *
+ * @throws IssueError if the issue doesn't exist or the change is invalid
+ * @returns Updated job and issue, or null if the job does not exist
+ */
+export async function updateIssue(
+  jobId: string,
+  issueId: string,
+  request: UpdateIssueRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; issue: JobIssue } | null> {
+  if (request.outcome !== undefined && !ISSUE_OUTCOMES.includes(request.outcome)) {
+    throw new IssueError('OUTCOME_REQUIRED', `Outcome must be one of: ${ISSUE_OUTCOMES.join(', ')}.`);
+  }
+
+  const assignee = request.assigneeUserId ? await getIssueAssignee(request.assigneeUserId) : undefined;
+  let issue: JobIssue | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    const issues = getJobIssues(currentJob);
+    const current = issues.find(existing => existing.issueId === issueId);
+    if (!current) {
+      throw new IssueError('ISSUE_NOT_FOUND', `Issue ${issueId} not found on job ${jobId}.`);
+    }
+
+    const status = request.status ?? current.status;
+    if (status !== current.status && !canChangeIssueStatus(current.status, status)) {
+      throw new IssueError('INVALID_STATUS_CHANGE', `An issue can't go from ${current.status} to ${status}.`);
+    }
+
+    const resolving = status === 'RESOLVED' && current.status !== 'RESOLVED';
+    const reopening = current.status === 'RESOLVED' && status !== 'RESOLVED';
+    const outcome = request.outcome ?? (status === 'RESOLVED' ? current.outcome : undefined);
+    if (status === 'RESOLVED' && !outcome) {
+      throw new IssueError('OUTCOME_REQUIRED', `Choose an outcome (${ISSUE_OUTCOMES.join(', ')}) to resolve the issue.`);
+    }
+
+    const photoIds = request.photoIds ?? current.photoIds;
+    const unknownPhotos = findUnknownPhotos(currentJob, photoIds);
+    if (unknownPhotos.length > 0) {
+      throw new IssueError('INVALID_PHOTOS', `Photos not found on this job: ${unknownPhotos.join(', ')}.`);
+    }
+
+    const now = new Date().toISOString();
+    const resolved = status === 'RESOLVED';
+    const resolutionNotes = request.resolutionNotes !== undefined
+      ? request.resolutionNotes.trim() || undefined
+      : current.resolutionNotes;
+
+    // Undefined fields are dropped on write (a reopened issue loses its resolution)
+    issue = {
+      ...current,
+      status,
+      photoIds,
+      assignee: request.assigneeUserId === undefined ? current.assignee : assignee,
+      outcome: resolved ? outcome : undefined,
+      resolvedAt: resolved ? (resolving ? now : current.resolvedAt) : undefined,
+      resolvedBy: resolved ? (resolving ? userAudit : current.resolvedBy) : undefined,
+      resolutionNotes: resolved ? resolutionNotes : undefined,
+      updatedAt: now,
+    };
+
+    const historyEntry = resolving
+      ? { event: 'POST_COMPLETION_ISSUE_RESOLVED' as const, issueId, issueOutcome: outcome, reason: issue.resolutionNotes }
+      : reopening
+        ? { event: 'POST_COMPLETION_ISSUE_REOPENED' as const, issueId }
+        : undefined;
+
+    return buildIssueUpdates(
+      currentJob,
+      issues.map(existing => (existing.issueId === issueId ? issue! : existing)),
+      userAudit,
+      now,
+      historyEntry
+    );
+  });
+
+  return job ? { job, issue: issue! } : null;
+}
+
+/**
+ * Issues: Add a comment (or a reply to one) to an issue
+ *
+ * @throws IssueError if the issue or parent comment doesn't exist
+ * @returns Updated job and issue, or null if the job does not exist
+ */
+export async function addIssueComment(
+  jobId: string,
+  issueId: string,
+  request: AddIssueCommentRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; issue: JobIssue } | null> {
+  const body = request.body?.trim();
+  if (!body) {
+    throw new IssueError('COMMENT_REQUIRED', 'A comment cannot be empty.');
+  }
+
+  let issue: JobIssue | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    const issues = getJobIssues(currentJob);
+    const current = issues.find(existing => existing.issueId === issueId);
+    if (!current) {
+      throw new IssueError('ISSUE_NOT_FOUND', `Issue ${issueId} not found on job ${jobId}.`);
+    }
+    if (request.parentCommentId && !current.comments.some(comment => comment.commentId === request.parentCommentId)) {
+      throw new IssueError('COMMENT_NOT_FOUND', `Comment ${request.parentCommentId} not found on this issue.`);
+    }
+
+    const now = new Date().toISOString();
+    issue = {
+      ...current,
+      comments: [
+        ...current.comments,
+        {
+          commentId: uuidv4(),
+          body,
+          ...(request.parentCommentId && { parentCommentId: request.parentCommentId }),
+          createdAt: now,
+          createdBy: userAudit,
+        },
+      ],
+      updatedAt: now,
+    };
+
+    return buildIssueUpdates(
+      currentJob,
+      issues.map(existing => (existing.issueId === issueId ? issue! : existing)),
+      userAudit,
+      now
+    );
+  });
+
+  return job ? { job, issue: issue! } : null;
+}
+
+/**
+ * Redo jobs: Book the car back in to fix an issue
+ *
+ * Creates a zero-priced job for the same customer and vehicle whose
+ * checklists are the failed QC items, optionally with a Square booking for
+ * the original's service, then links it to the original job and issue
+ * (moving an OPEN issue to IN_PROGRESS).
+ *
+ * @throws RedoError if the issue can't take a redo or the request is invalid
+ * @throws IssueError if the issue doesn't exist
+ * @returns The linked original, the issue and the redo job, or null if the original does not exist
+ */
+export async function scheduleRedo(
+  jobId: string,
+  issueId: string,
+  request: ScheduleRedoRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; issue: JobIssue; redoJob: Job } | null> {
+  if (!request.appointmentTime || isNaN(Date.parse(request.appointmentTime))) {
+    throw new RedoError('INVALID_APPOINTMENT', 'appointmentTime must be an ISO date-time.');
+  }
+  if (request.durationMinutes !== undefined &&
+    (!Number.isInteger(request.durationMinutes) || request.durationMinutes <= 0)) {
+    throw new RedoError('INVALID_APPOINTMENT', 'durationMinutes must be a whole number of minutes.');
+  }
+
+  const original = await jobRepository.getJob(jobId);
+  if (!original) {
+    return null;
+  }
+
+  const checkIssue = (job: Job): JobIssue => {
+    const issue = getJobIssues(job).find(existing => existing.issueId === issueId);
+    if (!issue) {
+      throw new IssueError('ISSUE_NOT_FOUND', `Issue ${issueId} not found on job ${jobId}.`);
+    }
+    if (!canScheduleRedo(issue)) {
+      throw new RedoError('NOT_REDOABLE', issue.redoJobId
+        ? `A redo is already scheduled for this issue (job ${issue.redoJobId}).`
+        : 'Redos can only be scheduled from unresolved DAMAGE, REDO or CUSTOMER_COMPLAINT issues.');
+    }
+    return issue;
+  };
+  checkIssue(original);
+
+  const qcItems = original.checklist?.qc || [];
+  const failedIds = new Set(request.failedItemIds ?? getDefaultRedoItemIds(original));
+  const unknownItems = Array.from(failedIds).filter(id => !qcItems.some(item => item.id === id));
+  if (unknownItems.length > 0) {
+    throw new RedoError('INVALID_CHECKLIST_ITEMS', `Unknown QC checklist items: ${unknownItems.join(', ')}.`);
+  }
+
+  const durationMinutes = request.durationMinutes ?? original.scheduledDurationMinutes;
+  let bookingId: string | undefined;
+
+  if (request.createSquareBooking) {
+    const originalBooking = original.bookingId ? await retrieveBooking(original.bookingId) : null;
+    const segment = originalBooking?.appointment_segments?.[0];
+    if (!original.customerId || !segment?.service_variation_id) {
+      throw new RedoError('NO_SQUARE_SERVICE', 'The original job has no Square booking and customer to book the redo from.');
+    }
+
+    const config = await import('../config').then(m => m.getConfig());
+    const booking = await createBooking({
+      customerId: original.customerId,
+      locationId: originalBooking!.location_id || config.square.franklinLocationId || '',
+      serviceVariationId: segment.service_variation_id,
+      serviceVariationVersion: segment.service_variation_version || 1,
+      startAt: request.appointmentTime,
+      durationMinutes: durationMinutes || segment.duration_minutes,
+      teamMemberId: segment.team_member_id,
+      sellerNote: `Redo of job ${jobId} (no charge)`,
+    });
+    bookingId = booking.id;
+  }
+
+  const now = new Date().toISOString();
+  const redoJob = await jobRepository.createJob({
+    jobId: bookingId || uuidv4(), // Booking ID as job ID, matching phone bookings
+    customerId: original.customerId,
+    customerName: original.customerName,
+    customerEmail: original.customerEmail,
+    customerPhone: original.customerPhone,
+    customerCached: original.customerCached,
+    customerFlags: await getJobCustomerFlags(original.customerId),
+    vehicleInfo: { ...original.vehicleInfo },
+    vehicleId: original.vehicleId,
+    serviceType: original.serviceType,
+    status: WorkStatus.SCHEDULED,
+    ...(bookingId && { bookingId }),
+    appointmentTime: request.appointmentTime,
+    ...(durationMinutes && { scheduledDurationMinutes: durationMinutes }),
+    ...(failedIds.size > 0 && { checklist: buildRedoChecklist(qcItems.filter(item => failedIds.has(item.id))) }),
+    redoOfJobId: jobId,
+    parentJobId: original.parentJobId || jobId,
+    redoIssueId: issueId,
+    notes: request.notes?.trim() || `Redo of ${original.serviceType} (${jobId})`,
+    payment: {
+      status: PaymentStatus.PAID,
+      amountCents: 0,
+      paidAt: now,
+      paidBy: { userId: userAudit.userId, name: userAudit.name, role: 'MANAGER' },
+    },
+    photosMeta: [],
+    createdAt: now,
+    updatedAt: now,
+    createdBy: `redo:${userAudit.userId}`,
+    statusHistory: [
+      {
+        from: null,
+        to: WorkStatus.SCHEDULED,
+        event: 'STATUS_CHANGE',
+        changedAt: now,
+        changedBy: userAudit,
+        reason: `Redo of job ${jobId}`,
+      },
+    ],
+  });
+
+  let issue: JobIssue | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    const current = checkIssue(currentJob);
+    issue = {
+      ...current,
+      status: current.status === 'OPEN' ? 'IN_PROGRESS' : current.status,
+      redoJobId: redoJob.jobId,
+      updatedAt: now,
+    };
+
+    return {
+      ...buildIssueUpdates(
+        currentJob,
+        getJobIssues(currentJob).map(existing => (existing.issueId === issueId ? issue! : existing)),
+        userAudit,
+        now,
+        { event: 'REDO_SCHEDULED', issueId, redoJobId: redoJob.jobId }
+      ),
+      redoJobIds: [...(currentJob.redoJobIds || []), redoJob.jobId],
+    };
+  });
+
+  console.log('[JOB SERVICE] Redo scheduled', {
+    jobId,
+    issueId,
+    redoJobId: redoJob.jobId,
+    bookingId,
+    items: failedIds.size,
+  });
+
+  return job ? { job, issue: issue!, redoJob } : null;
+}
+
+/**
+ * Issues: Every unresolved issue across all jobs, oldest first
+ */
+export async function listOpenIssues(): Promise<OpenIssueSummary[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await jobRepository.listJobsWithOpenIssues({ limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return jobs
+    .flatMap(job => getJobIssues(job).filter(isIssueOpen).map(issue => ({
+      jobId: job.jobId,
+      customerName: job.customerName,
+      serviceType: job.serviceType,
+      vehicleInfo: job.vehicleInfo,
+      appointmentTime: job.appointmentTime,
+      issue,
+    })))
+    .sort((a, b) => a.issue.openedAt.localeCompare(b.issue.openedAt));
+}
+
+/**
+ * Square payments: Record a Square payment on the job's payment ledger, with
+ * the real amount, tip and tender. The job is PAID once its entries cover
+ * the amount due (a job with no amount due yet takes the payment's amount).
+ *
+ * Applying the same payment again (payment.updated) refreshes its entry
+ * without adding another match history entry. A payment Square cancels or
+ * fails voids its entry, and money refunded in Square itself (beyond the
+ * refunds on the ledger) is recorded as a COMPLETED refund.
+ *
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function applySquarePayment(
+  jobId: string,
+  payment: SquarePaymentDetails,
+  matchedBy: PaymentMatchMethod,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  const job = await updateJobWithRetry(jobId, (currentJob) => {
+    const now = new Date().toISOString();
+    const existing = currentJob.paymentEntries?.find(entry => entry.squarePaymentId === payment.paymentId);
+    const isNewMatch = !existing && currentJob.payment?.squarePaymentId !== payment.paymentId;
+    const voided = !existing?.voidedAt && isPaymentVoid(payment);
+
+    const entry: PaymentEntry = {
+      ...existing,
+      entryId: existing?.entryId || uuidv4(),
+      method: 'SQUARE',
+      amountCents: payment.amountCents,
+      tipCents: payment.tipCents || undefined,
+      reference: describeTender(payment),
+      squarePaymentId: payment.paymentId,
+      matchedBy: existing?.matchedBy ?? matchedBy,
+      recordedAt: payment.createdAt,
+      recordedBy: existing?.recordedBy ?? userAudit,
+      ...(voided && {
+        voidedAt: now,
+        voidedBy: SQUARE_PAYMENT_ACTOR,
+        voidReason: `Payment ${payment.status.toLowerCase()} in Square`,
+      }),
+    };
+    const paymentEntries = existing
+      ? currentJob.paymentEntries!.map(candidate => (candidate.entryId === existing.entryId ? entry : candidate))
+      : [...(currentJob.paymentEntries || []), entry];
+
+    // Refunds made in Square rather than through the app only show up as refunded money
+    const refundableCents = getRefundableCents(currentJob, entry);
+    const untrackedRefundCents = Math.min(
+      (payment.refundedCents ?? 0) - (entry.amountCents - refundableCents),
+      refundableCents
+    );
+    const squareRefund: RefundEntry | undefined = untrackedRefundCents > 0
+      ? {
+        refundId: uuidv4(),
+        paymentEntryId: entry.entryId,
+        amountCents: untrackedRefundCents,
+        reason: 'Refunded in Square',
+        status: 'COMPLETED',
+        refundedAt: now,
+        refundedBy: SQUARE_PAYMENT_ACTOR,
+      }
+      : undefined;
+
+    const historyEntries: StatusHistoryEntry[] = [];
+    if (isNewMatch) {
+      historyEntries.push({
+        from: null,
+        to: null,
+        event: 'PAYMENT_MATCHED',
+        changedAt: now,
+        changedBy: userAudit,
+        amountCents: payment.totalCents,
+        ...(payment.tipCents && { tipCents: payment.tipCents }),
+        squarePaymentId: payment.paymentId,
+        paymentEntryId: entry.entryId,
+        reason: `Square ${payment.tenderType} payment (${matchedBy.replace(/_/g, ' ').toLowerCase()} match)`,
+      });
+    }
+    if (voided) {
+      historyEntries.push({
+        from: null,
+        to: null,
+        event: 'PAYMENT_VOIDED',
+        changedAt: now,
+        changedBy: SQUARE_PAYMENT_ACTOR,
+        amountCents: entry.amountCents,
+        squarePaymentId: payment.paymentId,
+        paymentEntryId: entry.entryId,
+        reason: `${describePaymentEntry(entry)}: ${entry.voidReason}`,
+      });
+    }
+    if (squareRefund) {
+      historyEntries.push(buildRefundHistoryEntry(entry, squareRefund, SQUARE_PAYMENT_ACTOR));
+    }
+
+    return {
+      paymentEntries,
+      payment: {
+        ...derivePayment({
+          ...currentJob.payment,
+          status: currentJob.payment?.status ?? PaymentStatus.UNPAID,
+          amountCents: currentJob.payment?.amountCents ?? payment.amountCents,
+        }, paymentEntries),
+        currency: payment.currency,
+        squarePaymentId: payment.paymentId,
+        tenderType: payment.tenderType,
+        cardBrand: payment.cardBrand,
+        cardLast4: payment.cardLast4,
+        receiptUrl: payment.receiptUrl,
+        matchedBy: entry.matchedBy,
+      },
+      ...(squareRefund && { refunds: [...(currentJob.refunds || []), squareRefund] }),
+      ...(historyEntries.length > 0 && {
+        statusHistory: [...(currentJob.statusHistory || []), ...historyEntries],
+      }),
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  if (job) {
+    console.log('[JOB SERVICE] Square payment applied', {
+      jobId,
+      paymentId: payment.paymentId,
+      matchedBy,
+      amountCents: payment.amountCents,
+      tipCents: payment.tipCents,
+    });
+  }
+
+  return job;
+}
+
+/**
+ * Discounts: Reprice an unpaid job with a new set of discounts
+ *
+ * The amount due becomes the new itemized total (a part-paid job is PAID if
+ * its payments now cover it); the history entry records how much it changed by.
+ */
+function buildDiscountUpdates(
+  currentJob: Job,
+  discounts: JobDiscount[],
+  userAudit: UserAudit,
+  historyEntry: Pick<StatusHistoryEntry, 'event' | 'discountId' | 'reason'>
+): Partial<Job> {
+  if (currentJob.payment?.status === PaymentStatus.PAID) {
+    throw new DiscountError('ALREADY_PAID', 'Discounts can only be changed before the job is paid.');
+  }
+
+  const baseBreakdown = getDiscountableBreakdown(currentJob);
+  if (!baseBreakdown) {
+    throw new DiscountError('NOT_PRICED', 'This job has no price to discount yet.');
+  }
+
+  const priceBreakdown = applyDiscountsToBreakdown(baseBreakdown, discounts);
+  const previousAmountCents = currentJob.payment?.amountCents ?? baseBreakdown.totalCents;
+  const now = new Date().toISOString();
+
+  return {
+    discounts,
+    priceBreakdown,
+    payment: derivePayment(
+      { ...currentJob.payment, status: PaymentStatus.UNPAID, amountCents: priceBreakdown.totalCents },
+      currentJob.paymentEntries || []
+    ),
+    statusHistory: [
+      ...(currentJob.statusHistory || []),
+      {
+        from: currentJob.status,
+        to: currentJob.status,
+        changedAt: now,
+        changedBy: userAudit,
+        ...historyEntry,
+        amountCents: Math.abs(previousAmountCents - priceBreakdown.totalCents),
+      },
+    ],
+    updatedAt: now,
+    updatedBy: userAudit,
+  };
+}
+
+/**
+ * Best effort: mirror a catalog discount on the job's Square order
+ */
+async function syncDiscountToSquareOrder(job: Job, discount: JobDiscount, apply: boolean): Promise<void> {
+  if (!discount.catalogDiscountId || !job.orderId) return;
+
+  try {
+    await setOrderDiscount(job.orderId, discount.discountId, apply ? discount.catalogDiscountId : null);
+    console.log('[JOB SERVICE] Discount synced to Square order', {
+      jobId: job.jobId,
+      orderId: job.orderId,
+      catalogDiscountId: discount.catalogDiscountId,
+      apply,
+    });
+  } catch (error: any) {
+    console.error('[JOB SERVICE] Failed to sync discount to Square order', {
+      jobId: job.jobId,
+      orderId: job.orderId,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Discounts: Take a percent or fixed discount off an unpaid job
+ *
+ * A Square catalog discount is also applied to the job's Square order.
+ *
+ * @throws DiscountError if the discount is invalid, the job is paid or has no price yet
+ * @returns Updated job and the new discount, or null if the job does not exist
+ */
+export async function applyDiscount(
+  jobId: string,
+  request: ApplyDiscountRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; discount: JobDiscount } | null> {
+  const errors = validateDiscount(request);
+  if (errors.length > 0) {
+    throw new DiscountError('INVALID_DISCOUNT', errors[0], errors);
+  }
+
+  const catalogDiscount = request.catalogDiscountId
+    ? (await listDiscounts()).find(candidate => candidate.id === request.catalogDiscountId)
+    : undefined;
+  if (request.catalogDiscountId && !catalogDiscount) {
+    throw new DiscountError('INVALID_DISCOUNT', `Square discount ${request.catalogDiscountId} not found.`);
+  }
+
+  let discount: JobDiscount | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    discount = {
+      discountId: uuidv4(),
+      type: request.type,
+      ...(request.type === 'PERCENT' ? { percent: request.percent } : { amountCents: request.amountCents }),
+      reason: request.reason,
+      ...(request.note?.trim() && { note: request.note.trim() }),
+      ...(catalogDiscount && { catalogDiscountId: catalogDiscount.id, name: catalogDiscount.name }),
+      appliedAt: new Date().toISOString(),
+      appliedBy: userAudit,
+    };
+
+    return buildDiscountUpdates(currentJob, [...(currentJob.discounts || []), discount], userAudit, {
+      event: 'DISCOUNT_APPLIED',
+      discountId: discount.discountId,
+      reason: `${describeDiscount(discount)}${discount.note ? `: ${discount.note}` : ''}`,
+    });
+  });
+
+  if (!job) return null;
+
+  await syncDiscountToSquareOrder(job, discount!, true);
+
+  console.log('[JOB SERVICE] Discount applied', {
+    jobId,
+    discountId: discount!.discountId,
+    reason: discount!.reason,
+    amountCents: job.payment?.amountCents,
+  });
+
+  return { job, discount: discount! };
+}
+
+/**
+ * Discounts: Take a discount back off an unpaid job
+ *
+ * @throws DiscountError if the discount doesn't exist or the job is paid
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function removeDiscount(
+  jobId: string,
+  discountId: string,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  let removed: JobDiscount | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    removed = currentJob.discounts?.find(discount => discount.discountId === discountId);
+    if (!removed) {
+      throw new DiscountError('DISCOUNT_NOT_FOUND', `Discount ${discountId} not found on this job.`);
+    }
+
+    return buildDiscountUpdates(
+      currentJob,
+      currentJob.discounts!.filter(discount => discount.discountId !== discountId),
+      userAudit,
+      { event: 'DISCOUNT_REMOVED', discountId, reason: describeDiscount(removed) }
+    );
+  });
+
+  if (job) {
+    await syncDiscountToSquareOrder(job, removed!, false);
+    console.log('[JOB SERVICE] Discount removed', { jobId, discountId });
+  }
+
+  return job;
+}
+
+/**
+ * Payment toggle: Generate presigned URLs for receipt uploads
+ */
+export async function generatePresignedReceiptUrls(
+  jobId: string,
+  files: Array<{ filename: string; contentType: string }>
+): Promise<Array<{
+  photoId: string;
+  s3Key: string;
+  putUrl: string;
+  publicUrl: string;
+  contentType: string;
+}>> {
+  const config = await import('../config').then(m => m.getConfig());
+  
+  const uploads = await Promise.all(
+    files.map(async (file) => {
+      const photoId = uuidv4();
+      const timestamp = Date.now();
+      const sanitizedFilename = file.filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+      
+      // Receipt-specific S3 key convention
+      const s3Key = `jobs/${jobId}/receipts/${photoId}-${sanitizedFilename}`;
+      
+      // Generate presigned PUT URL (5 minutes expiry)
+      const client = s3.getS3Client();
+      const { PutObjectCommand } = await import('@aws-sdk/client-s3');
+      const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner');
+      
+      const command = new PutObjectCommand({
+        Bucket: config.aws.s3.photosBucket,
+        Key: s3Key,
+        ContentType: file.contentType,
+        Metadata: {
+          jobId,
+          type: 'receipt',
+        },
+      });
+      
+      const putUrl = await getSignedUrl(client, command, { expiresIn: 300 });
+      
+      // Build public URL
+      const publicUrl = `https://${config.aws.s3.photosBucket}.s3.${config.aws.region}.amazonaws.com/${s3Key}`;
+      
       return {
         photoId,
         s3Key,
@@ -855,25 +2449,10 @@ export async function generatePresignedReceiptUrls(
 }
 
 /**
- * Payment toggle: Commit uploaded receipts to job record
+ * Payment ledger: Receipt photos uploaded through generatePresignedReceiptUrls
  */
-export async function commitReceiptsToJob(
-  jobId: string,
-  receipts: Array<{
-    photoId: string;
-    s3Key: string;
-    publicUrl: string;
-    contentType: string;
-  }>,
-  userAudit: UserAudit
-): Promise<Job | null> {
-  const currentJob = await dynamodb.getJob(jobId);
-  
-  if (!currentJob) {
-    return null;
-  }
-
-  const newReceipts = receipts.map(receipt => ({
+function toReceiptPhotos(receipts: CommitReceiptsRequest['photos'], userAudit: UserAudit): ReceiptPhoto[] {
+  return receipts.map(receipt => ({
     photoId: receipt.photoId,
     s3Key: receipt.s3Key,
     publicUrl: receipt.publicUrl,
@@ -885,13 +2464,492 @@ export async function commitReceiptsToJob(
       role: 'MANAGER' as const,
     },
   }));
+}
 
-  const existingReceipts = currentJob.receiptPhotos || [];
-  const updatedReceipts = [...existingReceipts, ...newReceipts];
+/**
+ * Payment ledger: Void every entry still counting toward the amount due
+ */
+function voidLiveEntries(
+  entries: PaymentEntry[] | undefined,
+  reason: string,
+  userAudit: UserAudit,
+  now: string
+): PaymentEntry[] | undefined {
+  return entries?.map(entry => (
+    isEntryLive(entry) ? { ...entry, voidedAt: now, voidedBy: userAudit, voidReason: reason } : entry
+  ));
+}
 
-  return dynamodb.updateJob(jobId, {
-    receiptPhotos: updatedReceipts,
-    updatedAt: new Date().toISOString(),
-    updatedBy: userAudit,
+/**
+ * Payment ledger: Record a payment toward a job (cash, card, check or
+ * other, with at least one receipt photo). The job is PAID once its
+ * entries cover the amount due.
+ *
+ * @throws PaymentLedgerError if the payment is invalid, has no receipt, or is more than the balance due
+ * @returns Updated job and the new entry, or null if the job does not exist
+ */
+export async function recordPayment(
+  jobId: string,
+  request: RecordPaymentRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; entry: PaymentEntry } | null> {
+  const errors = validatePayment(request);
+  if (errors.length > 0) {
+    throw new PaymentLedgerError('INVALID_PAYMENT', errors[0], errors);
+  }
+  if (!request.receiptPhotos?.length) {
+    throw new PaymentLedgerError('RECEIPT_REQUIRED', 'At least one receipt photo is required to record a payment.');
+  }
+
+  let entry: PaymentEntry | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    if (isRedoJob(currentJob) || currentJob.payment?.amountCents === undefined) {
+      throw new PaymentLedgerError('NOT_PAYABLE', 'This job has no amount due.');
+    }
+
+    const balanceDueCents = getBalanceDueCents(currentJob);
+    if (balanceDueCents === 0) {
+      throw new PaymentLedgerError('ALREADY_PAID', 'This job is already paid in full.');
+    }
+    if (request.amountCents > balanceDueCents) {
+      throw new PaymentLedgerError(
+        'OVERPAYMENT',
+        `Only ${formatCents(balanceDueCents)} is due. Record anything over that as a tip.`
+      );
+    }
+
+    const now = new Date().toISOString();
+    entry = {
+      entryId: uuidv4(),
+      method: request.method,
+      amountCents: request.amountCents,
+      ...(request.tipCents && { tipCents: request.tipCents }),
+      ...(request.reference?.trim() && { reference: request.reference.trim() }),
+      receiptPhotos: toReceiptPhotos(request.receiptPhotos!, userAudit),
+      recordedAt: now,
+      recordedBy: userAudit,
+    };
+    const paymentEntries = [...(currentJob.paymentEntries || []), entry];
+
+    return {
+      paymentEntries,
+      payment: derivePayment(currentJob.payment, paymentEntries),
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: null,
+          to: null,
+          event: 'PAYMENT_RECORDED' as const,
+          changedAt: now,
+          changedBy: userAudit,
+          amountCents: entry.amountCents,
+          ...(entry.tipCents && { tipCents: entry.tipCents }),
+          paymentEntryId: entry.entryId,
+          reason: describePaymentEntry(entry),
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  if (!job) return null;
+
+  console.log('[JOB SERVICE] Payment recorded', {
+    jobId,
+    entryId: entry!.entryId,
+    method: entry!.method,
+    amountCents: entry!.amountCents,
+    paymentStatus: job.payment?.status,
+  });
+
+  return { job, entry: entry! };
+}
+
+/**
+ * Payment ledger: Void an entry taken in error (e.g. a bounced check).
+ * The entry stays on the ledger but no longer counts toward the amount due.
+ *
+ * @throws PaymentLedgerError if there's no reason, the entry doesn't exist or is already voided
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function voidPaymentEntry(
+  jobId: string,
+  entryId: string,
+  reason: string,
+  userAudit: UserAudit
+): Promise<Job | null> {
+  if (!reason?.trim()) {
+    throw new PaymentLedgerError('REASON_REQUIRED', 'A reason is required to void a payment.');
+  }
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    const entry = currentJob.paymentEntries?.find(candidate => candidate.entryId === entryId);
+    if (!entry) {
+      throw new PaymentLedgerError('ENTRY_NOT_FOUND', `Payment ${entryId} not found on job ${jobId}.`);
+    }
+    if (!isEntryLive(entry)) {
+      throw new PaymentLedgerError('ALREADY_VOIDED', 'This payment was already voided.');
+    }
+
+    const now = new Date().toISOString();
+    const paymentEntries = currentJob.paymentEntries!.map(candidate => (
+      candidate.entryId === entryId
+        ? { ...candidate, voidedAt: now, voidedBy: userAudit, voidReason: reason.trim() }
+        : candidate
+    ));
+
+    return {
+      paymentEntries,
+      payment: derivePayment(currentJob.payment, paymentEntries),
+      statusHistory: [
+        ...(currentJob.statusHistory || []),
+        {
+          from: null,
+          to: null,
+          event: 'PAYMENT_VOIDED' as const,
+          changedAt: now,
+          changedBy: userAudit,
+          amountCents: entry.amountCents,
+          paymentEntryId: entryId,
+          reason: `${describePaymentEntry(entry)}: ${reason.trim()}`,
+        },
+      ],
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  if (job) {
+    console.log('[JOB SERVICE] Payment voided', { jobId, entryId, paymentStatus: job.payment?.status });
+  }
+
+  return job;
+}
+
+/**
+ * Payment ledger: Attach more receipt photos to a payment entry
+ *
+ * @throws PaymentLedgerError if the entry doesn't exist
+ * @returns Updated job, or null if the job does not exist
+ */
+export async function commitReceiptsToPaymentEntry(
+  jobId: string,
+  entryId: string,
+  receipts: CommitReceiptsRequest['photos'],
+  userAudit: UserAudit
+): Promise<Job | null> {
+  const newReceipts = toReceiptPhotos(receipts, userAudit);
+
+  return updateJobWithRetry(jobId, currentJob => {
+    if (!currentJob.paymentEntries?.some(entry => entry.entryId === entryId)) {
+      throw new PaymentLedgerError('ENTRY_NOT_FOUND', `Payment ${entryId} not found on job ${jobId}.`);
+    }
+
+    return {
+      paymentEntries: currentJob.paymentEntries.map(entry => (
+        entry.entryId === entryId
+          ? { ...entry, receiptPhotos: [...(entry.receiptPhotos || []), ...newReceipts] }
+          : entry
+      )),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userAudit,
+    };
+  });
+}
+
+/**
+ * Refunds: Timeline entry for a refund given (or refused by Square)
+ */
+function buildRefundHistoryEntry(entry: PaymentEntry, refund: RefundEntry, userAudit: UserAudit): StatusHistoryEntry {
+  const failed = refund.status === 'FAILED';
+  return {
+    from: null,
+    to: null,
+    event: failed ? 'PAYMENT_REFUND_FAILED' : 'PAYMENT_REFUNDED',
+    changedAt: new Date().toISOString(),
+    changedBy: userAudit,
+    amountCents: refund.amountCents,
+    paymentEntryId: entry.entryId,
+    refundId: refund.refundId,
+    ...(refund.issueId && { issueId: refund.issueId }),
+    reason: `${describePaymentEntry(entry)}: ${failed ? refund.failureReason : refund.reason}`,
+  };
+}
+
+/**
+ * Refunds: Send a PENDING Square refund that has no Square answer yet and
+ * settle it with the answer. The refund ID is the idempotency key, so
+ * resending a refund Square already has gets its original answer instead
+ * of a second refund. When Square doesn't answer (timeout, 5xx) the refund
+ * stays PENDING with the error noted, to be resent later.
+ *
+ * @returns Updated job and the refund, or null if the job or refund does not exist
+ */
+async function sendSquareRefund(
+  jobId: string,
+  refundId: string,
+  userAudit: UserAudit
+): Promise<{ job: Job; refund: RefundEntry } | null> {
+  const currentJob = await jobRepository.getJob(jobId);
+  const refund = currentJob?.refunds?.find(candidate => candidate.refundId === refundId);
+  const entry = refund && currentJob?.paymentEntries?.find(candidate => candidate.entryId === refund.paymentEntryId);
+  if (!currentJob || !refund || !entry) {
+    return null;
+  }
+  if (refund.status !== 'PENDING' || refund.squareRefundId) {
+    return { job: currentJob, refund };
+  }
+
+  let outcome: RefundPaymentResult;
+  try {
+    outcome = await getPaymentsClient().refundPayment({
+      paymentId: entry.squarePaymentId!,
+      amountCents: refund.amountCents,
+      currency: currentJob.payment?.currency || NO_SHOW_CURRENCY,
+      idempotencyKey: refund.refundId,
+      reason: refund.reason,
+    });
+  } catch (error: any) {
+    // The refund may have reached Square before the error
+    outcome = { success: false, unknown: true, failureReason: error.message || 'Payment processor error' };
+  }
+
+  const { failureReason, ...unsent } = refund;
+  const settled: RefundEntry = outcome.unknown
+    ? { ...unsent, failureReason: outcome.failureReason }
+    : {
+      ...unsent,
+      status: !outcome.success ? 'FAILED' : outcome.pending ? 'PENDING' : 'COMPLETED',
+      ...(outcome.refundId && { squareRefundId: outcome.refundId }),
+      ...(outcome.failureReason && { failureReason: outcome.failureReason }),
+    };
+
+  const job = await updateJobWithRetry(jobId, latestJob => {
+    const now = new Date().toISOString();
+    const existing = latestJob.refunds?.find(candidate => candidate.refundId === refundId);
+
+    // Settled meanwhile by a concurrent send of the same refund
+    if (!existing || existing.status !== 'PENDING' || existing.squareRefundId) {
+      return { updatedAt: now, updatedBy: userAudit };
+    }
+
+    return {
+      refunds: latestJob.refunds!.map(candidate => (candidate.refundId === refundId ? settled : candidate)),
+      // Nothing to log until Square answers
+      ...(!outcome.unknown && {
+        statusHistory: [...(latestJob.statusHistory || []), buildRefundHistoryEntry(entry, settled, userAudit)],
+      }),
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  console.log(outcome.unknown ? '[JOB SERVICE] Square refund unanswered; left PENDING to resend' : '[JOB SERVICE] Square refund finished', {
+    jobId,
+    refundId,
+    squarePaymentId: entry.squarePaymentId,
+    amountCents: settled.amountCents,
+    status: settled.status,
+    failureReason: settled.failureReason,
+  });
+
+  const saved = job?.refunds?.find(candidate => candidate.refundId === refundId);
+  return job && saved ? { job, refund: saved } : null;
+}
+
+/**
+ * Refunds: Give back all or part of a payment entry (tip excluded).
+ * SQUARE entries are refunded through Square: the refund is saved PENDING
+ * first, then settled with Square's answer, so a refusal is not an error;
+ * the refund comes back FAILED with the reason. One Square never answered
+ * comes back PENDING; asking again for the same amount on the entry
+ * resends it rather than refunding twice. Other methods are recorded as
+ * handed back.
+ *
+ * @throws PaymentLedgerError if the request is invalid, the entry or issue doesn't exist, or the entry can't cover it
+ * @returns Updated job and the refund, or null if the job does not exist
+ */
+export async function refundPayment(
+  jobId: string,
+  request: CreateRefundRequest,
+  userAudit: UserAudit
+): Promise<{ job: Job; refund: RefundEntry } | null> {
+  const errors = validateRefund(request);
+  if (errors.length > 0) {
+    throw new PaymentLedgerError('INVALID_REFUND', errors[0], errors);
+  }
+
+  let entry: PaymentEntry | undefined;
+  let refund: RefundEntry | undefined;
+
+  const pendingJob = await updateJobWithRetry(jobId, currentJob => {
+    entry = currentJob.paymentEntries?.find(candidate => candidate.entryId === request.paymentEntryId);
+    if (!entry) {
+      throw new PaymentLedgerError('ENTRY_NOT_FOUND', `Payment ${request.paymentEntryId} not found on job ${jobId}.`);
+    }
+    if (request.issueId && !getJobIssues(currentJob).some(issue => issue.issueId === request.issueId)) {
+      throw new PaymentLedgerError('ISSUE_NOT_FOUND', `Issue ${request.issueId} not found on job ${jobId}.`);
+    }
+
+    const unsent = currentJob.refunds?.find(candidate =>
+      candidate.paymentEntryId === entry!.entryId && candidate.status === 'PENDING' && !candidate.squareRefundId
+    );
+    if (unsent) {
+      if (unsent.amountCents !== request.amountCents) {
+        throw new PaymentLedgerError(
+          'REFUND_UNCONFIRMED',
+          `A ${formatCents(unsent.amountCents)} refund of this payment is still waiting on Square; resend it before refunding more.`
+        );
+      }
+      refund = unsent;
+      return { updatedAt: new Date().toISOString(), updatedBy: userAudit };
+    }
+
+    const refundableCents = getRefundableCents(currentJob, entry);
+    if (refundableCents === 0) {
+      throw new PaymentLedgerError('NOT_REFUNDABLE', 'This payment has nothing left to refund.');
+    }
+    if (request.amountCents > refundableCents) {
+      throw new PaymentLedgerError(
+        'OVER_REFUND',
+        `Only ${formatCents(refundableCents)} of this payment can be refunded.`
+      );
+    }
+
+    const now = new Date().toISOString();
+    refund = {
+      refundId: uuidv4(),
+      paymentEntryId: entry.entryId,
+      amountCents: request.amountCents,
+      reason: request.reason.trim(),
+      ...(request.issueId && { issueId: request.issueId }),
+      status: entry.method === 'SQUARE' ? 'PENDING' : 'COMPLETED',
+      refundedAt: now,
+      refundedBy: userAudit,
+    };
+
+    return {
+      refunds: [...(currentJob.refunds || []), refund],
+      ...(refund.status === 'COMPLETED' && {
+        statusHistory: [...(currentJob.statusHistory || []), buildRefundHistoryEntry(entry, refund, userAudit)],
+      }),
+      updatedAt: now,
+      updatedBy: userAudit,
+    };
+  });
+
+  if (!pendingJob || !entry || !refund) {
+    return null;
+  }
+
+  if (refund.status === 'COMPLETED') {
+    console.log('[JOB SERVICE] Refund recorded', {
+      jobId,
+      refundId: refund.refundId,
+      paymentEntryId: entry.entryId,
+      amountCents: refund.amountCents,
+    });
+    return { job: pendingJob, refund };
+  }
+
+  return sendSquareRefund(jobId, refund.refundId, userAudit);
+}
+
+/**
+ * Refunds: Resend every Square refund that never got an answer from Square
+ * (the reconciler's retry), with its original idempotency key
+ *
+ * @returns How many refunds were resent
+ */
+export async function resendUnsentRefunds(): Promise<number> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await jobRepository.listJobsWithPendingRefunds({ limit: 100, nextToken });
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  let resent = 0;
+  for (const job of jobs) {
+    for (const refund of job.refunds || []) {
+      if (refund.status === 'PENDING' && !refund.squareRefundId) {
+        await sendSquareRefund(job.jobId, refund.refundId, SQUARE_PAYMENT_ACTOR);
+        resent++;
+      }
+    }
+  }
+
+  return resent;
+}
+
+/**
+ * Square refund statuses that mean the money never went back
+ */
+const SQUARE_REFUND_REFUSED_STATUSES = ['REJECTED', 'FAILED'];
+
+/**
+ * Refunds: Settle a PENDING Square refund with Square's final answer
+ * (refund.updated webhook or the reconciler's poll). A completed refund
+ * keeps counting; a rejected or failed one is marked FAILED, stops coming
+ * off collected revenue and frees the payment to be refunded again.
+ *
+ * @returns Updated job, or null if the job does not exist or has no PENDING
+ * refund to settle with this Square refund
+ */
+export async function applySquareRefund(jobId: string, squareRefund: SquareRefundDetails): Promise<Job | null> {
+  const isPendingRefund = (job: Job | null) =>
+    job?.refunds?.some(refund => refund.squareRefundId === squareRefund.refundId && refund.status === 'PENDING');
+
+  if (squareRefund.status === 'PENDING' || !isPendingRefund(await jobRepository.getJob(jobId))) {
+    return null;
+  }
+
+  let settled: RefundEntry | undefined;
+
+  const job = await updateJobWithRetry(jobId, currentJob => {
+    const now = new Date().toISOString();
+    const refund = currentJob.refunds?.find(candidate => candidate.squareRefundId === squareRefund.refundId);
+
+    // Settled by a concurrent webhook or poll
+    if (!refund || refund.status !== 'PENDING') {
+      settled = undefined;
+      return { updatedAt: now, updatedBy: SQUARE_PAYMENT_ACTOR };
+    }
+
+    const refused = SQUARE_REFUND_REFUSED_STATUSES.includes(squareRefund.status);
+    settled = {
+      ...refund,
+      status: refused ? 'FAILED' : 'COMPLETED',
+      ...(refused && { failureReason: `Refund ${squareRefund.status.toLowerCase()} by Square` }),
+    };
+    const entry = currentJob.paymentEntries?.find(candidate => candidate.entryId === refund.paymentEntryId);
+
+    return {
+      refunds: currentJob.refunds!.map(existing => (existing.refundId === settled!.refundId ? settled! : existing)),
+      // The refund was logged when Square accepted it; only a refusal needs another entry
+      ...(refused && entry && {
+        statusHistory: [...(currentJob.statusHistory || []), buildRefundHistoryEntry(entry, settled, SQUARE_PAYMENT_ACTOR)],
+      }),
+      updatedAt: now,
+      updatedBy: SQUARE_PAYMENT_ACTOR,
+    };
   });
+
+  if (!job || !settled) {
+    return null;
+  }
+
+  console.log('[JOB SERVICE] Square refund settled', {
+    jobId,
+    refundId: settled.refundId,
+    squareRefundId: squareRefund.refundId,
+    squareStatus: squareRefund.status,
+    status: settled.status,
+  });
+
+  return job;
 }
@@ -0,0 +1,88 @@
+/**
+ * Labor Service
+ *
+ * Actual (work timer) vs scheduled (Square booking) duration, so managers can
+ * see which services consistently overrun their booked time.
+ */
+
+import type { Job, LaborReportResponse, ServiceLaborSummary, WorkTimerResponse } from '../types';
+import { getTimerElapsedMs } from '../workflow/work-timer';
+import { listJobsByBoardDateRange } from './job-service';
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Timer state for a single job, with the running segment counted up to now
+ */
+export function getJobLabor(job: Job, now: number = Date.now()): WorkTimerResponse {
+  const elapsedMinutes = Math.round(getTimerElapsedMs(job.workTimer, now) / 60_000);
+  const scheduledMinutes = job.scheduledDurationMinutes;
+
+  return {
+    timer: job.workTimer || null,
+    elapsedMinutes,
+    scheduledMinutes,
+    overrunMinutes: scheduledMinutes !== undefined && job.workTimer ? elapsedMinutes - scheduledMinutes : undefined,
+  };
+}
+
+/**
+ * Summarize finished work (stopped timers) by service and by tech
+ */
+export function buildLaborReport(jobs: Job[], from: string, to: string): LaborReportResponse {
+  const finished = jobs.filter(job => job.workTimer?.stoppedAt);
+
+  const byService = new Map<string, Job[]>();
+  for (const job of finished) {
+    byService.set(job.serviceType, [...(byService.get(job.serviceType) || []), job]);
+  }
+
+  const services: ServiceLaborSummary[] = Array.from(byService, ([serviceType, serviceJobs]) => {
+    const compared = serviceJobs.filter(job => job.scheduledDurationMinutes !== undefined);
+    const overruns = compared.map(job => job.workTimer!.laborMinutes - job.scheduledDurationMinutes!);
+
+    return {
+      serviceType,
+      jobCount: serviceJobs.length,
+      avgActualMinutes: average(serviceJobs.map(job => job.workTimer!.laborMinutes))!,
+      comparedCount: compared.length,
+      avgScheduledMinutes: average(compared.map(job => job.scheduledDurationMinutes!)),
+      avgOverrunMinutes: average(overruns),
+      overrunCount: overruns.filter(minutes => minutes > 0).length,
+      overrunRate: compared.length > 0
+        ? Math.round((overruns.filter(minutes => minutes > 0).length / compared.length) * 100) / 100
+        : undefined,
+    };
+  });
+
+  // Worst offenders first; services with nothing to compare go last
+  services.sort((a, b) => (b.avgOverrunMinutes ?? -Infinity) - (a.avgOverrunMinutes ?? -Infinity));
+
+  const byTech = new Map<string, LaborReportResponse['techs'][number]>();
+  for (const job of finished) {
+    for (const labor of job.workTimer!.laborByTech) {
+      const entry = byTech.get(labor.userId) || { userId: labor.userId, name: labor.name, minutes: 0, jobCount: 0 };
+      entry.minutes += labor.minutes;
+      entry.jobCount += 1;
+      byTech.set(labor.userId, entry);
+    }
+  }
+
+  return {
+    from,
+    to,
+    services,
+    techs: Array.from(byTech.values()).sort((a, b) => b.minutes - a.minutes),
+  };
+}
+
+/**
+ * Labor report for jobs booked between two board dates (inclusive)
+ */
+export async function getLaborReport(from: string, to: string): Promise<LaborReportResponse> {
+  const jobs = await listJobsByBoardDateRange(from, to);
+  return buildLaborReport(jobs, from, to);
+}
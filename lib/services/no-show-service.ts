@@ -0,0 +1,56 @@
+/**
+ * No-Show Policy Service
+ *
+ * The shop's no-show fee policy (stored whole in the shop settings).
+ * Charging a job is done by chargeNoShowFee in the job service.
+ */
+
+import { shopSettingsRepository } from '../repositories';
+import type { NoShowPolicy, UpdateNoShowPolicyRequest, UserAudit } from '../types';
+import { DEFAULT_NO_SHOW_POLICY, NoShowChargeError, validateNoShowPolicy } from '../workflow/no-show';
+
+/**
+ * The saved policy, or the default until a manager saves one
+ */
+export async function getNoShowPolicy(): Promise<NoShowPolicy> {
+  return (await shopSettingsRepository.getNoShowPolicy()) || DEFAULT_NO_SHOW_POLICY;
+}
+
+/**
+ * Replace the no-show fee policy
+ *
+ * @throws NoShowChargeError if the policy is invalid
+ */
+export async function saveNoShowPolicy(
+  request: UpdateNoShowPolicyRequest,
+  updatedBy?: UserAudit
+): Promise<NoShowPolicy> {
+  const errors = validateNoShowPolicy(request);
+  if (errors.length > 0) {
+    throw new NoShowChargeError('INVALID_POLICY', errors[0], errors);
+  }
+
+  const current = await getNoShowPolicy();
+  const policy: NoShowPolicy = {
+    settingId: 'NO_SHOW_POLICY',
+    feeType: request.feeType,
+    flatFeeCents: request.flatFeeCents ?? current.flatFeeCents,
+    percent: request.percent ?? current.percent,
+    ...(request.minFeeCents != null && { minFeeCents: request.minFeeCents }),
+    ...(request.maxFeeCents != null && { maxFeeCents: request.maxFeeCents }),
+    waivedReasons: Array.from(new Set(request.waivedReasons ?? [])),
+    updatedAt: new Date().toISOString(),
+    ...(updatedBy && { updatedBy }),
+  };
+
+  await shopSettingsRepository.putNoShowPolicy(policy);
+
+  console.log('[No-Show Service] Saved no-show policy', {
+    feeType: policy.feeType,
+    flatFeeCents: policy.flatFeeCents,
+    percent: policy.percent,
+    waivedReasons: policy.waivedReasons,
+  });
+
+  return policy;
+}
@@ -6,11 +6,12 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import * as notificationsDb from '../aws/notifications';
+import { notificationRepository } from '../repositories';
 import type { 
   Notification, 
   NotificationType, 
   Job, 
+  QcRejection,
   WorkStatus 
 } from '../types';
 import { getConfig } from '../config';
@@ -34,7 +35,7 @@ async function createNotification(params: {
   
   // Check for duplicates if dedupeKey provided
   if (dedupeKey) {
-    const isDuplicate = await notificationsDb.isDuplicateNotification(
+    const isDuplicate = await notificationRepository.isDuplicateNotification(
       FRANKLIN_LOCATION_ID,
       dedupeKey,
       5 // Within 5 minutes
@@ -59,7 +60,7 @@ async function createNotification(params: {
     createdAt: new Date().toISOString(),
   };
   
-  return await notificationsDb.createNotification(notification);
+  return await notificationRepository.createNotification(notification);
 }
 
 /**
@@ -181,6 +182,8 @@ export async function notifyJobStatusChanged(
     'QC_READY',
     'WORK_COMPLETED',
     'NO_SHOW_PENDING_CHARGE',
+    'NO_SHOW_CHARGED',
+    'NO_SHOW_FAILED',
     'CANCELLED',
   ];
   
@@ -219,6 +222,34 @@ export async function notifyJobStatusChanged(
   });
 }
 
+/**
+ * Notify: QC rejected (the job is back with its tech for rework)
+ */
+export async function notifyQcRejected(
+  job: Job,
+  rejection: QcRejection,
+  userId?: string,
+  actorEmail?: string
+): Promise<Notification | null> {
+  const techNames = rejection.techs.map(tech => tech.name).join(', ');
+  
+  return await createNotification({
+    type: 'QC_REJECTED' as NotificationType,
+    jobId: job.jobId,
+    bookingId: job.bookingId,
+    title: 'QC Rejected',
+    message: `${techNames || job.customerName} • ${rejection.reason}`,
+    payload: {
+      reason: rejection.reason,
+      failedItems: rejection.failedItems.map(item => item.label),
+      techUserIds: rejection.techs.map(tech => tech.userId),
+      customerName: job.customerName,
+      actorEmail,
+    },
+    actor: userId ? `user:${userId}` : 'system',
+  });
+}
+
 /**
  * Notify: Service changed
  */
@@ -245,36 +276,42 @@ export async function notifyServiceChanged(
 }
 
 /**
- * Notify: Team member reassigned
+ * Notify: Team member reassigned (by a manager, or in Square)
  */
 export async function notifyTeamMemberChanged(
   job: Job,
   oldMember: string | undefined,
   newMember: string | undefined,
-  eventId?: string
+  source: 'square' | 'manual',
+  eventId?: string,
+  userId?: string
 ): Promise<Notification | null> {
   if (!oldMember && !newMember) {
     return null;
   }
   
   const message = oldMember && newMember
-    ? `${job.customerName} • Reassigned`
+    ? `${job.customerName} • ${oldMember} → ${newMember}`
     : newMember
-    ? `${job.customerName} • Assigned`
+    ? `${job.customerName} • Assigned to ${newMember}`
     : `${job.customerName} • Unassigned`;
   
   return await createNotification({
     type: 'JOB_REASSIGNED' as NotificationType,
     jobId: job.jobId,
     bookingId: job.bookingId,
-    title: 'Team Member Changed',
+    title: 'Job Reassigned',
     message,
     payload: {
+      source,
       oldMember,
       newMember,
+      assignedUserIds: (job.assignedTo || []).map(assignee => assignee.userId),
       customerName: job.customerName,
     },
-    actor: eventId ? `square:${eventId}` : 'square',
+    actor: source === 'square'
+      ? (eventId ? `square:${eventId}` : 'square')
+      : (userId ? `user:${userId}` : 'system'),
     dedupeKey: eventId ? `square:${eventId}:member` : undefined,
   });
 }
@@ -343,26 +380,26 @@ export async function getNotifications(
   since?: string,
   limit?: number
 ): Promise<Notification[]> {
-  return await notificationsDb.getNotifications(locationId, since, limit);
+  return await notificationRepository.getNotifications(locationId, since, limit);
 }
 
 /**
  * Get unread count
  */
 export async function getUnreadCount(locationId: string): Promise<number> {
-  return await notificationsDb.getUnreadCount(locationId);
+  return await notificationRepository.getUnreadCount(locationId);
 }
 
 /**
  * Mark notification as read
  */
 export async function markAsRead(notificationId: string): Promise<void> {
-  return await notificationsDb.markAsRead(notificationId);
+  return await notificationRepository.markAsRead(notificationId);
 }
 
 /**
  * Mark all notifications as read for location
  */
 export async function markAllAsRead(locationId: string): Promise<number> {
-  return await notificationsDb.markAllAsRead(locationId);
+  return await notificationRepository.markAllAsRead(locationId);
 }
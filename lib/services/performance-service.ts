@@ -0,0 +1,92 @@
+/**
+ * Performance Service
+ *
+ * Revenue and quality per service. Redo jobs are zero-priced follow-ups for
+ * work that has to be done again, so they never count as revenue but do count
+ * against the quality of the service they redo.
+ */
+
+import { WorkStatus, type Job, type PerformanceReportResponse, type ServicePerformanceSummary } from '../types';
+import { getJobIssues } from '../workflow/issues';
+import { getCollectedCents, getRefundedCents, getTipCents } from '../workflow/payment-ledger';
+import { isRedoJob } from '../workflow/redo';
+import { listJobsByBoardDateRange } from './job-service';
+
+type PerformanceTotals = PerformanceReportResponse['totals'];
+
+function emptyTotals(): PerformanceTotals {
+  return {
+    jobCount: 0,
+    completedCount: 0,
+    bookedCents: 0,
+    collectedCents: 0,
+    refundedCents: 0,
+    discountCents: 0,
+    tipCents: 0,
+    redoCount: 0,
+    qcRejectCount: 0,
+    issueCount: 0,
+  };
+}
+
+function addJob(totals: PerformanceTotals, job: Job): void {
+  totals.qcRejectCount += job.qcRejectCount ?? (job.qcRejections?.length || 0);
+  totals.issueCount += getJobIssues(job).length;
+
+  if (isRedoJob(job)) {
+    totals.redoCount += 1;
+    return;
+  }
+
+  totals.jobCount += 1;
+  if (job.status === WorkStatus.WORK_COMPLETED) {
+    totals.completedCount += 1;
+  }
+
+  totals.bookedCents += job.payment?.amountCents || 0;
+  totals.discountCents += job.priceBreakdown?.discountCents || 0;
+  totals.collectedCents += getCollectedCents(job);
+  totals.refundedCents += getRefundedCents(job);
+  totals.tipCents += getTipCents(job);
+}
+
+function withRedoRate<T extends PerformanceTotals>(totals: T): T {
+  return totals.completedCount > 0
+    ? { ...totals, redoRate: Math.round((totals.redoCount / totals.completedCount) * 100) / 100 }
+    : totals;
+}
+
+/**
+ * Summarize revenue and quality by service (cancelled jobs are skipped)
+ */
+export function buildPerformanceReport(jobs: Job[], from: string, to: string): PerformanceReportResponse {
+  const totals = emptyTotals();
+  const byService = new Map<string, ServicePerformanceSummary>();
+
+  for (const job of jobs) {
+    if (job.status === WorkStatus.CANCELLED) continue;
+
+    const summary = byService.get(job.serviceType) || { serviceType: job.serviceType, ...emptyTotals() };
+    addJob(summary, job);
+    addJob(totals, job);
+    byService.set(job.serviceType, summary);
+  }
+
+  const services = Array.from(byService.values(), withRedoRate)
+    .sort((a, b) => b.bookedCents - a.bookedCents);
+
+  return {
+    from,
+    to,
+    totals: withRedoRate(totals),
+    services,
+  };
+}
+
+/**
+ * Performance report for jobs booked between two board dates (inclusive)
+ */
+export async function getPerformanceReport(from: string, to: string): Promise<PerformanceReportResponse> {
+  const jobs = await listJobsByBoardDateRange(from, to);
+  return buildPerformanceReport(jobs, from, to);
+}
@@ -0,0 +1,204 @@
+/**
+ * Pricing Service
+ *
+ * The shop's sales tax rates (stored whole in the shop settings)
+ * and itemized prices for bookings, built from Square catalog prices.
+ */
+
+import { shopSettingsRepository } from '../repositories';
+import type { JobAddon, JobDiscount, PriceBreakdown, PriceLine, TaxConfig, UpdateTaxConfigRequest, UserAudit } from '../types';
+import { getConfig } from '../config';
+import { fetchCatalogObject, listAddons } from '../square/catalog-api';
+import type { CatalogAddon } from '../square/catalog-api';
+import { formatAddonName } from '../workflow/addons';
+import { buildDiscountLines } from '../workflow/discounts';
+import { buildPriceBreakdown, DEFAULT_TAX_CONFIG, getTaxRatePercent, PricingError, validateTaxConfig } from '../workflow/pricing';
+
+export interface BookingPriceRequest {
+  serviceVariationId?: string;
+  servicePriceCents?: number; // Replaces the catalog price (phone bookings)
+  addons?: JobAddon[]; // Matched to the catalog by variation ID (by name only when there's no ID)
+  discounts?: JobDiscount[]; // Manager discounts already on the job
+  locationId?: string; // Defaults to the Franklin location
+}
+
+/**
+ * The saved tax rates, or the default until a manager saves them
+ */
+export async function getTaxConfig(): Promise<TaxConfig> {
+  return (await shopSettingsRepository.getTaxConfig()) || DEFAULT_TAX_CONFIG;
+}
+
+/**
+ * Replace the shop's tax rates
+ *
+ * Jobs keep the tax they were priced with until they're repriced.
+ *
+ * @throws PricingError if a rate is invalid
+ */
+export async function saveTaxConfig(
+  request: UpdateTaxConfigRequest,
+  updatedBy?: UserAudit
+): Promise<TaxConfig> {
+  const errors = validateTaxConfig(request);
+  if (errors.length > 0) {
+    throw new PricingError('INVALID_TAX_CONFIG', errors[0], errors);
+  }
+
+  const taxConfig: TaxConfig = {
+    settingId: 'TAX_CONFIG',
+    defaultRatePercent: request.defaultRatePercent,
+    locations: (request.locations ?? []).map(location => ({
+      locationId: location.locationId.trim(),
+      ...(location.name?.trim() && { name: location.name.trim() }),
+      ratePercent: location.ratePercent,
+    })),
+    updatedAt: new Date().toISOString(),
+    ...(updatedBy && { updatedBy }),
+  };
+
+  await shopSettingsRepository.putTaxConfig(taxConfig);
+
+  console.log('[Pricing Service] Saved tax config', {
+    defaultRatePercent: taxConfig.defaultRatePercent,
+    locations: taxConfig.locations.map(location => `${location.locationId}=${location.ratePercent}`),
+  });
+
+  return taxConfig;
+}
+
+/**
+ * Tax rate for a location (the Franklin location when none is given)
+ */
+export async function getTaxRateForLocation(locationId?: string): Promise<number> {
+  return getTaxRatePercent(await getTaxConfig(), locationId || getConfig().square.franklinLocationId || undefined);
+}
+
+/**
+ * The service line: catalog price (unless overridden), name and whether
+ * its item is taxable
+ */
+async function getServiceLine(serviceVariationId: string, priceCents?: number): Promise<PriceLine | null> {
+  const variation = await fetchCatalogObject(serviceVariationId);
+  const item = variation?.item_variation_data?.item_id
+    ? await fetchCatalogObject(variation.item_variation_data.item_id)
+    : null;
+
+  const amountCents = priceCents ?? variation?.item_variation_data?.price_money?.amount;
+  if (!amountCents) {
+    console.warn('[PAYMENT CALC] Service price not found', { variationId: serviceVariationId });
+    return null;
+  }
+
+  const variationName = variation?.item_variation_data?.name;
+  const itemName = item?.item_data?.name;
+
+  return {
+    type: 'SERVICE',
+    name: itemName
+      ? `${itemName}${variationName && variationName !== 'Regular' ? ` - ${variationName}` : ''}`
+      : variationName || 'Service',
+    amountCents,
+    taxable: item?.item_data?.is_taxable !== false,
+    catalogObjectId: serviceVariationId,
+  };
+}
+
+/**
+ * Add-on lines: the price the add-on was booked at (the catalog price if it
+ * wasn't recorded) times its quantity. The catalog also says whether the
+ * item is taxable; add-ons it can't be checked for are taxed.
+ */
+async function getAddonLines(addons: JobAddon[]): Promise<PriceLine[]> {
+  if (addons.length === 0) {
+    return [];
+  }
+
+  let catalog: CatalogAddon[] = [];
+  try {
+    catalog = await listAddons();
+  } catch (error: any) {
+    console.warn('[PAYMENT CALC] Add-on catalog unavailable, using booked prices', {
+      error: error.message,
+    });
+  }
+
+  const lines: PriceLine[] = [];
+
+  for (const addon of addons) {
+    const catalogAddon = addon.catalogObjectId
+      ? catalog.find(item => item.id === addon.catalogObjectId)
+      : catalog.find(item => item.name.toLowerCase() === addon.name.toLowerCase());
+    const unitCents = addon.priceCents ?? catalogAddon?.priceMoney?.amount;
+    const catalogObjectId = addon.catalogObjectId || catalogAddon?.id;
+
+    if (!unitCents) {
+      console.warn('[PAYMENT CALC] Add-on price not found', {
+        name: addon.name,
+        catalogObjectId,
+        note: 'Add-on may be inactive',
+      });
+      continue;
+    }
+    lines.push({
+      type: 'ADDON',
+      name: formatAddonName(addon),
+      amountCents: unitCents * addon.quantity,
+      taxable: catalogAddon?.taxable ?? true,
+      ...(catalogObjectId && { catalogObjectId }),
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Itemized price for a booking: service, add-ons, the job's discounts and
+ * tax at the location's rate (non-taxable catalog items aren't taxed)
+ *
+ * @returns The breakdown, or undefined if no prices were found
+ */
+export async function priceBooking(request: BookingPriceRequest): Promise<PriceBreakdown | undefined> {
+  try {
+    const lines: PriceLine[] = [];
+
+    if (request.serviceVariationId) {
+      const serviceLine = await getServiceLine(request.serviceVariationId, request.servicePriceCents);
+      if (serviceLine) lines.push(serviceLine);
+    } else if (request.servicePriceCents) {
+      lines.push({ type: 'SERVICE', name: 'Service', amountCents: request.servicePriceCents, taxable: true });
+    } else {
+      console.warn('[PAYMENT CALC] No service variation ID provided', {
+        note: 'Cannot calculate service price without variation ID',
+      });
+    }
+
+    lines.push(...await getAddonLines(request.addons ?? []));
+
+    if (lines.length === 0) {
+      console.warn('[PAYMENT CALC] No prices found for booking');
+      return undefined;
+    }
+
+    lines.push(...buildDiscountLines(request.discounts ?? [], lines));
+
+    const locationId = request.locationId || getConfig().square.franklinLocationId || undefined;
+    const breakdown = buildPriceBreakdown(lines, await getTaxRateForLocation(locationId), locationId);
+
+    console.log('[PAYMENT CALC] Final calculation', {
+      lines: lines.map(line => `${line.name}: ${line.amountCents}${line.taxable ? '' : ' (no tax)'}`),
+      subtotalCents: breakdown.subtotalCents,
+      taxCents: breakdown.taxCents,
+      totalCents: breakdown.totalCents,
+      taxRate: `${breakdown.taxRatePercent}%`,
+      locationId,
+    });
+
+    return breakdown;
+  } catch (error: any) {
+    console.error('[PAYMENT CALC] Calculation failed', {
+      error: error.message,
+    });
+    return undefined;
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import { sendSms } from '../twilio';
-import * as dynamodb from '../aws/dynamodb';
+import { jobRepository } from '../repositories';
 import type { Job } from '../types';
 
 /**
@@ -54,7 +54,7 @@ export async function sendCompletionSms(jobId: string): Promise<{
   messageSid?: string;
 }> {
   // Fetch job from database
-  const job = await dynamodb.getJob(jobId);
+  const job = await jobRepository.getJob(jobId);
 
   if (!job) {
     throw new Error(`Job not found: ${jobId}`);
@@ -117,7 +117,7 @@ export async function sendCompletionSms(jobId: string): Promise<{
     });
 
     // Update job record with SMS metadata
-    await dynamodb.updateJob(jobId, {
+    await jobRepository.updateJob(jobId, {
       completionSmsSentAt: new Date().toISOString(),
       completionSmsSid: messageSid,
     });
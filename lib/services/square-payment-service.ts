@@ -0,0 +1,318 @@
+/**
+ * Square Payment Service
+ *
+ * Records every Square payment the app hears about (payment.created and
+ * payment.updated webhooks, plus the reconciler's poll) and applies
+ * completed ones to the job they pay for. Payments that can't be matched
+ * wait in a queue for a manager to match or dismiss. Refunds Square
+ * finishes after accepting them (refund.updated webhooks, plus the same
+ * poll) settle the job's PENDING refunds; the poll also resends refunds
+ * Square never answered.
+ */
+
+import { jobRepository, squarePaymentRepository } from '../repositories';
+import type {
+  Job,
+  PaymentMatchCandidate,
+  SquarePaymentDetails,
+  SquarePaymentRecord,
+  SquareRefundDetails,
+  UserAudit,
+} from '../types';
+import { getPaymentsClient } from '../square/payments-api';
+import { getBoardDateForTimestamp } from '../utils/timezone';
+import {
+  findPaymentMatch,
+  isJobAwaitingPayment,
+  isNoShowFeePayment,
+  isPaymentCompleted,
+  isPaymentVoid,
+  PaymentMatchError,
+  rankMatchCandidates,
+  SQUARE_PAYMENT_ACTOR,
+} from '../workflow/payment-matching';
+import { applySquarePayment, applySquareRefund, resendUnsentRefunds } from './job-service';
+
+export interface PaymentSyncResult {
+  seen: number;
+  matched: number;
+  unmatched: number;
+}
+
+export interface RefundSyncResult {
+  resent: number;
+  seen: number;
+  settled: number;
+}
+
+/**
+ * Jobs a payment might be for: the one its reference ID names, the payer's
+ * jobs and every job on the day it was taken
+ */
+async function getCandidateJobs(payment: SquarePaymentDetails): Promise<Job[]> {
+  const jobs = new Map<string, Job>();
+  const add = (list: Job[]) => list.forEach(job => jobs.set(job.jobId, job));
+
+  if (payment.referenceId) {
+    const referenced = await jobRepository.getJob(payment.referenceId);
+    if (referenced) add([referenced]);
+  }
+
+  if (payment.customerId) {
+    add((await jobRepository.queryJobsByCustomerId(payment.customerId, { limit: 50 })).jobs);
+  }
+
+  let nextToken: string | undefined;
+  do {
+    const page = await jobRepository.queryJobsByBoardDate(getBoardDateForTimestamp(payment.createdAt), { limit: 100, nextToken });
+    add(page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return Array.from(jobs.values());
+}
+
+/**
+ * Record a payment from Square and apply it to its job if one matches
+ *
+ * Safe to call repeatedly for the same payment: a matched payment refreshes
+ * its job's ledger entry (voiding it once Square cancels or fails the
+ * payment, and recording refunds made in Square), and a dismissed one stays
+ * dismissed.
+ */
+export async function recordSquarePayment(payment: SquarePaymentDetails): Promise<SquarePaymentRecord> {
+  const existing = await squarePaymentRepository.getPayment(payment.paymentId);
+  const record: SquarePaymentRecord = {
+    ...existing,
+    ...payment,
+    matchStatus: existing?.matchStatus ?? 'PENDING',
+    receivedAt: existing?.receivedAt ?? new Date().toISOString(),
+  };
+
+  if (existing?.matchStatus === 'MATCHED' && existing.jobId) {
+    await applySquarePayment(existing.jobId, payment, existing.matchedBy ?? 'MANUAL', existing.matchedByUser ?? SQUARE_PAYMENT_ACTOR);
+    await squarePaymentRepository.putPayment(record);
+    return record;
+  }
+
+  if (existing?.matchStatus === 'IGNORED') {
+    await squarePaymentRepository.putPayment(record);
+    return record;
+  }
+
+  if (isPaymentVoid(payment)) {
+    record.matchStatus = 'IGNORED';
+    record.ignoredReason = `Payment ${payment.status.toLowerCase()} in Square`;
+  } else if (isPaymentCompleted(payment)) {
+    const jobs = await getCandidateJobs(payment);
+    const match = findPaymentMatch(payment, jobs);
+
+    if (match) {
+      await applySquarePayment(match.job.jobId, payment, match.method, SQUARE_PAYMENT_ACTOR);
+      record.matchStatus = 'MATCHED';
+      record.jobId = match.job.jobId;
+      record.matchedBy = match.method;
+      record.matchedAt = new Date().toISOString();
+    } else if (isNoShowFeePayment(payment, jobs)) {
+      record.matchStatus = 'IGNORED';
+      record.ignoredReason = 'No-show fee';
+    } else {
+      record.matchStatus = 'UNMATCHED';
+    }
+  }
+
+  await squarePaymentRepository.putPayment(record);
+
+  console.log('[SQUARE PAYMENTS] Payment recorded', {
+    paymentId: payment.paymentId,
+    status: payment.status,
+    matchStatus: record.matchStatus,
+    jobId: record.jobId,
+    matchedBy: record.matchedBy,
+  });
+
+  return record;
+}
+
+/**
+ * Reconciler: Record every payment taken in a time range (catches missed
+ * webhooks)
+ */
+export async function syncSquarePayments(
+  beginTime: string,
+  endTime: string,
+  locationId?: string
+): Promise<PaymentSyncResult> {
+  const payments = await getPaymentsClient().listPayments({ beginTime, endTime, locationId });
+  const result: PaymentSyncResult = { seen: payments.length, matched: 0, unmatched: 0 };
+
+  for (const payment of payments) {
+    const existing = await squarePaymentRepository.getPayment(payment.paymentId);
+    if (existing && existing.matchStatus !== 'PENDING' && existing.updatedAt === payment.updatedAt) {
+      continue;
+    }
+
+    const record = await recordSquarePayment(payment);
+    if (record.matchStatus === 'MATCHED' && existing?.matchStatus !== 'MATCHED') result.matched++;
+    if (record.matchStatus === 'UNMATCHED') result.unmatched++;
+  }
+
+  console.log('[SQUARE PAYMENTS] Sync complete', { beginTime, endTime, ...result });
+
+  return result;
+}
+
+/**
+ * Settle the job refund a Square refund belongs to (found through the
+ * refunded payment's match)
+ *
+ * @returns Updated job, or null if the payment isn't matched to a job or the
+ * job has no PENDING refund for it
+ */
+export async function recordSquareRefund(refund: SquareRefundDetails): Promise<Job | null> {
+  const payment = await squarePaymentRepository.getPayment(refund.paymentId);
+
+  if (payment?.matchStatus !== 'MATCHED' || !payment.jobId) {
+    console.log('[SQUARE PAYMENTS] Refund for unmatched payment skipped', {
+      refundId: refund.refundId,
+      paymentId: refund.paymentId,
+      status: refund.status,
+    });
+    return null;
+  }
+
+  return applySquareRefund(payment.jobId, refund);
+}
+
+/**
+ * Reconciler: Resend refunds Square never answered, then settle PENDING
+ * refunds from every refund created in a time range (catches missed
+ * refund.updated webhooks)
+ */
+export async function syncSquareRefunds(
+  beginTime: string,
+  endTime: string,
+  locationId?: string
+): Promise<RefundSyncResult> {
+  const resent = await resendUnsentRefunds();
+  const refunds = await getPaymentsClient().listRefunds({ beginTime, endTime, locationId });
+  const result: RefundSyncResult = { resent, seen: refunds.length, settled: 0 };
+
+  for (const refund of refunds) {
+    if (refund.status !== 'PENDING' && await recordSquareRefund(refund)) {
+      result.settled++;
+    }
+  }
+
+  console.log('[SQUARE PAYMENTS] Refund sync complete', { beginTime, endTime, ...result });
+
+  return result;
+}
+
+/**
+ * The manual match queue: completed payments no job matched, oldest first,
+ * each with the jobs it most likely pays for
+ */
+export async function listUnmatchedPayments(): Promise<Array<{
+  payment: SquarePaymentRecord;
+  candidates: PaymentMatchCandidate[];
+}>> {
+  const payments = await squarePaymentRepository.listPaymentsByMatchStatus('UNMATCHED');
+
+  return Promise.all(payments.map(async payment => ({
+    payment,
+    candidates: rankMatchCandidates(payment, await getCandidateJobs(payment)),
+  })));
+}
+
+async function getUnmatchedPayment(paymentId: string): Promise<SquarePaymentRecord> {
+  const payment = await squarePaymentRepository.getPayment(paymentId);
+  if (!payment) {
+    throw new PaymentMatchError('PAYMENT_NOT_FOUND', `Payment ${paymentId} not found`);
+  }
+  if (payment.matchStatus === 'MATCHED') {
+    throw new PaymentMatchError('ALREADY_MATCHED', `Payment ${paymentId} is already matched to job ${payment.jobId}.`);
+  }
+  return payment;
+}
+
+/**
+ * Match a payment to a job by hand (also un-dismisses an ignored payment)
+ *
+ * @throws PaymentMatchError if the payment or job doesn't exist, the
+ *   payment is already matched or not completed, or the job is already paid
+ */
+export async function matchPaymentManually(
+  paymentId: string,
+  jobId: string,
+  userAudit: UserAudit
+): Promise<{ payment: SquarePaymentRecord; job: Job }> {
+  const payment = await getUnmatchedPayment(paymentId);
+  if (!isPaymentCompleted(payment)) {
+    throw new PaymentMatchError('NOT_COMPLETED', `Payment ${paymentId} is ${payment.status} in Square, not completed.`);
+  }
+
+  const target = await jobRepository.getJob(jobId);
+  if (!target) {
+    throw new PaymentMatchError('JOB_NOT_FOUND', `Job ${jobId} not found`);
+  }
+  if (!isJobAwaitingPayment(target) && target.payment?.squarePaymentId) {
+    throw new PaymentMatchError('JOB_ALREADY_PAID', `Job ${jobId} is already paid by Square payment ${target.payment.squarePaymentId}.`);
+  }
+
+  const job = await applySquarePayment(jobId, payment, 'MANUAL', userAudit);
+  if (!job) {
+    throw new PaymentMatchError('JOB_NOT_FOUND', `Job ${jobId} not found`);
+  }
+
+  const { ignoredReason, ignoredBy, ...rest } = payment;
+  const record: SquarePaymentRecord = {
+    ...rest,
+    matchStatus: 'MATCHED',
+    jobId,
+    matchedBy: 'MANUAL',
+    matchedAt: new Date().toISOString(),
+    matchedByUser: userAudit,
+  };
+  await squarePaymentRepository.putPayment(record);
+
+  console.log('[SQUARE PAYMENTS] Payment matched manually', {
+    paymentId,
+    jobId,
+    matchedBy: userAudit.userId,
+  });
+
+  return { payment: record, job };
+}
+
+/**
+ * Dismiss a payment from the queue (e.g. a retail sale, not a job)
+ *
+ * @throws PaymentMatchError if the payment doesn't exist or is already matched
+ */
+export async function ignorePayment(
+  paymentId: string,
+  reason: string,
+  userAudit: UserAudit
+): Promise<SquarePaymentRecord> {
+  if (!reason?.trim()) {
+    throw new PaymentMatchError('INVALID_REQUEST', 'A reason is required to dismiss a payment.');
+  }
+
+  const payment = await getUnmatchedPayment(paymentId);
+  const record: SquarePaymentRecord = {
+    ...payment,
+    matchStatus: 'IGNORED',
+    ignoredReason: reason.trim(),
+    ignoredBy: userAudit,
+  };
+  await squarePaymentRepository.putPayment(record);
+
+  console.log('[SQUARE PAYMENTS] Payment dismissed', {
+    paymentId,
+    reason: record.ignoredReason,
+    ignoredBy: userAudit.userId,
+  });
+
+  return record;
+}
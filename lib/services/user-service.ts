@@ -1,22 +1,16 @@
 /**
  * User Management Service
- * Handles DynamoDB operations for user accounts
+ * Handles user accounts (storage via the user repository)
  */
 
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  DynamoDBDocumentClient,
-  PutCommand,
-  GetCommand,
-  QueryCommand,
-  UpdateCommand,
-} from '@aws-sdk/lib-dynamodb';
-import { getConfig } from '../config';
-import type { UserRole } from '../types';
+import { userRepository } from '../repositories';
+import type { TechShift, UserRole } from '../types';
+import { AssignmentError } from '../workflow/assignment';
+import { normalizeSkills } from '../workflow/dispatch';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
- * User record in DynamoDB
+ * User record
  */
 export interface User {
   pk: string; // "USER#<userId>"
@@ -26,8 +20,12 @@ export interface User {
   role: UserRole;
   passwordHash: string;
   isActive: boolean;
+  squareTeamMemberId?: string; // Square team member this user works bookings as
+  skills?: string[]; // Skill tags for auto-dispatch (e.g. "ceramic-certified")
+  shifts?: TechShift[]; // Weekly schedule for auto-dispatch (none = always available)
   createdAt: string;
   updatedAt: string;
+  lastLoginAt?: string;
 }
 
 /**
@@ -39,44 +37,13 @@ export interface SafeUser {
   name: string;
   role: UserRole;
   isActive: boolean;
+  squareTeamMemberId?: string;
+  skills?: string[];
+  shifts?: TechShift[];
   createdAt: string;
   updatedAt: string;
 }
 
-let dynamoClient: DynamoDBDocumentClient | null = null;
-
-/**
- * Get or create DynamoDB Document Client
- */
-function getDynamoClient(): DynamoDBDocumentClient {
-  if (!dynamoClient) {
-    const config = getConfig();
-
-    const client = new DynamoDBClient({
-      region: config.aws.region,
-    });
-
-    dynamoClient = DynamoDBDocumentClient.from(client, {
-      marshallOptions: {
-        removeUndefinedValues: true,
-        convertEmptyValues: false,
-      },
-    });
-  }
-
-  return dynamoClient;
-}
-
-/**
- * Get users table name from config
- */
-function getUsersTableName(): string {
-  const config = getConfig();
-  const tableName = config.aws.dynamodb.usersTable;
-  console.log('[user-service] Using users table:', tableName, 'Region:', config.aws.region, 'Env:', config.env);
-  return tableName;
-}
-
 /**
  * Create a new user
  */
@@ -86,8 +53,6 @@ export async function createUser(userData: {
   role: UserRole;
   passwordHash: string;
 }): Promise<User> {
-  const client = getDynamoClient();
-  const tableName = getUsersTableName();
   const userId = uuidv4();
   const now = new Date().toISOString();
 
@@ -103,83 +68,29 @@ export async function createUser(userData: {
     updatedAt: now,
   };
 
-  await client.send(
-    new PutCommand({
-      TableName: tableName,
-      Item: user,
-      ConditionExpression: 'attribute_not_exists(pk)',
-    })
-  );
-
-  return user;
+  return userRepository.createUser(user);
 }
 
 /**
  * Get user by userId
  */
 export async function getUserById(userId: string): Promise<User | null> {
-  const client = getDynamoClient();
-  const tableName = getUsersTableName();
-
-  const result = await client.send(
-    new GetCommand({
-      TableName: tableName,
-      Key: {
-        pk: `USER#${userId}`,
-      },
-    })
-  );
-
-  return (result.Item as User) || null;
+  return userRepository.getUserById(userId);
 }
 
 /**
- * Get user by email (uses GSI)
+ * Get user by email
  */
 export async function getUserByEmail(email: string): Promise<User | null> {
-  const client = getDynamoClient();
-  const tableName = getUsersTableName();
-  const normalizedEmail = email.toLowerCase().trim();
-
-  // Query using GSI on email
-  const result = await client.send(
-    new QueryCommand({
-      TableName: tableName,
-      IndexName: 'email-index',
-      KeyConditionExpression: 'email = :email',
-      ExpressionAttributeValues: {
-        ':email': normalizedEmail,
-      },
-      Limit: 1,
-    })
-  );
-
-  if (!result.Items || result.Items.length === 0) {
-    return null;
-  }
-
-  return result.Items[0] as User;
+  return userRepository.getUserByEmail(email.toLowerCase().trim());
 }
 
 /**
  * Update user's last login timestamp
  */
 export async function updateLastLogin(userId: string): Promise<void> {
-  const client = getDynamoClient();
-  const tableName = getUsersTableName();
-
-  await client.send(
-    new UpdateCommand({
-      TableName: tableName,
-      Key: {
-        pk: `USER#${userId}`,
-      },
-      UpdateExpression: 'SET lastLoginAt = :now, updatedAt = :now',
-      ExpressionAttributeValues: {
-        ':now': new Date().toISOString(),
-      },
-    })
-  );
+  const now = new Date().toISOString();
+  await userRepository.updateUser(userId, { lastLoginAt: now, updatedAt: now });
 }
 
 /**
@@ -189,22 +100,62 @@ export async function updateUserStatus(
   userId: string,
   isActive: boolean
 ): Promise<void> {
-  const client = getDynamoClient();
-  const tableName = getUsersTableName();
-
-  await client.send(
-    new UpdateCommand({
-      TableName: tableName,
-      Key: {
-        pk: `USER#${userId}`,
-      },
-      UpdateExpression: 'SET isActive = :isActive, updatedAt = :now',
-      ExpressionAttributeValues: {
-        ':isActive': isActive,
-        ':now': new Date().toISOString(),
-      },
-    })
-  );
+  await userRepository.updateUser(userId, {
+    isActive,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * List active users, sorted by name
+ */
+export async function listActiveUsers(): Promise<User[]> {
+  const users = await userRepository.listUsers();
+  return users
+    .filter(user => user.isActive)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Map a user to a Square team member (null clears the mapping)
+ *
+ * @throws AssignmentError if another user is already mapped to the team member
+ */
+export async function updateUserSquareTeamMember(
+  userId: string,
+  squareTeamMemberId: string | null
+): Promise<void> {
+  const teamMemberId = squareTeamMemberId?.trim() || undefined;
+
+  if (teamMemberId) {
+    const users = await userRepository.listUsers();
+    const mapped = users.find(user => user.squareTeamMemberId === teamMemberId && user.userId !== userId);
+    if (mapped) {
+      throw new AssignmentError('TEAM_MEMBER_TAKEN', `Square team member ${teamMemberId} is already mapped to ${mapped.name}.`);
+    }
+  }
+
+  await userRepository.updateUser(userId, {
+    squareTeamMemberId: teamMemberId,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Update a user's auto-dispatch skills and/or weekly shifts
+ * (shifts are expected to have passed validateShifts)
+ */
+export async function updateUserDispatchProfile(
+  userId: string,
+  profile: { skills?: string[]; shifts?: TechShift[] }
+): Promise<void> {
+  await userRepository.updateUser(userId, {
+    ...(profile.skills && { skills: normalizeSkills(profile.skills) }),
+    ...(profile.shifts && {
+      shifts: profile.shifts.map(({ day, start, end }) => ({ day, start, end })),
+    }),
+    updatedAt: new Date().toISOString(),
+  });
 }
 
 /**
@@ -0,0 +1,220 @@
+/**
+ * Vehicle Service
+ *
+ * Vehicle profiles: links jobs to the car they were for whenever vehicle
+ * info is saved, and gathers a car's full visit history (jobs, photos,
+ * issues, notes) for the vehicle page.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import * as s3 from '../aws/s3';
+import { jobRepository, vehicleRepository, type JobPage } from '../repositories';
+import type {
+  Job,
+  UpdateVehicleRequest,
+  UserAudit,
+  Vehicle,
+  VehicleHistoryResponse,
+  VehicleJobSummary,
+} from '../types';
+import { normalizeMake, normalizePlate, normalizeVin } from '../utils/vehicle';
+import { mergeVehicleCustomer, validateVehicleUpdate, VehicleError } from '../workflow/vehicles';
+
+/**
+ * Every job from a paginated query
+ */
+async function drainJobs(query: (nextToken?: string) => Promise<JobPage>): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await query(nextToken);
+    jobs.push(...page.jobs);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return jobs;
+}
+
+/**
+ * Find the car a job is for: by VIN, then by plate unless the plate's
+ * vehicle has a different VIN (the plate moved to another car)
+ */
+async function findVehicle(vin: string | undefined, plateNorm: string | undefined): Promise<Vehicle | null> {
+  if (vin) {
+    const byVin = await vehicleRepository.getVehicleByVin(vin);
+    if (byVin) return byVin;
+  }
+
+  if (plateNorm) {
+    const byPlate = await vehicleRepository.getVehicleByPlate(plateNorm);
+    if (byPlate && (!vin || !byPlate.vin)) return byPlate;
+  }
+
+  return null;
+}
+
+/**
+ * Create or update the job's vehicle profile and link the job to it
+ *
+ * Jobs without a plate or a full VIN are left unlinked. Details entered on
+ * the job (make, model, year, color) overwrite the profile's, so the latest
+ * visit wins.
+ *
+ * @returns The job, with vehicleId set when it was linked
+ */
+export async function linkJobVehicle(job: Job, userAudit?: UserAudit): Promise<Job> {
+  const vin = normalizeVin(job.vehicleInfo?.vin);
+  const plateNorm = normalizePlate(job.vehicleInfo?.licensePlate);
+
+  if (!vin && !plateNorm) {
+    return job;
+  }
+
+  const now = new Date().toISOString();
+  const seenAt = job.appointmentTime || job.createdAt;
+  const { make, model, year, color, licensePlate } = job.vehicleInfo;
+  const details = {
+    ...(make && { make }),
+    ...(model && { model }),
+    ...(year && { year }),
+    ...(color && { color }),
+    ...(plateNorm && { plateNorm, licensePlate }),
+    ...(vin && { vin }),
+  };
+
+  const existing = await findVehicle(vin, plateNorm);
+  const customers = job.customerName
+    ? mergeVehicleCustomer(existing?.customers || [], {
+        customerId: job.customerId || undefined,
+        name: job.customerName,
+        phone: job.customerPhone,
+      }, seenAt)
+    : existing?.customers || [];
+
+  // A plate can only point at one car: release it from any other car that had it
+  const plateOwner = plateNorm ? await vehicleRepository.getVehicleByPlate(plateNorm) : null;
+  if (plateOwner && plateOwner.vehicleId !== existing?.vehicleId) {
+    await vehicleRepository.updateVehicle(plateOwner.vehicleId, { plateNorm: undefined, updatedAt: now });
+  }
+
+  let vehicle: Vehicle;
+  if (existing) {
+    vehicle = await vehicleRepository.updateVehicle(existing.vehicleId, {
+      ...details,
+      customers,
+      updatedAt: now,
+      ...(userAudit && { updatedBy: userAudit }),
+    });
+  } else {
+    vehicle = await vehicleRepository.createVehicle({
+      vehicleId: uuidv4(),
+      ...details,
+      customers,
+      createdAt: now,
+      updatedAt: now,
+      ...(userAudit && { updatedBy: userAudit }),
+    });
+  }
+
+  console.log('[Vehicle Service] Linked job to vehicle', {
+    jobId: job.jobId,
+    vehicleId: vehicle.vehicleId,
+    created: !existing,
+    matchedBy: vin && vehicle.vin === vin ? 'vin' : 'plate',
+  });
+
+  return job.vehicleId === vehicle.vehicleId
+    ? job
+    : jobRepository.updateJob(job.jobId, { vehicleId: vehicle.vehicleId });
+}
+
+/**
+ * A vehicle and every visit for it, newest first
+ *
+ * Includes jobs linked to the profile plus older jobs with the same plate
+ * that predate vehicle profiles (but not jobs linked to another car).
+ * Photo URLs are presigned for an hour, like the job detail endpoint.
+ */
+export async function getVehicleHistory(vehicleId: string): Promise<VehicleHistoryResponse | null> {
+  const vehicle = await vehicleRepository.getVehicle(vehicleId);
+  if (!vehicle) {
+    return null;
+  }
+
+  const [linked, byPlate] = await Promise.all([
+    drainJobs(nextToken => jobRepository.queryJobsByVehicleId(vehicleId, { limit: 100, nextToken })),
+    vehicle.plateNorm
+      ? drainJobs(nextToken => jobRepository.queryJobsByPlate(vehicle.plateNorm!, { limit: 100, nextToken }))
+      : Promise.resolve([]),
+  ]);
+
+  const jobs = new Map<string, Job>();
+  for (const job of [...linked, ...byPlate]) {
+    if (!job.vehicleId || job.vehicleId === vehicleId) {
+      jobs.set(job.jobId, job);
+    }
+  }
+
+  const sorted = Array.from(jobs.values())
+    .sort((a, b) => (b.appointmentTime || b.createdAt).localeCompare(a.appointmentTime || a.createdAt));
+
+  const summaries: VehicleJobSummary[] = await Promise.all(sorted.map(async job => ({
+    jobId: job.jobId,
+    customerName: job.customerName,
+    serviceType: job.serviceType,
+    status: job.status,
+    appointmentTime: job.appointmentTime,
+    notes: job.notes,
+    photosMeta: job.photosMeta && await Promise.all(job.photosMeta.map(async photo => ({
+      ...photo,
+      publicUrl: await s3.generateDownloadUrl(photo.s3Key, 3600),
+    }))),
+    issues: job.issues,
+    postCompletionIssue: job.postCompletionIssue,
+    redoOfJobId: job.redoOfJobId,
+  })));
+
+  return { vehicle, jobs: summaries };
+}
+
+/**
+ * Edit a vehicle's details and notes (empty strings clear a field)
+ *
+ * @throws VehicleError if the edit is invalid
+ * @returns The updated vehicle, or null if it does not exist
+ */
+export async function updateVehicleDetails(
+  vehicleId: string,
+  request: UpdateVehicleRequest,
+  userAudit: UserAudit
+): Promise<Vehicle | null> {
+  const errors = validateVehicleUpdate(request);
+  if (errors.length > 0) {
+    throw new VehicleError('INVALID_VEHICLE', errors[0], errors);
+  }
+
+  const vehicle = await vehicleRepository.getVehicle(vehicleId);
+  if (!vehicle) {
+    return null;
+  }
+
+  const updates: Partial<Vehicle> = {};
+  for (const field of ['make', 'model', 'color', 'notes'] as const) {
+    if (request[field] !== undefined) {
+      updates[field] = request[field]!.trim() || undefined;
+    }
+  }
+  if (updates.make) {
+    updates.make = normalizeMake(updates.make);
+  }
+  if (request.year !== undefined) {
+    updates.year = request.year;
+  }
+
+  return vehicleRepository.updateVehicle(vehicleId, {
+    ...updates,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userAudit,
+  });
+}
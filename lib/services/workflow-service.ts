@@ -0,0 +1,151 @@
+/**
+ * Workflow Service
+ *
+ * Per-service workflow pipelines (storage via the checklist template repository).
+ * Services without a saved pipeline use DEFAULT_WORKFLOW_STAGES.
+ */
+
+import { checklistTemplateRepository } from '../repositories';
+import { ServiceWorkflow, UserAudit, WorkflowStage } from '../types';
+import { DEFAULT_WORKFLOW_STAGES, validateWorkflowStages } from '../workflow/pipelines';
+import { normalizeSkills } from '../workflow/dispatch';
+import { normalizeCapabilities } from '../workflow/bays';
+
+/**
+ * Thrown when a pipeline fails validation
+ */
+export class InvalidWorkflowError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid workflow: ${errors.join(' ')}`);
+    this.name = 'InvalidWorkflowError';
+  }
+}
+
+/**
+ * Get a service's saved pipeline
+ */
+export async function getWorkflow(serviceType: string): Promise<ServiceWorkflow | null> {
+  return checklistTemplateRepository.getWorkflow(serviceType);
+}
+
+/**
+ * Stages a job of this service type moves through (saved or default)
+ */
+export async function getWorkflowStages(serviceType?: string): Promise<WorkflowStage[]> {
+  if (!serviceType) {
+    return DEFAULT_WORKFLOW_STAGES;
+  }
+
+  const workflow = await getWorkflow(serviceType);
+  return workflow?.stages || DEFAULT_WORKFLOW_STAGES;
+}
+
+/**
+ * Get a service's pipeline, falling back to an unsaved default
+ */
+export async function getWorkflowOrDefault(
+  serviceType: string
+): Promise<{ workflow: ServiceWorkflow; isDefault: boolean }> {
+  const workflow = await getWorkflow(serviceType);
+  if (workflow) {
+    return { workflow, isDefault: false };
+  }
+
+  const timestamp = new Date().toISOString();
+  return {
+    workflow: {
+      templateId: `${serviceType}#WORKFLOW`,
+      serviceType,
+      type: 'WORKFLOW',
+      version: 0,
+      stages: DEFAULT_WORKFLOW_STAGES,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+    isDefault: true,
+  };
+}
+
+/**
+ * Save a service's pipeline (replaces the stage list and bumps the version)
+ *
+ * @param requirements - Tech skills (auto-dispatch) and bay capabilities the
+ *   service needs; either left undefined keeps the saved ones
+ * @throws InvalidWorkflowError if the stages fail validation
+ */
+export async function saveWorkflow(
+  serviceType: string,
+  stages: WorkflowStage[],
+  updatedBy?: UserAudit,
+  requirements: { requiredSkills?: string[]; bayCapabilities?: string[] } = {}
+): Promise<ServiceWorkflow> {
+  const { requiredSkills, bayCapabilities } = requirements;
+  const errors = validateWorkflowStages(stages);
+  if (errors.length > 0) {
+    throw new InvalidWorkflowError(errors);
+  }
+
+  const existing = await getWorkflow(serviceType);
+  const timestamp = new Date().toISOString();
+
+  const workflow: ServiceWorkflow = {
+    templateId: `${serviceType}#WORKFLOW`,
+    serviceType,
+    type: 'WORKFLOW',
+    version: (existing?.version || 0) + 1,
+    // Keep only the stage fields (drop anything extra the client sent)
+    stages: stages.map(stage => ({
+      id: stage.id,
+      label: stage.label.trim(),
+      status: stage.status,
+      ...(stage.optional && { optional: true }),
+      ...(stage.roles && stage.roles.length > 0 && { roles: stage.roles }),
+    })),
+    requiredSkills: requiredSkills ? normalizeSkills(requiredSkills) : existing?.requiredSkills,
+    bayCapabilities: bayCapabilities ? normalizeCapabilities(bayCapabilities) : existing?.bayCapabilities,
+    createdAt: existing?.createdAt || timestamp,
+    updatedAt: timestamp,
+    ...(updatedBy && { updatedBy }),
+  };
+
+  await checklistTemplateRepository.putWorkflow(workflow);
+
+  console.log('[Workflow Service] Saved workflow', {
+    serviceType,
+    version: workflow.version,
+    stages: workflow.stages.map(stage => stage.id),
+  });
+
+  return workflow;
+}
+
+/**
+ * Skill tags auto-dispatch requires, by service type (services without any are left out)
+ */
+export async function getRequiredSkillsByService(): Promise<Record<string, string[]>> {
+  const workflows = await listWorkflows();
+  return Object.fromEntries(
+    workflows
+      .filter(workflow => workflow.requiredSkills?.length)
+      .map(workflow => [workflow.serviceType, workflow.requiredSkills!])
+  );
+}
+
+/**
+ * Capabilities a bay needs, by service type (services without any are left out)
+ */
+export async function getBayCapabilitiesByService(): Promise<Record<string, string[]>> {
+  const workflows = await listWorkflows();
+  return Object.fromEntries(
+    workflows
+      .filter(workflow => workflow.bayCapabilities?.length)
+      .map(workflow => [workflow.serviceType, workflow.bayCapabilities!])
+  );
+}
+
+/**
+ * List every saved pipeline
+ */
+export async function listWorkflows(): Promise<ServiceWorkflow[]> {
+  return checklistTemplateRepository.listWorkflows();
+}
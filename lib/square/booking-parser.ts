@@ -4,7 +4,7 @@
  * Parses Square booking webhook events and extracts relevant job information.
  */
 
-import type { SquareBookingWebhook } from '../types';
+import type { JobAddon, SquareBookingWebhook } from '../types';
 
 /**
  * Parsed booking data for job creation
@@ -18,8 +18,12 @@ export interface ParsedBooking {
   serviceType?: string; // Service name (for display)
   serviceVariationId?: string; // Service variation ID (for pricing)
   appointmentTime?: string;
+  durationMinutes?: number; // Booked duration across all appointment segments
+  teamMemberIds?: string[]; // Distinct team members across the appointment segments
   status: string;
   notes?: string;
+  orderId?: string; // Square order for the booking (payments for it are matched through this)
+  addons?: JobAddon[]; // From the order's line items (read from notes when missing)
   locationId?: string;
   sellerId?: string;
   version?: number;
@@ -51,6 +55,15 @@ export function parseBookingEvent(event: SquareBookingWebhook): ParsedBooking {
   const serviceVariationId = segments.length > 0 
     ? segments[0].service_variation_id 
     : undefined;
+  const durationMinutes = segments.reduce(
+    (total: number, segment: { duration_minutes?: number }) => total + (segment.duration_minutes || 0),
+    0
+  );
+  const teamMemberIds = Array.from(new Set<string>(
+    segments
+      .map((segment: { team_member_id?: string }) => segment.team_member_id)
+      .filter((id: string | undefined): id is string => !!id)
+  ));
 
   return {
     bookingId: booking.id,
@@ -61,6 +74,8 @@ export function parseBookingEvent(event: SquareBookingWebhook): ParsedBooking {
     serviceType: undefined, // Will be enriched with service name
     serviceVariationId, // Keep variation ID for pricing
     appointmentTime: startAt,
+    durationMinutes: durationMinutes || undefined,
+    teamMemberIds,
     status: booking.status || 'PENDING',
     notes: booking.customer_note,
     locationId: booking.location_id,
@@ -576,3 +576,88 @@ export async function updateBookingDetails(params: {
     throw error;
   }
 }
+
+/**
+ * Set the team member on every appointment segment of a booking
+ * (keeps each segment's service, version and duration)
+ * 
+ * @param booking - Current booking (segments and version are taken from it)
+ * @param teamMemberId - Square team member ID
+ * @returns Updated booking
+ */
+export async function updateBookingTeamMember(
+  booking: SquareBooking,
+  teamMemberId: string
+): Promise<SquareBooking> {
+  const config = getConfig();
+  
+  if (!config.square.accessToken) {
+    throw new Error('Square access token not configured');
+  }
+
+  try {
+    const baseUrl = config.square.environment === 'sandbox' 
+      ? 'https://connect.squareupsandbox.com'
+      : 'https://connect.squareup.com';
+    
+    const url = `${baseUrl}/v2/bookings/${booking.id}`;
+    
+    const bookingData = {
+      booking: {
+        version: booking.version,
+        appointment_segments: (booking.appointment_segments || []).map(segment => ({
+          ...segment,
+          team_member_id: teamMemberId,
+        })),
+      },
+    };
+    
+    console.log('[SQUARE BOOKINGS API] Updating booking team member', {
+      bookingId: booking.id,
+      version: booking.version,
+      teamMemberId,
+    });
+    
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${config.square.accessToken}`,
+        'Content-Type': 'application/json',
+        'Square-Version': '2024-01-18',
+      },
+      body: JSON.stringify(bookingData),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[SQUARE BOOKINGS API] Update booking team member failed', {
+        status: response.status,
+        bookingId: booking.id,
+        error: errorText,
+      });
+      
+      throw new Error(`Failed to update booking team member: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    
+    if (data.errors && data.errors.length > 0) {
+      const errorMsg = data.errors.map((e: any) => `${e.code}: ${e.detail || e.category}`).join(', ');
+      throw new Error(`Square API errors: ${errorMsg}`);
+    }
+    
+    console.log('[SQUARE BOOKINGS API] Booking team member updated', {
+      bookingId: data.booking?.id,
+      newVersion: data.booking?.version,
+    });
+    
+    return data.booking as SquareBooking;
+  } catch (error: any) {
+    console.error('[SQUARE BOOKINGS API] Update booking team member error', {
+      bookingId: booking.id,
+      error: error.message,
+    });
+    
+    throw error;
+  }
+}
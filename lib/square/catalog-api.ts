@@ -5,6 +5,7 @@
  */
 
 import { getConfig } from '../config';
+import type { JobAddon } from '../types';
 
 /**
  * Catalog item variation from Square API
@@ -54,6 +55,7 @@ export interface CatalogObject {
   item_data?: {
     name?: string;
     description?: string;
+    is_taxable?: boolean; // Square treats a missing flag as taxable
   };
   item_variation_data?: {
     item_id?: string;
@@ -284,6 +286,7 @@ export interface CatalogService {
     amount: number;
     currency: string;
   };
+  taxable: boolean; // Item is_taxable in Square
   version: number;
 }
 
@@ -359,6 +362,7 @@ export async function listServices(): Promise<CatalogService[]> {
                     amount: varData.price_money.amount || 0,
                     currency: varData.price_money.currency || 'USD',
                   } : undefined,
+                  taxable: itemData.is_taxable !== false,
                   version: variation.version || 1,
                 });
               }
@@ -507,6 +511,7 @@ export async function listPhoneBookingServices(): Promise<CatalogService[]> {
                     amount: varData.price_money.amount || 0,
                     currency: varData.price_money.currency || 'USD',
                   } : undefined,
+                  taxable: itemData.is_taxable !== false,
                   version: variation.version || 1,
                 };
                 
@@ -597,6 +602,7 @@ export interface CatalogAddon {
     amount: number;
     currency: string;
   };
+  taxable: boolean; // Item is_taxable in Square
   version: number;
 }
 
@@ -764,6 +770,7 @@ export async function listAddons(): Promise<CatalogAddon[]> {
                     amount: varData.price_money.amount || 0,
                     currency: varData.price_money.currency || 'USD',
                   } : undefined,
+                  taxable: itemData.is_taxable !== false,
                   version: variation.version || 1,
                 });
               }
@@ -795,6 +802,91 @@ export async function listAddons(): Promise<CatalogAddon[]> {
   }
 }
 
+/**
+ * Catalog discount (DISCOUNT object) managers can apply to jobs
+ */
+export interface CatalogDiscount {
+  id: string;
+  name: string;
+  discountType: 'FIXED_PERCENTAGE' | 'FIXED_AMOUNT' | 'VARIABLE_PERCENTAGE' | 'VARIABLE_AMOUNT';
+  percentage?: number; // FIXED_PERCENTAGE, e.g. 10 for 10%
+  amountCents?: number; // FIXED_AMOUNT
+}
+
+/**
+ * Fetch discounts from Square Catalog
+ * 
+ * @returns Catalog discounts, by name
+ */
+export async function listDiscounts(): Promise<CatalogDiscount[]> {
+  const config = getConfig();
+  
+  if (!config.square.accessToken) {
+    throw new Error('Square access token not configured');
+  }
+
+  const baseUrl = config.square.environment === 'sandbox' 
+    ? 'https://connect.squareupsandbox.com'
+    : 'https://connect.squareup.com';
+
+  console.log('[SQUARE CATALOG API] Fetching discounts', {
+    environment: config.square.environment,
+  });
+
+  try {
+    const response = await fetch(`${baseUrl}/v2/catalog/list?types=DISCOUNT`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${config.square.accessToken}`,
+        'Content-Type': 'application/json',
+        'Square-Version': '2024-01-18',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[SQUARE CATALOG API] Failed to fetch discounts', {
+        status: response.status,
+        error: errorText,
+      });
+      throw new Error(`Failed to fetch discounts: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.errors && data.errors.length > 0) {
+      const errorMsg = data.errors.map((e: any) => `${e.code}: ${e.detail || e.category}`).join(', ');
+      throw new Error(`Square API errors: ${errorMsg}`);
+    }
+
+    const discounts: CatalogDiscount[] = (data.objects || [])
+      .filter((object: any) => object.type === 'DISCOUNT' && object.discount_data && !object.is_deleted)
+      .map((object: any) => {
+        const discountData = object.discount_data;
+        const percentage = discountData.percentage ? parseFloat(discountData.percentage) : undefined;
+        return {
+          id: object.id,
+          name: discountData.name || 'Discount',
+          discountType: discountData.discount_type,
+          ...(percentage !== undefined && !isNaN(percentage) && { percentage }),
+          ...(discountData.amount_money && { amountCents: discountData.amount_money.amount }),
+        };
+      })
+      .sort((a: CatalogDiscount, b: CatalogDiscount) => a.name.localeCompare(b.name));
+
+    console.log('[SQUARE CATALOG API] Discounts fetched', {
+      count: discounts.length,
+    });
+
+    return discounts;
+  } catch (error: any) {
+    console.error('[SQUARE CATALOG API] Error fetching discounts', {
+      error: error.message,
+    });
+    throw error;
+  }
+}
+
 /**
  * Validate if a catalog variation ID is a valid add-on
  * 
@@ -825,3 +917,19 @@ export async function validateAddonVariation(variationId: string): Promise<boole
     return false;
   }
 }
+
+/**
+ * A catalog add-on as booked on a job (catalog price as the unit price)
+ * 
+ * @param addon - Add-on from the catalog
+ * @param quantity - How many were booked
+ * @returns Add-on to store on the job
+ */
+export function toJobAddon(addon: CatalogAddon, quantity: number = 1): JobAddon {
+  return {
+    catalogObjectId: addon.id,
+    name: addon.name,
+    quantity,
+    ...(addon.priceMoney && { priceCents: addon.priceMoney.amount }),
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Fake Payments Client
+ *
+ * Stands in for the Square Payments API in tests and offline development.
+ * Every customer has a test Visa on file unless told otherwise, charges
+ * succeed unless a decline is queued, and repeated idempotency keys return
+ * the original result like Square does (refunds too). A charge or refund
+ * can be made to time out after it went through, to exercise resending.
+ * Refunds complete
+ * at once unless one is held PENDING to be settled later. Payments taken
+ * elsewhere (at the counter) are added with addPayment.
+ */
+
+import type { SquarePaymentDetails, SquareRefundDetails } from '../types';
+import type {
+  CardOnFile,
+  ChargeCardRequest,
+  ChargeCardResult,
+  PaymentsClient,
+  RefundPaymentRequest,
+  RefundPaymentResult,
+} from './payments-api';
+
+export interface FakePaymentsClient extends PaymentsClient {
+  /** Charges that went through, oldest first */
+  readonly charges: Array<ChargeCardRequest & { paymentId: string }>;
+  /** Set (or with null, remove) a customer's card on file */
+  setCard(customerId: string, card: CardOnFile | null): void;
+  /** Refunds that went through, oldest first */
+  readonly refunds: Array<RefundPaymentRequest & { refundId: string; status: string; createdAt: string; updatedAt: string }>;
+  /** Decline the next charge with this reason */
+  declineNext(reason?: string): void;
+  /** Let the next charge go through but lose Square's answer (a timeout) */
+  timeOutNextCharge(): void;
+  /** Refuse the next refund with this reason */
+  refuseNextRefund(reason?: string): void;
+  /** Let the next refund go through but lose Square's answer (a timeout) */
+  timeOutNextRefund(): void;
+  /** Leave the next refund PENDING until settleRefund */
+  holdNextRefund(): void;
+  /** Move a refund to its final Square status (COMPLETED, REJECTED or FAILED) */
+  settleRefund(refundId: string, status: string): void;
+  /** Add or replace a payment returned by getPayment and listPayments */
+  addPayment(payment: SquarePaymentDetails): void;
+}
+
+const TEST_CARD: CardOnFile = { cardId: 'fake-card', brand: 'VISA', last4: '1111' };
+
+export function createFakePaymentsClient(): FakePaymentsClient {
+  const cards = new Map<string, CardOnFile | null>();
+  const results = new Map<string, ChargeCardResult>();
+  const declines: string[] = [];
+  let timeOutNext = false;
+  const charges: Array<ChargeCardRequest & { paymentId: string }> = [];
+  const payments = new Map<string, SquarePaymentDetails>();
+  const refundResults = new Map<string, RefundPaymentResult>();
+  const refusals: string[] = [];
+  const refunds: FakePaymentsClient['refunds'] = [];
+  let holdNext = false;
+  let timeOutNextRefund = false;
+
+  return {
+    charges,
+    refunds,
+
+    addPayment(payment) {
+      payments.set(payment.paymentId, payment);
+    },
+
+    setCard(customerId, card) {
+      cards.set(customerId, card);
+    },
+
+    declineNext(reason = 'CARD_DECLINED: Authorization error') {
+      declines.push(reason);
+    },
+
+    timeOutNextCharge() {
+      timeOutNext = true;
+    },
+
+    refuseNextRefund(reason = 'REFUND_DECLINED: Refund declined') {
+      refusals.push(reason);
+    },
+
+    timeOutNextRefund() {
+      timeOutNextRefund = true;
+    },
+
+    holdNextRefund() {
+      holdNext = true;
+    },
+
+    settleRefund(refundId, status) {
+      const refund = refunds.find(candidate => candidate.refundId === refundId);
+      if (refund) {
+        refund.status = status;
+        refund.updatedAt = new Date().toISOString();
+      }
+    },
+
+    async findCardOnFile(customerId) {
+      return cards.has(customerId) ? cards.get(customerId)! : { ...TEST_CARD, cardId: `${TEST_CARD.cardId}-${customerId}` };
+    },
+
+    async chargeCard(request) {
+      const previous = results.get(request.idempotencyKey);
+      if (previous) {
+        return previous;
+      }
+
+      const decline = declines.shift();
+      const result: ChargeCardResult = decline
+        ? { success: false, failureReason: decline }
+        : { success: true, paymentId: `fake-payment-${charges.length + 1}` };
+
+      if (result.success) {
+        charges.push({ ...request, paymentId: result.paymentId! });
+      }
+      results.set(request.idempotencyKey, result);
+
+      console.log('[FAKE PAYMENTS] Charge', {
+        customerId: request.customerId,
+        amountCents: request.amountCents,
+        success: result.success,
+        timedOut: timeOutNext,
+      });
+
+      if (timeOutNext) {
+        timeOutNext = false;
+        return { success: false, unknown: true, failureReason: 'No answer from Square: timed out' };
+      }
+
+      return result;
+    },
+
+    async getPayment(paymentId) {
+      return payments.get(paymentId) ?? null;
+    },
+
+    async listPayments(request) {
+      return Array.from(payments.values())
+        .filter(payment => payment.createdAt >= request.beginTime && payment.createdAt < request.endTime)
+        .filter(payment => !request.locationId || payment.locationId === request.locationId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async refundPayment(request) {
+      const previous = refundResults.get(request.idempotencyKey);
+      if (previous) {
+        return previous;
+      }
+
+      const refusal = refusals.shift();
+      const pending = !refusal && holdNext;
+      const result: RefundPaymentResult = refusal
+        ? { success: false, failureReason: refusal }
+        : { success: true, refundId: `fake-refund-${refunds.length + 1}`, ...(pending && { pending }) };
+      holdNext = holdNext && !!refusal;
+
+      if (result.success) {
+        const now = new Date().toISOString();
+        refunds.push({
+          ...request,
+          refundId: result.refundId!,
+          status: pending ? 'PENDING' : 'COMPLETED',
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      refundResults.set(request.idempotencyKey, result);
+
+      console.log('[FAKE PAYMENTS] Refund', {
+        paymentId: request.paymentId,
+        amountCents: request.amountCents,
+        success: result.success,
+        timedOut: timeOutNextRefund,
+      });
+
+      if (timeOutNextRefund) {
+        timeOutNextRefund = false;
+        return { success: false, unknown: true, failureReason: 'No answer from Square: timed out' };
+      }
+
+      return result;
+    },
+
+    async listRefunds(request) {
+      return refunds
+        .filter(refund => refund.createdAt >= request.beginTime && refund.createdAt < request.endTime)
+        .map((refund): SquareRefundDetails => ({
+          refundId: refund.refundId,
+          paymentId: refund.paymentId,
+          status: refund.status,
+          amountCents: refund.amountCents,
+          currency: refund.currency,
+          createdAt: refund.createdAt,
+          updatedAt: refund.updatedAt,
+        }));
+    },
+  };
+}
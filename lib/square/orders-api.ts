@@ -6,6 +6,7 @@
 
 import { getConfig } from '../config';
 import { randomBytes } from 'crypto';
+import type { JobAddon } from '../types';
 
 /**
  * Line item for Square Order
@@ -23,6 +24,16 @@ export interface OrderLineItem {
   };
 }
 
+/**
+ * Order-level discount (a Square catalog discount applied to the whole order)
+ */
+export interface OrderDiscount {
+  uid: string;
+  catalog_object_id?: string;
+  name?: string;
+  scope?: 'ORDER' | 'LINE_ITEM';
+}
+
 /**
  * Square Order object
  */
@@ -30,6 +41,7 @@ export interface SquareOrder {
   id: string;
   location_id: string;
   line_items?: OrderLineItem[];
+  discounts?: OrderDiscount[];
   state?: string;
   version?: number;
   created_at?: string;
@@ -57,7 +69,9 @@ export interface CreateOrderRequest {
 export interface UpdateOrderRequest {
   orderId: string;
   version: number;
-  lineItems: OrderLineItem[];
+  lineItems?: OrderLineItem[];
+  discounts?: OrderDiscount[]; // Added to the order (sparse update)
+  fieldsToClear?: string[]; // e.g. discounts[uid] to remove a discount
   idempotencyKey?: string;
 }
 
@@ -249,7 +263,9 @@ export async function updateOrder(request: UpdateOrderRequest): Promise<SquareOr
   console.log('[SQUARE ORDERS API] Updating order', {
     orderId: request.orderId,
     version: request.version,
-    lineItemCount: request.lineItems.length,
+    lineItemCount: request.lineItems?.length ?? 0,
+    discountCount: request.discounts?.length ?? 0,
+    fieldsToClear: request.fieldsToClear,
     idempotencyKey,
   });
 
@@ -257,8 +273,10 @@ export async function updateOrder(request: UpdateOrderRequest): Promise<SquareOr
     idempotency_key: idempotencyKey,
     order: {
       version: request.version,
-      line_items: request.lineItems,
+      ...(request.lineItems && { line_items: request.lineItems }),
+      ...(request.discounts && { discounts: request.discounts }),
     },
+    ...(request.fieldsToClear && { fields_to_clear: request.fieldsToClear }),
   };
 
   try {
@@ -310,6 +328,33 @@ export async function updateOrder(request: UpdateOrderRequest): Promise<SquareOr
   }
 }
 
+/**
+ * Add a catalog discount to an order, or remove one (catalogDiscountId null)
+ * 
+ * @param orderId - Square Order ID
+ * @param uid - Discount uid on the order (the job discount ID)
+ * @param catalogDiscountId - Square catalog DISCOUNT to apply, or null to remove
+ * @returns Updated order, or null if the order doesn't exist
+ */
+export async function setOrderDiscount(
+  orderId: string,
+  uid: string,
+  catalogDiscountId: string | null
+): Promise<SquareOrder | null> {
+  const order = await retrieveOrder(orderId);
+  if (!order || order.version === undefined) {
+    return null;
+  }
+
+  return updateOrder({
+    orderId,
+    version: order.version,
+    ...(catalogDiscountId
+      ? { discounts: [{ uid, catalog_object_id: catalogDiscountId, scope: 'ORDER' as const }] }
+      : { fieldsToClear: [`discounts[${uid}]`] }),
+  });
+}
+
 /**
  * Check if a line item is an add-on based on metadata
  * 
@@ -347,3 +392,18 @@ export function extractNonAddonLineItems(order: SquareOrder): OrderLineItem[] {
   
   return order.line_items.filter(item => !isAddonLineItem(item));
 }
+
+/**
+ * Job add-ons for order line items (catalog ID, name, quantity, unit price)
+ * 
+ * @param lineItems - Add-on line items
+ * @returns Add-ons to store on the job
+ */
+export function toJobAddons(lineItems: OrderLineItem[]): JobAddon[] {
+  return lineItems.map(item => ({
+    ...(item.catalog_object_id && { catalogObjectId: item.catalog_object_id }),
+    name: item.name || 'Unknown Add-on',
+    quantity: Math.max(1, parseInt(item.quantity, 10) || 1),
+    ...(item.base_price_money && { priceCents: item.base_price_money.amount }),
+  }));
+}
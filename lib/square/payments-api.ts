@@ -0,0 +1,444 @@
+/**
+ * Square Payments API Client
+ *
+ * Charges a customer's card on file (no-show fees), reads the payments
+ * taken at the counter so they can be matched to jobs, and refunds them
+ * (reading refunds back to settle the ones Square finishes later).
+ * Callers go through
+ * getPaymentsClient() so tests and offline development can swap in the
+ * fake client (PAYMENTS_CLIENT=fake) without moving money.
+ */
+
+import { getConfig } from '../config';
+import type { SquarePaymentDetails, SquareRefundDetails } from '../types';
+import { createFakePaymentsClient } from './fake-payments';
+
+/**
+ * A card saved on the customer's Square profile
+ */
+export interface CardOnFile {
+  cardId: string;
+  brand?: string; // e.g. VISA
+  last4?: string;
+}
+
+export interface ChargeCardRequest {
+  customerId: string;
+  cardId: string;
+  amountCents: number;
+  currency: string;
+  idempotencyKey: string; // Resending the same key never charges twice
+  referenceId?: string; // Our job ID, shown on the payment in Square
+  note?: string;
+}
+
+/**
+ * Outcome of a charge (declines are results, not errors)
+ */
+export interface ChargeCardResult {
+  success: boolean;
+  paymentId?: string;
+  unknown?: boolean; // No answer from Square (timeout, 5xx); resend with the same key to find out
+  failureReason?: string;
+}
+
+export interface RefundPaymentRequest {
+  paymentId: string; // The Square payment to refund
+  amountCents: number;
+  currency: string;
+  idempotencyKey: string; // Resending the same key never refunds twice
+  reason?: string;
+}
+
+/**
+ * Outcome of a refund (refusals are results, not errors)
+ */
+export interface RefundPaymentResult {
+  success: boolean;
+  refundId?: string;
+  pending?: boolean; // Square accepted it but hasn't finished it yet
+  unknown?: boolean; // No answer from Square (timeout, 5xx); resend with the same key to find out
+  failureReason?: string;
+}
+
+export interface ListPaymentsRequest {
+  beginTime: string; // Inclusive, by payment creation time
+  endTime: string; // Exclusive
+  locationId?: string;
+}
+
+export interface ListRefundsRequest {
+  beginTime: string; // Inclusive, by refund creation time
+  endTime: string; // Exclusive
+  locationId?: string;
+}
+
+/**
+ * Everything the app needs from a card processor
+ */
+export interface PaymentsClient {
+  /** First enabled card on the customer's profile, or null if there is none */
+  findCardOnFile(customerId: string): Promise<CardOnFile | null>;
+  chargeCard(request: ChargeCardRequest): Promise<ChargeCardResult>;
+  /** Null if Square has no such payment */
+  getPayment(paymentId: string): Promise<SquarePaymentDetails | null>;
+  /** Every payment created in the range, oldest first */
+  listPayments(request: ListPaymentsRequest): Promise<SquarePaymentDetails[]>;
+  refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResult>;
+  /** Every refund created in the range, oldest first */
+  listRefunds(request: ListRefundsRequest): Promise<SquareRefundDetails[]>;
+}
+
+/**
+ * The fields the app uses from a Square payment object (API response or
+ * webhook data.object.payment)
+ */
+export function parseSquarePayment(payment: any): SquarePaymentDetails {
+  const amountCents = payment.amount_money?.amount ?? 0;
+  const tipCents = payment.tip_money?.amount ?? 0;
+  const card = payment.card_details?.card;
+
+  return {
+    paymentId: payment.id,
+    status: payment.status,
+    amountCents,
+    tipCents,
+    totalCents: payment.total_money?.amount ?? amountCents + tipCents,
+    ...(payment.refunded_money?.amount && { refundedCents: payment.refunded_money.amount }),
+    currency: payment.amount_money?.currency || 'USD',
+    tenderType: payment.source_type || 'OTHER',
+    ...(card?.card_brand && { cardBrand: card.card_brand }),
+    ...(card?.last_4 && { cardLast4: card.last_4 }),
+    ...(payment.order_id && { orderId: payment.order_id }),
+    ...(payment.customer_id && { customerId: payment.customer_id }),
+    ...(payment.location_id && { locationId: payment.location_id }),
+    ...(payment.reference_id && { referenceId: payment.reference_id }),
+    ...(payment.note && { note: payment.note }),
+    ...(payment.receipt_url && { receiptUrl: payment.receipt_url }),
+    createdAt: payment.created_at,
+    updatedAt: payment.updated_at || payment.created_at,
+  };
+}
+
+/**
+ * The fields the app uses from a Square refund object (API response or
+ * webhook data.object.refund)
+ */
+export function parseSquareRefund(refund: any): SquareRefundDetails {
+  return {
+    refundId: refund.id,
+    paymentId: refund.payment_id,
+    status: refund.status,
+    amountCents: refund.amount_money?.amount ?? 0,
+    currency: refund.amount_money?.currency || 'USD',
+    ...(refund.location_id && { locationId: refund.location_id }),
+    createdAt: refund.created_at,
+    updatedAt: refund.updated_at || refund.created_at,
+  };
+}
+
+function getBaseUrl(): string {
+  return getConfig().square.environment === 'sandbox'
+    ? 'https://connect.squareupsandbox.com'
+    : 'https://connect.squareup.com';
+}
+
+function getHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${getConfig().square.accessToken}`,
+    'Content-Type': 'application/json',
+    'Square-Version': '2024-01-18',
+  };
+}
+
+/**
+ * Whether a response leaves the request's outcome unknown: Square was
+ * unavailable or rate-limited us, so it may or may not have acted on it
+ */
+function isUnknownOutcome(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Square's error list as one line ("CARD_DECLINED: Authorization error")
+ */
+function formatSquareErrors(errors: any[] = []): string {
+  return errors.map((e: any) => `${e.code}: ${e.detail || e.category}`).join(', ');
+}
+
+/**
+ * Payments through the Square API
+ */
+export const squarePaymentsClient: PaymentsClient = {
+  async findCardOnFile(customerId) {
+    const url = `${getBaseUrl()}/v2/cards?customer_id=${encodeURIComponent(customerId)}`;
+
+    console.log('[SQUARE PAYMENTS API] Listing cards on file', { customerId });
+
+    const response = await fetch(url, { method: 'GET', headers: getHeaders() });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[SQUARE PAYMENTS API] List cards failed', {
+        customerId,
+        status: response.status,
+        error: errorText,
+      });
+      throw new Error(`Failed to list cards on file: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const card = (data.cards || []).find((c: any) => c.enabled !== false);
+
+    return card ? { cardId: card.id, brand: card.card_brand, last4: card.last_4 } : null;
+  },
+
+  async chargeCard(request) {
+    const { franklinLocationId } = getConfig().square;
+
+    console.log('[SQUARE PAYMENTS API] Charging card on file', {
+      customerId: request.customerId,
+      amountCents: request.amountCents,
+      referenceId: request.referenceId,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${getBaseUrl()}/v2/payments`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+          source_id: request.cardId,
+          idempotency_key: request.idempotencyKey,
+          amount_money: { amount: request.amountCents, currency: request.currency },
+          customer_id: request.customerId,
+          ...(franklinLocationId && { location_id: franklinLocationId }),
+          reference_id: request.referenceId,
+          note: request.note,
+          autocomplete: true,
+        }),
+      });
+    } catch (error: any) {
+      console.error('[SQUARE PAYMENTS API] Charge sent without an answer', {
+        customerId: request.customerId,
+        error: error.message,
+      });
+      return { success: false, unknown: true, failureReason: `No answer from Square: ${error.message}` };
+    }
+
+    const data = await response.json().catch(() => ({}));
+
+    if (isUnknownOutcome(response.status)) {
+      const failureReason = formatSquareErrors(data.errors) || `Square unavailable (${response.status})`;
+      console.error('[SQUARE PAYMENTS API] Charge sent without an answer', {
+        customerId: request.customerId,
+        status: response.status,
+        error: failureReason,
+      });
+      return { success: false, unknown: true, failureReason };
+    }
+
+    // Declines come back as 4xx with the payment marked FAILED
+    if (!response.ok || data.errors?.length || data.payment?.status === 'FAILED') {
+      const failureReason = formatSquareErrors(data.errors) || `Payment failed (${response.status})`;
+      console.error('[SQUARE PAYMENTS API] Charge failed', {
+        customerId: request.customerId,
+        status: response.status,
+        error: failureReason,
+      });
+      return { success: false, paymentId: data.payment?.id, failureReason };
+    }
+
+    console.log('[SQUARE PAYMENTS API] Charge completed', {
+      paymentId: data.payment?.id,
+      status: data.payment?.status,
+    });
+
+    return { success: true, paymentId: data.payment?.id };
+  },
+
+  async getPayment(paymentId) {
+    const response = await fetch(`${getBaseUrl()}/v2/payments/${encodeURIComponent(paymentId)}`, {
+      method: 'GET',
+      headers: getHeaders(),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[SQUARE PAYMENTS API] Get payment failed', {
+        paymentId,
+        status: response.status,
+        error: errorText,
+      });
+      throw new Error(`Failed to get payment: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    return data.payment ? parseSquarePayment(data.payment) : null;
+  },
+
+  async listPayments(request) {
+    const payments: SquarePaymentDetails[] = [];
+    let cursor: string | undefined;
+
+    console.log('[SQUARE PAYMENTS API] Listing payments', request);
+
+    do {
+      const params = new URLSearchParams({
+        begin_time: request.beginTime,
+        end_time: request.endTime,
+        sort_order: 'ASC',
+        ...(request.locationId && { location_id: request.locationId }),
+        ...(cursor && { cursor }),
+      });
+
+      const response = await fetch(`${getBaseUrl()}/v2/payments?${params}`, {
+        method: 'GET',
+        headers: getHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[SQUARE PAYMENTS API] List payments failed', {
+          status: response.status,
+          error: errorText,
+        });
+        throw new Error(`Failed to list payments: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      payments.push(...(data.payments || []).map(parseSquarePayment));
+      cursor = data.cursor;
+    } while (cursor);
+
+    return payments;
+  },
+
+  async refundPayment(request) {
+    console.log('[SQUARE PAYMENTS API] Refunding payment', {
+      paymentId: request.paymentId,
+      amountCents: request.amountCents,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${getBaseUrl()}/v2/refunds`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+          idempotency_key: request.idempotencyKey,
+          payment_id: request.paymentId,
+          amount_money: { amount: request.amountCents, currency: request.currency },
+          reason: request.reason,
+        }),
+      });
+    } catch (error: any) {
+      console.error('[SQUARE PAYMENTS API] Refund sent without an answer', {
+        paymentId: request.paymentId,
+        error: error.message,
+      });
+      return { success: false, unknown: true, failureReason: `No answer from Square: ${error.message}` };
+    }
+
+    const data = await response.json().catch(() => ({}));
+    const status = data.refund?.status;
+
+    if (isUnknownOutcome(response.status)) {
+      const failureReason = formatSquareErrors(data.errors) || `Square unavailable (${response.status})`;
+      console.error('[SQUARE PAYMENTS API] Refund sent without an answer', {
+        paymentId: request.paymentId,
+        status: response.status,
+        error: failureReason,
+      });
+      return { success: false, unknown: true, failureReason };
+    }
+
+    // Refusals come back as 4xx, or with the refund REJECTED or FAILED
+    if (!response.ok || data.errors?.length || status === 'REJECTED' || status === 'FAILED') {
+      const failureReason = formatSquareErrors(data.errors) || `Refund ${status || 'failed'} (${response.status})`;
+      console.error('[SQUARE PAYMENTS API] Refund failed', {
+        paymentId: request.paymentId,
+        status: response.status,
+        error: failureReason,
+      });
+      return { success: false, refundId: data.refund?.id, failureReason };
+    }
+
+    console.log('[SQUARE PAYMENTS API] Refund accepted', {
+      refundId: data.refund?.id,
+      status,
+    });
+
+    return { success: true, refundId: data.refund?.id, pending: status === 'PENDING' };
+  },
+
+  async listRefunds(request) {
+    const refunds: SquareRefundDetails[] = [];
+    let cursor: string | undefined;
+
+    console.log('[SQUARE PAYMENTS API] Listing refunds', request);
+
+    do {
+      const params = new URLSearchParams({
+        begin_time: request.beginTime,
+        end_time: request.endTime,
+        sort_order: 'ASC',
+        ...(request.locationId && { location_id: request.locationId }),
+        ...(cursor && { cursor }),
+      });
+
+      const response = await fetch(`${getBaseUrl()}/v2/refunds?${params}`, {
+        method: 'GET',
+        headers: getHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[SQUARE PAYMENTS API] List refunds failed', {
+          status: response.status,
+          error: errorText,
+        });
+        throw new Error(`Failed to list refunds: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      refunds.push(...(data.refunds || []).map(parseSquareRefund));
+      cursor = data.cursor;
+    } while (cursor);
+
+    return refunds;
+  },
+};
+
+// Kept on globalThis so every Next.js route bundle shares one client (and fake state)
+const globalPayments = globalThis as typeof globalThis & {
+  __safariPaymentsClient?: PaymentsClient;
+};
+
+/**
+ * Get the payments client for the configured driver
+ */
+export function getPaymentsClient(): PaymentsClient {
+  if (!globalPayments.__safariPaymentsClient) {
+    const { payments } = getConfig();
+
+    globalPayments.__safariPaymentsClient = payments.driver === 'fake'
+      ? createFakePaymentsClient()
+      : squarePaymentsClient;
+
+    console.log('[PAYMENTS] Using payments client', { driver: payments.driver });
+  }
+
+  return globalPayments.__safariPaymentsClient;
+}
+
+/**
+ * Replace the active payments client (tests); pass null to re-select from config
+ */
+export function setPaymentsClient(client: PaymentsClient | null): void {
+  globalPayments.__safariPaymentsClient = client ?? undefined;
+}
@@ -94,9 +94,14 @@ export interface UserAudit {
 /**
  * Phase 3: Post-completion issue tracking
  */
+export type PostCompletionIssueType = 'QC_MISS' | 'CUSTOMER_COMPLAINT' | 'DAMAGE' | 'REDO' | 'OTHER';
+
+/**
+ * Phase 3: Single post-completion issue (legacy; read as the first entry of Job.issues)
+ */
 export interface PostCompletionIssue {
   isOpen: boolean;
-  type: 'QC_MISS' | 'CUSTOMER_COMPLAINT' | 'DAMAGE' | 'REDO' | 'OTHER';
+  type: PostCompletionIssueType;
   notes?: string;
   openedAt: string;
   openedBy: {
@@ -112,16 +117,94 @@ export interface PostCompletionIssue {
   };
 }
 
+/**
+ * Issues: Where a post-completion issue is in its lifecycle
+ */
+export type IssueStatus = 'OPEN' | 'IN_PROGRESS' | 'RESOLVED';
+
+/**
+ * Issues: How a resolved issue was settled
+ */
+export type IssueOutcome = 'REFUND' | 'REDO' | 'NO_ACTION';
+
+/**
+ * Issues: A manager comment (or reply) on an issue
+ */
+export interface IssueComment {
+  commentId: string;
+  body: string;
+  parentCommentId?: string; // Comment this replies to (top-level when missing)
+  createdAt: string;
+  createdBy: UserAudit;
+}
+
+/**
+ * Issues: A problem raised on a job after it was completed
+ */
+export interface JobIssue {
+  issueId: string;
+  type: PostCompletionIssueType;
+  status: IssueStatus;
+  notes?: string;
+  assignee?: { userId: string; name: string }; // Who is following it up
+  photoIds: string[]; // Evidence photos in photosMeta (category 'issue')
+  comments: IssueComment[]; // Oldest first; replies point at their parent
+  openedAt: string;
+  openedBy: UserAudit;
+  updatedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: UserAudit;
+  outcome?: IssueOutcome; // Set while RESOLVED
+  resolutionNotes?: string;
+  redoJobId?: string; // Follow-up job scheduled to fix it
+}
+
 /**
  * Phase 3: Status history entry
  */
 export interface StatusHistoryEntry {
   from: WorkStatus | null;
   to: WorkStatus | null;
-  event?: 'POST_COMPLETION_ISSUE_OPENED' | 'POST_COMPLETION_ISSUE_RESOLVED' | 'STATUS_CHANGE' | 'PAYMENT_MARKED_PAID' | 'PAYMENT_MARKED_UNPAID' | 'PAYMENT_AMOUNT_UPDATED' | 'NO_SHOW_MARKED' | 'NO_SHOW_RESOLVED';
+  event?: 'POST_COMPLETION_ISSUE_OPENED' | 'POST_COMPLETION_ISSUE_RESOLVED' | 'POST_COMPLETION_ISSUE_REOPENED' | 'REDO_SCHEDULED' | 'STATUS_CHANGE' | 'PAYMENT_MARKED_PAID' | 'PAYMENT_MARKED_UNPAID' | 'PAYMENT_AMOUNT_UPDATED' | 'NO_SHOW_MARKED' | 'NO_SHOW_RESOLVED' | 'CHECKIN_INSPECTION_COMPLETED' | 'WORK_TIMER_PAUSED' | 'WORK_TIMER_RESUMED' | 'QC_REJECTED' | 'CHECKLIST_OVERRIDE' | 'ASSIGNMENT_CHANGED' | 'BAY_CHANGED' | 'NO_SHOW_CHARGE_ATTEMPTED' | 'NO_SHOW_CHARGED' | 'NO_SHOW_CHARGE_FAILED' | 'PAYMENT_MATCHED' | 'DISCOUNT_APPLIED' | 'DISCOUNT_REMOVED' | 'PAYMENT_RECORDED' | 'PAYMENT_VOIDED' | 'PAYMENT_REFUNDED' | 'PAYMENT_REFUND_FAILED';
   changedAt: string;
   changedBy: UserAudit;
   reason?: string;
+  fromStage?: string; // Pipeline stage ids (differ from the statuses for custom stages)
+  toStage?: string;
+  qcRejectionId?: string; // QC_REJECTED: entry in Job.qcRejections
+  skippedItems?: string[]; // CHECKLIST_OVERRIDE: labels of the unchecked required items
+  assignees?: string[]; // ASSIGNMENT_CHANGED: names of the users now assigned
+  bay?: string; // BAY_CHANGED: name of the bay now assigned (missing when cleared)
+  amountCents?: number; // NO_SHOW_CHARGE_*: fee being charged; PAYMENT_MATCHED: total taken (tip included); DISCOUNT_*: change in the amount due; PAYMENT_RECORDED, PAYMENT_VOIDED: entry amount (tip excluded); PAYMENT_REFUND*: amount refunded
+  tipCents?: number; // PAYMENT_MARKED_PAID, PAYMENT_MATCHED, PAYMENT_RECORDED: tip left for the crew
+  discountId?: string; // DISCOUNT_*: entry in Job.discounts
+  issueId?: string; // POST_COMPLETION_ISSUE_*: entry in Job.issues; PAYMENT_REFUND*: issue the refund settles
+  issueOutcome?: IssueOutcome; // POST_COMPLETION_ISSUE_RESOLVED
+  redoJobId?: string; // REDO_SCHEDULED: the follow-up job
+  squarePaymentId?: string; // PAYMENT_MATCHED: the Square payment applied
+  paymentEntryId?: string; // PAYMENT_RECORDED, PAYMENT_VOIDED, PAYMENT_MATCHED, PAYMENT_REFUND*: entry in Job.paymentEntries
+  refundId?: string; // PAYMENT_REFUND*: entry in Job.refunds
+}
+
+/**
+ * Phase 5: Why a customer was marked a no-show
+ */
+export type NoShowReason = 'NO_ARRIVAL' | 'LATE_CANCEL' | 'UNREACHABLE' | 'OTHER';
+
+/**
+ * No-show fees: One attempt to charge the customer's card on file
+ */
+export interface NoShowChargeAttempt {
+  attemptId: string; // Also the Square idempotency key
+  amountCents: number;
+  result: 'PENDING' | 'SUCCESS' | 'FAILED'; // PENDING until Square answers
+  attemptedAt: string;
+  attemptedBy: UserAudit;
+  completedAt?: string;
+  paymentId?: string; // Square payment ID
+  cardBrand?: string;
+  cardLast4?: string;
+  failureReason?: string;
 }
 
 /**
@@ -129,8 +212,12 @@ export interface StatusHistoryEntry {
  */
 export interface NoShowStatus {
   status: 'NONE' | 'NO_SHOW' | 'RESOLVED';
-  reason?: 'NO_ARRIVAL' | 'LATE_CANCEL' | 'UNREACHABLE' | 'OTHER';
+  reason?: NoShowReason;
   notes?: string;
+  feeCents?: number; // Fee from the no-show policy, fixed at the first charge attempt
+  attemptedChargeAt?: string; // Latest charge attempt
+  chargeResult?: 'SUCCESS' | 'FAILED'; // Result of the latest completed attempt
+  chargeAttempts?: NoShowChargeAttempt[]; // Oldest first
   updatedAt: string;
   updatedBy: {
     userId: string;
@@ -154,6 +241,7 @@ export interface ChecklistItem {
   checked: boolean;
   checkedAt?: string;
   checkedBy?: UserAudit;
+  isRequired?: boolean; // Snapshot of the template item (missing on older jobs = required)
 }
 
 /**
@@ -190,6 +278,33 @@ export interface ChecklistTemplate {
   updatedBy?: UserAudit;
 }
 
+/**
+ * Workflow: One stage of a service's pipeline
+ */
+export interface WorkflowStage {
+  id: string; // Work status for built-in stages, or a custom key e.g. "CURING"
+  label: string;
+  status: WorkStatus; // Work status a job has while in this stage
+  optional?: boolean; // Staff may move a job straight past this stage
+  roles?: UserRole[]; // Roles that may move a job into this stage (defaults by status)
+}
+
+/**
+ * Workflow: Per-service pipeline (stored with the checklist templates)
+ */
+export interface ServiceWorkflow {
+  templateId: string; // Format: {serviceType}#WORKFLOW e.g. "Express Wash#WORKFLOW"
+  serviceType: string;
+  type: 'WORKFLOW';
+  version: number;
+  stages: WorkflowStage[]; // Ordered, SCHEDULED first and WORK_COMPLETED last
+  requiredSkills?: string[]; // Tech skill tags auto-dispatch requires (e.g. "ceramic-certified")
+  bayCapabilities?: string[]; // Capabilities a bay needs to take this service (e.g. "detail")
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: UserAudit;
+}
+
 /**
  * Checklist Template: Job-level checklist snapshot
  */
@@ -220,7 +335,243 @@ export interface PhotoMeta {
   contentType: string;
   uploadedAt: string;
   uploadedBy: UserAudit;
-  category?: 'before' | 'after' | 'damage' | 'other';
+  category?: 'before' | 'after' | 'damage' | 'qc' | 'issue' | 'other';
+  angle?: InspectionAngle; // Check-in inspection slot this photo fills
+}
+
+/**
+ * Check-in inspection: Required walk-around photo angles
+ */
+export type InspectionAngle = 'front' | 'rear' | 'left' | 'right';
+
+/**
+ * Check-in inspection: Pre-existing damage pinned on the vehicle outline
+ */
+export interface DamagePin {
+  pinId: string;
+  x: number; // Position on the top-down outline, 0-100 (% of width)
+  y: number; // 0-100 (% of height)
+  note: string;
+  photoId?: string; // Optional close-up (category 'damage')
+  createdAt: string;
+  createdBy: UserAudit;
+}
+
+/**
+ * Check-in inspection: Structured record of the vehicle's condition on arrival
+ */
+export interface CheckinInspection {
+  requiredAngles: InspectionAngle[]; // Snapshot of what was required
+  photos: Partial<Record<InspectionAngle, string>>; // Angle -> photoId in photosMeta
+  damagePins: DamagePin[];
+  notes?: string;
+  completedAt?: string; // Set once every required angle has a photo
+  completedBy?: UserAudit;
+  updatedAt: string;
+}
+
+/**
+ * QC reject: A failed QC review that sent the job back to IN_PROGRESS
+ */
+export interface QcRejection {
+  rejectionId: string;
+  reason: string;
+  failedItems: Array<Pick<ChecklistItem, 'id' | 'label'>>; // Snapshot of the failed QC checklist items
+  photoIds: string[]; // Evidence photos in photosMeta (category 'qc')
+  techs: Array<{ userId: string; name: string }>; // Whose work failed (counted for QC failure rates)
+  fromStage?: string;
+  toStage?: string;
+  rejectedAt: string;
+  rejectedBy: UserAudit;
+}
+
+/**
+ * Work timer: A stretch of hands-on time credited to one tech
+ */
+export interface LaborSegment {
+  userId: string;
+  name: string;
+  startedAt: string;
+  endedAt?: string; // Open while the timer is running
+}
+
+/**
+ * Work timer: Net labor credited to one tech on a job
+ */
+export interface TechLabor {
+  userId: string;
+  name: string;
+  minutes: number;
+}
+
+/**
+ * Work timer: Runs while the job is IN_PROGRESS (same fields as JobV2's timer*)
+ */
+export interface WorkTimer {
+  startedAt: string;
+  pausedAt?: string; // Set while paused
+  pauseReason?: string; // e.g. "Break", "Waiting on customer"
+  totalPausedMs: number; // Paused time plus any time spent out of IN_PROGRESS
+  stoppedAt?: string; // Set when the job leaves IN_PROGRESS
+  segments: LaborSegment[];
+  laborMinutes: number; // Net labor over closed segments
+  laborByTech: TechLabor[];
+}
+
+/**
+ * Dispatch: A weekly working window in the location timezone
+ */
+export interface TechShift {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm, after start
+}
+
+/**
+ * Assignment: A user responsible for the job
+ */
+export interface JobAssignee {
+  userId: string;
+  name: string;
+  squareTeamMemberId?: string; // Set when the user is mapped to a Square team member
+  assignedAt: string;
+  source: 'manual' | 'square'; // Assigned in the app, or synced from the Square booking
+  assignedBy?: UserAudit; // Manual assignments only
+}
+
+/**
+ * Bays: A wash bay or detail station (the shop's capacity)
+ */
+export interface Bay {
+  bayId: string;
+  name: string;
+  capabilities: string[]; // Tags services can require (e.g. "wash", "detail", "ceramic")
+  isActive: boolean; // Inactive bays keep their history but add no capacity
+}
+
+/**
+ * Bays: The shop's bay list, stored whole in the shop settings table
+ */
+export interface BayConfig {
+  settingId: 'BAYS';
+  bays: Bay[];
+  updatedAt: string;
+  updatedBy?: UserAudit;
+}
+
+/**
+ * No-show fees: How the fee for a no-show is worked out, stored whole in the
+ * shop settings table
+ */
+export interface NoShowPolicy {
+  settingId: 'NO_SHOW_POLICY';
+  feeType: 'FLAT' | 'PERCENT';
+  flatFeeCents: number; // FLAT: the fee
+  percent: number; // PERCENT: share of the job's amount (0-100)
+  minFeeCents?: number; // PERCENT: floor (charged when the job has no amount)
+  maxFeeCents?: number; // PERCENT: cap
+  waivedReasons: NoShowReason[]; // No fee for no-shows with these reasons
+  updatedAt: string;
+  updatedBy?: UserAudit;
+}
+
+/**
+ * Pricing: Sales tax rate for one Square location
+ */
+export interface LocationTaxRate {
+  locationId: string;
+  name?: string; // Shown in settings only
+  ratePercent: number; // e.g. 9.75
+}
+
+/**
+ * Pricing: Sales tax rates, stored whole in the shop settings table
+ */
+export interface TaxConfig {
+  settingId: 'TAX_CONFIG';
+  defaultRatePercent: number; // Locations without their own rate
+  locations: LocationTaxRate[];
+  updatedAt: string;
+  updatedBy?: UserAudit;
+}
+
+/**
+ * Discounts: Why a manager took money off a job
+ */
+export type DiscountReason = 'RETURNING_CUSTOMER' | 'COMP' | 'SERVICE_RECOVERY' | 'PROMOTION' | 'EMPLOYEE' | 'OTHER';
+
+/**
+ * Discounts: A manager-applied discount, priced as a DISCOUNT line
+ */
+export interface JobDiscount {
+  discountId: string;
+  type: 'PERCENT' | 'FIXED';
+  percent?: number; // PERCENT: share of the subtotal (0-100)
+  amountCents?: number; // FIXED: amount taken off
+  reason: DiscountReason;
+  note?: string;
+  catalogDiscountId?: string; // Square catalog discount, also applied to the job's Square order
+  name?: string; // Catalog discount name (shown instead of the reason)
+  appliedAt: string;
+  appliedBy: UserAudit;
+}
+
+/**
+ * Discounts: POST /api/jobs/[jobId]/discounts request
+ */
+export interface ApplyDiscountRequest {
+  type: JobDiscount['type'];
+  percent?: number;
+  amountCents?: number;
+  reason: DiscountReason;
+  note?: string;
+  catalogDiscountId?: string;
+}
+
+/**
+ * An add-on booked with a job (from the Square order or a phone booking)
+ */
+export interface JobAddon {
+  catalogObjectId?: string; // Square item variation ID (missing for add-ons only known by name)
+  name: string;
+  quantity: number;
+  priceCents?: number; // Unit price when booked
+}
+
+/**
+ * Pricing: One line of a job's price
+ */
+export interface PriceLine {
+  type: 'SERVICE' | 'ADDON' | 'DISCOUNT';
+  name: string;
+  amountCents: number; // Negative for discounts
+  taxable: boolean; // Discounts: whether they come off the taxed amount
+  catalogObjectId?: string; // Square item variation ID
+}
+
+/**
+ * Pricing: A job's itemized price (service, add-ons, discounts, tax)
+ */
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  subtotalCents: number; // Service and add-ons, before discounts
+  discountCents: number; // Discount lines, as a positive amount
+  taxableCents: number; // Amount tax was charged on
+  taxRatePercent: number;
+  taxCents: number;
+  totalCents: number;
+  locationId?: string; // Location whose tax rate was used
+  calculatedAt: string;
+}
+
+/**
+ * Bays: The bay a job is booked into
+ */
+export interface JobBay {
+  bayId: string;
+  name: string;
+  assignedAt: string;
+  assignedBy: UserAudit;
 }
 
 /**
@@ -239,8 +590,88 @@ export interface ReceiptPhoto {
   };
 }
 
+/**
+ * Payment ledger: How a payment was taken (SQUARE entries come from matched Square payments)
+ */
+export type PaymentMethod = 'CASH' | 'CARD' | 'CHECK' | 'SQUARE' | 'OTHER';
+
+/**
+ * Payment ledger: One payment toward a job, e.g. a deposit by phone, half of
+ * a split, or the balance at pickup. Voided entries stay on the ledger but no
+ * longer count toward the amount due.
+ */
+export interface PaymentEntry {
+  entryId: string;
+  method: PaymentMethod;
+  amountCents: number; // Toward the amount due (tip excluded)
+  tipCents?: number;
+  reference?: string; // Check number, card last 4, Square tender, etc.
+  squarePaymentId?: string; // SQUARE: the Square payment
+  matchedBy?: PaymentMatchMethod; // SQUARE: how the payment was tied to the job
+  receiptPhotos?: ReceiptPhoto[];
+  recordedAt: string;
+  recordedBy: UserAudit;
+  voidedAt?: string;
+  voidedBy?: UserAudit;
+  voidReason?: string;
+}
+
+/**
+ * Payment ledger: POST /api/jobs/[jobId]/payments request
+ */
+export interface RecordPaymentRequest {
+  method: Exclude<PaymentMethod, 'SQUARE'>;
+  amountCents: number;
+  tipCents?: number;
+  reference?: string;
+  receiptPhotos?: CommitReceiptsRequest['photos']; // Uploaded through /receipts/presign
+}
+
+/**
+ * Payment ledger: POST /api/jobs/[jobId]/payments/[entryId]/void request
+ */
+export interface VoidPaymentRequest {
+  reason: string;
+}
+
+/**
+ * Refunds: PENDING while Square processes it; FAILED refunds don't count
+ */
+export type RefundStatus = 'PENDING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Refunds: Money given back against a payment entry (tip excluded). SQUARE
+ * entries are refunded through Square; others are recorded as handed back.
+ * Refunds don't reopen the balance due; they come off collected revenue.
+ */
+export interface RefundEntry {
+  refundId: string;
+  paymentEntryId: string; // Entry in Job.paymentEntries refunded
+  amountCents: number;
+  reason: string;
+  issueId?: string; // Post-completion issue (Job.issues) the refund settles
+  status: RefundStatus;
+  squareRefundId?: string; // SQUARE entries: the Square refund
+  failureReason?: string; // FAILED: why Square refused it
+  refundedAt: string;
+  refundedBy: UserAudit;
+}
+
+/**
+ * Refunds: POST /api/jobs/[jobId]/refunds request
+ */
+export interface CreateRefundRequest {
+  paymentEntryId: string;
+  amountCents: number;
+  reason: string;
+  issueId?: string;
+}
+
 /**
  * Payment toggle: Enhanced payment details
+ *
+ * With the payment ledger, status is derived: PAID once the job's entries
+ * cover amountCents (the amount due), UNPAID otherwise.
  */
 export interface Payment {
   status: PaymentStatus;
@@ -251,9 +682,88 @@ export interface Payment {
     userId: string;
     name: string;
     role: 'MANAGER';
-  };
+  }; // Missing when a Square payment was matched automatically
   unpaidReason?: string;
   unpaidNote?: string;
+  // Square payments: Set when the job was paid through a Square payment
+  squarePaymentId?: string;
+  tipCents?: number; // On top of amountCents (all ledger entries)
+  tenderType?: string; // Square source type, e.g. CARD, CASH, WALLET
+  cardBrand?: string;
+  cardLast4?: string;
+  receiptUrl?: string;
+  matchedBy?: PaymentMatchMethod;
+}
+
+/**
+ * Square payments: How a Square payment was tied to a job
+ * - REFERENCE: the payment's reference ID is the job ID
+ * - ORDER: the payment is for the job's Square order
+ * - CUSTOMER_TIME: same customer, taken around the appointment
+ * - MANUAL: matched by a manager
+ */
+export type PaymentMatchMethod = 'REFERENCE' | 'ORDER' | 'CUSTOMER_TIME' | 'MANUAL';
+
+/**
+ * Square payments: Where a Square payment stands
+ * - PENDING: not completed in Square yet (matched once it completes)
+ * - MATCHED: applied to a job
+ * - UNMATCHED: completed but no job found (manual match queue)
+ * - IGNORED: canceled, failed, a no-show fee, or dismissed by a manager
+ */
+export type SquarePaymentMatchStatus = 'PENDING' | 'MATCHED' | 'UNMATCHED' | 'IGNORED';
+
+/**
+ * Square payments: The parts of a Square payment the app uses
+ */
+export interface SquarePaymentDetails {
+  paymentId: string;
+  status: string; // Square status: APPROVED, PENDING, COMPLETED, CANCELED or FAILED
+  amountCents: number; // Excludes the tip
+  tipCents: number;
+  totalCents: number;
+  refundedCents?: number; // Refunded so far (through the app or in Square)
+  currency: string;
+  tenderType: string; // Square source type, e.g. CARD, CASH, WALLET
+  cardBrand?: string;
+  cardLast4?: string;
+  orderId?: string;
+  customerId?: string;
+  locationId?: string;
+  referenceId?: string;
+  note?: string;
+  receiptUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Square refunds: The fields the app uses from a Square refund
+ */
+export interface SquareRefundDetails {
+  refundId: string;
+  paymentId: string; // The Square payment refunded
+  status: string; // Square status: PENDING, COMPLETED, REJECTED or FAILED
+  amountCents: number;
+  currency: string;
+  locationId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Square payments: Every Square payment seen (webhook or reconciler) and
+ * what it was matched to
+ */
+export interface SquarePaymentRecord extends SquarePaymentDetails {
+  matchStatus: SquarePaymentMatchStatus;
+  jobId?: string; // MATCHED
+  matchedBy?: PaymentMatchMethod;
+  matchedAt?: string;
+  matchedByUser?: UserAudit; // MANUAL matches
+  ignoredReason?: string; // IGNORED
+  ignoredBy?: UserAudit; // Dismissed by a manager
+  receivedAt: string; // First seen by the app
 }
 
 /**
@@ -267,6 +777,55 @@ export interface CustomerCached {
   cachedAt?: string;
 }
 
+/**
+ * Vehicle profiles: A customer who has brought this car in
+ */
+export interface VehicleCustomer {
+  customerId?: string; // Square customer ID (missing for walk-ins without one)
+  name: string;
+  phone?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Customer flags: Tags and preferences techs must know about a customer
+ * (e.g. "VIP", "No tire shine"), managed by managers
+ */
+export interface CustomerFlags {
+  customerId: string; // Square customer ID
+  tags: string[];
+  preferences?: string; // Free-form notes, e.g. "Fragrance allergy: no air freshener"
+  updatedAt: string;
+  updatedBy: UserAudit;
+}
+
+/**
+ * Customer flags: Copy kept on each job so cards and the job page show them
+ * without another lookup
+ */
+export type JobCustomerFlags = Pick<CustomerFlags, 'tags' | 'preferences'>;
+
+/**
+ * Vehicle profiles: One record per car, matched by VIN or normalized plate
+ * whenever vehicle info is saved on a job
+ */
+export interface Vehicle {
+  vehicleId: string;
+  plateNorm?: string; // Normalized license plate (plateNorm index key)
+  licensePlate?: string; // As last entered by staff
+  vin?: string; // Normalized VIN (vin index key)
+  make?: string;
+  model?: string;
+  year?: number;
+  color?: string;
+  customers: VehicleCustomer[]; // Most recently seen first
+  notes?: string; // Staff notes about the car itself
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: UserAudit;
+}
+
 /**
  * Job record (DynamoDB schema with Phase 3 enhancements)
  */
@@ -282,18 +841,33 @@ export interface Job {
     year?: number;
     color?: string;
     licensePlate?: string;
+    vin?: string;
   };
+  vehicleId?: string; // Vehicle profile, linked when vehicle info is saved
   serviceType: string;
   status: WorkStatus; // Phase B: Use WorkStatus instead of JobStatus
   workStatus?: WorkStatus; // Phase 3: Alias for status (for backward compatibility)
+  stageId?: string; // Current pipeline stage (only differs from status for custom stages)
   bookingId?: string; // Square booking ID
   orderId?: string; // Square Order ID (for add-ons)
+  addons?: JobAddon[]; // Booked add-ons (notes still carry them as text for Square)
+  discounts?: JobDiscount[]; // Manager-applied discounts, oldest first
   appointmentTime?: string;
+  boardDate?: string; // YYYY-MM-DD of appointmentTime in location timezone (boardDate index key)
+  plateNorm?: string; // Normalized license plate (plateNorm index key)
   photos?: string[]; // S3 keys (legacy)
   photosMeta?: PhotoMeta[]; // Phase 3: Enhanced photo metadata
+  checkinInspection?: CheckinInspection; // Walk-around photos + damage map (required before IN_PROGRESS)
+  scheduledDurationMinutes?: number; // Booked duration from Square appointment segments
+  workTimer?: WorkTimer; // Labor time tracking (starts on IN_PROGRESS)
+  qcRejections?: QcRejection[]; // QC reject history, oldest first
+  qcRejectCount?: number; // qcRejections.length (kept for list views)
+  assignedTo?: JobAssignee[]; // Techs on the job (synced with Square booking team members)
+  bay?: JobBay; // Bay the job is booked into
   notes?: string;
   createdAt: string;
   updatedAt: string;
+  version?: number; // Optimistic locking: incremented on every write (missing = 0 for legacy jobs)
   createdBy?: string;
   updatedBy?: string | UserAudit; // Phase 3: Enhanced with UserAudit
   // Phase 3: Additional fields
@@ -302,11 +876,24 @@ export interface Job {
     qc?: ChecklistItem[];
   };
   customerCached?: CustomerCached;
-  postCompletionIssue?: PostCompletionIssue;
+  customerFlags?: JobCustomerFlags; // Copied from the customer's flags (kept in sync on upcoming jobs)
+  postCompletionIssue?: PostCompletionIssue; // Legacy single issue (superseded by issues)
+  issues?: JobIssue[]; // Post-completion issues, oldest first
+  openIssueCount?: number; // Issues not yet RESOLVED (kept for list views and the issue queue)
+  activeKey?: string; // Set only while checked in and unfinished (sparse active job index key)
+  openIssueKey?: string; // Set only while openIssueCount > 0 (sparse open issue index key)
+  pendingRefundKey?: string; // Set only while a refund is PENDING (sparse pending refund index key)
+  redoOfJobId?: string; // Redo jobs: the job this one redoes (zero-priced, left out of revenue)
+  parentJobId?: string; // Redo jobs: the first job in the redo chain
+  redoIssueId?: string; // Redo jobs: issue on redoOfJobId that asked for it
+  redoJobIds?: string[]; // Redos scheduled for this job, oldest first
   statusHistory?: StatusHistoryEntry[];
   // Payment toggle: Payment and receipt photos
   payment?: Payment;
-  receiptPhotos?: ReceiptPhoto[];
+  paymentEntries?: PaymentEntry[]; // Payment ledger, oldest first
+  refunds?: RefundEntry[]; // Refunds against paymentEntries, oldest first
+  priceBreakdown?: PriceBreakdown; // How the booked amount was reached (payment.amountCents may be edited since)
+  receiptPhotos?: ReceiptPhoto[]; // Legacy: receipts from before the payment ledger (now on entries)
   // Phase 5: No-show tracking
   noShow?: NoShowStatus;
   // SMS notifications: Completion SMS tracking
@@ -440,6 +1027,31 @@ export interface SquareBookingWebhook extends SquareWebhookEvent {
   };
 }
 
+/**
+ * Square payment webhook payload
+ */
+export interface SquarePaymentWebhook extends SquareWebhookEvent {
+  type: 'payment.created' | 'payment.updated';
+  data: {
+    type: 'payment';
+    id: string;
+    object: {
+      payment: any; // Square Payment object
+    };
+  };
+}
+
+export interface SquareRefundWebhook extends SquareWebhookEvent {
+  type: 'refund.created' | 'refund.updated';
+  data: {
+    type: 'refund';
+    id: string;
+    object: {
+      refund: any; // Square PaymentRefund object
+    };
+  };
+}
+
 /**
  * Phase 3: API Request/Response Types
  */
@@ -449,6 +1061,7 @@ export interface SquareBookingWebhook extends SquareWebhookEvent {
  */
 export interface UpdateJobRequest {
   workStatus?: WorkStatus;
+  stageId?: string; // Target pipeline stage; needed for custom stages (workStatus is derived from it)
   checklist?: {
     tech?: ChecklistItem[];
     qc?: ChecklistItem[];
@@ -456,23 +1069,24 @@ export interface UpdateJobRequest {
   notes?: string;
   vehicleInfo?: Job['vehicleInfo'];
   serviceType?: string;
-  addonNames?: string[]; // Add-on names to update (formatted into notes)
-  openPostCompletionIssue?: {
-    type: PostCompletionIssue['type'];
-    notes?: string;
-  };
-  resolvePostCompletionIssue?: boolean;
+  addonVariationIds?: string[]; // Add-ons to book (catalog variation IDs; also formatted into notes)
+  addons?: JobAddon[]; // Set by the server from addonVariationIds (ignored from clients)
+  priceBreakdown?: PriceBreakdown; // Set by the server when add-ons are repriced (ignored from clients)
   payment?: {
     status: PaymentStatus;
     amountCents?: number; // Can be recalculated when add-ons change
-    unpaidReason?: string;
+    unpaidReason?: string; // Voids the job's payment entries
     unpaidNote?: string;
   };
   noShow?: {
     status: 'NO_SHOW' | 'RESOLVED';
-    reason?: 'NO_ARRIVAL' | 'LATE_CANCEL' | 'UNREACHABLE' | 'OTHER';
+    reason?: NoShowReason;
     notes?: string;
   };
+  checklistOverride?: {
+    reason: string; // MANAGER only: advance past unchecked required checklist items
+  };
+  expectedVersion?: number; // Job version the client last saw; mismatch returns 409 VERSION_CONFLICT
 }
 
 /**
@@ -489,6 +1103,7 @@ export enum NotificationType {
   CHECKLIST_UPDATED = 'CHECKLIST_UPDATED',
   ADDONS_UPDATED = 'ADDONS_UPDATED',
   PAYMENT_STATUS_CHANGED = 'PAYMENT_STATUS_CHANGED',
+  QC_REJECTED = 'QC_REJECTED',
 }
 
 /**
@@ -529,6 +1144,7 @@ export interface PresignPhotoRequest {
     filename: string;
     contentType: string;
     category?: PhotoMeta['category'];
+    angle?: InspectionAngle;
   }>;
 }
 
@@ -553,9 +1169,476 @@ export interface CommitPhotosRequest {
     publicUrl: string;
     contentType: string;
     category?: PhotoMeta['category'];
+    angle?: InspectionAngle;
+  }>;
+}
+
+/**
+ * Check-in inspection: PUT /api/jobs/[jobId]/inspection (damage pins and notes)
+ */
+export interface UpdateInspectionRequest {
+  damagePins?: Array<Pick<DamagePin, 'x' | 'y' | 'note' | 'photoId'> & { pinId?: string }>;
+  notes?: string;
+}
+
+export interface InspectionResponse {
+  inspection: CheckinInspection;
+  missingAngles: InspectionAngle[];
+}
+
+/**
+ * QC reject: POST /api/jobs/[jobId]/qc/reject
+ */
+export interface RejectQcRequest {
+  reason: string;
+  failedItemIds: string[]; // QC checklist item ids
+  photoIds?: string[]; // Already committed through the photo routes
+}
+
+export interface RejectQcResponse {
+  job: Job;
+  rejection: QcRejection;
+}
+
+/**
+ * Assignment: PUT /api/jobs/[jobId]/assignment (replaces the assignees)
+ */
+export interface AssignJobRequest {
+  userIds: string[]; // Empty to unassign
+}
+
+export interface AssignJobResponse {
+  job: Job;
+  squareSynced: boolean; // Whether the booking's team member was updated in Square
+}
+
+/**
+ * PATCH /api/manager/users/[userId] (only the fields sent are changed)
+ */
+export interface UpdateUserRequest {
+  squareTeamMemberId?: string | null; // null clears the mapping
+  skills?: string[];
+  shifts?: TechShift[];
+}
+
+/**
+ * Dispatch: GET /api/manager/dispatch?boardDate=YYYY-MM-DD
+ */
+export type DispatchSkipReason = 'NO_SKILLED_TECH' | 'NO_TECH_ON_SHIFT' | 'ALL_TECHS_BUSY';
+
+export interface DispatchProposal {
+  jobId: string;
+  customerName: string;
+  serviceType: string;
+  appointmentTime?: string;
+  durationMinutes: number; // Booked duration, or the default when unknown
+  requiredSkills: string[];
+  userId?: string; // Proposed tech (missing when no one fits)
+  name?: string;
+  reason?: DispatchSkipReason; // Why no tech was proposed
+}
+
+export interface DispatchTechLoad {
+  userId: string;
+  name: string;
+  skills: string[];
+  assignedMinutes: number; // Jobs already assigned on the board date
+  proposedMinutes: number; // Added by this plan
+  jobCount: number; // Assigned + proposed
+}
+
+export interface DispatchPlanResponse {
+  boardDate: string;
+  generatedAt: string;
+  proposals: DispatchProposal[]; // Unassigned SCHEDULED jobs, by appointment time
+  techs: DispatchTechLoad[];
+}
+
+/**
+ * Dispatch: POST /api/manager/dispatch (accept a plan, as proposed or tweaked)
+ */
+export interface ApplyDispatchRequest {
+  assignments: Array<{ jobId: string; userId: string }>;
+}
+
+export interface ApplyDispatchResponse {
+  jobs: Job[]; // Assigned jobs
+  failed: Array<{ jobId: string; message: string }>;
+}
+
+/**
+ * Bays: GET/PUT /api/bays (PUT replaces the whole list)
+ */
+export interface ListBaysResponse {
+  bays: Bay[];
+}
+
+export interface UpdateBaysRequest {
+  bays: Array<{
+    bayId?: string; // Omit for a new bay
+    name: string;
+    capabilities?: string[];
+    isActive?: boolean; // Defaults to true
   }>;
 }
 
+/**
+ * No-show fees: GET/PUT /api/no-show-policy (GET returns the default until one is saved)
+ */
+export interface NoShowPolicyResponse {
+  policy: NoShowPolicy;
+}
+
+export interface UpdateNoShowPolicyRequest {
+  feeType: 'FLAT' | 'PERCENT';
+  flatFeeCents?: number;
+  percent?: number;
+  minFeeCents?: number | null; // Omit or null for no floor / cap
+  maxFeeCents?: number | null;
+  waivedReasons?: NoShowReason[];
+}
+
+/**
+ * Pricing: GET/PUT /api/tax-config (GET returns the default until one is saved)
+ */
+export interface TaxConfigResponse {
+  config: TaxConfig;
+}
+
+export interface UpdateTaxConfigRequest {
+  defaultRatePercent: number;
+  locations?: LocationTaxRate[]; // Replaces the whole list
+}
+
+/**
+ * No-show fees: POST /api/jobs/[jobId]/no-show/charge (charge or retry)
+ */
+export interface ChargeNoShowResponse {
+  job: Job;
+  attempt: NoShowChargeAttempt;
+}
+
+/**
+ * Bays: PUT /api/jobs/[jobId]/bay
+ */
+export interface AssignBayRequest {
+  bayId: string | null; // null clears the bay
+}
+
+/**
+ * Bays: Whether a slot fits in the bays that can take the service
+ */
+export interface BayCapacityCheck {
+  configured: boolean; // False when the shop has no bays set up (nothing is checked)
+  capacity: number; // Active bays that can take the service
+  booked: number; // Most jobs already holding those bays at once during the slot
+  available: boolean; // booked < capacity
+  warning?: string;
+}
+
+/**
+ * Bays: GET /api/bays/occupancy?boardDate=YYYY-MM-DD (hours in the shop's timezone)
+ */
+export interface BayOccupancyHour {
+  hour: number; // 0-23
+  bays: Array<{ bayId: string; jobIds: string[] }>; // Jobs booked into each bay during the hour
+  unassignedJobIds: string[]; // Jobs in the hour with no bay yet
+  capacity: number; // Active bays
+}
+
+export interface BayOccupancyResponse {
+  boardDate: string;
+  bays: Bay[]; // Active bays, in order
+  jobs: Array<Pick<Job, 'jobId' | 'customerName' | 'serviceType' | 'appointmentTime' | 'status'>>;
+  hours: BayOccupancyHour[];
+}
+
+/**
+ * Issues: POST /api/jobs/[jobId]/issues
+ */
+export interface OpenIssueRequest {
+  type: PostCompletionIssueType;
+  notes?: string;
+  assigneeUserId?: string;
+  photoIds?: string[]; // Already committed through the photo routes
+}
+
+/**
+ * Issues: PATCH /api/jobs/[jobId]/issues/[issueId] (omitted fields are kept)
+ */
+export interface UpdateIssueRequest {
+  status?: IssueStatus;
+  outcome?: IssueOutcome; // Required when resolving
+  resolutionNotes?: string;
+  assigneeUserId?: string | null; // null unassigns
+  photoIds?: string[]; // Replaces the issue's photos
+}
+
+/**
+ * Issues: POST /api/jobs/[jobId]/issues/[issueId]/comments
+ */
+export interface AddIssueCommentRequest {
+  body: string;
+  parentCommentId?: string; // Reply to this comment
+}
+
+export interface JobIssueResponse {
+  job: Job;
+  issue: JobIssue;
+}
+
+/**
+ * Issues: GET /api/manager/issues - Unresolved issues across all jobs
+ */
+export interface OpenIssueSummary {
+  jobId: string;
+  customerName: string;
+  serviceType: string;
+  vehicleInfo?: Job['vehicleInfo'];
+  appointmentTime?: string;
+  issue: JobIssue;
+}
+
+/**
+ * Redo jobs: POST /api/jobs/[jobId]/issues/[issueId]/redo
+ */
+export interface ScheduleRedoRequest {
+  appointmentTime: string; // ISO start time
+  durationMinutes?: number; // Defaults to the original's booked duration
+  failedItemIds?: string[]; // Original QC checklist items to redo (defaults to every QC failure)
+  createSquareBooking?: boolean; // Also book the slot in Square (same service as the original booking)
+  notes?: string;
+}
+
+export interface ScheduleRedoResponse {
+  job: Job; // The original, now linked to the redo
+  issue: JobIssue;
+  redoJob: Job;
+}
+
+export interface OpenIssuesResponse {
+  issues: OpenIssueSummary[]; // Oldest first
+}
+
+/**
+ * Work timer: POST /api/jobs/[jobId]/timer
+ */
+export interface UpdateWorkTimerRequest {
+  action: 'pause' | 'resume';
+  reason?: string; // Pause reason
+}
+
+export interface WorkTimerResponse {
+  timer: WorkTimer | null;
+  elapsedMinutes: number; // Net labor including the running segment
+  scheduledMinutes?: number;
+  overrunMinutes?: number; // Negative when under the booked duration
+}
+
+/**
+ * Work timer: GET /api/manager/labor actual vs scheduled duration per service
+ */
+export interface ServiceLaborSummary {
+  serviceType: string;
+  jobCount: number; // Jobs with a stopped timer
+  avgActualMinutes: number;
+  comparedCount: number; // Of those, jobs with a booked duration
+  avgScheduledMinutes?: number;
+  avgOverrunMinutes?: number;
+  overrunCount: number; // Jobs that took longer than booked
+  overrunRate?: number; // overrunCount / comparedCount (0-1)
+}
+
+export interface LaborReportResponse {
+  from: string; // YYYY-MM-DD board dates, inclusive
+  to: string;
+  services: ServiceLaborSummary[]; // Worst average overrun first
+  techs: Array<TechLabor & { jobCount: number }>;
+}
+
+/**
+ * Redo jobs: GET /api/manager/performance revenue and quality per service.
+ * Redo jobs are zero-priced follow-ups, so they are left out of revenue and
+ * counted against the service they redo.
+ */
+export interface ServicePerformanceSummary {
+  serviceType: string;
+  jobCount: number; // Non-redo, non-cancelled jobs
+  completedCount: number; // Of those, WORK_COMPLETED
+  bookedCents: number; // Sum of payment.amountCents
+  collectedCents: number; // Of that, paid so far (payment ledger, part payments included), less refunds
+  refundedCents: number; // Refunded to customers (already taken out of collectedCents)
+  discountCents: number; // Taken off bookedCents by discounts
+  tipCents: number; // Tips on those payments (not in collectedCents)
+  redoCount: number; // Redo jobs booked in the range
+  redoRate?: number; // redoCount / completedCount (0-1)
+  qcRejectCount: number; // QC rejections, redo jobs included
+  issueCount: number; // Post-completion issues opened, redo jobs included
+}
+
+export interface PerformanceReportResponse {
+  from: string; // YYYY-MM-DD board dates, inclusive
+  to: string;
+  totals: Omit<ServicePerformanceSummary, 'serviceType'>;
+  services: ServicePerformanceSummary[]; // Highest booked revenue first
+}
+
+/**
+ * Vehicle profiles: PATCH /api/vehicles/[vehicleId] request
+ * (plate and VIN come from jobs, so only details and notes are editable)
+ */
+export interface UpdateVehicleRequest {
+  make?: string;
+  model?: string;
+  year?: number;
+  color?: string;
+  notes?: string;
+}
+
+/**
+ * Vehicle profiles: One past visit on the vehicle page
+ */
+export type VehicleJobSummary = Pick<
+  Job,
+  | 'jobId'
+  | 'customerName'
+  | 'serviceType'
+  | 'status'
+  | 'appointmentTime'
+  | 'notes'
+  | 'photosMeta'
+  | 'issues'
+  | 'postCompletionIssue'
+  | 'redoOfJobId'
+>;
+
+/**
+ * Vehicle profiles: GET /api/vehicles/[vehicleId] response
+ */
+export interface VehicleHistoryResponse {
+  vehicle: Vehicle;
+  jobs: VehicleJobSummary[]; // Newest appointment first
+}
+
+/**
+ * Customer profiles: One of the customer's jobs
+ */
+export type CustomerJobSummary = Pick<
+  Job,
+  | 'jobId'
+  | 'serviceType'
+  | 'status'
+  | 'appointmentTime'
+  | 'payment'
+  | 'vehicleInfo'
+  | 'vehicleId'
+  | 'redoOfJobId'
+> & {
+  openIssueCount: number;
+};
+
+/**
+ * Customer profiles: A car the customer has brought in
+ */
+export interface CustomerVehicleSummary {
+  vehicleId?: string; // Missing for jobs saved before vehicle profiles
+  description: string; // e.g. "2020 Honda Civic (Blue)"
+  licensePlate?: string;
+  visitCount: number;
+  lastVisitAt?: string;
+}
+
+/**
+ * Customer profiles: Lifetime totals (cancelled jobs and redos are not visits)
+ */
+export interface CustomerStats {
+  visitCount: number; // Completed jobs
+  upcomingCount: number; // Jobs not yet completed, no-show or cancelled
+  cancelledCount: number;
+  noShowCount: number;
+  totalSpendCents: number; // Payments on jobs (less refunds) plus collected no-show fees
+  firstVisitAt?: string;
+  lastVisitAt?: string;
+  averageDaysBetweenVisits?: number; // Needs at least two visits
+  openIssueCount: number;
+}
+
+/**
+ * Customer profiles: GET /api/customers/[customerId] response
+ */
+export interface CustomerProfileResponse {
+  customer: CustomerCached; // Refreshed from Square when available
+  contactSource: 'SQUARE' | 'JOBS'; // JOBS when Square could not be reached
+  stats: CustomerStats;
+  vehicles: CustomerVehicleSummary[]; // Most recent first
+  jobs: CustomerJobSummary[]; // Newest appointment first
+  openIssues: OpenIssueSummary[]; // Oldest first
+  flags?: CustomerFlags; // Missing until a manager adds some
+}
+
+/**
+ * Customer flags: PUT /api/customers/[customerId]/flags
+ */
+export interface UpdateCustomerFlagsRequest {
+  tags: string[];
+  preferences?: string;
+}
+
+export interface UpdateCustomerFlagsResponse {
+  flags: CustomerFlags;
+  updatedJobCount: number; // Upcoming jobs the flags were copied to
+}
+
+/**
+ * Square payments: A job a manager might match an unmatched payment to
+ */
+export type PaymentMatchCandidate = Pick<Job, 'jobId' | 'customerName' | 'serviceType' | 'appointmentTime' | 'status' | 'vehicleInfo'> & {
+  amountCents?: number; // Expected amount
+};
+
+/**
+ * Square payments: GET /api/manager/payments
+ */
+export interface UnmatchedPaymentsResponse {
+  payments: Array<{
+    payment: SquarePaymentRecord;
+    candidates: PaymentMatchCandidate[]; // Unpaid jobs that day, likeliest first
+  }>;
+}
+
+/**
+ * Square payments: POST /api/manager/payments/[paymentId]/match
+ */
+export interface MatchPaymentRequest {
+  jobId: string;
+}
+
+/**
+ * Square payments: POST /api/manager/payments/[paymentId]/ignore
+ */
+export interface IgnorePaymentRequest {
+  reason: string;
+}
+
+export interface PaymentActionResponse {
+  payment: SquarePaymentRecord;
+  job?: Job; // Set for matches
+}
+
+/**
+ * Customer profiles: GET /api/customers?q= result (phone, email or plate)
+ */
+export interface CustomerSearchResult {
+  customerId: string;
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface CustomerSearchResponse {
+  customers: CustomerSearchResult[];
+}
+
 /**
  * Payment toggle: POST /api/jobs/[jobId]/receipts/presign request/response
  */
@@ -580,6 +1663,7 @@ export interface PresignReceiptResponse {
  * Payment toggle: POST /api/jobs/[jobId]/receipts/commit request
  */
 export interface CommitReceiptsRequest {
+  entryId: string; // Payment ledger entry the receipts are for
   photos: Array<{
     photoId: string;
     s3Key: string;
@@ -609,7 +1693,7 @@ export interface CreateManagerBookingRequest {
     serviceVariationId?: string;
     serviceVariationVersion?: number;
     durationMinutes: number;
-    amountCents?: number; // Total amount including tax in cents
+    priceCents?: number; // Service price before tax (the manager may change the catalog price)
   };
   appointmentTime: {
     startAt: string; // ISO timestamp
@@ -699,6 +1783,28 @@ export interface ReorderTemplateItemsResponse {
   template: ChecklistTemplate;
 }
 
+/**
+ * GET/PUT /api/services/{serviceType}/workflow - Service pipeline
+ */
+export interface GetWorkflowResponse {
+  workflow: ServiceWorkflow;
+  isDefault: boolean; // No pipeline saved yet; this is the standard one
+}
+
+export interface UpdateWorkflowRequest {
+  stages: WorkflowStage[];
+  requiredSkills?: string[]; // Omit to keep the saved ones
+  bayCapabilities?: string[]; // Omit to keep the saved ones
+}
+
+/**
+ * GET /api/workflows - Every saved pipeline (board columns)
+ */
+export interface ListWorkflowsResponse {
+  workflows: ServiceWorkflow[];
+  defaultStages: WorkflowStage[];
+}
+
 /**
  * POST /api/jobs/{jobId}/initialize-checklists - Initialize checklists from templates
  */
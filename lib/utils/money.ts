@@ -0,0 +1,13 @@
+/**
+ * Money Utilities for Safari Detail Ops
+ *
+ * Amounts are kept as integer cents everywhere (jobs, payment ledgers,
+ * Square); these helpers turn them into what staff see.
+ */
+
+/**
+ * Format cents as dollars for display (e.g. 12345 -> "$123.45")
+ */
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
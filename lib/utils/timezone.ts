@@ -6,7 +6,7 @@
  */
 
 import { startOfDay, endOfDay, parseISO, isWithinInterval } from 'date-fns';
-import { toZonedTime, fromZonedTime } from 'date-fns-tz';
+import { toZonedTime, fromZonedTime, formatInTimeZone } from 'date-fns-tz';
 
 /**
  * Location timezone (configurable via environment variable)
@@ -94,6 +94,23 @@ export function getTodayInTimezone(): string {
   return localNow.toISOString().split('T')[0];
 }
 
+/**
+ * Get the board date (YYYY-MM-DD in the location timezone) a timestamp belongs to
+ * 
+ * Used as the partition key of the jobs boardDate-index so a day's board
+ * can be queried directly instead of scanning the table.
+ * 
+ * @param timestamp - ISO timestamp (UTC)
+ * @returns Date string in YYYY-MM-DD format in location timezone
+ * 
+ * Example:
+ * - timestamp: '2026-02-24T04:30:00.000Z' (11:30 PM EST on Feb 23)
+ * - Returns: '2026-02-23'
+ */
+export function getBoardDateForTimestamp(timestamp: string): string {
+  return formatInTimeZone(parseISO(timestamp), LOCATION_TIMEZONE, 'yyyy-MM-dd');
+}
+
 /**
  * Convert a UTC timestamp to a human-readable date/time in the location timezone
  * 
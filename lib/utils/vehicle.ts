@@ -0,0 +1,101 @@
+/**
+ * Vehicle Utilities for Safari Detail Ops
+ *
+ * Helpers for normalizing staff-entered vehicle details so the same car
+ * can be found again, and makes group together in reports, regardless of
+ * how they were typed.
+ */
+
+/**
+ * Normalize a license plate for indexing and searching
+ *
+ * Uppercases and strips spaces, dashes and any other non-alphanumerics.
+ *
+ * @param plate - Plate as entered by staff (e.g. "abc-1234", "ABC 1234")
+ * @returns Normalized plate (e.g. "ABC1234"), or undefined if nothing usable remains
+ */
+export function normalizePlate(plate: string | undefined | null): string | undefined {
+  if (!plate) {
+    return undefined;
+  }
+
+  const normalized = plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Normalize a VIN for indexing and matching
+ *
+ * Uppercases and strips spaces and dashes. Only 17-character VINs (no I, O
+ * or Q, per ISO 3779) are accepted, so a half-typed VIN never links two cars.
+ *
+ * @param vin - VIN as entered by staff
+ * @returns Normalized VIN, or undefined if it isn't a full VIN
+ */
+export function normalizeVin(vin: string | undefined | null): string | undefined {
+  if (!vin) {
+    return undefined;
+  }
+
+  const normalized = vin.toUpperCase().replace(/[\s-]/g, '');
+  return /^[A-HJ-NPR-Z0-9]{17}$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Makes as they should be stored, so reports group "Chevy" and "chevrolet"
+ * together. Makes not listed here are kept as typed.
+ */
+export const CANONICAL_MAKES = [
+  'Acura', 'Alfa Romeo', 'Aston Martin', 'Audi', 'Bentley', 'BMW', 'Buick',
+  'Cadillac', 'Chevrolet', 'Chrysler', 'Dodge', 'Ferrari', 'Fiat', 'Ford',
+  'Genesis', 'GMC', 'Honda', 'Hummer', 'Hyundai', 'Infiniti', 'Jaguar', 'Jeep',
+  'Kia', 'Lamborghini', 'Land Rover', 'Lexus', 'Lincoln', 'Lucid', 'Maserati',
+  'Mazda', 'Mercedes-Benz', 'Mercury', 'Mini', 'Mitsubishi', 'Nissan',
+  'Polestar', 'Pontiac', 'Porsche', 'Ram', 'Rivian', 'Rolls-Royce', 'Saturn',
+  'Scion', 'Smart', 'Subaru', 'Suzuki', 'Tesla', 'Toyota', 'Volkswagen', 'Volvo',
+] as const;
+
+/**
+ * Common nicknames and abbreviations, keyed like makeKey()
+ */
+const MAKE_ALIASES: Record<string, string> = {
+  alfa: 'Alfa Romeo',
+  benz: 'Mercedes-Benz',
+  caddy: 'Cadillac',
+  chev: 'Chevrolet',
+  chevy: 'Chevrolet',
+  dodgeram: 'Ram',
+  mb: 'Mercedes-Benz',
+  merc: 'Mercedes-Benz',
+  mercedes: 'Mercedes-Benz',
+  minicooper: 'Mini',
+  rangerover: 'Land Rover',
+  vdub: 'Volkswagen',
+  volks: 'Volkswagen',
+  vw: 'Volkswagen',
+};
+
+function makeKey(make: string): string {
+  return make.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const MAKE_LOOKUP = new Map<string, string>([
+  ...CANONICAL_MAKES.map(make => [makeKey(make), make] as [string, string]),
+  ...Object.entries(MAKE_ALIASES),
+]);
+
+/**
+ * Normalize a vehicle make to its canonical name
+ *
+ * @param make - Make as entered by staff (e.g. "chevy", "MERCEDES BENZ")
+ * @returns Canonical make (e.g. "Chevrolet", "Mercedes-Benz"), the trimmed
+ *   input for makes not in CANONICAL_MAKES, or undefined if blank
+ */
+export function normalizeMake(make: string | undefined | null): string | undefined {
+  const trimmed = make?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  return MAKE_LOOKUP.get(makeKey(trimmed)) ?? trimmed;
+}
@@ -0,0 +1,115 @@
+/**
+ * World Manufacturer Identifier (WMI) Table
+ *
+ * The first three VIN characters identify who built the car. This bundled
+ * table covers the makes we see in the shop; it is not exhaustive, so an
+ * unknown WMI just means make has to be typed by hand. Makes use the names
+ * in CANONICAL_MAKES.
+ */
+
+export interface WmiEntry {
+  manufacturer: string;
+  /** Omitted when the manufacturer uses the WMI for several makes */
+  make?: string;
+}
+
+const WMI_GROUPS: Array<[manufacturer: string, make: string | undefined, wmis: string[]]> = [
+  // Honda
+  ['Honda', 'Honda', ['1HG', '2HG', '3HG', '2HK', '5FN', '5J6', '7FA', '19X', 'JHM', 'SHH']],
+  ['Honda', 'Acura', ['19U', '2HN', '5J8', 'JH4']],
+
+  // Toyota
+  ['Toyota', 'Toyota', ['1NX', '2T1', '2T3', '3TM', '4T1', '4T3', '4T4', '5TB', '5TD', '5TF', 'JTD', 'JTE', 'JTM', 'JTN']],
+  ['Toyota', 'Lexus', ['2T2', '58A', 'JTH', 'JTJ']],
+
+  // Nissan
+  ['Nissan', 'Nissan', ['1N4', '1N6', '3N1', '3N6', '5N1', 'JN1', 'JN8']],
+  ['Nissan', 'Infiniti', ['5N3', 'JNK', 'JNR']],
+
+  // Ford
+  ['Ford', 'Ford', ['1FA', '1FB', '1FC', '1FD', '1FM', '1FT', '2FA', '2FM', '2FT', '3FA', '3FE', '3FM', '3FT', 'NM0', 'WF0']],
+  ['Ford', 'Lincoln', ['1LN', '2LM', '3LN', '5LM']],
+  ['Ford', 'Mercury', ['1ME', '2ME', '4M2']],
+
+  // General Motors
+  ['General Motors', 'Chevrolet', ['1G1', '1GC', '1GN', '2G1', '3G1', '3GC', '3GN', 'KL1']],
+  ['General Motors', 'GMC', ['1GK', '1GT', '2GT', '3GK', '3GT']],
+  ['General Motors', 'Buick', ['1G4', '2G4', '5GA', 'KL4']],
+  ['General Motors', 'Cadillac', ['1G6', '1GY', '3GY']],
+  ['General Motors', 'Pontiac', ['1G2']],
+  ['General Motors', 'Saturn', ['1G8']],
+  ['General Motors', 'Hummer', ['5GR']],
+
+  // Stellantis (1C4/2C3/2C4 are shared by Chrysler, Dodge and Jeep)
+  ['Stellantis', undefined, ['1C4', '2C3', '2C4']],
+  ['Stellantis', 'Chrysler', ['1C3']],
+  ['Stellantis', 'Dodge', ['1B3', '2B3', '1D7']],
+  ['Stellantis', 'Jeep', ['1J4', '1J8']],
+  ['Stellantis', 'Ram', ['1C6', '3C6', '3C7']],
+  ['Stellantis', 'Fiat', ['3C3', 'ZFA']],
+  ['Stellantis', 'Alfa Romeo', ['ZAR']],
+  ['Stellantis', 'Maserati', ['ZAM']],
+
+  // Hyundai Motor Group
+  ['Hyundai', 'Hyundai', ['5NM', '5NP', 'KM8', 'KMH']],
+  ['Hyundai', 'Genesis', ['KMT']],
+  ['Kia', 'Kia', ['3KP', '5XX', '5XY', 'KNA', 'KND']],
+
+  // Other Japanese makes
+  ['Subaru', 'Subaru', ['4S3', '4S4', 'JF1', 'JF2']],
+  ['Mazda', 'Mazda', ['1YV', '3MZ', 'JM1', 'JM3']],
+  ['Mitsubishi', 'Mitsubishi', ['4A3', '4A4', 'JA3', 'JA4', 'ML3']],
+  ['Suzuki', 'Suzuki', ['2S3', 'JS2', 'JS3']],
+
+  // German makes
+  ['Volkswagen', 'Volkswagen', ['1VW', '3VW', '9BW', 'WV1', 'WV2', 'WVG', 'WVW']],
+  ['Volkswagen', 'Audi', ['TRU', 'WA1', 'WAU', 'WUA']],
+  ['Volkswagen', 'Porsche', ['WP0', 'WP1']],
+  ['Volkswagen', 'Bentley', ['SCB']],
+  ['Volkswagen', 'Lamborghini', ['ZHW']],
+  ['BMW', 'BMW', ['4US', '5UX', '5YM', 'WBA', 'WBS', 'WBX', 'WBY']],
+  ['BMW', 'Mini', ['WMW']],
+  ['BMW', 'Rolls-Royce', ['SCA']],
+  ['Mercedes-Benz', 'Mercedes-Benz', ['4JG', '55S', 'W1K', 'W1N', 'WD3', 'WDB', 'WDC', 'WDD']],
+  ['Mercedes-Benz', 'Smart', ['WME']],
+
+  // Everyone else
+  ['Volvo', 'Volvo', ['7JR', 'LYV', 'YV1', 'YV4']],
+  ['Polestar', 'Polestar', ['LPS']],
+  ['Jaguar Land Rover', 'Jaguar', ['SAJ']],
+  ['Jaguar Land Rover', 'Land Rover', ['SAL']],
+  ['Aston Martin', 'Aston Martin', ['SCF']],
+  ['Ferrari', 'Ferrari', ['ZFF']],
+  ['Tesla', 'Tesla', ['5YJ', '7SA', 'LRW']],
+];
+
+export const WMI_TABLE: ReadonlyMap<string, WmiEntry> = new Map(
+  WMI_GROUPS.flatMap(([manufacturer, make, wmis]) =>
+    wmis.map(wmi => [wmi, make ? { manufacturer, make } : { manufacturer }] as [string, WmiEntry])
+  )
+);
+
+/**
+ * Manufacturer by the first two characters, for WMIs missing from the table
+ */
+export const WMI_PREFIX_MANUFACTURERS: Readonly<Record<string, string>> = {
+  '1C': 'Stellantis',
+  '1F': 'Ford',
+  '1G': 'General Motors',
+  '2C': 'Stellantis',
+  '2F': 'Ford',
+  '2G': 'General Motors',
+  '3C': 'Stellantis',
+  '3F': 'Ford',
+  '3G': 'General Motors',
+  JF: 'Subaru',
+  JH: 'Honda',
+  JM: 'Mazda',
+  JN: 'Nissan',
+  JT: 'Toyota',
+  KM: 'Hyundai',
+  KN: 'Kia',
+  WB: 'BMW',
+  WD: 'Mercedes-Benz',
+  WV: 'Volkswagen',
+};
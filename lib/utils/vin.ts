@@ -0,0 +1,132 @@
+/**
+ * Offline VIN Decoding
+ *
+ * Validates a VIN's check digit and decodes the model year and manufacturer
+ * from bundled tables (see vin-wmi.ts), so techs can fill in vehicle info
+ * from the VIN without any external lookup.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { normalizeVin } from './vehicle';
+import { WMI_PREFIX_MANUFACTURERS, WMI_TABLE } from './vin-wmi';
+
+export interface DecodedVin {
+  vin: string;
+  /** World Manufacturer Identifier (first three characters) */
+  wmi: string;
+  manufacturer?: string;
+  make?: string;
+  year?: number;
+}
+
+/**
+ * Letter values for the check digit (ISO 3779; I, O and Q are never used)
+ */
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Model year codes (position 10) for the 1980-2009 cycle; the same codes
+ * repeat every 30 years
+ */
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_CYCLE_START = 1980;
+
+/**
+ * The check digit (position 9) a VIN should have: '0'-'9' or 'X'
+ *
+ * @param vin - Normalized 17-character VIN
+ */
+export function calculateVinCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /[0-9]/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * Why a VIN is not valid, or undefined if it is
+ *
+ * Every vehicle sold in North America carries a check digit, so a mismatch
+ * almost always means a mistyped character.
+ */
+export function validateVin(vin: string): string | undefined {
+  const cleaned = vin.toUpperCase().replace(/[\s-]/g, '');
+
+  if (cleaned.length !== 17) {
+    return `VIN must be 17 characters (got ${cleaned.length})`;
+  }
+  if (/[IOQ]/.test(cleaned)) {
+    return 'VIN cannot contain the letters I, O or Q';
+  }
+  if (!/^[A-Z0-9]{17}$/.test(cleaned)) {
+    return 'VIN can only contain letters and numbers';
+  }
+  if (calculateVinCheckDigit(cleaned) !== cleaned[8]) {
+    return 'VIN check digit does not match; check for a mistyped character';
+  }
+
+  return undefined;
+}
+
+/**
+ * Model year from position 10
+ *
+ * The code repeats every 30 years. For North American cars and light
+ * trucks, a letter in position 7 means 2010 or later and a digit means
+ * before; years more than one year out are pushed back a cycle.
+ */
+function decodeModelYear(vin: string, now: Date): number | undefined {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const maxYear = now.getFullYear() + 1; // Next year's models go on sale early
+  let year = MODEL_YEAR_CYCLE_START + index;
+  while (year + 30 <= maxYear) {
+    year += 30;
+  }
+
+  if (/[0-9]/.test(vin[6]) && year >= 2010) {
+    year -= 30;
+  }
+
+  return year;
+}
+
+/**
+ * Decode year, manufacturer and make from a VIN
+ *
+ * @param vin - VIN as entered by staff
+ * @returns The decoded fields (make and manufacturer only when the WMI is
+ *   known), or null if the VIN is not valid
+ */
+export function decodeVin(vin: string | undefined | null, now: Date = new Date()): DecodedVin | null {
+  const normalized = normalizeVin(vin);
+  if (!normalized || validateVin(normalized)) {
+    return null;
+  }
+
+  const wmi = normalized.slice(0, 3);
+  const entry = WMI_TABLE.get(wmi);
+  const manufacturer = entry?.manufacturer ?? WMI_PREFIX_MANUFACTURERS[wmi.slice(0, 2)];
+  const year = decodeModelYear(normalized, now);
+
+  return {
+    vin: normalized,
+    wmi,
+    ...(manufacturer && { manufacturer }),
+    ...(entry?.make && { make: entry.make }),
+    ...(year && { year }),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Job Add-ons
+ *
+ * Add-ons are stored on the job as a typed list (catalog variation ID, name,
+ * quantity and unit price), so pricing follows the catalog item even if it's
+ * renamed in Square. Notes still carry an "ADD-ONS REQUESTED" section because
+ * that's how Square shows them; jobs booked before add-ons were stored fall
+ * back to reading that section.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { Job, JobAddon } from '../types';
+
+/**
+ * Add-on names listed in booking notes
+ * Format: "✅ ADD-ONS REQUESTED:\n• Addon 1\n• Addon 2"
+ */
+export function parseAddonNamesFromNotes(notes: string | undefined): string[] {
+  if (!notes) return [];
+
+  // Support both emoji and text variants
+  const addonsMatch = notes.match(/[✅✓]\s*ADD[-\s]ONS\s+REQUESTED:\s*([\s\S]*?)(?:\n\n|⚠️|$)/i);
+  if (!addonsMatch) return [];
+
+  return addonsMatch[1]
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('•') || line.startsWith('-') || line.startsWith('*'))
+    .map(line => line.substring(1).trim())
+    .filter(name => name);
+}
+
+/**
+ * Add-ons listed in booking notes, filled in from known add-ons with the same
+ * name (catalog add-ons or lines the job was already priced with)
+ */
+export function addonsFromNotes(notes: string | undefined, known: JobAddon[] = []): JobAddon[] {
+  return parseAddonNamesFromNotes(notes).map(name => {
+    const match = known.find(addon => addon.name.toLowerCase() === name.toLowerCase());
+    return match ? { ...match, name, quantity: 1 } : { name, quantity: 1 };
+  });
+}
+
+/**
+ * A job's add-ons, read from its notes if they were never stored
+ */
+export function getJobAddons(job: Pick<Job, 'addons' | 'notes'>): JobAddon[] {
+  return job.addons ?? addonsFromNotes(job.notes);
+}
+
+/**
+ * e.g. "Pet Hair Removal" or "Floor Mats × 4"
+ */
+export function formatAddonName(addon: JobAddon): string {
+  return addon.quantity > 1 ? `${addon.name} × ${addon.quantity}` : addon.name;
+}
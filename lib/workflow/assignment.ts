@@ -0,0 +1,144 @@
+/**
+ * Job Assignment Rules
+ *
+ * Managers assign jobs to one or more users. Users mapped to a Square team
+ * member stay in sync with the booking's appointment segments: assigning
+ * writes the team member to Square, and a booking whose team member changes
+ * in Square reassigns the job here.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { UserRole, type Job, type JobAssignee, type UserAudit } from '../types';
+
+/**
+ * Roles that can assign and reassign jobs
+ */
+export const ASSIGN_ROLES: UserRole[] = [UserRole.MANAGER];
+
+/**
+ * User fields an assignment is built from
+ */
+export interface AssignableUser {
+  userId: string;
+  name: string;
+  squareTeamMemberId?: string;
+}
+
+export function isAssignedTo(job: Pick<Job, 'assignedTo'>, userId: string): boolean {
+  return (job.assignedTo || []).some(assignee => assignee.userId === userId);
+}
+
+/**
+ * Whether two assignments cover the same users (order and timestamps ignored)
+ */
+export function isSameAssignment(a: JobAssignee[] = [], b: JobAssignee[] = []): boolean {
+  const ids = (assignees: JobAssignee[]) => assignees.map(assignee => assignee.userId).sort().join(',');
+  return ids(a) === ids(b);
+}
+
+/**
+ * Names for notifications and history ("Unassigned" when empty)
+ */
+export function formatAssignees(assignees: JobAssignee[] = []): string {
+  return assignees.map(assignee => assignee.name).join(', ') || 'Unassigned';
+}
+
+/**
+ * Manual assignment; users already on the job keep their original entry
+ */
+export function buildManualAssignment(
+  current: JobAssignee[] = [],
+  users: AssignableUser[],
+  assignedBy: UserAudit,
+  now: string = new Date().toISOString()
+): JobAssignee[] {
+  return users.map(user => {
+    const existing = current.find(assignee => assignee.userId === user.userId);
+    if (existing) {
+      return { ...existing, name: user.name, squareTeamMemberId: user.squareTeamMemberId };
+    }
+
+    return {
+      userId: user.userId,
+      name: user.name,
+      squareTeamMemberId: user.squareTeamMemberId,
+      assignedAt: now,
+      source: 'manual',
+      assignedBy,
+    };
+  });
+}
+
+/**
+ * Square team member to write to the booking: the first assignee mapped to one
+ */
+export function getPrimaryTeamMemberId(assignees: JobAssignee[] = []): string | undefined {
+  return assignees.find(assignee => assignee.squareTeamMemberId)?.squareTeamMemberId;
+}
+
+/**
+ * Assignment implied by the team members on a Square booking, or undefined
+ * if the job already matches them
+ *
+ * Square holds one team member per segment, so the booking matches when its
+ * team members are all assigned here and include the primary one. Team
+ * members no user is mapped to are ignored, and users assigned in the app
+ * without a mapping are kept.
+ */
+export function getAssignmentFromTeamMembers(
+  current: JobAssignee[] = [],
+  teamMemberIds: string[],
+  users: AssignableUser[],
+  now: string = new Date().toISOString()
+): JobAssignee[] | undefined {
+  const mappedUsers = Array.from(new Set(teamMemberIds))
+    .map(teamMemberId => users.find(user => user.squareTeamMemberId === teamMemberId))
+    .filter((user): user is AssignableUser => !!user);
+
+  if (mappedUsers.length === 0) {
+    return undefined;
+  }
+
+  const primary = getPrimaryTeamMemberId(current);
+  const matches = mappedUsers.every(user => current.some(assignee => assignee.squareTeamMemberId === user.squareTeamMemberId))
+    && mappedUsers.some(user => user.squareTeamMemberId === primary);
+
+  if (matches) {
+    return undefined;
+  }
+
+  const synced: JobAssignee[] = mappedUsers.map(user => {
+    const existing = current.find(assignee => assignee.userId === user.userId);
+    return existing
+      ? { ...existing, squareTeamMemberId: user.squareTeamMemberId }
+      : { userId: user.userId, name: user.name, squareTeamMemberId: user.squareTeamMemberId, assignedAt: now, source: 'square' };
+  });
+  const unmapped = current.filter(assignee =>
+    !assignee.squareTeamMemberId && !synced.some(user => user.userId === assignee.userId)
+  );
+
+  return [...synced, ...unmapped];
+}
+
+export type AssignmentErrorCode = 'USER_NOT_FOUND' | 'TEAM_MEMBER_TAKEN';
+
+/**
+ * Thrown when an assignment or team member mapping is refused
+ */
+export class AssignmentError extends Error {
+  constructor(
+    public readonly code: AssignmentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AssignmentError';
+  }
+
+  /**
+   * 409 when the team member is mapped to someone else, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'TEAM_MEMBER_TAKEN' ? 409 : 400;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Bay Capacity Rules
+ *
+ * The shop has a fixed set of bays (wash bays, detail stations), each with
+ * capability tags. A service can require capabilities (from its workflow),
+ * and only bays with all of them can take it. A job holds a bay from its
+ * appointment time for its booked duration; jobs without a bay yet count
+ * against every bay that could take them, so overbooking shows up before
+ * anyone picks bays for the day.
+ */
+
+import { fromZonedTime } from 'date-fns-tz';
+import {
+  WorkStatus,
+  type Bay,
+  type BayCapacityCheck,
+  type BayOccupancyHour,
+  type Job,
+} from '../types';
+import { LOCATION_TIMEZONE } from '../utils/timezone';
+import { getJobDurationMinutes, normalizeSkills } from './dispatch';
+
+/**
+ * Hours the occupancy grid always covers (extended for jobs outside them)
+ */
+export const DEFAULT_OPEN_HOUR = 8;
+export const DEFAULT_CLOSE_HOUR = 18;
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Statuses that free the job's bay (the car never came or won't)
+ */
+const RELEASED_STATUSES: WorkStatus[] = [
+  WorkStatus.CANCELLED,
+  WorkStatus.NO_SHOW_PENDING_CHARGE,
+  WorkStatus.NO_SHOW_CHARGED,
+  WorkStatus.NO_SHOW_FAILED,
+];
+
+type BayJob = Pick<Job, 'jobId' | 'serviceType' | 'status' | 'appointmentTime' | 'scheduledDurationMinutes' | 'bay'>;
+
+interface Window {
+  start: number;
+  end: number;
+}
+
+/**
+ * Capabilities use the same tag format as tech skills ("Ceramic" -> "ceramic")
+ */
+export function normalizeCapabilities(capabilities: string[] = []): string[] {
+  return normalizeSkills(capabilities);
+}
+
+/**
+ * Validation errors for a bay list (empty when valid)
+ */
+export function validateBays(bays: Array<Pick<Bay, 'name'>>): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  bays.forEach((bay, index) => {
+    const name = (bay.name || '').trim().toLowerCase();
+    if (!name) {
+      errors.push(`Bay ${index + 1}: name is required.`);
+    } else if (names.has(name)) {
+      errors.push(`Bay ${index + 1}: "${bay.name.trim()}" is already used by another bay.`);
+    }
+    names.add(name);
+  });
+
+  return errors;
+}
+
+/**
+ * Whether a bay can take a service requiring these capabilities
+ */
+export function canBayTake(bay: Pick<Bay, 'capabilities'>, requiredCapabilities: string[] = []): boolean {
+  return normalizeCapabilities(requiredCapabilities).every(capability => bay.capabilities.includes(capability));
+}
+
+function holdsBay(job: BayJob): boolean {
+  return !!job.appointmentTime && !RELEASED_STATUSES.includes(job.status);
+}
+
+function getWindow(job: BayJob): Window {
+  const start = new Date(job.appointmentTime!).getTime();
+  return { start, end: start + getJobDurationMinutes(job) * MS_PER_MINUTE };
+}
+
+function overlaps(a: Window, b: Window): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Whether a new or moved booking fits in the bays that can take its service
+ *
+ * @param slot - Proposed start, duration and service (excludeJobId: the job being moved)
+ * @param jobs - Jobs around the slot (released ones are ignored)
+ * @param bays - The shop's bays (inactive ones are ignored)
+ * @param bayCapabilities - Required bay capabilities by service type
+ */
+export function checkBayCapacity(
+  slot: { startAt: string; durationMinutes: number; serviceType?: string; excludeJobId?: string },
+  jobs: BayJob[],
+  bays: Bay[],
+  bayCapabilities: Record<string, string[]> = {}
+): BayCapacityCheck {
+  const activeBays = bays.filter(bay => bay.isActive);
+  if (activeBays.length === 0) {
+    return { configured: false, capacity: 0, booked: 0, available: true };
+  }
+
+  const required = slot.serviceType ? bayCapabilities[slot.serviceType] : [];
+  const capable = activeBays.filter(bay => canBayTake(bay, required));
+  const capableIds = capable.map(bay => bay.bayId);
+  const start = new Date(slot.startAt).getTime();
+  const window: Window = { start, end: start + slot.durationMinutes * MS_PER_MINUTE };
+
+  // Jobs competing for the same bays: booked into one, or not yet placed but able to use one
+  const competing = jobs
+    .filter(job => job.jobId !== slot.excludeJobId && holdsBay(job))
+    .filter(job => job.bay
+      ? capableIds.includes(job.bay.bayId)
+      : capable.some(bay => canBayTake(bay, bayCapabilities[job.serviceType])))
+    .map(getWindow)
+    .filter(jobWindow => overlaps(jobWindow, window));
+
+  // Most at once: concurrency only rises at a job's start (or the slot's own start)
+  const booked = Math.max(0, ...[window.start, ...competing.map(jobWindow => jobWindow.start)]
+    .filter(point => point >= window.start && point < window.end)
+    .map(point => competing.filter(jobWindow => jobWindow.start <= point && point < jobWindow.end).length));
+
+  const available = booked < capable.length;
+
+  return {
+    configured: true,
+    capacity: capable.length,
+    booked,
+    available,
+    ...(!available && {
+      warning: capable.length === 0
+        ? `No active bay can take ${slot.serviceType} (needs ${required.join(', ')}).`
+        : `All ${capable.length} bay${capable.length === 1 ? '' : 's'} that can take this service ${capable.length === 1 ? 'is' : 'are'} booked at this time.`,
+    }),
+  };
+}
+
+/**
+ * Hour-by-hour bay usage for a board date in the shop's timezone
+ *
+ * @param jobs - The board date's jobs (released ones are ignored)
+ * @param bays - The shop's bays (inactive ones are left out)
+ */
+export function getBayOccupancy(boardDate: string, jobs: BayJob[], bays: Bay[]): BayOccupancyHour[] {
+  const activeBays = bays.filter(bay => bay.isActive);
+  const dayStart = fromZonedTime(`${boardDate}T00:00:00`, LOCATION_TIMEZONE).getTime();
+  const booked = jobs.filter(holdsBay).map(job => ({ job, window: getWindow(job) }));
+
+  const toHour = (time: number) => (time - dayStart) / MS_PER_HOUR;
+  const firstHour = Math.max(0, Math.min(DEFAULT_OPEN_HOUR, ...booked.map(({ window }) => Math.floor(toHour(window.start)))));
+  const lastHour = Math.min(24, Math.max(DEFAULT_CLOSE_HOUR, ...booked.map(({ window }) => Math.ceil(toHour(window.end)))));
+
+  const hours: BayOccupancyHour[] = [];
+  for (let hour = firstHour; hour < lastHour; hour++) {
+    const window: Window = { start: dayStart + hour * MS_PER_HOUR, end: dayStart + (hour + 1) * MS_PER_HOUR };
+    const inHour = booked.filter(entry => overlaps(entry.window, window)).map(({ job }) => job);
+
+    hours.push({
+      hour,
+      bays: activeBays.map(bay => ({
+        bayId: bay.bayId,
+        jobIds: inHour.filter(job => job.bay?.bayId === bay.bayId).map(job => job.jobId),
+      })),
+      unassignedJobIds: inHour
+        .filter(job => !job.bay || !activeBays.some(bay => bay.bayId === job.bay!.bayId))
+        .map(job => job.jobId),
+      capacity: activeBays.length,
+    });
+  }
+
+  return hours;
+}
+
+export type BayErrorCode = 'INVALID_BAYS' | 'BAY_NOT_FOUND' | 'BAY_NOT_CAPABLE';
+
+/**
+ * Thrown when a bay list or a job's bay is refused
+ */
+export class BayError extends Error {
+  constructor(
+    public readonly code: BayErrorCode,
+    message: string,
+    public readonly errors: string[] = [message]
+  ) {
+    super(message);
+    this.name = 'BayError';
+  }
+
+  /**
+   * 409 when the bay can't take the job's service, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'BAY_NOT_CAPABLE' ? 409 : 400;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Customer Flag Rules
+ *
+ * Tags and preference notes techs must see before touching a customer's car
+ * ("No tire shine", "Fragrance allergy") or that call for a heads-up
+ * ("VIP", "Previous damage claim"). Managers set them on the customer;
+ * every upcoming job carries a copy.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { UserRole, WorkStatus, type Job, type JobCustomerFlags, type UpdateCustomerFlagsRequest } from '../types';
+
+/**
+ * Roles that can edit a customer's flags (everyone sees them)
+ */
+export const CUSTOMER_FLAG_ROLES: UserRole[] = [UserRole.MANAGER];
+
+/**
+ * Offered as one-tap choices; any other tag can be typed
+ */
+export const SUGGESTED_CUSTOMER_TAGS = [
+  'VIP',
+  'No tire shine',
+  'Fragrance allergy',
+  'Previous damage claim',
+  'Pet hair',
+  'Call on arrival',
+];
+
+/**
+ * Tags that warrant a heads-up rather than a preference (shown in red)
+ */
+const ALERT_TAGS = ['VIP', 'Previous damage claim'];
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 40;
+const MAX_PREFERENCES_LENGTH = 1000;
+
+/**
+ * Jobs that still get flag changes (finished jobs keep what techs saw)
+ */
+const FINISHED_STATUSES: WorkStatus[] = [
+  WorkStatus.WORK_COMPLETED,
+  WorkStatus.NO_SHOW_CHARGED,
+  WorkStatus.NO_SHOW_FAILED,
+  WorkStatus.CANCELLED,
+];
+
+export function isAlertTag(tag: string): boolean {
+  return ALERT_TAGS.some(alert => alert.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * Trimmed tags without blanks or case-insensitive duplicates, in order;
+ * suggested tags take their suggested spelling
+ */
+export function normalizeCustomerTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, ' ');
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+
+    seen.add(key);
+    normalized.push(SUGGESTED_CUSTOMER_TAGS.find(suggested => suggested.toLowerCase() === key) ?? trimmed);
+  }
+
+  return normalized;
+}
+
+/**
+ * Problems with a flags update (empty when valid)
+ */
+export function validateCustomerFlags(request: UpdateCustomerFlagsRequest): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(request.tags) || request.tags.some(tag => typeof tag !== 'string')) {
+    return ['tags must be a list of strings'];
+  }
+
+  const tags = normalizeCustomerTags(request.tags);
+  if (tags.length > MAX_TAGS) {
+    errors.push(`At most ${MAX_TAGS} tags`);
+  }
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    errors.push(`Tags must be ${MAX_TAG_LENGTH} characters or fewer ("${tooLong.slice(0, 20)}...")`);
+  }
+
+  if (request.preferences !== undefined) {
+    if (typeof request.preferences !== 'string') {
+      errors.push('preferences must be a string');
+    } else if (request.preferences.trim().length > MAX_PREFERENCES_LENGTH) {
+      errors.push(`Preferences must be ${MAX_PREFERENCES_LENGTH} characters or fewer`);
+    }
+  }
+
+  return errors;
+}
+
+export function hasCustomerFlags(flags: JobCustomerFlags | undefined): flags is JobCustomerFlags {
+  return !!flags && (flags.tags.length > 0 || !!flags.preferences);
+}
+
+/**
+ * Whether a job should pick up changes to its customer's flags
+ */
+export function isUpcomingJob(job: Pick<Job, 'status'>): boolean {
+  return !FINISHED_STATUSES.includes(job.status);
+}
+
+export type CustomerFlagsErrorCode = 'INVALID_FLAGS';
+
+/**
+ * Thrown when a flags update is refused
+ */
+export class CustomerFlagsError extends Error {
+  constructor(
+    public readonly code: CustomerFlagsErrorCode,
+    message: string,
+    public readonly errors: string[] = [message]
+  ) {
+    super(message);
+    this.name = 'CustomerFlagsError';
+  }
+
+  get httpStatus(): number {
+    return 400;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Discount Rules
+ *
+ * Managers take money off an unpaid job with a percent or fixed discount and
+ * a reason code (optionally a Square catalog discount, which is also applied
+ * to the job's Square order). Each discount becomes a DISCOUNT line on the
+ * job's itemized price, so the total is always recomputed the same way:
+ * percents are of the subtotal, discounts come off the taxed amount first,
+ * and discounts never take a job below zero.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { ApplyDiscountRequest, DiscountReason, Job, JobDiscount, PriceBreakdown, PriceLine } from '../types';
+import { formatCents } from '../utils/money';
+import { buildPriceBreakdown } from './pricing';
+
+export const DISCOUNT_REASONS: DiscountReason[] = [
+  'RETURNING_CUSTOMER',
+  'COMP',
+  'SERVICE_RECOVERY',
+  'PROMOTION',
+  'EMPLOYEE',
+  'OTHER',
+];
+
+export const DISCOUNT_REASON_LABELS: Record<DiscountReason, string> = {
+  RETURNING_CUSTOMER: 'Returning customer',
+  COMP: 'Comp',
+  SERVICE_RECOVERY: 'Service recovery',
+  PROMOTION: 'Promotion',
+  EMPLOYEE: 'Employee',
+  OTHER: 'Other',
+};
+
+function isCents(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validation errors for a discount (empty when valid)
+ */
+export function validateDiscount(request: ApplyDiscountRequest): string[] {
+  const errors: string[] = [];
+
+  if (request.type === 'PERCENT') {
+    if (typeof request.percent !== 'number' || !(request.percent > 0 && request.percent <= 100)) {
+      errors.push('percent must be more than 0 and at most 100.');
+    }
+  } else if (request.type === 'FIXED') {
+    if (!isCents(request.amountCents) || request.amountCents === 0) {
+      errors.push('amountCents must be a positive whole number of cents.');
+    }
+  } else {
+    errors.push('type must be PERCENT or FIXED.');
+  }
+
+  if (!DISCOUNT_REASONS.includes(request.reason)) {
+    errors.push(`reason must be one of: ${DISCOUNT_REASONS.join(', ')}.`);
+  }
+  if (request.reason === 'OTHER' && !request.note?.trim()) {
+    errors.push('A note is required when the reason is Other.');
+  }
+
+  return errors;
+}
+
+/**
+ * e.g. "Returning customer (10%)" or "Spring Promo ($15.00)"
+ */
+export function describeDiscount(discount: Pick<JobDiscount, 'type' | 'percent' | 'amountCents' | 'reason' | 'name'>): string {
+  const label = discount.name || DISCOUNT_REASON_LABELS[discount.reason] || discount.reason;
+  const value = discount.type === 'PERCENT'
+    ? `${Number((discount.percent ?? 0).toFixed(2))}%`
+    : formatCents(discount.amountCents ?? 0);
+  return `${label} (${value})`;
+}
+
+/**
+ * Amount a discount takes off a subtotal (never more than the subtotal)
+ */
+export function getDiscountAmountCents(discount: Pick<JobDiscount, 'type' | 'percent' | 'amountCents'>, subtotalCents: number): number {
+  const amountCents = discount.type === 'PERCENT'
+    ? Math.round(subtotalCents * (discount.percent ?? 0) / 100)
+    : discount.amountCents ?? 0;
+  return Math.min(amountCents, subtotalCents);
+}
+
+/**
+ * DISCOUNT lines for a job's discounts, taken off its service and add-on lines
+ */
+export function buildDiscountLines(discounts: JobDiscount[], charges: PriceLine[]): PriceLine[] {
+  const subtotalCents = charges.reduce((total, line) => total + line.amountCents, 0);
+  const taxable = charges.some(line => line.taxable);
+
+  return discounts.map(discount => ({
+    type: 'DISCOUNT',
+    name: describeDiscount(discount),
+    amountCents: -getDiscountAmountCents(discount, subtotalCents),
+    taxable,
+  }));
+}
+
+/**
+ * The itemized price a job's discounts come off. Jobs priced before prices
+ * were itemized get a single untaxed line for their amount due, which
+ * already includes tax.
+ */
+export function getDiscountableBreakdown(job: Pick<Job, 'serviceType' | 'payment' | 'priceBreakdown'>): PriceBreakdown | undefined {
+  if (job.priceBreakdown) return job.priceBreakdown;
+  if (!job.payment?.amountCents) return undefined;
+
+  return buildPriceBreakdown(
+    [{ type: 'SERVICE', name: job.serviceType, amountCents: job.payment.amountCents, taxable: false }],
+    0
+  );
+}
+
+/**
+ * Reprice a breakdown with a new set of discounts (same lines, rate and location)
+ */
+export function applyDiscountsToBreakdown(breakdown: PriceBreakdown, discounts: JobDiscount[]): PriceBreakdown {
+  const charges = breakdown.lines.filter(line => line.type !== 'DISCOUNT');
+  return buildPriceBreakdown(
+    [...charges, ...buildDiscountLines(discounts, charges)],
+    breakdown.taxRatePercent,
+    breakdown.locationId
+  );
+}
+
+export type DiscountErrorCode =
+  | 'INVALID_DISCOUNT'
+  | 'NOT_PRICED'
+  | 'ALREADY_PAID'
+  | 'DISCOUNT_NOT_FOUND';
+
+/**
+ * Thrown when a discount can't be applied or removed
+ */
+export class DiscountError extends Error {
+  constructor(
+    public readonly code: DiscountErrorCode,
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'DiscountError';
+  }
+
+  /**
+   * 404 for an unknown discount, 409 once the job is paid, otherwise 400
+   */
+  get httpStatus(): number {
+    if (this.code === 'DISCOUNT_NOT_FOUND') return 404;
+    return this.code === 'ALREADY_PAID' ? 409 : 400;
+  }
+}
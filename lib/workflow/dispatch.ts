@@ -0,0 +1,214 @@
+/**
+ * Auto-Dispatch Rules
+ *
+ * Proposes a tech for each unassigned SCHEDULED job on a board date. A tech
+ * qualifies when they have every skill the service requires, are on shift
+ * for the whole booked duration and aren't already on an overlapping job.
+ * Among those, the least-loaded tech wins (ties go to the tech with fewer
+ * skills, keeping specialists free for the work only they can do).
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  UserRole,
+  WorkStatus,
+  type DispatchPlanResponse,
+  type DispatchProposal,
+  type DispatchSkipReason,
+  type DispatchTechLoad,
+  type Job,
+  type TechShift,
+} from '../types';
+import { LOCATION_TIMEZONE } from '../utils/timezone';
+
+/**
+ * Duration assumed for jobs without a booked duration
+ */
+export const DEFAULT_JOB_MINUTES = 60;
+
+const MS_PER_MINUTE = 60_000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * User fields dispatch works from
+ */
+export interface DispatchTech {
+  userId: string;
+  name: string;
+  role: UserRole;
+  skills?: string[];
+  shifts?: TechShift[];
+}
+
+interface Booking {
+  start: number;
+  end: number;
+}
+
+/**
+ * Skill tags are compared lowercased and hyphenated ("Ceramic Certified" -> "ceramic-certified")
+ */
+export function normalizeSkills(skills: string[] = []): string[] {
+  const normalized = skills
+    .map(skill => skill.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Validation errors for a weekly schedule (empty when valid)
+ */
+export function validateShifts(shifts: TechShift[]): string[] {
+  const errors: string[] = [];
+
+  shifts.forEach((shift, index) => {
+    if (!Number.isInteger(shift.day) || shift.day < 0 || shift.day > 6) {
+      errors.push(`Shift ${index + 1}: day must be 0 (Sunday) to 6 (Saturday).`);
+    }
+    if (!TIME_PATTERN.test(shift.start) || !TIME_PATTERN.test(shift.end)) {
+      errors.push(`Shift ${index + 1}: start and end must be HH:mm.`);
+    } else if (shift.start >= shift.end) {
+      errors.push(`Shift ${index + 1}: end must be after start.`);
+    }
+  });
+
+  return errors;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function getJobDurationMinutes(job: Pick<Job, 'scheduledDurationMinutes'>): number {
+  return job.scheduledDurationMinutes || DEFAULT_JOB_MINUTES;
+}
+
+/**
+ * Whether the tech works the whole of [start, start + duration); techs with
+ * no schedule set up are always available
+ */
+export function isOnShift(tech: Pick<DispatchTech, 'shifts'>, start: string, durationMinutes: number): boolean {
+  if (!tech.shifts || tech.shifts.length === 0) {
+    return true;
+  }
+
+  const date = new Date(start);
+  const day = Number(formatInTimeZone(date, LOCATION_TIMEZONE, 'i')) % 7; // ISO weekday, Sunday = 7
+  const startMinutes = toMinutes(formatInTimeZone(date, LOCATION_TIMEZONE, 'HH:mm'));
+
+  return tech.shifts.some(shift =>
+    shift.day === day &&
+    toMinutes(shift.start) <= startMinutes &&
+    startMinutes + durationMinutes <= toMinutes(shift.end)
+  );
+}
+
+function getBooking(job: Job): Booking | undefined {
+  if (!job.appointmentTime) return undefined;
+  const start = new Date(job.appointmentTime).getTime();
+  return { start, end: start + getJobDurationMinutes(job) * MS_PER_MINUTE };
+}
+
+function overlaps(a: Booking, b: Booking): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Propose techs for a board date's unassigned SCHEDULED jobs
+ *
+ * @param jobs - Every job on the board date (assigned ones count toward load)
+ * @param users - Active users; only TECH users are dispatched
+ * @param requiredSkills - Required skill tags by service type
+ */
+export function buildDispatchPlan(
+  boardDate: string,
+  jobs: Job[],
+  users: DispatchTech[],
+  requiredSkills: Record<string, string[]> = {},
+  now: string = new Date().toISOString()
+): DispatchPlanResponse {
+  const techs = users.filter(user => user.role === UserRole.TECH);
+  const activeJobs = jobs.filter(job => job.status !== WorkStatus.CANCELLED);
+
+  const loads = new Map<string, DispatchTechLoad & { bookings: Booking[] }>(
+    techs.map(tech => [tech.userId, {
+      userId: tech.userId,
+      name: tech.name,
+      skills: normalizeSkills(tech.skills),
+      assignedMinutes: 0,
+      proposedMinutes: 0,
+      jobCount: 0,
+      bookings: [],
+    }])
+  );
+
+  for (const job of activeJobs) {
+    for (const assignee of job.assignedTo || []) {
+      const load = loads.get(assignee.userId);
+      if (!load) continue;
+      load.assignedMinutes += getJobDurationMinutes(job);
+      load.jobCount += 1;
+      const booking = getBooking(job);
+      if (booking) load.bookings.push(booking);
+    }
+  }
+
+  const unassigned = activeJobs
+    .filter(job => job.status === WorkStatus.SCHEDULED && !(job.assignedTo || []).length)
+    .sort((a, b) => (a.appointmentTime || '').localeCompare(b.appointmentTime || ''));
+
+  const proposals: DispatchProposal[] = unassigned.map(job => {
+    const skills = normalizeSkills(requiredSkills[job.serviceType]);
+    const durationMinutes = getJobDurationMinutes(job);
+    const booking = getBooking(job);
+    const proposal: DispatchProposal = {
+      jobId: job.jobId,
+      customerName: job.customerName,
+      serviceType: job.serviceType,
+      appointmentTime: job.appointmentTime,
+      durationMinutes,
+      requiredSkills: skills,
+    };
+
+    const skilled = techs.filter(tech => {
+      const techSkills = loads.get(tech.userId)!.skills;
+      return skills.every(skill => techSkills.includes(skill));
+    });
+    const onShift = skilled.filter(tech => !job.appointmentTime || isOnShift(tech, job.appointmentTime, durationMinutes));
+    const free = onShift.filter(tech => !booking || !loads.get(tech.userId)!.bookings.some(b => overlaps(b, booking)));
+
+    const reason: DispatchSkipReason | undefined = skilled.length === 0
+      ? 'NO_SKILLED_TECH'
+      : onShift.length === 0
+      ? 'NO_TECH_ON_SHIFT'
+      : free.length === 0
+      ? 'ALL_TECHS_BUSY'
+      : undefined;
+
+    if (reason) {
+      return { ...proposal, reason };
+    }
+
+    const [pick] = free
+      .map(tech => loads.get(tech.userId)!)
+      .sort((a, b) =>
+        (a.assignedMinutes + a.proposedMinutes) - (b.assignedMinutes + b.proposedMinutes) ||
+        a.skills.length - b.skills.length ||
+        a.name.localeCompare(b.name)
+      );
+
+    pick.proposedMinutes += durationMinutes;
+    pick.jobCount += 1;
+    if (booking) pick.bookings.push(booking);
+
+    return { ...proposal, userId: pick.userId, name: pick.name };
+  });
+
+  return {
+    boardDate,
+    generatedAt: now,
+    proposals,
+    techs: Array.from(loads.values()).map(({ bookings, ...load }) => load),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Check-in Inspection Rules
+ *
+ * A tech photographs the vehicle from every required angle and pins any
+ * pre-existing damage before work can start (see CHECKIN_INSPECTION in
+ * ./status-transitions).
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { CheckinInspection, InspectionAngle, PhotoMeta } from '../types';
+
+/**
+ * Walk-around photos every check-in needs, in shooting order
+ */
+export const CHECKIN_REQUIRED_ANGLES: InspectionAngle[] = ['front', 'rear', 'left', 'right'];
+
+export const INSPECTION_ANGLE_LABELS: Record<InspectionAngle, string> = {
+  front: 'Front',
+  rear: 'Rear',
+  left: 'Driver side',
+  right: 'Passenger side',
+};
+
+/**
+ * The fields the inspection rules look at
+ */
+export interface InspectionSubject {
+  checkinInspection?: Pick<CheckinInspection, 'requiredAngles' | 'photos' | 'completedAt'>;
+  photosMeta?: Array<Pick<PhotoMeta, 'photoId'>>;
+}
+
+/**
+ * Blank inspection record for a job that hasn't started one
+ */
+export function createEmptyInspection(): CheckinInspection {
+  return {
+    requiredAngles: CHECKIN_REQUIRED_ANGLES,
+    photos: {},
+    damagePins: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Required angles without a photo that is still on the job
+ */
+export function getMissingInspectionAngles(job: InspectionSubject): InspectionAngle[] {
+  const inspection = job.checkinInspection;
+  const required = inspection?.requiredAngles || CHECKIN_REQUIRED_ANGLES;
+  const photoIds = new Set((job.photosMeta || []).map(photo => photo.photoId));
+
+  return required.filter(angle => {
+    const photoId = inspection?.photos[angle];
+    return !photoId || !photoIds.has(photoId);
+  });
+}
+
+/**
+ * Whether the check-in inspection has been signed off
+ */
+export function isInspectionComplete(job: { checkinInspection?: { completedAt?: string } }): boolean {
+  return !!job.checkinInspection?.completedAt;
+}
+
+export type InspectionErrorCode = 'INSPECTION_INCOMPLETE' | 'INSPECTION_LOCKED';
+
+/**
+ * Thrown when an inspection change or sign-off is refused
+ */
+export class InspectionError extends Error {
+  constructor(
+    public readonly code: InspectionErrorCode,
+    message: string,
+    public readonly missingAngles: InspectionAngle[] = []
+  ) {
+    super(message);
+    this.name = 'InspectionError';
+  }
+
+  /**
+   * 403 for a locked inspection, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'INSPECTION_LOCKED' ? 403 : 400;
+  }
+}
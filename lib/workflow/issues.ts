@@ -0,0 +1,139 @@
+/**
+ * Post-Completion Issue Rules
+ *
+ * Managers raise issues on completed jobs (complaints, QC misses, damage).
+ * A job can have any number of them; each is worked through OPEN ->
+ * IN_PROGRESS -> RESOLVED with an assignee, comment threads and photos,
+ * and is settled with an outcome (refund, redo or no action). Resolved
+ * issues can be reopened.
+ *
+ * Jobs written before issue lists keep their single postCompletionIssue,
+ * which reads as a one-issue list until the job's issues are next changed.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import {
+  UserRole,
+  type IssueComment,
+  type IssueOutcome,
+  type IssueStatus,
+  type Job,
+  type JobIssue,
+  type PostCompletionIssueType,
+} from '../types';
+
+/**
+ * Roles that can raise, work and comment on issues
+ */
+export const ISSUE_ROLES: UserRole[] = [UserRole.MANAGER];
+
+export const ISSUE_TYPES: PostCompletionIssueType[] = ['QC_MISS', 'CUSTOMER_COMPLAINT', 'DAMAGE', 'REDO', 'OTHER'];
+
+export const ISSUE_OUTCOMES: IssueOutcome[] = ['REFUND', 'REDO', 'NO_ACTION'];
+
+/**
+ * Statuses each status can move to
+ */
+const ISSUE_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  OPEN: ['IN_PROGRESS', 'RESOLVED'],
+  IN_PROGRESS: ['OPEN', 'RESOLVED'],
+  RESOLVED: ['OPEN'],
+};
+
+export function canChangeIssueStatus(from: IssueStatus, to: IssueStatus): boolean {
+  return ISSUE_TRANSITIONS[from].includes(to);
+}
+
+export function isIssueOpen(issue: Pick<JobIssue, 'status'>): boolean {
+  return issue.status !== 'RESOLVED';
+}
+
+/**
+ * The job's issues, oldest first (a legacy single issue becomes a list of one)
+ */
+export function getJobIssues(job: Pick<Job, 'issues' | 'postCompletionIssue'>): JobIssue[] {
+  if (job.issues) {
+    return job.issues;
+  }
+
+  const legacy = job.postCompletionIssue;
+  if (!legacy) {
+    return [];
+  }
+
+  return [{
+    issueId: 'legacy',
+    type: legacy.type,
+    status: legacy.isOpen ? 'OPEN' : 'RESOLVED',
+    notes: legacy.notes,
+    photoIds: [],
+    comments: [],
+    openedAt: legacy.openedAt,
+    openedBy: { ...legacy.openedBy, role: UserRole.MANAGER },
+    updatedAt: legacy.resolvedAt || legacy.openedAt,
+    ...(legacy.resolvedAt && { resolvedAt: legacy.resolvedAt }),
+    ...(legacy.resolvedBy && { resolvedBy: { ...legacy.resolvedBy, role: UserRole.MANAGER } }),
+  }];
+}
+
+/**
+ * Unresolved issues on a job
+ */
+export function getOpenIssueCount(job: Pick<Job, 'issues' | 'postCompletionIssue' | 'openIssueCount'>): number {
+  return job.openIssueCount ?? getJobIssues(job).filter(isIssueOpen).length;
+}
+
+/**
+ * Comments in thread order: each top-level comment followed by its replies
+ * (depth 0 for top-level comments)
+ */
+export function threadIssueComments(comments: IssueComment[]): Array<{ comment: IssueComment; depth: number }> {
+  const thread: Array<{ comment: IssueComment; depth: number }> = [];
+
+  const addWithReplies = (comment: IssueComment, depth: number) => {
+    thread.push({ comment, depth });
+    comments
+      .filter(reply => reply.parentCommentId === comment.commentId)
+      .forEach(reply => addWithReplies(reply, depth + 1));
+  };
+
+  comments
+    .filter(comment => !comment.parentCommentId || !comments.some(c => c.commentId === comment.parentCommentId))
+    .forEach(comment => addWithReplies(comment, 0));
+
+  return thread;
+}
+
+export type IssueErrorCode =
+  | 'NOT_COMPLETED'
+  | 'INVALID_ISSUE_TYPE'
+  | 'ISSUE_NOT_FOUND'
+  | 'INVALID_STATUS_CHANGE'
+  | 'OUTCOME_REQUIRED'
+  | 'USER_NOT_FOUND'
+  | 'INVALID_PHOTOS'
+  | 'COMMENT_REQUIRED'
+  | 'COMMENT_NOT_FOUND';
+
+/**
+ * Thrown when an issue change is refused
+ */
+export class IssueError extends Error {
+  constructor(
+    public readonly code: IssueErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'IssueError';
+  }
+
+  /**
+   * 404 for an unknown issue, 409 when the job or issue isn't in a state
+   * that allows the change, otherwise 400
+   */
+  get httpStatus(): number {
+    if (this.code === 'ISSUE_NOT_FOUND') return 404;
+    return this.code === 'NOT_COMPLETED' || this.code === 'INVALID_STATUS_CHANGE' ? 409 : 400;
+  }
+}
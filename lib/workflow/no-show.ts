@@ -0,0 +1,132 @@
+/**
+ * No-Show Fee Rules
+ *
+ * A manager charges a recorded no-show to the customer's card on file. The
+ * fee comes from the shop's policy: a flat amount, or a share of the job's
+ * amount kept between an optional floor and cap. Some reasons (e.g. the shop
+ * couldn't reach the customer) can be waived entirely.
+ *
+ * The fee is fixed at the first attempt, so retrying a failed charge bills
+ * the same amount even if the policy changed in between.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { NoShowPolicy, NoShowReason, UpdateNoShowPolicyRequest } from '../types';
+import { formatCents } from '../utils/money';
+
+export const NO_SHOW_REASONS: NoShowReason[] = ['NO_ARRIVAL', 'LATE_CANCEL', 'UNREACHABLE', 'OTHER'];
+
+/**
+ * Policy used until a manager saves one
+ */
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+  settingId: 'NO_SHOW_POLICY',
+  feeType: 'FLAT',
+  flatFeeCents: 5000,
+  percent: 50,
+  waivedReasons: [],
+  updatedAt: '1970-01-01T00:00:00.000Z',
+};
+
+export const NO_SHOW_CURRENCY = 'USD';
+
+function isCents(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validation errors for a policy update (empty when valid)
+ */
+export function validateNoShowPolicy(request: UpdateNoShowPolicyRequest): string[] {
+  const errors: string[] = [];
+
+  if (request.feeType !== 'FLAT' && request.feeType !== 'PERCENT') {
+    errors.push('feeType must be FLAT or PERCENT.');
+  }
+  if (request.feeType === 'FLAT' && !isCents(request.flatFeeCents)) {
+    errors.push('flatFeeCents must be a whole number of cents (0 or more).');
+  }
+  if (request.feeType === 'PERCENT' &&
+    (typeof request.percent !== 'number' || request.percent < 0 || request.percent > 100)) {
+    errors.push('percent must be between 0 and 100.');
+  }
+  for (const field of ['minFeeCents', 'maxFeeCents'] as const) {
+    if (request[field] != null && !isCents(request[field])) {
+      errors.push(`${field} must be a whole number of cents (0 or more).`);
+    }
+  }
+  if (request.minFeeCents != null && request.maxFeeCents != null && request.minFeeCents > request.maxFeeCents) {
+    errors.push('minFeeCents cannot be more than maxFeeCents.');
+  }
+  if (request.waivedReasons !== undefined &&
+    (!Array.isArray(request.waivedReasons) || !request.waivedReasons.every(reason => NO_SHOW_REASONS.includes(reason)))) {
+    errors.push(`waivedReasons must only contain ${NO_SHOW_REASONS.join(', ')}.`);
+  }
+
+  return errors;
+}
+
+/**
+ * Fee in cents for a no-show under a policy (0 when waived)
+ *
+ * Jobs that already had a charge attempt keep their recorded fee.
+ */
+export function calculateNoShowFee(
+  policy: NoShowPolicy,
+  job: { payment?: { amountCents?: number }; noShow?: { reason?: NoShowReason; feeCents?: number } }
+): number {
+  if (job.noShow?.feeCents !== undefined) {
+    return job.noShow.feeCents;
+  }
+  if (job.noShow?.reason && policy.waivedReasons.includes(job.noShow.reason)) {
+    return 0;
+  }
+  if (policy.feeType === 'FLAT') {
+    return policy.flatFeeCents;
+  }
+
+  let fee = Math.round((job.payment?.amountCents || 0) * policy.percent / 100);
+  if (policy.minFeeCents !== undefined) fee = Math.max(fee, policy.minFeeCents);
+  if (policy.maxFeeCents !== undefined) fee = Math.min(fee, policy.maxFeeCents);
+  return fee;
+}
+
+/**
+ * One line describing the policy ("$50.00 flat" / "50% of the job, $25.00 min")
+ */
+export function describeNoShowPolicy(policy: NoShowPolicy): string {
+  if (policy.feeType === 'FLAT') {
+    return `${formatCents(policy.flatFeeCents)} flat`;
+  }
+
+  const limits = [
+    policy.minFeeCents !== undefined && `${formatCents(policy.minFeeCents)} min`,
+    policy.maxFeeCents !== undefined && `${formatCents(policy.maxFeeCents)} max`,
+  ].filter(Boolean);
+
+  return `${policy.percent}% of the job${limits.length ? `, ${limits.join(', ')}` : ''}`;
+}
+
+export type NoShowChargeErrorCode = 'INVALID_POLICY' | 'NO_FEE' | 'NO_CUSTOMER' | 'USE_CHARGE_ACTION';
+
+/**
+ * Thrown when a no-show policy or charge is refused
+ */
+export class NoShowChargeError extends Error {
+  constructor(
+    public readonly code: NoShowChargeErrorCode,
+    message: string,
+    public readonly errors: string[] = [message]
+  ) {
+    super(message);
+    this.name = 'NoShowChargeError';
+  }
+
+  /**
+   * 409 when the job has nothing to charge, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'NO_FEE' ? 409 : 400;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Payment Ledger Rules
+ *
+ * A job can be paid in several parts (a deposit by phone and the rest at
+ * pickup, half cash and half card), so payments are kept as a ledger of
+ * entries on the job. The balance due is the amount due less the entries,
+ * and the job is PAID once the balance reaches zero. Square payments become
+ * SQUARE entries when they're matched. Entries taken in error are voided,
+ * not deleted, so the ledger keeps a full record.
+ *
+ * Refunds give money back against an entry. They don't reopen the balance
+ * (the work was still paid for) but come off what was collected.
+ *
+ * Jobs paid before the ledger have no entries; their payment status stands
+ * as it was.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import {
+  PaymentStatus,
+  type CreateRefundRequest,
+  type Payment,
+  type PaymentEntry,
+  type PaymentMethod,
+  type RecordPaymentRequest,
+  type RefundEntry,
+} from '../types';
+
+/**
+ * Methods a manager can record by hand (SQUARE entries come from matching)
+ */
+export const PAYMENT_METHODS: RecordPaymentRequest['method'][] = ['CASH', 'CARD', 'CHECK', 'OTHER'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Cash',
+  CARD: 'Card',
+  CHECK: 'Check',
+  SQUARE: 'Square',
+  OTHER: 'Other',
+};
+
+const MAX_REFERENCE_LENGTH = 100;
+const MAX_REFUND_REASON_LENGTH = 500;
+
+/**
+ * Validation error for a tip, if any
+ */
+export function validateTip(tipCents: unknown): string | undefined {
+  return tipCents === undefined || (typeof tipCents === 'number' && Number.isInteger(tipCents) && tipCents >= 0)
+    ? undefined
+    : 'tipCents must be a whole number of cents, zero or more.';
+}
+
+/**
+ * Whether an entry still counts toward the amount due
+ */
+export function isEntryLive(entry: PaymentEntry): boolean {
+  return !entry.voidedAt;
+}
+
+function sumLive(entries: PaymentEntry[] | undefined, field: 'amountCents' | 'tipCents'): number {
+  return (entries ?? []).filter(isEntryLive).reduce((total, entry) => total + (entry[field] ?? 0), 0);
+}
+
+/**
+ * The parts of a job the ledger reads (client job shapes included)
+ */
+type LedgerJob = {
+  payment?: Pick<Payment, 'status' | 'amountCents' | 'tipCents'>;
+  paymentEntries?: PaymentEntry[];
+  refunds?: RefundEntry[];
+};
+
+function hasLedger(job: LedgerJob): boolean {
+  return (job.paymentEntries?.length ?? 0) > 0;
+}
+
+/**
+ * Amount paid toward a job (tips excluded)
+ */
+export function getPaidCents(job: LedgerJob): number {
+  if (!hasLedger(job)) {
+    return job.payment?.status === PaymentStatus.PAID ? job.payment.amountCents || 0 : 0;
+  }
+  return sumLive(job.paymentEntries, 'amountCents');
+}
+
+/**
+ * Tips left on a job's payments
+ */
+export function getTipCents(job: LedgerJob): number {
+  if (!hasLedger(job)) {
+    return job.payment?.status === PaymentStatus.PAID ? job.payment.tipCents || 0 : 0;
+  }
+  return sumLive(job.paymentEntries, 'tipCents');
+}
+
+/**
+ * What the customer still owes (never below zero)
+ */
+export function getBalanceDueCents(job: LedgerJob): number {
+  return Math.max(0, (job.payment?.amountCents || 0) - getPaidCents(job));
+}
+
+/**
+ * Refunds against an entry that still stand (FAILED ones never left)
+ */
+function getEntryRefunds(job: LedgerJob, entryId: string): RefundEntry[] {
+  return (job.refunds ?? []).filter(refund => refund.paymentEntryId === entryId && refund.status !== 'FAILED');
+}
+
+/**
+ * Amount refunded to the customer (refunds of voided entries excluded)
+ */
+export function getRefundedCents(job: LedgerJob): number {
+  return (job.paymentEntries ?? [])
+    .filter(isEntryLive)
+    .flatMap(entry => getEntryRefunds(job, entry.entryId))
+    .reduce((total, refund) => total + refund.amountCents, 0);
+}
+
+/**
+ * Amount kept from a job's payments: paid less refunds (tips excluded)
+ */
+export function getCollectedCents(job: LedgerJob): number {
+  return getPaidCents(job) - getRefundedCents(job);
+}
+
+/**
+ * What can still be refunded from an entry (zero once voided)
+ */
+export function getRefundableCents(job: LedgerJob, entry: PaymentEntry): number {
+  if (!isEntryLive(entry)) return 0;
+  const refundedCents = getEntryRefunds(job, entry.entryId).reduce((total, refund) => total + refund.amountCents, 0);
+  return Math.max(0, entry.amountCents - refundedCents);
+}
+
+/**
+ * A job's payment with its status derived from the ledger: PAID (as of the
+ * entry that covered the amount due) or UNPAID. Paid details are kept when
+ * a job goes back to UNPAID, for history.
+ */
+export function derivePayment(payment: Payment | undefined, entries: PaymentEntry[]): Payment {
+  const live = entries.filter(isEntryLive);
+  const amountCents = payment?.amountCents ?? 0;
+  const tipCents = sumLive(entries, 'tipCents');
+
+  let paidCents = 0;
+  const coveringEntry = live.find(entry => (paidCents += entry.amountCents) >= amountCents);
+
+  if (!coveringEntry) {
+    return {
+      ...payment,
+      status: PaymentStatus.UNPAID,
+      tipCents: tipCents || undefined,
+    };
+  }
+
+  const isAutomaticMatch = coveringEntry.method === 'SQUARE' && coveringEntry.matchedBy !== 'MANUAL';
+  return {
+    ...payment,
+    status: PaymentStatus.PAID,
+    tipCents: tipCents || undefined,
+    paidAt: coveringEntry.recordedAt,
+    paidBy: isAutomaticMatch
+      ? undefined
+      : { userId: coveringEntry.recordedBy.userId, name: coveringEntry.recordedBy.name, role: 'MANAGER' },
+    unpaidReason: undefined,
+    unpaidNote: undefined,
+  };
+}
+
+/**
+ * Validation errors for a payment entry (empty when valid)
+ */
+export function validatePayment(request: RecordPaymentRequest): string[] {
+  const errors: string[] = [];
+
+  if (!PAYMENT_METHODS.includes(request.method)) {
+    errors.push(`method must be one of: ${PAYMENT_METHODS.join(', ')}.`);
+  }
+  if (typeof request.amountCents !== 'number' || !Number.isInteger(request.amountCents) || request.amountCents <= 0) {
+    errors.push('amountCents must be a positive whole number of cents.');
+  }
+
+  const tipError = validateTip(request.tipCents);
+  if (tipError) {
+    errors.push(tipError);
+  }
+
+  if (request.reference !== undefined &&
+    (typeof request.reference !== 'string' || request.reference.length > MAX_REFERENCE_LENGTH)) {
+    errors.push(`reference must be text of at most ${MAX_REFERENCE_LENGTH} characters.`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validation errors for a refund (empty when valid)
+ */
+export function validateRefund(request: CreateRefundRequest): string[] {
+  const errors: string[] = [];
+
+  if (typeof request.paymentEntryId !== 'string' || !request.paymentEntryId) {
+    errors.push('paymentEntryId is required.');
+  }
+  if (typeof request.amountCents !== 'number' || !Number.isInteger(request.amountCents) || request.amountCents <= 0) {
+    errors.push('amountCents must be a positive whole number of cents.');
+  }
+  if (typeof request.reason !== 'string' || !request.reason.trim()) {
+    errors.push('A reason is required.');
+  } else if (request.reason.length > MAX_REFUND_REASON_LENGTH) {
+    errors.push(`reason must be at most ${MAX_REFUND_REASON_LENGTH} characters.`);
+  }
+  if (request.issueId !== undefined && typeof request.issueId !== 'string') {
+    errors.push('issueId must be text.');
+  }
+
+  return errors;
+}
+
+/**
+ * e.g. "Cash" or "Check #1042"
+ */
+export function describePaymentEntry(entry: Pick<PaymentEntry, 'method' | 'reference'>): string {
+  const label = PAYMENT_METHOD_LABELS[entry.method] || entry.method;
+  if (!entry.reference) return label;
+  return entry.method === 'CHECK' ? `${label} #${entry.reference}` : `${label} (${entry.reference})`;
+}
+
+export type PaymentLedgerErrorCode =
+  | 'INVALID_PAYMENT'
+  | 'RECEIPT_REQUIRED'
+  | 'NOT_PAYABLE'
+  | 'OVERPAYMENT'
+  | 'ALREADY_PAID'
+  | 'REASON_REQUIRED'
+  | 'ENTRY_NOT_FOUND'
+  | 'ALREADY_VOIDED'
+  | 'INVALID_REFUND'
+  | 'NOT_REFUNDABLE'
+  | 'OVER_REFUND'
+  | 'REFUND_UNCONFIRMED'
+  | 'ISSUE_NOT_FOUND';
+
+/**
+ * Thrown when a payment can't be recorded, voided or refunded
+ */
+export class PaymentLedgerError extends Error {
+  constructor(
+    public readonly code: PaymentLedgerErrorCode,
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'PaymentLedgerError';
+  }
+
+  /**
+   * 404 for an unknown entry or issue, 409 when the entry or job is past
+   * the change (or a refund of it is still waiting on Square), otherwise 400
+   */
+  get httpStatus(): number {
+    if (this.code === 'ENTRY_NOT_FOUND' || this.code === 'ISSUE_NOT_FOUND') return 404;
+    return this.code === 'ALREADY_PAID' ||
+      this.code === 'ALREADY_VOIDED' ||
+      this.code === 'NOT_REFUNDABLE' ||
+      this.code === 'REFUND_UNCONFIRMED'
+      ? 409
+      : 400;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Square Payment Matching Rules
+ *
+ * Ties payments taken in Square (at the counter, on a terminal or online)
+ * to the jobs they pay for, so jobs are marked PAID with the real amount,
+ * tip and tender instead of by hand. Payments nothing matches go to a
+ * manager queue to be matched manually.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import {
+  PaymentStatus,
+  UserRole,
+  WorkStatus,
+  type Job,
+  type PaymentMatchCandidate,
+  type PaymentMatchMethod,
+  type SquarePaymentDetails,
+  type UserAudit,
+} from '../types';
+import { isRedoJob } from './redo';
+
+/**
+ * Roles that can work the unmatched payment queue
+ */
+export const PAYMENT_MATCH_ROLES: UserRole[] = [UserRole.MANAGER];
+
+/**
+ * Recorded as the actor for automatic matches
+ */
+export const SQUARE_PAYMENT_ACTOR: UserAudit = {
+  userId: 'square-payments',
+  name: 'Square',
+  role: UserRole.MANAGER,
+};
+
+/**
+ * Customer/time matches: payments taken from 2 hours before the
+ * appointment (deposits at drop-off) to 12 hours after (pickup)
+ */
+const MATCH_WINDOW_BEFORE_MS = 2 * 60 * 60 * 1000;
+const MATCH_WINDOW_AFTER_MS = 12 * 60 * 60 * 1000;
+
+const NO_SHOW_STATUSES: WorkStatus[] = [
+  WorkStatus.NO_SHOW_PENDING_CHARGE,
+  WorkStatus.NO_SHOW_CHARGED,
+  WorkStatus.NO_SHOW_FAILED,
+];
+
+const UNPAYABLE_STATUSES: WorkStatus[] = [...NO_SHOW_STATUSES, WorkStatus.CANCELLED];
+
+export interface PaymentMatch {
+  job: Job;
+  method: PaymentMatchMethod;
+}
+
+/**
+ * Whether Square has finished taking the payment (only these are applied)
+ */
+export function isPaymentCompleted(payment: Pick<SquarePaymentDetails, 'status'>): boolean {
+  return payment.status === 'COMPLETED';
+}
+
+/**
+ * Whether Square will never complete the payment
+ */
+export function isPaymentVoid(payment: Pick<SquarePaymentDetails, 'status'>): boolean {
+  return payment.status === 'CANCELED' || payment.status === 'FAILED';
+}
+
+/**
+ * Whether a job is being (or was) charged a no-show fee
+ */
+function isNoShowChargeJob(job: Job): boolean {
+  return NO_SHOW_STATUSES.includes(job.status) ||
+    !!job.noShow?.chargeAttempts?.some(attempt => attempt.result === 'PENDING');
+}
+
+/**
+ * Whether the payment is a no-show fee the app charged itself (recorded on
+ * the job's no-show, never as the job's payment)
+ *
+ * Fee charges carry the job ID as their reference, so one that arrives
+ * before its attempt has the paymentId (webhook racing the charge, or a
+ * charge result that was lost) is still recognized by its reference.
+ */
+export function isNoShowFeePayment(payment: Pick<SquarePaymentDetails, 'paymentId' | 'referenceId'>, jobs: Job[]): boolean {
+  return jobs.some(job =>
+    job.noShow?.chargeAttempts?.some(attempt => attempt.paymentId === payment.paymentId) ||
+    (!!payment.referenceId && job.jobId === payment.referenceId && isNoShowChargeJob(job))
+  );
+}
+
+/**
+ * Whether a job can still take a payment: not paid, not cancelled or a
+ * no-show, and not a free redo
+ */
+export function isJobAwaitingPayment(job: Job): boolean {
+  return job.payment?.status !== PaymentStatus.PAID &&
+    !UNPAYABLE_STATUSES.includes(job.status) &&
+    !isRedoJob(job);
+}
+
+/**
+ * Whether a job was already paid through another Square payment
+ */
+function isPaidByOtherPayment(job: Job, paymentId: string): boolean {
+  return job.payment?.status === PaymentStatus.PAID &&
+    !!job.payment.squarePaymentId &&
+    job.payment.squarePaymentId !== paymentId;
+}
+
+function minutesFromAppointment(payment: Pick<SquarePaymentDetails, 'createdAt'>, job: Job): number {
+  const appointment = new Date(job.appointmentTime || job.createdAt).getTime();
+  return Math.abs(new Date(payment.createdAt).getTime() - appointment) / 60000;
+}
+
+function isWithinMatchWindow(payment: Pick<SquarePaymentDetails, 'createdAt'>, job: Job): boolean {
+  if (!job.appointmentTime) {
+    return false;
+  }
+  const offset = new Date(payment.createdAt).getTime() - new Date(job.appointmentTime).getTime();
+  return offset >= -MATCH_WINDOW_BEFORE_MS && offset <= MATCH_WINDOW_AFTER_MS;
+}
+
+/**
+ * Find the job a Square payment pays for
+ *
+ * In order: a reference ID that is a job ID (payments the app creates), the
+ * job's Square order, then the customer's one unpaid job around the payment
+ * time. When a customer has several such jobs, only an exact amount match
+ * decides; anything ambiguous is left for a manager. Jobs being charged a
+ * no-show fee are never matched by reference or order.
+ *
+ * @param jobs - Jobs that might match (the customer's and that day's)
+ * @returns The match, or null if none is certain
+ */
+export function findPaymentMatch(payment: SquarePaymentDetails, jobs: Job[]): PaymentMatch | null {
+  if (isNoShowFeePayment(payment, jobs)) {
+    return null;
+  }
+
+  const byReference = payment.referenceId && jobs.find(job => job.jobId === payment.referenceId);
+  if (byReference && !isNoShowChargeJob(byReference) && !isPaidByOtherPayment(byReference, payment.paymentId)) {
+    return { job: byReference, method: 'REFERENCE' };
+  }
+
+  const byOrder = payment.orderId && jobs.find(job => job.orderId === payment.orderId);
+  if (byOrder && !isNoShowChargeJob(byOrder) && !isPaidByOtherPayment(byOrder, payment.paymentId)) {
+    return { job: byOrder, method: 'ORDER' };
+  }
+
+  if (!payment.customerId) {
+    return null;
+  }
+
+  const candidates = jobs.filter(job =>
+    job.customerId === payment.customerId &&
+    isJobAwaitingPayment(job) &&
+    isWithinMatchWindow(payment, job)
+  );
+  if (candidates.length === 1) {
+    return { job: candidates[0], method: 'CUSTOMER_TIME' };
+  }
+
+  const sameAmount = candidates.filter(job => job.payment?.amountCents === payment.amountCents);
+  return sameAmount.length === 1 ? { job: sameAmount[0], method: 'CUSTOMER_TIME' } : null;
+}
+
+/**
+ * Jobs a manager might match a payment to: unpaid jobs, the payer's first,
+ * then by closeness to the payment time
+ */
+export function rankMatchCandidates(
+  payment: SquarePaymentDetails,
+  jobs: Job[],
+  limit: number = 5
+): PaymentMatchCandidate[] {
+  return jobs
+    .filter(isJobAwaitingPayment)
+    .sort((a, b) =>
+      Number(b.customerId === payment.customerId) - Number(a.customerId === payment.customerId) ||
+      minutesFromAppointment(payment, a) - minutesFromAppointment(payment, b)
+    )
+    .slice(0, limit)
+    .map(job => ({
+      jobId: job.jobId,
+      customerName: job.customerName,
+      serviceType: job.serviceType,
+      appointmentTime: job.appointmentTime,
+      status: job.status,
+      vehicleInfo: job.vehicleInfo,
+      ...(job.payment?.amountCents !== undefined && { amountCents: job.payment.amountCents }),
+    }));
+}
+
+/**
+ * How a payment was taken, e.g. "VISA •••• 1111" or "CASH"
+ */
+export function describeTender(payment: { tenderType?: string; cardBrand?: string; cardLast4?: string }): string {
+  if (payment.cardBrand || payment.cardLast4) {
+    return [payment.cardBrand, payment.cardLast4 && `•••• ${payment.cardLast4}`].filter(Boolean).join(' ');
+  }
+  return (payment.tenderType || 'OTHER').replace(/_/g, ' ');
+}
+
+export type PaymentMatchErrorCode =
+  | 'PAYMENT_NOT_FOUND'
+  | 'JOB_NOT_FOUND'
+  | 'ALREADY_MATCHED'
+  | 'NOT_COMPLETED'
+  | 'JOB_ALREADY_PAID'
+  | 'INVALID_REQUEST';
+
+/**
+ * Thrown when a payment can't be matched or dismissed
+ */
+export class PaymentMatchError extends Error {
+  constructor(
+    public readonly code: PaymentMatchErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentMatchError';
+  }
+
+  /**
+   * 404 for an unknown payment or job, 400 for a bad request, otherwise 409
+   */
+  get httpStatus(): number {
+    if (this.code === 'PAYMENT_NOT_FOUND' || this.code === 'JOB_NOT_FOUND') return 404;
+    if (this.code === 'INVALID_REQUEST') return 400;
+    return 409;
+  }
+}
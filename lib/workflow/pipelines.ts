@@ -0,0 +1,154 @@
+/**
+ * Service Workflow Pipelines
+ *
+ * Each service type can have its own ordered list of stages: stages can be
+ * left out (an express wash with no QC), marked optional so staff may skip
+ * them, or added (a ceramic coating cure stage). Custom stages reuse one of
+ * the in-shop work statuses, and the job's stageId says which stage it is in.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { WorkStatus, UserRole } from '../types';
+import type { WorkflowStage } from '../types';
+
+/**
+ * Built-in work statuses in pipeline order (used to rank stages)
+ */
+export const PIPELINE_STATUS_ORDER: WorkStatus[] = [
+  WorkStatus.SCHEDULED,
+  WorkStatus.CHECKED_IN,
+  WorkStatus.IN_PROGRESS,
+  WorkStatus.QC_READY,
+  WorkStatus.WORK_COMPLETED,
+];
+
+/**
+ * Work statuses a custom stage may sit in
+ */
+export const CUSTOM_STAGE_STATUSES: WorkStatus[] = [
+  WorkStatus.CHECKED_IN,
+  WorkStatus.IN_PROGRESS,
+  WorkStatus.QC_READY,
+];
+
+/**
+ * Who may move a job into a stage when the stage doesn't say
+ */
+export const DEFAULT_STAGE_ROLES: Record<string, UserRole[]> = {
+  [WorkStatus.SCHEDULED]: [UserRole.TECH, UserRole.MANAGER],
+  [WorkStatus.CHECKED_IN]: [UserRole.TECH, UserRole.MANAGER],
+  [WorkStatus.IN_PROGRESS]: [UserRole.TECH, UserRole.MANAGER],
+  [WorkStatus.QC_READY]: [UserRole.TECH, UserRole.MANAGER],
+  [WorkStatus.WORK_COMPLETED]: [UserRole.QC, UserRole.MANAGER],
+};
+
+/**
+ * Pipeline used by services without a saved workflow
+ */
+export const DEFAULT_WORKFLOW_STAGES: WorkflowStage[] = [
+  { id: WorkStatus.SCHEDULED, label: 'Scheduled', status: WorkStatus.SCHEDULED },
+  { id: WorkStatus.CHECKED_IN, label: 'Checked In', status: WorkStatus.CHECKED_IN },
+  { id: WorkStatus.IN_PROGRESS, label: 'In Progress', status: WorkStatus.IN_PROGRESS },
+  { id: WorkStatus.QC_READY, label: 'QC Ready', status: WorkStatus.QC_READY },
+  { id: WorkStatus.WORK_COMPLETED, label: 'Completed', status: WorkStatus.WORK_COMPLETED },
+];
+
+/**
+ * Position of a work status in the pipeline (-1 for statuses outside it, e.g. no-show)
+ */
+export function getStatusRank(status: WorkStatus): number {
+  return PIPELINE_STATUS_ORDER.indexOf(status);
+}
+
+/**
+ * Built-in stages use their work status as the id
+ */
+export function isBuiltInStage(stage: WorkflowStage): boolean {
+  return stage.id === stage.status;
+}
+
+/**
+ * Roles allowed to move a job into the stage
+ */
+export function getStageRoles(stage: WorkflowStage): UserRole[] {
+  return stage.roles && stage.roles.length > 0
+    ? stage.roles
+    : DEFAULT_STAGE_ROLES[stage.status] || [UserRole.MANAGER];
+}
+
+/**
+ * Stage a job is currently in
+ *
+ * Uses the stored stageId while it still matches the job's status (Square
+ * sync can change the status underneath it), then the built-in stage for the
+ * status, then the first stage with that status.
+ */
+export function getJobStage(
+  job: { status?: WorkStatus | string; workStatus?: WorkStatus; stageId?: string },
+  stages: WorkflowStage[]
+): WorkflowStage | undefined {
+  const status = (job.status || job.workStatus) as WorkStatus;
+
+  return stages.find(stage => stage.id === job.stageId && stage.status === status)
+    || stages.find(stage => stage.id === status)
+    || stages.find(stage => stage.status === status);
+}
+
+/**
+ * Check a pipeline before it is saved
+ *
+ * @returns Problems found (empty when the pipeline is valid)
+ */
+export function validateWorkflowStages(stages: WorkflowStage[]): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(stages) || stages.length < 2) {
+    return ['A workflow needs at least the Scheduled and Completed stages.'];
+  }
+
+  if (stages[0].id !== WorkStatus.SCHEDULED) {
+    errors.push('The first stage must be Scheduled.');
+  }
+  if (stages[stages.length - 1].id !== WorkStatus.WORK_COMPLETED) {
+    errors.push('The last stage must be Completed.');
+  }
+  if (stages[0].optional || stages[stages.length - 1].optional) {
+    errors.push('The first and last stages cannot be optional.');
+  }
+
+  const seen = new Set<string>();
+  stages.forEach((stage, index) => {
+    const name = stage.label || stage.id || `Stage ${index + 1}`;
+
+    if (!stage.id || !/^[A-Z0-9_]+$/.test(stage.id)) {
+      errors.push(`${name}: id must be upper-case letters, digits and underscores.`);
+    }
+    if (seen.has(stage.id)) {
+      errors.push(`${name}: stage ids must be unique.`);
+    }
+    seen.add(stage.id);
+
+    if (!stage.label?.trim()) {
+      errors.push(`${name}: a label is required.`);
+    }
+
+    if (Object.values(WorkStatus).includes(stage.id as WorkStatus)) {
+      if (stage.status !== stage.id) {
+        errors.push(`${name}: built-in stages must keep their own status.`);
+      }
+    } else if (!CUSTOM_STAGE_STATUSES.includes(stage.status)) {
+      errors.push(`${name}: custom stages must use ${CUSTOM_STAGE_STATUSES.join(', ')}.`);
+    }
+
+    if (stage.roles && stage.roles.some(role => !Object.values(UserRole).includes(role))) {
+      errors.push(`${name}: unknown role.`);
+    }
+
+    if (index > 0 && getStatusRank(stage.status) < getStatusRank(stages[index - 1].status)) {
+      errors.push(`${name}: stages must follow the order ${PIPELINE_STATUS_ORDER.join(' → ')}.`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,130 @@
+/**
+ * Pricing Rules
+ *
+ * A job's price is itemized: the service, each add-on and any discounts,
+ * then sales tax at the rate of the location the job is booked at. Tax is
+ * only charged on lines Square marks taxable, and a discount on a taxable
+ * line lowers the taxed amount. The breakdown is stored on the job so staff
+ * can explain how the total was reached.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { PriceBreakdown, PriceLine, TaxConfig, UpdateTaxConfigRequest } from '../types';
+
+/**
+ * Tennessee sales tax, used until a manager saves tax rates
+ */
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  settingId: 'TAX_CONFIG',
+  defaultRatePercent: 9.75,
+  locations: [],
+  updatedAt: '1970-01-01T00:00:00.000Z',
+};
+
+const MAX_TAX_RATE_PERCENT = 25;
+
+/**
+ * Tax rate for a location, falling back to the default rate
+ */
+export function getTaxRatePercent(config: TaxConfig, locationId?: string): number {
+  const location = locationId ? config.locations.find(rate => rate.locationId === locationId) : undefined;
+  return location?.ratePercent ?? config.defaultRatePercent;
+}
+
+/**
+ * e.g. "9.75%"
+ */
+export function formatTaxRate(ratePercent: number): string {
+  return `${Number(ratePercent.toFixed(3))}%`;
+}
+
+function isRate(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_TAX_RATE_PERCENT;
+}
+
+/**
+ * Validation errors for a tax config update (empty when valid)
+ */
+export function validateTaxConfig(request: UpdateTaxConfigRequest): string[] {
+  const errors: string[] = [];
+
+  if (!isRate(request.defaultRatePercent)) {
+    errors.push(`defaultRatePercent must be between 0 and ${MAX_TAX_RATE_PERCENT}.`);
+  }
+
+  if (request.locations !== undefined && !Array.isArray(request.locations)) {
+    errors.push('locations must be a list.');
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  for (const location of request.locations ?? []) {
+    const locationId = location?.locationId?.trim();
+    if (!locationId) {
+      errors.push('Every location needs a locationId.');
+      continue;
+    }
+    if (seen.has(locationId)) {
+      errors.push(`Location ${locationId} is listed more than once.`);
+    }
+    seen.add(locationId);
+    if (!isRate(location.ratePercent)) {
+      errors.push(`Tax rate for ${location.name || locationId} must be between 0 and ${MAX_TAX_RATE_PERCENT}.`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Itemize a price: subtotal, discounts, tax on the taxable lines and total
+ *
+ * @param lines - Service, add-on and discount lines (discounts negative)
+ * @param taxRatePercent - Rate for the job's location
+ */
+export function buildPriceBreakdown(
+  lines: PriceLine[],
+  taxRatePercent: number,
+  locationId?: string
+): PriceBreakdown {
+  const sum = (selected: PriceLine[]) => selected.reduce((total, line) => total + line.amountCents, 0);
+
+  const charges = lines.filter(line => line.type !== 'DISCOUNT');
+  const discounts = lines.filter(line => line.type === 'DISCOUNT');
+
+  const subtotalCents = sum(charges);
+  const discountCents = Math.min(-sum(discounts), subtotalCents);
+  const taxableCents = Math.max(0, sum(lines.filter(line => line.taxable)));
+  const taxCents = Math.round(taxableCents * taxRatePercent / 100);
+
+  return {
+    lines,
+    subtotalCents,
+    discountCents,
+    taxableCents,
+    taxRatePercent,
+    taxCents,
+    totalCents: subtotalCents - discountCents + taxCents,
+    ...(locationId && { locationId }),
+    calculatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Thrown when tax rates can't be saved
+ */
+export class PricingError extends Error {
+  constructor(
+    public readonly code: 'INVALID_TAX_CONFIG',
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'PricingError';
+  }
+
+  get httpStatus(): number {
+    return 400;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * QC Reject Rules
+ *
+ * QC can fail a job sitting in QC_READY and send it back to IN_PROGRESS
+ * with a reason, the failed QC checklist items and optional photos. Each
+ * reject is attributed to the techs whose work failed.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { UserRole, WorkStatus, type Job, type QcRejection, type WorkflowStage } from '../types';
+import { DEFAULT_WORKFLOW_STAGES, getJobStage } from './pipelines';
+
+/**
+ * Roles that can fail a QC review
+ */
+export const QC_REJECT_ROLES: UserRole[] = [UserRole.QC, UserRole.MANAGER];
+
+/**
+ * Stage a rejected job goes back to: the nearest IN_PROGRESS stage before
+ * its QC stage (a service's own rework stage if it has one)
+ */
+export function getReworkStage(
+  job: Pick<Job, 'status' | 'stageId'>,
+  stages: WorkflowStage[] = DEFAULT_WORKFLOW_STAGES
+): WorkflowStage {
+  const current = getJobStage(job, stages);
+  const index = current ? stages.indexOf(current) : stages.length;
+  const previous = stages.slice(0, index).reverse().find(stage => stage.status === WorkStatus.IN_PROGRESS);
+
+  return previous
+    || DEFAULT_WORKFLOW_STAGES.find(stage => stage.status === WorkStatus.IN_PROGRESS)!;
+}
+
+/**
+ * Techs to hold responsible for a reject: everyone with labor on the job,
+ * otherwise whoever sent it to QC
+ */
+export function getRejectedTechs(job: Pick<Job, 'workTimer' | 'statusHistory'>): QcRejection['techs'] {
+  const labor = job.workTimer?.laborByTech || [];
+  if (labor.length > 0) {
+    return labor.map(({ userId, name }) => ({ userId, name }));
+  }
+
+  const sentToQc = [...(job.statusHistory || [])]
+    .reverse()
+    .find(entry => entry.to === WorkStatus.QC_READY && entry.event === 'STATUS_CHANGE');
+
+  return sentToQc ? [{ userId: sentToQc.changedBy.userId, name: sentToQc.changedBy.name }] : [];
+}
+
+export type QcRejectErrorCode = 'NOT_IN_QC' | 'REASON_REQUIRED' | 'INVALID_CHECKLIST_ITEMS' | 'INVALID_PHOTOS';
+
+/**
+ * Thrown when a QC reject is refused
+ */
+export class QcRejectError extends Error {
+  constructor(
+    public readonly code: QcRejectErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'QcRejectError';
+  }
+
+  /**
+   * 409 when the job isn't waiting on QC, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'NOT_IN_QC' ? 409 : 400;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Redo Job Rules
+ *
+ * When a DAMAGE, REDO or CUSTOMER_COMPLAINT issue needs the car back, a
+ * manager schedules a redo: a zero-priced follow-up job for the same
+ * customer and vehicle whose checklists are the QC items that failed.
+ *
+ * The redo points back with redoOfJobId (the job it redoes) and parentJobId
+ * (the first job in the chain, so a redo of a redo still counts against the
+ * original work); the original lists its redos in redoJobIds. Redo jobs are
+ * left out of revenue and counted in quality metrics.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { ChecklistItem, Job, JobIssue, PostCompletionIssueType } from '../types';
+
+/**
+ * Issue types that can bring the car back for a redo
+ */
+export const REDO_ISSUE_TYPES: PostCompletionIssueType[] = ['DAMAGE', 'REDO', 'CUSTOMER_COMPLAINT'];
+
+export function isRedoJob(job: Pick<Job, 'redoOfJobId'>): boolean {
+  return !!job.redoOfJobId;
+}
+
+/**
+ * Whether a redo can be scheduled from an issue (unresolved, eligible type,
+ * no redo yet)
+ */
+export function canScheduleRedo(issue: Pick<JobIssue, 'type' | 'status' | 'redoJobId'>): boolean {
+  return REDO_ISSUE_TYPES.includes(issue.type) && issue.status !== 'RESOLVED' && !issue.redoJobId;
+}
+
+/**
+ * QC items a redo should fix by default: everything QC ever failed on the job
+ */
+export function getDefaultRedoItemIds(job: Pick<Job, 'qcRejections' | 'checklist'>): string[] {
+  const qcIds = new Set((job.checklist?.qc || []).map(item => item.id));
+  const failed = (job.qcRejections || []).flatMap(rejection => rejection.failedItems.map(item => item.id));
+  return Array.from(new Set(failed)).filter(id => qcIds.has(id));
+}
+
+/**
+ * Fresh (unchecked) tech and QC checklists for the failed items
+ */
+export function buildRedoChecklist(items: ChecklistItem[]): Job['checklist'] {
+  const reset = items.map(({ id, label, isRequired }) => ({
+    id,
+    label,
+    checked: false,
+    ...(isRequired !== undefined && { isRequired }),
+  }));
+
+  return { tech: reset, qc: reset.map(item => ({ ...item })) };
+}
+
+export type RedoErrorCode = 'NOT_REDOABLE' | 'INVALID_CHECKLIST_ITEMS' | 'INVALID_APPOINTMENT' | 'NO_SQUARE_SERVICE';
+
+/**
+ * Thrown when a redo can't be scheduled
+ */
+export class RedoError extends Error {
+  constructor(
+    public readonly code: RedoErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RedoError';
+  }
+
+  /**
+   * 409 when the issue can't take a redo (resolved, wrong type, already has one), otherwise 400
+   */
+  get httpStatus(): number {
+    return this.code === 'NOT_REDOABLE' ? 409 : 400;
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * Work Status State Machine
+ *
+ * Single source of truth for which work status changes are allowed, who may
+ * make them and what has to be done first. The PATCH API enforces it and the
+ * board / job detail buttons are generated from it, so the two can't drift.
+ *
+ * Moves through the in-shop stages come from the service's pipeline
+ * (see ./pipelines); no-show handling is the same for every service.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { WorkStatus, UserRole } from '../types';
+import type { WorkflowStage } from '../types';
+import {
+  DEFAULT_WORKFLOW_STAGES,
+  getJobStage,
+  getStageRoles,
+  getStatusRank,
+  isBuiltInStage,
+} from './pipelines';
+import { isInspectionComplete } from './inspection';
+
+/**
+ * Something that has to be true about the job before a transition
+ */
+export type TransitionPrerequisite =
+  | 'CHECKIN_INSPECTION'
+  | 'TECH_CHECKLIST_COMPLETE'
+  | 'QC_CHECKLIST_COMPLETE'
+  | 'NO_SHOW_RECORDED';
+
+/**
+ * One allowed status change
+ */
+export interface StatusTransition {
+  from: WorkStatus;
+  to: WorkStatus;
+  fromStage: string; // Pipeline stage ids (same as the statuses for built-in stages)
+  toStage: string;
+  stageLabel: string; // Target stage label (custom stage buttons)
+  skips: string[]; // Optional stages moved past
+  action: string; // Translation key under job.actions
+  label: string; // English fallback label
+  icon: string;
+  direction: 'forward' | 'back';
+  roles: UserRole[];
+  prerequisites: TransitionPrerequisite[];
+}
+
+/**
+ * Checklist item as snapshotted on the job (isRequired comes from the
+ * template; items without it predate the flag and count as required)
+ */
+export interface ChecklistSubjectItem {
+  id?: string;
+  label?: string;
+  checked: boolean;
+  isRequired?: boolean;
+}
+
+/**
+ * The fields the state machine looks at (satisfied by both the stored Job
+ * and the client-side job shapes)
+ */
+export interface TransitionSubject {
+  status?: WorkStatus | string;
+  workStatus?: WorkStatus;
+  stageId?: string;
+  checklist?: {
+    tech?: ChecklistSubjectItem[];
+    qc?: ChecklistSubjectItem[];
+  };
+  checkinInspection?: { completedAt?: string };
+  noShow?: { status: string };
+}
+
+export type TransitionRejectionCode =
+  | 'TRANSITION_NOT_ALLOWED'
+  | 'ROLE_NOT_ALLOWED'
+  | 'PREREQUISITE_NOT_MET';
+
+/**
+ * Structured reason a transition was refused
+ */
+export interface TransitionRejection {
+  code: TransitionRejectionCode;
+  message: string;
+  prerequisite?: TransitionPrerequisite;
+  allowedRoles?: UserRole[];
+  missingItems?: Array<{ id?: string; label?: string }>; // Unchecked required checklist items
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  from: WorkStatus;
+  to: WorkStatus;
+  fromStage?: string;
+  toStage: string;
+  transition?: StatusTransition;
+  rejections: TransitionRejection[];
+  overridden?: TransitionRejection[]; // Checklist prerequisites a manager overrode
+}
+
+const MANAGER_ONLY = [UserRole.MANAGER];
+
+/**
+ * Prerequisites that apply once a job moves up to (or past) a status,
+ * so they still hold when a pipeline skips or leaves out that stage
+ */
+const PREREQUISITE_THRESHOLDS: Array<{ status: WorkStatus; prerequisite: TransitionPrerequisite }> = [
+  { status: WorkStatus.IN_PROGRESS, prerequisite: 'CHECKIN_INSPECTION' },
+  { status: WorkStatus.QC_READY, prerequisite: 'TECH_CHECKLIST_COMPLETE' },
+  { status: WorkStatus.WORK_COMPLETED, prerequisite: 'QC_CHECKLIST_COMPLETE' },
+];
+
+/**
+ * Button text and icon for moving into a built-in stage
+ */
+const FORWARD_ACTIONS: Partial<Record<WorkStatus, { action: string; label: string; icon: string }>> = {
+  [WorkStatus.CHECKED_IN]: { action: 'checkIn', label: 'Check In', icon: '✅' },
+  [WorkStatus.IN_PROGRESS]: { action: 'startWork', label: 'Start Work', icon: '🔧' },
+  [WorkStatus.QC_READY]: { action: 'requestQC', label: 'Request QC', icon: '🔍' },
+  [WorkStatus.WORK_COMPLETED]: { action: 'completeWork', label: 'Complete Work', icon: '🏁' },
+};
+
+const BACK_ACTIONS: Partial<Record<WorkStatus, { action: string; label: string }>> = {
+  [WorkStatus.SCHEDULED]: { action: 'backToScheduled', label: 'Back to Scheduled' },
+  [WorkStatus.CHECKED_IN]: { action: 'backToCheckedIn', label: 'Back to Checked In' },
+  [WorkStatus.IN_PROGRESS]: { action: 'backToInProgress', label: 'Back to In Progress' },
+};
+
+/**
+ * Status-level transitions outside the pipeline (same for every service)
+ */
+function noShowTransition(
+  from: WorkStatus,
+  to: WorkStatus,
+  action: string,
+  label: string,
+  icon: string,
+  prerequisites: TransitionPrerequisite[] = []
+): StatusTransition {
+  return {
+    from,
+    to,
+    fromStage: from,
+    toStage: to,
+    stageLabel: label,
+    skips: [],
+    action,
+    label,
+    icon,
+    direction: 'forward',
+    roles: MANAGER_ONLY,
+    prerequisites,
+  };
+}
+
+/**
+ * No-show moves a manager can start. Whether the fee was charged is only
+ * ever set by the charge itself, never by hand.
+ */
+const NO_SHOW_TRANSITIONS: StatusTransition[] = [
+  noShowTransition(WorkStatus.SCHEDULED, WorkStatus.NO_SHOW_PENDING_CHARGE, 'chargeNoShow', 'Charge No-Show Fee', '💳', ['NO_SHOW_RECORDED']),
+  noShowTransition(WorkStatus.NO_SHOW_FAILED, WorkStatus.NO_SHOW_PENDING_CHARGE, 'retryNoShowCharge', 'Retry No-Show Charge', '🔁', ['NO_SHOW_RECORDED']),
+];
+
+/**
+ * Whether moving into this status charges the customer's card, which only
+ * POST /api/jobs/[jobId]/no-show/charge does (see chargeNoShowFee)
+ */
+export function isCardChargeTransition(transition: Pick<StatusTransition, 'to'>): boolean {
+  return transition.to === WorkStatus.NO_SHOW_PENDING_CHARGE;
+}
+
+/**
+ * Statuses a Square booking cancellation still applies to: nothing has been
+ * done to the car yet. Once work starts (or the job is done or a no-show)
+ * the shop's record wins.
+ */
+const SQUARE_CANCELLABLE_STATUSES: WorkStatus[] = [WorkStatus.SCHEDULED, WorkStatus.CHECKED_IN];
+
+/**
+ * Whether a booking cancelled in Square should cancel a job in this status
+ */
+export function isSquareCancellable(status: WorkStatus): boolean {
+  return SQUARE_CANCELLABLE_STATUSES.includes(status);
+}
+
+/**
+ * Why a terminal status has no way out (shown instead of a generic rejection)
+ */
+const TERMINAL_STATUS_MESSAGES: Partial<Record<WorkStatus, string>> = {
+  [WorkStatus.WORK_COMPLETED]: 'Completed jobs cannot be moved backward. Use post-completion issue tracking instead.',
+  [WorkStatus.NO_SHOW_PENDING_CHARGE]: 'Only the charge action can settle a no-show charge; charge again to finish it.',
+  [WorkStatus.NO_SHOW_CHARGED]: 'The no-show fee has already been charged.',
+  [WorkStatus.CANCELLED]: 'Cancelled jobs cannot be modified. The booking was cancelled in Square.',
+};
+
+const PREREQUISITE_MESSAGES: Record<TransitionPrerequisite, string> = {
+  CHECKIN_INSPECTION: 'Complete the check-in inspection (walk-around photos and damage map) first.',
+  TECH_CHECKLIST_COMPLETE: 'Complete the required tech checklist items first.',
+  QC_CHECKLIST_COMPLETE: 'Complete the required QC checklist items first.',
+  NO_SHOW_RECORDED: 'Mark the job as a no-show (with a reason) first.',
+};
+
+/**
+ * Prerequisites a manager can override with a reason (see applyChecklistOverride)
+ */
+export const OVERRIDABLE_PREREQUISITES: TransitionPrerequisite[] = ['TECH_CHECKLIST_COMPLETE', 'QC_CHECKLIST_COMPLETE'];
+
+const CHECKLIST_PREREQUISITES: Partial<Record<TransitionPrerequisite, 'tech' | 'qc'>> = {
+  TECH_CHECKLIST_COMPLETE: 'tech',
+  QC_CHECKLIST_COMPLETE: 'qc',
+};
+
+/**
+ * Prerequisites crossed when moving forward between two statuses
+ */
+function getPrerequisites(from: WorkStatus, to: WorkStatus): TransitionPrerequisite[] {
+  const fromRank = getStatusRank(from);
+  const toRank = getStatusRank(to);
+
+  return PREREQUISITE_THRESHOLDS
+    .filter(({ status }) => fromRank < getStatusRank(status) && getStatusRank(status) <= toRank)
+    .map(({ prerequisite }) => prerequisite);
+}
+
+/**
+ * Forward and back moves out of one pipeline stage
+ *
+ * Forward goes to the next stage, or further while the stages in between are
+ * optional. Back goes one stage, and is open to anyone who could move the job
+ * into or out of the current stage. The last stage is terminal.
+ */
+function getStageTransitions(stages: WorkflowStage[], index: number): StatusTransition[] {
+  const current = stages[index];
+  const transitions: StatusTransition[] = [];
+
+  if (index >= stages.length - 1) {
+    return transitions;
+  }
+
+  for (let next = index + 1; next < stages.length; next++) {
+    const target = stages[next];
+    const builtIn = isBuiltInStage(target) ? FORWARD_ACTIONS[target.status] : undefined;
+
+    transitions.push({
+      from: current.status,
+      to: target.status,
+      fromStage: current.id,
+      toStage: target.id,
+      stageLabel: target.label,
+      skips: stages.slice(index + 1, next).map(stage => stage.id),
+      action: builtIn?.action || 'moveToStage',
+      label: builtIn?.label || `Move to ${target.label}`,
+      icon: builtIn?.icon || '➡️',
+      direction: 'forward',
+      roles: getStageRoles(target),
+      prerequisites: getPrerequisites(current.status, target.status),
+    });
+
+    if (!target.optional) {
+      break;
+    }
+  }
+
+  if (index > 0) {
+    const previous = stages[index - 1];
+    const builtIn = isBuiltInStage(previous) ? BACK_ACTIONS[previous.status] : undefined;
+    const roles = Array.from(new Set([...getStageRoles(current), ...getStageRoles(stages[index + 1])]));
+
+    transitions.push({
+      from: current.status,
+      to: previous.status,
+      fromStage: current.id,
+      toStage: previous.id,
+      stageLabel: previous.label,
+      skips: [],
+      action: builtIn?.action || 'backToStage',
+      label: builtIn?.label || `Back to ${previous.label}`,
+      icon: '←',
+      direction: 'back',
+      roles,
+      prerequisites: [],
+    });
+  }
+
+  return transitions;
+}
+
+/**
+ * Every move out of the job's current stage for its pipeline
+ *
+ * Jobs whose status isn't in their pipeline (e.g. a QC_READY job whose
+ * service later dropped QC) fall back to the default pipeline.
+ */
+export function getTransitionsFrom(
+  job: TransitionSubject,
+  stages: WorkflowStage[] = DEFAULT_WORKFLOW_STAGES
+): StatusTransition[] {
+  const status = getSubjectStatus(job);
+  const noShow = NO_SHOW_TRANSITIONS.filter(transition => transition.from === status);
+
+  let pipeline = stages;
+  let stage = getJobStage(job, pipeline);
+  if (!stage) {
+    pipeline = DEFAULT_WORKFLOW_STAGES;
+    stage = getJobStage(job, pipeline);
+  }
+
+  const stageTransitions = stage ? getStageTransitions(pipeline, pipeline.indexOf(stage)) : [];
+  return [...stageTransitions, ...noShow];
+}
+
+/**
+ * Outgoing transitions for every work status on the default pipeline.
+ * Statuses with no entries are terminal (CANCELLED is only set by Square sync).
+ */
+export const STATUS_TRANSITIONS: Record<WorkStatus, StatusTransition[]> = Object.values(WorkStatus)
+  .reduce((table, status) => ({
+    ...table,
+    [status]: getTransitionsFrom({ status }),
+  }), {} as Record<WorkStatus, StatusTransition[]>);
+
+/**
+ * Current work status of a job (status is authoritative, workStatus is the UI alias)
+ */
+export function getSubjectStatus(job: TransitionSubject): WorkStatus {
+  return (job.status || job.workStatus || WorkStatus.SCHEDULED) as WorkStatus;
+}
+
+/**
+ * Required checklist items that are still unchecked
+ */
+export function getMissingRequiredItems(job: TransitionSubject, type: 'tech' | 'qc'): ChecklistSubjectItem[] {
+  return (job.checklist?.[type] || []).filter(item => item.isRequired !== false && !item.checked);
+}
+
+/**
+ * Check whether a prerequisite is satisfied (an empty checklist counts as complete)
+ */
+export function isPrerequisiteMet(job: TransitionSubject, prerequisite: TransitionPrerequisite): boolean {
+  switch (prerequisite) {
+    case 'CHECKIN_INSPECTION':
+      return isInspectionComplete(job);
+    case 'TECH_CHECKLIST_COMPLETE':
+      return getMissingRequiredItems(job, 'tech').length === 0;
+    case 'QC_CHECKLIST_COMPLETE':
+      return getMissingRequiredItems(job, 'qc').length === 0;
+    case 'NO_SHOW_RECORDED':
+      return job.noShow?.status === 'NO_SHOW';
+  }
+}
+
+/**
+ * Look up the transition from a job's current stage to a target stage (or status)
+ */
+export function getTransition(
+  job: TransitionSubject,
+  target: string,
+  stages?: WorkflowStage[]
+): StatusTransition | undefined {
+  const transitions = getTransitionsFrom(job, stages);
+  return transitions.find(transition => transition.toStage === target)
+    || transitions.find(transition => transition.to === target);
+}
+
+/**
+ * Check a status change for a user role against the job's pipeline
+ *
+ * @param job - Job in its current state (merge in any changes being saved alongside)
+ * @param target - Requested stage id, or work status for built-in stages
+ * @param role - Role of the user making the change
+ * @param stages - The service's pipeline (default pipeline if omitted)
+ * @returns Whether it is allowed, with every reason it is not
+ */
+export function checkTransition(
+  job: TransitionSubject,
+  target: string,
+  role: UserRole,
+  stages?: WorkflowStage[]
+): TransitionCheck {
+  const from = getSubjectStatus(job);
+  const fromStage = getJobStage(job, stages || DEFAULT_WORKFLOW_STAGES)?.id;
+  const transition = getTransition(job, target, stages);
+
+  if (!transition) {
+    const allowedTargets = getTransitionsFrom(job, stages).map(t => t.toStage);
+    return {
+      allowed: false,
+      from,
+      to: target as WorkStatus,
+      fromStage,
+      toStage: target,
+      rejections: [{
+        code: 'TRANSITION_NOT_ALLOWED',
+        message: TERMINAL_STATUS_MESSAGES[from] && allowedTargets.length === 0
+          ? TERMINAL_STATUS_MESSAGES[from]!
+          : `Cannot move a job from ${fromStage || from} to ${target}.` +
+            (allowedTargets.length > 0 ? ` Allowed: ${allowedTargets.join(', ')}.` : ''),
+      }],
+    };
+  }
+
+  const rejections: TransitionRejection[] = [];
+
+  if (!transition.roles.includes(role)) {
+    rejections.push({
+      code: 'ROLE_NOT_ALLOWED',
+      message: `Only ${transition.roles.join(' or ')} can move a job from ${transition.fromStage} to ${transition.toStage}.`,
+      allowedRoles: transition.roles,
+    });
+  }
+
+  transition.prerequisites
+    .filter(prerequisite => !isPrerequisiteMet(job, prerequisite))
+    .forEach(prerequisite => {
+      const checklistType = CHECKLIST_PREREQUISITES[prerequisite];
+      const missingItems = checklistType
+        ? getMissingRequiredItems(job, checklistType).map(({ id, label }) => ({ id, label }))
+        : undefined;
+
+      rejections.push({
+        code: 'PREREQUISITE_NOT_MET',
+        message: missingItems?.some(item => item.label)
+          ? `${PREREQUISITE_MESSAGES[prerequisite]} Missing: ${missingItems.map(item => item.label).join(', ')}.`
+          : PREREQUISITE_MESSAGES[prerequisite],
+        prerequisite,
+        ...(missingItems && { missingItems }),
+      });
+    });
+
+  return {
+    allowed: rejections.length === 0,
+    from,
+    to: transition.to,
+    fromStage: transition.fromStage,
+    toStage: transition.toStage,
+    transition,
+    rejections,
+  };
+}
+
+/**
+ * Whether a refused transition is only blocked by checklist items (so a
+ * manager could override it)
+ */
+export function isChecklistOverridable(check: TransitionCheck): boolean {
+  return !check.allowed && check.rejections.every(rejection =>
+    rejection.code === 'PREREQUISITE_NOT_MET' &&
+    OVERRIDABLE_PREREQUISITES.includes(rejection.prerequisite!)
+  );
+}
+
+/**
+ * Apply a manager's explicit checklist override to a transition check
+ *
+ * Only unchecked required checklist items can be overridden, only by a
+ * MANAGER, and only with a reason. Anything else is returned refused.
+ */
+export function applyChecklistOverride(
+  check: TransitionCheck,
+  role: UserRole,
+  reason: string | undefined
+): TransitionCheck {
+  if (check.allowed || !isChecklistOverridable(check)) {
+    return check;
+  }
+
+  if (role !== UserRole.MANAGER) {
+    return {
+      ...check,
+      rejections: [
+        ...check.rejections,
+        {
+          code: 'ROLE_NOT_ALLOWED',
+          message: 'Only MANAGER can override required checklist items.',
+          allowedRoles: MANAGER_ONLY,
+        },
+      ],
+    };
+  }
+
+  if (!reason?.trim()) {
+    return check;
+  }
+
+  return { ...check, allowed: true, rejections: [], overridden: check.rejections };
+}
+
+/**
+ * Transitions out of the job's current stage that the role may perform,
+ * each with its prerequisite check (for rendering enabled / disabled buttons)
+ */
+export function getAvailableTransitions(
+  job: TransitionSubject,
+  role: UserRole,
+  stages?: WorkflowStage[]
+): Array<StatusTransition & { check: TransitionCheck }> {
+  return getTransitionsFrom(job, stages)
+    .filter(transition => transition.roles.includes(role))
+    .map(transition => ({
+      ...transition,
+      check: checkTransition(job, transition.toStage, role, stages),
+    }));
+}
+
+/**
+ * Thrown when a status change breaks the transition table
+ */
+export class StatusTransitionError extends Error {
+  constructor(public readonly check: TransitionCheck) {
+    super(check.rejections.map(rejection => rejection.message).join(' '));
+    this.name = 'StatusTransitionError';
+  }
+
+  /**
+   * 403 when the only problem is the user's role, otherwise 400
+   */
+  get httpStatus(): number {
+    return this.check.rejections.every(rejection => rejection.code === 'ROLE_NOT_ALLOWED') ? 403 : 400;
+  }
+}
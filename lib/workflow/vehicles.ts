@@ -0,0 +1,102 @@
+/**
+ * Vehicle Profile Rules
+ *
+ * A vehicle profile is the car itself, independent of any one visit. Jobs
+ * are matched to a profile by VIN first (it never changes), then by
+ * normalized plate, and the profile keeps every customer who brought the
+ * car in so a family car or a resold car still shows its full history.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { UserRole, type UpdateVehicleRequest, type Vehicle, type VehicleCustomer } from '../types';
+
+/**
+ * Roles that can edit a vehicle's details and notes (everyone can view)
+ */
+export const VEHICLE_EDIT_ROLES: UserRole[] = [UserRole.MANAGER];
+
+/**
+ * Oldest model year accepted (anything older is almost certainly a typo)
+ */
+const MIN_VEHICLE_YEAR = 1900;
+
+/**
+ * "2020 Honda Civic (Blue)", or "Unknown vehicle" when nothing is recorded
+ */
+export function describeVehicle(vehicle: Pick<Vehicle, 'year' | 'make' | 'model' | 'color'>): string {
+  const name = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  if (!name) {
+    return vehicle.color ? `Unknown vehicle (${vehicle.color})` : 'Unknown vehicle';
+  }
+  return vehicle.color ? `${name} (${vehicle.color})` : name;
+}
+
+/**
+ * Record a visit by a customer: updates their entry (matched by Square
+ * customer ID, or by name for customers without one) and moves it first
+ */
+export function mergeVehicleCustomer(
+  customers: VehicleCustomer[],
+  customer: Pick<VehicleCustomer, 'customerId' | 'name' | 'phone'>,
+  seenAt: string
+): VehicleCustomer[] {
+  const isSame = (existing: VehicleCustomer) => customer.customerId
+    ? existing.customerId === customer.customerId
+    : !existing.customerId && existing.name.toLowerCase() === customer.name.toLowerCase();
+
+  const existing = customers.find(isSame);
+  const merged: VehicleCustomer = {
+    ...existing,
+    ...(customer.customerId && { customerId: customer.customerId }),
+    name: customer.name,
+    ...(customer.phone && { phone: customer.phone }),
+    firstSeenAt: existing && existing.firstSeenAt < seenAt ? existing.firstSeenAt : seenAt,
+    lastSeenAt: existing && existing.lastSeenAt > seenAt ? existing.lastSeenAt : seenAt,
+  };
+
+  return [merged, ...customers.filter(entry => !isSame(entry))]
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+/**
+ * Problems with a vehicle edit (empty when valid)
+ */
+export function validateVehicleUpdate(request: UpdateVehicleRequest, now: Date = new Date()): string[] {
+  const errors: string[] = [];
+
+  if (request.year !== undefined) {
+    const maxYear = now.getFullYear() + 1; // Next year's models go on sale early
+    if (!Number.isInteger(request.year) || request.year < MIN_VEHICLE_YEAR || request.year > maxYear) {
+      errors.push(`year must be between ${MIN_VEHICLE_YEAR} and ${maxYear}`);
+    }
+  }
+
+  for (const field of ['make', 'model', 'color', 'notes'] as const) {
+    if (request[field] !== undefined && typeof request[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  return errors;
+}
+
+export type VehicleErrorCode = 'INVALID_VEHICLE';
+
+/**
+ * Thrown when a vehicle edit is refused
+ */
+export class VehicleError extends Error {
+  constructor(
+    public readonly code: VehicleErrorCode,
+    message: string,
+    public readonly errors: string[] = [message]
+  ) {
+    super(message);
+    this.name = 'VehicleError';
+  }
+
+  get httpStatus(): number {
+    return 400;
+  }
+}
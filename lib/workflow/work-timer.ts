@@ -0,0 +1,204 @@
+/**
+ * Work Timer Rules
+ *
+ * The timer starts when a job enters IN_PROGRESS and stops when it leaves.
+ * Techs can pause it for breaks or while waiting on the customer. Labor is
+ * kept as segments so net minutes can be credited to whoever was working;
+ * laborMinutes/laborByTech are re-summed on every pause and stop.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import { WorkStatus, type LaborSegment, type TechLabor, type UserAudit, type WorkTimer } from '../types';
+
+const MS_PER_MINUTE = 60_000;
+
+function msBetween(from: string, to: string): number {
+  return Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+}
+
+function openSegment(user: UserAudit, now: string): LaborSegment {
+  return { userId: user.userId, name: user.name, startedAt: now };
+}
+
+function closeSegments(segments: LaborSegment[], now: string): LaborSegment[] {
+  return segments.map(segment => (segment.endedAt ? segment : { ...segment, endedAt: now }));
+}
+
+/**
+ * Net labor minutes overall and per tech (open segments count up to `now`)
+ */
+export function summarizeLabor(
+  segments: LaborSegment[],
+  now: string = new Date().toISOString()
+): Pick<WorkTimer, 'laborMinutes' | 'laborByTech'> {
+  const byTech = new Map<string, { name: string; ms: number }>();
+  let totalMs = 0;
+
+  for (const segment of segments) {
+    const ms = msBetween(segment.startedAt, segment.endedAt || now);
+    const entry = byTech.get(segment.userId) || { name: segment.name, ms: 0 };
+    entry.ms += ms;
+    byTech.set(segment.userId, entry);
+    totalMs += ms;
+  }
+
+  const laborByTech: TechLabor[] = Array.from(byTech, ([userId, { name, ms }]) => ({
+    userId,
+    name,
+    minutes: Math.round(ms / MS_PER_MINUTE),
+  }));
+
+  return { laborMinutes: Math.round(totalMs / MS_PER_MINUTE), laborByTech };
+}
+
+/**
+ * Net labor so far, including the running segment
+ */
+export function getTimerElapsedMs(timer: WorkTimer | null | undefined, now: number = Date.now()): number {
+  if (!timer) return 0;
+
+  return timer.segments.reduce(
+    (total, segment) => total + Math.max(0, (segment.endedAt ? new Date(segment.endedAt).getTime() : now) - new Date(segment.startedAt).getTime()),
+    0
+  );
+}
+
+export function isTimerRunning(timer: WorkTimer | null | undefined): boolean {
+  return !!timer && !timer.pausedAt && !timer.stoppedAt;
+}
+
+/**
+ * Start the timer, or restart a stopped one (e.g. sent back from QC).
+ * A running or paused timer is returned unchanged.
+ */
+export function startWorkTimer(
+  timer: WorkTimer | undefined,
+  user: UserAudit,
+  now: string = new Date().toISOString()
+): WorkTimer {
+  if (!timer) {
+    return {
+      startedAt: now,
+      totalPausedMs: 0,
+      segments: [openSegment(user, now)],
+      laborMinutes: 0,
+      laborByTech: [],
+    };
+  }
+
+  if (!timer.stoppedAt) {
+    return timer;
+  }
+
+  return {
+    ...timer,
+    stoppedAt: undefined,
+    pausedAt: undefined,
+    pauseReason: undefined,
+    totalPausedMs: timer.totalPausedMs + msBetween(timer.stoppedAt, now),
+    segments: [...timer.segments, openSegment(user, now)],
+  };
+}
+
+/**
+ * Stop the timer when the job leaves IN_PROGRESS, folding any open pause in
+ */
+export function stopWorkTimer(timer: WorkTimer, now: string = new Date().toISOString()): WorkTimer {
+  if (timer.stoppedAt) {
+    return timer;
+  }
+
+  const segments = closeSegments(timer.segments, now);
+
+  return {
+    ...timer,
+    pausedAt: undefined,
+    pauseReason: undefined,
+    totalPausedMs: timer.totalPausedMs + (timer.pausedAt ? msBetween(timer.pausedAt, now) : 0),
+    stoppedAt: now,
+    segments,
+    ...summarizeLabor(segments, now),
+  };
+}
+
+export function pauseWorkTimer(
+  timer: WorkTimer | undefined,
+  reason?: string,
+  now: string = new Date().toISOString()
+): WorkTimer {
+  if (!timer || !isTimerRunning(timer)) {
+    throw new WorkTimerError('TIMER_NOT_RUNNING', 'The work timer is not running.');
+  }
+
+  const segments = closeSegments(timer.segments, now);
+
+  return {
+    ...timer,
+    pausedAt: now,
+    pauseReason: reason?.trim() || undefined,
+    segments,
+    ...summarizeLabor(segments, now),
+  };
+}
+
+/**
+ * Resume a paused timer, crediting the new segment to whoever resumed it
+ */
+export function resumeWorkTimer(
+  timer: WorkTimer | undefined,
+  user: UserAudit,
+  now: string = new Date().toISOString()
+): WorkTimer {
+  if (!timer?.pausedAt || timer.stoppedAt) {
+    throw new WorkTimerError('TIMER_NOT_PAUSED', 'The work timer is not paused.');
+  }
+
+  return {
+    ...timer,
+    pausedAt: undefined,
+    pauseReason: undefined,
+    totalPausedMs: timer.totalPausedMs + msBetween(timer.pausedAt, now),
+    segments: [...timer.segments, openSegment(user, now)],
+  };
+}
+
+/**
+ * Timer update implied by a status change, or undefined if it is unaffected
+ */
+export function getTimerForStatusChange(
+  timer: WorkTimer | undefined,
+  from: WorkStatus,
+  to: WorkStatus,
+  user: UserAudit,
+  now: string = new Date().toISOString()
+): WorkTimer | undefined {
+  if (to === WorkStatus.IN_PROGRESS && from !== WorkStatus.IN_PROGRESS) {
+    return startWorkTimer(timer, user, now);
+  }
+
+  if (from === WorkStatus.IN_PROGRESS && to !== WorkStatus.IN_PROGRESS && timer) {
+    return stopWorkTimer(timer, now);
+  }
+
+  return undefined;
+}
+
+export type WorkTimerErrorCode = 'TIMER_NOT_RUNNING' | 'TIMER_NOT_PAUSED';
+
+/**
+ * Thrown when a pause or resume doesn't fit the timer's state
+ */
+export class WorkTimerError extends Error {
+  constructor(
+    public readonly code: WorkTimerErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WorkTimerError';
+  }
+
+  get httpStatus(): number {
+    return 409;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Table Setup Script: Customers
+ *
+ * Creates the customers table (partition key customerId, on-demand billing)
+ * that holds the tags and preferences managers add to Square customers.
+ * Records are created as managers flag customers, so there is nothing to
+ * backfill.
+ *
+ * Usage:
+ *   npx tsx scripts/create-customers-table.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be created without making changes
+ */
+
+import {
+  DynamoDBClient,
+  CreateTableCommand,
+  DescribeTableCommand,
+  waitUntilTableExists,
+} from '@aws-sdk/client-dynamodb';
+import { getConfig } from '../lib/config';
+
+async function tableExists(client: DynamoDBClient, tableName: string): Promise<boolean> {
+  try {
+    await client.send(new DescribeTableCommand({ TableName: tableName }));
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ResourceNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function createCustomersTable(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+  const tableName = config.aws.dynamodb.customersTable;
+
+  console.log('='.repeat(60));
+  console.log('Customers Table Setup');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Customers table: ${tableName}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will create table)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  const client = new DynamoDBClient({ region: config.aws.region });
+
+  if (await tableExists(client, tableName)) {
+    console.log(`✓ ${tableName} already exists`);
+    return;
+  }
+
+  if (dryRun) {
+    console.log(`Would create: ${tableName} (customerId)`);
+    return;
+  }
+
+  console.log(`Creating: ${tableName}`);
+
+  await client.send(new CreateTableCommand({
+    TableName: tableName,
+    BillingMode: 'PAY_PER_REQUEST',
+    AttributeDefinitions: [
+      { AttributeName: 'customerId', AttributeType: 'S' },
+    ],
+    KeySchema: [{ AttributeName: 'customerId', KeyType: 'HASH' }],
+  }));
+
+  await waitUntilTableExists({ client, maxWaitTime: 300 }, { TableName: tableName });
+  console.log(`✅ Created: ${tableName}`);
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+createCustomersTable(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
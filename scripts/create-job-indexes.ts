@@ -0,0 +1,345 @@
+/**
+ * Index Migration Script: Job lookup GSIs
+ *
+ * Creates the global secondary indexes used for job lookups (board date,
+ * customer, license plate, vehicle, booking, active jobs, open issues, pending
+ * refunds) and notification dedupe, then backfills the boardDate / plateNorm /
+ * activeKey / openIssueKey / pendingRefundKey key attributes on existing jobs.
+ *
+ * Usage:
+ *   npx tsx scripts/create-job-indexes.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be created/backfilled without making changes
+ */
+
+import {
+  DynamoDBClient,
+  DescribeTableCommand,
+  UpdateTableCommand,
+  type AttributeDefinition,
+  type KeySchemaElement,
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../lib/config';
+import { JOB_INDEXES } from '../lib/aws/dynamodb';
+import {
+  ACTIVE_KEY,
+  BOARD_CARRYOVER_STATUSES,
+  OPEN_ISSUE_KEY,
+  PENDING_REFUND_KEY,
+} from '../lib/repositories/index-keys';
+import { getOpenIssueCount } from '../lib/workflow/issues';
+import { getBoardDateForTimestamp } from '../lib/utils/timezone';
+import { normalizePlate } from '../lib/utils/vehicle';
+
+interface IndexSpec {
+  indexName: string;
+  hashKey: string;
+  rangeKey?: string;
+}
+
+/**
+ * Indexes required on the jobs table
+ */
+const JOB_INDEX_SPECS: IndexSpec[] = [
+  { indexName: JOB_INDEXES.bookingId, hashKey: 'bookingId' },
+  { indexName: JOB_INDEXES.boardDate, hashKey: 'boardDate', rangeKey: 'appointmentTime' },
+  { indexName: JOB_INDEXES.customerId, hashKey: 'customerId', rangeKey: 'appointmentTime' },
+  { indexName: JOB_INDEXES.plateNorm, hashKey: 'plateNorm', rangeKey: 'appointmentTime' },
+  { indexName: JOB_INDEXES.vehicleId, hashKey: 'vehicleId', rangeKey: 'appointmentTime' },
+  { indexName: JOB_INDEXES.openIssue, hashKey: 'openIssueKey', rangeKey: 'appointmentTime' },
+  // createdAt, not appointmentTime: jobs without an appointment must still be indexed
+  { indexName: JOB_INDEXES.active, hashKey: 'activeKey', rangeKey: 'createdAt' },
+  { indexName: JOB_INDEXES.pendingRefund, hashKey: 'pendingRefundKey', rangeKey: 'createdAt' },
+];
+
+/**
+ * Indexes required on the notifications table
+ */
+const NOTIFICATION_INDEX_SPECS: IndexSpec[] = [
+  { indexName: 'actor-createdAt-index', hashKey: 'actor', rangeKey: 'createdAt' },
+];
+
+/**
+ * Wait until the table and all of its indexes are ACTIVE
+ * (DynamoDB only allows one index creation at a time per table)
+ */
+async function waitForTableActive(client: DynamoDBClient, tableName: string): Promise<void> {
+  for (;;) {
+    const { Table } = await client.send(new DescribeTableCommand({ TableName: tableName }));
+    const indexesActive = (Table?.GlobalSecondaryIndexes || []).every(
+      gsi => gsi.IndexStatus === 'ACTIVE'
+    );
+
+    if (Table?.TableStatus === 'ACTIVE' && indexesActive) {
+      return;
+    }
+
+    console.log(`    Waiting for ${tableName} to become ACTIVE...`);
+    await new Promise(resolve => setTimeout(resolve, 10000));
+  }
+}
+
+/**
+ * Create any missing indexes on a table
+ */
+async function ensureIndexes(
+  client: DynamoDBClient,
+  tableName: string,
+  specs: IndexSpec[],
+  dryRun: boolean
+): Promise<void> {
+  console.log(`Table: ${tableName}`);
+
+  const { Table } = await client.send(new DescribeTableCommand({ TableName: tableName }));
+  const existing = new Set((Table?.GlobalSecondaryIndexes || []).map(gsi => gsi.IndexName));
+
+  for (const spec of specs) {
+    if (existing.has(spec.indexName)) {
+      console.log(`  ✓ ${spec.indexName} already exists`);
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`  Would create: ${spec.indexName} (${spec.hashKey}${spec.rangeKey ? ` + ${spec.rangeKey}` : ''})`);
+      continue;
+    }
+
+    console.log(`  Creating: ${spec.indexName}`);
+
+    const attributeDefinitions: AttributeDefinition[] = [
+      { AttributeName: spec.hashKey, AttributeType: 'S' },
+    ];
+    const keySchema: KeySchemaElement[] = [{ AttributeName: spec.hashKey, KeyType: 'HASH' }];
+
+    if (spec.rangeKey) {
+      attributeDefinitions.push({ AttributeName: spec.rangeKey, AttributeType: 'S' });
+      keySchema.push({ AttributeName: spec.rangeKey, KeyType: 'RANGE' });
+    }
+
+    await client.send(new UpdateTableCommand({
+      TableName: tableName,
+      AttributeDefinitions: attributeDefinitions,
+      GlobalSecondaryIndexUpdates: [
+        {
+          Create: {
+            IndexName: spec.indexName,
+            KeySchema: keySchema,
+            Projection: { ProjectionType: 'ALL' },
+          },
+        },
+      ],
+    }));
+
+    await waitForTableActive(client, tableName);
+    console.log(`  ✅ Created: ${spec.indexName}`);
+  }
+
+  console.log('');
+}
+
+/**
+ * Main migration function
+ */
+async function createJobIndexes(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+
+  console.log('='.repeat(60));
+  console.log('Job Index Migration: GSIs + key backfill');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Jobs table: ${config.aws.dynamodb.jobsTable}`);
+  console.log(`Notifications table: ${config.aws.dynamodb.notificationsTable}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will update tables)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  // Initialize DynamoDB client
+  const client = new DynamoDBClient({ region: config.aws.region });
+  const docClient = DynamoDBDocumentClient.from(client, {
+    marshallOptions: {
+      removeUndefinedValues: true,
+      convertEmptyValues: false,
+    },
+  });
+
+  // Step 1: Create indexes
+  try {
+    await ensureIndexes(client, config.aws.dynamodb.jobsTable, JOB_INDEX_SPECS, dryRun);
+    await ensureIndexes(client, config.aws.dynamodb.notificationsTable, NOTIFICATION_INDEX_SPECS, dryRun);
+  } catch (error: any) {
+    console.error('Error creating indexes:', error.message);
+    process.exit(1);
+  }
+
+  // Step 2: Backfill index key attributes
+  console.log('Scanning jobs for missing index keys...');
+  let scannedCount = 0;
+  let updatedCount = 0;
+  let errorCount = 0;
+  const jobsToUpdate: Array<{
+    jobId: string;
+    boardDate?: string;
+    plateNorm?: string;
+    activeKey?: string;
+    openIssueKey?: string;
+    pendingRefundKey?: string;
+    removeCustomerId: boolean;
+  }> = [];
+
+  try {
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const scanResult = await docClient.send(new ScanCommand({
+        TableName: config.aws.dynamodb.jobsTable,
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      const items = scanResult.Items || [];
+      scannedCount += items.length;
+
+      for (const item of items) {
+        const boardDate = item.appointmentTime
+          ? getBoardDateForTimestamp(item.appointmentTime)
+          : undefined;
+        const plateNorm = normalizePlate(item.vehicleInfo?.licensePlate);
+        // Sparse: only checked-in, unfinished jobs get the key
+        const activeKey = BOARD_CARRYOVER_STATUSES.includes(item.status || item.workStatus) ? ACTIVE_KEY : undefined;
+        // Sparse: only jobs with unresolved issues (including legacy postCompletionIssue) get the key
+        const openIssueKey = getOpenIssueCount(item as any) > 0 ? OPEN_ISSUE_KEY : undefined;
+        const pendingRefundKey = (item.refunds || []).some((refund: any) => refund.status === 'PENDING')
+          ? PENDING_REFUND_KEY
+          : undefined;
+        // Empty strings are not valid GSI key values
+        const removeCustomerId = item.customerId === '';
+
+        if (
+          item.boardDate !== boardDate ||
+          item.plateNorm !== plateNorm ||
+          item.activeKey !== activeKey ||
+          item.openIssueKey !== openIssueKey ||
+          item.pendingRefundKey !== pendingRefundKey ||
+          removeCustomerId
+        ) {
+          jobsToUpdate.push({ jobId: item.jobId, boardDate, plateNorm, activeKey, openIssueKey, pendingRefundKey, removeCustomerId });
+          console.log(`  Found: Job ${item.jobId} (boardDate: ${boardDate || '-'}, plateNorm: ${plateNorm || '-'}, activeKey: ${activeKey || '-'}, openIssueKey: ${openIssueKey || '-'}, pendingRefundKey: ${pendingRefundKey || '-'})`);
+        }
+      }
+
+      lastEvaluatedKey = scanResult.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+  } catch (error: any) {
+    console.error('Error scanning DynamoDB:', error.message);
+    process.exit(1);
+  }
+
+  // Summary
+  console.log('');
+  console.log('='.repeat(60));
+  console.log('Scan Complete');
+  console.log('='.repeat(60));
+  console.log(`Total jobs scanned: ${scannedCount}`);
+  console.log(`Jobs requiring backfill: ${jobsToUpdate.length}`);
+  console.log('');
+
+  if (jobsToUpdate.length === 0) {
+    console.log('✅ No jobs need backfill.');
+    return;
+  }
+
+  if (dryRun) {
+    console.log('⚠️  DRY RUN MODE - No changes will be made');
+    console.log('   Run without --dry-run to perform migration');
+    return;
+  }
+
+  console.log('Starting backfill...');
+  console.log('');
+
+  for (const job of jobsToUpdate) {
+    const setExpressions: string[] = [];
+    const removeExpressions: string[] = [];
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = {};
+
+    const keys = [
+      ['boardDate', job.boardDate],
+      ['plateNorm', job.plateNorm],
+      ['activeKey', job.activeKey],
+      ['openIssueKey', job.openIssueKey],
+      ['pendingRefundKey', job.pendingRefundKey],
+    ] as const;
+
+    for (const [key, value] of keys) {
+      expressionAttributeNames[`#${key}`] = key;
+      if (value) {
+        setExpressions.push(`#${key} = :${key}`);
+        expressionAttributeValues[`:${key}`] = value;
+      } else {
+        removeExpressions.push(`#${key}`);
+      }
+    }
+
+    if (job.removeCustomerId) {
+      expressionAttributeNames['#customerId'] = 'customerId';
+      removeExpressions.push('#customerId');
+    }
+
+    const updateExpression = [
+      setExpressions.length > 0 ? `SET ${setExpressions.join(', ')}` : '',
+      removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+    ].filter(Boolean).join(' ');
+
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: config.aws.dynamodb.jobsTable,
+        Key: { jobId: job.jobId },
+        UpdateExpression: updateExpression,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: Object.keys(expressionAttributeValues).length > 0
+          ? expressionAttributeValues
+          : undefined,
+      }));
+
+      updatedCount++;
+      console.log(`  ✅ Backfilled: ${job.jobId}`);
+    } catch (error: any) {
+      errorCount++;
+      console.error(`  ❌ Failed: ${job.jobId}`);
+      console.error(`     Error: ${error.message}`);
+    }
+  }
+
+  // Final summary
+  console.log('');
+  console.log('='.repeat(60));
+  console.log('Migration Complete');
+  console.log('='.repeat(60));
+  console.log(`Successfully backfilled: ${updatedCount}`);
+  console.log(`Errors: ${errorCount}`);
+  console.log('');
+
+  if (errorCount > 0) {
+    console.log('⚠️  Some jobs failed to backfill. Check errors above.');
+    process.exit(1);
+  } else {
+    console.log('✅ All jobs have index keys!');
+  }
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+// Run migration
+createJobIndexes(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,142 @@
+/**
+ * Table Setup Script: Shop Settings
+ *
+ * Creates the shop-settings table (partition key settingId, on-demand
+ * billing), then moves the bay list, no-show policy and tax rates saved in
+ * the checklist templates table (SHOP#BAYS, SHOP#NO_SHOW_POLICY,
+ * SHOP#TAX_CONFIG) into it.
+ *
+ * Usage:
+ *   npx tsx scripts/create-shop-settings-table.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be created/moved without making changes
+ */
+
+import {
+  DynamoDBClient,
+  CreateTableCommand,
+  DescribeTableCommand,
+  waitUntilTableExists,
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../lib/config';
+
+/**
+ * Settings saved alongside the checklist templates before they had their own table
+ */
+const LEGACY_SETTINGS = [
+  { templateId: 'SHOP#BAYS', settingId: 'BAYS' },
+  { templateId: 'SHOP#NO_SHOW_POLICY', settingId: 'NO_SHOW_POLICY' },
+  { templateId: 'SHOP#TAX_CONFIG', settingId: 'TAX_CONFIG' },
+];
+
+async function tableExists(client: DynamoDBClient, tableName: string): Promise<boolean> {
+  try {
+    await client.send(new DescribeTableCommand({ TableName: tableName }));
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ResourceNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function createShopSettingsTable(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+  const tableName = config.aws.dynamodb.shopSettingsTable;
+  const templatesTable = config.aws.dynamodb.checklistTemplatesTable;
+
+  console.log('='.repeat(60));
+  console.log('Shop Settings Table Setup');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Shop settings table: ${tableName}`);
+  console.log(`Checklist templates table: ${templatesTable}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will update tables)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  const client = new DynamoDBClient({ region: config.aws.region });
+  const docClient = DynamoDBDocumentClient.from(client, {
+    marshallOptions: {
+      removeUndefinedValues: true,
+      convertEmptyValues: false,
+    },
+  });
+
+  // Step 1: Create the table
+  if (await tableExists(client, tableName)) {
+    console.log(`✓ ${tableName} already exists`);
+  } else if (dryRun) {
+    console.log(`Would create: ${tableName} (settingId)`);
+  } else {
+    console.log(`Creating: ${tableName}`);
+
+    await client.send(new CreateTableCommand({
+      TableName: tableName,
+      BillingMode: 'PAY_PER_REQUEST',
+      AttributeDefinitions: [{ AttributeName: 'settingId', AttributeType: 'S' }],
+      KeySchema: [{ AttributeName: 'settingId', KeyType: 'HASH' }],
+    }));
+
+    await waitUntilTableExists({ client, maxWaitTime: 300 }, { TableName: tableName });
+    console.log(`✅ Created: ${tableName}`);
+  }
+
+  // Step 2: Move settings out of the checklist templates table
+  console.log('');
+  console.log('Moving settings from the checklist templates table...');
+
+  for (const legacy of LEGACY_SETTINGS) {
+    const { Item } = await docClient.send(new GetCommand({
+      TableName: templatesTable,
+      Key: { templateId: legacy.templateId },
+    }));
+
+    if (!Item) {
+      console.log(`  ✓ ${legacy.templateId} not found (nothing to move)`);
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`  Would move: ${legacy.templateId} -> ${legacy.settingId}`);
+      continue;
+    }
+
+    const { templateId, type, ...setting } = Item;
+    try {
+      await docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: { ...setting, settingId: legacy.settingId },
+        // Never overwrite a setting already saved in the new table
+        ConditionExpression: 'attribute_not_exists(settingId)',
+      }));
+      console.log(`  ✅ Moved: ${legacy.templateId} -> ${legacy.settingId}`);
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      console.log(`  ✓ ${legacy.settingId} already saved in ${tableName}; dropping the old copy`);
+    }
+
+    await docClient.send(new DeleteCommand({
+      TableName: templatesTable,
+      Key: { templateId },
+    }));
+  }
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+createShopSettingsTable(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
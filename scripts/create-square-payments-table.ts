@@ -0,0 +1,100 @@
+/**
+ * Table Setup Script: Square Payments
+ *
+ * Creates the square-payments table (partition key paymentId, on-demand
+ * billing) with the match status index used by the manual match queue.
+ * Records are created as payment webhooks arrive and the reconciler polls
+ * Square, so there is nothing to backfill.
+ *
+ * Usage:
+ *   npx tsx scripts/create-square-payments-table.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be created without making changes
+ */
+
+import {
+  DynamoDBClient,
+  CreateTableCommand,
+  DescribeTableCommand,
+  waitUntilTableExists,
+} from '@aws-sdk/client-dynamodb';
+import { getConfig } from '../lib/config';
+import { SQUARE_PAYMENT_INDEXES } from '../lib/aws/square-payments';
+
+async function tableExists(client: DynamoDBClient, tableName: string): Promise<boolean> {
+  try {
+    await client.send(new DescribeTableCommand({ TableName: tableName }));
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ResourceNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function createSquarePaymentsTable(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+  const tableName = config.aws.dynamodb.squarePaymentsTable;
+
+  console.log('='.repeat(60));
+  console.log('Square Payments Table Setup');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Square payments table: ${tableName}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will create table)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  const client = new DynamoDBClient({ region: config.aws.region });
+
+  if (await tableExists(client, tableName)) {
+    console.log(`✓ ${tableName} already exists`);
+    return;
+  }
+
+  if (dryRun) {
+    console.log(`Would create: ${tableName} (paymentId) with ${Object.values(SQUARE_PAYMENT_INDEXES).join(', ')}`);
+    return;
+  }
+
+  console.log(`Creating: ${tableName}`);
+
+  await client.send(new CreateTableCommand({
+    TableName: tableName,
+    BillingMode: 'PAY_PER_REQUEST',
+    AttributeDefinitions: [
+      { AttributeName: 'paymentId', AttributeType: 'S' },
+      { AttributeName: 'matchStatus', AttributeType: 'S' },
+      { AttributeName: 'createdAt', AttributeType: 'S' },
+    ],
+    KeySchema: [{ AttributeName: 'paymentId', KeyType: 'HASH' }],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: SQUARE_PAYMENT_INDEXES.matchStatus,
+        KeySchema: [
+          { AttributeName: 'matchStatus', KeyType: 'HASH' },
+          { AttributeName: 'createdAt', KeyType: 'RANGE' },
+        ],
+        Projection: { ProjectionType: 'ALL' },
+      },
+    ],
+  }));
+
+  await waitUntilTableExists({ client, maxWaitTime: 300 }, { TableName: tableName });
+  console.log(`✅ Created: ${tableName}`);
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+createSquarePaymentsTable(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,102 @@
+/**
+ * Table Setup Script: Vehicles
+ *
+ * Creates the vehicles table (partition key vehicleId, on-demand billing)
+ * with the plate and VIN lookup indexes used to match jobs to a car.
+ * Vehicle profiles are created as staff save vehicle info, so there is
+ * nothing to backfill.
+ *
+ * Usage:
+ *   npx tsx scripts/create-vehicles-table.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be created without making changes
+ */
+
+import {
+  DynamoDBClient,
+  CreateTableCommand,
+  DescribeTableCommand,
+  waitUntilTableExists,
+} from '@aws-sdk/client-dynamodb';
+import { getConfig } from '../lib/config';
+import { VEHICLE_INDEXES } from '../lib/aws/vehicles';
+
+async function tableExists(client: DynamoDBClient, tableName: string): Promise<boolean> {
+  try {
+    await client.send(new DescribeTableCommand({ TableName: tableName }));
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ResourceNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function createVehiclesTable(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+  const tableName = config.aws.dynamodb.vehiclesTable;
+
+  console.log('='.repeat(60));
+  console.log('Vehicles Table Setup');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Vehicles table: ${tableName}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will create table)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  const client = new DynamoDBClient({ region: config.aws.region });
+
+  if (await tableExists(client, tableName)) {
+    console.log(`✓ ${tableName} already exists`);
+    return;
+  }
+
+  if (dryRun) {
+    console.log(`Would create: ${tableName} (vehicleId) with ${Object.values(VEHICLE_INDEXES).join(', ')}`);
+    return;
+  }
+
+  console.log(`Creating: ${tableName}`);
+
+  await client.send(new CreateTableCommand({
+    TableName: tableName,
+    BillingMode: 'PAY_PER_REQUEST',
+    AttributeDefinitions: [
+      { AttributeName: 'vehicleId', AttributeType: 'S' },
+      { AttributeName: 'plateNorm', AttributeType: 'S' },
+      { AttributeName: 'vin', AttributeType: 'S' },
+    ],
+    KeySchema: [{ AttributeName: 'vehicleId', KeyType: 'HASH' }],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: VEHICLE_INDEXES.plateNorm,
+        KeySchema: [{ AttributeName: 'plateNorm', KeyType: 'HASH' }],
+        Projection: { ProjectionType: 'ALL' },
+      },
+      {
+        IndexName: VEHICLE_INDEXES.vin,
+        KeySchema: [{ AttributeName: 'vin', KeyType: 'HASH' }],
+        Projection: { ProjectionType: 'ALL' },
+      },
+    ],
+  }));
+
+  await waitUntilTableExists({ client, maxWaitTime: 300 }, { TableName: tableName });
+  console.log(`✅ Created: ${tableName}`);
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+createVehiclesTable(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,198 @@
+/**
+ * Data Migration Script: Backfill Job Add-ons
+ *
+ * Jobs booked before add-ons were stored on the job only list them in the
+ * "ADD-ONS REQUESTED" section of their notes. This reads that section into
+ * job.addons, taking catalog IDs and prices from the job's price breakdown
+ * or, failing that, from the Square catalog add-on with the same name.
+ * Jobs that already have add-ons are left alone.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-job-addons.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Show what would be migrated without making changes
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getConfig } from '../lib/config';
+import { listAddons, toJobAddon } from '../lib/square/catalog-api';
+import { addonsFromNotes, formatAddonName } from '../lib/workflow/addons';
+import type { Job, JobAddon } from '../lib/types';
+
+/**
+ * Add-ons the job was priced with (booked prices win over the catalog's)
+ */
+function getPricedAddons(job: Job): JobAddon[] {
+  return (job.priceBreakdown?.lines ?? [])
+    .filter(line => line.type === 'ADDON')
+    .map(line => ({
+      ...(line.catalogObjectId && { catalogObjectId: line.catalogObjectId }),
+      name: line.name,
+      quantity: 1,
+      priceCents: line.amountCents,
+    }));
+}
+
+/**
+ * Main migration function
+ */
+async function migrateJobAddons(dryRun: boolean = false): Promise<void> {
+  const config = getConfig();
+
+  console.log('='.repeat(60));
+  console.log('Job Add-ons Migration: notes → job.addons');
+  console.log('='.repeat(60));
+  console.log(`Environment: ${config.env.toUpperCase()}`);
+  console.log(`Table: ${config.aws.dynamodb.jobsTable}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes)' : 'LIVE (will update jobs)'}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  // Catalog add-ons fill in IDs and prices for jobs that were never priced
+  let catalogAddons: JobAddon[] = [];
+  try {
+    catalogAddons = (await listAddons()).map(addon => toJobAddon(addon));
+    console.log(`Loaded ${catalogAddons.length} add-ons from the Square catalog`);
+  } catch (error: any) {
+    console.warn('⚠️  Could not load Square catalog add-ons:', error.message);
+    console.warn('   Add-ons not on a price breakdown will be stored by name only');
+  }
+  console.log('');
+
+  // Initialize DynamoDB client
+  const client = new DynamoDBClient({ region: config.aws.region });
+  const docClient = DynamoDBDocumentClient.from(client, {
+    marshallOptions: {
+      removeUndefinedValues: true,
+      convertEmptyValues: false,
+    },
+  });
+
+  // Scan all jobs
+  console.log('Scanning DynamoDB for jobs with add-ons in their notes...');
+  let scannedCount = 0;
+  let migratedCount = 0;
+  let errorCount = 0;
+  const jobsToMigrate: Array<{ jobId: string; addons: JobAddon[] }> = [];
+
+  try {
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const scanResult = await docClient.send(new ScanCommand({
+        TableName: config.aws.dynamodb.jobsTable,
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      const items = (scanResult.Items || []) as Job[];
+      scannedCount += items.length;
+
+      for (const job of items) {
+        if (job.addons) continue;
+
+        const addons = addonsFromNotes(job.notes, [...getPricedAddons(job), ...catalogAddons]);
+        if (addons.length === 0) continue;
+
+        jobsToMigrate.push({ jobId: job.jobId, addons });
+
+        console.log(`  Found: Job ${job.jobId}`);
+        addons.forEach(addon => {
+          const price = addon.priceCents !== undefined ? `$${(addon.priceCents / 100).toFixed(2)}` : 'no price';
+          console.log(`    • ${formatAddonName(addon)} (${addon.catalogObjectId || 'no catalog ID'}, ${price})`);
+        });
+        console.log('');
+      }
+
+      lastEvaluatedKey = scanResult.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+  } catch (error: any) {
+    console.error('Error scanning DynamoDB:', error.message);
+    process.exit(1);
+  }
+
+  // Summary
+  console.log('='.repeat(60));
+  console.log('Scan Complete');
+  console.log('='.repeat(60));
+  console.log(`Total jobs scanned: ${scannedCount}`);
+  console.log(`Jobs requiring migration: ${jobsToMigrate.length}`);
+  console.log('');
+
+  if (jobsToMigrate.length === 0) {
+    console.log('✅ No jobs need migration. Every job with add-ons has them stored.');
+    return;
+  }
+
+  // Perform migration
+  if (dryRun) {
+    console.log('⚠️  DRY RUN MODE - No changes will be made');
+    console.log('   Run without --dry-run to perform migration');
+    return;
+  }
+
+  console.log('Starting migration...');
+  console.log('');
+
+  for (const job of jobsToMigrate) {
+    try {
+      // Only set add-ons that are still missing (a booking update may have stored them since the scan)
+      await docClient.send(new UpdateCommand({
+        TableName: config.aws.dynamodb.jobsTable,
+        Key: { jobId: job.jobId },
+        UpdateExpression: 'SET #addons = :addons',
+        ConditionExpression: 'attribute_not_exists(#addons)',
+        ExpressionAttributeNames: {
+          '#addons': 'addons',
+        },
+        ExpressionAttributeValues: {
+          ':addons': job.addons,
+        },
+      }));
+
+      migratedCount++;
+      console.log(`  ✅ Migrated: ${job.jobId} (${job.addons.length} add-ons)`);
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        console.log(`  ⏭️  Skipped: ${job.jobId} (add-ons stored since the scan)`);
+        continue;
+      }
+      errorCount++;
+      console.error(`  ❌ Failed: ${job.jobId}`);
+      console.error(`     Error: ${error.message}`);
+      console.log('');
+    }
+  }
+
+  // Final summary
+  console.log('');
+  console.log('='.repeat(60));
+  console.log('Migration Complete');
+  console.log('='.repeat(60));
+  console.log(`Successfully migrated: ${migratedCount}`);
+  console.log(`Errors: ${errorCount}`);
+  console.log('');
+
+  if (errorCount > 0) {
+    console.log('⚠️  Some jobs failed to migrate. Check errors above.');
+    process.exit(1);
+  } else {
+    console.log('✅ All jobs with add-ons in their notes now have them stored.');
+  }
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+// Run migration
+migrateJobAddons(dryRun)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -32,7 +32,11 @@ const PROD_PREFIX = 'safari-detail-ops-prod';
 const TABLES = [
   { name: 'jobs', qaTable: `${QA_PREFIX}-jobs`, prodTable: `${PROD_PREFIX}-jobs` },
   { name: 'users', qaTable: `${QA_PREFIX}-users`, prodTable: `${PROD_PREFIX}-users` },
+  { name: 'vehicles', qaTable: `${QA_PREFIX}-vehicles`, prodTable: `${PROD_PREFIX}-vehicles` },
+  { name: 'customers', qaTable: `${QA_PREFIX}-customers`, prodTable: `${PROD_PREFIX}-customers` },
+  { name: 'square-payments', qaTable: `${QA_PREFIX}-square-payments`, prodTable: `${PROD_PREFIX}-square-payments` },
   { name: 'checklist-templates', qaTable: `${QA_PREFIX}-checklist-templates`, prodTable: `${PROD_PREFIX}-checklist-templates` },
+  { name: 'shop-settings', qaTable: `${QA_PREFIX}-shop-settings`, prodTable: `${PROD_PREFIX}-shop-settings` },
 ];
 
 // Colors for output
@@ -21,7 +21,7 @@ process.env.SQUARE_ENV = 'production';
 import { retrieveBooking } from '../lib/square/bookings-api';
 import { fetchCustomerDetails, formatCustomerName, extractCustomerContact } from '../lib/square/customers-api';
 import { fetchServiceName } from '../lib/square/catalog-api';
-import { retrieveOrder } from '../lib/square/orders-api';
+import { retrieveOrder, toJobAddons } from '../lib/square/orders-api';
 import { getJob, getJobByBookingId } from '../lib/aws/dynamodb';
 import { createJobFromBooking, updateJobFromBooking } from '../lib/services/job-service';
 import type { ParsedBooking } from '../lib/square/booking-parser';
@@ -118,9 +118,8 @@ async function syncBooking(bookingId: string) {
           );
           
           if (addonItems.length > 0) {
-            const addonNames = addonItems
-              .map(item => item.name || 'Unknown Add-on')
-              .filter(name => name);
+            parsedBooking.addons = toJobAddons(addonItems);
+            const addonNames = parsedBooking.addons.map(addon => addon.name);
             
             const addonsText = `\n\n✅ ADD-ONS REQUESTED:\n${addonNames.map(name => `• ${name}`).join('\n')}\n\n⚠️ Add-ons charged separately`;
             parsedBooking.notes = (parsedBooking.notes + addonsText).trim();
@@ -2,8 +2,9 @@
  * Integration Test for Phase C - AWS DynamoDB and S3 Operations
  * 
  * Run with: npm run test:integration
+ * Offline (job tests only, no AWS): DATA_STORE=memory npm run test:integration
  * 
- * Prerequisites:
+ * Prerequisites (DynamoDB data store):
  * - AWS credentials configured (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY)
  * - APP_ENV=qa in .env
  * - DynamoDB table: safari-detail-ops-qa-jobs (created)
@@ -14,7 +15,8 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
-import * as dynamodb from '../lib/aws/dynamodb';
+import { getConfig } from '../lib/config';
+import { jobRepository } from '../lib/repositories';
 import * as s3 from '../lib/aws/s3';
 import * as jobService from '../lib/services/job-service';
 import { WorkStatus } from '../lib/types';
@@ -24,10 +26,13 @@ console.log('🧪 Testing Phase C - AWS Integration\n');
 
 async function runTests() {
   let testJobId: string | undefined;
+  // S3 has no offline implementation, so photo tests only run against AWS
+  const useAws = getConfig().dataStore.driver === 'dynamodb';
+  const storeName = useAws ? 'DynamoDB' : `${getConfig().dataStore.driver} store`;
 
   try {
-    // Test 1: Create a job in DynamoDB
-    console.log('Test 1: Create job in DynamoDB');
+    // Test 1: Create a job in the data store
+    console.log(`Test 1: Create job in ${storeName}`);
     const newJob: Job = {
       jobId: 'test-job-' + Date.now(),
       customerId: 'TEST_CUST_123',
@@ -51,22 +56,22 @@ async function runTests() {
       createdBy: 'integration-test',
     };
 
-    const createdJob = await dynamodb.createJob(newJob);
+    const createdJob = await jobRepository.createJob(newJob);
     testJobId = createdJob.jobId;
     console.log(`✓ Job created: ${testJobId}\n`);
 
-    // Test 2: Get job from DynamoDB
-    console.log('Test 2: Get job from DynamoDB');
-    const retrievedJob = await dynamodb.getJob(testJobId);
+    // Test 2: Get job from the data store
+    console.log(`Test 2: Get job from ${storeName}`);
+    const retrievedJob = await jobRepository.getJob(testJobId);
     if (retrievedJob && retrievedJob.jobId === testJobId) {
       console.log(`✓ Job retrieved: ${retrievedJob.jobId}\n`);
     } else {
       throw new Error('Job retrieval failed');
     }
 
-    // Test 3: Update job in DynamoDB
-    console.log('Test 3: Update job in DynamoDB');
-    const updatedJob = await dynamodb.updateJob(testJobId, {
+    // Test 3: Update job in the data store
+    console.log(`Test 3: Update job in ${storeName}`);
+    const updatedJob = await jobRepository.updateJob(testJobId, {
       status: WorkStatus.IN_PROGRESS,
       notes: 'Updated via integration test',
     });
@@ -76,56 +81,60 @@ async function runTests() {
       throw new Error('Job update failed');
     }
 
-    // Test 4: List jobs from DynamoDB
-    console.log('Test 4: List jobs from DynamoDB');
-    const { jobs } = await dynamodb.listJobs({ limit: 10 });
+    // Test 4: List jobs from the data store
+    console.log(`Test 4: List jobs from ${storeName}`);
+    const { jobs } = await jobRepository.listJobs({ limit: 10 });
     if (jobs.length > 0) {
       console.log(`✓ Found ${jobs.length} jobs\n`);
     } else {
       console.log(`✓ Jobs list returned (may be empty)\n`);
     }
 
-    // Test 5: Generate S3 upload URL
-    console.log('Test 5: Generate S3 upload URL');
-    const { url, key } = await s3.generateUploadUrl(
-      testJobId,
-      'test-photo.jpg',
-      'image/jpeg'
-    );
-    if (url && key) {
-      console.log(`✓ Upload URL generated`);
-      console.log(`  Photo key: ${key}\n`);
-    } else {
-      throw new Error('S3 upload URL generation failed');
-    }
-
-    // Test 6: Upload test photo to S3
-    console.log('Test 6: Upload test photo to S3');
-    const testPhotoContent = Buffer.from('Test photo content');
-    const photoKey = await s3.uploadPhoto(
-      testJobId,
-      'test-upload.jpg',
-      testPhotoContent,
-      'image/jpeg'
-    );
-    console.log(`✓ Photo uploaded: ${photoKey}\n`);
+    if (useAws) {
+      // Test 5: Generate S3 upload URL
+      console.log('Test 5: Generate S3 upload URL');
+      const { url, key } = await s3.generateUploadUrl(
+        testJobId,
+        'test-photo.jpg',
+        'image/jpeg'
+      );
+      if (url && key) {
+        console.log(`✓ Upload URL generated`);
+        console.log(`  Photo key: ${key}\n`);
+      } else {
+        throw new Error('S3 upload URL generation failed');
+      }
 
-    // Test 7: Generate download URL
-    console.log('Test 7: Generate S3 download URL');
-    const downloadUrl = await s3.generateDownloadUrl(photoKey, 3600);
-    if (downloadUrl) {
-      console.log(`✓ Download URL generated (expires in 1 hour)\n`);
-    } else {
-      throw new Error('S3 download URL generation failed');
-    }
+      // Test 6: Upload test photo to S3
+      console.log('Test 6: Upload test photo to S3');
+      const testPhotoContent = Buffer.from('Test photo content');
+      const photoKey = await s3.uploadPhoto(
+        testJobId,
+        'test-upload.jpg',
+        testPhotoContent,
+        'image/jpeg'
+      );
+      console.log(`✓ Photo uploaded: ${photoKey}\n`);
+
+      // Test 7: Generate download URL
+      console.log('Test 7: Generate S3 download URL');
+      const downloadUrl = await s3.generateDownloadUrl(photoKey, 3600);
+      if (downloadUrl) {
+        console.log(`✓ Download URL generated (expires in 1 hour)\n`);
+      } else {
+        throw new Error('S3 download URL generation failed');
+      }
 
-    // Test 8: List job photos
-    console.log('Test 8: List job photos from S3');
-    const photoKeys = await s3.listJobPhotos(testJobId);
-    if (photoKeys.length > 0) {
-      console.log(`✓ Found ${photoKeys.length} photos for job\n`);
+      // Test 8: List job photos
+      console.log('Test 8: List job photos from S3');
+      const photoKeys = await s3.listJobPhotos(testJobId);
+      if (photoKeys.length > 0) {
+        console.log(`✓ Found ${photoKeys.length} photos for job\n`);
+      } else {
+        console.log(`⚠ No photos found (this may be expected)\n`);
+      }
     } else {
-      console.log(`⚠ No photos found (this may be expected)\n`);
+      console.log('Tests 5-8: Skipped (S3 requires the DynamoDB data store)\n');
     }
 
     // Test 9: Job service integration
@@ -151,18 +160,24 @@ async function runTests() {
     }
 
     console.log('✅ All Phase C integration tests passed!\n');
-    console.log('AWS Resources Verified:');
-    console.log('- ✓ DynamoDB: safari-detail-ops-qa-jobs');
-    console.log('- ✓ S3: safari-detail-ops-qa-photos');
+    if (useAws) {
+      console.log('AWS Resources Verified:');
+      console.log('- ✓ DynamoDB: safari-detail-ops-qa-jobs');
+      console.log('- ✓ S3: safari-detail-ops-qa-photos');
+    } else {
+      console.log(`Data store verified: ${storeName}`);
+    }
     console.log('\nCleanup:');
     console.log(`Test job ID: ${testJobId}`);
     console.log('Run cleanup to remove test data...\n');
 
     // Cleanup
     console.log('Cleaning up test data...');
-    await s3.deleteJobPhotos(testJobId);
-    console.log('✓ Deleted test photos');
-    await dynamodb.deleteJob(testJobId);
+    if (useAws) {
+      await s3.deleteJobPhotos(testJobId);
+      console.log('✓ Deleted test photos');
+    }
+    await jobRepository.deleteJob(testJobId);
     console.log('✓ Deleted test job');
     console.log('\n✅ Cleanup complete!');
 
@@ -174,8 +189,10 @@ async function runTests() {
     if (testJobId) {
       console.log('\nAttempting cleanup...');
       try {
-        await s3.deleteJobPhotos(testJobId).catch(() => {});
-        await dynamodb.deleteJob(testJobId).catch(() => {});
+        if (useAws) {
+          await s3.deleteJobPhotos(testJobId).catch(() => {});
+        }
+        await jobRepository.deleteJob(testJobId).catch(() => {});
         console.log('✓ Cleanup complete');
       } catch (cleanupError) {
         console.error('⚠ Cleanup failed:', cleanupError);
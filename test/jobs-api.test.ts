@@ -0,0 +1,2041 @@
+/**
+ * API Tests for the Jobs Routes (offline)
+ *
+ * Runs the real route handlers against the in-memory data store,
+ * so no AWS credentials or tables are needed.
+ *
+ * Run with: npm run test:api
+ */
+
+process.env.DATA_STORE = 'memory';
+
+import { NextRequest } from 'next/server';
+import { GET as listJobsRoute } from '../app/api/jobs/route';
+import { GET as getJobRoute } from '../app/api/jobs/[jobId]/route';
+import { jobRepository, vehicleRepository, VersionConflictError } from '../lib/repositories';
+import { StatusTransitionError } from '../lib/workflow/status-transitions';
+import {
+  updateJobWithAudit,
+  listBoardJobs,
+  commitPhotosToJob,
+  updateCheckinInspection,
+  completeCheckinInspection,
+  updateWorkTimer,
+  rejectQc,
+  assignJob,
+  assignBay,
+  chargeNoShowFee,
+  openIssue,
+  updateIssue,
+  addIssueComment,
+  listOpenIssues,
+  scheduleRedo,
+  createJobFromBooking,
+  updateJobFromBooking,
+  applyDiscount,
+  removeDiscount,
+  recordPayment,
+  voidPaymentEntry,
+  refundPayment,
+} from '../lib/services/job-service';
+import { InspectionError } from '../lib/workflow/inspection';
+import {
+  startWorkTimer,
+  pauseWorkTimer,
+  resumeWorkTimer,
+  stopWorkTimer,
+  isTimerRunning,
+  WorkTimerError,
+} from '../lib/workflow/work-timer';
+import { buildLaborReport } from '../lib/services/labor-service';
+import { buildPerformanceReport } from '../lib/services/performance-service';
+import { QcRejectError } from '../lib/workflow/qc-reject';
+import { saveWorkflow, InvalidWorkflowError } from '../lib/services/workflow-service';
+import { createUser, updateUserSquareTeamMember, updateUserDispatchProfile } from '../lib/services/user-service';
+import { AssignmentError, getAssignmentFromTeamMembers } from '../lib/workflow/assignment';
+import { buildDispatchPlan, validateShifts, type DispatchTech } from '../lib/workflow/dispatch';
+import { getDispatchPlan, applyDispatchPlan } from '../lib/services/dispatch-service';
+import { saveBays, checkBayCapacityForSlot, getBayOccupancyForDate } from '../lib/services/bay-service';
+import { BayError, checkBayCapacity } from '../lib/workflow/bays';
+import { saveNoShowPolicy } from '../lib/services/no-show-service';
+import { calculateNoShowFee, NoShowChargeError } from '../lib/workflow/no-show';
+import { setPaymentsClient } from '../lib/square/payments-api';
+import { createFakePaymentsClient } from '../lib/square/fake-payments';
+import { IssueError, getJobIssues, threadIssueComments } from '../lib/workflow/issues';
+import { RedoError, getDefaultRedoItemIds } from '../lib/workflow/redo';
+import { DEFAULT_WORKFLOW_STAGES } from '../lib/workflow/pipelines';
+import { VehicleError } from '../lib/workflow/vehicles';
+import { getVehicleHistory, updateVehicleDetails } from '../lib/services/vehicle-service';
+import { normalizeMake, normalizeVin } from '../lib/utils/vehicle';
+import { decodeVin, validateVin } from '../lib/utils/vin';
+import { buildCustomerStats, findCustomers, getCustomerProfile, updateCustomerFlags } from '../lib/services/customer-service';
+import { CustomerFlagsError, normalizeCustomerTags } from '../lib/workflow/customer-flags';
+import {
+  ignorePayment,
+  listUnmatchedPayments,
+  matchPaymentManually,
+  recordSquarePayment,
+  recordSquareRefund,
+  syncSquarePayments,
+  syncSquareRefunds,
+} from '../lib/services/square-payment-service';
+import { PaymentMatchError } from '../lib/workflow/payment-matching';
+import { squarePaymentRepository } from '../lib/repositories';
+import { getTaxConfig, priceBooking, saveTaxConfig } from '../lib/services/pricing-service';
+import { buildPriceBreakdown, getTaxRatePercent, PricingError } from '../lib/workflow/pricing';
+import { addonsFromNotes, formatAddonName, getJobAddons, parseAddonNamesFromNotes } from '../lib/workflow/addons';
+import { toJobAddons } from '../lib/square/orders-api';
+import { DiscountError, validateDiscount } from '../lib/workflow/discounts';
+import {
+  getBalanceDueCents,
+  getPaidCents,
+  getRefundedCents,
+  PaymentLedgerError,
+  validateRefund,
+  validateTip,
+} from '../lib/workflow/payment-ledger';
+import { WorkStatus, PaymentStatus, UserRole } from '../lib/types';
+import type { Job, SquarePaymentDetails, UserAudit } from '../lib/types';
+
+let failures = 0;
+
+function check(label: string, passed: boolean): void {
+  if (!passed) {
+    failures++;
+  }
+  console.log(`  ${label}:`, passed ? '✅ PASS' : '❌ FAIL');
+}
+
+/**
+ * Helper to seed a test job
+ */
+async function seedJob(
+  jobId: string,
+  appointmentTime: string,
+  status: WorkStatus
+): Promise<Job> {
+  return jobRepository.createJob({
+    jobId,
+    customerId: 'test-customer',
+    customerName: 'Test Customer',
+    vehicleInfo: { licensePlate: 'abc 123' },
+    serviceType: 'Test Service',
+    status,
+    appointmentTime,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+const manager: UserAudit = {
+  userId: 'test-manager',
+  name: 'Test Manager',
+  role: UserRole.MANAGER,
+};
+
+async function runTests() {
+  // 10am / 11am EST on Feb 23, plus an unfinished job from the day before
+  await seedJob('today-1', '2026-02-23T15:00:00.000Z', WorkStatus.SCHEDULED);
+  await seedJob('today-2', '2026-02-23T16:00:00.000Z', WorkStatus.SCHEDULED);
+  await seedJob('yesterday-active', '2026-02-22T15:00:00.000Z', WorkStatus.IN_PROGRESS);
+  await seedJob('yesterday-done', '2026-02-22T16:00:00.000Z', WorkStatus.WORK_COMPLETED);
+
+  /**
+   * Test Suite 1: GET /api/jobs
+   */
+  console.log('\n=== Test Suite 1: GET /api/jobs ===\n');
+
+  console.log('Test 1.1: Board date query');
+  const listResponse = await listJobsRoute(
+    new NextRequest('http://localhost/api/jobs?boardDate=2026-02-23')
+  );
+  const listBody = await listResponse.json();
+  const listedIds = listBody.data.jobs.map((job: Job) => job.jobId).sort();
+  check('Status 200', listResponse.status === 200);
+  check('Includes today and carried-over active jobs',
+    JSON.stringify(listedIds) === JSON.stringify(['today-1', 'today-2', 'yesterday-active']));
+
+  console.log('\nTest 1.2: Status filter');
+  const statusResponse = await listJobsRoute(
+    new NextRequest('http://localhost/api/jobs?boardDate=2026-02-23&status=IN_PROGRESS')
+  );
+  const statusBody = await statusResponse.json();
+  check('Only IN_PROGRESS jobs',
+    statusBody.data.jobs.length === 1 && statusBody.data.jobs[0].jobId === 'yesterday-active');
+
+  /**
+   * Test Suite 2: GET /api/jobs/[jobId]
+   */
+  console.log('\n\n=== Test Suite 2: GET /api/jobs/[jobId] ===\n');
+
+  console.log('Test 2.1: Existing job');
+  const getResponse = await getJobRoute(
+    new NextRequest('http://localhost/api/jobs/today-1'),
+    { params: { jobId: 'today-1' } }
+  );
+  const getBody = await getResponse.json();
+  check('Status 200', getResponse.status === 200);
+  check('Returns job with index keys',
+    getBody.data.jobId === 'today-1' && getBody.data.boardDate === '2026-02-23' && getBody.data.version === 1);
+
+  console.log('\nTest 2.2: Missing job');
+  const missingResponse = await getJobRoute(
+    new NextRequest('http://localhost/api/jobs/nope'),
+    { params: { jobId: 'nope' } }
+  );
+  const missingBody = await missingResponse.json();
+  check('Status 404', missingResponse.status === 404);
+  check('JOB_NOT_FOUND', missingBody.error?.code === 'JOB_NOT_FOUND');
+
+  /**
+   * Test Suite 3: Job service
+   */
+  console.log('\n\n=== Test Suite 3: Job Service ===\n');
+
+  console.log('Test 3.1: Update bumps version');
+  const updated = await updateJobWithAudit('today-1', { notes: 'First note', expectedVersion: 1 }, manager);
+  check('Version 2', updated?.version === 2);
+
+  console.log('\nTest 3.2: Stale expectedVersion is rejected');
+  let conflict: unknown;
+  try {
+    await updateJobWithAudit('today-1', { notes: 'Stale note', expectedVersion: 1 }, manager);
+  } catch (error) {
+    conflict = error;
+  }
+  check('Throws VersionConflictError',
+    conflict instanceof VersionConflictError && conflict.currentVersion === 2);
+  check('Job unchanged', (await jobRepository.getJob('today-1'))?.notes === 'First note');
+
+  console.log('\nTest 3.3: Plate lookup uses normalized plate');
+  const { jobs: plateJobs } = await jobRepository.queryJobsByPlate('ABC-123');
+  check('Finds all four jobs', plateJobs.length === 4);
+
+  console.log('\nTest 3.4: Board carry-over');
+  const boardJobs = await listBoardJobs('2026-02-24');
+  check('Only unfinished jobs carry over',
+    boardJobs.length === 1 && boardJobs[0].jobId === 'yesterday-active');
+
+  await jobRepository.createJob({
+    jobId: 'walk-in-active',
+    customerId: 'walk-in-customer',
+    customerName: 'Walk-in Customer',
+    vehicleInfo: { licensePlate: 'WALK 1' },
+    serviceType: 'Test Service',
+    status: WorkStatus.CHECKED_IN,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+  await seedJob('last-week-active', '2026-02-16T15:00:00.000Z', WorkStatus.QC_READY);
+  const laterBoardIds = (await listBoardJobs('2026-02-24')).map(job => job.jobId).sort();
+  check('Jobs with no appointment or from weeks ago stay on the board',
+    laterBoardIds.join() === 'last-week-active,walk-in-active,yesterday-active');
+  await updateJobWithAudit('last-week-active', { workStatus: WorkStatus.WORK_COMPLETED }, manager);
+  check('Finished jobs leave the active index',
+    !(await listBoardJobs('2026-02-24')).some(job => job.jobId === 'last-week-active'));
+  await jobRepository.deleteJob('walk-in-active');
+  await jobRepository.deleteJob('last-week-active');
+
+  /**
+   * Test Suite 4: Status state machine
+   */
+  console.log('\n\n=== Test Suite 4: Status State Machine ===\n');
+
+  const tech: UserAudit = { userId: 'test-tech', name: 'Test Tech', role: UserRole.TECH };
+
+  console.log('Test 4.1: Skipping ahead is rejected');
+  let skipError: unknown;
+  try {
+    await updateJobWithAudit('today-2', { workStatus: WorkStatus.WORK_COMPLETED }, manager);
+  } catch (error) {
+    skipError = error;
+  }
+  check('TRANSITION_NOT_ALLOWED',
+    skipError instanceof StatusTransitionError &&
+    skipError.check.rejections[0]?.code === 'TRANSITION_NOT_ALLOWED');
+
+  console.log('\nTest 4.2: Check in, then start work without the check-in inspection');
+  await updateJobWithAudit('today-2', { workStatus: WorkStatus.CHECKED_IN }, tech);
+  let photoError: unknown;
+  try {
+    await updateJobWithAudit('today-2', { workStatus: WorkStatus.IN_PROGRESS }, tech);
+  } catch (error) {
+    photoError = error;
+  }
+  check('PREREQUISITE_NOT_MET (CHECKIN_INSPECTION)',
+    photoError instanceof StatusTransitionError &&
+    photoError.check.rejections[0]?.prerequisite === 'CHECKIN_INSPECTION');
+
+  console.log('\nTest 4.3: Tech cannot complete QC');
+  await jobRepository.updateJob('today-2', { status: WorkStatus.QC_READY });
+  let roleError: unknown;
+  try {
+    await updateJobWithAudit('today-2', { workStatus: WorkStatus.WORK_COMPLETED }, tech);
+  } catch (error) {
+    roleError = error;
+  }
+  check('ROLE_NOT_ALLOWED (403)',
+    roleError instanceof StatusTransitionError && roleError.httpStatus === 403);
+
+  console.log('\nTest 4.4: Completed jobs are terminal');
+  const completed = await updateJobWithAudit('today-2', { workStatus: WorkStatus.WORK_COMPLETED }, manager);
+  let backError: unknown;
+  try {
+    await updateJobWithAudit('today-2', { workStatus: WorkStatus.QC_READY }, manager);
+  } catch (error) {
+    backError = error;
+  }
+  check('Manager completes, then cannot move back',
+    completed?.status === WorkStatus.WORK_COMPLETED && backError instanceof StatusTransitionError);
+
+  console.log('\nTest 4.5: No-op and Square status changes');
+  const sameStatus = await updateJobWithAudit('today-2', { workStatus: WorkStatus.WORK_COMPLETED }, manager);
+  check('Same status again adds no history', sameStatus?.statusHistory?.length === completed?.statusHistory?.length);
+  await seedJob('square-status-1', '2026-03-15T15:00:00.000Z', WorkStatus.QC_READY);
+  await seedJob('square-status-2', '2026-03-15T16:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  await seedJob('square-status-3', '2026-03-15T17:00:00.000Z', WorkStatus.CHECKED_IN);
+  await seedJob('square-status-4', '2026-03-15T18:00:00.000Z', WorkStatus.IN_PROGRESS);
+  const acceptedBooking = { status: 'ACCEPTED', appointmentTime: '2026-03-15T15:00:00.000Z' };
+  const squareQcReady = await updateJobFromBooking('square-status-1', { bookingId: 'square-status-1', ...acceptedBooking });
+  const squareCompleted = await updateJobFromBooking('square-status-2', { bookingId: 'square-status-2', ...acceptedBooking });
+  check('Square can\'t move jobs back to SCHEDULED', squareQcReady.status === WorkStatus.QC_READY &&
+    squareCompleted.status === WorkStatus.WORK_COMPLETED);
+  const squareCancelled = await updateJobFromBooking('square-status-3', { bookingId: 'square-status-3', status: 'CANCELLED' });
+  check('Square cancellations still apply before work starts', squareCancelled.status === WorkStatus.CANCELLED &&
+    squareCancelled.cancelledSource === 'square');
+  const cancelledMidWork = await updateJobFromBooking('square-status-4', { bookingId: 'square-status-4', status: 'CANCELLED' });
+  const cancelledAfterWork = await updateJobFromBooking('square-status-2', { bookingId: 'square-status-2', status: 'CANCELLED' });
+  check('Square can\'t cancel jobs in progress or completed', cancelledMidWork.status === WorkStatus.IN_PROGRESS &&
+    cancelledAfterWork.status === WorkStatus.WORK_COMPLETED &&
+    !cancelledMidWork.cancelledSource && !cancelledAfterWork.cancelledSource);
+
+  /**
+   * Test Suite 5: Per-service pipelines
+   */
+  console.log('\n\n=== Test Suite 5: Service Pipelines ===\n');
+
+  console.log('Test 5.1: Invalid pipeline is rejected');
+  let workflowError: unknown;
+  try {
+    await saveWorkflow('Test Service', [
+      { id: WorkStatus.WORK_COMPLETED, label: 'Completed', status: WorkStatus.WORK_COMPLETED },
+      { id: WorkStatus.SCHEDULED, label: 'Scheduled', status: WorkStatus.SCHEDULED },
+    ], manager);
+  } catch (error) {
+    workflowError = error;
+  }
+  check('InvalidWorkflowError', workflowError instanceof InvalidWorkflowError);
+
+  console.log('\nTest 5.2: Custom stage, optional stage and no QC');
+  const workflow = await saveWorkflow('Test Service', [
+    { id: WorkStatus.SCHEDULED, label: 'Scheduled', status: WorkStatus.SCHEDULED },
+    { id: WorkStatus.CHECKED_IN, label: 'Checked In', status: WorkStatus.CHECKED_IN, optional: true },
+    { id: WorkStatus.IN_PROGRESS, label: 'In Progress', status: WorkStatus.IN_PROGRESS },
+    { id: 'CURING', label: 'Curing', status: WorkStatus.IN_PROGRESS, roles: [UserRole.MANAGER] },
+    { id: WorkStatus.WORK_COMPLETED, label: 'Completed', status: WorkStatus.WORK_COMPLETED },
+  ], manager);
+  check('Saved as version 1', workflow.version === 1);
+
+  await seedJob('pipeline-1', '2026-02-23T17:00:00.000Z', WorkStatus.SCHEDULED);
+  await jobRepository.updateJob('pipeline-1', {
+    checkinInspection: {
+      requiredAngles: [],
+      photos: {},
+      damagePins: [],
+      completedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+  });
+  const skipped = await updateJobWithAudit('pipeline-1', { workStatus: WorkStatus.IN_PROGRESS }, tech);
+  check('Optional check-in can be skipped', skipped?.status === WorkStatus.IN_PROGRESS);
+
+  let curingError: unknown;
+  try {
+    await updateJobWithAudit('pipeline-1', { stageId: 'CURING' }, tech);
+  } catch (error) {
+    curingError = error;
+  }
+  check('Tech cannot move into a manager-only stage',
+    curingError instanceof StatusTransitionError && curingError.httpStatus === 403);
+
+  const curing = await updateJobWithAudit('pipeline-1', { stageId: 'CURING' }, manager);
+  check('Manager moves into custom stage',
+    curing?.stageId === 'CURING' && curing.status === WorkStatus.IN_PROGRESS);
+
+  const done = await updateJobWithAudit('pipeline-1', { workStatus: WorkStatus.WORK_COMPLETED }, manager);
+  check('Completes straight from custom stage (no QC stage)',
+    done?.status === WorkStatus.WORK_COMPLETED &&
+    done.statusHistory?.slice(-1)[0]?.fromStage === 'CURING');
+
+  /**
+   * Test Suite 6: Check-in inspection
+   */
+  console.log('\n\n=== Test Suite 6: Check-in Inspection ===\n');
+
+  await seedJob('inspect-1', '2026-02-23T18:00:00.000Z', WorkStatus.CHECKED_IN);
+  const anglePhoto = (angle: 'front' | 'rear' | 'left' | 'right') => ({
+    photoId: `inspect-${angle}`,
+    s3Key: `jobs/inspect-1/${angle}.jpg`,
+    publicUrl: '',
+    contentType: 'image/jpeg',
+    angle,
+  });
+
+  console.log('Test 6.1: Angle photos fill inspection slots');
+  const withPhotos = await commitPhotosToJob('inspect-1', [anglePhoto('front'), anglePhoto('rear'), anglePhoto('left')], tech);
+  check('Slots filled as check-in photos',
+    withPhotos?.checkinInspection?.photos.front === 'inspect-front' &&
+    withPhotos.photosMeta?.every(photo => photo.category === 'before') === true);
+
+  console.log('\nTest 6.2: Cannot complete with a missing angle');
+  let incompleteError: unknown;
+  try {
+    await completeCheckinInspection('inspect-1', tech);
+  } catch (error) {
+    incompleteError = error;
+  }
+  check('INSPECTION_INCOMPLETE (right)',
+    incompleteError instanceof InspectionError &&
+    incompleteError.code === 'INSPECTION_INCOMPLETE' &&
+    JSON.stringify(incompleteError.missingAngles) === JSON.stringify(['right']));
+
+  console.log('\nTest 6.3: Pin damage, complete, then start work');
+  await commitPhotosToJob('inspect-1', [anglePhoto('right')], tech);
+  const pinned = await updateCheckinInspection('inspect-1', {
+    damagePins: [{ x: 40, y: 90, note: 'Scratch on rear bumper' }],
+  }, tech);
+  check('Pin saved with id and author',
+    pinned?.checkinInspection?.damagePins.length === 1 &&
+    !!pinned.checkinInspection.damagePins[0].pinId &&
+    pinned.checkinInspection.damagePins[0].createdBy.userId === tech.userId);
+
+  const signedOff = await completeCheckinInspection('inspect-1', tech);
+  check('Completed', !!signedOff?.checkinInspection?.completedAt);
+
+  const started = await updateJobWithAudit('inspect-1', { workStatus: WorkStatus.IN_PROGRESS }, tech);
+  check('Work can start', started?.status === WorkStatus.IN_PROGRESS);
+
+  console.log('\nTest 6.4: Locked for techs once work has started');
+  let lockedError: unknown;
+  try {
+    await updateCheckinInspection('inspect-1', { damagePins: [] }, tech);
+  } catch (error) {
+    lockedError = error;
+  }
+  check('INSPECTION_LOCKED (403)',
+    lockedError instanceof InspectionError && lockedError.httpStatus === 403);
+
+  /**
+   * Test Suite 7: Work timer
+   */
+  console.log('\n\n=== Test Suite 7: Work Timer ===\n');
+
+  console.log('Test 7.1: Timer starts on IN_PROGRESS');
+  check('Running, credited to the tech',
+    isTimerRunning(started?.workTimer) &&
+    started?.workTimer?.segments[0]?.userId === tech.userId);
+
+  console.log('\nTest 7.2: Pause and resume');
+  const paused = await updateWorkTimer('inspect-1', { action: 'pause', reason: 'Waiting on customer' }, tech);
+  check('Paused with reason',
+    !!paused?.workTimer?.pausedAt &&
+    paused.workTimer.pauseReason === 'Waiting on customer' &&
+    paused.statusHistory?.slice(-1)[0]?.event === 'WORK_TIMER_PAUSED');
+
+  let doublePauseError: unknown;
+  try {
+    await updateWorkTimer('inspect-1', { action: 'pause' }, tech);
+  } catch (error) {
+    doublePauseError = error;
+  }
+  check('Second pause refused (409)',
+    doublePauseError instanceof WorkTimerError &&
+    doublePauseError.code === 'TIMER_NOT_RUNNING' &&
+    doublePauseError.httpStatus === 409);
+
+  const resumed = await updateWorkTimer('inspect-1', { action: 'resume' }, tech);
+  check('Resumed', isTimerRunning(resumed?.workTimer) && resumed?.workTimer?.segments.length === 2);
+
+  const sentBack = await updateJobWithAudit('inspect-1', { workStatus: WorkStatus.CHECKED_IN }, manager);
+  check('Stopped when the job leaves IN_PROGRESS', !!sentBack?.workTimer?.stoppedAt && !isTimerRunning(sentBack.workTimer));
+
+  console.log('\nTest 7.3: Net labor per tech excludes pauses');
+  const otherTech: UserAudit = { userId: 'test-tech-2', name: 'Other Tech', role: UserRole.TECH };
+  let timer = startWorkTimer(undefined, tech, '2026-02-23T15:00:00.000Z');
+  timer = pauseWorkTimer(timer, 'Break', '2026-02-23T15:30:00.000Z');
+  timer = resumeWorkTimer(timer, otherTech, '2026-02-23T15:45:00.000Z');
+  timer = stopWorkTimer(timer, '2026-02-23T16:05:00.000Z');
+  check('50 net minutes, 15 paused',
+    timer.laborMinutes === 50 && timer.totalPausedMs === 15 * 60_000);
+  check('Split 30 / 20 between techs',
+    JSON.stringify(timer.laborByTech.map(labor => labor.minutes)) === JSON.stringify([30, 20]));
+
+  const restarted = startWorkTimer(timer, tech, '2026-02-23T16:15:00.000Z');
+  check('Restart counts the time out of IN_PROGRESS as paused',
+    isTimerRunning(restarted) && restarted.totalPausedMs === 25 * 60_000);
+
+  console.log('\nTest 7.4: Actual vs scheduled by service');
+  const finishedJob = (jobId: string, serviceType: string, laborMinutes: number, scheduledDurationMinutes?: number): Job => ({
+    jobId,
+    customerId: 'test-customer',
+    customerName: 'Test Customer',
+    vehicleInfo: {},
+    serviceType,
+    status: WorkStatus.WORK_COMPLETED,
+    scheduledDurationMinutes,
+    workTimer: { ...timer, laborMinutes },
+    createdAt: '2026-02-23T15:00:00.000Z',
+    updatedAt: '2026-02-23T15:00:00.000Z',
+  });
+  const report = buildLaborReport([
+    finishedJob('labor-1', 'Full Detail', 200, 180),
+    finishedJob('labor-2', 'Full Detail', 170, 180),
+    finishedJob('labor-3', 'Express Wash', 40, 45),
+    finishedJob('labor-4', 'Express Wash', 50),
+    { ...finishedJob('labor-5', 'Full Detail', 999, 180), workTimer: undefined },
+  ], '2026-02-23', '2026-02-23');
+  const fullDetail = report.services.find(service => service.serviceType === 'Full Detail');
+  const express = report.services.find(service => service.serviceType === 'Express Wash');
+  check('Overrunning service listed first', report.services[0]?.serviceType === 'Full Detail');
+  check('Averages and overrun rate',
+    fullDetail?.jobCount === 2 &&
+    fullDetail.avgActualMinutes === 185 &&
+    fullDetail.avgOverrunMinutes === 5 &&
+    fullDetail.overrunRate === 0.5);
+  check('Jobs without a booked duration are not compared',
+    express?.jobCount === 2 && express.comparedCount === 1 && express.avgOverrunMinutes === -5);
+  check('Labor rolled up per tech',
+    report.techs.find(labor => labor.userId === tech.userId)?.jobCount === 4);
+
+  /**
+   * Test Suite 8: QC reject loop
+   */
+  console.log('\n\n=== Test Suite 8: QC Reject ===\n');
+
+  const qcReviewer: UserAudit = { userId: 'test-qc', name: 'Test QC', role: UserRole.QC };
+  await seedJob('qc-1', '2026-02-23T19:00:00.000Z', WorkStatus.QC_READY);
+  await jobRepository.updateJob('qc-1', {
+    serviceType: 'Express Wash',
+    checklist: {
+      qc: [
+        { id: 'qc-1', label: 'Interior clean', checked: true },
+        { id: 'qc-2', label: 'Exterior finish', checked: true },
+      ],
+    },
+    workTimer: stopWorkTimer(startWorkTimer(undefined, tech, '2026-02-23T19:00:00.000Z'), '2026-02-23T20:00:00.000Z'),
+  });
+
+  console.log('Test 8.1: Reason and checklist items are validated');
+  const rejectErrors: unknown[] = [];
+  for (const request of [
+    { reason: '  ', failedItemIds: [] },
+    { reason: 'Streaks', failedItemIds: ['qc-9'] },
+  ]) {
+    try {
+      await rejectQc('qc-1', request, qcReviewer);
+    } catch (error) {
+      rejectErrors.push(error);
+    }
+  }
+  check('REASON_REQUIRED, INVALID_CHECKLIST_ITEMS',
+    rejectErrors.map(error => (error as QcRejectError).code).join() === 'REASON_REQUIRED,INVALID_CHECKLIST_ITEMS');
+
+  console.log('\nTest 8.2: Reject sends the job back to the tech');
+  const rejected = await rejectQc('qc-1', { reason: 'Streaks on windshield', failedItemIds: ['qc-2'] }, qcReviewer);
+  const rejection = rejected?.qcRejections?.[0];
+  check('Back to IN_PROGRESS', rejected?.status === WorkStatus.IN_PROGRESS && rejected.stageId === WorkStatus.IN_PROGRESS);
+  check('Failed item unchecked, others kept',
+    rejected?.checklist?.qc?.map(item => item.checked).join() === 'true,false');
+  check('Recorded with reason, items and tech',
+    rejection?.reason === 'Streaks on windshield' &&
+    rejection.failedItems[0]?.label === 'Exterior finish' &&
+    rejection.techs[0]?.userId === tech.userId &&
+    rejected?.qcRejectCount === 1);
+  check('QC_REJECTED history entry',
+    rejected?.statusHistory?.slice(-1)[0]?.event === 'QC_REJECTED' &&
+    rejected.statusHistory.slice(-1)[0].qcRejectionId === rejection?.rejectionId);
+  check('Rework time credited to the tech',
+    isTimerRunning(rejected?.workTimer) && rejected?.workTimer?.segments.slice(-1)[0]?.userId === tech.userId);
+
+  console.log('\nTest 8.3: Only jobs in QC can be rejected');
+  let notInQcError: unknown;
+  try {
+    await rejectQc('qc-1', { reason: 'Again', failedItemIds: [] }, qcReviewer);
+  } catch (error) {
+    notInQcError = error;
+  }
+  check('NOT_IN_QC (409)',
+    notInQcError instanceof QcRejectError && notInQcError.code === 'NOT_IN_QC' && notInQcError.httpStatus === 409);
+
+  /**
+   * Test Suite 9: Required checklist items
+   */
+  console.log('\n\n=== Test Suite 9: Required Checklist Items ===\n');
+
+  await seedJob('required-1', '2026-02-23T20:00:00.000Z', WorkStatus.IN_PROGRESS);
+  await jobRepository.updateJob('required-1', {
+    serviceType: 'Express Wash',
+    checklist: {
+      tech: [
+        { id: 'tech-1', label: 'Vacuum interior', checked: false, isRequired: true },
+        { id: 'tech-2', label: 'Tire shine', checked: false, isRequired: false },
+      ],
+      qc: [
+        { id: 'qc-1', label: 'Final walk-around', checked: true, isRequired: true },
+        { id: 'qc-2', label: 'Air freshener', checked: false, isRequired: false },
+      ],
+    },
+  });
+
+  console.log('Test 9.1: Unchecked required items block QC and are listed');
+  let requiredError: unknown;
+  try {
+    await updateJobWithAudit('required-1', { workStatus: WorkStatus.QC_READY }, tech);
+  } catch (error) {
+    requiredError = error;
+  }
+  const missingItems = requiredError instanceof StatusTransitionError
+    ? requiredError.check.rejections[0]?.missingItems
+    : undefined;
+  check('Only the required item is missing',
+    JSON.stringify(missingItems) === JSON.stringify([{ id: 'tech-1', label: 'Vacuum interior' }]));
+
+  console.log('\nTest 9.2: Only managers can override');
+  let techOverrideError: unknown;
+  try {
+    await updateJobWithAudit('required-1', {
+      workStatus: WorkStatus.QC_READY,
+      checklistOverride: { reason: 'Customer in a hurry' },
+    }, tech);
+  } catch (error) {
+    techOverrideError = error;
+  }
+  check('Tech override refused',
+    techOverrideError instanceof StatusTransitionError &&
+    techOverrideError.check.rejections.some(rejection => rejection.code === 'ROLE_NOT_ALLOWED'));
+
+  const overridden = await updateJobWithAudit('required-1', {
+    workStatus: WorkStatus.QC_READY,
+    checklistOverride: { reason: 'Customer declined vacuum' },
+  }, manager);
+  const overrideEntry = overridden?.statusHistory?.find(entry => entry.event === 'CHECKLIST_OVERRIDE');
+  check('Manager override moves the job and is audited',
+    overridden?.status === WorkStatus.QC_READY &&
+    overrideEntry?.reason === 'Customer declined vacuum' &&
+    JSON.stringify(overrideEntry.skippedItems) === JSON.stringify(['Vacuum interior']));
+
+  console.log('\nTest 9.3: Optional items do not block completion');
+  const qcDone = await updateJobWithAudit('required-1', { workStatus: WorkStatus.WORK_COMPLETED }, qcReviewer);
+  check('QC completes with an optional item unchecked', qcDone?.status === WorkStatus.WORK_COMPLETED);
+
+  /**
+   * Test Suite 10: Assignment
+   */
+  console.log('\n\n=== Test Suite 10: Assignment ===\n');
+
+  const alice = await createUser({ email: 'alice@example.com', name: 'Alice', role: UserRole.TECH, passwordHash: 'x' });
+  const bob = await createUser({ email: 'bob@example.com', name: 'Bob', role: UserRole.TECH, passwordHash: 'x' });
+  await updateUserSquareTeamMember(alice.userId, 'TM-ALICE');
+  await seedJob('assign-1', '2026-02-23T21:00:00.000Z', WorkStatus.SCHEDULED);
+
+  console.log('Test 10.1: Team members map to one user only');
+  let mappingError: unknown;
+  try {
+    await updateUserSquareTeamMember(bob.userId, 'TM-ALICE');
+  } catch (error) {
+    mappingError = error;
+  }
+  check('TEAM_MEMBER_TAKEN (409)',
+    mappingError instanceof AssignmentError && mappingError.code === 'TEAM_MEMBER_TAKEN' && mappingError.httpStatus === 409);
+
+  console.log('\nTest 10.2: Managers assign and reassign');
+  let unknownUserError: unknown;
+  try {
+    await assignJob('assign-1', { userIds: ['nobody'] }, manager);
+  } catch (error) {
+    unknownUserError = error;
+  }
+  check('Unknown users refused', unknownUserError instanceof AssignmentError && unknownUserError.code === 'USER_NOT_FOUND');
+
+  const assigned = await assignJob('assign-1', { userIds: [bob.userId] }, manager);
+  const reassigned = await assignJob('assign-1', { userIds: [alice.userId, bob.userId] }, manager);
+  const assignees = reassigned?.job.assignedTo || [];
+  check('Assigned with the Square mapping',
+    assignees.map(assignee => assignee.name).join() === 'Alice,Bob' &&
+    assignees[0].squareTeamMemberId === 'TM-ALICE' &&
+    assignees[1].assignedAt === assigned?.job.assignedTo?.[0].assignedAt);
+  check('Previous assignees returned', reassigned?.previous.map(assignee => assignee.userId).join() === bob.userId);
+  check('ASSIGNMENT_CHANGED history entries',
+    reassigned?.job.statusHistory?.filter(entry => entry.event === 'ASSIGNMENT_CHANGED').length === 2 &&
+    reassigned.job.statusHistory.slice(-1)[0].assignees?.join() === 'Alice,Bob');
+
+  const unchanged = await assignJob('assign-1', { userIds: [bob.userId, alice.userId] }, manager);
+  check('Same users again adds no history',
+    unchanged?.job.statusHistory?.filter(entry => entry.event === 'ASSIGNMENT_CHANGED').length === 2);
+
+  console.log('\nTest 10.3: My Jobs filter');
+  await assignJob('today-1', { userIds: [alice.userId] }, manager);
+  const myJobsResponse = await listJobsRoute(
+    new NextRequest(`http://localhost/api/jobs?boardDate=2026-02-23&assignedTo=${bob.userId}`)
+  );
+  const myJobsBody = await myJobsResponse.json();
+  check('Only jobs assigned to the user',
+    myJobsBody.data.jobs.map((job: Job) => job.jobId).join() === 'assign-1');
+
+  console.log('\nTest 10.4: Square team member changes reassign mapped users');
+  const aliceMapped = { ...alice, squareTeamMemberId: 'TM-ALICE' };
+  check('Matching booking leaves the job alone',
+    getAssignmentFromTeamMembers(assignees, ['TM-ALICE'], [aliceMapped, bob]) === undefined);
+  check('Unmapped team members are ignored',
+    getAssignmentFromTeamMembers(assignees, ['TM-UNKNOWN'], [aliceMapped, bob]) === undefined);
+
+  const bobMapped = { ...bob, squareTeamMemberId: 'TM-BOB' };
+  const fromSquare = getAssignmentFromTeamMembers(assignees, ['TM-BOB'], [aliceMapped, bobMapped]);
+  check('Reassigned to the booking\'s team member',
+    fromSquare?.map(assignee => `${assignee.name}:${assignee.squareTeamMemberId}`).join() === 'Bob:TM-BOB');
+
+  const toNewUser = getAssignmentFromTeamMembers([], ['TM-ALICE'], [aliceMapped]);
+  check('New assignees from Square are marked as synced', toNewUser?.[0]?.source === 'square');
+
+  console.log('\nTest 10.5: Square echoes a reassignment of a job in progress');
+  await seedJob('assign-echo', '2026-03-16T15:00:00.000Z', WorkStatus.IN_PROGRESS);
+  const echoTimer = { startedAt: '2026-03-16T15:05:00.000Z', totalPausedMs: 0, segments: [], laborMinutes: 0, laborByTech: [] };
+  await jobRepository.updateJob('assign-echo', { bookingId: 'assign-echo', workTimer: echoTimer });
+  await assignJob('assign-echo', { userIds: [alice.userId] }, manager);
+  const echoed = await updateJobFromBooking('assign-echo', {
+    bookingId: 'assign-echo',
+    status: 'ACCEPTED',
+    appointmentTime: '2026-03-16T15:00:00.000Z',
+    teamMemberIds: ['TM-ALICE'],
+  });
+  check('Job stays in progress with its work timer', echoed.status === WorkStatus.IN_PROGRESS &&
+    echoed.workTimer?.startedAt === echoTimer.startedAt &&
+    echoed.assignedTo?.map(assignee => assignee.name).join() === 'Alice');
+
+  /**
+   * Test Suite 11: Auto-dispatch
+   */
+  console.log('\n\n=== Test Suite 11: Auto-dispatch ===\n');
+
+  // 2026-03-02 is a Monday; 14:00Z is 9:00 AM in America/New_York
+  const dispatchJob = (jobId: string, appointmentTime: string, serviceType: string, extra: Partial<Job> = {}): Job => ({
+    jobId,
+    customerId: 'test-customer',
+    customerName: 'Test Customer',
+    vehicleInfo: {},
+    serviceType,
+    status: WorkStatus.SCHEDULED,
+    appointmentTime,
+    scheduledDurationMinutes: 120,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...extra,
+  });
+  const dana: DispatchTech = { userId: 'dana', name: 'Dana', role: UserRole.TECH, skills: ['ceramic-certified'] };
+  const eli: DispatchTech = { userId: 'eli', name: 'Eli', role: UserRole.TECH };
+  const skills = { 'Ceramic Coating': ['Ceramic Certified'] };
+
+  console.log('Test 11.1: Required skills');
+  const skillPlan = buildDispatchPlan('2026-03-02', [
+    dispatchJob('ceramic-1', '2026-03-02T14:00:00.000Z', 'Ceramic Coating'),
+    dispatchJob('wash-1', '2026-03-02T14:00:00.000Z', 'Express Wash'),
+  ], [dana, eli, { userId: 'mgr', name: 'Manager', role: UserRole.MANAGER }], skills);
+  check('Skilled job goes to the certified tech',
+    skillPlan.proposals.find(proposal => proposal.jobId === 'ceramic-1')?.userId === 'dana');
+  check('Overlapping job goes to the other tech',
+    skillPlan.proposals.find(proposal => proposal.jobId === 'wash-1')?.userId === 'eli');
+  check('Only techs are dispatched', skillPlan.techs.map(tech => tech.userId).join() === 'dana,eli');
+
+  const noSkillPlan = buildDispatchPlan('2026-03-02', [
+    dispatchJob('ceramic-2', '2026-03-02T14:00:00.000Z', 'Ceramic Coating'),
+  ], [eli], skills);
+  check('NO_SKILLED_TECH when nobody is certified', noSkillPlan.proposals[0].reason === 'NO_SKILLED_TECH' && !noSkillPlan.proposals[0].userId);
+
+  console.log('\nTest 11.2: Shifts');
+  const mondayMorning = { day: 1, start: '08:00', end: '12:00' };
+  check('Shifts validated', validateShifts([mondayMorning]).length === 0 &&
+    validateShifts([{ day: 7, start: '12:00', end: '08:00' }]).length === 2);
+  const shiftPlan = buildDispatchPlan('2026-03-02', [
+    dispatchJob('morning-1', '2026-03-02T14:00:00.000Z', 'Ceramic Coating'),
+    dispatchJob('afternoon-1', '2026-03-02T17:00:00.000Z', 'Ceramic Coating'),
+  ], [{ ...dana, shifts: [mondayMorning] }], skills);
+  check('Job inside the shift proposed', shiftPlan.proposals[0].userId === 'dana');
+  check('Job running past the shift skipped', shiftPlan.proposals[1].reason === 'NO_TECH_ON_SHIFT');
+
+  console.log('\nTest 11.3: Load and existing assignments');
+  const loadPlan = buildDispatchPlan('2026-03-02', [
+    dispatchJob('assigned-1', '2026-03-02T14:00:00.000Z', 'Express Wash', {
+      assignedTo: [{ userId: 'eli', name: 'Eli', assignedAt: '2026-03-01T00:00:00.000Z', source: 'manual' }],
+    }),
+    dispatchJob('wash-2', '2026-03-02T14:30:00.000Z', 'Express Wash'),
+    dispatchJob('wash-3', '2026-03-02T18:00:00.000Z', 'Express Wash'),
+    dispatchJob('cancelled-1', '2026-03-02T18:00:00.000Z', 'Express Wash', { status: WorkStatus.CANCELLED }),
+  ], [dana, eli], skills);
+  check('Assigned jobs are not re-proposed', loadPlan.proposals.map(proposal => proposal.jobId).join() === 'wash-2,wash-3');
+  check('Busy tech skipped for the overlapping job', loadPlan.proposals[0].userId === 'dana');
+  check('Equal load goes to the tech with fewer skills',
+    loadPlan.proposals[1].userId === 'eli' &&
+    loadPlan.techs.find(tech => tech.userId === 'eli')?.assignedMinutes === 120);
+
+  console.log('\nTest 11.4: Plan built and accepted from the board date');
+  const cara = await createUser({ email: 'cara@example.com', name: 'Cara', role: UserRole.TECH, passwordHash: 'x' });
+  await updateUserDispatchProfile(cara.userId, { skills: ['Ceramic Certified'], shifts: [mondayMorning] });
+  await seedJob('dispatch-1', '2026-03-02T14:00:00.000Z', WorkStatus.SCHEDULED);
+  const plan = await getDispatchPlan('2026-03-02');
+  const caraLoad = plan.techs.find(tech => tech.userId === cara.userId);
+  check('Plan covers the board date', plan.proposals.map(proposal => proposal.jobId).join() === 'dispatch-1');
+  check('Profile skills are normalized', caraLoad?.skills.join() === 'ceramic-certified');
+
+  const applied = await applyDispatchPlan({
+    assignments: [
+      { jobId: 'dispatch-1', userId: cara.userId },
+      { jobId: 'missing-job', userId: cara.userId },
+    ],
+  }, manager);
+  check('Accepted jobs assigned', applied.assigned[0]?.job.assignedTo?.[0].userId === cara.userId);
+  check('Failures reported per job', applied.failed.map(failure => failure.jobId).join() === 'missing-job');
+  check('Nothing left to propose', (await getDispatchPlan('2026-03-02')).proposals.length === 0);
+
+  /**
+   * Test Suite 12: Bay capacity
+   */
+  console.log('\n\n=== Test Suite 12: Bay capacity ===\n');
+
+  console.log('Test 12.1: Bay list');
+  let bayListError: unknown;
+  try {
+    await saveBays({ bays: [{ name: 'Bay 1' }, { name: 'bay 1 ' }] }, manager);
+  } catch (error) {
+    bayListError = error;
+  }
+  check('Repeated names refused', bayListError instanceof BayError && bayListError.code === 'INVALID_BAYS');
+
+  const [washBay, detailBay] = await saveBays({
+    bays: [
+      { name: 'Bay 1', capabilities: ['Wash'] },
+      { name: 'Detail Station', capabilities: ['wash', 'Detail'] },
+      { name: 'Old Bay', isActive: false },
+    ],
+  }, manager);
+  check('Capabilities normalized and bays active by default',
+    detailBay.capabilities.join() === 'wash,detail' && washBay.isActive && !!washBay.bayId);
+  check('No bays configured means nothing is checked',
+    checkBayCapacity({ startAt: '2026-03-03T14:00:00.000Z', durationMinutes: 60 }, [], []).configured === false);
+
+  await saveWorkflow('Full Detail', DEFAULT_WORKFLOW_STAGES, manager, { bayCapabilities: ['Detail'] });
+  await seedJob('bay-1', '2026-03-03T14:00:00.000Z', WorkStatus.SCHEDULED);
+  await seedJob('bay-2', '2026-03-03T14:00:00.000Z', WorkStatus.SCHEDULED);
+  await jobRepository.updateJob('bay-2', { serviceType: 'Full Detail', scheduledDurationMinutes: 120 });
+
+  console.log('\nTest 12.2: Booking a job into a bay');
+  let notCapableError: unknown;
+  try {
+    await assignBay('bay-2', washBay.bayId, manager);
+  } catch (error) {
+    notCapableError = error;
+  }
+  check('Bay without the service\'s capabilities refused (409)',
+    notCapableError instanceof BayError && notCapableError.code === 'BAY_NOT_CAPABLE' && notCapableError.httpStatus === 409);
+
+  let unknownBayError: unknown;
+  try {
+    await assignBay('bay-1', 'no-such-bay', manager);
+  } catch (error) {
+    unknownBayError = error;
+  }
+  check('Unknown bays refused', unknownBayError instanceof BayError && unknownBayError.code === 'BAY_NOT_FOUND');
+
+  const inBay = await assignBay('bay-1', washBay.bayId, manager);
+  check('Job booked into the bay with history',
+    inBay?.bay?.name === 'Bay 1' &&
+    inBay.statusHistory?.slice(-1)[0].event === 'BAY_CHANGED' &&
+    inBay.statusHistory.slice(-1)[0].bay === 'Bay 1');
+
+  await assignBay('bay-2', detailBay.bayId, manager);
+  const cleared = await assignBay('bay-2', null, manager);
+  check('Bay cleared', !!cleared && cleared.bay === undefined);
+
+  console.log('\nTest 12.3: Capacity checks');
+  const fullSlot = await checkBayCapacityForSlot({ startAt: '2026-03-03T14:30:00.000Z', durationMinutes: 60 });
+  check('Slot over capacity warns', fullSlot.configured && fullSlot.capacity === 2 && fullSlot.booked === 2 &&
+    !fullSlot.available && !!fullSlot.warning);
+
+  const freeSlot = await checkBayCapacityForSlot({ startAt: '2026-03-03T17:00:00.000Z', durationMinutes: 60 });
+  check('Free slot available', freeSlot.available && freeSlot.booked === 0);
+
+  const detailSlot = await checkBayCapacityForSlot({
+    startAt: '2026-03-03T15:00:00.000Z',
+    durationMinutes: 60,
+    serviceType: 'Full Detail',
+  });
+  check('Only capable bays count for the service', detailSlot.capacity === 1 && detailSlot.booked === 1 && !detailSlot.available);
+
+  await jobRepository.updateJob('bay-2', { bookingId: 'bay-booking-2' });
+  const movedSlot = await checkBayCapacityForSlot({
+    startAt: '2026-03-03T15:00:00.000Z',
+    durationMinutes: 60,
+    bookingId: 'bay-booking-2',
+  });
+  check('Moved booking doesn\'t count against itself', movedSlot.available && movedSlot.capacity === 1);
+
+  console.log('\nTest 12.4: Occupancy grid');
+  const occupancy = await getBayOccupancyForDate('2026-03-03');
+  const nineAm = occupancy.hours.find(hour => hour.hour === 9);
+  const tenAm = occupancy.hours.find(hour => hour.hour === 10);
+  check('Grid covers opening hours', occupancy.hours[0].hour === 8 && occupancy.hours.slice(-1)[0].hour === 17);
+  check('Inactive bays left out', occupancy.bays.map(bay => bay.name).join() === 'Bay 1,Detail Station');
+  check('Jobs placed by bay and hour',
+    nineAm?.bays.find(bay => bay.bayId === washBay.bayId)?.jobIds.join() === 'bay-1' &&
+    nineAm.unassignedJobIds.join() === 'bay-2' &&
+    tenAm?.unassignedJobIds.join() === 'bay-2' &&
+    tenAm.bays.every(bay => bay.jobIds.length === 0));
+
+  /**
+   * Test Suite 13: No-show fees
+   */
+  console.log('\n\n=== Test Suite 13: No-show fees ===\n');
+
+  const payments = createFakePaymentsClient();
+  setPaymentsClient(payments);
+
+  console.log('Test 13.1: Fee policy');
+  const percentPolicy = await saveNoShowPolicy({
+    feeType: 'PERCENT',
+    percent: 50,
+    minFeeCents: 2500,
+    maxFeeCents: 7500,
+    waivedReasons: ['UNREACHABLE'],
+  }, manager);
+  check('Percentage of the job', calculateNoShowFee(percentPolicy, { payment: { amountCents: 10000 } }) === 5000);
+  check('Floor and cap apply',
+    calculateNoShowFee(percentPolicy, {}) === 2500 &&
+    calculateNoShowFee(percentPolicy, { payment: { amountCents: 40000 } }) === 7500);
+  check('Waived reasons charge nothing', calculateNoShowFee(percentPolicy, { noShow: { reason: 'UNREACHABLE' } }) === 0);
+
+  let invalidPolicyError: unknown;
+  try {
+    await saveNoShowPolicy({ feeType: 'FLAT', flatFeeCents: -100 }, manager);
+  } catch (error) {
+    invalidPolicyError = error;
+  }
+  check('Invalid policy refused', invalidPolicyError instanceof NoShowChargeError && invalidPolicyError.code === 'INVALID_POLICY');
+
+  await saveNoShowPolicy({ feeType: 'FLAT', flatFeeCents: 4000, waivedReasons: ['UNREACHABLE'] }, manager);
+
+  console.log('\nTest 13.2: Charging needs a recorded no-show');
+  await seedJob('noshow-1', '2026-03-04T14:00:00.000Z', WorkStatus.SCHEDULED);
+
+  let unrecordedError: unknown;
+  try {
+    await chargeNoShowFee('noshow-1', manager);
+  } catch (error) {
+    unrecordedError = error;
+  }
+  check('Unrecorded no-show refused', unrecordedError instanceof StatusTransitionError);
+
+  await updateJobWithAudit('noshow-1', { noShow: { status: 'NO_SHOW', reason: 'NO_ARRIVAL' } }, manager);
+
+  let patchError: unknown;
+  try {
+    await updateJobWithAudit('noshow-1', { workStatus: WorkStatus.NO_SHOW_PENDING_CHARGE }, manager);
+  } catch (error) {
+    patchError = error;
+  }
+  check('Status PATCH can\'t skip the charge', patchError instanceof NoShowChargeError && patchError.code === 'USE_CHARGE_ACTION');
+
+  let techChargeError: unknown;
+  try {
+    await chargeNoShowFee('noshow-1', tech);
+  } catch (error) {
+    techChargeError = error;
+  }
+  check('Only managers can charge', techChargeError instanceof StatusTransitionError);
+
+  console.log('\nTest 13.3: Declined charge, then retry');
+  payments.declineNext('CARD_DECLINED: Insufficient funds');
+  const declined = await chargeNoShowFee('noshow-1', manager);
+  check('Decline moves the job to NO_SHOW_FAILED',
+    declined?.job.status === WorkStatus.NO_SHOW_FAILED &&
+    declined.attempt.result === 'FAILED' &&
+    declined.attempt.failureReason === 'CARD_DECLINED: Insufficient funds' &&
+    declined.job.noShow?.chargeResult === 'FAILED');
+  check('Attempt and failure audited',
+    declined?.job.statusHistory?.slice(-2).map(entry => entry.event).join() === 'NO_SHOW_CHARGE_ATTEMPTED,NO_SHOW_CHARGE_FAILED');
+
+  await saveNoShowPolicy({ feeType: 'FLAT', flatFeeCents: 9900 }, manager);
+  const retried = await chargeNoShowFee('noshow-1', manager);
+  check('Retry charges the card on file', retried?.job.status === WorkStatus.NO_SHOW_CHARGED &&
+    retried.attempt.result === 'SUCCESS' &&
+    payments.charges.length === 1 &&
+    payments.charges[0].referenceId === 'noshow-1');
+  check('Retry keeps the original fee', retried?.attempt.amountCents === 4000 && payments.charges[0].amountCents === 4000);
+  check('Both attempts kept with distinct idempotency keys',
+    retried?.job.noShow?.chargeAttempts?.length === 2 &&
+    retried.job.noShow.chargeAttempts[0].attemptId !== retried.job.noShow.chargeAttempts[1].attemptId &&
+    retried.job.noShow.chargeAttempts[0].result === 'FAILED');
+
+  let chargedTwiceError: unknown;
+  try {
+    await chargeNoShowFee('noshow-1', manager);
+  } catch (error) {
+    chargedTwiceError = error;
+  }
+  check('Charged jobs can\'t be charged again', chargedTwiceError instanceof StatusTransitionError);
+
+  console.log('\nTest 13.4: Missing cards and waived reasons');
+  await seedJob('noshow-2', '2026-03-04T15:00:00.000Z', WorkStatus.SCHEDULED);
+  await updateJobWithAudit('noshow-2', { noShow: { status: 'NO_SHOW', reason: 'LATE_CANCEL' } }, manager);
+  payments.setCard('test-customer', null);
+  const noCard = await chargeNoShowFee('noshow-2', manager);
+  check('No card on file fails the charge', noCard?.job.status === WorkStatus.NO_SHOW_FAILED &&
+    !!noCard.attempt.failureReason?.includes('no card on file'));
+  const markedChargedError = await updateJobWithAudit('noshow-2', { workStatus: WorkStatus.NO_SHOW_CHARGED }, manager)
+    .catch(error => error);
+  check('Fees can\'t be marked charged by hand', markedChargedError instanceof StatusTransitionError &&
+    (await jobRepository.getJob('noshow-2'))?.status === WorkStatus.NO_SHOW_FAILED);
+  payments.setCard('test-customer', { cardId: 'card-2', brand: 'MASTERCARD', last4: '4444' });
+
+  await seedJob('noshow-3', '2026-03-04T16:00:00.000Z', WorkStatus.SCHEDULED);
+  await updateJobWithAudit('noshow-3', { noShow: { status: 'NO_SHOW', reason: 'UNREACHABLE' } }, manager);
+  await saveNoShowPolicy({ feeType: 'FLAT', flatFeeCents: 4000, waivedReasons: ['UNREACHABLE'] }, manager);
+  let waivedError: unknown;
+  try {
+    await chargeNoShowFee('noshow-3', manager);
+  } catch (error) {
+    waivedError = error;
+  }
+  const waivedJob = await jobRepository.getJob('noshow-3');
+  check('Waived no-shows aren\'t charged', waivedError instanceof NoShowChargeError &&
+    waivedError.code === 'NO_FEE' && waivedJob?.status === WorkStatus.SCHEDULED);
+
+  console.log('\nTest 13.5: Charge cut off after the card was charged');
+  await seedJob('noshow-4', '2026-03-04T17:00:00.000Z', WorkStatus.SCHEDULED);
+  await updateJobWithAudit('noshow-4', { noShow: { status: 'NO_SHOW', reason: 'NO_ARRIVAL' } }, manager);
+  const cutOffAttempt = { attemptId: 'attempt-cut-off', amountCents: 4000, result: 'PENDING' as const, attemptedAt: '2026-03-04T17:31:00.000Z', attemptedBy: manager };
+  const cutOffJob = await jobRepository.getJob('noshow-4');
+  await jobRepository.updateJob('noshow-4', {
+    status: WorkStatus.NO_SHOW_PENDING_CHARGE,
+    noShow: { ...cutOffJob!.noShow!, chargeAttempts: [cutOffAttempt] },
+  });
+  const cutOffCharge = await payments.chargeCard({
+    customerId: 'test-customer', cardId: 'card-2', amountCents: 4000, currency: 'USD', idempotencyKey: cutOffAttempt.attemptId,
+  });
+  const chargesBeforeResume = payments.charges.length;
+  const resumedCharge = await chargeNoShowFee('noshow-4', manager);
+  check('Stuck charge resumed without charging twice', resumedCharge?.job.status === WorkStatus.NO_SHOW_CHARGED &&
+    resumedCharge.attempt.attemptId === cutOffAttempt.attemptId &&
+    resumedCharge.attempt.paymentId === cutOffCharge.paymentId &&
+    resumedCharge.job.noShow?.chargeAttempts?.length === 1 &&
+    payments.charges.length === chargesBeforeResume);
+
+  console.log('\nTest 13.6: Charge sent but Square\'s answer lost');
+  await seedJob('noshow-5', '2026-03-04T18:00:00.000Z', WorkStatus.SCHEDULED);
+  await updateJobWithAudit('noshow-5', { noShow: { status: 'NO_SHOW', reason: 'NO_ARRIVAL' } }, manager);
+  payments.timeOutNextCharge();
+  const timedOutCharge = await chargeNoShowFee('noshow-5', manager);
+  check('Unanswered charge stays pending, not failed',
+    timedOutCharge?.job.status === WorkStatus.NO_SHOW_PENDING_CHARGE &&
+    timedOutCharge.attempt.result === 'PENDING' &&
+    !!timedOutCharge.attempt.failureReason?.includes('timed out'));
+  const chargesBeforeResend = payments.charges.length;
+  const resentCharge = await chargeNoShowFee('noshow-5', manager);
+  check('Charging again resends the same attempt without charging twice',
+    resentCharge?.job.status === WorkStatus.NO_SHOW_CHARGED &&
+    resentCharge.attempt.attemptId === timedOutCharge?.attempt.attemptId &&
+    resentCharge.job.noShow?.chargeAttempts?.length === 1 &&
+    payments.charges.length === chargesBeforeResend);
+
+  setPaymentsClient(null);
+
+  /**
+   * Test Suite 14: Post-completion issues
+   */
+  console.log('\n\n=== Test Suite 14: Post-completion issues ===\n');
+
+  console.log('Test 14.1: Several issues can be open on one job');
+  await seedJob('issue-1', '2026-03-05T15:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  await commitPhotosToJob('issue-1', [
+    { photoId: 'issue-photo-1', s3Key: 'k1', publicUrl: 'https://example.com/1.jpg', contentType: 'image/jpeg', category: 'issue' },
+  ], manager);
+  const complaint = await openIssue('issue-1', {
+    type: 'CUSTOMER_COMPLAINT',
+    notes: 'Swirl marks on hood',
+    assigneeUserId: alice.userId,
+    photoIds: ['issue-photo-1'],
+  }, manager);
+  const damage = await openIssue('issue-1', { type: 'DAMAGE', notes: 'Scratched rim' }, manager);
+  check('Both issues kept', damage?.job.issues?.map(issue => issue.type).join() === 'CUSTOMER_COMPLAINT,DAMAGE');
+  check('Open count kept for list views', damage?.job.openIssueCount === 2);
+  check('Assignee and photos recorded',
+    complaint?.issue.assignee?.name === 'Alice' && complaint.issue.photoIds[0] === 'issue-photo-1');
+  check('POST_COMPLETION_ISSUE_OPENED history entries',
+    damage?.job.statusHistory?.filter(entry => entry.event === 'POST_COMPLETION_ISSUE_OPENED').length === 2 &&
+    damage.job.statusHistory.slice(-1)[0].issueId === damage.issue.issueId);
+
+  const openErrors: unknown[] = [];
+  await seedJob('issue-2', '2026-03-05T16:00:00.000Z', WorkStatus.IN_PROGRESS);
+  for (const [jobId, request] of [
+    ['issue-2', { type: 'OTHER' }],
+    ['issue-1', { type: 'BROKEN' }],
+    ['issue-1', { type: 'OTHER', photoIds: ['missing-photo'] }],
+  ] as const) {
+    try {
+      await openIssue(jobId, request as any, manager);
+    } catch (error) {
+      openErrors.push(error);
+    }
+  }
+  check('NOT_COMPLETED, INVALID_ISSUE_TYPE, INVALID_PHOTOS',
+    openErrors.map(error => (error as IssueError).code).join() === 'NOT_COMPLETED,INVALID_ISSUE_TYPE,INVALID_PHOTOS');
+
+  console.log('\nTest 14.2: Lifecycle and resolution outcome');
+  const complaintId = complaint!.issue.issueId;
+  const inProgress = await updateIssue('issue-1', complaintId, { status: 'IN_PROGRESS', assigneeUserId: bob.userId }, manager);
+  check('In progress and reassigned', inProgress?.issue.status === 'IN_PROGRESS' && inProgress.issue.assignee?.name === 'Bob');
+
+  let noOutcomeError: unknown;
+  try {
+    await updateIssue('issue-1', complaintId, { status: 'RESOLVED' }, manager);
+  } catch (error) {
+    noOutcomeError = error;
+  }
+  check('Resolving needs an outcome', noOutcomeError instanceof IssueError && noOutcomeError.code === 'OUTCOME_REQUIRED');
+
+  const resolved = await updateIssue('issue-1', complaintId, {
+    status: 'RESOLVED',
+    outcome: 'REFUND',
+    resolutionNotes: 'Refunded $20',
+  }, manager);
+  check('Resolved with outcome', resolved?.issue.status === 'RESOLVED' &&
+    resolved.issue.outcome === 'REFUND' &&
+    resolved.issue.resolvedBy?.userId === manager.userId &&
+    resolved.job.openIssueCount === 1);
+  check('POST_COMPLETION_ISSUE_RESOLVED history entry',
+    resolved?.job.statusHistory?.slice(-1)[0]?.event === 'POST_COMPLETION_ISSUE_RESOLVED' &&
+    resolved.job.statusHistory.slice(-1)[0].issueOutcome === 'REFUND');
+
+  let resolvedToProgressError: unknown;
+  try {
+    await updateIssue('issue-1', complaintId, { status: 'IN_PROGRESS' }, manager);
+  } catch (error) {
+    resolvedToProgressError = error;
+  }
+  check('Resolved issues can only be reopened (409)', resolvedToProgressError instanceof IssueError &&
+    resolvedToProgressError.code === 'INVALID_STATUS_CHANGE' && resolvedToProgressError.httpStatus === 409);
+
+  const reopened = await updateIssue('issue-1', complaintId, { status: 'OPEN' }, manager);
+  const reopenedJob = await jobRepository.getJob('issue-1');
+  const storedIssue = reopenedJob?.issues?.find(issue => issue.issueId === complaintId);
+  check('Reopen clears the resolution', reopened?.issue.status === 'OPEN' &&
+    storedIssue?.outcome === undefined && storedIssue?.resolvedAt === undefined &&
+    reopenedJob?.openIssueCount === 2);
+
+  console.log('\nTest 14.3: Threaded comments');
+  const first = await addIssueComment('issue-1', complaintId, { body: 'Customer called back' }, manager);
+  const firstId = first!.issue.comments[0].commentId;
+  await addIssueComment('issue-1', complaintId, { body: 'Second topic' }, manager);
+  const reply = await addIssueComment('issue-1', complaintId, { body: 'Offered a redo', parentCommentId: firstId }, manager);
+  check('Replies thread under their parent',
+    threadIssueComments(reply!.issue.comments).map(({ comment, depth }) => `${comment.body}:${depth}`).join() ===
+      'Customer called back:0,Offered a redo:1,Second topic:0');
+
+  const commentErrors: unknown[] = [];
+  for (const request of [{ body: '   ' }, { body: 'Hi', parentCommentId: 'nope' }]) {
+    try {
+      await addIssueComment('issue-1', complaintId, request, manager);
+    } catch (error) {
+      commentErrors.push(error);
+    }
+  }
+  check('COMMENT_REQUIRED, COMMENT_NOT_FOUND',
+    commentErrors.map(error => (error as IssueError).code).join() === 'COMMENT_REQUIRED,COMMENT_NOT_FOUND');
+
+  let unknownIssueError: unknown;
+  try {
+    await updateIssue('issue-1', 'nope', { status: 'IN_PROGRESS' }, manager);
+  } catch (error) {
+    unknownIssueError = error;
+  }
+  check('Unknown issue is a 404', unknownIssueError instanceof IssueError && unknownIssueError.httpStatus === 404);
+
+  console.log('\nTest 14.4: Open issue queue and legacy issues');
+  await seedJob('issue-legacy', '2026-03-01T15:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  await jobRepository.updateJob('issue-legacy', {
+    postCompletionIssue: {
+      isOpen: true,
+      type: 'QC_MISS',
+      notes: 'Missed the trunk',
+      openedAt: '2026-03-01T20:00:00.000Z',
+      openedBy: { userId: manager.userId, name: manager.name, role: 'MANAGER' },
+    },
+  });
+  const legacyJob = await jobRepository.getJob('issue-legacy');
+  check('Legacy issue reads as a list of one', getJobIssues(legacyJob!).map(issue => issue.status).join() === 'OPEN');
+
+  const queue = await listOpenIssues();
+  check('Queue lists every open issue, oldest first',
+    queue.map(summary => `${summary.jobId}:${summary.issue.type}`).join() ===
+      'issue-legacy:QC_MISS,issue-1:CUSTOMER_COMPLAINT,issue-1:DAMAGE');
+
+  await updateIssue('issue-legacy', 'legacy', { status: 'RESOLVED', outcome: 'NO_ACTION' }, manager);
+  await updateIssue('issue-1', damage!.issue.issueId, { status: 'RESOLVED', outcome: 'REDO' }, manager);
+  const remaining = await listOpenIssues();
+  check('Resolved issues leave the queue',
+    remaining.map(summary => summary.issue.issueId).join() === complaintId);
+  const resolvedLegacy = await jobRepository.getJob('issue-legacy');
+  const stillOpen = await jobRepository.getJob('issue-1');
+  check('Open issue index key only kept while issues are open',
+    resolvedLegacy?.openIssueKey === undefined && stillOpen?.openIssueKey === 'OPEN');
+
+  /**
+   * Test Suite 15: Redo jobs
+   */
+  console.log('\n\n=== Test Suite 15: Redo jobs ===\n');
+
+  console.log('Test 15.1: Redo copies the job and links both ways');
+  await seedJob('redo-original', '2026-03-10T15:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  await jobRepository.updateJob('redo-original', {
+    vehicleInfo: { make: 'Honda', model: 'Civic', licensePlate: 'abc 123' },
+    payment: { status: PaymentStatus.PAID, amountCents: 15000 },
+    checklist: {
+      tech: [{ id: 'tech-1', label: 'Vacuum', checked: true }],
+      qc: [
+        { id: 'qc-1', label: 'Interior', checked: true },
+        { id: 'qc-2', label: 'Wheels', checked: true, isRequired: true },
+      ],
+    },
+    qcRejections: [{
+      rejectionId: 'rej-1',
+      reason: 'Brake dust left on wheels',
+      failedItems: [{ id: 'qc-2', label: 'Wheels' }],
+      photoIds: [],
+      techs: [],
+      rejectedAt: '2026-03-10T17:00:00.000Z',
+      rejectedBy: manager,
+    }],
+    qcRejectCount: 1,
+  });
+  const redoIssue = await openIssue('redo-original', { type: 'REDO', notes: 'Wheels still dirty' }, manager);
+  check('Default redo items are what QC failed', getDefaultRedoItemIds(redoIssue!.job).join() === 'qc-2');
+
+  const redo = await scheduleRedo('redo-original', redoIssue!.issue.issueId, {
+    appointmentTime: '2026-03-12T15:00:00.000Z',
+  }, manager);
+  const redoJob = redo!.redoJob;
+  check('Same customer and vehicle', redoJob.customerId === 'test-customer' &&
+    redoJob.vehicleInfo.make === 'Honda' && redoJob.serviceType === 'Test Service');
+  check('Zero-priced', redoJob.payment?.amountCents === 0 && redoJob.payment.status === PaymentStatus.PAID);
+  check('Failed items copied unchecked to both checklists',
+    redoJob.checklist?.tech?.map(item => `${item.id}:${item.checked}`).join() === 'qc-2:false' &&
+    redoJob.checklist?.qc?.[0]?.isRequired === true);
+  check('Redo points back to the original',
+    redoJob.redoOfJobId === 'redo-original' && redoJob.parentJobId === 'redo-original' &&
+    redoJob.redoIssueId === redoIssue!.issue.issueId);
+  check('Original and issue point to the redo',
+    redo!.job.redoJobIds?.join() === redoJob.jobId && redo!.issue.redoJobId === redoJob.jobId &&
+    redo!.issue.status === 'IN_PROGRESS');
+  check('REDO_SCHEDULED history entry',
+    redo!.job.statusHistory?.slice(-1)[0]?.event === 'REDO_SCHEDULED' &&
+    redo!.job.statusHistory.slice(-1)[0].redoJobId === redoJob.jobId);
+
+  console.log('\nTest 15.2: Only eligible issues, once, with known items');
+  const otherIssue = await openIssue('redo-original', { type: 'OTHER' }, manager);
+  const damageIssue = await openIssue('redo-original', { type: 'DAMAGE' }, manager);
+  const redoErrors: unknown[] = [];
+  for (const [issueId, failedItemIds] of [
+    [otherIssue!.issue.issueId, undefined],
+    [redoIssue!.issue.issueId, undefined],
+    [damageIssue!.issue.issueId, ['qc-9']],
+  ] as const) {
+    try {
+      await scheduleRedo('redo-original', issueId, {
+        appointmentTime: '2026-03-12T15:00:00.000Z',
+        failedItemIds: failedItemIds as string[] | undefined,
+      }, manager);
+    } catch (error) {
+      redoErrors.push(error);
+    }
+  }
+  check('NOT_REDOABLE, NOT_REDOABLE, INVALID_CHECKLIST_ITEMS',
+    redoErrors.map(error => (error as RedoError).code).join() === 'NOT_REDOABLE,NOT_REDOABLE,INVALID_CHECKLIST_ITEMS');
+
+  const redoOfRedo = await openIssue(redoJob.jobId, { type: 'DAMAGE' }, manager).catch(error => error);
+  check('Redo jobs take issues once completed', redoOfRedo instanceof IssueError && redoOfRedo.code === 'NOT_COMPLETED');
+
+  console.log('\nTest 15.3: Revenue excludes redos, quality counts them');
+  const original = await jobRepository.getJob('redo-original');
+  const performance = buildPerformanceReport([original!, redoJob], '2026-03-10', '2026-03-12');
+  const service = performance.services[0];
+  check('Redo left out of revenue', service.jobCount === 1 && service.bookedCents === 15000 && service.collectedCents === 15000);
+  check('Redo counted in quality', service.redoCount === 1 && service.redoRate === 1 &&
+    service.qcRejectCount === 1 && service.issueCount === 3);
+  check('Totals match the single service', performance.totals.redoCount === 1 && performance.totals.bookedCents === 15000);
+
+  /**
+   * Test Suite 16: Vehicle profiles
+   */
+  console.log('\n\n=== Test Suite 16: Vehicle profiles ===\n');
+
+  console.log('Test 16.1: Saving vehicle info creates and links a profile');
+  check('VINs are normalized and validated',
+    normalizeVin(' 1hgcv1f3-4la 000001 ') === '1HGCV1F34LA000001' &&
+    normalizeVin('1HGCV1F34LA00000') === undefined && normalizeVin('1HGCV1F34LA00000O') === undefined);
+
+  await seedJob('vehicle-old', '2026-01-05T15:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  await jobRepository.updateJob('vehicle-old', { vehicleInfo: { licensePlate: 'VEH 100' } });
+  await seedJob('vehicle-1', '2026-03-01T15:00:00.000Z', WorkStatus.WORK_COMPLETED);
+  const firstVisit = await updateJobWithAudit('vehicle-1', {
+    vehicleInfo: { licensePlate: 'veh-100', make: 'Toyota', model: 'Camry', year: 2019 },
+  }, manager);
+  const camry = firstVisit?.vehicleId ? await vehicleRepository.getVehicle(firstVisit.vehicleId) : null;
+  check('Job linked to a new vehicle', !!camry && camry.plateNorm === 'VEH100' && camry.make === 'Toyota');
+  check('Customer recorded', camry?.customers.map(customer => customer.customerId).join() === 'test-customer');
+
+  console.log('\nTest 16.2: Same plate in another format links the same car');
+  await jobRepository.createJob({
+    jobId: 'vehicle-2',
+    customerId: 'second-owner',
+    customerName: 'Second Owner',
+    vehicleInfo: {},
+    serviceType: 'Test Service',
+    status: WorkStatus.SCHEDULED,
+    appointmentTime: '2026-04-01T15:00:00.000Z',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+  const secondVisit = await updateJobWithAudit('vehicle-2', {
+    vehicleInfo: { licensePlate: 'Veh 100', color: 'Silver' },
+  }, manager);
+  const camryAfter = await vehicleRepository.getVehicle(camry!.vehicleId);
+  check('Linked to the same vehicle', secondVisit?.vehicleId === camry!.vehicleId);
+  check('Both customers kept, latest first',
+    camryAfter?.customers.map(customer => customer.customerId).join() === 'second-owner,test-customer');
+  check('Details merged', camryAfter?.make === 'Toyota' && camryAfter.color === 'Silver');
+  const plateHistory = await getVehicleHistory(camry!.vehicleId);
+  check('History includes jobs from before the profile existed',
+    plateHistory?.jobs.map(job => job.jobId).join() === 'vehicle-2,vehicle-1,vehicle-old');
+
+  console.log('\nTest 16.3: VIN matching and plate transfers');
+  await updateJobWithAudit('vehicle-2', {
+    vehicleInfo: { licensePlate: 'VEH 100', vin: '2t1burhe1jc000002' },
+  }, manager);
+  const withVin = await vehicleRepository.getVehicleByVin('2T1BURHE1JC000002');
+  check('VIN added to the plate\'s vehicle', withVin?.vehicleId === camry!.vehicleId);
+
+  await seedJob('vehicle-3', '2026-05-01T15:00:00.000Z', WorkStatus.SCHEDULED);
+  const newPlate = await updateJobWithAudit('vehicle-3', {
+    vehicleInfo: { licensePlate: 'NEW 200', vin: '2T1BURHE1JC000002' },
+  }, manager);
+  const replated = await vehicleRepository.getVehicle(camry!.vehicleId);
+  check('Matched by VIN after a plate change', newPlate?.vehicleId === camry!.vehicleId && replated?.plateNorm === 'NEW200');
+
+  await seedJob('vehicle-4', '2026-05-02T15:00:00.000Z', WorkStatus.SCHEDULED);
+  const otherCar = await updateJobWithAudit('vehicle-4', {
+    vehicleInfo: { licensePlate: 'NEW 200', vin: '1HGCV1F33LA000001' },
+  }, manager);
+  const released = await vehicleRepository.getVehicle(camry!.vehicleId);
+  check('Different VIN on the same plate is a different car',
+    !!otherCar?.vehicleId && otherCar.vehicleId !== camry!.vehicleId);
+  check('Plate released from the old car', released?.plateNorm === undefined &&
+    (await vehicleRepository.getVehicleByPlate('NEW200'))?.vehicleId === otherCar?.vehicleId);
+
+  console.log('\nTest 16.4: History and edits');
+  await updateVehicleDetails(camry!.vehicleId, { notes: 'Aftermarket wheels' }, manager);
+  const history = await getVehicleHistory(camry!.vehicleId);
+  check('Linked jobs follow the car after its plate moved',
+    history?.jobs.map(job => job.jobId).join() === 'vehicle-3,vehicle-2,vehicle-1');
+  check('Notes saved', history?.vehicle.notes === 'Aftermarket wheels');
+  const otherHistory = await getVehicleHistory(otherCar!.vehicleId!);
+  check('Same-plate jobs linked to another car excluded',
+    otherHistory?.jobs.map(job => job.jobId).join() === 'vehicle-4');
+
+  const badYear = await updateVehicleDetails(camry!.vehicleId, { year: 1850 }, manager).catch(error => error);
+  check('Implausible year rejected', badYear instanceof VehicleError && badYear.code === 'INVALID_VEHICLE');
+  const colorCleared = await updateVehicleDetails(camry!.vehicleId, { color: '  ' }, manager);
+  check('Blank value clears the field', colorCleared?.color === undefined && colorCleared?.make === 'Toyota');
+  check('Missing vehicle returns null', await updateVehicleDetails('no-such-vehicle', {}, manager) === null);
+
+  /**
+   * Test Suite 17: VIN decoding
+   */
+  console.log('\n\n=== Test Suite 17: VIN decoding ===\n');
+
+  console.log('Test 17.1: Check digit and decoding');
+  check('Valid VIN passes', validateVin('1HGCM82633A004352') === undefined &&
+    validateVin('1m8gdm9a-xkp042788') === undefined);
+  check('Mistyped character fails the check digit', validateVin('1HGCM82633A004353')?.includes('check digit') === true);
+  check('Wrong length and I/O/Q rejected', !!validateVin('1HGCM82633A00435') && !!validateVin('1HGCM82633AO04352'));
+  const accord = decodeVin('1HGCM82633A004352', new Date('2026-10-19T12:00:00.000Z'));
+  check('Year, manufacturer and make decoded',
+    accord?.year === 2003 && accord.manufacturer === 'Honda' && accord.make === 'Honda' && accord.wmi === '1HG');
+  const camryVin = decodeVin('2T1BURHE1JC000002', new Date('2026-10-19T12:00:00.000Z'));
+  check('Letter in position 7 means the 2010+ cycle', camryVin?.year === 2018 && camryVin.make === 'Toyota');
+  const sharedWmi = decodeVin('1C4RJFAG8FC000001');
+  check('Shared WMI gives manufacturer only', sharedWmi?.manufacturer === 'Stellantis' && !sharedWmi.make);
+  check('Invalid VIN decodes to null', decodeVin('1HGCM82633A004353') === null);
+
+  console.log('\nTest 17.2: Makes normalized to the canonical list');
+  check('Nicknames and spelling', ['chevy', 'CHEVROLET', 'Mercedes Benz', 'vw', 'land-rover']
+    .map(make => normalizeMake(make)).join() === 'Chevrolet,Chevrolet,Mercedes-Benz,Volkswagen,Land Rover');
+  check('Unknown makes kept, blanks dropped', normalizeMake(' McLaren ') === 'McLaren' && normalizeMake('  ') === undefined);
+
+  console.log('\nTest 17.3: Saving a VIN fills in vehicle info');
+  await seedJob('vin-1', '2026-06-01T15:00:00.000Z', WorkStatus.SCHEDULED);
+  const decodedJob = await updateJobWithAudit('vin-1', {
+    vehicleInfo: { vin: '1hgcm82633a004352', model: 'Accord' },
+  }, manager);
+  check('Make and year filled from the VIN', decodedJob?.vehicleInfo.make === 'Honda' &&
+    decodedJob.vehicleInfo.year === 2003 && decodedJob.vehicleInfo.vin === '1HGCM82633A004352');
+  const typedJob = await updateJobWithAudit('vin-1', { vehicleInfo: { make: 'chevy', year: 2004 } }, manager);
+  check('Typed make normalized, typed year kept', typedJob?.vehicleInfo.make === 'Chevrolet' && typedJob.vehicleInfo.year === 2004);
+
+  /**
+   * Test Suite 18: Customer profiles
+   */
+  console.log('\n\n=== Test Suite 18: Customer profiles ===\n');
+
+  const seedCustomerJob = (jobId: string, appointmentTime: string, status: WorkStatus, extra: Partial<Job> = {}) =>
+    jobRepository.createJob({
+      jobId,
+      customerId: 'profile-customer',
+      customerName: 'Pat Profile',
+      customerPhone: '+15550001111',
+      vehicleInfo: { licensePlate: 'PRO 1', make: 'Honda', model: 'Fit' },
+      serviceType: 'Full Detail',
+      status,
+      appointmentTime,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      ...extra,
+    });
+
+  console.log('Test 18.1: Lifetime stats');
+  await seedCustomerJob('cust-1', '2026-01-01T15:00:00.000Z', WorkStatus.WORK_COMPLETED, {
+    payment: { status: PaymentStatus.PAID, amountCents: 20000 },
+  });
+  await seedCustomerJob('cust-2', '2026-01-31T15:00:00.000Z', WorkStatus.WORK_COMPLETED, {
+    payment: { status: PaymentStatus.PAID, amountCents: 10000 },
+    issues: [{
+      issueId: 'cust-issue', type: 'CUSTOMER_COMPLAINT', status: 'OPEN', notes: 'Streaks on glass',
+      openedAt: '2026-02-01T15:00:00.000Z', openedBy: manager, updatedAt: '2026-02-01T15:00:00.000Z',
+      photoIds: [], comments: [],
+    }],
+  });
+  await seedCustomerJob('cust-3', '2026-03-02T15:00:00.000Z', WorkStatus.WORK_COMPLETED, {
+    payment: { status: PaymentStatus.UNPAID, amountCents: 10000 },
+    vehicleInfo: { licensePlate: 'PRO 2', make: 'Ford' },
+  });
+  await seedCustomerJob('cust-noshow', '2026-03-10T15:00:00.000Z', WorkStatus.NO_SHOW_CHARGED, {
+    noShow: {
+      status: 'NO_SHOW', feeCents: 2500, updatedAt: '2026-03-10T16:00:00.000Z',
+      updatedBy: { userId: manager.userId, name: manager.name, role: 'MANAGER' },
+      chargeAttempts: [{
+        attemptId: 'cust-attempt', amountCents: 2500, result: 'SUCCESS',
+        attemptedAt: '2026-03-10T16:00:00.000Z', attemptedBy: manager,
+      }],
+    },
+  });
+  await seedCustomerJob('cust-cancelled', '2026-03-20T15:00:00.000Z', WorkStatus.CANCELLED);
+  await seedCustomerJob('cust-upcoming', '2026-12-01T15:00:00.000Z', WorkStatus.SCHEDULED);
+
+  const customerJobs = (await jobRepository.queryJobsByCustomerId('profile-customer')).jobs;
+  const customerStats = buildCustomerStats(customerJobs);
+  check('Spend is paid jobs plus collected no-show fees', customerStats.totalSpendCents === 32500);
+  check('Visits and frequency', customerStats.visitCount === 3 && customerStats.averageDaysBetweenVisits === 30 &&
+    customerStats.firstVisitAt === '2026-01-01T15:00:00.000Z' && customerStats.lastVisitAt === '2026-03-02T15:00:00.000Z');
+  check('No-shows, cancellations and upcoming counted apart',
+    customerStats.noShowCount === 1 && customerStats.cancelledCount === 1 && customerStats.upcomingCount === 1);
+  check('Open issues counted', customerStats.openIssueCount === 1);
+
+  console.log('\nTest 18.2: Profile and search');
+  const customerProfile = await getCustomerProfile('profile-customer');
+  check('Jobs newest first', customerProfile?.jobs.map(job => job.jobId).join() ===
+    'cust-upcoming,cust-cancelled,cust-noshow,cust-3,cust-2,cust-1');
+  check('Contact falls back to the latest job', customerProfile?.customer.phone === '+15550001111' &&
+    customerProfile.contactSource === 'JOBS');
+  check('Vehicles grouped by plate, latest first', customerProfile?.vehicles.map(vehicle =>
+    `${vehicle.licensePlate}:${vehicle.visitCount}`).join() === 'PRO 1:5,PRO 2:1');
+  check('Open issues listed', customerProfile?.openIssues.map(summary => summary.issue.issueId).join() === 'cust-issue' &&
+    customerProfile.jobs.find(job => job.jobId === 'cust-2')?.openIssueCount === 1);
+  check('Unknown customer returns null', await getCustomerProfile('no-such-customer') === null);
+
+  const plateMatches = await findCustomers('pro-1');
+  check('Found by plate', plateMatches.map(match => match.customerId).join() === 'profile-customer');
+
+  /**
+   * Test Suite 19: Customer flags
+   */
+  console.log('\n\n=== Test Suite 19: Customer flags ===\n');
+
+  console.log('Test 19.1: Validation');
+  check('Tags trimmed, deduped and given suggested spelling',
+    normalizeCustomerTags([' vip ', 'VIP', '', 'No  tire shine', 'Ceramic only']).join() === 'VIP,No tire shine,Ceramic only');
+  const tooManyTags = await updateCustomerFlags('profile-customer', {
+    tags: Array.from({ length: 11 }, (_, i) => `Tag ${i}`),
+  }, manager).catch(error => error);
+  check('Too many tags rejected', tooManyTags instanceof CustomerFlagsError && tooManyTags.code === 'INVALID_FLAGS');
+
+  console.log('\nTest 19.2: Upcoming jobs pick up changes');
+  const flagUpdate = await updateCustomerFlags('profile-customer', {
+    tags: ['vip', 'Fragrance allergy'],
+    preferences: '  No air freshener  ',
+  }, manager);
+  check('Only the upcoming job updated', flagUpdate.updatedJobCount === 1);
+  const flaggedUpcoming = await jobRepository.getJob('cust-upcoming');
+  check('Upcoming job carries the flags', flaggedUpcoming?.customerFlags?.tags.join() === 'VIP,Fragrance allergy' &&
+    flaggedUpcoming.customerFlags.preferences === 'No air freshener');
+  check('Finished jobs untouched', (await jobRepository.getJob('cust-1'))?.customerFlags === undefined);
+  check('Profile shows the flags', (await getCustomerProfile('profile-customer'))?.flags?.updatedBy.userId === manager.userId);
+
+  console.log('\nTest 19.3: New bookings inherit flags');
+  const bookedJob = await createJobFromBooking({
+    bookingId: 'flag-booking',
+    customerId: 'profile-customer',
+    customerName: 'Pat Profile',
+    serviceType: 'Full Detail',
+    appointmentTime: '2026-12-15T15:00:00.000Z',
+    status: 'ACCEPTED',
+  });
+  check('Booked job inherits the flags', bookedJob.customerFlags?.tags.join() === 'VIP,Fragrance allergy');
+  const strangerJob = await createJobFromBooking({
+    bookingId: 'unflagged-booking',
+    customerId: 'unflagged-customer',
+    status: 'ACCEPTED',
+  });
+  check('Customers without flags get none', strangerJob.customerFlags === undefined);
+
+  const flagsCleared = await updateCustomerFlags('profile-customer', { tags: [] }, manager);
+  check('Clearing removes the flags from upcoming jobs', flagsCleared.updatedJobCount === 2 &&
+    (await jobRepository.getJob('flag-booking'))?.customerFlags === undefined);
+
+  /**
+   * Test Suite 20: Square payments
+   */
+  console.log('\n\n=== Test Suite 20: Square payments ===\n');
+
+  const squarePayments = createFakePaymentsClient();
+  setPaymentsClient(squarePayments);
+
+  const seedPayableJob = (jobId: string, customerId: string, appointmentTime: string, extra: Partial<Job> = {}) =>
+    jobRepository.createJob({
+      jobId,
+      customerId,
+      customerName: `Customer ${customerId}`,
+      vehicleInfo: { licensePlate: 'PAY 1' },
+      serviceType: 'Full Detail',
+      status: WorkStatus.WORK_COMPLETED,
+      appointmentTime,
+      payment: { status: PaymentStatus.UNPAID, amountCents: 20000 },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      ...extra,
+    });
+  const squarePayment = (paymentId: string, overrides: Partial<SquarePaymentDetails> = {}): SquarePaymentDetails => ({
+    paymentId,
+    status: 'COMPLETED',
+    amountCents: 20000,
+    tipCents: 3000,
+    totalCents: 23000,
+    currency: 'USD',
+    tenderType: 'CARD',
+    cardBrand: 'VISA',
+    cardLast4: '4242',
+    receiptUrl: `https://squareup.com/receipt/preview/${paymentId}`,
+    createdAt: '2026-11-20T20:00:00.000Z',
+    updatedAt: '2026-11-20T20:00:00.000Z',
+    ...overrides,
+  });
+
+  await seedPayableJob('pay-ref', 'pay-customer-a', '2026-11-20T15:00:00.000Z');
+  await seedPayableJob('pay-order', 'pay-customer-b', '2026-11-20T16:00:00.000Z', { orderId: 'order-123' });
+  await seedPayableJob('pay-time', 'pay-customer-c', '2026-11-20T17:00:00.000Z');
+  await seedPayableJob('pay-twin-1', 'pay-customer-d', '2026-11-20T15:00:00.000Z');
+  await seedPayableJob('pay-twin-2', 'pay-customer-d', '2026-11-20T18:00:00.000Z');
+  await seedPayableJob('pay-noshow', 'pay-customer-e', '2026-11-20T14:00:00.000Z', {
+    status: WorkStatus.NO_SHOW_CHARGED,
+    noShow: {
+      status: 'NO_SHOW',
+      feeCents: 5000,
+      chargeAttempts: [{ attemptId: 'attempt-1', amountCents: 5000, result: 'SUCCESS', attemptedAt: '2026-11-20T14:31:00.000Z', attemptedBy: manager, paymentId: 'sq-noshow' }],
+      updatedAt: '2026-11-20T14:31:00.000Z',
+      updatedBy: { userId: manager.userId, name: manager.name, role: 'MANAGER' },
+    },
+  });
+
+  console.log('Test 20.1: Automatic matching');
+  const refRecord = await recordSquarePayment(squarePayment('sq-ref', { referenceId: 'pay-ref', customerId: 'pay-customer-a' }));
+  const refJob = await jobRepository.getJob('pay-ref');
+  check('Matched by reference ID', refRecord.matchStatus === 'MATCHED' && refRecord.matchedBy === 'REFERENCE');
+  check('Job paid with the real amount, tip and tender',
+    refJob?.payment?.status === PaymentStatus.PAID &&
+    refJob.payment.amountCents === 20000 &&
+    refJob.payment.tipCents === 3000 &&
+    refJob.payment.cardLast4 === '4242' &&
+    refJob.payment.squarePaymentId === 'sq-ref');
+  check('Match recorded in history', refJob?.statusHistory?.some(entry =>
+    entry.event === 'PAYMENT_MATCHED' && entry.squarePaymentId === 'sq-ref' && entry.amountCents === 23000) === true);
+
+  const orderRecord = await recordSquarePayment(squarePayment('sq-order', { orderId: 'order-123' }));
+  check('Matched by Square order', orderRecord.matchStatus === 'MATCHED' && orderRecord.jobId === 'pay-order' && orderRecord.matchedBy === 'ORDER');
+
+  const timeRecord = await recordSquarePayment(squarePayment('sq-time', { customerId: 'pay-customer-c', tenderType: 'CASH', cardBrand: undefined, cardLast4: undefined }));
+  check('Matched by customer and time', timeRecord.matchStatus === 'MATCHED' && timeRecord.jobId === 'pay-time' && timeRecord.matchedBy === 'CUSTOMER_TIME');
+
+  const lateRecord = await recordSquarePayment(squarePayment('sq-late', { customerId: 'pay-customer-c', createdAt: '2026-11-21T12:00:00.000Z' }));
+  check('Paid job not matched twice', lateRecord.matchStatus === 'UNMATCHED');
+
+  console.log('\nTest 20.2: Ambiguous and non-job payments');
+  const twinRecord = await recordSquarePayment(squarePayment('sq-twin', { customerId: 'pay-customer-d' }));
+  check('Two equally likely jobs left for a manager', twinRecord.matchStatus === 'UNMATCHED');
+  const noShowRecord = await recordSquarePayment(squarePayment('sq-noshow', { customerId: 'pay-customer-e', amountCents: 5000, tipCents: 0, totalCents: 5000 }));
+  check('No-show fee ignored', noShowRecord.matchStatus === 'IGNORED' &&
+    (await jobRepository.getJob('pay-noshow'))?.payment?.status !== PaymentStatus.PAID);
+  await seedPayableJob('pay-noshow-racing', 'pay-customer-f', '2026-11-20T14:00:00.000Z', {
+    status: WorkStatus.NO_SHOW_PENDING_CHARGE,
+    noShow: {
+      status: 'NO_SHOW',
+      feeCents: 5000,
+      chargeAttempts: [{ attemptId: 'attempt-racing', amountCents: 5000, result: 'PENDING', attemptedAt: '2026-11-20T14:31:00.000Z', attemptedBy: manager }],
+      updatedAt: '2026-11-20T14:31:00.000Z',
+      updatedBy: { userId: manager.userId, name: manager.name, role: 'MANAGER' },
+    },
+  });
+  const racingFeeRecord = await recordSquarePayment(squarePayment('sq-noshow-racing', {
+    referenceId: 'pay-noshow-racing', customerId: 'pay-customer-f', amountCents: 5000, tipCents: 0, totalCents: 5000,
+  }));
+  const racingFeeJob = await jobRepository.getJob('pay-noshow-racing');
+  check('No-show fee seen before its attempt has the payment isn\'t matched by reference',
+    racingFeeRecord.matchStatus === 'IGNORED' &&
+    racingFeeJob?.payment?.status !== PaymentStatus.PAID &&
+    !racingFeeJob?.paymentEntries?.length);
+  const pendingRecord = await recordSquarePayment(squarePayment('sq-pending', { status: 'APPROVED', customerId: 'pay-customer-d' }));
+  check('Payments still in progress wait', pendingRecord.matchStatus === 'PENDING');
+  const canceledRecord = await recordSquarePayment(squarePayment('sq-canceled', { status: 'CANCELED' }));
+  check('Canceled payments ignored', canceledRecord.matchStatus === 'IGNORED');
+
+  const paymentQueue = await listUnmatchedPayments();
+  const twinEntry = paymentQueue.find(entry => entry.payment.paymentId === 'sq-twin');
+  check('Queue lists unmatched payments', paymentQueue.map(entry => entry.payment.paymentId).join() === 'sq-twin,sq-late');
+  check('Payer\'s unpaid jobs suggested first', twinEntry?.candidates.slice(0, 2).map(candidate => candidate.jobId).sort().join() === 'pay-twin-1,pay-twin-2' &&
+    !twinEntry.candidates.some(candidate => candidate.jobId === 'pay-ref'));
+
+  console.log('\nTest 20.3: Manual match and dismiss');
+  const manualMatch = await matchPaymentManually('sq-twin', 'pay-twin-2', manager);
+  check('Manual match pays the job', manualMatch.job.payment?.status === PaymentStatus.PAID &&
+    manualMatch.job.payment.matchedBy === 'MANUAL' &&
+    manualMatch.job.payment.paidBy?.userId === manager.userId);
+  const rematch = await matchPaymentManually('sq-twin', 'pay-twin-1', manager).catch(error => error);
+  check('Matched payments can\'t be matched again', rematch instanceof PaymentMatchError && rematch.code === 'ALREADY_MATCHED' && rematch.httpStatus === 409);
+  const paidTwice = await matchPaymentManually('sq-late', 'pay-time', manager).catch(error => error);
+  check('Jobs paid by another payment refused', paidTwice instanceof PaymentMatchError && paidTwice.code === 'JOB_ALREADY_PAID');
+  const noReason = await ignorePayment('sq-late', '  ', manager).catch(error => error);
+  check('Dismissing needs a reason', noReason instanceof PaymentMatchError && noReason.httpStatus === 400);
+  const dismissed = await ignorePayment('sq-late', 'Gift card sale', manager);
+  check('Dismissed payment leaves the queue', dismissed.matchStatus === 'IGNORED' && (await listUnmatchedPayments()).length === 0);
+
+  console.log('\nTest 20.4: Reconciler sync');
+  squarePayments.addPayment(squarePayment('sq-ref', { referenceId: 'pay-ref', customerId: 'pay-customer-a', tipCents: 5000, totalCents: 25000, updatedAt: '2026-11-20T21:00:00.000Z' }));
+  squarePayments.addPayment(squarePayment('sq-late', { customerId: 'pay-customer-c', createdAt: '2026-11-21T12:00:00.000Z' }));
+  squarePayments.addPayment(squarePayment('sq-missed', { referenceId: 'pay-twin-1', createdAt: '2026-11-20T22:00:00.000Z', updatedAt: '2026-11-20T22:00:00.000Z' }));
+  const firstSync = await syncSquarePayments('2026-11-20T00:00:00.000Z', '2026-11-22T00:00:00.000Z');
+  check('Missed webhook picked up', firstSync.seen === 3 && firstSync.matched === 1 &&
+    (await jobRepository.getJob('pay-twin-1'))?.payment?.squarePaymentId === 'sq-missed');
+  const tipUpdated = await jobRepository.getJob('pay-ref');
+  check('Tip adjustment refreshes the job without a second history entry', tipUpdated?.payment?.tipCents === 5000 &&
+    tipUpdated.statusHistory?.filter(entry => entry.event === 'PAYMENT_MATCHED').length === 1);
+  check('Dismissed payment stays dismissed', (await squarePaymentRepository.getPayment('sq-late'))?.matchStatus === 'IGNORED');
+  const secondSync = await syncSquarePayments('2026-11-20T00:00:00.000Z', '2026-11-22T00:00:00.000Z');
+  check('Sync is idempotent', secondSync.matched === 0 && secondSync.unmatched === 0);
+
+  setPaymentsClient(null);
+
+  /**
+   * Test Suite 21: Tax and itemized pricing
+   */
+  console.log('\n\n=== Test Suite 21: Tax and itemized pricing ===\n');
+
+  console.log('Test 21.1: Itemized breakdown');
+  const itemized = buildPriceBreakdown([
+    { type: 'SERVICE', name: 'Full Detail', amountCents: 20000, taxable: true },
+    { type: 'ADDON', name: 'Pet Hair', amountCents: 3000, taxable: true },
+    { type: 'ADDON', name: 'Gift Card Fee', amountCents: 500, taxable: false },
+    { type: 'DISCOUNT', name: 'Loyalty', amountCents: -2000, taxable: true },
+  ], 9.75);
+  check('Subtotal and discounts itemized', itemized.subtotalCents === 23500 && itemized.discountCents === 2000);
+  check('Only taxable lines taxed, after discounts', itemized.taxableCents === 21000 && itemized.taxCents === 2048);
+  check('Total adds it up', itemized.totalCents === 23500 - 2000 + 2048);
+
+  console.log('\nTest 21.2: Per-location rates');
+  check('Default rate until saved', (await getTaxConfig()).defaultRatePercent === 9.75);
+  const badRate = await saveTaxConfig({ defaultRatePercent: 9.75, locations: [{ locationId: 'LOC-B', ratePercent: 40 }] }, manager)
+    .catch(error => error);
+  check('Out-of-range rate rejected', badRate instanceof PricingError && badRate.httpStatus === 400);
+  const taxConfig = await saveTaxConfig({
+    defaultRatePercent: 9.25,
+    locations: [{ locationId: ' LOC-B ', name: 'Brentwood', ratePercent: 7 }],
+  }, manager);
+  check('Location rate used for its location', getTaxRatePercent(taxConfig, 'LOC-B') === 7);
+  check('Other locations use the default', getTaxRatePercent(taxConfig, 'LOC-C') === 9.25);
+
+  const locationPrice = await priceBooking({ servicePriceCents: 10000, locationId: 'LOC-B' });
+  check('Bookings priced at their location\'s rate', locationPrice?.taxCents === 700 &&
+    locationPrice.totalCents === 10700 && locationPrice.locationId === 'LOC-B');
+  check('No prices, no breakdown', (await priceBooking({})) === undefined);
+
+  /**
+   * Test Suite 22: Structured add-ons
+   */
+  console.log('\n\n=== Test Suite 22: Structured add-ons ===\n');
+
+  console.log('Test 22.1: Add-ons from order line items and notes');
+  const orderAddons = toJobAddons([
+    { catalog_object_id: 'VAR-MATS', name: 'Floor Mats', quantity: '4', base_price_money: { amount: 500, currency: 'USD' } },
+    { name: 'Custom Request', quantity: '' },
+  ]);
+  check('Line items keep catalog ID, quantity and price', orderAddons[0].catalogObjectId === 'VAR-MATS' &&
+    orderAddons[0].quantity === 4 && orderAddons[0].priceCents === 500);
+  check('Quantity defaults to one', orderAddons[1].quantity === 1 && orderAddons[1].catalogObjectId === undefined);
+  check('Quantity shown when more than one', formatAddonName(orderAddons[0]) === 'Floor Mats × 4');
+
+  const addonNotes = 'Please park in back\n\n✅ ADD-ONS REQUESTED:\n• Pet Hair Removal\n• Engine Bay\n\n⚠️ Add-ons charged separately';
+  check('Names read from notes', parseAddonNamesFromNotes(addonNotes).join() === 'Pet Hair Removal,Engine Bay');
+  const notedAddons = addonsFromNotes(addonNotes, [{ catalogObjectId: 'VAR-PET', name: 'pet hair removal', quantity: 2, priceCents: 2500 }]);
+  check('Known add-ons fill in ID and price', notedAddons[0].catalogObjectId === 'VAR-PET' &&
+    notedAddons[0].priceCents === 2500 && notedAddons[0].quantity === 1 && notedAddons[0].name === 'Pet Hair Removal');
+  check('Unknown add-ons kept by name', notedAddons[1].catalogObjectId === undefined && notedAddons[1].name === 'Engine Bay');
+  check('Stored add-ons win over notes', getJobAddons({ addons: [], notes: addonNotes }).length === 0 &&
+    getJobAddons({ notes: addonNotes }).length === 2);
+
+  console.log('\nTest 22.2: Priced by booked add-on, not name');
+  const addonPrice = await priceBooking({
+    servicePriceCents: 10000,
+    addons: [{ catalogObjectId: 'VAR-PET', name: 'Pet Hair (renamed)', quantity: 2, priceCents: 2500 }],
+    locationId: 'LOC-B',
+  });
+  const petLine = addonPrice?.lines.find(line => line.type === 'ADDON');
+  check('Add-on priced at booked price times quantity', petLine?.amountCents === 5000 && petLine.catalogObjectId === 'VAR-PET');
+  check('Add-on included in the total', addonPrice?.subtotalCents === 15000 && addonPrice.totalCents === 16050);
+
+  console.log('\nTest 22.3: Bookings store their add-ons');
+  const orderBookedJob = await createJobFromBooking({
+    bookingId: 'addon-order-booking',
+    status: 'ACCEPTED',
+    addons: [{ catalogObjectId: 'VAR-PET', name: 'Pet Hair Removal', quantity: 2, priceCents: 2500 }],
+  });
+  check('Order add-ons stored on the job', orderBookedJob.addons?.[0]?.catalogObjectId === 'VAR-PET' &&
+    orderBookedJob.addons[0].quantity === 2);
+  check('Job priced from its add-ons', orderBookedJob.priceBreakdown?.lines[0]?.amountCents === 5000 &&
+    orderBookedJob.payment?.amountCents === orderBookedJob.priceBreakdown.totalCents);
+  const notesBookedJob = await createJobFromBooking({
+    bookingId: 'addon-notes-booking',
+    status: 'ACCEPTED',
+    notes: addonNotes,
+  });
+  check('Add-ons without an order read from notes', notesBookedJob.addons?.map(addon => addon.name).join() === 'Pet Hair Removal,Engine Bay');
+
+  /**
+   * Test Suite 23: Discounts and tips
+   */
+  console.log('\n\n=== Test Suite 23: Discounts and tips ===\n');
+
+  const discountedPrice = await priceBooking({ servicePriceCents: 20000, locationId: 'LOC-B' });
+  await seedPayableJob('disc-priced', 'disc-customer', '2026-11-25T15:00:00.000Z', {
+    priceBreakdown: discountedPrice,
+    payment: { status: PaymentStatus.UNPAID, amountCents: discountedPrice!.totalCents },
+  });
+  await seedPayableJob('disc-legacy', 'disc-customer', '2026-11-25T16:00:00.000Z');
+  await seedPayableJob('disc-unpriced', 'disc-customer', '2026-11-25T17:00:00.000Z', { payment: undefined });
+
+  console.log('Test 23.1: Validation');
+  check('Percent over 100 rejected', validateDiscount({ type: 'PERCENT', percent: 150, reason: 'PROMOTION' }).length === 1);
+  check('Fractional cents rejected', validateDiscount({ type: 'FIXED', amountCents: 10.5, reason: 'COMP' }).length === 1);
+  check('Other needs a note', validateDiscount({ type: 'FIXED', amountCents: 500, reason: 'OTHER', note: ' ' }).length === 1);
+  check('Negative tips rejected', validateTip(-100) !== undefined && validateTip(0) === undefined && validateTip(undefined) === undefined);
+  const badDiscount = await applyDiscount('disc-priced', { type: 'PERCENT', percent: 0, reason: 'PROMOTION' }, manager)
+    .catch(error => error);
+  check('Invalid discount refused', badDiscount instanceof DiscountError && badDiscount.code === 'INVALID_DISCOUNT' && badDiscount.httpStatus === 400);
+  const unpricedDiscount = await applyDiscount('disc-unpriced', { type: 'FIXED', amountCents: 500, reason: 'COMP' }, manager)
+    .catch(error => error);
+  check('Jobs without a price refused', unpricedDiscount instanceof DiscountError && unpricedDiscount.code === 'NOT_PRICED');
+  check('Missing job returns null', (await applyDiscount('disc-missing', { type: 'FIXED', amountCents: 500, reason: 'COMP' }, manager)) === null);
+
+  console.log('\nTest 23.2: Discounts reprice the job');
+  const percentApplied = await applyDiscount('disc-priced', { type: 'PERCENT', percent: 10, reason: 'RETURNING_CUSTOMER' }, manager);
+  check('Percent taken off before tax', percentApplied?.job.priceBreakdown?.discountCents === 2000 &&
+    percentApplied.job.priceBreakdown.taxCents === 1260 &&
+    percentApplied.job.payment?.amountCents === 19260);
+  check('Discount recorded with reason and history', percentApplied?.discount.reason === 'RETURNING_CUSTOMER' &&
+    percentApplied.job.statusHistory?.some(entry =>
+      entry.event === 'DISCOUNT_APPLIED' && entry.discountId === percentApplied.discount.discountId && entry.amountCents === 2140) === true);
+  const fixedApplied = await applyDiscount('disc-priced', { type: 'FIXED', amountCents: 1500, reason: 'OTHER', note: 'Scratched mirror' }, manager);
+  check('Discounts stack', fixedApplied?.job.discounts?.length === 2 && fixedApplied.job.payment?.amountCents === 17655);
+  const percentRemoved = await removeDiscount('disc-priced', percentApplied!.discount.discountId, manager);
+  check('Removing a discount reprices the job', percentRemoved?.discounts?.length === 1 &&
+    percentRemoved.payment?.amountCents === 19795 &&
+    percentRemoved.statusHistory?.some(entry => entry.event === 'DISCOUNT_REMOVED' && entry.amountCents === 2140) === true);
+  const repriced = await priceBooking({ servicePriceCents: 20000, discounts: percentRemoved!.discounts, locationId: 'LOC-B' });
+  check('Booking repricing keeps discounts', repriced?.totalCents === 19795);
+  const unknownDiscount = await removeDiscount('disc-priced', 'no-such-discount', manager).catch(error => error);
+  check('Unknown discount is 404', unknownDiscount instanceof DiscountError && unknownDiscount.httpStatus === 404);
+
+  const legacyDiscount = await applyDiscount('disc-legacy', { type: 'FIXED', amountCents: 30000, reason: 'SERVICE_RECOVERY' }, manager);
+  check('Legacy jobs discounted from their amount due, never below zero', legacyDiscount?.job.payment?.amountCents === 0 &&
+    legacyDiscount.job.priceBreakdown?.taxCents === 0);
+
+  console.log('\nTest 23.3: Tips and reports');
+  const receiptPhoto = (photoId: string) => ({ photoId, s3Key: `receipts/${photoId}.jpg`, publicUrl: `https://example.com/${photoId}.jpg`, contentType: 'image/jpeg' });
+  const tipped = (await recordPayment('disc-priced', {
+    method: 'CARD', amountCents: 19795, tipCents: 2500, receiptPhotos: [receiptPhoto('disc-receipt')],
+  }, manager))?.job;
+  check('Tip recorded with the payment', tipped?.payment?.status === PaymentStatus.PAID &&
+    tipped.payment.tipCents === 2500 && tipped.payment.amountCents === 19795 &&
+    tipped.statusHistory?.some(entry => entry.event === 'PAYMENT_RECORDED' && entry.tipCents === 2500) === true);
+  const paidDiscount = await applyDiscount('disc-priced', { type: 'PERCENT', percent: 5, reason: 'PROMOTION' }, manager)
+    .catch(error => error);
+  check('Paid jobs can\'t be discounted', paidDiscount instanceof DiscountError && paidDiscount.code === 'ALREADY_PAID' && paidDiscount.httpStatus === 409);
+  const discountReport = buildPerformanceReport([tipped!, legacyDiscount!.job], '2026-11-25', '2026-11-25');
+  check('Report totals discounts and tips', discountReport.totals.discountCents === 1500 + 20000 &&
+    discountReport.totals.tipCents === 2500 && discountReport.totals.collectedCents === 19795);
+
+  /**
+   * Test Suite 24: Payment ledger
+   */
+  console.log('\n\n=== Test Suite 24: Payment ledger ===\n');
+
+  await seedPayableJob('ledger-split', 'ledger-customer', '2026-11-26T15:00:00.000Z');
+  await seedPayableJob('ledger-unpaid', 'ledger-customer', '2026-11-26T16:00:00.000Z');
+  await seedPayableJob('ledger-square', 'ledger-square-customer', '2026-11-26T17:00:00.000Z');
+  const legacyPaid = await seedPayableJob('ledger-legacy', 'ledger-customer', '2026-11-26T18:00:00.000Z', {
+    payment: { status: PaymentStatus.PAID, amountCents: 20000, paidAt: '2026-11-26T19:00:00.000Z' },
+  });
+
+  console.log('Test 24.1: Split payments');
+  const deposit = await recordPayment('ledger-split', {
+    method: 'CASH', amountCents: 5000, receiptPhotos: [receiptPhoto('ledger-deposit')],
+  }, manager);
+  check('Deposit leaves a balance', deposit?.job.payment?.status === PaymentStatus.UNPAID &&
+    getBalanceDueCents(deposit.job) === 15000 && deposit.entry.recordedBy.userId === manager.userId);
+  const overpaid = await recordPayment('ledger-split', {
+    method: 'CARD', amountCents: 20000, receiptPhotos: [receiptPhoto('ledger-over')],
+  }, manager).catch(error => error);
+  check('Paying more than the balance refused', overpaid instanceof PaymentLedgerError && overpaid.code === 'OVERPAYMENT' && overpaid.httpStatus === 400);
+  const noReceipt = await recordPayment('ledger-split', { method: 'CARD', amountCents: 15000 }, manager).catch(error => error);
+  check('Receipt photo required', noReceipt instanceof PaymentLedgerError && noReceipt.code === 'RECEIPT_REQUIRED');
+  const badMethod = await recordPayment('ledger-split', {
+    method: 'SQUARE' as any, amountCents: 15000, receiptPhotos: [receiptPhoto('ledger-bad')],
+  }, manager).catch(error => error);
+  check('Square payments only come from matching', badMethod instanceof PaymentLedgerError && badMethod.code === 'INVALID_PAYMENT');
+  const balance = await recordPayment('ledger-split', {
+    method: 'CHECK', amountCents: 15000, reference: '1042', receiptPhotos: [receiptPhoto('ledger-check')],
+  }, manager);
+  check('Job paid once the balance is covered', balance?.job.payment?.status === PaymentStatus.PAID &&
+    balance.job.payment.paidAt === balance.entry.recordedAt &&
+    getPaidCents(balance.job) === 20000 &&
+    balance.job.statusHistory?.filter(entry => entry.event === 'PAYMENT_RECORDED').length === 2);
+  check('Receipts kept on the entry', balance?.entry.receiptPhotos?.[0]?.photoId === 'ledger-check');
+  const paidAgain = await recordPayment('ledger-split', {
+    method: 'CASH', amountCents: 100, receiptPhotos: [receiptPhoto('ledger-again')],
+  }, manager).catch(error => error);
+  check('Paid jobs take no more payments', paidAgain instanceof PaymentLedgerError && paidAgain.httpStatus === 409);
+  check('Legacy paid jobs count as paid in full', getPaidCents(legacyPaid) === 20000 && getBalanceDueCents(legacyPaid) === 0);
+
+  console.log('\nTest 24.2: Voiding');
+  const checkEntryId = balance!.entry.entryId;
+  const noVoidReason = await voidPaymentEntry('ledger-split', checkEntryId, ' ', manager).catch(error => error);
+  check('Voiding needs a reason', noVoidReason instanceof PaymentLedgerError && noVoidReason.code === 'REASON_REQUIRED');
+  const bounced = await voidPaymentEntry('ledger-split', checkEntryId, 'Check bounced', manager);
+  check('Voided payment reopens the balance', bounced?.payment?.status === PaymentStatus.UNPAID &&
+    getBalanceDueCents(bounced) === 15000 &&
+    bounced.paymentEntries?.find(entry => entry.entryId === checkEntryId)?.voidReason === 'Check bounced' &&
+    bounced.statusHistory?.some(entry => entry.event === 'PAYMENT_VOIDED' && entry.paymentEntryId === checkEntryId) === true);
+  const voidedTwice = await voidPaymentEntry('ledger-split', checkEntryId, 'Again', manager).catch(error => error);
+  check('Entries voided once', voidedTwice instanceof PaymentLedgerError && voidedTwice.httpStatus === 409);
+  const unknownEntry = await voidPaymentEntry('ledger-split', 'no-such-entry', 'Typo', manager).catch(error => error);
+  check('Unknown entry is 404', unknownEntry instanceof PaymentLedgerError && unknownEntry.httpStatus === 404);
+
+  await recordPayment('ledger-unpaid', { method: 'CARD', amountCents: 20000, receiptPhotos: [receiptPhoto('ledger-full')] }, manager);
+  const markedUnpaid = await updateJobWithAudit('ledger-unpaid', {
+    payment: { status: PaymentStatus.UNPAID, unpaidReason: 'Mistake' },
+  }, manager);
+  check('Marking unpaid voids the payments', markedUnpaid?.payment?.status === PaymentStatus.UNPAID &&
+    markedUnpaid.payment.unpaidReason === 'Mistake' &&
+    markedUnpaid.paymentEntries?.every(entry => entry.voidReason === 'Mistake') === true &&
+    getBalanceDueCents(markedUnpaid) === 20000);
+
+  console.log('\nTest 24.3: Square payments and reports');
+  await recordPayment('ledger-square', { method: 'CASH', amountCents: 12000, receiptPhotos: [receiptPhoto('ledger-cash')] }, manager);
+  const squareRest = squarePayment('sq-ledger', { referenceId: 'ledger-square', amountCents: 8000, tipCents: 1000, totalCents: 9000 });
+  await recordSquarePayment(squareRest);
+  await recordSquarePayment({ ...squareRest, updatedAt: '2026-11-20T21:00:00.000Z' });
+  const squareLedger = await jobRepository.getJob('ledger-square');
+  check('Square payment pays the balance', squareLedger?.payment?.status === PaymentStatus.PAID &&
+    squareLedger.payment.squarePaymentId === 'sq-ledger' && squareLedger.payment.tipCents === 1000);
+  check('Square entry recorded once', squareLedger?.paymentEntries?.filter(entry => entry.method === 'SQUARE').length === 1 &&
+    squareLedger.paymentEntries.length === 2);
+  const ledgerReport = buildPerformanceReport([bounced!, markedUnpaid!, squareLedger!], '2026-11-26', '2026-11-26');
+  check('Report counts part payments and skips voided ones', ledgerReport.totals.collectedCents === 5000 + 20000 &&
+    ledgerReport.totals.tipCents === 1000);
+
+  /**
+   * Test Suite 25: Refunds
+   */
+  console.log('\n\n=== Test Suite 25: Refunds ===\n');
+
+  const squareRefunds = createFakePaymentsClient();
+  setPaymentsClient(squareRefunds);
+
+  await seedPayableJob('refund-cash', 'refund-customer', '2026-11-27T15:00:00.000Z');
+  await seedPayableJob('refund-square', 'refund-square-customer', '2026-11-27T16:00:00.000Z');
+  const cashPaid = await recordPayment('refund-cash', {
+    method: 'CASH', amountCents: 20000, tipCents: 2000, receiptPhotos: [receiptPhoto('refund-cash')],
+  }, manager);
+  const cashEntryId = cashPaid!.entry.entryId;
+  const refundIssue = await openIssue('refund-cash', { type: 'CUSTOMER_COMPLAINT', notes: 'Interior still dirty' }, manager);
+
+  console.log('Test 25.1: Validation');
+  check('Refund needs a reason and a positive amount',
+    validateRefund({ paymentEntryId: cashEntryId, amountCents: 0, reason: ' ' }).length === 2);
+  const overRefund = await refundPayment('refund-cash', { paymentEntryId: cashEntryId, amountCents: 22000, reason: 'Tip too' }, manager)
+    .catch(error => error);
+  check('Refunds capped at the payment (tip excluded)', overRefund instanceof PaymentLedgerError && overRefund.code === 'OVER_REFUND');
+  const strayIssue = await refundPayment('refund-cash', { paymentEntryId: cashEntryId, amountCents: 500, reason: 'Goodwill', issueId: 'no-such-issue' }, manager)
+    .catch(error => error);
+  check('Linked issue must be on the job', strayIssue instanceof PaymentLedgerError && strayIssue.httpStatus === 404);
+  const strayEntry = await refundPayment('refund-cash', { paymentEntryId: 'no-such-entry', amountCents: 500, reason: 'Goodwill' }, manager)
+    .catch(error => error);
+  check('Unknown payment is 404', strayEntry instanceof PaymentLedgerError && strayEntry.code === 'ENTRY_NOT_FOUND');
+
+  console.log('\nTest 25.2: Cash refunds');
+  const partialRefund = await refundPayment('refund-cash', {
+    paymentEntryId: cashEntryId, amountCents: 5000, reason: 'Interior redo declined', issueId: refundIssue!.issue.issueId,
+  }, manager);
+  check('Partial refund recorded against the issue', partialRefund?.refund.status === 'COMPLETED' &&
+    partialRefund.refund.issueId === refundIssue!.issue.issueId &&
+    squareRefunds.refunds.length === 0);
+  check('Refund in the timeline', partialRefund?.job.statusHistory?.some(entry =>
+    entry.event === 'PAYMENT_REFUNDED' && entry.refundId === partialRefund.refund.refundId &&
+    entry.amountCents === 5000 && entry.issueId === refundIssue!.issue.issueId) === true);
+  check('Refund doesn\'t reopen the balance', partialRefund?.job.payment?.status === PaymentStatus.PAID &&
+    getBalanceDueCents(partialRefund.job) === 0 && getRefundedCents(partialRefund.job) === 5000);
+  const restRefund = await refundPayment('refund-cash', { paymentEntryId: cashEntryId, amountCents: 15000, reason: 'Customer unhappy' }, manager);
+  const emptyRefund = await refundPayment('refund-cash', { paymentEntryId: cashEntryId, amountCents: 100, reason: 'Again' }, manager)
+    .catch(error => error);
+  check('Fully refunded payments take no more refunds', restRefund?.refund.status === 'COMPLETED' &&
+    emptyRefund instanceof PaymentLedgerError && emptyRefund.code === 'NOT_REFUNDABLE' && emptyRefund.httpStatus === 409);
+
+  console.log('\nTest 25.3: Square refunds');
+  await recordSquarePayment(squarePayment('sq-refund', { referenceId: 'refund-square', currency: 'USD' }));
+  const squareEntry = (await jobRepository.getJob('refund-square'))?.paymentEntries?.[0];
+  squareRefunds.refuseNextRefund('REFUND_AMOUNT_INVALID: Refund exceeds the payment');
+  const refusedRefund = await refundPayment('refund-square', { paymentEntryId: squareEntry!.entryId, amountCents: 8000, reason: 'Scratched rim' }, manager);
+  check('Square refusal comes back FAILED', refusedRefund?.refund.status === 'FAILED' &&
+    refusedRefund.refund.failureReason?.startsWith('REFUND_AMOUNT_INVALID') === true &&
+    getRefundedCents(refusedRefund.job) === 0 &&
+    refusedRefund.job.statusHistory?.some(entry => entry.event === 'PAYMENT_REFUND_FAILED') === true);
+  const squareRefund = await refundPayment('refund-square', { paymentEntryId: squareEntry!.entryId, amountCents: 8000, reason: 'Scratched rim' }, manager);
+  check('Square payments refunded through Square', squareRefund?.refund.status === 'COMPLETED' &&
+    squareRefund.refund.squareRefundId === squareRefunds.refunds[0]?.refundId &&
+    squareRefunds.refunds[0].paymentId === 'sq-refund' &&
+    squareRefunds.refunds[0].amountCents === 8000 &&
+    squareRefunds.refunds[0].idempotencyKey === squareRefund.refund.refundId);
+
+  const refundReport = buildPerformanceReport([restRefund!.job, squareRefund!.job], '2026-11-27', '2026-11-27');
+  check('Report takes refunds off collected revenue', refundReport.totals.refundedCents === 20000 + 8000 &&
+    refundReport.totals.collectedCents === 20000 - 8000 &&
+    refundReport.totals.tipCents === 2000 + 3000);
+
+  console.log('\nTest 25.4: Settling PENDING Square refunds');
+  const allRefunds = { beginTime: '2000-01-01T00:00:00.000Z', endTime: '2100-01-01T00:00:00.000Z' };
+  squareRefunds.holdNextRefund();
+  const heldRefund = await refundPayment('refund-square', { paymentEntryId: squareEntry!.entryId, amountCents: 1000, reason: 'Missed spot' }, manager);
+  check('Square can leave a refund PENDING', heldRefund?.refund.status === 'PENDING' &&
+    getRefundedCents(heldRefund.job) === 8000 + 1000);
+
+  squareRefunds.settleRefund(heldRefund!.refund.squareRefundId!, 'FAILED');
+  const failedSquareRefund = (await squareRefunds.listRefunds(allRefunds))
+    .find(refund => refund.refundId === heldRefund!.refund.squareRefundId)!;
+  const failedRefundJob = await recordSquareRefund(failedSquareRefund);
+  check('PENDING refund Square fails stops counting',
+    failedRefundJob?.refunds?.find(refund => refund.refundId === heldRefund!.refund.refundId)?.status === 'FAILED' &&
+    getRefundedCents(failedRefundJob) === 8000 &&
+    failedRefundJob.statusHistory?.some(entry =>
+      entry.event === 'PAYMENT_REFUND_FAILED' && entry.refundId === heldRefund!.refund.refundId) === true);
+  check('Settled refunds are left alone', (await recordSquareRefund(failedSquareRefund)) === null);
+
+  squareRefunds.holdNextRefund();
+  const polledRefund = await refundPayment('refund-square', { paymentEntryId: squareEntry!.entryId, amountCents: 1000, reason: 'Missed spot' }, manager);
+  squareRefunds.settleRefund(polledRefund!.refund.squareRefundId!, 'COMPLETED');
+  const refundSync = await syncSquareRefunds(allRefunds.beginTime, allRefunds.endTime);
+  const polledRefundJob = await jobRepository.getJob('refund-square');
+  check('Reconciler settles refunds Square completed', refundSync.settled === 1 &&
+    polledRefundJob?.refunds?.find(refund => refund.refundId === polledRefund!.refund.refundId)?.status === 'COMPLETED' &&
+    getRefundedCents(polledRefundJob) === 8000 + 1000);
+
+  console.log('\nTest 25.5: Square refunds sent without an answer');
+  await seedPayableJob('refund-unanswered', 'refund-unanswered-customer', '2026-11-27T18:00:00.000Z');
+  await recordSquarePayment(squarePayment('sq-unanswered', { referenceId: 'refund-unanswered' }));
+  const unansweredEntry = (await jobRepository.getJob('refund-unanswered'))?.paymentEntries?.[0];
+  const squareRefundsBefore = squareRefunds.refunds.length;
+  squareRefunds.timeOutNextRefund();
+  const unansweredRefund = await refundPayment('refund-unanswered', { paymentEntryId: unansweredEntry!.entryId, amountCents: 2000, reason: 'Wax skipped' }, manager);
+  check('Unanswered refund stays PENDING, not FAILED', unansweredRefund?.refund.status === 'PENDING' &&
+    !unansweredRefund.refund.squareRefundId &&
+    !!unansweredRefund.refund.failureReason?.includes('timed out') &&
+    getRefundedCents(unansweredRefund.job) === 2000);
+  const otherAmountRefund = await refundPayment('refund-unanswered', { paymentEntryId: unansweredEntry!.entryId, amountCents: 500, reason: 'Wax skipped' }, manager)
+    .catch(error => error);
+  check('No new refund on the payment while one waits on Square',
+    otherAmountRefund instanceof PaymentLedgerError && otherAmountRefund.code === 'REFUND_UNCONFIRMED' && otherAmountRefund.httpStatus === 409);
+  const repeatedRefund = await refundPayment('refund-unanswered', { paymentEntryId: unansweredEntry!.entryId, amountCents: 2000, reason: 'Wax skipped' }, manager);
+  check('Asking again resends the same refund without refunding twice', repeatedRefund?.refund.status === 'COMPLETED' &&
+    repeatedRefund.refund.refundId === unansweredRefund!.refund.refundId &&
+    !repeatedRefund.refund.failureReason &&
+    repeatedRefund.job.refunds?.length === 1 &&
+    squareRefunds.refunds.length === squareRefundsBefore + 1);
+
+  squareRefunds.timeOutNextRefund();
+  const reconciledRefund = await refundPayment('refund-unanswered', { paymentEntryId: unansweredEntry!.entryId, amountCents: 1000, reason: 'Late pickup' }, manager);
+  const resendSync = await syncSquareRefunds(allRefunds.beginTime, allRefunds.endTime);
+  const resentRefundJob = await jobRepository.getJob('refund-unanswered');
+  check('Reconciler resends refunds Square never answered', resendSync.resent === 1 &&
+    resentRefundJob?.refunds?.find(refund => refund.refundId === reconciledRefund!.refund.refundId)?.status === 'COMPLETED' &&
+    squareRefunds.refunds.filter(refund => refund.idempotencyKey === reconciledRefund!.refund.refundId).length === 1 &&
+    !resentRefundJob.pendingRefundKey);
+
+  console.log('\nTest 25.6: Matched payments Square voids or refunds');
+  await recordSquarePayment(squarePayment('sq-refund', { referenceId: 'refund-square', refundedCents: 9000 }));
+  check('Refunds made through the app aren\'t recorded twice',
+    (await jobRepository.getJob('refund-square'))?.refunds?.length === 4);
+
+  await seedPayableJob('refund-in-square', 'refund-in-square-customer', '2026-11-27T17:00:00.000Z');
+  await recordSquarePayment(squarePayment('sq-in-square', { referenceId: 'refund-in-square' }));
+  await recordSquarePayment(squarePayment('sq-in-square', { referenceId: 'refund-in-square', refundedCents: 5000 }));
+  const dashboardRefunded = await recordSquarePayment(squarePayment('sq-in-square', { referenceId: 'refund-in-square', refundedCents: 5000 }));
+  const dashboardRefundJob = await jobRepository.getJob(dashboardRefunded.jobId!);
+  check('Money refunded in Square recorded once as a refund', dashboardRefundJob?.refunds?.length === 1 &&
+    dashboardRefundJob.refunds[0].status === 'COMPLETED' && dashboardRefundJob.refunds[0].amountCents === 5000 &&
+    getRefundedCents(dashboardRefundJob) === 5000 &&
+    dashboardRefundJob.statusHistory?.filter(entry => entry.event === 'PAYMENT_REFUNDED').length === 1);
+
+  await recordSquarePayment(squarePayment('sq-in-square', { referenceId: 'refund-in-square', status: 'FAILED' }));
+  const voidedSquareJob = await jobRepository.getJob('refund-in-square');
+  check('Payment Square fails voids its entry', voidedSquareJob?.paymentEntries?.[0].voidedAt !== undefined &&
+    voidedSquareJob.payment?.status !== PaymentStatus.PAID &&
+    getRefundedCents(voidedSquareJob) === 0 &&
+    voidedSquareJob.statusHistory?.filter(entry => entry.event === 'PAYMENT_VOIDED').length === 1);
+
+  setPaymentsClient(null);
+
+  console.log('\n\n=== Test Summary ===\n');
+  if (failures > 0) {
+    console.log(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('✅ All jobs API tests passed');
+}
+
+runTests().catch(error => {
+  console.error('\n❌ Jobs API test failed:', error.message);
+  console.error('Stack:', error.stack);
+  process.exit(1);
+});